@@ -13,12 +13,12 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import type { Appointment, Doctor, Patient, User } from "@/lib/types";
+import type { Appointment, CapacityPolicy, Doctor, Patient, User } from "@/lib/types";
 import { collection, getDocs, setDoc, doc, query, where, getDoc as getFirestoreDoc, updateDoc, increment, arrayUnion, deleteDoc, writeBatch, serverTimestamp, addDoc, orderBy, onSnapshot, runTransaction } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useToast } from "@/hooks/use-toast";
 import { parse, isSameDay, parse as parseDateFns, format, getDay, isPast, isFuture, isToday, startOfYear, endOfYear, addMinutes, isBefore, subMinutes, isAfter, startOfDay, addHours, differenceInMinutes, parseISO, addDays, isSameMinute } from "date-fns";
-import { getClinicNow, getClinicTimeString, getClinicDateString, getClinicDayOfWeek, updateAppointmentAndDoctorStatuses, isSlotBlockedByLeave, compareAppointments, compareAppointmentsClassic, calculateEstimatedTimes, getClassicTokenCounterId, prepareNextClassicTokenNumber, commitNextClassicTokenNumber } from '@kloqo/shared-core';
+import { getClinicNow, getClinicTimeString, getClinicDateString, getClinicDayOfWeek, getAppointmentDateFields, updateAppointmentAndDoctorStatuses, isSlotBlockedByLeave, compareAppointments, compareAppointmentsClassic, calculateEstimatedTimes, getClassicTokenCounterId, prepareNextClassicTokenNumber, commitNextClassicTokenNumber } from '@kloqo/shared-core';
 import { cn, parseTime as parseTimeUtil } from "@/lib/utils";
 import {
   Form,
@@ -40,7 +40,7 @@ import {
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Calendar } from "@/components/ui/calendar";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { ChevronLeft, FileDown, Printer, Search, MoreHorizontal, Eye, Edit, Trash2, ChevronRight, Stethoscope, Phone, Footprints, Loader2, Link as LinkIcon, Crown, UserCheck, UserPlus, Users, Plus, X, Clock, Calendar as CalendarLucide, CheckCircle2, Info, Send, MessageSquare, Smartphone, Hourglass, Repeat, SkipForward, AlertTriangle, Star } from "lucide-react";
+import { ChevronLeft, FileDown, Printer, Search, MoreHorizontal, Eye, Edit, Trash2, ChevronRight, Stethoscope, Phone, Footprints, Loader2, Link as LinkIcon, Crown, UserCheck, UserPlus, Users, Plus, X, Clock, History, Calendar as CalendarLucide, CheckCircle2, Info, Send, MessageSquare, Smartphone, Hourglass, Repeat, SkipForward, AlertTriangle, Star } from "lucide-react";
 import { DateRange } from "react-day-picker";
 import { DateRangePicker } from "@/components/ui/date-range-picker";
 import {
@@ -56,9 +56,11 @@ import { Command, CommandEmpty, CommandGroup, CommandItem, CommandList } from "@
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/firebase";
+import { useStaffMember } from "@/hooks/useStaffMember";
 import { useSearchParams } from 'next/navigation';
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { AddRelativeDialog } from "@/components/patients/add-relative-dialog";
+import { AppointmentHistoryDialog } from "@/components/appointments/appointment-history-dialog";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogClose } from "@/components/ui/dialog";
 import { FirestorePermissionError } from "@/firebase/errors";
 import { errorEmitter } from "@/firebase/error-emitter";
@@ -68,9 +70,17 @@ import { Label } from "@/components/ui/label";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import {
+  applyAppointmentMutation,
   calculateWalkInDetails,
+  cancelAppointment,
   generateNextTokenAndReserveSlot,
+  getStaffRole,
+  getUserActor,
+  hasPermission,
+  mutateAppointment,
   previewWalkInPlacement,
+  calculateWalkInReserve,
+  createSessionRatioResolver,
 } from '@kloqo/shared-core';
 
 import { sendAppointmentCancelledNotification, sendTokenCalledNotification, sendAppointmentBookedByStaffNotification, sendBreakUpdateNotification, sendWhatsAppArrivalConfirmed } from '@kloqo/shared-core';
@@ -164,7 +174,7 @@ function isDoctorAdvanceCapacityReachedOnDate(
   doctor: Doctor,
   date: Date,
   appointments: Appointment[],
-  options: { isEditing?: boolean; editingAppointment?: Appointment | null } = {}
+  options: { isEditing?: boolean; editingAppointment?: Appointment | null; clinicCapacityPolicy?: CapacityPolicy | null } = {}
 ): boolean {
   const dayOfWeekName = daysOfWeek[getDay(date)];
   const availabilityForDay = doctor.availabilitySlots?.find(slot => slot.day === dayOfWeekName);
@@ -173,6 +183,7 @@ function isDoctorAdvanceCapacityReachedOnDate(
   }
 
   const slotDuration = doctor.averageConsultingTime || 15;
+  const sessionAdvanceRatio = createSessionRatioResolver(doctor, date, options.clinicCapacityPolicy);
   const now = getClinicNow();
   const dateKey = format(date, 'd MMMM yyyy');
   const slotsBySession: Array<{ sessionIndex: number; slotCount: number }> = [];
@@ -225,8 +236,8 @@ function isDoctorAdvanceCapacityReachedOnDate(
   }
 
   let maximumAdvanceTokens = 0;
-  slotsBySession.forEach(({ slotCount }) => {
-    const sessionMinimumWalkInReserve = slotCount > 0 ? Math.ceil(slotCount * 0.15) : 0;
+  slotsBySession.forEach(({ sessionIndex, slotCount }) => {
+    const sessionMinimumWalkInReserve = calculateWalkInReserve(slotCount, sessionAdvanceRatio(sessionIndex));
     const sessionAdvanceCapacity = Math.max(slotCount - sessionMinimumWalkInReserve, 0);
     maximumAdvanceTokens += sessionAdvanceCapacity;
   });
@@ -309,6 +320,7 @@ function getNextAvailableDate(
 
 export default function AppointmentsPage() {
   const auth = useAuth();
+  const { staff } = useStaffMember();
   const searchParams = useSearchParams();
 
   const [isDrawerExpanded, setIsDrawerExpanded] = useState(false);
@@ -343,6 +355,7 @@ export default function AppointmentsPage() {
   const [appointmentToAddToQueue, setAppointmentToAddToQueue] = useState<Appointment | null>(null);
   const [appointmentToComplete, setAppointmentToComplete] = useState<Appointment | null>(null);
   const [appointmentToPrioritize, setAppointmentToPrioritize] = useState<Appointment | null>(null);
+  const [historyAppointment, setHistoryAppointment] = useState<Appointment | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [swipeCooldownUntil, setSwipeCooldownUntil] = useState<number | null>(null);
   const [showVisualView, setShowVisualView] = useState(false);
@@ -1311,6 +1324,7 @@ export default function AppointmentsPage() {
               slotIndex: walkInEstimate.slotIndex,
               doctorId: selectedDoctor.id,
               isForceBooked: (walkInEstimate as any)?.isForceBooked,
+              staff,
             }
           );
 
@@ -1343,6 +1357,7 @@ export default function AppointmentsPage() {
             status: 'Confirmed', // Walk-ins are physically present at clinic
             // Store reporting time in `time` for both walk-in and advance for consistency
             time: getClinicTimeString(reportingTime),
+            ...getAppointmentDateFields(appointmentDateStr, getClinicTimeString(reportingTime)),
             arriveByTime: getClinicTimeString(reportingTime),
             tokenNumber: tokenNumber,
             numericToken: numericToken,
@@ -1590,7 +1605,8 @@ export default function AppointmentsPage() {
                   tokenDistribution: clinicDetails?.tokenDistribution,
                   classicTokenNumber: appointmentData.classicTokenNumber || appointmentData.tokenNumber,
                   isWalkIn: true, // TRIGGER: Paid template for Walk-in
-                  clinicId: clinicId
+                  clinicId: clinicId,
+                  patientId: appointmentData.patientId
                 });
               }
 
@@ -1686,6 +1702,7 @@ export default function AppointmentsPage() {
                 // slotIndex removed - let shared logic find best available slot
                 doctorId: selectedDoctor.id,
                 existingAppointmentId: oldAppointmentId || undefined,
+                staff,
               }
             );
           } catch (error: any) {
@@ -1850,6 +1867,7 @@ export default function AppointmentsPage() {
             doctor: selectedDoctor.name,
             date: appointmentDateStr,
             time: actualAppointmentTimeStr,
+            ...getAppointmentDateFields(appointmentDateStr, actualAppointmentTimeStr),
             arriveByTime: arriveByTimeValue,
             department: values.department,
             status: 'Pending', // New appointment always starts as Pending
@@ -2187,6 +2205,7 @@ export default function AppointmentsPage() {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            Authorization: `Bearer ${await auth.currentUser?.getIdToken()}`,
           },
           body: JSON.stringify({
             to: fullPhoneNumber,
@@ -2236,11 +2255,10 @@ export default function AppointmentsPage() {
   const handleCancel = (appointment: Appointment) => {
     startTransition(async () => {
       try {
-        const appointmentRef = doc(db, "appointments", appointment.id);
-        await updateDoc(appointmentRef, {
-          status: 'Cancelled',
-          isInBuffer: false
-        });
+        await cancelAppointment(db, appointment, {
+          actor: getUserActor(auth.currentUser, getStaffRole(staff)),
+          source: 'clinic-admin',
+        }, staff);
 
         // Refill buffer if doctor is 'In'
         const doctor = doctors.find(d => d.name === appointment.doctor);
@@ -2255,10 +2273,10 @@ export default function AppointmentsPage() {
           if (currentBuffered.length < 2) {
             const nextCandidate = confirmed.find(a => !a.isInBuffer);
             if (nextCandidate) {
-              await updateDoc(doc(db, 'appointments', nextCandidate.id), {
+              await mutateAppointment(db, nextCandidate, {
                 isInBuffer: true,
                 updatedAt: serverTimestamp()
-              });
+              }, { action: 'updated', actor: getUserActor(auth.currentUser, getStaffRole(staff)), source: 'clinic-admin' });
             }
           }
         }
@@ -2290,9 +2308,13 @@ export default function AppointmentsPage() {
         }
 
         toast({ title: "Appointment Cancelled" });
-      } catch (error) {
+      } catch (error: any) {
         console.error("Error cancelling appointment:", error);
-        toast({ variant: "destructive", title: "Error", description: "Failed to cancel appointment." });
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: error.name === 'PermissionDeniedError' ? error.message : "Failed to cancel appointment.",
+        });
       }
     });
   };
@@ -2300,7 +2322,6 @@ export default function AppointmentsPage() {
   const handleComplete = async (appointment: Appointment) => {
     startTransition(async () => {
       try {
-        const appointmentRef = doc(db, "appointments", appointment.id);
         const appointmentDoctor = doctors.find(d => d.name === appointment.doctor);
         const now = new Date();
 
@@ -2326,11 +2347,11 @@ export default function AppointmentsPage() {
           }
         }
 
-        await updateDoc(appointmentRef, {
+        await mutateAppointment(db, appointment, {
           status: 'Completed',
           completedAt: serverTimestamp(),
           isInBuffer: false
-        });
+        }, { action: 'completed', actor: getUserActor(auth.currentUser, getStaffRole(staff)), source: 'clinic-admin' });
 
         // Refill buffer if doctor is 'In'
         if (appointmentDoctor?.consultationStatus === 'In') {
@@ -2344,10 +2365,10 @@ export default function AppointmentsPage() {
           if (currentBuffered.length < 2) {
             const nextCandidate = confirmed.find(a => !a.isInBuffer);
             if (nextCandidate) {
-              await updateDoc(doc(db, 'appointments', nextCandidate.id), {
+              await mutateAppointment(db, nextCandidate, {
                 isInBuffer: true,
                 updatedAt: serverTimestamp()
-              });
+              }, { action: 'updated', actor: getUserActor(auth.currentUser, getStaffRole(staff)), source: 'clinic-admin' });
             }
           }
         }
@@ -2407,7 +2428,6 @@ export default function AppointmentsPage() {
           throw new Error('Invalid appointment slot index');
         }
 
-        const appointmentRef = doc(db, "appointments", appointment.id);
         const todayStr = format(new Date(), 'd MMMM yyyy');
 
         // Find all appointments with slotIndex > skippedSlotIndex that need to be shifted backwards
@@ -2420,11 +2440,12 @@ export default function AppointmentsPage() {
         });
 
         // Step 1: Mark as skipped with timestamp
-        await updateDoc(appointmentRef, {
+        const actor = getUserActor(auth.currentUser, getStaffRole(staff));
+        await mutateAppointment(db, appointment, {
           status: 'Skipped',
           skippedAt: serverTimestamp(),
           isInBuffer: false
-        });
+        }, { action: 'skipped', actor, source: 'clinic-admin' });
 
         // Refill buffer if doctor is 'In'
         const doctor = doctors.find(d => d.name === appointment.doctor);
@@ -2439,10 +2460,10 @@ export default function AppointmentsPage() {
           if (currentBuffered.length < 2) {
             const nextCandidate = confirmed.find(a => !a.isInBuffer);
             if (nextCandidate) {
-              await updateDoc(doc(db, 'appointments', nextCandidate.id), {
+              await mutateAppointment(db, nextCandidate, {
                 isInBuffer: true,
                 updatedAt: serverTimestamp()
-              });
+              }, { action: 'updated', actor: getUserActor(auth.currentUser, getStaffRole(staff)), source: 'clinic-admin' });
             }
           }
         }
@@ -2451,11 +2472,10 @@ export default function AppointmentsPage() {
         if (appointmentsToShift.length > 0) {
           const batch = writeBatch(db);
           for (const apt of appointmentsToShift) {
-            const aptRef = doc(db, 'appointments', apt.id);
-            batch.update(aptRef, {
+            applyAppointmentMutation(batch, db, apt, {
               slotIndex: (apt.slotIndex ?? 0) - 1,
               updatedAt: serverTimestamp()
-            });
+            }, { action: 'slot_shifted', actor, source: 'clinic-admin', reason: `Token ${appointment.tokenNumber} skipped` });
           }
           await batch.commit();
         }
@@ -2533,7 +2553,8 @@ export default function AppointmentsPage() {
               appointmentId: appointment.id,
               tokenDistribution: clinicDetails?.tokenDistribution,
               classicTokenNumber: apptData?.classicTokenNumber || appointment.classicTokenNumber,
-              clinicId: clinicId || ''
+              clinicId: clinicId || '',
+              patientId: appointment.patientId
             });
           } catch (notifErr) {
             console.error('[APPOINTMENTS] Failed to send arrival notification:', notifErr);
@@ -2649,7 +2670,8 @@ export default function AppointmentsPage() {
               tokenDistribution: clinicDetails?.tokenDistribution,
               classicTokenNumber: finalClassicTokenNumber || appointment.classicTokenNumber,
               isWalkIn: false, // Strategy: FREE message
-              clinicId: clinicId || ''
+              clinicId: clinicId || '',
+              patientId: appointment.patientId
             });
             console.log('[APPOINTMENTS] WhatsApp notification sent for rejoin queue');
           } catch (notifErr) {
@@ -2781,8 +2803,12 @@ export default function AppointmentsPage() {
     if (!selectedDoctor || appointmentType !== 'Advanced Booking' || !selectedDate) {
       return false;
     }
-    return isDoctorAdvanceCapacityReachedOnDate(selectedDoctor, selectedDate, appointments, { isEditing, editingAppointment });
-  }, [selectedDoctor, selectedDate, appointments, appointmentType, isEditing, editingAppointment]);
+    return isDoctorAdvanceCapacityReachedOnDate(selectedDoctor, selectedDate, appointments, {
+      isEditing,
+      editingAppointment,
+      clinicCapacityPolicy: clinicDetails?.capacityPolicy,
+    });
+  }, [selectedDoctor, selectedDate, appointments, appointmentType, isEditing, editingAppointment, clinicDetails?.capacityPolicy]);
 
   useEffect(() => {
     if (appointmentType !== 'Advanced Booking') {
@@ -2810,7 +2836,7 @@ export default function AppointmentsPage() {
           selectedDoctor,
           candidate,
           appointments,
-          { isEditing, editingAppointment }
+          { isEditing, editingAppointment, clinicCapacityPolicy: clinicDetails?.capacityPolicy }
         );
         if (!capacityReached) {
           form.setValue('date', candidate, { shouldValidate: true });
@@ -2826,6 +2852,7 @@ export default function AppointmentsPage() {
     appointments,
     isEditing,
     editingAppointment,
+    clinicDetails?.capacityPolicy,
     form,
   ]);
 
@@ -2867,6 +2894,7 @@ export default function AppointmentsPage() {
     // This dynamically adjusts as time passes - reserved slots are recalculated based on remaining future slots
     const reservedSlotsBySession = new Map<number, Set<number>>();
     const slotDuration = selectedDoctor.averageConsultingTime || 15;
+    const sessionAdvanceRatio = createSessionRatioResolver(selectedDoctor, selectedDate, clinicDetails?.capacityPolicy);
     const now = currentTime; // Use current time to filter past slots
     let globalSlotIndex = 0;
     const bookedGlobalIndices = new Set<number>(
@@ -2919,7 +2947,7 @@ export default function AppointmentsPage() {
 
       if (futureFreeSlots.length > 0) {
         const futureSlotCount = futureFreeSlots.length;
-        const sessionMinimumWalkInReserve = Math.ceil(futureSlotCount * 0.15);
+        const sessionMinimumWalkInReserve = calculateWalkInReserve(futureSlotCount, sessionAdvanceRatio(sessionIndex));
         const reservedWSlotsStart = futureSlotCount - sessionMinimumWalkInReserve;
         const reservedSlots = new Set<number>();
 
@@ -3113,7 +3141,7 @@ export default function AppointmentsPage() {
       firstSessionSlots: sessions[0]?.slots.length
     });
     return res;
-  }, [selectedDate, selectedDoctor, appointments, isEditing, editingAppointment, appointmentType, currentTime, isAdvanceCapacityReached]);
+  }, [selectedDate, selectedDoctor, appointments, isEditing, editingAppointment, appointmentType, currentTime, isAdvanceCapacityReached, clinicDetails?.capacityPolicy]);
 
   const isAppointmentOnLeave = (appointment: Appointment): boolean => {
     if (!doctors.length || !appointment) return false;
@@ -3445,7 +3473,11 @@ export default function AppointmentsPage() {
         priorityAt: isAddingPriority ? serverTimestamp() : null
       };
 
-      await updateDoc(doc(db, "appointments", appointmentToPrioritize.id), updates);
+      await mutateAppointment(db, appointmentToPrioritize, updates, {
+        action: isAddingPriority ? 'priority_added' : 'priority_removed',
+        actor: getUserActor(auth.currentUser, getStaffRole(staff)),
+        source: 'clinic-admin',
+      });
 
       toast({
         title: isAddingPriority ? "Marked as Priority" : "Removed from Priority",
@@ -4467,29 +4499,41 @@ export default function AppointmentsPage() {
                                                 <Edit className="mr-2 h-4 w-4" />
                                                 Reschedule
                                               </DropdownMenuItem>
-                                              <DropdownMenuItem onClick={() => setAppointmentToCancel(appointment)} className="text-red-600">
-                                                <X className="mr-2 h-4 w-4" />
-                                                Cancel
+                                              <DropdownMenuItem onClick={() => setHistoryAppointment(appointment)}>
+                                                <History className="mr-2 h-4 w-4" />
+                                                History
                                               </DropdownMenuItem>
+                                              {hasPermission(staff, 'cancel_appointment') && (
+                                                <DropdownMenuItem onClick={() => setAppointmentToCancel(appointment)} className="text-red-600">
+                                                  <X className="mr-2 h-4 w-4" />
+                                                  Cancel
+                                                </DropdownMenuItem>
+                                              )}
                                             </DropdownMenuContent>
                                           </DropdownMenu>
                                         ) : (
-                                          <Badge
-                                            variant={
-                                              appointment.status === 'Completed' ? 'default' :
-                                                appointment.status === 'Cancelled' ? (appointment.isRescheduled ? 'warning' : 'destructive') :
-                                                  appointment.status === 'No-show' ? 'secondary' :
-                                                    appointment.status === 'Confirmed' ? 'default' :
-                                                      (appointment.status as any) === 'Skipped' ? 'destructive' :
-                                                        'secondary'
-                                            }
-                                            className={cn(
-                                              appointment.status === 'Cancelled' && appointment.isRescheduled && "bg-orange-100 text-orange-800 border-orange-200 hover:bg-orange-100",
-                                              (appointment.status as any) === 'Skipped' && "bg-yellow-500 text-white hover:bg-yellow-600 border-yellow-600"
-                                            )}
-                                          >
-                                            {(appointment.status as any) === 'Skipped' ? 'Late' : (appointment.status === 'Cancelled' && appointment.isRescheduled ? 'Rescheduled' : appointment.status)}
-                                          </Badge>
+                                          <div className="flex items-center justify-end gap-1">
+                                            <Badge
+                                              variant={
+                                                appointment.status === 'Completed' ? 'default' :
+                                                  appointment.status === 'Cancelled' ? (appointment.isRescheduled ? 'warning' : 'destructive') :
+                                                    appointment.status === 'No-show' ? 'secondary' :
+                                                      appointment.status === 'Confirmed' ? 'default' :
+                                                        (appointment.status as any) === 'Skipped' ? 'destructive' :
+                                                          'secondary'
+                                              }
+                                              className={cn(
+                                                appointment.status === 'Cancelled' && appointment.isRescheduled && "bg-orange-100 text-orange-800 border-orange-200 hover:bg-orange-100",
+                                                (appointment.status as any) === 'Skipped' && "bg-yellow-500 text-white hover:bg-yellow-600 border-yellow-600"
+                                              )}
+                                            >
+                                              {(appointment.status as any) === 'Skipped' ? 'Late' : (appointment.status === 'Cancelled' && appointment.isRescheduled ? 'Rescheduled' : appointment.status)}
+                                            </Badge>
+                                            <Button variant="ghost" className="h-8 w-8 p-0" onClick={() => setHistoryAppointment(appointment)}>
+                                              <span className="sr-only">History</span>
+                                              <History className="h-4 w-4" />
+                                            </Button>
+                                          </div>
                                         )}
                                       </TableCell>
                                     </TableRow>
@@ -4841,6 +4885,10 @@ export default function AppointmentsPage() {
           onRelativeAdded={handleNewRelativeAdded}
         />
       )}
+      <AppointmentHistoryDialog
+        appointment={historyAppointment}
+        onOpenChange={(open) => !open && setHistoryAppointment(null)}
+      />
       <Dialog open={isTokenModalOpen} onOpenChange={setIsTokenModalOpen}>
         <DialogContent className="sm:max-w-xs w-[90%]">
           <DialogHeader>
@@ -38,13 +38,22 @@ import {
   mergeAdjacentBreaks,
   createBreakPeriod,
   calculateSessionExtension,
+  getClinicISOString,
   getSessionBreaks,
   getSessionEnd,
   type SessionInfo,
   type SlotInfo,
   type BreakInterval,
   shiftAppointmentsForNewBreak,
-  validateBreakOverlapWithNextSession
+  planSessionExtension,
+  validateBreakOverlapWithNextSession,
+  getDoctorLimit,
+  getStaffRole,
+  assertNoBranchScheduleConflicts,
+  syncGroupDoctorProfile,
+  getUserActor,
+  hasPermission,
+  updateDoctorFees
 } from '@kloqo/shared-core';
 import { format, parse, isSameDay, getDay, addMinutes, subMinutes, isWithinInterval, differenceInMinutes, isPast, parseISO, startOfDay, isToday, isBefore, isAfter } from "date-fns";
 import { Clock, User, BriefcaseMedical, Calendar as CalendarIcon, Info, Edit, Save, X, Trash, Copy, Loader2, ChevronLeft, ChevronRight, Search, Star, Users, CalendarDays, Link as LinkIcon, PlusCircle, DollarSign, Printer, FileDown, ChevronUp, ChevronDown, Minus, Trophy, Repeat, CalendarCheck, Upload, Trash2 } from "lucide-react";
@@ -70,6 +79,8 @@ import PatientsVsAppointmentsChart from "@/components/dashboard/patients-vs-appo
 import { DateRange } from "react-day-picker";
 import { subDays } from 'date-fns';
 import { AddDoctorForm } from "@/components/doctors/add-doctor-form";
+import { DoctorBranchesCard } from "@/components/doctors/doctor-branches-card";
+import { DoctorCapacityCard } from "@/components/doctors/doctor-capacity-card";
 import OverviewStats from "@/components/dashboard/overview-stats";
 import AppointmentStatusChart from "@/components/dashboard/appointment-status-chart";
 import { DateRangePicker } from "@/components/ui/date-range-picker";
@@ -77,6 +88,7 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Separator } from "@/components/ui/separator";
 import { useAuth } from "@/firebase";
+import { useStaffMember } from "@/hooks/useStaffMember";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import imageCompression from 'browser-image-compression';
 import { errorEmitter } from "@/firebase/error-emitter";
@@ -170,6 +182,8 @@ const generateTimeOptions = (startTime: string, endTime: string, interval: numbe
 
 export default function DoctorsPage() {
   const auth = useAuth();
+  const { staff } = useStaffMember();
+  const canEditFees = hasPermission(staff, 'edit_fees');
   const [isPending, startTransition] = useTransition();
   const [dateRange, setDateRange] = useState<DateRange | undefined>({
     from: subDays(new Date(), 29),
@@ -504,9 +518,8 @@ export default function DoctorsPage() {
     }
 
     startTransition(async () => {
-      const doctorRef = doc(db, "doctors", selectedDoctor.id);
       try {
-        await updateDoc(doctorRef, { consultationFee: feeValue });
+        await updateDoctorFees(db, selectedDoctor.id, { consultationFee: feeValue }, staff);
         const updatedDoctor = { ...selectedDoctor, consultationFee: feeValue };
         setSelectedDoctor(updatedDoctor);
         setDoctors(prev => prev.map(d => d.id === selectedDoctor.id ? updatedDoctor : d));
@@ -515,12 +528,12 @@ export default function DoctorsPage() {
           title: "Consultation Fee Updated",
           description: `Consultation fee set to ₹${feeValue}.`,
         });
-      } catch (error) {
+      } catch (error: any) {
         console.error("Error updating fee:", error);
         toast({
           variant: "destructive",
           title: "Update Failed",
-          description: "Could not update the consultation fee.",
+          description: error.name === 'PermissionDeniedError' ? error.message : "Could not update the consultation fee.",
         });
       }
     });
@@ -535,16 +548,15 @@ export default function DoctorsPage() {
     }
     startTransition(async () => {
       try {
-        const doctorRef = doc(db, "doctors", selectedDoctor.id);
-        await updateDoc(doctorRef, { freeFollowUpDays: value });
+        await updateDoctorFees(db, selectedDoctor.id, { freeFollowUpDays: value }, staff);
         const updatedDoctor = { ...selectedDoctor, freeFollowUpDays: value };
         setSelectedDoctor(updatedDoctor);
         setDoctors(prev => prev.map(d => d.id === updatedDoctor.id ? updatedDoctor : d));
         setIsEditingFollowUp(false);
         toast({ title: "Success", description: "Free follow-up period updated." });
-      } catch (error) {
+      } catch (error: any) {
         console.error("Error updating follow-up days:", error);
-        toast({ variant: "destructive", title: "Error", description: "Failed to update follow-up period." });
+        toast({ variant: "destructive", title: "Error", description: error.name === 'PermissionDeniedError' ? error.message : "Failed to update follow-up period." });
       }
     });
   };
@@ -615,6 +627,7 @@ export default function DoctorsPage() {
         const doctorRef = doc(db, "doctors", selectedDoctor.id);
         await updateDoc(doctorRef, updatedData);
         const updatedDoctor = { ...selectedDoctor, ...updatedData };
+        await syncGroupDoctorProfile(db, updatedDoctor);
 
         setSelectedDoctor(updatedDoctor);
         setDoctors(prev => prev.map(d => d.id === selectedDoctor.id ? updatedDoctor : d));
@@ -678,6 +691,13 @@ export default function DoctorsPage() {
       .join('; ');
 
     startTransition(async () => {
+      try {
+        await assertNoBranchScheduleConflicts(db, selectedDoctor, newAvailabilitySlots);
+      } catch (error: any) {
+        toast({ variant: "destructive", title: "Schedule Conflict", description: error.message });
+        return;
+      }
+
       const doctorRef = doc(db, "doctors", selectedDoctor.id);
       try {
         await updateDoc(doctorRef, {
@@ -835,7 +855,7 @@ export default function DoctorsPage() {
     );
   }, [appointments, selectedDoctor, currentTime]);
 
-  const isDoctorLimitReached = clinicDetails ? doctors.length >= clinicDetails.numDoctors : false;
+  const isDoctorLimitReached = clinicDetails ? doctors.length >= getDoctorLimit(clinicDetails) : false;
 
   const openAddDoctorDialog = () => {
     setEditingDoctor(null);
@@ -991,6 +1011,10 @@ export default function DoctorsPage() {
       breakStartSlot,
       breakEndSlot,
     });
+    if (!hasPermission(staff, 'schedule_break')) {
+      toast({ variant: 'destructive', title: 'Not Allowed', description: 'Your role cannot schedule breaks.' });
+      return;
+    }
     if (!selectedDoctor || !leaveCalDate || !breakStartSlot || !breakEndSlot) {
       toast({
         variant: 'destructive',
@@ -1283,42 +1307,19 @@ export default function DoctorsPage() {
         ...mergedBreaks
       ];
 
-      const availabilityExtensions = selectedDoctor.availabilityExtensions || {};
-      if (!availabilityExtensions[dateKey]) {
-        availabilityExtensions[dateKey] = { sessions: [] };
-      }
-
-      const sessionExtIndex = availabilityExtensions[dateKey].sessions.findIndex(
+      const existingSessionExt = selectedDoctor.availabilityExtensions?.[dateKey]?.sessions?.find(
         s => Number(s.sessionIndex) === sessionIndex
       );
-
-      const existingSessionExt = (sessionExtIndex >= 0)
-        ? availabilityExtensions[dateKey].sessions[sessionExtIndex]
-        : null;
-
-      const currentTotalExtendedBy = existingSessionExt ? (existingSessionExt.totalExtendedBy || 0) : 0;
-
-      let newTotalExtendedBy = currentTotalExtendedBy;
-      if (extensionMinutes !== null) {
-        newTotalExtendedBy = extensionMinutes;
-      }
-
-      const newEndTimeDate = addMinutes(sessionEnd, newTotalExtendedBy);
-      const newEndTime = format(newEndTimeDate, 'hh:mm a');
-
-      const sessionExtension = {
-        sessionIndex: sessionIndex,
-        breaks: mergedBreaks,
-        totalExtendedBy: newTotalExtendedBy,
-        originalEndTime: format(sessionEnd, 'hh:mm a'),
-        newEndTime
-      };
-
-      if (sessionExtIndex >= 0) {
-        availabilityExtensions[dateKey].sessions[sessionExtIndex] = sessionExtension;
-      } else {
-        availabilityExtensions[dateKey].sessions.push(sessionExtension);
-      }
+      const newTotalExtendedBy = extensionMinutes !== null
+        ? extensionMinutes
+        : (existingSessionExt?.totalExtendedBy || 0);
+      const newEndTime = format(addMinutes(sessionEnd, newTotalExtendedBy), 'hh:mm a');
+
+      const extendedDoctor = { ...selectedDoctor, breakPeriods };
+      planSessionExtension({ doctor: extendedDoctor, date: leaveCalDate }, sessionIndex, newEndTime).forEach(transition => {
+        if (transition.type === 'doctor') Object.assign(extendedDoctor, transition.changes);
+      });
+      const { availabilityExtensions } = extendedDoctor;
 
       await updateDoc(doctorRef, {
         breakPeriods,
@@ -1333,7 +1334,9 @@ export default function DoctorsPage() {
           leaveCalDate,
           selectedDoctor.name,
           selectedDoctor.clinicId,
-          selectedDoctor.averageConsultingTime
+          selectedDoctor.averageConsultingTime,
+          { actor: getUserActor(auth.currentUser, getStaffRole(staff)), source: 'clinic-admin' },
+          staff
         );
       } catch (error) {
         console.error(`[BREAK CONFIRM] Error in shiftAppointmentsForNewBreak:`, error);
@@ -2212,7 +2215,7 @@ export default function DoctorsPage() {
                           ) : (
                             <div className="flex items-center gap-2">
                               <p className="text-2xl font-bold">₹{selectedDoctor.consultationFee || 0}</p>
-                              <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setIsEditingFee(true)}><Edit className="h-3 w-3" /></Button>
+                              {canEditFees && <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setIsEditingFee(true)}><Edit className="h-3 w-3" /></Button>}
                             </div>
                           )}
                         </CardContent>
@@ -2234,7 +2237,7 @@ export default function DoctorsPage() {
                           ) : (
                             <div className="flex items-center gap-2">
                               <p className="text-2xl font-bold">{selectedDoctor.freeFollowUpDays || 0} {(selectedDoctor.freeFollowUpDays || 0) === 1 ? 'day' : 'days'}</p>
-                              <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setIsEditingFollowUp(true)}><Edit className="h-3 w-3" /></Button>
+                              {canEditFees && <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setIsEditingFollowUp(true)}><Edit className="h-3 w-3" /></Button>}
                             </div>
                           )}
                         </CardContent>
@@ -2280,6 +2283,26 @@ export default function DoctorsPage() {
                         </CardContent>
                       </Card>
                     </div>
+                    <DoctorCapacityCard
+                      doctor={selectedDoctor}
+                      clinicPolicy={clinicDetails?.capacityPolicy}
+                      canManage={getStaffRole(staff) === 'owner'}
+                      onDoctorUpdated={(updatedDoctor) => {
+                        setSelectedDoctor(updatedDoctor);
+                        setDoctors(prev => prev.map(d => d.id === updatedDoctor.id ? updatedDoctor : d));
+                      }}
+                    />
+                    {clinicDetails?.groupId && (
+                      <DoctorBranchesCard
+                        doctor={selectedDoctor}
+                        groupId={clinicDetails.groupId}
+                        canManage={getStaffRole(staff) === 'owner'}
+                        onDoctorUpdated={(updatedDoctor) => {
+                          setSelectedDoctor(updatedDoctor);
+                          setDoctors(prev => prev.map(d => d.id === updatedDoctor.id ? updatedDoctor : d));
+                        }}
+                      />
+                    )}
                   </div>
                 )}
 
@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { doc, getDoc } from "firebase/firestore";
+import { subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { getClinicGroup, getGroupDashboard, getStaffRole, type GroupDashboard } from "@kloqo/shared-core";
+import { db } from "@/lib/firebase";
+import { useStaffMember } from "@/hooks/useStaffMember";
+import type { ClinicGroup } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DateRangePicker } from "@/components/ui/date-range-picker";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export default function GroupDashboardPage() {
+  const { staff, loading: staffLoading } = useStaffMember();
+  const [dateRange, setDateRange] = useState<DateRange | undefined>({
+    from: subDays(new Date(), 29),
+    to: new Date(),
+  });
+  const [group, setGroup] = useState<ClinicGroup | null>(null);
+  const [dashboard, setDashboard] = useState<GroupDashboard | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const isOwner = getStaffRole(staff) === 'owner';
+
+  useEffect(() => {
+    if (staffLoading) return;
+    if (!staff?.clinicId || !isOwner || !dateRange?.from) {
+      setLoading(false);
+      return;
+    }
+    const fetchDashboard = async () => {
+      setLoading(true);
+      try {
+        const clinicSnap = await getDoc(doc(db, "clinics", staff.clinicId!));
+        const groupId = clinicSnap.data()?.groupId;
+        if (!groupId) {
+          setGroup(null);
+          return;
+        }
+        const [groupDoc, result] = await Promise.all([
+          getClinicGroup(db, groupId),
+          getGroupDashboard(db, groupId, dateRange.from!, dateRange.to || dateRange.from!),
+        ]);
+        setGroup(groupDoc);
+        setDashboard(result);
+      } catch (e) {
+        console.error("Failed to fetch group dashboard", e);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchDashboard();
+  }, [staffLoading, staff?.clinicId, isOwner, dateRange]);
+
+  const branchName = (clinicId: string) => dashboard?.branches.find(b => b.clinicId === clinicId)?.clinicName || clinicId;
+  const totals = dashboard?.totals;
+
+  return (
+    <>
+      <header className="flex items-center justify-between gap-4 px-6 border-b py-6">
+        <div>
+          <h1 className="text-2xl font-bold">{group?.name || "Clinic Group"}</h1>
+          <p className="text-sm text-muted-foreground">Appointments across every branch of your group.</p>
+        </div>
+        <DateRangePicker onDateChange={setDateRange} initialDateRange={dateRange} />
+      </header>
+
+      <div className="flex-1 p-6 space-y-6">
+        {staffLoading || loading ? (
+          <div className="space-y-6">
+            <Skeleton className="h-28 w-full" />
+            <Skeleton className="h-72 w-full" />
+          </div>
+        ) : !isOwner || !group || !dashboard ? (
+          <Card>
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">
+              {isOwner ? "This clinic is not part of a clinic group." : "Only the clinic owner can view the group dashboard."}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Appointments</CardDescription>
+                  <CardTitle>{totals!.appointments}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Completed</CardDescription>
+                  <CardTitle>{totals!.completed}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Cancelled / No-show</CardDescription>
+                  <CardTitle>{totals!.cancelled} / {totals!.noShows}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Patients (at 2+ branches)</CardDescription>
+                  <CardTitle>{totals!.uniquePatients} ({totals!.crossBranchPatients})</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Branches</CardTitle>
+                <CardDescription>{dashboard.from} – {dashboard.to}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Branch</TableHead>
+                      <TableHead className="text-right">Appointments</TableHead>
+                      <TableHead className="text-right">Completed</TableHead>
+                      <TableHead className="text-right">Cancelled</TableHead>
+                      <TableHead className="text-right">No-show</TableHead>
+                      <TableHead className="text-right">Walk-ins</TableHead>
+                      <TableHead className="text-right">Patients</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dashboard.branches.map(branch => (
+                      <TableRow key={branch.clinicId}>
+                        <TableCell className="font-medium">
+                          {branch.clinicName}
+                          {branch.clinicId === staff?.clinicId && <Badge variant="outline" className="ml-2">This clinic</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">{branch.appointments}</TableCell>
+                        <TableCell className="text-right">{branch.completed}</TableCell>
+                        <TableCell className="text-right">{branch.cancelled}</TableCell>
+                        <TableCell className="text-right">{branch.noShows}</TableCell>
+                        <TableCell className="text-right">{branch.walkIns}</TableCell>
+                        <TableCell className="text-right">{branch.uniquePatients}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Doctors</CardTitle>
+                <CardDescription>Doctors who consult at several branches are counted once across all of them.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Doctor</TableHead>
+                      <TableHead>Branches</TableHead>
+                      <TableHead className="text-right">Appointments</TableHead>
+                      <TableHead className="text-right">Completed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dashboard.doctors.map(doctor => (
+                      <TableRow key={doctor.groupDoctorId}>
+                        <TableCell className="font-medium">Dr. {doctor.name}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {doctor.clinicIds.map(clinicId => (
+                              <Badge key={clinicId} variant="secondary">{branchName(clinicId)}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{doctor.appointments}</TableCell>
+                        <TableCell className="text-right">{doctor.completed}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
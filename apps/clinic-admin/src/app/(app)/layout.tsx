@@ -2,6 +2,7 @@
 "use client";
 
 import { Sidebar } from '@/components/layout/sidebar';
+import { SubscriptionGate } from '@/components/layout/subscription-gate';
 import { OnboardingCheck } from '@/components/onboarding/onboarding-check';
 import { Suspense, useEffect, useState } from 'react';
 import { useAuth } from '@/firebase';
@@ -15,6 +16,7 @@ import { GlobalErrorHandler } from '@/components/GlobalErrorHandler';
 import { doc, getDoc } from 'firebase/firestore';
 import { db, auth } from '@/lib/firebase';
 import { signOut } from 'firebase/auth';
+import { setClinicTimeZone } from '@kloqo/shared-core';
 
 function AuthorizedLayout({ children }: { children: React.ReactNode }) {
   // Custom hooks to handle automatic status updates
@@ -30,7 +32,7 @@ function AuthorizedLayout({ children }: { children: React.ReactNode }) {
           <GlobalErrorHandler />
           <Sidebar />
           <div className="flex-1 flex flex-col h-full overflow-y-auto">
-            {children}
+            <SubscriptionGate>{children}</SubscriptionGate>
           </div>
         </div>
       </ErrorBoundary>
@@ -61,8 +63,13 @@ function AppContent({ children }: { children: React.ReactNode }) {
           console.error("No clinicId found for user. Logging out.");
           await signOut(auth);
           router.push('/');
+        } else if (userData.staffRole === 'kiosk') {
+          // Kiosk tablets only ever show the check-in screen
+          router.replace('/kiosk');
         } else {
-          // Clinic ID exists, allow access
+          // Clinic ID exists, allow access once dates follow the clinic's timezone
+          const clinicDoc = await getDoc(doc(db, 'clinics', userData.clinicId));
+          setClinicTimeZone(clinicDoc.data()?.timezone);
           setIsVerifying(false);
         }
       } catch (error) {
@@ -25,9 +25,11 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, FileText } from "lucide-react";
+import { getConsultationRecord, getPrescriptionUrl } from "@kloqo/shared-core";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
+import { MedicalTimelineCard } from "@/components/patients/medical-timeline-card";
 import { useAuth } from "@/firebase";
 import { parse } from "date-fns";
 import { compareAppointments } from '@kloqo/shared-core';
@@ -85,6 +87,16 @@ export default function PatientHistoryPage() {
 
   const lastVisit = visitHistory[0];
 
+  // The PDF link carries the record's share token, so it is looked up on click
+  const openPrescription = async (appointmentId: string) => {
+    try {
+      const record = await getConsultationRecord(db, appointmentId);
+      if (record) window.open(getPrescriptionUrl(record), "_blank");
+    } catch (error) {
+      console.error("Error opening prescription:", error);
+    }
+  };
+
   return (
     <>
       <div>
@@ -148,6 +160,7 @@ export default function PatientHistoryPage() {
                         <TableHead>Doctor</TableHead>
                         <TableHead>Department</TableHead>
                         <TableHead>Status</TableHead>
+                        <TableHead>Prescription</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -173,6 +186,14 @@ export default function PatientHistoryPage() {
                                 {visit.status}
                               </Badge>
                             </TableCell>
+                            <TableCell>
+                              {visit.consultationRecordId && (
+                                <Button variant="ghost" size="sm" onClick={() => openPrescription(visit.id)}>
+                                  <FileText className="mr-2 h-4 w-4" />
+                                  View
+                                </Button>
+                              )}
+                            </TableCell>
                           </TableRow>
                         ))
                       ) : (
@@ -186,6 +207,8 @@ export default function PatientHistoryPage() {
                   </Table>
                 </CardContent>
               </Card>
+
+              <MedicalTimelineCard patientId={patientId} />
             </>
           ) : (
             <Card>
@@ -0,0 +1,226 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { doc, getDoc } from "firebase/firestore";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import {
+  dismissDuplicateCandidate,
+  getPendingDuplicateCandidates,
+  getStaffRole,
+  getUserActor,
+  hasPermission,
+  requestPatientMerge,
+} from "@kloqo/shared-core";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/firebase";
+import { useStaffMember } from "@/hooks/useStaffMember";
+import { useToast } from "@/hooks/use-toast";
+import type { Patient, PatientDuplicateCandidate } from "@/lib/types";
+import { DashboardHeader } from "@/components/layout/header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+type DuplicatePair = PatientDuplicateCandidate & { patients: [Patient, Patient] };
+
+const reasonLabels: Record<string, string> = {
+  name: "Similar name",
+  phone: "Same phone",
+  age: "Same age",
+  sex: "Same sex",
+  place: "Same place",
+};
+
+function PatientSummary({ patient }: { patient: Patient }) {
+  return (
+    <div className="space-y-1 text-sm">
+      <p className="font-medium">{patient.name}</p>
+      <p className="text-muted-foreground">{patient.phone || "No phone"}</p>
+      <p className="text-muted-foreground">
+        {[patient.age && `${patient.age} yrs`, patient.sex, patient.place].filter(Boolean).join(" · ") || "No details"}
+      </p>
+      <p className="text-muted-foreground">{patient.visitHistory?.length || 0} visits</p>
+    </div>
+  );
+}
+
+export default function DuplicatePatientsPage() {
+  const { currentUser } = useAuth();
+  const { staff, loading: staffLoading } = useStaffMember();
+  const { toast } = useToast();
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const clinicId = staff?.clinicId;
+  const canMerge = hasPermission(staff, "merge_patients");
+
+  const loadPairs = useCallback(async () => {
+    if (!clinicId) return;
+    try {
+      const candidates = await getPendingDuplicateCandidates(db, clinicId);
+      const loaded = await Promise.all(candidates.map(async candidate => {
+        const snaps = await Promise.all(candidate.patientIds.map(id => getDoc(doc(db, "patients", id))));
+        if (snaps.some(snap => !snap.exists())) return null;
+        return { ...candidate, patients: snaps.map(snap => ({ ...snap.data(), id: snap.id })) as [Patient, Patient] };
+      }));
+      setPairs(loaded.filter((pair): pair is DuplicatePair => pair !== null));
+    } catch (error) {
+      console.error("Error loading duplicate patients:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [clinicId]);
+
+  useEffect(() => {
+    loadPairs();
+  }, [loadPairs]);
+
+  // By default keep the record with more visits
+  const survivorFor = (pair: DuplicatePair) =>
+    survivors[pair.id] ||
+    [...pair.patients].sort((a, b) => (b.visitHistory?.length || 0) - (a.visitHistory?.length || 0))[0].id;
+
+  const handleMerge = async (pair: DuplicatePair) => {
+    if (!currentUser) return;
+    const survivorId = survivorFor(pair);
+    const duplicateId = pair.patientIds.find(id => id !== survivorId)!;
+    setBusyId(pair.id);
+    try {
+      await requestPatientMerge(db, survivorId, duplicateId, pair.id);
+      toast({ title: "Patients Merged", description: "All visits and records now belong to one patient." });
+      setPairs(prev => prev.filter(p => p.id !== pair.id));
+    } catch (error: any) {
+      console.error("Error merging patients:", error);
+      toast({ variant: "destructive", title: "Merge Failed", description: error.message });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    if (!currentUser) return;
+    setBusyId(pair.id);
+    try {
+      await dismissDuplicateCandidate(db, pair.id, getUserActor(currentUser, getStaffRole(staff)), staff);
+      setPairs(prev => prev.filter(p => p.id !== pair.id));
+    } catch (error: any) {
+      console.error("Error dismissing duplicate:", error);
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div>
+      <DashboardHeader />
+      <main className="flex-1 p-6 bg-background space-y-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/patients">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Possible Duplicate Patients</h1>
+            <p className="text-sm text-muted-foreground">
+              Found nightly by comparing names, phone numbers, age, sex and place.
+            </p>
+          </div>
+        </div>
+
+        {!staffLoading && !canMerge ? (
+          <Card>
+            <CardContent className="py-10 text-center text-muted-foreground">
+              Only the clinic owner can merge patient records.
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : pairs.length === 0 ? (
+          <Card>
+            <CardContent className="py-10 text-center text-muted-foreground">No possible duplicates to review.</CardContent>
+          </Card>
+        ) : (
+          pairs.map(pair => (
+            <Card key={pair.id}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  {Math.round(pair.score * 100)}% match
+                  {pair.reasons.map(reason => (
+                    <Badge key={reason} variant="secondary">{reasonLabels[reason]}</Badge>
+                  ))}
+                </CardTitle>
+                <CardDescription>Choose the record to keep. The other one is merged into it and removed.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <RadioGroup
+                  value={survivorFor(pair)}
+                  onValueChange={(value) => setSurvivors(prev => ({ ...prev, [pair.id]: value }))}
+                  className="grid gap-4 md:grid-cols-2"
+                >
+                  {pair.patients.map(patient => (
+                    <Label
+                      key={patient.id}
+                      htmlFor={`${pair.id}-${patient.id}`}
+                      className="flex cursor-pointer items-start gap-3 rounded-md border p-4 font-normal"
+                    >
+                      <RadioGroupItem id={`${pair.id}-${patient.id}`} value={patient.id} className="mt-1" />
+                      <div className="flex-1">
+                        <PatientSummary patient={patient} />
+                        {survivorFor(pair) === patient.id && <Badge className="mt-2">Keep this record</Badge>}
+                      </div>
+                    </Label>
+                  ))}
+                </RadioGroup>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => handleDismiss(pair)} disabled={busyId === pair.id}>
+                    Not a Duplicate
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button disabled={busyId === pair.id}>
+                        {busyId === pair.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Merge
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Merge these patients?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Appointments, prescriptions, documents and app logins move to the record you chose and the
+                          other record is deleted. A copy is kept in the merge history.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleMerge(pair)}>Merge</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
@@ -25,6 +25,7 @@ import {
   ChevronLeft,
   ChevronRight,
   Search,
+  Users,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { collection, getDocs, query, where, getDoc, doc, documentId } from "firebase/firestore";
@@ -40,6 +41,8 @@ import {
 } from "@/components/ui/select";
 import Link from "next/link";
 import { useAuth } from "@/firebase";
+import { useStaffMember } from "@/hooks/useStaffMember";
+import { hasPermission } from "@kloqo/shared-core";
 
 type EnrichedPatient = Patient & {
   lastVisit?: Appointment;
@@ -48,6 +51,7 @@ type EnrichedPatient = Patient & {
 
 export default function PatientsPage() {
   const auth = useAuth();
+  const { staff } = useStaffMember();
   const [patients, setPatients] = useState<EnrichedPatient[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
@@ -209,7 +213,17 @@ export default function PatientsPage() {
         <main className="flex-1 p-6 bg-background">
           <Card>
             <CardHeader>
-              <CardTitle>Patients</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle>Patients</CardTitle>
+                {hasPermission(staff, "merge_patients") && (
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href="/patients/duplicates">
+                      <Users className="mr-2 h-4 w-4" />
+                      Review Duplicates
+                    </Link>
+                  </Button>
+                )}
+              </div>
               <div className="mt-4 flex justify-between items-center">
                 <div className="relative flex-1">
                   <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
@@ -28,8 +28,9 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { collection, getDocs, setDoc, doc, query, where, getDoc, updateDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import type { User, Appointment, TimeSlot } from "@/lib/types";
-import { UserCircle, Edit, Save, X, Building, Loader2, Clock, PlusCircle, Trash2, Settings } from "lucide-react";
+import type { User, Appointment, TimeSlot, CapacityPolicy, ConvenienceFeeRule } from "@/lib/types";
+import { UserCircle, Edit, Save, X, Building, Loader2, Clock, PlusCircle, Trash2, Settings, Bell } from "lucide-react";
+import { NotificationPreferencesCard } from "@/components/clinic/notification-preferences-card";
 import { Separator } from "@/components/ui/separator";
 import { useAuth } from "@/firebase";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
@@ -39,7 +40,7 @@ import { EmailAuthProvider, reauthenticateWithCredential, updatePassword } from
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { capitalizeFirstLetter, toUpperCase, capitalizeWords } from "@kloqo/shared-core";
+import { capitalizeFirstLetter, toUpperCase, capitalizeWords, DEFAULT_ADVANCE_RATIO, DEFAULT_CONVENIENCE_FEE, DEFAULT_CLINIC_TIME_ZONE, CLINIC_TIME_ZONES, setClinicTimeZone } from "@kloqo/shared-core";
 
 
 const passwordFormSchema = z.object({
@@ -95,10 +96,29 @@ const operatingHoursFormSchema = z.object({
 });
 type OperatingHoursFormValues = z.infer<typeof operatingHoursFormSchema>;
 
+const toAdvancePercent = (policy?: CapacityPolicy | null) =>
+  Math.round((policy?.advanceRatio ?? DEFAULT_ADVANCE_RATIO) * 100);
+
+const toPaymentSettings = (clinic: any) => {
+  const rule: ConvenienceFeeRule = clinic?.convenienceFee ?? DEFAULT_CONVENIENCE_FEE;
+  return {
+    onlinePaymentsEnabled: !!clinic?.onlinePaymentsEnabled,
+    convenienceFeeType: rule.type,
+    convenienceFeeValue: rule.value,
+    convenienceFeeWaived: !!rule.waived,
+  };
+};
+
 const settingsFormSchema = z.object({
   walkInTokenAllotment: z.coerce.number().min(2, "Walk-in token allotment must be at least 2."),
+  advanceBookingPercent: z.coerce.number().min(0, "Must be between 0 and 100.").max(100, "Must be between 0 and 100."),
   tokenDistribution: z.enum(['classic', 'advanced']),
   genderPreference: z.enum(['None', 'Men', 'Women']),
+  timezone: z.string().min(1),
+  onlinePaymentsEnabled: z.boolean(),
+  convenienceFeeType: z.enum(['flat', 'percent']),
+  convenienceFeeValue: z.coerce.number().min(0, "Convenience fee cannot be negative."),
+  convenienceFeeWaived: z.boolean(),
 });
 type SettingsFormValues = z.infer<typeof settingsFormSchema>;
 
@@ -149,8 +169,11 @@ export default function ProfilePage() {
     resolver: zodResolver(settingsFormSchema),
     defaultValues: {
       walkInTokenAllotment: 5,
+      advanceBookingPercent: 85,
       tokenDistribution: 'classic',
       genderPreference: 'None',
+      timezone: DEFAULT_CLINIC_TIME_ZONE,
+      ...toPaymentSettings(null),
     }
   });
 
@@ -198,8 +221,11 @@ export default function ProfilePage() {
 
               const settingsResetData = {
                 walkInTokenAllotment: clinicData.walkInTokenAllotment || 5,
+                advanceBookingPercent: toAdvancePercent(clinicData.capacityPolicy),
                 tokenDistribution: clinicData.tokenDistribution || 'classic',
                 genderPreference: clinicData.genderPreference || 'None',
+                timezone: clinicData.timezone || DEFAULT_CLINIC_TIME_ZONE,
+                ...toPaymentSettings(clinicData),
               };
               settingsForm.reset(settingsResetData);
 
@@ -251,8 +277,11 @@ export default function ProfilePage() {
 
       const settingsResetData = {
         walkInTokenAllotment: clinicDetails.walkInTokenAllotment || 5,
+        advanceBookingPercent: toAdvancePercent(clinicDetails.capacityPolicy),
         tokenDistribution: clinicDetails.tokenDistribution || 'classic',
         genderPreference: clinicDetails.genderPreference || 'None',
+        timezone: clinicDetails.timezone || DEFAULT_CLINIC_TIME_ZONE,
+        ...toPaymentSettings(clinicDetails),
       };
 
       settingsForm.reset(settingsResetData);
@@ -284,18 +313,38 @@ export default function ProfilePage() {
 
     startTransition(async () => {
       const clinicRef = doc(db, 'clinics', userProfile.clinicId!);
+      // Keep any per-day/per-session rules; only the clinic-wide default is edited here
+      const capacityPolicy = {
+        ...(clinicDetails?.capacityPolicy ?? {}),
+        advanceRatio: values.advanceBookingPercent / 100,
+      };
+      const convenienceFee: ConvenienceFeeRule = {
+        ...(clinicDetails?.convenienceFee ?? {}),
+        type: values.convenienceFeeType,
+        value: values.convenienceFeeValue,
+        waived: values.convenienceFeeWaived,
+      };
       try {
         await updateDoc(clinicRef, {
           walkInTokenAllotment: values.walkInTokenAllotment,
+          capacityPolicy,
           tokenDistribution: values.tokenDistribution,
           genderPreference: values.genderPreference,
+          timezone: values.timezone,
+          onlinePaymentsEnabled: values.onlinePaymentsEnabled,
+          convenienceFee,
         });
+        setClinicTimeZone(values.timezone);
 
         setClinicDetails((prev: any) => prev ? {
           ...prev,
           walkInTokenAllotment: values.walkInTokenAllotment,
+          capacityPolicy,
           tokenDistribution: values.tokenDistribution,
           genderPreference: values.genderPreference,
+          timezone: values.timezone,
+          onlinePaymentsEnabled: values.onlinePaymentsEnabled,
+          convenienceFee,
         } : null);
         toast({ title: "Settings Updated", description: "Clinic settings have been saved successfully." });
         setIsEditingSettings(false);
@@ -310,8 +359,11 @@ export default function ProfilePage() {
     if (clinicDetails) {
       settingsForm.reset({
         walkInTokenAllotment: clinicDetails.walkInTokenAllotment || 5,
+        advanceBookingPercent: toAdvancePercent(clinicDetails.capacityPolicy),
         tokenDistribution: clinicDetails.tokenDistribution || 'classic',
         genderPreference: clinicDetails.genderPreference || 'None',
+        timezone: clinicDetails.timezone || DEFAULT_CLINIC_TIME_ZONE,
+        ...toPaymentSettings(clinicDetails),
       });
     }
     setIsEditingSettings(false);
@@ -863,7 +915,7 @@ export default function ProfilePage() {
                   </Button>
                 )}
               </div>
-              <CardDescription>Configure walk-in token allotment settings.</CardDescription>
+              <CardDescription>Configure walk-in token allotment and online payment settings.</CardDescription>
             </CardHeader>
             <Form {...settingsForm}>
               <form onSubmit={settingsForm.handleSubmit(onSettingsSubmit)}>
@@ -891,6 +943,28 @@ export default function ProfilePage() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={settingsForm.control}
+                    name="advanceBookingPercent"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Advance Booking Share (%)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            {...field}
+                            disabled={!isEditingSettings || isPending}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Share of each session that can be booked in advance. The rest is reserved for walk-ins. Doctors with their own capacity policy override this default.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <FormField
                     control={settingsForm.control}
                     name="tokenDistribution"
@@ -953,6 +1027,109 @@ export default function ProfilePage() {
                       );
                     }}
                   />
+                  <FormField
+                    control={settingsForm.control}
+                    name="timezone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Timezone</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value} disabled={!isEditingSettings || isPending}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select timezone" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {CLINIC_TIME_ZONES.map(zone => (
+                              <SelectItem key={zone.value} value={zone.value}>{zone.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          Appointment times, reminders and waiting times follow this clock.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={settingsForm.control}
+                    name="onlinePaymentsEnabled"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                        <div className="space-y-0.5">
+                          <FormLabel>Online Payments</FormLabel>
+                          <FormDescription>
+                            Patients pay the consultation fee when they book from the patient app.
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            disabled={!isEditingSettings || isPending}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={settingsForm.control}
+                      name="convenienceFeeType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Convenience Fee</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value} disabled={!isEditingSettings || isPending}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="flat">Flat (&#8377;)</SelectItem>
+                              <SelectItem value="percent">Percent of fee (%)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={settingsForm.control}
+                      name="convenienceFeeValue"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Amount</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="0" {...field} disabled={!isEditingSettings || isPending} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={settingsForm.control}
+                    name="convenienceFeeWaived"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                        <div className="space-y-0.5">
+                          <FormLabel>Waive Convenience Fee</FormLabel>
+                          <FormDescription>
+                            The fee is shown to patients as waived and is not charged.
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            disabled={!isEditingSettings || isPending}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
                   {isEditingSettings && (
                     <div className="flex justify-end gap-2 pt-4">
                       <Button type="button" variant="ghost" onClick={handleCancelSettings} disabled={isPending}>
@@ -969,6 +1146,17 @@ export default function ProfilePage() {
             </Form>
           </Card>
         );
+      case 'notifications':
+        if (!clinicDetails || !userProfile?.clinicId) {
+          return <Card><CardHeader><CardTitle>Loading Notification Preferences...</CardTitle></CardHeader></Card>;
+        }
+        return (
+          <NotificationPreferencesCard
+            clinicId={userProfile.clinicId}
+            preferences={clinicDetails.notificationPreferences}
+            onSaved={(notificationPreferences) => setClinicDetails((prev: any) => prev ? { ...prev, notificationPreferences } : null)}
+          />
+        );
       default:
         return null;
     }
@@ -1000,6 +1188,10 @@ export default function ProfilePage() {
                       <Settings className="mr-2 h-4 w-4" />
                       Settings
                     </Button>
+                    <Button variant={activeView === 'notifications' ? 'secondary' : 'ghost'} className="w-full justify-start" onClick={() => setActiveView('notifications')}>
+                      <Bell className="mr-2 h-4 w-4" />
+                      Notifications
+                    </Button>
                   </nav>
                 </CardContent>
               </Card>
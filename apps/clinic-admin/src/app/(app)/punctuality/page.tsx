@@ -0,0 +1,280 @@
+'use client';
+
+import { useEffect, useMemo, useState } from "react";
+import { doc, getDoc } from "firebase/firestore";
+import { format, parse, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { FileDown, Loader2 } from "lucide-react";
+import {
+  getClinicPunctualityReport,
+  LATENESS_BUCKETS,
+  punctualityReportToCsv,
+  WEEKDAYS,
+  type PunctualityReport,
+} from "@kloqo/shared-core";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/firebase";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DateRangePicker } from "@/components/ui/date-range-picker";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const LINE_COLORS = ["hsl(var(--chart-1))", "hsl(var(--chart-2))", "hsl(var(--chart-3))", "hsl(var(--chart-4))", "hsl(var(--chart-5))"];
+
+const parseReportDate = (date: string) => parse(date, "d MMMM yyyy", new Date());
+
+const formatMinutes = (minutes: number | null) => (minutes === null ? "—" : `${minutes} min`);
+
+export default function PunctualityPage() {
+  const auth = useAuth();
+  const [dateRange, setDateRange] = useState<DateRange | undefined>({
+    from: subDays(new Date(), 27),
+    to: new Date(),
+  });
+  const [report, setReport] = useState<PunctualityReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedDoctorId, setSelectedDoctorId] = useState<string>("");
+
+  useEffect(() => {
+    if (!auth.currentUser || !dateRange?.from) {
+      setLoading(false);
+      return;
+    }
+    const fetchReport = async () => {
+      setLoading(true);
+      try {
+        const userDoc = await getDoc(doc(db, "users", auth.currentUser!.uid));
+        const clinicId = userDoc.data()?.clinicId;
+        if (!clinicId) return;
+
+        const result = await getClinicPunctualityReport(db, clinicId, dateRange.from!, dateRange.to || dateRange.from!);
+        setReport(result);
+        setSelectedDoctorId(current => result.doctors.some(d => d.doctorId === current) ? current : result.doctors[0]?.doctorId || "");
+      } catch (e) {
+        console.error("Failed to fetch punctuality report", e);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchReport();
+  }, [auth.currentUser, dateRange]);
+
+  const selectedDoctor = report?.doctors.find(d => d.doctorId === selectedDoctorId) || null;
+
+  // One row per week, one average-lateness column per doctor
+  const trendData = useMemo(() => {
+    if (!report) return [];
+    return report.trend.map(point => {
+      const row: Record<string, string | number | null> = {
+        name: format(parseReportDate(point.weekStart), "d MMM"),
+      };
+      report.doctors.forEach(doctor => {
+        row[doctor.doctorName] = doctor.trend.find(t => t.weekStart === point.weekStart)?.averageLateness ?? null;
+      });
+      return row;
+    });
+  }, [report]);
+
+  const handleExport = () => {
+    if (!report) return;
+    const blob = new Blob([punctualityReportToCsv(report)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `Kloqo_Punctuality_${format(parseReportDate(report.from), "yyyy-MM-dd")}_to_${format(parseReportDate(report.to), "yyyy-MM-dd")}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const overall = report?.overall;
+
+  return (
+    <>
+      <header className="flex items-center justify-between gap-4 px-6 border-b py-6">
+        <div>
+          <h1 className="text-2xl font-bold">Doctor Punctuality</h1>
+          <p className="text-sm text-muted-foreground">Late starts, overtime and break overruns from the nurse app&apos;s In/Out logs.</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <DateRangePicker onDateChange={setDateRange} initialDateRange={dateRange} />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!report || loading}
+            onClick={handleExport}
+            className="flex items-center gap-2"
+          >
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+            Export CSV
+          </Button>
+        </div>
+      </header>
+
+      <div className="flex-1 p-6 space-y-6">
+        {loading ? (
+          <div className="space-y-6">
+            <Skeleton className="h-28 w-full" />
+            <Skeleton className="h-72 w-full" />
+          </div>
+        ) : !report || report.overall.sessions === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">
+              No punctuality logs for this period.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>On-time starts</CardDescription>
+                  <CardTitle>{overall!.onTimeSessions} / {overall!.sessions}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Average lateness (p90)</CardDescription>
+                  <CardTitle>{formatMinutes(overall!.averageLateness)} ({formatMinutes(overall!.p90Lateness)})</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Overtime</CardDescription>
+                  <CardTitle>{overall!.overtimeMinutes} min</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Break overruns</CardDescription>
+                  <CardTitle>{overall!.breakOverruns} ({overall!.breakOverrunMinutes} min)</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Scorecards</CardTitle>
+                <CardDescription>A session is on time when the doctor is In within 10 minutes of the scheduled start.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Doctor</TableHead>
+                      <TableHead>Sessions</TableHead>
+                      <TableHead>On time</TableHead>
+                      <TableHead>Avg late</TableHead>
+                      <TableHead>Median</TableHead>
+                      <TableHead>P90</TableHead>
+                      <TableHead>Overtime</TableHead>
+                      <TableHead>Break overruns</TableHead>
+                      <TableHead>Extensions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.doctors.map(doctor => (
+                      <TableRow key={doctor.doctorId}>
+                        <TableCell className="font-medium">Dr. {doctor.doctorName}</TableCell>
+                        <TableCell>{doctor.sessions}</TableCell>
+                        <TableCell>{doctor.sessions ? Math.round((doctor.onTimeSessions / doctor.sessions) * 100) : 0}%</TableCell>
+                        <TableCell>{formatMinutes(doctor.averageLateness)}</TableCell>
+                        <TableCell>{formatMinutes(doctor.medianLateness)}</TableCell>
+                        <TableCell>{formatMinutes(doctor.p90Lateness)}</TableCell>
+                        <TableCell>{doctor.overtimeMinutes} min ({doctor.overtimeSessions})</TableCell>
+                        <TableCell>{doctor.breakOverruns} / {doctor.breaks} ({doctor.breakOverrunMinutes} min)</TableCell>
+                        <TableCell>{doctor.extensions} ({doctor.extensionMinutes} min)</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>Lateness by Weekday</CardTitle>
+                    <CardDescription>Sessions per lateness band.</CardDescription>
+                  </div>
+                  <Select value={selectedDoctorId} onValueChange={setSelectedDoctorId}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue placeholder="Select doctor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {report.doctors.map(doctor => (
+                        <SelectItem key={doctor.doctorId} value={doctor.doctorId}>Dr. {doctor.doctorName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Weekday</TableHead>
+                        {LATENESS_BUCKETS.map(bucket => <TableHead key={bucket}>{bucket}</TableHead>)}
+                        <TableHead>Avg late</TableHead>
+                        <TableHead>Overtime</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {WEEKDAYS.filter(weekday => selectedDoctor?.byWeekday[weekday]).map(weekday => {
+                        const stats = selectedDoctor!.byWeekday[weekday];
+                        return (
+                          <TableRow key={weekday}>
+                            <TableCell className="font-medium">{weekday}</TableCell>
+                            {LATENESS_BUCKETS.map(bucket => <TableCell key={bucket}>{stats.latenessBuckets[bucket]}</TableCell>)}
+                            <TableCell>{formatMinutes(stats.averageLateness)}</TableCell>
+                            <TableCell>{stats.overtimeMinutes} min</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Weekly Trend</CardTitle>
+                  <CardDescription>Average lateness per week.</CardDescription>
+                </CardHeader>
+                <CardContent className="pr-6">
+                  <ResponsiveContainer width="100%" height={250}>
+                    <LineChart data={trendData} margin={{ top: 10, right: 0, left: -20, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+                      <XAxis dataKey="name" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} tickLine={false} axisLine={false} unit="m" />
+                      <Tooltip
+                        contentStyle={{
+                          background: "hsl(var(--background))",
+                          borderRadius: "var(--radius)",
+                          border: "1px solid hsl(var(--border))",
+                        }}
+                      />
+                      <Legend />
+                      {report.doctors.map((doctor, index) => (
+                        <Line
+                          key={doctor.doctorId}
+                          type="monotone"
+                          dataKey={doctor.doctorName}
+                          stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                          strokeWidth={2}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -20,12 +20,12 @@ import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/firebase";
 import { db } from "@/lib/firebase";
 import { collection, doc, getDoc, getDocs, onSnapshot, orderBy, query, where } from "firebase/firestore";
-import type { Appointment, Doctor } from '@kloqo/shared-types';
+import type { Appointment, CapacityPolicy, Doctor } from '@kloqo/shared-types';
 import { Loader2, Calendar as CalendarIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { cn, parseTime } from "@/lib/utils";
 import { Progress } from "@/components/ui/progress";
-import { computeWalkInSchedule } from '@kloqo/shared-core';
+import { calculateWalkInReserve, computeWalkInSchedule, resolveAdvanceRatio } from '@kloqo/shared-core';
 import { Clock, Info, Users, UserCheck, ShieldAlert, AlertCircle, CheckCircle2, MoreHorizontal, History } from "lucide-react";
 
 const daysOfWeek = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
@@ -98,6 +98,7 @@ export default function SlotVisualizerPage() {
 
   const [clinicName, setClinicName] = useState<string | null>(null);
   const [walkInSpacing, setWalkInSpacing] = useState<number | null>(null);
+  const [clinicCapacityPolicy, setClinicCapacityPolicy] = useState<CapacityPolicy | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [selectedDoctorId, setSelectedDoctorId] = useState<string>("");
   const [selectedSessionIndex, setSelectedSessionIndex] = useState<number>(0);
@@ -131,8 +132,10 @@ export default function SlotVisualizerPage() {
           setClinicName(clinicData?.name ?? null);
           const spacingValue = Number(clinicData?.walkInTokenAllotment ?? 0);
           setWalkInSpacing(Number.isFinite(spacingValue) && spacingValue > 0 ? spacingValue : null);
+          setClinicCapacityPolicy(clinicData?.capacityPolicy ?? null);
         } else {
           setWalkInSpacing(null);
+          setClinicCapacityPolicy(null);
         }
 
         const doctorsQuery = query(
@@ -829,7 +832,14 @@ export default function SlotVisualizerPage() {
 
   const capacityInfo = useMemo(() => {
     const total = sessionSummary.total;
-    const reservedMinimum = total > 0 ? Math.ceil(total * 0.15) : 0;
+    // Same split the booking services use: doctor policy, then clinic default, then 85/15
+    const advanceRatio = resolveAdvanceRatio(
+      daysOfWeek[getDay(selectedDate)],
+      selectedSessionIndex,
+      selectedDoctor?.capacityPolicy,
+      clinicCapacityPolicy,
+    );
+    const reservedMinimum = calculateWalkInReserve(total, advanceRatio);
     const maxAdvance = Math.max(total - reservedMinimum, 0);
     const advance = sessionSummary.advanced;
     const walkIn = sessionSummary.walkIn;
@@ -840,6 +850,7 @@ export default function SlotVisualizerPage() {
 
     return {
       total,
+      advanceRatio,
       reservedMinimum,
       maxAdvance,
       advancePercent,
@@ -847,7 +858,7 @@ export default function SlotVisualizerPage() {
       remainingAdvance,
       limitReached,
     };
-  }, [sessionSummary]);
+  }, [sessionSummary, selectedDate, selectedSessionIndex, selectedDoctor, clinicCapacityPolicy]);
 
   const walkInSchedule = useMemo(() => {
     const result = {
@@ -1354,7 +1365,7 @@ export default function SlotVisualizerPage() {
                     </div>
                     <Progress value={Math.min(capacityInfo.walkInPercent, 100)} className="h-2" />
                     <p className="text-[11px] text-muted-foreground flex items-center justify-between">
-                      <span>Reserve: {capacityInfo.reservedMinimum} slots (last 15% of session)</span>
+                      <span>Reserve: {capacityInfo.reservedMinimum} slots (last {Math.round((1 - capacityInfo.advanceRatio) * 100)}% of session)</span>
                       {sessionSummary.available > 0 ? (
                         <span className="text-emerald-600 font-bold">{sessionSummary.available} slots remaining</span>
                       ) : (
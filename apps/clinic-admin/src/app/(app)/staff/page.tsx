@@ -0,0 +1,220 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { Loader2, UserPlus } from "lucide-react";
+import {
+  getClinicStaff,
+  hasPermission,
+  PERMISSION_LABELS,
+  ROLE_PERMISSIONS,
+  STAFF_ROLE_LABELS,
+  STAFF_ROLES,
+  updateStaffMember,
+} from "@kloqo/shared-core";
+import { db } from "@/lib/firebase";
+import { useStaffMember } from "@/hooks/useStaffMember";
+import { useToast } from "@/hooks/use-toast";
+import type { Doctor, StaffRole, User } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AddStaffDialog } from "@/components/staff/add-staff-dialog";
+import { KioskDevicesCard } from "@/components/staff/kiosk-devices-card";
+import { QueueDisplaysCard } from "@/components/staff/queue-displays-card";
+
+export default function StaffPage() {
+  const { staff: currentStaff, loading: staffLoading } = useStaffMember();
+  const { toast } = useToast();
+  const [members, setMembers] = useState<User[]>([]);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+
+  const clinicId = currentStaff?.clinicId;
+  const canManage = hasPermission(currentStaff, 'manage_staff');
+
+  const fetchStaff = useCallback(async () => {
+    if (!clinicId) return;
+    setLoading(true);
+    try {
+      const [staffList, doctorsSnap] = await Promise.all([
+        getClinicStaff(db, clinicId),
+        getDocs(query(collection(db, "doctors"), where("clinicId", "==", clinicId))),
+      ]);
+      setMembers(staffList);
+      setDoctors(doctorsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Doctor)));
+    } catch (e) {
+      console.error("Failed to fetch staff", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [clinicId]);
+
+  useEffect(() => {
+    if (staffLoading) return;
+    if (!clinicId || !canManage) {
+      setLoading(false);
+      return;
+    }
+    fetchStaff();
+  }, [staffLoading, clinicId, canManage, fetchStaff]);
+
+  const handleUpdate = async (member: User, updates: { staffRole?: StaffRole; active?: boolean; doctorId?: string }) => {
+    if (!currentStaff) return;
+    setSavingId(member.uid);
+    try {
+      await updateStaffMember(db, currentStaff, member, updates);
+      setMembers(prev => prev.map(m => m.uid === member.uid ? { ...m, ...updates } : m));
+      toast({ title: "Staff Updated", description: `${member.name || member.email} has been updated.` });
+    } catch (error: any) {
+      console.error("Error updating staff member:", error);
+      toast({ variant: "destructive", title: "Update Failed", description: error.message });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const doctorName = (doctorId?: string) => doctors.find(d => d.id === doctorId)?.name;
+  const people = members.filter(m => m.staffRole !== 'kiosk');
+  const kiosks = members.filter(m => m.staffRole === 'kiosk');
+  const personRoles = STAFF_ROLES.filter(role => role !== 'kiosk');
+
+  return (
+    <>
+      <header className="flex items-center justify-between gap-4 px-6 border-b py-6">
+        <div>
+          <h1 className="text-2xl font-bold">Staff</h1>
+          <p className="text-sm text-muted-foreground">Logins for your team. Each role only sees the actions it is allowed to take.</p>
+        </div>
+        {canManage && (
+          <Button onClick={() => setIsAddOpen(true)} className="flex items-center gap-2">
+            <UserPlus className="h-4 w-4" />
+            Add Staff
+          </Button>
+        )}
+      </header>
+
+      <div className="flex-1 p-6 space-y-6">
+        {staffLoading || loading ? (
+          <Skeleton className="h-72 w-full" />
+        ) : !canManage ? (
+          <Card>
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">
+              Only the clinic owner can manage staff.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Team</CardTitle>
+                <CardDescription>Deactivated staff can no longer log in to the dashboard or the nurse app.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Active</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {people.map(member => {
+                      const isSelf = member.uid === currentStaff?.uid;
+                      const role = member.staffRole || 'owner';
+                      return (
+                        <TableRow key={member.uid} className={member.active === false ? "opacity-60" : undefined}>
+                          <TableCell className="font-medium">
+                            {member.name || "—"}
+                            {isSelf && <Badge variant="outline" className="ml-2">You</Badge>}
+                            {role === 'doctor' && doctorName(member.doctorId) && (
+                              <p className="text-xs text-muted-foreground">Dr. {doctorName(member.doctorId)}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>{member.email || "—"}</TableCell>
+                          <TableCell>{member.phone || "—"}</TableCell>
+                          <TableCell>
+                            <Select
+                              value={role}
+                              disabled={isSelf || savingId === member.uid}
+                              onValueChange={value => handleUpdate(member, { staffRole: value as StaffRole })}
+                            >
+                              <SelectTrigger className="w-40">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {personRoles.map(staffRole => (
+                                  <SelectItem key={staffRole} value={staffRole} disabled={staffRole === 'doctor' && !member.doctorId}>
+                                    {STAFF_ROLE_LABELS[staffRole]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            {savingId === member.uid ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Switch
+                                checked={member.active !== false}
+                                disabled={isSelf}
+                                onCheckedChange={active => handleUpdate(member, { active })}
+                              />
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <KioskDevicesCard
+              kiosks={kiosks}
+              savingId={savingId}
+              onToggleActive={(kiosk, active) => handleUpdate(kiosk, { active })}
+              onKioskAdded={fetchStaff}
+            />
+
+            {currentStaff && <QueueDisplaysCard staff={currentStaff} doctors={doctors} />}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>What Each Role Can Do</CardTitle>
+                <CardDescription>Every role can view appointments, patients and reports.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-6">
+                {STAFF_ROLES.map(staffRole => (
+                  <div key={staffRole} className="space-y-2">
+                    <p className="font-medium">{STAFF_ROLE_LABELS[staffRole]}</p>
+                    <ul className="text-sm text-muted-foreground space-y-1">
+                      {ROLE_PERMISSIONS[staffRole].length === 0 ? (
+                        <li>View only</li>
+                      ) : (
+                        ROLE_PERMISSIONS[staffRole].map(permission => (
+                          <li key={permission} className="first-letter:uppercase">{PERMISSION_LABELS[permission]}</li>
+                        ))
+                      )}
+                    </ul>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <AddStaffDialog isOpen={isAddOpen} setIsOpen={setIsAddOpen} doctors={doctors} onStaffAdded={fetchStaff} />
+    </>
+  );
+}
@@ -22,6 +22,7 @@ import { db } from '@/lib/firebase';
 import { doc, getDoc, collection, addDoc, query, where, getDocs, serverTimestamp, setDoc, deleteDoc, onSnapshot } from 'firebase/firestore';
 import type { Appointment, Doctor, Patient } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
+import { useStaffMember } from '@/hooks/useStaffMember';
 import { format, isWithinInterval, parse, subMinutes, addMinutes, isBefore, differenceInMinutes, parseISO, isAfter } from 'date-fns';
 import { parseTime } from '@/lib/utils';
 import { cn } from '@/lib/utils';
@@ -72,6 +73,7 @@ function WalkInRegistrationContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const { toast } = useToast();
+  const { staff } = useStaffMember();
   const doctorIdFromParams = searchParams.get('doctor');
 
   const [doctor, setDoctor] = useState<Doctor | null>(null);
@@ -687,6 +689,7 @@ function WalkInRegistrationContent() {
         place: appointmentToSave.place,
         phone: appointmentToSave.communicationPhone,
         isForceBooked: appointmentToSave.isForceBooked,
+        staff,
       });
 
       if (result.success) {
@@ -728,7 +731,8 @@ function WalkInRegistrationContent() {
               tokenDistribution: clinicDetails?.tokenDistribution,
               classicTokenNumber: result.tokenNumber, // Walk-ins have direct tokens
               isWalkIn: true, // TRIGGER: Paid template
-              clinicId: clinicId
+              clinicId: clinicId,
+              patientId: appointmentToSave.patientId
             });
           }
         } catch (err) {
@@ -53,6 +53,17 @@ export default function LoginPage() {
         const userData = userDoc.data();
         const clinicId = userData.clinicId;
 
+        if (userData.active === false) {
+          await auth.signOut();
+          setIsLoading(false);
+          toast({
+            variant: "destructive",
+            title: "Account Disabled",
+            description: "Your staff account has been deactivated. Please contact your clinic owner.",
+          });
+          return;
+        }
+
         if (clinicId) {
           const clinicDoc = await getDoc(doc(db, 'clinics', clinicId));
           if (clinicDoc.exists()) {
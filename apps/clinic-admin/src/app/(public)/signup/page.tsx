@@ -415,6 +415,7 @@ export default function SignupPage() {
       designation: formData.designation,
       onboarded: false,
       role: 'clinicAdmin' as const,
+      staffRole: 'owner' as const,
     };
 
     const batch = writeBatch(db);
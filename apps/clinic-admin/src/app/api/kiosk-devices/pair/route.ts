@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { KIOSK_PAIRINGS_COLLECTION } from '@kloqo/shared-core';
+import type { KioskPairing } from '@/lib/types';
+import { getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+
+/**
+ * POST /api/kiosk-devices/pair
+ * Called by the tablet with the pairing code shown to the owner. The code
+ * works once; the response is a custom token the tablet signs in with.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { code } = await request.json() as { code?: string };
+    if (!code || !/^\d{6}$/.test(code)) {
+      return NextResponse.json({ error: 'Enter the 6-digit pairing code' }, { status: 400 });
+    }
+
+    const firestore = getAdminFirestore();
+    const pairingRef = firestore.collection(KIOSK_PAIRINGS_COLLECTION).doc(code);
+    const pairing = await firestore.runTransaction(async (transaction) => {
+      const snap = await transaction.get(pairingRef);
+      if (!snap.exists) return null;
+      transaction.delete(pairingRef);
+      return snap.data() as KioskPairing;
+    });
+
+    if (!pairing || pairing.expiresAt < Date.now()) {
+      return NextResponse.json({ error: 'This pairing code is invalid or has expired' }, { status: 400 });
+    }
+
+    const kiosk = (await firestore.collection('users').doc(pairing.uid).get()).data();
+    if (!kiosk || kiosk.active === false || kiosk.staffRole !== 'kiosk') {
+      return NextResponse.json({ error: 'This kiosk has been deactivated' }, { status: 403 });
+    }
+
+    const customToken = await getAdminAuth().createCustomToken(pairing.uid);
+    console.log(`[Kiosk] Tablet paired as kiosk ${pairing.uid} for clinic ${pairing.clinicId}`);
+    return NextResponse.json({ success: true, customToken });
+  } catch (error: any) {
+    console.error('[Kiosk] Pairing failed:', error);
+    return NextResponse.json({ error: error.message || 'Pairing failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  buildKioskUserDoc,
+  generateKioskPairingCode,
+  hasPermission,
+  KIOSK_PAIRING_TTL_MS,
+  KIOSK_PAIRINGS_COLLECTION,
+} from '@kloqo/shared-core';
+import type { KioskPairing } from '@/lib/types';
+import { getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+
+/**
+ * POST /api/kiosk-devices
+ * Adds a kiosk tablet to the caller's clinic, or with `uid` issues a new
+ * pairing code for an existing one, and returns the code to enter on the
+ * tablet at /kiosk. Only users who may manage staff can do this.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const idToken = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!idToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const auth = getAdminAuth();
+    const firestore = getAdminFirestore();
+    const decoded = await auth.verifyIdToken(idToken);
+    const callerSnap = await firestore.collection('users').doc(decoded.uid).get();
+    const caller = callerSnap.data();
+
+    if (!caller || !hasPermission({ ...caller, uid: decoded.uid }, 'manage_staff')) {
+      return NextResponse.json({ error: 'Only the clinic owner can add kiosks' }, { status: 403 });
+    }
+
+    const { name, uid: existingUid } = await request.json() as { name?: string; uid?: string };
+    let uid = existingUid;
+
+    if (uid) {
+      const kiosk = (await firestore.collection('users').doc(uid).get()).data();
+      if (!kiosk || kiosk.staffRole !== 'kiosk' || kiosk.clinicId !== caller.clinicId) {
+        return NextResponse.json({ error: 'Kiosk not found' }, { status: 404 });
+      }
+      // A new code replaces the tablet, so sign the old one out
+      await auth.revokeRefreshTokens(uid);
+    } else {
+      let kioskDoc;
+      try {
+        kioskDoc = buildKioskUserDoc('', caller.clinicId, name || '');
+      } catch (validationError: any) {
+        return NextResponse.json({ error: validationError.message }, { status: 400 });
+      }
+
+      const authUser = await auth.createUser({ displayName: kioskDoc.name });
+      uid = authUser.uid;
+      try {
+        await firestore.collection('users').doc(uid).set({
+          ...kioskDoc,
+          uid,
+          createdBy: decoded.uid,
+          createdAt: new Date(),
+        });
+      } catch (writeError) {
+        await auth.deleteUser(uid);
+        throw writeError;
+      }
+    }
+
+    const pairing: KioskPairing = {
+      code: generateKioskPairingCode(),
+      uid,
+      clinicId: caller.clinicId,
+      expiresAt: Date.now() + KIOSK_PAIRING_TTL_MS,
+    };
+    await firestore.collection(KIOSK_PAIRINGS_COLLECTION).doc(pairing.code).set(pairing);
+
+    console.log(`[Kiosk] Pairing code issued for kiosk ${uid} in clinic ${caller.clinicId}`);
+    return NextResponse.json({ success: true, uid, code: pairing.code, expiresAt: pairing.expiresAt });
+  } catch (error: any) {
+    console.error('[Kiosk] Failed to issue pairing code:', error);
+    return NextResponse.json({ error: error.message || 'Failed to add kiosk' }, { status: 500 });
+  }
+}
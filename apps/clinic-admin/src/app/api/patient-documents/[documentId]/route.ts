@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  canViewPatientDocument,
+  FirebaseStorageDocumentStorage,
+  getStaffRole,
+  PATIENT_DOCUMENTS_COLLECTION,
+} from '@kloqo/shared-core';
+import type { PatientDocument } from '@/lib/types';
+import { getAdminAuth, getAdminFirestore, getAdminBucket } from '@/lib/firebase-admin';
+
+/**
+ * GET /api/patient-documents/:documentId
+ * Streams a patient document to staff of a clinic the patient shared it with.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ documentId: string }> }) {
+  try {
+    const idToken = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!idToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { documentId } = await params;
+    const firestore = getAdminFirestore();
+    const decoded = await getAdminAuth().verifyIdToken(idToken);
+    const caller = (await firestore.collection('users').doc(decoded.uid).get()).data();
+    if (!caller || !getStaffRole(caller)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const documentSnap = await firestore.collection(PATIENT_DOCUMENTS_COLLECTION).doc(documentId).get();
+    const document = documentSnap.exists ? ({ id: documentSnap.id, ...documentSnap.data() } as PatientDocument) : null;
+    // Not shared looks the same as missing, so document ids reveal nothing
+    if (!document || !canViewPatientDocument(document, { type: 'staff', clinicId: caller.clinicId })) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const storage = new FirebaseStorageDocumentStorage(getAdminBucket());
+    const contents = await storage.get(document.storagePath);
+    if (!contents) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    return new NextResponse(Buffer.from(contents), {
+      status: 200,
+      headers: {
+        'Content-Type': document.contentType,
+        'Content-Disposition': `inline; filename="${document.fileName.replace(/"/g, '')}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('[Patient Documents API] Download failed:', error);
+    return NextResponse.json({ error: error.message || 'Failed to load document' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import {
+  FirebaseStorageDocumentStorage,
+  getStaffRole,
+  PATIENT_DOCUMENTS_COLLECTION,
+  storePatientDocument,
+} from '@kloqo/shared-core';
+import type { PatientDocumentKind } from '@/lib/types';
+import { getAdminAuth, getAdminFirestore, getAdminBucket } from '@/lib/firebase-admin';
+
+/**
+ * POST /api/patient-documents
+ * Staff upload a lab report or other file to a patient's vault. The file is
+ * kept private and shared with the uploading clinic only.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const idToken = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!idToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const firestore = getAdminFirestore();
+    const decoded = await getAdminAuth().verifyIdToken(idToken);
+    const caller = (await firestore.collection('users').doc(decoded.uid).get()).data();
+    const staffRole = getStaffRole(caller);
+    if (!caller || !staffRole || staffRole === 'readOnly') {
+      return NextResponse.json({ error: 'You cannot upload patient documents' }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const patientId = formData.get('patientId') as string | null;
+    if (!file || !patientId) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const patient = (await firestore.collection('patients').doc(patientId).get()).data();
+    if (!patient || !(patient.clinicIds || []).includes(caller.clinicId)) {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 });
+    }
+
+    const storage = new FirebaseStorageDocumentStorage(getAdminBucket());
+    let document;
+    try {
+      document = await storePatientDocument(storage, {
+        patientId,
+        kind: (formData.get('kind') as PatientDocumentKind) || 'lab_report',
+        title: (formData.get('title') as string) || file.name,
+        fileName: file.name,
+        contentType: file.type,
+        data: new Uint8Array(await file.arrayBuffer()),
+        reportDate: (formData.get('reportDate') as string) || undefined,
+        uploadedBy: { type: 'staff', id: decoded.uid, name: caller.name, clinicId: caller.clinicId },
+      });
+    } catch (validationError: any) {
+      return NextResponse.json({ error: validationError.message }, { status: 400 });
+    }
+
+    await firestore.collection(PATIENT_DOCUMENTS_COLLECTION).doc(document.id).set({
+      ...document,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ document });
+  } catch (error: any) {
+    console.error('[Patient Documents API] Upload failed:', error);
+    return NextResponse.json({ error: error.message || 'Failed to upload document' }, { status: 500 });
+  }
+}
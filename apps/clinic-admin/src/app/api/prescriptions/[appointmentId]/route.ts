@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildPrescriptionDocument, CONSULTATION_RECORDS_COLLECTION } from '@kloqo/shared-core';
+import type { ConsultationRecord } from '@/lib/types';
+import { renderPrescriptionPdf } from '@/lib/prescription-pdf';
+import { getAdminFirestore } from '@/lib/firebase-admin';
+
+/**
+ * GET /api/prescriptions/:appointmentId?token=...
+ * Renders the prescription PDF for a consultation record. Patients open this
+ * link from WhatsApp (Meta also fetches it for the document header) without
+ * signing in, so the record's share token is the only credential.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ appointmentId: string }> }) {
+  try {
+    const { appointmentId } = await params;
+    const token = request.nextUrl.searchParams.get('token');
+    if (!token) {
+      return NextResponse.json({ error: 'Missing token' }, { status: 401 });
+    }
+
+    const firestore = getAdminFirestore();
+    const recordSnap = await firestore.collection(CONSULTATION_RECORDS_COLLECTION).doc(appointmentId).get();
+    const record = recordSnap.exists ? ({ id: recordSnap.id, ...recordSnap.data() } as ConsultationRecord) : null;
+    if (!record || record.shareToken !== token) {
+      return NextResponse.json({ error: 'Prescription not found' }, { status: 404 });
+    }
+
+    const [clinicSnap, doctorSnap] = await Promise.all([
+      firestore.collection('clinics').doc(record.clinicId).get(),
+      record.doctorId ? firestore.collection('doctors').doc(record.doctorId).get() : Promise.resolve(null),
+    ]);
+    const clinic = clinicSnap.data();
+
+    const prescription = buildPrescriptionDocument(
+      record,
+      { name: clinic?.name || 'Clinic', address: clinic?.address, phone: clinic?.phone },
+      doctorSnap?.exists ? (doctorSnap.data() as any) : null
+    );
+    const pdf = renderPrescriptionPdf(prescription);
+    const fileName = `Prescription - ${record.patientName} - ${record.date}.pdf`;
+
+    return new NextResponse(Buffer.from(pdf.output('arraybuffer')), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${fileName.replace(/"/g, '')}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('[Prescriptions API] Error rendering prescription:', error);
+    return NextResponse.json({ error: error.message || 'Failed to render prescription' }, { status: 500 });
+  }
+}
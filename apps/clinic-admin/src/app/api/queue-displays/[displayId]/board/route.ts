@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import {
+  buildNowServingBoard,
+  getClinicDateString,
+  getClinicNow,
+  getClinicTimeContext,
+  QUEUE_DISPLAYS_COLLECTION,
+  TOKEN_CALLS_COLLECTION,
+} from '@kloqo/shared-core';
+import type { Appointment, Doctor, QueueDisplay, TokenCall } from '@/lib/types';
+import { getAdminFirestore } from '@/lib/firebase-admin';
+
+/**
+ * GET /api/queue-displays/:displayId/board
+ * The "Now Serving" board for a paired TV, authorised by the key it got when
+ * pairing (X-Display-Key). Tokens only - no patient names leave the server.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ displayId: string }> }) {
+  try {
+    const { displayId } = await params;
+    const key = request.headers.get('x-display-key') || '';
+    const firestore = getAdminFirestore();
+
+    const displaySnap = await firestore.collection(QUEUE_DISPLAYS_COLLECTION).doc(displayId).get();
+    const display = displaySnap.exists ? ({ id: displaySnap.id, ...displaySnap.data() } as QueueDisplay) : null;
+    // A removed display looks the same as a wrong key, and the TV goes back to pairing
+    if (!display || display.keyHash !== createHash('sha256').update(key).digest('hex')) {
+      return NextResponse.json({ error: 'Display not found' }, { status: 404 });
+    }
+
+    const clinicSnap = await firestore.collection('clinics').doc(display.clinicId).get();
+    const timeContext = getClinicTimeContext(clinicSnap.data());
+    const now = getClinicNow();
+    const today = getClinicDateString(now, timeContext);
+    const [doctorsSnap, appointmentsSnap, callsSnap] = await Promise.all([
+      firestore.collection('doctors').where('clinicId', '==', display.clinicId).get(),
+      firestore.collection('appointments').where('clinicId', '==', display.clinicId).where('date', '==', today).get(),
+      firestore.collection(TOKEN_CALLS_COLLECTION).where('clinicId', '==', display.clinicId).where('date', '==', today).get(),
+    ]);
+
+    const board = buildNowServingBoard({
+      clinicName: clinicSnap.data()?.name || '',
+      display,
+      doctors: doctorsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Doctor)),
+      appointments: appointmentsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Appointment)),
+      calls: callsSnap.docs.map(d => ({ id: d.id, ...d.data() } as TokenCall)),
+      tokenDistribution: clinicSnap.data()?.tokenDistribution,
+      now,
+      timeContext,
+    });
+
+    return NextResponse.json(board, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: any) {
+    console.error('[QueueDisplay] Failed to build board:', error);
+    return NextResponse.json({ error: error.message || 'Failed to load board' }, { status: 500 });
+  }
+}
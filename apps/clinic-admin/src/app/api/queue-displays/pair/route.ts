@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, randomBytes } from 'crypto';
+import {
+  generateKioskPairingCode,
+  QUEUE_DISPLAY_PAIRING_TTL_MS,
+  QUEUE_DISPLAY_PAIRINGS_COLLECTION,
+} from '@kloqo/shared-core';
+import type { QueueDisplayPairing } from '@/lib/types';
+import { getAdminFirestore } from '@/lib/firebase-admin';
+
+/**
+ * POST /api/queue-displays/pair
+ * Called by a TV opening /display. Returns a code to show on screen and a key
+ * the TV keeps; the key is what later lets it read its board.
+ */
+export async function POST() {
+  try {
+    const firestore = getAdminFirestore();
+    const key = randomBytes(32).toString('hex');
+    const pairing: QueueDisplayPairing = {
+      code: generateKioskPairingCode(),
+      keyHash: createHash('sha256').update(key).digest('hex'),
+      expiresAt: Date.now() + QUEUE_DISPLAY_PAIRING_TTL_MS,
+    };
+
+    // create() fails if another TV is showing the same code right now
+    await firestore.collection(QUEUE_DISPLAY_PAIRINGS_COLLECTION).doc(pairing.code).create(pairing);
+
+    return NextResponse.json({ success: true, code: pairing.code, key, expiresAt: pairing.expiresAt });
+  } catch (error: any) {
+    console.error('[QueueDisplay] Failed to start pairing:', error);
+    return NextResponse.json({ error: 'Could not get a pairing code, please try again' }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/queue-displays/pair?code=...&key=...
+ * Polled by the TV while it shows its code. Once the owner has claimed the
+ * code the response carries the display id and the pairing is removed.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const code = request.nextUrl.searchParams.get('code') || '';
+    const key = request.nextUrl.searchParams.get('key') || '';
+
+    const firestore = getAdminFirestore();
+    const pairingRef = firestore.collection(QUEUE_DISPLAY_PAIRINGS_COLLECTION).doc(code);
+    const snap = code ? await pairingRef.get() : null;
+    const pairing = snap?.exists ? (snap.data() as QueueDisplayPairing) : null;
+
+    if (!pairing || pairing.keyHash !== createHash('sha256').update(key).digest('hex')) {
+      return NextResponse.json({ error: 'Pairing not found' }, { status: 404 });
+    }
+
+    if (pairing.displayId) {
+      await pairingRef.delete();
+      console.log(`[QueueDisplay] TV paired as display ${pairing.displayId}`);
+      return NextResponse.json({ success: true, displayId: pairing.displayId });
+    }
+
+    if (pairing.expiresAt < Date.now()) {
+      await pairingRef.delete();
+      return NextResponse.json({ error: 'This pairing code has expired' }, { status: 410 });
+    }
+
+    return NextResponse.json({ success: true, displayId: null });
+  } catch (error: any) {
+    console.error('[QueueDisplay] Pairing check failed:', error);
+    return NextResponse.json({ error: error.message || 'Pairing check failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import {
+  hasPermission,
+  normalizeQueueDisplayLayout,
+  QUEUE_DISPLAY_PAIRINGS_COLLECTION,
+  QUEUE_DISPLAYS_COLLECTION,
+} from '@kloqo/shared-core';
+import type { QueueDisplayLayout, QueueDisplayPairing } from '@/lib/types';
+import { getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+
+/**
+ * POST /api/queue-displays
+ * Claims the code a TV is showing for the caller's clinic and saves the
+ * display with its name and layout. Only users who may manage staff can do this.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const idToken = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!idToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const firestore = getAdminFirestore();
+    const decoded = await getAdminAuth().verifyIdToken(idToken);
+    const caller = (await firestore.collection('users').doc(decoded.uid).get()).data();
+
+    if (!caller || !hasPermission({ ...caller, uid: decoded.uid }, 'manage_staff')) {
+      return NextResponse.json({ error: 'Only the clinic owner can add displays' }, { status: 403 });
+    }
+
+    const { code, name, layout } = await request.json() as { code?: string; name?: string; layout?: Partial<QueueDisplayLayout> };
+    if (!code || !/^\d{6}$/.test(code)) {
+      return NextResponse.json({ error: 'Enter the 6-digit code shown on the TV' }, { status: 400 });
+    }
+    if (!name?.trim()) {
+      return NextResponse.json({ error: 'Display name is required' }, { status: 400 });
+    }
+
+    const pairingRef = firestore.collection(QUEUE_DISPLAY_PAIRINGS_COLLECTION).doc(code);
+    const displayRef = firestore.collection(QUEUE_DISPLAYS_COLLECTION).doc();
+
+    const claimed = await firestore.runTransaction(async (transaction) => {
+      const snap = await transaction.get(pairingRef);
+      const pairing = snap.exists ? (snap.data() as QueueDisplayPairing) : null;
+      if (!pairing || pairing.displayId || pairing.expiresAt < Date.now()) return false;
+
+      transaction.set(displayRef, {
+        clinicId: caller.clinicId,
+        name: name.trim(),
+        layout: normalizeQueueDisplayLayout(layout),
+        keyHash: pairing.keyHash,
+        createdBy: decoded.uid,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      transaction.update(pairingRef, { displayId: displayRef.id });
+      return true;
+    });
+
+    if (!claimed) {
+      return NextResponse.json({ error: 'This code is invalid or has expired. Reload /display on the TV for a new one.' }, { status: 400 });
+    }
+
+    console.log(`[QueueDisplay] Display ${displayRef.id} added to clinic ${caller.clinicId}`);
+    return NextResponse.json({ success: true, displayId: displayRef.id });
+  } catch (error: any) {
+    console.error('[QueueDisplay] Failed to add display:', error);
+    return NextResponse.json({ error: error.message || 'Failed to add display' }, { status: 500 });
+  }
+}
@@ -1,76 +1,118 @@
-
 import { NextRequest, NextResponse } from 'next/server';
 import twilio from 'twilio';
-import { WhatsAppService, WhatsAppTemplateComponent } from '@kloqo/shared-core';
-
+import {
+  FREE_TEXT_TEMPLATE,
+  WhatsAppService,
+  WhatsAppTemplateComponent,
+  getWhatsAppTemplate,
+  isWhatsAppTemplateName,
+  selectTemplateProvider,
+  toMetaTemplateComponents,
+  toTwilioTemplateContent,
+  type TemplateProvider,
+} from '@kloqo/shared-core';
+import { getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+import { consumeWhatsAppCreditAdmin, resolveMessageBilling } from '../../../../../../packages/shared-core/src/services/subscription-admin-service';
+
+/**
+ * POST /api/send-sms
+ * Body: { to, message?, channel, contentSid?, contentVariables?, clinicId? }
+ * Sends a WhatsApp template, WhatsApp free text or an SMS. Requires the Firebase ID
+ * token of clinic staff or of the server worker; resolveMessageBilling decides which
+ * clinic pays, and paid messages are billed to its plan before they go out.
+ */
 export async function POST(request: NextRequest) {
+  const idToken = request.headers.get('authorization')?.replace(/^Bearer /, '');
+  if (!idToken) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let sender: { uid: string; worker?: boolean };
+  try {
+    sender = await getAdminAuth().verifyIdToken(idToken);
+  } catch (error) {
+    console.error('[WhatsApp API] Invalid ID token:', error);
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
   const body = await request.json();
-  const { to, message, channel = 'sms' } = body;
+  const { to, message, channel = 'sms', clinicId } = body;
 
   const accountSid = process.env.TWILIO_ACCOUNT_SID;
   const authToken = process.env.TWILIO_AUTH_TOKEN;
   const whatsappPhoneId = process.env.WHATSAPP_PHONE_NUMBER_ID;
   const whatsappToken = process.env.WHATSAPP_ACCESS_TOKEN;
 
-  // Handle direct WhatsApp API (Meta)
-  if (channel === 'whatsapp' && whatsappPhoneId && whatsappToken) {
+  const templateName = body.contentSid;
+  const vars = typeof body.contentVariables === 'string'
+    ? JSON.parse(body.contentVariables)
+    : (body.contentVariables || {});
+  const isTemplate = channel === 'whatsapp' && !!templateName && templateName !== FREE_TEXT_TEMPLATE;
+
+  // The registry decides which provider can send the template, and checks its variables
+  let provider: TemplateProvider | null = null;
+  let components: WhatsAppTemplateComponent[] = [{ type: 'body', parameters: [{ type: 'text', text: String(vars.text || message || '') }] }];
+  let twilioContent: { contentSid: string; contentVariables: string } | null = null;
+  if (isTemplate) {
+    if (!isWhatsAppTemplateName(templateName)) {
+      return NextResponse.json({ success: false, error: `Unknown WhatsApp template "${templateName}".` }, { status: 400 });
+    }
+    provider = selectTemplateProvider(templateName, {
+      meta: !!(whatsappPhoneId && whatsappToken),
+      twilio: !!(accountSid && authToken && process.env.TWILIO_WHATSAPP_NUMBER),
+    });
+    if (!provider) {
+      return NextResponse.json({
+        success: false,
+        error: `No configured provider can send ${templateName} (approved on: ${getWhatsAppTemplate(templateName).providers.join(', ')}).`
+      }, { status: 400 });
+    }
+
     try {
-      const whatsappService = new WhatsAppService(whatsappPhoneId, whatsappToken);
+      if (provider === 'meta') {
+        components = toMetaTemplateComponents(templateName, vars);
+      } else {
+        twilioContent = toTwilioTemplateContent(templateName, vars);
+      }
+    } catch (error: any) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+  }
 
-      let components: WhatsAppTemplateComponent[] = [];
-      const templateName = body.contentSid;
-      const vars = body.contentVariables || {};
-
-      // Mapping logic for Malayalam templates with buttons
-      if (templateName === 'appointment_reminder_v2') {
-        // Body: 1-4, Button: None (Quick Reply)
-        const bodyParams = ["1", "2", "3", "4"].map(k => ({ type: 'text' as const, text: String(vars[k] || '') }));
-
-        components = [
-          { type: 'body', parameters: bodyParams }
-        ];
-      } else if (templateName === 'appointment_status_confirmed_ml' || templateName === 'appointment_status_confirmed_mlm') {
-        // Body: 1-2, Button: 3
-        const bodyParams = ["1", "2"].map(k => ({ type: 'text' as const, text: String(vars[k] || '') }));
-        const buttonParams = [{ type: 'text' as const, text: String(vars["3"] || '') }];
-
-        components = [
-          { type: 'body', parameters: bodyParams },
-          { type: 'button', sub_type: 'url', index: '0', parameters: buttonParams }
-        ];
-      } else if (templateName === 'doctor_consultation_started_ml') {
-        // Body: 1-3, Button: 4
-        const bodyParams = ["1", "2", "3"].map(k => ({ type: 'text' as const, text: String(vars[k] || '') }));
-        const buttonParams = [{ type: 'text' as const, text: String(vars["4"] || '') }];
-
-        components = [
-          { type: 'body', parameters: bodyParams },
-          { type: 'button', sub_type: 'url', index: '0', parameters: buttonParams }
-        ];
-      } else if (templateName === 'doctor_in_pending_ml') {
-        // Body: 1, Button: 2
-        const bodyParams = [{ type: 'text' as const, text: String(vars["1"] || '') }];
-        const buttonParams = [{ type: 'text' as const, text: String(vars["2"] || '') }];
-
-        components = [
-          { type: 'body', parameters: bodyParams },
-          { type: 'button', sub_type: 'url', index: '0', parameters: buttonParams }
-        ];
-      } else if (templateName === 'token_called_quick_reply_ml') {
-        // Body: 1-2, Button: 3
-        const bodyParams = ["1", "2"].map(k => ({ type: 'text' as const, text: String(vars[k] || '') }));
-        const buttonParams = [{ type: 'text' as const, text: String(vars["3"] || '') }];
-
-        components = [
-          { type: 'body', parameters: bodyParams },
-          { type: 'button', sub_type: 'url', index: '0', parameters: buttonParams }
-        ];
+  // Paid messages are billed to the clinic's plan before they go out
+  const adminDb = getAdminFirestore();
+  let billing;
+  try {
+    billing = await resolveMessageBilling(adminDb, sender, { to, channel, templateName, clinicId });
+  } catch (error: any) {
+    console.error('[WhatsApp API] Billing lookup failed:', error);
+    return NextResponse.json({ success: false, error: 'Could not meter the message' }, { status: 500 });
+  }
+  if (!billing.ok) {
+    return NextResponse.json({ success: false, error: billing.error }, { status: billing.status });
+  }
+  if (billing.billable && billing.clinicId) {
+    try {
+      if (!(await consumeWhatsAppCreditAdmin(adminDb, billing.clinicId))) {
+        return NextResponse.json({ success: false, error: 'No WhatsApp credits left' }, { status: 402 });
       }
+    } catch (error: any) {
+      console.error('[WhatsApp API] Metering failed:', error);
+      return NextResponse.json({ success: false, error: 'Could not meter the WhatsApp message' }, { status: 500 });
+    }
+  }
+
+  // Handle direct WhatsApp API (Meta)
+  if (channel === 'whatsapp' && whatsappPhoneId && whatsappToken && (!isTemplate || provider === 'meta')) {
+    try {
+      const whatsappService = new WhatsAppService(whatsappPhoneId, whatsappToken);
+      const language = isTemplate ? getWhatsAppTemplate(templateName).language : 'ml';
 
-      await whatsappService.sendTemplateMessage(to, templateName, 'ml', components);
+      const result = await whatsappService.sendTemplateMessage(to, templateName || FREE_TEXT_TEMPLATE, language, components);
 
       return NextResponse.json({
         success: true,
+        messageId: result.messages?.[0]?.id, // matched against webhook delivery statuses
         message: "WhatsApp message sent successfully via Meta API"
       });
     } catch (error: any) {
@@ -88,15 +130,6 @@ export async function POST(request: NextRequest) {
   let toFormatted: string;
 
   if (channel === 'whatsapp') {
-    // If it's a Meta template, DO NOT fall back to Twilio as it will fail
-    const metaTemplates = ['appointment_reminder_v2', 'appointment_requested_ml', 'appointment_status_confirmed_ml', 'appointment_status_confirmed_mlm'];
-    if (metaTemplates.includes(body.contentSid)) {
-      return NextResponse.json({
-        success: false,
-        error: 'Meta WhatsApp credentials missing or invalid. Check .env.local'
-      }, { status: 400 });
-    }
-
     from = process.env.TWILIO_WHATSAPP_NUMBER;
     toFormatted = `whatsapp:${to}`;
     if (from) from = `whatsapp:${from}`;
@@ -117,15 +150,10 @@ export async function POST(request: NextRequest) {
   try {
     const messageOptions: any = { from, to: toFormatted };
 
-    if (channel === 'whatsapp' && body.contentSid) {
-      messageOptions.contentSid = body.contentSid;
-      if (body.contentVariables) {
-        messageOptions.contentVariables = typeof body.contentVariables === 'string'
-          ? body.contentVariables
-          : JSON.stringify(body.contentVariables);
-      }
+    if (twilioContent) {
+      Object.assign(messageOptions, twilioContent);
     } else {
-      messageOptions.body = message;
+      messageOptions.body = channel === 'whatsapp' && vars.text ? vars.text : message;
     }
 
     const result = await client.messages.create(messageOptions);
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildStaffUserDoc, countStaffSeats, getSeatLimit, hasPermission, type StaffAccountInput } from '@kloqo/shared-core';
+import { getAdminAuth, getAdminFirestore } from '@/lib/firebase-admin';
+
+/**
+ * POST /api/staff
+ * Creates a login for a clinic staff member. Creating a Firebase Auth user from
+ * the browser would sign the owner out, so it happens here with the Admin SDK.
+ * The caller sends their ID token and must be allowed to manage staff; the new
+ * account always joins the caller's clinic, if its plan has a seat left.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const idToken = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!idToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const auth = getAdminAuth();
+    const firestore = getAdminFirestore();
+    const decoded = await auth.verifyIdToken(idToken);
+    const callerSnap = await firestore.collection('users').doc(decoded.uid).get();
+    const caller = callerSnap.data();
+
+    if (!caller || !hasPermission({ ...caller, uid: decoded.uid }, 'manage_staff')) {
+      return NextResponse.json({ error: 'Only the clinic owner can add staff' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { password, ...fields } = body as Omit<StaffAccountInput, 'clinicId'> & { password?: string };
+    if (!fields.email || !password || password.length < 8) {
+      return NextResponse.json({ error: 'Email and a password of at least 8 characters are required' }, { status: 400 });
+    }
+
+    let staffDoc;
+    try {
+      staffDoc = buildStaffUserDoc('', { ...fields, clinicId: caller.clinicId });
+    } catch (validationError: any) {
+      return NextResponse.json({ error: validationError.message }, { status: 400 });
+    }
+
+    const clinicSnap = await firestore.collection('clinics').doc(caller.clinicId).get();
+    const seatLimit = getSeatLimit(clinicSnap.data() || {});
+    if (seatLimit !== null) {
+      const staffSnap = await firestore.collection('users')
+        .where('clinicId', '==', caller.clinicId)
+        .where('role', '==', 'clinicAdmin')
+        .get();
+      if (countStaffSeats(staffSnap.docs.map(d => d.data())) >= seatLimit) {
+        return NextResponse.json(
+          { error: `Your plan includes ${seatLimit} staff login${seatLimit === 1 ? '' : 's'}. Upgrade the plan or deactivate a login to add another.` },
+          { status: 403 }
+        );
+      }
+    }
+
+    const authUser = await auth.createUser({
+      email: staffDoc.email,
+      password,
+      displayName: staffDoc.name,
+    });
+
+    try {
+      await firestore.collection('users').doc(authUser.uid).set({
+        ...staffDoc,
+        uid: authUser.uid,
+        createdBy: decoded.uid,
+        createdAt: new Date(),
+      });
+    } catch (writeError) {
+      // Don't leave a login without a users doc behind
+      await auth.deleteUser(authUser.uid);
+      throw writeError;
+    }
+
+    console.log(`[Staff] Created ${staffDoc.staffRole} account ${authUser.uid} for clinic ${caller.clinicId}`);
+    return NextResponse.json({ success: true, uid: authUser.uid });
+  } catch (error: any) {
+    console.error('[Staff] Failed to create staff account:', error);
+    if (error.code === 'auth/email-already-exists') {
+      return NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 });
+    }
+    return NextResponse.json({ error: error.message || 'Failed to create staff account' }, { status: 500 });
+  }
+}
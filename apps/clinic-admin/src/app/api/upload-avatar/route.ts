@@ -1,35 +1,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
-import { initializeApp, getApps, cert } from 'firebase-admin/app';
-import { getStorage } from 'firebase-admin/storage';
-
-// Import the service account key from the JSON file
-const serviceAccountJson = process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
-
-if (!serviceAccountJson) {
-  throw new Error('Missing GOOGLE_SERVICE_ACCOUNT_JSON environment variable for Firebase Admin credentials.');
-}
-
-const parsedServiceAccount = JSON.parse(serviceAccountJson);
-
-const serviceAccountParams = {
-  projectId: parsedServiceAccount.project_id,
-  clientEmail: parsedServiceAccount.client_email,
-  privateKey: parsedServiceAccount.private_key?.replace(/\\n/g, '\n'),
-};
+import { getAdminBucket } from '@/lib/firebase-admin';
 
 export async function GET() {
   try {
-    // Initialize Firebase Admin SDK
-    if (getApps().length === 0) {
-      initializeApp({
-        credential: cert(serviceAccountParams),
-        storageBucket: 'kloqo-clinic-multi-33968-4c50b.firebasestorage.app',
-      });
-    }
-
     // Test bucket access
-    const bucket = getStorage().bucket('kloqo-clinic-multi-33968-4c50b.firebasestorage.app');
+    const bucket = getAdminBucket();
 
     // Try to list files (this will fail if bucket doesn't exist)
     try {
@@ -68,14 +44,6 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
-    // Initialize Firebase Admin SDK
-    if (getApps().length === 0) {
-      initializeApp({
-        credential: cert(serviceAccountParams),
-        storageBucket: 'kloqo-clinic-multi-33968-4c50b.firebasestorage.app',
-      });
-    }
-
     const formData = await request.formData();
     const file = formData.get('file') as File;
     const clinicId = formData.get('clinicId') as string;
@@ -90,7 +58,7 @@ export async function POST(request: NextRequest) {
     const filePath = `doctor_avatars/${clinicId}/${fileName}`;
     
     try {
-      const bucket = getStorage().bucket('kloqo-clinic-multi-33968-4c50b.firebasestorage.app');
+      const bucket = getAdminBucket();
       const fileRef = bucket.file(filePath);
 
       await fileRef.save(buffer, {
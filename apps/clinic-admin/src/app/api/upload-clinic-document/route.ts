@@ -1,31 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { initializeApp, getApps, cert } from 'firebase-admin/app';
-import { getStorage } from 'firebase-admin/storage';
-
-const serviceAccountJson = process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
-
-if (!serviceAccountJson) {
-  throw new Error('Missing GOOGLE_SERVICE_ACCOUNT_JSON environment variable for Firebase Admin credentials.');
-}
-
-const parsedServiceAccount = JSON.parse(serviceAccountJson);
-
-const serviceAccountParams = {
-  projectId: parsedServiceAccount.project_id,
-  clientEmail: parsedServiceAccount.client_email,
-  privateKey: parsedServiceAccount.private_key?.replace(/\\n/g, '\n'),
-};
+import { getAdminBucket } from '@/lib/firebase-admin';
 
 export async function POST(request: NextRequest) {
   try {
-    // Initialize Firebase Admin SDK
-    if (getApps().length === 0) {
-      initializeApp({
-        credential: cert(serviceAccountParams),
-        storageBucket: 'kloqo-clinic-multi-33968-4c50b.firebasestorage.app',
-      });
-    }
-
     const formData = await request.formData();
     const file = formData.get('file') as File;
     const userId = formData.get('userId') as string;
@@ -58,7 +35,7 @@ export async function POST(request: NextRequest) {
     const filePath = `clinics/${userId}/documents/${pathMap[documentType]}`;
     
     try {
-      const bucket = getStorage().bucket('kloqo-clinic-multi-33968-4c50b.firebasestorage.app');
+      const bucket = getAdminBucket();
       const fileRef = bucket.file(filePath);
 
       await fileRef.save(buffer, {
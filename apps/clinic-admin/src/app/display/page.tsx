@@ -0,0 +1,191 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Loader2, Volume2 } from "lucide-react";
+import { getCallsToAnnounce } from "@kloqo/shared-core";
+import type { NowServingBoard as Board, TokenCall } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { NowServingBoard } from "@/components/display/now-serving-board";
+import { announceTokenCall, unlockAudio } from "@/components/display/token-announcer";
+
+const STORAGE_KEY = "kloqo-queue-display";
+const BOARD_REFRESH_MS = 10 * 1000;
+const PAIRING_REFRESH_MS = 5 * 1000;
+const CALL_BANNER_MS = 15 * 1000;
+
+type PairedDisplay = { displayId: string; key: string };
+type PairingState = { code: string; key: string; expiresAt: number };
+
+function loadPairedDisplay(): PairedDisplay | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    return saved?.displayId && saved?.key ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Waiting-room TV. No login: the first time it shows a code for the owner to
+ * enter under Staff > Waiting-room Displays, then it polls its board.
+ */
+export default function QueueDisplayPage() {
+  const [paired, setPaired] = useState<PairedDisplay | null>(null);
+  const [pairing, setPairing] = useState<PairingState | null>(null);
+  const [board, setBoard] = useState<Board | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [soundOn, setSoundOn] = useState(false);
+  const [latestCall, setLatestCall] = useState<TokenCall | null>(null);
+  const [checkedStorage, setCheckedStorage] = useState(false);
+
+  const lastAnnouncedAt = useRef<number | null>(null);
+  const announcing = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    setPaired(loadPairedDisplay());
+    setCheckedStorage(true);
+  }, []);
+
+  const startPairing = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch("/api/queue-displays/pair", { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Could not get a pairing code");
+      setPairing({ code: data.code, key: data.key, expiresAt: data.expiresAt });
+    } catch (err: any) {
+      console.error("Display pairing failed:", err);
+      setError(err.message);
+    }
+  }, []);
+
+  // Unpaired: show a code and wait for the owner to claim it
+  useEffect(() => {
+    if (!checkedStorage || paired) return;
+    if (!pairing) {
+      startPairing();
+      return;
+    }
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/queue-displays/pair?code=${pairing.code}&key=${pairing.key}`);
+        const data = await response.json();
+        if (!response.ok) {
+          setPairing(null); // expired: get a fresh code
+          return;
+        }
+        if (data.displayId) {
+          const display = { displayId: data.displayId, key: pairing.key };
+          localStorage.setItem(STORAGE_KEY, JSON.stringify(display));
+          setPairing(null);
+          setPaired(display);
+        }
+      } catch (err) {
+        console.error("Display pairing check failed:", err);
+      }
+    }, PAIRING_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [checkedStorage, paired, pairing, startPairing]);
+
+  // Paired: keep the board fresh and announce new calls
+  useEffect(() => {
+    if (!paired) return;
+
+    const refresh = async () => {
+      try {
+        const response = await fetch(`/api/queue-displays/${paired.displayId}/board`, {
+          headers: { "X-Display-Key": paired.key },
+          cache: "no-store",
+        });
+        if (response.status === 404) {
+          // Removed by the owner: start over
+          localStorage.removeItem(STORAGE_KEY);
+          setBoard(null);
+          setPaired(null);
+          return;
+        }
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to load board");
+
+        const nextBoard = data as Board;
+        setBoard(nextBoard);
+        setError(null);
+
+        if (lastAnnouncedAt.current === null) {
+          // Calls made before the TV came on are not read out
+          lastAnnouncedAt.current = nextBoard.generatedAt;
+          return;
+        }
+        const calls = getCallsToAnnounce(nextBoard.calls, lastAnnouncedAt.current, nextBoard.generatedAt);
+        for (const call of calls) {
+          lastAnnouncedAt.current = call.calledAt;
+          announcing.current = announcing.current.then(async () => {
+            setLatestCall(call);
+            await announceTokenCall(call, nextBoard.layout.announcementLanguages);
+          });
+        }
+      } catch (err: any) {
+        console.error("Display board refresh failed:", err);
+        setError("Reconnecting…");
+      }
+    };
+
+    refresh();
+    const timer = setInterval(refresh, BOARD_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [paired]);
+
+  useEffect(() => {
+    if (!latestCall) return;
+    const timer = setTimeout(() => setLatestCall(null), CALL_BANNER_MS);
+    return () => clearTimeout(timer);
+  }, [latestCall]);
+
+  if (!checkedStorage || (paired && !board)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-950 text-white">
+        <Loader2 className="h-12 w-12 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!paired) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-6 bg-slate-950 text-center text-white">
+        <h1 className="text-4xl font-bold">Kloqo Waiting-room Display</h1>
+        <p className="max-w-2xl text-2xl text-slate-400">
+          In Kloqo clinic admin, open Staff, choose Add Display and enter this code.
+        </p>
+        {pairing ? (
+          <p className="font-mono text-9xl font-bold tracking-[0.3em]">{pairing.code}</p>
+        ) : (
+          <Loader2 className="h-12 w-12 animate-spin" />
+        )}
+        {error && (
+          <div className="space-y-3">
+            <p className="text-xl text-red-400">{error}</p>
+            <Button variant="secondary" onClick={startPairing}>Try Again</Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <NowServingBoard board={board!} latestCall={latestCall} />
+      {!soundOn && (
+        <Button
+          size="lg"
+          className="fixed bottom-6 right-6"
+          onClick={async () => setSoundOn(await unlockAudio())}
+        >
+          <Volume2 className="mr-2 h-5 w-5" />
+          Turn On Announcements
+        </Button>
+      )}
+      {error && <p className="fixed bottom-6 left-6 text-lg text-amber-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,426 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { signInWithCustomToken } from "firebase/auth";
+import { collection, doc, getDoc, getDocs, query, where } from "firebase/firestore";
+import { ArrowLeft, Loader2, Phone, Printer, QrCode, Ticket } from "lucide-react";
+import {
+  completeStaffWalkInBooking,
+  findKioskAppointmentsByPhone,
+  getClinicDateString,
+  getClinicNow,
+  getClinicTimeString,
+  getUserActor,
+  kioskCheckIn,
+  managePatient,
+  parseCheckInCode,
+  setClinicTimeZone,
+} from "@kloqo/shared-core";
+import { auth, db } from "@/lib/firebase";
+import { useAuth } from "@/firebase";
+import { useStaffMember } from "@/hooks/useStaffMember";
+import type { Appointment, Clinic, Doctor } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { QrScanView, isQrScanSupported } from "@/components/kiosk/qr-scan-view";
+import { TokenSlip, type TokenSlipDetails } from "@/components/kiosk/token-slip";
+
+type KioskView = "home" | "scan" | "phone" | "walk-in" | "slip";
+
+// Go back to the start screen if a patient walks away mid-way
+const IDLE_RESET_MS = 60 * 1000;
+
+function PairingScreen() {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [pairing, setPairing] = useState(false);
+
+  const handlePair = async () => {
+    setPairing(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/kiosk-devices/pair", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Pairing failed");
+      await signInWithCustomToken(auth, data.customToken);
+    } catch (err: any) {
+      console.error("Kiosk pairing failed:", err);
+      setError(err.message);
+    } finally {
+      setPairing(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto flex max-w-sm flex-col gap-4 pt-24 text-center">
+      <h1 className="text-2xl font-bold">Set Up Check-in Kiosk</h1>
+      <p className="text-muted-foreground">Ask the clinic owner to add a kiosk on the Staff page and enter the code shown there.</p>
+      <Input
+        inputMode="numeric"
+        maxLength={6}
+        value={code}
+        onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+        className="h-14 text-center text-3xl tracking-[0.5em]"
+      />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <Button size="lg" onClick={handlePair} disabled={code.length !== 6 || pairing}>
+        {pairing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Pair This Tablet
+      </Button>
+    </div>
+  );
+}
+
+export default function KioskPage() {
+  const { currentUser, loading: authLoading } = useAuth();
+  const { staff, loading: staffLoading } = useStaffMember();
+  const [clinic, setClinic] = useState<Clinic | null>(null);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [view, setView] = useState<KioskView>("home");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [slip, setSlip] = useState<TokenSlipDetails | null>(null);
+  const [lastActivity, setLastActivity] = useState(Date.now());
+
+  const [phone, setPhone] = useState("");
+  const [matches, setMatches] = useState<Appointment[] | null>(null);
+  const [walkIn, setWalkIn] = useState({ doctorId: "", name: "", age: "", sex: "", place: "", phone: "" });
+
+  const clinicId = staff?.staffRole === "kiosk" ? staff.clinicId : undefined;
+
+  useEffect(() => {
+    if (!clinicId) return;
+    getDoc(doc(db, "clinics", clinicId))
+      .then(snap => {
+        setClinicTimeZone(snap.data()?.timezone);
+        setClinic(snap.exists() ? ({ id: snap.id, ...snap.data() } as Clinic) : null);
+      })
+      .catch(err => console.error("Kiosk failed to load clinic:", err));
+  }, [clinicId]);
+
+  const reset = useCallback(() => {
+    setView("home");
+    setError(null);
+    setSlip(null);
+    setPhone("");
+    setMatches(null);
+    setWalkIn({ doctorId: "", name: "", age: "", sex: "", place: "", phone: "" });
+  }, []);
+
+  useEffect(() => {
+    if (view === "home") return;
+    const timer = setTimeout(reset, IDLE_RESET_MS - (Date.now() - lastActivity));
+    return () => clearTimeout(timer);
+  }, [view, lastActivity, reset]);
+
+  const tokenFor = (appointment: Appointment) =>
+    clinic?.tokenDistribution === "classic" && appointment.classicTokenNumber
+      ? `#${appointment.classicTokenNumber}`
+      : appointment.tokenNumber;
+
+  const checkIn = async (appointmentId: string) => {
+    if (!clinicId || !currentUser) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const { appointment, alreadyCheckedIn } = await kioskCheckIn(db, appointmentId, {
+        clinicId,
+        actor: getUserActor(currentUser, "kiosk"),
+      });
+      setSlip({
+        clinicName: clinic?.name || "",
+        patientName: appointment.patientName,
+        doctorName: appointment.doctor,
+        token: tokenFor(appointment),
+        date: appointment.date,
+        time: appointment.time,
+        note: alreadyCheckedIn ? "You were already checked in." : "You are checked in. Please take a seat.",
+      });
+      setView("slip");
+    } catch (err: any) {
+      console.error("Kiosk check-in failed:", err);
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleScan = useCallback((text: string) => {
+    const appointmentId = parseCheckInCode(text);
+    if (!appointmentId) {
+      setError("This QR code is not a Kloqo token. Please try again or use your phone number.");
+      setView("home");
+      return;
+    }
+    checkIn(appointmentId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clinicId, currentUser, clinic]);
+
+  const handleScanError = useCallback((message: string) => {
+    setError(message);
+    setView("phone");
+  }, []);
+
+  const searchByPhone = async () => {
+    if (!clinicId) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setMatches(await findKioskAppointmentsByPhone(db, clinicId, phone));
+    } catch (err: any) {
+      console.error("Kiosk phone lookup failed:", err);
+      setError("Could not look up your booking. Please see the reception desk.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openWalkIn = async () => {
+    if (!clinicId) return;
+    setView("walk-in");
+    try {
+      const snap = await getDocs(query(collection(db, "doctors"), where("clinicId", "==", clinicId)));
+      setDoctors(snap.docs.map(d => ({ id: d.id, ...d.data() } as Doctor)).filter(d => d.consultationStatus === "In"));
+    } catch (err) {
+      console.error("Kiosk failed to load doctors:", err);
+    }
+  };
+
+  const bookWalkIn = async () => {
+    const doctor = doctors.find(d => d.id === walkIn.doctorId);
+    const digits = walkIn.phone.replace(/\D/g, "").slice(-10);
+    if (!clinicId || !doctor) return;
+    if (digits.length !== 10) {
+      setError("Please enter a 10-digit mobile number.");
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const fullPhone = `+91${digits}`;
+      const age = walkIn.age ? Number(walkIn.age) : undefined;
+      const patientId = await managePatient({
+        phone: fullPhone,
+        communicationPhone: fullPhone,
+        name: walkIn.name.trim(),
+        age,
+        place: walkIn.place.trim(),
+        sex: walkIn.sex,
+        clinicId,
+        bookingFor: "self",
+      });
+
+      const result = await completeStaffWalkInBooking(db, {
+        clinicId,
+        doctor,
+        patientId,
+        patientName: walkIn.name.trim(),
+        age,
+        sex: walkIn.sex,
+        place: walkIn.place.trim(),
+        phone: fullPhone,
+        staff,
+      });
+
+      setSlip({
+        clinicName: clinic?.name || "",
+        patientName: walkIn.name.trim(),
+        doctorName: doctor.name,
+        token: clinic?.tokenDistribution === "classic" && result.classicTokenNumber ? `#${result.classicTokenNumber}` : result.tokenNumber,
+        date: getClinicDateString(getClinicNow()),
+        time: getClinicTimeString(new Date(result.estimatedTime)),
+        note: result.patientsAhead > 0 ? `${result.patientsAhead} patients ahead of you.` : "You are next.",
+      });
+      setView("slip");
+    } catch (err: any) {
+      console.error("Kiosk walk-in booking failed:", err);
+      setError(err.message || "Could not book a token. Please see the reception desk.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (authLoading || (currentUser && staffLoading)) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!currentUser) return <PairingScreen />;
+
+  if (!clinicId || staff?.active === false) {
+    return (
+      <div className="flex h-screen items-center justify-center p-6 text-center text-muted-foreground">
+        This page is for paired check-in kiosks. Open the dashboard to manage your clinic.
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="min-h-screen bg-muted/30 p-6 print:bg-white print:p-0"
+      onPointerDown={() => setLastActivity(Date.now())}
+      onKeyDown={() => setLastActivity(Date.now())}
+    >
+      <header className="mb-8 flex items-center gap-3 print:hidden">
+        {view !== "home" && (
+          <Button variant="ghost" size="icon" onClick={reset}>
+            <ArrowLeft className="h-6 w-6" />
+          </Button>
+        )}
+        <div>
+          <h1 className="text-3xl font-bold">{clinic?.name || "Welcome"}</h1>
+          <p className="text-muted-foreground">Self check-in</p>
+        </div>
+      </header>
+
+      {error && <p className="mx-auto mb-6 max-w-xl rounded-lg bg-destructive/10 p-4 text-center text-destructive print:hidden">{error}</p>}
+
+      <main className="mx-auto max-w-3xl">
+        {view === "home" && (
+          <div className="grid gap-4 md:grid-cols-3">
+            {isQrScanSupported() && (
+              <Button variant="outline" className="h-40 flex-col gap-3 text-lg" onClick={() => { setError(null); setView("scan"); }}>
+                <QrCode className="h-12 w-12" />
+                Scan My Token QR
+              </Button>
+            )}
+            <Button variant="outline" className="h-40 flex-col gap-3 text-lg" onClick={() => { setError(null); setView("phone"); }}>
+              <Phone className="h-12 w-12" />
+              Use My Phone Number
+            </Button>
+            <Button variant="outline" className="h-40 flex-col gap-3 text-lg" onClick={() => { setError(null); openWalkIn(); }}>
+              <Ticket className="h-12 w-12" />
+              New Walk-in Token
+            </Button>
+          </div>
+        )}
+
+        {view === "scan" && (
+          <div className="space-y-4 text-center">
+            <p className="text-lg">Hold the QR from your Kloqo live token page up to the camera.</p>
+            {busy ? <Loader2 className="mx-auto h-10 w-10 animate-spin" /> : <QrScanView onScan={handleScan} onError={handleScanError} />}
+          </div>
+        )}
+
+        {view === "phone" && (
+          <div className="mx-auto max-w-md space-y-4">
+            <Label htmlFor="kiosk-phone" className="text-lg">Phone number used for booking</Label>
+            <div className="flex gap-2">
+              <Input
+                id="kiosk-phone"
+                inputMode="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                className="h-14 text-2xl"
+              />
+              <Button size="lg" className="h-14" onClick={searchByPhone} disabled={busy || phone.replace(/\D/g, "").length < 10}>
+                {busy ? <Loader2 className="h-5 w-5 animate-spin" /> : "Find"}
+              </Button>
+            </div>
+            {matches?.length === 0 && (
+              <p className="text-center text-muted-foreground">No booking for today with this number. You can take a walk-in token instead.</p>
+            )}
+            {matches?.map(appointment => (
+              <Button
+                key={appointment.id}
+                variant="outline"
+                className="h-auto w-full justify-between p-4 text-left"
+                disabled={busy}
+                onClick={() => checkIn(appointment.id)}
+              >
+                <span>
+                  <span className="block text-lg font-semibold">{appointment.patientName}</span>
+                  <span className="block text-sm text-muted-foreground">Dr. {appointment.doctor} · {appointment.time}</span>
+                </span>
+                <span className="text-sm">{appointment.status === "Confirmed" ? "Checked in" : "Check in"}</span>
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {view === "walk-in" && (
+          <div className="mx-auto max-w-md space-y-4">
+            {doctors.length === 0 ? (
+              <p className="text-center text-muted-foreground">No doctor is consulting right now. Please see the reception desk.</p>
+            ) : (
+              <>
+                <div className="space-y-1">
+                  <Label>Doctor</Label>
+                  <Select value={walkIn.doctorId} onValueChange={(doctorId) => setWalkIn(prev => ({ ...prev, doctorId }))}>
+                    <SelectTrigger className="h-12"><SelectValue placeholder="Choose a doctor" /></SelectTrigger>
+                    <SelectContent>
+                      {doctors.map(doctor => (
+                        <SelectItem key={doctor.id} value={doctor.id}>Dr. {doctor.name} · {doctor.department}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="walk-in-name">Patient name</Label>
+                  <Input id="walk-in-name" className="h-12" value={walkIn.name} onChange={(e) => setWalkIn(prev => ({ ...prev, name: e.target.value }))} />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="walk-in-age">Age</Label>
+                    <Input id="walk-in-age" inputMode="numeric" className="h-12" value={walkIn.age} onChange={(e) => setWalkIn(prev => ({ ...prev, age: e.target.value.replace(/\D/g, "") }))} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Sex</Label>
+                    <Select value={walkIn.sex} onValueChange={(sex) => setWalkIn(prev => ({ ...prev, sex }))}>
+                      <SelectTrigger className="h-12"><SelectValue placeholder="Select" /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="Male">Male</SelectItem>
+                        <SelectItem value="Female">Female</SelectItem>
+                        <SelectItem value="Other">Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="walk-in-place">Place</Label>
+                  <Input id="walk-in-place" className="h-12" value={walkIn.place} onChange={(e) => setWalkIn(prev => ({ ...prev, place: e.target.value }))} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="walk-in-phone">Mobile number</Label>
+                  <Input id="walk-in-phone" inputMode="tel" className="h-12" value={walkIn.phone} onChange={(e) => setWalkIn(prev => ({ ...prev, phone: e.target.value }))} />
+                </div>
+                <Button
+                  size="lg"
+                  className="w-full"
+                  onClick={bookWalkIn}
+                  disabled={busy || !walkIn.doctorId || !walkIn.name.trim() || !walkIn.place.trim()}
+                >
+                  {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Get My Token
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
+        {view === "slip" && slip && (
+          <div className="space-y-6">
+            <TokenSlip slip={slip} />
+            <div className="flex justify-center gap-3 print:hidden">
+              <Button size="lg" variant="outline" onClick={() => window.print()}>
+                <Printer className="mr-2 h-5 w-5" />
+                Print Slip
+              </Button>
+              <Button size="lg" onClick={reset}>Done</Button>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
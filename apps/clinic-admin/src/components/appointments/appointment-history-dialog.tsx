@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { getAppointmentTimeline } from "@kloqo/shared-core";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { db } from "@/lib/firebase";
+import type { Appointment, AppointmentEvent } from "@/lib/types";
+
+const ACTION_LABELS: Record<AppointmentEvent["action"], string> = {
+  completed: "Marked completed",
+  skipped: "Marked late (skipped)",
+  no_show: "Marked No-show",
+  cancelled: "Cancelled",
+  priority_added: "Marked priority",
+  priority_removed: "Priority removed",
+  slot_shifted: "Moved up a slot",
+  shifted_for_break: "Moved for a break",
+  rebalanced: "Slot rebalanced",
+  patient_merged: "Moved to merged patient record",
+  checked_in: "Checked in at kiosk",
+  updated: "Updated",
+};
+
+const SOURCE_LABELS: Record<AppointmentEvent["source"], string> = {
+  "clinic-admin": "Clinic admin",
+  "nurse-app": "Nurse app",
+  "patient-app": "Patient app",
+  superadmin: "Superadmin",
+  whatsapp: "WhatsApp",
+  kiosk: "Kiosk",
+  system: "Server",
+};
+
+function formatEventTime(createdAt: any): string {
+  const date = createdAt?.toDate ? createdAt.toDate() : createdAt ? new Date(createdAt) : new Date();
+  return format(date, "d MMM yyyy, hh:mm:ss a");
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return format(new Date(value), "hh:mm a");
+  }
+  return String(value);
+}
+
+type AppointmentHistoryDialogProps = {
+  appointment: Appointment | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function AppointmentHistoryDialog({ appointment, onOpenChange }: AppointmentHistoryDialogProps) {
+  const [events, setEvents] = useState<AppointmentEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!appointment) return;
+    setLoading(true);
+    getAppointmentTimeline(db, appointment.id, appointment.clinicId)
+      .then(setEvents)
+      .catch(error => {
+        console.error("Failed to load appointment history:", error);
+        setEvents([]);
+      })
+      .finally(() => setLoading(false));
+  }, [appointment]);
+
+  return (
+    <Dialog open={!!appointment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Appointment History</DialogTitle>
+          <DialogDescription>
+            {appointment ? `${appointment.patientName} · ${appointment.tokenNumber} · ${appointment.date}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No recorded changes for this appointment.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-4">
+            <ol className="relative space-y-4 border-l pl-4">
+              {events.map(event => (
+                <li key={event.id} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{ACTION_LABELS[event.action] || event.action}</span>
+                    <Badge variant="outline">{SOURCE_LABELS[event.source] || event.source}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatEventTime(event.createdAt)} · {event.actor.name || (event.actor.type === "system" ? "System" : "Unknown user")}
+                    {event.device ? ` · ${event.device}` : ""}
+                  </p>
+                  {event.reason && <p className="text-sm">{event.reason}</p>}
+                  <ul className="text-xs text-muted-foreground">
+                    {Object.entries(event.changes).map(([field, change]) => (
+                      <li key={field}>
+                        {field}: {formatValue(change.before)} → {formatValue(change.after)}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { db } from '@/lib/firebase';
+import {
+  NOTIFICATION_METADATA,
+  NOTIFICATION_TYPES,
+  updateClinicNotificationPreferences,
+  type NotificationType,
+} from '@kloqo/shared-core';
+import type { NotificationChannel, NotificationPreferences, QuietHours } from '@/lib/types';
+
+const DEFAULT_QUIET_HOURS: QuietHours = { start: '21:00', end: '07:00' };
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  whatsapp: 'WhatsApp',
+  pwa: 'Push',
+};
+
+interface NotificationPreferencesCardProps {
+  clinicId: string;
+  preferences?: NotificationPreferences;
+  onSaved: (preferences: NotificationPreferences) => void;
+}
+
+export function NotificationPreferencesCard({ clinicId, preferences, onSaved }: NotificationPreferencesCardProps) {
+  const { toast } = useToast();
+  const [types, setTypes] = useState<NonNullable<NotificationPreferences['types']>>(preferences?.types || {});
+  const [quietHours, setQuietHours] = useState<QuietHours | null>(preferences?.quietHours || null);
+  const [saving, setSaving] = useState(false);
+
+  const isChannelEnabled = (type: NotificationType, channel: NotificationChannel) => types[type]?.[channel] !== false;
+
+  const setChannel = (type: NotificationType, channel: NotificationChannel, enabled: boolean) => {
+    setTypes(prev => ({ ...prev, [type]: { ...prev[type], [channel]: enabled } }));
+  };
+
+  const handleSave = async () => {
+    if (quietHours && (!quietHours.start || !quietHours.end)) {
+      toast({ variant: 'destructive', title: 'Invalid quiet hours', description: 'Set both a start and an end time.' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const next: NotificationPreferences = { types, quietHours };
+      await updateClinicNotificationPreferences(db, clinicId, next);
+      onSaved(next);
+      toast({ title: 'Notification preferences saved', description: 'Changes apply to new notifications within a few minutes.' });
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to save notification preferences.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>
+          Choose which patient notifications your clinic sends. Anything switched off by Kloqo stays off, and patients can opt out of more from the app.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          {Object.values(NOTIFICATION_TYPES).map(type => {
+            const metadata = NOTIFICATION_METADATA[type];
+            return (
+              <div key={type} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div>
+                  <p className="font-medium text-sm">{metadata.name}</p>
+                  <p className="text-xs text-muted-foreground">{metadata.description}</p>
+                </div>
+                <div className="flex items-center gap-4 shrink-0">
+                  {metadata.channels.map(channel => (
+                    <div key={channel} className="flex items-center gap-2">
+                      <Switch
+                        id={`${type}-${channel}`}
+                        checked={isChannelEnabled(type, channel)}
+                        onCheckedChange={(checked) => setChannel(type, channel, checked)}
+                      />
+                      <Label htmlFor={`${type}-${channel}`} className="text-xs">{CHANNEL_LABELS[channel]}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-3 rounded-lg border p-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label className="text-base">Quiet Hours</Label>
+              <p className="text-sm text-muted-foreground">
+                Hold back reminders and status updates during these hours. Live queue updates (token called, people ahead) are still sent.
+              </p>
+            </div>
+            <Switch
+              checked={!!quietHours}
+              onCheckedChange={(checked) => setQuietHours(checked ? DEFAULT_QUIET_HOURS : null)}
+            />
+          </div>
+          {quietHours && (
+            <div className="flex items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="quiet-hours-start">From</Label>
+                <Input
+                  id="quiet-hours-start"
+                  type="time"
+                  value={quietHours.start}
+                  onChange={(e) => setQuietHours({ ...quietHours, start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quiet-hours-end">To</Label>
+                <Input
+                  id="quiet-hours-end"
+                  type="time"
+                  value={quietHours.end}
+                  onChange={(e) => setQuietHours({ ...quietHours, end: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Preferences
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
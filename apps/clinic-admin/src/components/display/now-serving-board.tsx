@@ -0,0 +1,96 @@
+"use client";
+
+import { Coffee } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { NowServingBoard as Board, NowServingDoctor, TokenCall } from "@/lib/types";
+
+const GRID_COLUMNS: Record<Board["layout"]["columns"], string> = {
+  1: "grid-cols-1",
+  2: "grid-cols-2",
+  3: "grid-cols-3",
+  4: "grid-cols-4",
+};
+
+function DoctorPanel({ doctor, calledToken }: { doctor: NowServingDoctor; calledToken?: string }) {
+  return (
+    <div className="flex flex-col rounded-2xl bg-slate-900 p-6">
+      <div className="mb-4">
+        <p className="text-3xl font-semibold">Dr. {doctor.doctorName}</p>
+        {doctor.department && <p className="text-xl text-slate-400">{doctor.department}</p>}
+      </div>
+
+      {doctor.status === "consulting" && (
+        <>
+          <p className="text-xl uppercase tracking-wide text-slate-400">Now Serving</p>
+          <p
+            className={cn(
+              "font-mono text-8xl font-bold text-emerald-400",
+              calledToken && calledToken === doctor.currentToken && "animate-pulse"
+            )}
+          >
+            {doctor.currentToken || "--"}
+          </p>
+        </>
+      )}
+
+      {doctor.status === "break" && (
+        <div className="flex items-center gap-3 text-4xl text-amber-400">
+          <Coffee className="h-10 w-10" />
+          <span>On break{doctor.returnTime ? ` · back at ${doctor.returnTime}` : ""}</span>
+        </div>
+      )}
+
+      {doctor.status === "out" && <p className="text-4xl text-slate-500">Not consulting now</p>}
+
+      {doctor.upcomingTokens.length > 0 && (
+        <div className="mt-auto pt-6">
+          <p className="text-lg uppercase tracking-wide text-slate-400">Next</p>
+          <div className="mt-2 flex flex-wrap gap-3">
+            {doctor.upcomingTokens.map(token => (
+              <span key={token} className="rounded-lg bg-slate-800 px-4 py-2 font-mono text-3xl">
+                {token}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The TV screen itself: one panel per doctor in the owner's chosen grid, and a
+ * banner for the token that was just called.
+ */
+export function NowServingBoard({ board, latestCall }: { board: Board; latestCall: TokenCall | null }) {
+  return (
+    <div className="flex min-h-screen flex-col gap-6 bg-slate-950 p-8 text-white">
+      <header className="flex items-baseline justify-between">
+        <h1 className="text-4xl font-bold">{board.clinicName}</h1>
+        <p className="text-2xl text-slate-400">
+          {new Date(board.generatedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+        </p>
+      </header>
+
+      {latestCall && (
+        <div className="rounded-2xl bg-emerald-500 p-6 text-center text-5xl font-bold text-slate-950">
+          Token {latestCall.token} · Dr. {latestCall.doctorName}
+        </div>
+      )}
+
+      {board.doctors.length === 0 ? (
+        <p className="m-auto text-3xl text-slate-500">No doctors selected for this display.</p>
+      ) : (
+        <div className={cn("grid flex-1 gap-6", GRID_COLUMNS[board.layout.columns])}>
+          {board.doctors.map(doctor => (
+            <DoctorPanel
+              key={doctor.doctorId}
+              doctor={doctor}
+              calledToken={latestCall?.doctorName === doctor.doctorName ? latestCall.token : undefined}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { buildTokenAnnouncement, getLanguageLocale } from "@kloqo/shared-core";
+import type { Language, TokenCall } from "@/lib/types";
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Browsers only allow sound after the page has been interacted with, so the
+ * display asks for one tap before it can chime.
+ */
+export async function unlockAudio(): Promise<boolean> {
+  if (typeof window === "undefined" || !window.AudioContext) return false;
+  audioContext = audioContext || new AudioContext();
+  if (audioContext.state === "suspended") await audioContext.resume();
+  return audioContext.state === "running";
+}
+
+function playChime(): Promise<void> {
+  if (!audioContext || audioContext.state !== "running") return Promise.resolve();
+  const start = audioContext.currentTime;
+
+  // Two-note "ding-dong"
+  [784, 587].forEach((frequency, index) => {
+    const oscillator = audioContext!.createOscillator();
+    const gain = audioContext!.createGain();
+    const noteStart = start + index * 0.45;
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, noteStart);
+    gain.gain.exponentialRampToValueAtTime(0.4, noteStart + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, noteStart + 0.8);
+    oscillator.connect(gain).connect(audioContext!.destination);
+    oscillator.start(noteStart);
+    oscillator.stop(noteStart + 0.8);
+  });
+
+  return new Promise(resolve => setTimeout(resolve, 1300));
+}
+
+function speak(text: string, language: Language): Promise<void> {
+  if (typeof window === "undefined" || !window.speechSynthesis) return Promise.resolve();
+  const locale = getLanguageLocale(language);
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = locale;
+  utterance.rate = 0.9;
+  utterance.voice = window.speechSynthesis.getVoices().find(voice => voice.lang.replace("_", "-") === locale)
+    || window.speechSynthesis.getVoices().find(voice => voice.lang.startsWith(language))
+    || null;
+
+  return new Promise(resolve => {
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    window.speechSynthesis.speak(utterance);
+  });
+}
+
+/**
+ * Chime, then the announcement in each of the display's languages.
+ */
+export async function announceTokenCall(call: TokenCall, languages: Language[]): Promise<void> {
+  await playChime();
+  for (const line of buildTokenAnnouncement(call, languages)) {
+    await speak(line.text, line.language);
+  }
+}
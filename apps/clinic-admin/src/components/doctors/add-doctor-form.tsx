@@ -41,10 +41,10 @@ import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/firebase";
-import { setDoc, doc, getDoc, collection, query, where, getDocs, updateDoc, arrayUnion } from "firebase/firestore";
+import { setDoc, doc, getDoc, collection, query, where, getDocs, updateDoc, arrayUnion, writeBatch, increment } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import imageCompression from "browser-image-compression";
-import { capitalizeFirstLetter, toUpperCase, capitalizeWords } from "@kloqo/shared-core";
+import { capitalizeFirstLetter, toUpperCase, capitalizeWords, getDoctorLimit, isSubscriptionLocked, assertNoBranchScheduleConflicts, syncGroupDoctorProfile } from "@kloqo/shared-core";
 import { Textarea } from "../ui/textarea";
 import { SelectDepartmentDialog } from "../onboarding/select-department-dialog";
 import { Separator } from "../ui/separator";
@@ -374,7 +374,17 @@ export function AddDoctorForm({ onSave, isOpen, setIsOpen, doctor, departments,
 
           if (clinicDocSnap.exists()) {
             const clinicData = clinicDocSnap.data();
-            const maxDoctors = clinicData.numDoctors || 1;
+            if (isSubscriptionLocked(clinicData.subscription)) {
+              toast({
+                variant: "destructive",
+                title: "Subscription Expired",
+                description: "Renew your Kloqo subscription to add doctors.",
+                duration: 6000
+              });
+              setIsSubmitting(false);
+              return;
+            }
+            const maxDoctors = getDoctorLimit(clinicData);
             const doctorsQuery = query(collection(db, "doctors"), where("clinicId", "==", clinicId));
             const doctorsSnapshot = await getDocs(doctorsQuery);
             const currentDoctorCount = doctorsSnapshot.size;
@@ -508,23 +518,23 @@ export function AddDoctorForm({ onSave, isOpen, setIsOpen, doctor, departments,
           }),
           freeFollowUpDays: values.freeFollowUpDays,
           advanceBookingDays: values.advanceBookingDays,
+          ...(!isEditMode && clinicDetails?.groupId ? { groupId: clinicDetails.groupId } : {}),
         };
 
-        await setDoc(doc(db, "doctors", docId), doctorToSave, { merge: true });
+        if (isEditMode && doctor) {
+          await assertNoBranchScheduleConflicts(db, doctor, doctorToSave.availabilitySlots || []);
+        }
 
-        // Update currentDoctorCount in clinic document if this is a new doctor
-        if (!isEditMode) {
-          try {
-            const clinicRef = doc(db, "clinics", clinicId);
-            const clinicDoc = await getDoc(clinicRef);
-            const currentCount = clinicDoc.data()?.currentDoctorCount || 0;
-            await updateDoc(clinicRef, {
-              currentDoctorCount: currentCount + 1
-            });
-          } catch (error) {
-            console.error("Error updating currentDoctorCount:", error);
-            // Don't fail the doctor save if this update fails
-          }
+        if (isEditMode) {
+          await setDoc(doc(db, "doctors", docId), doctorToSave, { merge: true });
+          if (doctor) await syncGroupDoctorProfile(db, { ...doctor, ...doctorToSave });
+        } else {
+          // The rules only accept a new doctor together with the clinic's doctor count,
+          // and only within the plan's doctor limit
+          const batch = writeBatch(db);
+          batch.set(doc(db, "doctors", docId), doctorToSave, { merge: true });
+          batch.update(doc(db, "clinics", clinicId), { currentDoctorCount: increment(1) });
+          await batch.commit();
         }
 
         onSave(doctorToSave);
@@ -592,7 +602,7 @@ export function AddDoctorForm({ onSave, isOpen, setIsOpen, doctor, departments,
     (masterDept) => !departments.some((clinicDept) => clinicDept.id === masterDept.id)
   );
 
-  const isDepartmentLimitReached = clinicDetails ? departments.length >= clinicDetails.numDoctors : false;
+  const isDepartmentLimitReached = clinicDetails ? departments.length >= getDoctorLimit(clinicDetails) : false;
 
 
   return (
@@ -1040,7 +1050,7 @@ export function AddDoctorForm({ onSave, isOpen, setIsOpen, doctor, departments,
         setIsOpen={setIsSelectDepartmentOpen}
         departments={availableMasterDepartments}
         onDepartmentsSelect={handleDepartmentsSelected}
-        limit={clinicDetails?.numDoctors}
+        limit={clinicDetails ? getDoctorLimit(clinicDetails) : undefined}
         currentCount={departments.length}
       />
     </>
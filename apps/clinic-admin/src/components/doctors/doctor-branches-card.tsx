@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { doc, getDoc } from "firebase/firestore";
+import { Building2, Loader2, PlusCircle } from "lucide-react";
+import { attachDoctorToBranch, getClinicGroup, getDoctorBranches } from "@kloqo/shared-core";
+import { db } from "@/lib/firebase";
+import { useToast } from "@/hooks/use-toast";
+import type { Doctor } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+type Branch = { id: string; name: string };
+
+type DoctorBranchesCardProps = {
+  doctor: Doctor;
+  groupId: string;
+  canManage: boolean;
+  onDoctorUpdated: (doctor: Doctor) => void;
+};
+
+/**
+ * The branches of the clinic group this doctor consults at. Owners can add the
+ * doctor to another branch; the schedule there is then set from that branch.
+ */
+export function DoctorBranchesCard({ doctor, groupId, canManage, onDoctorUpdated }: DoctorBranchesCardProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [consultsAt, setConsultsAt] = useState<string[]>([doctor.clinicId]);
+  const [selectedBranch, setSelectedBranch] = useState<string>("");
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const group = await getClinicGroup(db, groupId);
+        if (!group) return;
+        const clinicSnaps = await Promise.all(group.clinicIds.map(id => getDoc(doc(db, "clinics", id))));
+        setBranches(clinicSnaps.map(snap => ({ id: snap.id, name: snap.data()?.name || snap.id })));
+
+        const doctorBranches = await getDoctorBranches(db, doctor);
+        setConsultsAt(doctorBranches.length > 0 ? doctorBranches.map(d => d.clinicId) : [doctor.clinicId]);
+      } catch (error) {
+        console.error("Failed to load doctor branches", error);
+      }
+    };
+    load();
+  }, [groupId, doctor]);
+
+  const otherBranches = branches.filter(branch => !consultsAt.includes(branch.id));
+
+  const handleAttach = () => {
+    if (!selectedBranch) return;
+    startTransition(async () => {
+      try {
+        const branchDoctor = await attachDoctorToBranch(db, doctor, selectedBranch);
+        setConsultsAt(prev => [...prev, selectedBranch]);
+        setSelectedBranch("");
+        if (!doctor.groupDoctorId) onDoctorUpdated({ ...doctor, groupDoctorId: branchDoctor.groupDoctorId });
+        toast({
+          title: "Branch Added",
+          description: `Dr. ${doctor.name} can now be scheduled at ${branches.find(b => b.id === selectedBranch)?.name}.`,
+        });
+      } catch (error: any) {
+        console.error("Error attaching doctor to branch:", error);
+        toast({ variant: "destructive", title: "Could Not Add Branch", description: error.message });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Building2 className="h-4 w-4 text-muted-foreground" />
+          Consults At
+        </CardTitle>
+        <CardDescription>Sessions at different branches may not overlap.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {branches.filter(branch => consultsAt.includes(branch.id)).map(branch => (
+            <Badge key={branch.id} variant={branch.id === doctor.clinicId ? "default" : "secondary"}>{branch.name}</Badge>
+          ))}
+        </div>
+        {canManage && otherBranches.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select value={selectedBranch} onValueChange={setSelectedBranch} disabled={isPending}>
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="Also consults at..." />
+              </SelectTrigger>
+              <SelectContent>
+                {otherBranches.map(branch => (
+                  <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleAttach} disabled={!selectedBranch || isPending}>
+              {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <PlusCircle className="h-4 w-4" />}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
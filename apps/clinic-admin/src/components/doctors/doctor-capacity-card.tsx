@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { deleteField, doc, updateDoc } from "firebase/firestore";
+import { Edit, Loader2, PlusCircle, Save, Scale, Trash2, X } from "lucide-react";
+import { DEFAULT_ADVANCE_RATIO, normalizeCapacityPolicy } from "@kloqo/shared-core";
+import type { CapacityPolicy } from "@kloqo/shared-types";
+import { db } from "@/lib/firebase";
+import { useToast } from "@/hooks/use-toast";
+import type { Doctor } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const ANY = "any";
+
+type RuleRow = { day: string; session: string; percent: string };
+
+type DoctorCapacityCardProps = {
+  doctor: Doctor;
+  clinicPolicy?: CapacityPolicy | null;
+  canManage: boolean;
+  onDoctorUpdated: (doctor: Doctor) => void;
+};
+
+const toPercent = (ratio: number) => String(Math.round(ratio * 100));
+
+const toRows = (policy?: CapacityPolicy | null): RuleRow[] =>
+  (policy?.rules ?? []).map(rule => ({
+    day: rule.day ?? ANY,
+    session: typeof rule.sessionIndex === "number" ? String(rule.sessionIndex) : ANY,
+    percent: toPercent(rule.advanceRatio),
+  }));
+
+/**
+ * The doctor's share of each session that can be booked in advance; the rest
+ * is kept for walk-ins. Rules for a weekday and/or session override the
+ * doctor's default, which overrides the clinic default set on the profile page.
+ */
+export function DoctorCapacityCard({ doctor, clinicPolicy, canManage, onDoctorUpdated }: DoctorCapacityCardProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [isEditing, setIsEditing] = useState(false);
+  const [defaultPercent, setDefaultPercent] = useState("");
+  const [rows, setRows] = useState<RuleRow[]>([]);
+
+  const clinicPercent = toPercent(clinicPolicy?.advanceRatio ?? DEFAULT_ADVANCE_RATIO);
+  const days = (doctor.availabilitySlots ?? []).map(slot => slot.day);
+
+  const reset = () => {
+    const policy = doctor.capacityPolicy;
+    setDefaultPercent(typeof policy?.advanceRatio === "number" ? toPercent(policy.advanceRatio) : "");
+    setRows(toRows(policy));
+  };
+
+  useEffect(reset, [doctor]);
+
+  const sessionsOf = (day: string) => {
+    const dayNames = day === ANY ? days : [day];
+    const count = Math.max(0, ...dayNames.map(name => doctor.availabilitySlots?.find(slot => slot.day === name)?.timeSlots.length ?? 0));
+    return Array.from({ length: count }, (_, index) => {
+      const timeSlot = day === ANY ? null : doctor.availabilitySlots?.find(slot => slot.day === day)?.timeSlots[index];
+      return { value: String(index), label: timeSlot ? `Session ${index + 1} (${timeSlot.from} - ${timeSlot.to})` : `Session ${index + 1}` };
+    });
+  };
+
+  const updateRow = (index: number, changes: Partial<RuleRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSave = () => {
+    const percents = [defaultPercent, ...rows.map(row => row.percent)].filter(value => value !== "").map(Number);
+    if (percents.some(value => isNaN(value) || value < 0 || value > 100)) {
+      toast({ variant: "destructive", title: "Invalid Share", description: "Shares must be between 0 and 100%." });
+      return;
+    }
+    if (rows.some(row => row.percent === "" || (row.day === ANY && row.session === ANY))) {
+      toast({ variant: "destructive", title: "Incomplete Rule", description: "Each rule needs a day or a session, and a share." });
+      return;
+    }
+
+    const policy = normalizeCapacityPolicy({
+      ...(defaultPercent !== "" ? { advanceRatio: Number(defaultPercent) / 100 } : {}),
+      rules: rows.map(row => ({
+        ...(row.day !== ANY ? { day: row.day } : {}),
+        ...(row.session !== ANY ? { sessionIndex: Number(row.session) } : {}),
+        advanceRatio: Number(row.percent) / 100,
+      })),
+    });
+
+    startTransition(async () => {
+      try {
+        await updateDoc(doc(db, "doctors", doctor.id), { capacityPolicy: policy ?? deleteField() });
+        const { capacityPolicy: _previous, ...rest } = doctor;
+        onDoctorUpdated(policy ? { ...rest, capacityPolicy: policy } : rest);
+        setIsEditing(false);
+        toast({ title: "Success", description: "Advance booking share updated." });
+      } catch (error) {
+        console.error("Error updating capacity policy:", error);
+        toast({ variant: "destructive", title: "Error", description: "Failed to update advance booking share." });
+      }
+    });
+  };
+
+  const describeRule = (row: RuleRow) => {
+    const day = row.day === ANY ? "Every day" : row.day;
+    const session = row.session === ANY ? "" : `, session ${Number(row.session) + 1}`;
+    return `${day}${session}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+        <div className="space-y-1">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Scale className="h-4 w-4 text-muted-foreground" />
+            Advance Booking Share
+          </CardTitle>
+          <CardDescription>The rest of each session is reserved for walk-ins.</CardDescription>
+        </div>
+        {canManage && !isEditing && (
+          <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setIsEditing(true)}><Edit className="h-3 w-3" /></Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isEditing ? (
+          <>
+            <div className="flex items-center gap-2">
+              <Label className="w-32 shrink-0">Default (%)</Label>
+              <Input type="number" min="0" max="100" value={defaultPercent} onChange={e => setDefaultPercent(e.target.value)} placeholder={`Clinic default (${clinicPercent})`} className="h-8" disabled={isPending} />
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select value={row.day} onValueChange={day => updateRow(index, { day, session: ANY })} disabled={isPending}>
+                  <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Every day</SelectItem>
+                    {days.map(day => <SelectItem key={day} value={day}>{day}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Select value={row.session} onValueChange={session => updateRow(index, { session })} disabled={isPending}>
+                  <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Every session</SelectItem>
+                    {sessionsOf(row.day).map(session => <SelectItem key={session.value} value={session.value}>{session.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Input type="number" min="0" max="100" value={row.percent} onChange={e => updateRow(index, { percent: e.target.value })} placeholder="%" className="h-8 w-20" disabled={isPending} />
+                <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={() => setRows(prev => prev.filter((_, i) => i !== index))} disabled={isPending}><Trash2 className="h-4 w-4" /></Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button size="sm" variant="outline" onClick={() => setRows(prev => [...prev, { day: days[0] ?? ANY, session: ANY, percent: "" }])} disabled={isPending}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Rule
+              </Button>
+              <div className="flex gap-2">
+                <Button size="icon" className="h-8 w-8" onClick={handleSave} disabled={isPending}>
+                  {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                </Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => { reset(); setIsEditing(false); }} disabled={isPending}><X className="h-4 w-4" /></Button>
+              </div>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="text-2xl font-bold">
+              {defaultPercent !== "" ? `${defaultPercent}%` : `${clinicPercent}%`}
+              {defaultPercent === "" && <span className="ml-2 text-xs font-normal text-muted-foreground">clinic default</span>}
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="flex justify-between text-sm">
+                <span className="text-muted-foreground">{describeRule(row)}</span>
+                <span className="font-medium">{row.percent}%</span>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
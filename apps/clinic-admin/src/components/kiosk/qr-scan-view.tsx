@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Camera view that reports the first QR code it sees. Uses the browser's
+ * BarcodeDetector (Chrome on Android tablets), so nothing extra is bundled;
+ * check `isQrScanSupported()` before showing it.
+ */
+export function isQrScanSupported(): boolean {
+  return typeof window !== "undefined" && "BarcodeDetector" in window && !!navigator.mediaDevices?.getUserMedia;
+}
+
+export function QrScanView({ onScan, onError }: { onScan: (text: string) => void; onError: (message: string) => void }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [starting, setStarting] = useState(true);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const start = async () => {
+      try {
+        const detector = new (window as any).BarcodeDetector({ formats: ["qr_code"] });
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "user" } });
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setStarting(false);
+
+        const scan = async () => {
+          if (stopped || !videoRef.current) return;
+          try {
+            const codes = await detector.detect(videoRef.current);
+            if (codes.length > 0) {
+              onScan(codes[0].rawValue);
+              return;
+            }
+          } catch {
+            // frame not ready yet
+          }
+          frame = requestAnimationFrame(scan);
+        };
+        scan();
+      } catch (error) {
+        console.error("Kiosk camera error:", error);
+        onError("The camera could not be started. Please use your phone number instead.");
+      }
+    };
+    start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [onScan, onError]);
+
+  return (
+    <div className="relative mx-auto aspect-square w-full max-w-md overflow-hidden rounded-2xl bg-black">
+      <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+      <div className="pointer-events-none absolute inset-10 rounded-xl border-4 border-white/80" />
+      {starting && <p className="absolute inset-0 flex items-center justify-center text-white">Starting camera...</p>}
+    </div>
+  );
+}
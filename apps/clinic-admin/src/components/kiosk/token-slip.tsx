@@ -0,0 +1,30 @@
+"use client";
+
+export interface TokenSlipDetails {
+  clinicName: string;
+  patientName: string;
+  doctorName: string;
+  token: string;
+  date: string;
+  time?: string;
+  note?: string;
+}
+
+/**
+ * The token as shown on the kiosk after check-in or booking. It is also what
+ * gets printed: everything else on the kiosk page is hidden in print.
+ */
+export function TokenSlip({ slip }: { slip: TokenSlipDetails }) {
+  return (
+    <div className="mx-auto w-full max-w-sm rounded-2xl border-2 border-dashed bg-white p-6 text-center text-black print:max-w-[58mm] print:border-0 print:p-0">
+      <p className="text-lg font-semibold">{slip.clinicName}</p>
+      <p className="mt-1 text-sm">{slip.date}</p>
+      <p className="mt-4 text-sm uppercase tracking-wide">Your token</p>
+      <p className="text-6xl font-bold print:text-5xl">{slip.token}</p>
+      <p className="mt-4 font-medium">{slip.patientName}</p>
+      <p className="text-sm">Dr. {slip.doctorName}</p>
+      {slip.time && <p className="mt-2 text-sm">Expected around {slip.time}</p>}
+      {slip.note && <p className="mt-3 text-xs">{slip.note}</p>}
+    </div>
+  );
+}
@@ -109,15 +109,6 @@ export function LiveStatusDetailHeader() {
     );
   }
 
-export function MobileAppHeader() {
-    return (
-      <header className="sticky top-0 z-30 flex h-14 items-center gap-4 border-b bg-background px-4 sm:static sm:h-auto sm:border-0 sm:bg-transparent sm:px-6">
-        
-        <h1 className="text-xl font-semibold md:text-2xl">Mobile App</h1>
-      </header>
-    );
-  }
-
 export function ProfileHeader() {
     return (
       <header className="sticky top-0 z-30 flex h-14 items-center gap-4 border-b bg-background px-4 sm:static sm:h-auto sm:border-0 sm:bg-transparent sm:px-6">
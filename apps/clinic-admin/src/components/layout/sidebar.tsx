@@ -10,12 +10,14 @@ import {
   Users,
   Building2,
   Activity,
-  Smartphone,
+  UserCog,
   LogOut,
   MoreVertical,
   User as UserIcon,
   FileImage,
   Grid3x3,
+  Timer,
+  Network,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
@@ -40,6 +42,7 @@ import { useAuth } from "@/firebase";
 import { useEffect, useState } from "react";
 import { doc, getDoc, collection, getDocs, query, where } from "firebase/firestore";
 import type { User } from "@/lib/types";
+import { getStaffRole, hasPermission } from "@kloqo/shared-core";
 import Image from "next/image";
 
 const menuItems = [
@@ -50,6 +53,10 @@ const menuItems = [
   { href: "/departments", icon: Building2, label: "Departments" },
   { href: "/live-status", icon: Activity, label: "Live Status" },
   { href: "/slot-visualizer", icon: Grid3x3, label: "Slot Visualizer" },
+  { href: "/punctuality", icon: Timer, label: "Punctuality" },
+  { href: "/staff", icon: UserCog, label: "Staff", permission: 'manage_staff' as const },
+  // Only for owners whose clinic is a branch of a clinic group
+  { href: "/group", icon: Network, label: "Group", groupOwnerOnly: true },
 ];
 
 export function Sidebar() {
@@ -60,6 +67,7 @@ export function Sidebar() {
   const [userProfile, setUserProfile] = useState<User | null>(null);
   const [clinicName, setClinicName] = useState<string | null>(null);
   const [clinicLogoUrl, setClinicLogoUrl] = useState<string | null>(null);
+  const [clinicGroupId, setClinicGroupId] = useState<string | null>(null);
 
   const isOnboarding = pathname === "/onboarding";
 
@@ -80,6 +88,7 @@ export function Sidebar() {
               const clinicData = clinicDoc.data();
               setClinicName(clinicData.name);
               setClinicLogoUrl(clinicData.logoUrl || null);
+              setClinicGroupId(clinicData.groupId || null);
             }
           }
         }
@@ -149,7 +158,10 @@ export function Sidebar() {
         </div>
 
         <nav className="flex-grow flex flex-col justify-start gap-2 p-2">
-          {menuItems.map((item) => (
+          {menuItems.filter(item =>
+            (!item.permission || hasPermission(userProfile, item.permission)) &&
+            (!item.groupOwnerOnly || (!!clinicGroupId && getStaffRole(userProfile) === 'owner'))
+          ).map((item) => (
             <Tooltip key={item.label}>
               <TooltipTrigger asChild>
                 <NavLink href={item.href} icon={item.icon} label={item.label} />
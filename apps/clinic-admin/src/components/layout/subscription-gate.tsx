@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { doc, getDoc, onSnapshot } from 'firebase/firestore';
+import { signOut } from 'firebase/auth';
+import { format } from 'date-fns';
+import { AlertTriangle, Lock } from 'lucide-react';
+import { db, auth } from '@/lib/firebase';
+import { useAuth } from '@/firebase';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { getSubscriptionState, SUBSCRIPTION_PLANS } from '@kloqo/shared-core';
+import type { Subscription } from '@/lib/types';
+
+// Warn this many days before the renewal date
+const RENEWAL_REMINDER_DAYS = 7;
+
+export function SubscriptionGate({ children }: { children: React.ReactNode }) {
+  const { currentUser } = useAuth();
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    let unsubscribe: (() => void) | undefined;
+
+    getDoc(doc(db, 'users', currentUser.uid))
+      .then(userDoc => {
+        const clinicId = userDoc.data()?.clinicId;
+        if (!clinicId) return;
+        unsubscribe = onSnapshot(doc(db, 'clinics', clinicId), (clinicDoc) => {
+          setSubscription(clinicDoc.data()?.subscription ?? null);
+        }, (error) => console.error('Error listening to clinic subscription:', error));
+      })
+      .catch(error => console.error('Error loading clinic subscription:', error));
+
+    return () => unsubscribe?.();
+  }, [currentUser]);
+
+  if (!subscription) {
+    return <>{children}</>;
+  }
+
+  const planName = SUBSCRIPTION_PLANS[subscription.plan]?.name || subscription.plan;
+  const { status, daysUntilRenewal, lockDate } = getSubscriptionState(subscription);
+
+  if (status === 'Locked' || status === 'Cancelled') {
+    return (
+      <div className="flex flex-1 items-center justify-center p-6">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5 text-destructive" />
+              {status === 'Cancelled' ? 'Subscription Cancelled' : 'Subscription Expired'}
+            </CardTitle>
+            <CardDescription>
+              {status === 'Cancelled'
+                ? `Your ${planName} subscription has been cancelled.`
+                : `Your ${planName} subscription ended on ${subscription.renewalDate}.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Contact the Kloqo team to renew. Your clinic data is kept safe and everything is available again as soon as the subscription is renewed.
+            </p>
+            <Button variant="outline" className="w-full" onClick={() => signOut(auth)}>
+              Sign Out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {status === 'GracePeriod' && (
+        <Alert variant="destructive" className="rounded-none border-x-0 border-t-0">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Subscription expired</AlertTitle>
+          <AlertDescription>
+            Your {planName} subscription ended on {subscription.renewalDate}. Renew before {format(lockDate, 'd MMMM yyyy')} to keep using Kloqo.
+          </AlertDescription>
+        </Alert>
+      )}
+      {status === 'Active' && daysUntilRenewal <= RENEWAL_REMINDER_DAYS && (
+        <Alert className="rounded-none border-x-0 border-t-0">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Renewal due</AlertTitle>
+          <AlertDescription>
+            Your {planName} subscription renews on {subscription.renewalDate}.
+          </AlertDescription>
+        </Alert>
+      )}
+      {children}
+    </>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, useTransition } from "react";
+import { CalendarCheck, ExternalLink, FileText, Loader2, Pill, Upload } from "lucide-react";
+import {
+  getConsultationRecord,
+  getMedicalTimeline,
+  getPrescriptionUrl,
+  getStaffRole,
+  PATIENT_DOCUMENT_KIND_LABELS,
+} from "@kloqo/shared-core";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/firebase";
+import { useStaffMember } from "@/hooks/useStaffMember";
+import { useToast } from "@/hooks/use-toast";
+import type { MedicalTimelineEntry, PatientDocumentKind } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const entryIcons = {
+  visit: CalendarCheck,
+  prescription: Pill,
+  document: FileText,
+};
+
+/**
+ * This clinic's visits and prescriptions for a patient, plus the documents
+ * the patient has shared with the clinic. Staff can add lab reports.
+ */
+export function MedicalTimelineCard({ patientId }: { patientId: string }) {
+  const { currentUser } = useAuth();
+  const { staff } = useStaffMember();
+  const { toast } = useToast();
+  const [isUploading, startUpload] = useTransition();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [timeline, setTimeline] = useState<MedicalTimelineEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [kind, setKind] = useState<PatientDocumentKind>("lab_report");
+
+  const clinicId = staff?.clinicId;
+  const canUpload = !!getStaffRole(staff) && getStaffRole(staff) !== "readOnly";
+
+  const loadTimeline = useCallback(async () => {
+    if (!clinicId) return;
+    try {
+      setTimeline(await getMedicalTimeline(db, patientId, { type: "staff", clinicId }));
+    } catch (error) {
+      console.error("Error loading medical timeline:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId, clinicId]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  const handleUpload = (file: File) => {
+    if (!currentUser) return;
+    startUpload(async () => {
+      try {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("patientId", patientId);
+        formData.append("kind", kind);
+        formData.append("title", file.name.replace(/\.[^.]+$/, ""));
+
+        const response = await fetch("/api/patient-documents", {
+          method: "POST",
+          headers: { Authorization: `Bearer ${await currentUser.getIdToken()}` },
+          body: formData,
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to upload document");
+
+        toast({ title: "Document Added", description: `${file.name} was added to the patient's records.` });
+        await loadTimeline();
+      } catch (error: any) {
+        console.error("Error uploading patient document:", error);
+        toast({ variant: "destructive", title: "Upload Failed", description: error.message });
+      } finally {
+        if (fileInputRef.current) fileInputRef.current.value = "";
+      }
+    });
+  };
+
+  const openEntry = async (entry: MedicalTimelineEntry) => {
+    try {
+      if (entry.type === "prescription" && entry.consultationRecordId) {
+        const record = await getConsultationRecord(db, entry.consultationRecordId);
+        if (record) window.open(getPrescriptionUrl(record), "_blank");
+      } else if (entry.type === "document" && entry.documentId && currentUser) {
+        const response = await fetch(`/api/patient-documents/${entry.documentId}`, {
+          headers: { Authorization: `Bearer ${await currentUser.getIdToken()}` },
+        });
+        if (!response.ok) throw new Error((await response.json()).error);
+        window.open(URL.createObjectURL(await response.blob()), "_blank");
+      }
+    } catch (error: any) {
+      console.error("Error opening timeline entry:", error);
+      toast({ variant: "destructive", title: "Could Not Open", description: error.message });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Medical Timeline</CardTitle>
+          <CardDescription>Visits at this clinic and documents the patient has shared with you.</CardDescription>
+        </div>
+        {canUpload && (
+          <div className="flex items-center gap-2">
+            <Select value={kind} onValueChange={(value) => setKind(value as PatientDocumentKind)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.entries(PATIENT_DOCUMENT_KIND_LABELS) as [PatientDocumentKind, string][]).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/pdf,image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleUpload(e.target.files[0])}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+              {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Upload
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : timeline.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No records yet.</p>
+        ) : (
+          <ol className="relative border-l ml-3 space-y-4">
+            {timeline.map(entry => {
+              const Icon = entryIcons[entry.type];
+              return (
+                <li key={entry.id} className="ml-6">
+                  <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted">
+                    <Icon className="h-3.5 w-3.5" />
+                  </span>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="text-xs text-muted-foreground">{entry.date}</p>
+                      <p className="font-medium">{entry.title}</p>
+                      {entry.subtitle && <p className="text-sm text-muted-foreground">{entry.subtitle}</p>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {entry.type === "document" && entry.clinicId !== clinicId && (
+                        <Badge variant="secondary">Shared by patient</Badge>
+                      )}
+                      {entry.type !== "visit" && (
+                        <Button variant="ghost" size="sm" onClick={() => openEntry(entry)}>
+                          View
+                          <ExternalLink className="ml-1 h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useTransition } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Loader2 } from "lucide-react";
+import { STAFF_ROLE_LABELS, STAFF_ROLES } from "@kloqo/shared-core";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/firebase";
+import type { Doctor } from "@/lib/types";
+
+const formSchema = z.object({
+  name: z.string().trim().min(2, { message: "Name is required." }),
+  email: z.string().email({ message: "Please enter a valid email address." }),
+  phone: z.string().regex(/^\d{10}$/, { message: "Phone number must be exactly 10 digits." }),
+  staffRole: z.enum(["owner", "doctor", "receptionist", "nurse", "readOnly"]),
+  doctorId: z.string().optional(),
+  password: z.string().min(8, { message: "Password must be at least 8 characters." }),
+}).refine(values => values.staffRole !== "doctor" || !!values.doctorId, {
+  message: "Select the doctor this login belongs to.",
+  path: ["doctorId"],
+});
+
+type AddStaffFormValues = z.infer<typeof formSchema>;
+
+type AddStaffDialogProps = {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  doctors: Doctor[];
+  onStaffAdded: () => void;
+};
+
+export function AddStaffDialog({ isOpen, setIsOpen, doctors, onStaffAdded }: AddStaffDialogProps) {
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+  const { currentUser } = useAuth();
+
+  const form = useForm<AddStaffFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { name: "", email: "", phone: "", staffRole: "receptionist", doctorId: undefined, password: "" },
+  });
+  const staffRole = useWatch({ control: form.control, name: "staffRole" });
+
+  const onSubmit = (values: AddStaffFormValues) => {
+    if (!currentUser) return;
+    startTransition(async () => {
+      try {
+        const response = await fetch("/api/staff", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${await currentUser.getIdToken()}`,
+          },
+          body: JSON.stringify(values),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to add staff member");
+
+        toast({
+          title: "Staff Member Added",
+          description: `${values.name} can now log in with ${values.email}.`,
+        });
+        form.reset();
+        setIsOpen(false);
+        onStaffAdded();
+      } catch (error: any) {
+        console.error("Error adding staff member:", error);
+        toast({ variant: "destructive", title: "Could Not Add Staff", description: error.message });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Staff Member</DialogTitle>
+          <DialogDescription>
+            Each staff member gets their own login for the clinic dashboard and the nurse app.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl><Input {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl><Input type="email" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phone</FormLabel>
+                  <FormControl><Input type="tel" placeholder="10-digit mobile number" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="staffRole"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {STAFF_ROLES.filter(role => role !== "kiosk").map(role => (
+                        <SelectItem key={role} value={role}>{STAFF_ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {staffRole === "doctor" && (
+              <FormField
+                control={form.control}
+                name="doctorId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Doctor</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue placeholder="Select doctor" /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {doctors.map(doctor => (
+                          <SelectItem key={doctor.id} value={doctor.id}>Dr. {doctor.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Temporary Password</FormLabel>
+                  <FormControl><Input type="password" autoComplete="new-password" {...field} /></FormControl>
+                  <FormDescription>Share it with the staff member; they can reset it from the login page.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isPending}>Cancel</Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add Staff
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { KeyRound, Loader2, Plus } from "lucide-react";
+import { useAuth } from "@/firebase";
+import { useToast } from "@/hooks/use-toast";
+import type { User } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+
+interface KioskDevicesCardProps {
+  kiosks: User[];
+  savingId: string | null;
+  onToggleActive: (kiosk: User, active: boolean) => void;
+  onKioskAdded: () => void;
+}
+
+/**
+ * Reception tablets for self check-in. Adding one (or re-pairing it) shows a
+ * code to type into the tablet at /kiosk.
+ */
+export function KioskDevicesCard({ kiosks, savingId, onToggleActive, onKioskAdded }: KioskDevicesCardProps) {
+  const { currentUser } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [pairing, setPairing] = useState<{ name: string; code: string; expiresAt: number } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const requestCode = async (body: { name?: string; uid?: string }, kioskName: string) => {
+    if (!currentUser) return;
+    setBusy(true);
+    try {
+      const response = await fetch("/api/kiosk-devices", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${await currentUser.getIdToken()}`,
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to create pairing code");
+
+      setPairing({ name: kioskName, code: data.code, expiresAt: data.expiresAt });
+      setName("");
+      onKioskAdded();
+    } catch (error: any) {
+      console.error("Error pairing kiosk:", error);
+      toast({ variant: "destructive", title: "Pairing Failed", description: error.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Check-in Kiosks</CardTitle>
+        <CardDescription>
+          Tablets at reception where patients check themselves in and walk-ins take a token. Open /kiosk on the
+          tablet and enter the pairing code.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pairing && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertTitle>Pairing code for {pairing.name}</AlertTitle>
+            <AlertDescription>
+              <span className="text-2xl font-mono font-bold tracking-widest">{pairing.code}</span>
+              <span className="ml-3 text-muted-foreground">
+                Valid until {new Date(pairing.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+              </span>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {kiosks.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Pairing</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {kiosks.map(kiosk => (
+                <TableRow key={kiosk.uid} className={kiosk.active === false ? "opacity-60" : undefined}>
+                  <TableCell className="font-medium">{kiosk.name}</TableCell>
+                  <TableCell>
+                    {savingId === kiosk.uid ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Switch checked={kiosk.active !== false} onCheckedChange={active => onToggleActive(kiosk, active)} />
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busy || kiosk.active === false}
+                      onClick={() => requestCode({ uid: kiosk.uid }, kiosk.name || "kiosk")}
+                    >
+                      New Code
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex gap-2">
+          <Input placeholder="Kiosk name, e.g. Front desk" value={name} onChange={(e) => setName(e.target.value)} className="max-w-xs" />
+          <Button onClick={() => requestCode({ name }, name)} disabled={busy || !name.trim()}>
+            {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add Kiosk
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
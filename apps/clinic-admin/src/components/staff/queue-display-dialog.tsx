@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { DEFAULT_QUEUE_DISPLAY_LAYOUT, MAX_UPCOMING_TOKENS } from "@kloqo/shared-core";
+import type { Doctor, Language, QueueDisplay, QueueDisplayLayout } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const ANNOUNCEMENT_OPTIONS: { value: string; label: string; languages: Language[] }[] = [
+  { value: "ml,en", label: "Malayalam, then English", languages: ["ml", "en"] },
+  { value: "en,ml", label: "English, then Malayalam", languages: ["en", "ml"] },
+  { value: "ml", label: "Malayalam only", languages: ["ml"] },
+  { value: "en", label: "English only", languages: ["en"] },
+];
+
+export type QueueDisplayFormValues = { code: string; name: string; layout: QueueDisplayLayout };
+
+type QueueDisplayDialogProps = {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  doctors: Doctor[];
+  display?: QueueDisplay | null; // editing when set, otherwise pairing a new TV
+  saving: boolean;
+  onSave: (values: QueueDisplayFormValues) => void;
+};
+
+export function QueueDisplayDialog({ isOpen, setIsOpen, doctors, display, saving, onSave }: QueueDisplayDialogProps) {
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [layout, setLayout] = useState<QueueDisplayLayout>(DEFAULT_QUEUE_DISPLAY_LAYOUT);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCode("");
+    setName(display?.name || "");
+    setLayout(display?.layout || DEFAULT_QUEUE_DISPLAY_LAYOUT);
+  }, [isOpen, display]);
+
+  const toggleDoctor = (doctorId: string, checked: boolean) => {
+    setLayout(prev => ({
+      ...prev,
+      doctorIds: checked ? [...prev.doctorIds, doctorId] : prev.doctorIds.filter(id => id !== doctorId),
+    }));
+  };
+
+  const isNew = !display;
+  const canSave = !!name.trim() && (!isNew || /^\d{6}$/.test(code));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "Add Waiting-room Display" : `Edit ${display.name}`}</DialogTitle>
+          <DialogDescription>
+            {isNew
+              ? "Open /display on the TV's browser and enter the code it shows."
+              : "Changes show on the TV within a few seconds."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isNew && (
+            <div className="space-y-1">
+              <Label htmlFor="display-code">Code on the TV</Label>
+              <Input
+                id="display-code"
+                inputMode="numeric"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                className="font-mono text-lg tracking-widest"
+              />
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="display-name">Name</Label>
+            <Input id="display-name" placeholder="e.g. Ground floor TV" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Doctors shown</Label>
+            <p className="text-xs text-muted-foreground">Leave all unticked to show every doctor.</p>
+            <div className="grid grid-cols-2 gap-2">
+              {doctors.map(doctor => (
+                <label key={doctor.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={layout.doctorIds.includes(doctor.id)}
+                    onCheckedChange={(checked) => toggleDoctor(doctor.id, checked === true)}
+                  />
+                  Dr. {doctor.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Columns</Label>
+              <Select
+                value={String(layout.columns)}
+                onValueChange={(value) => setLayout(prev => ({ ...prev, columns: Number(value) as QueueDisplayLayout["columns"] }))}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4].map(columns => (
+                    <SelectItem key={columns} value={String(columns)}>{columns}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Next tokens listed</Label>
+              <Select
+                value={String(layout.upcomingCount)}
+                onValueChange={(value) => setLayout(prev => ({ ...prev, upcomingCount: Number(value) }))}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_UPCOMING_TOKENS + 1 }, (_, count) => (
+                    <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Announcements</Label>
+            <Select
+              value={layout.announcementLanguages.join(",")}
+              onValueChange={(value) => setLayout(prev => ({
+                ...prev,
+                announcementLanguages: ANNOUNCEMENT_OPTIONS.find(option => option.value === value)?.languages || prev.announcementLanguages,
+              }))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {ANNOUNCEMENT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+          <Button onClick={() => onSave({ code, name, layout })} disabled={saving || !canSave}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isNew ? "Add Display" : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { getQueueDisplays, removeQueueDisplay, updateQueueDisplay } from "@kloqo/shared-core";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/firebase";
+import { useToast } from "@/hooks/use-toast";
+import type { Doctor, QueueDisplay, User } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { QueueDisplayDialog, type QueueDisplayFormValues } from "@/components/staff/queue-display-dialog";
+
+interface QueueDisplaysCardProps {
+  staff: User;
+  doctors: Doctor[];
+}
+
+/**
+ * Waiting-room TVs showing the "Now Serving" board. A TV opens /display and
+ * shows a code; adding it here pairs it with this clinic.
+ */
+export function QueueDisplaysCard({ staff, doctors }: QueueDisplaysCardProps) {
+  const { currentUser } = useAuth();
+  const { toast } = useToast();
+  const [displays, setDisplays] = useState<QueueDisplay[]>([]);
+  const [editing, setEditing] = useState<QueueDisplay | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const fetchDisplays = useCallback(async () => {
+    try {
+      if (staff.clinicId) setDisplays(await getQueueDisplays(db, staff.clinicId));
+    } catch (error) {
+      console.error("Failed to fetch displays", error);
+    }
+  }, [staff.clinicId]);
+
+  useEffect(() => {
+    fetchDisplays();
+  }, [fetchDisplays]);
+
+  const openDialog = (display: QueueDisplay | null) => {
+    setEditing(display);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async ({ code, name, layout }: QueueDisplayFormValues) => {
+    if (!currentUser) return;
+    setSaving(true);
+    try {
+      if (editing) {
+        const updated = await updateQueueDisplay(db, staff, editing, { name, layout });
+        setDisplays(prev => prev.map(d => d.id === updated.id ? updated : d));
+      } else {
+        const response = await fetch("/api/queue-displays", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${await currentUser.getIdToken()}`,
+          },
+          body: JSON.stringify({ code, name, layout }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to add display");
+        await fetchDisplays();
+      }
+      toast({ title: editing ? "Display Updated" : "Display Added", description: `${name.trim()} will refresh in a few seconds.` });
+      setIsDialogOpen(false);
+    } catch (error: any) {
+      console.error("Error saving display:", error);
+      toast({ variant: "destructive", title: "Save Failed", description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (display: QueueDisplay) => {
+    setRemovingId(display.id);
+    try {
+      await removeQueueDisplay(db, staff, display);
+      setDisplays(prev => prev.filter(d => d.id !== display.id));
+    } catch (error: any) {
+      console.error("Error removing display:", error);
+      toast({ variant: "destructive", title: "Remove Failed", description: error.message });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const doctorSummary = (display: QueueDisplay) => display.layout.doctorIds.length === 0
+    ? "All doctors"
+    : display.layout.doctorIds.map(id => doctors.find(d => d.id === id)?.name).filter(Boolean).join(", ");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Waiting-room Displays</CardTitle>
+        <CardDescription>
+          TVs that show each doctor&apos;s current and next tokens and call tokens out aloud. Open /display on the TV
+          to get a code.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {displays.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Doctors</TableHead>
+                <TableHead>Columns</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {displays.map(display => (
+                <TableRow key={display.id}>
+                  <TableCell className="font-medium">{display.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{doctorSummary(display)}</TableCell>
+                  <TableCell>{display.layout.columns}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => openDialog(display)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={removingId === display.id}
+                      onClick={() => handleRemove(display)}
+                    >
+                      {removingId === display.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Display
+        </Button>
+      </CardContent>
+
+      <QueueDisplayDialog
+        isOpen={isDialogOpen}
+        setIsOpen={setIsDialogOpen}
+        doctors={doctors}
+        display={editing}
+        saving={saving}
+        onSave={handleSave}
+      />
+    </Card>
+  );
+}
@@ -7,7 +7,7 @@ import { useAuth } from '@/firebase';
 import type { Appointment, Doctor } from '@/lib/types';
 import { addMinutes, isAfter, parse, format, subMinutes, differenceInMinutes, isBefore, parseISO, isWithinInterval } from 'date-fns';
 
-import { getClinicNow, getClinicTimeString, getClinicDateString, getSessionBreakIntervals } from '@kloqo/shared-core';
+import { applyAppointmentMutation, getClinicNow, getClinicTimeString, getClinicDateString, getSessionBreakIntervals, SYSTEM_ACTOR } from '@kloqo/shared-core';
 
 function parseAppointmentDateTime(dateStr: string, timeStr: string): Date {
   return parse(`${dateStr} ${timeStr}`, 'd MMMM yyyy hh:mm a', new Date());
@@ -180,6 +180,12 @@ export function useAppointmentStatusUpdater() {
   useEffect(() => {
     if (!currentUser) return;
 
+    // Automatic transitions, attributed to this signed-in device
+    const eventContext = {
+      actor: { ...SYSTEM_ACTOR, id: currentUser.uid, name: 'Status updater' },
+      source: 'clinic-admin' as const,
+    };
+
     const checkAndUpdateStatuses = async (appointments: Appointment[]) => {
       if (appointments.length === 0) return;
       const now = getClinicNow();
@@ -199,11 +205,11 @@ export function useAppointmentStatusUpdater() {
               cutOffTime = subMinutes(appointmentTime, 15);
             }
             if (isAfter(now, cutOffTime) || now.getTime() >= cutOffTime.getTime()) {
-              batch.update(doc(db, 'appointments', apt.id), {
+              applyAppointmentMutation(batch, db, apt, {
                 status: 'Skipped',
                 skippedAt: new Date(),
                 updatedAt: new Date()
-              });
+              }, { ...eventContext, action: 'skipped', reason: `Not arrived by cut-off ${getClinicTimeString(cutOffTime)}` });
               hasWrites = true;
             }
           } else if (apt.status === 'Skipped') {
@@ -216,10 +222,10 @@ export function useAppointmentStatusUpdater() {
               noShowTime = addMinutes(appointmentTime, 15);
             }
             if (isAfter(now, noShowTime) || now.getTime() >= noShowTime.getTime()) {
-              batch.update(doc(db, 'appointments', apt.id), {
+              applyAppointmentMutation(batch, db, apt, {
                 status: 'No-show',
                 updatedAt: new Date()
-              });
+              }, { ...eventContext, action: 'no_show', reason: `Not arrived by no-show time ${getClinicTimeString(noShowTime)}` });
               hasWrites = true;
             }
           }
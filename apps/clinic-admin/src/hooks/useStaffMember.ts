@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/firebase';
+import type { User } from '@/lib/types';
+
+/**
+ * The signed-in user's `users` doc, kept live so a role change made by the
+ * owner applies without a reload. Pass it to shared-core services that check
+ * permissions, and to `hasPermission` to hide actions the role cannot take.
+ */
+export function useStaffMember() {
+  const { currentUser } = useAuth();
+  const [staff, setStaff] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setStaff(null);
+      setLoading(false);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'users', currentUser.uid),
+      snapshot => {
+        setStaff(snapshot.exists() ? ({ ...snapshot.data(), uid: snapshot.id } as User) : null);
+        setLoading(false);
+      },
+      error => {
+        console.error('Failed to load staff member:', error);
+        setLoading(false);
+      }
+    );
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  return { staff, loading };
+}
@@ -0,0 +1,49 @@
+import { App, cert, getApp, getApps, initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+
+export const STORAGE_BUCKET = 'kloqo-clinic-multi-33968-4c50b.firebasestorage.app';
+
+let adminApp: App | null = null;
+
+function initAdminApp(): App {
+  if (adminApp) return adminApp;
+
+  if (getApps().length > 0) {
+    adminApp = getApp();
+    return adminApp;
+  }
+
+  const serviceAccountJson = process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
+  if (!serviceAccountJson) {
+    throw new Error('Missing GOOGLE_SERVICE_ACCOUNT_JSON environment variable for Firebase Admin credentials.');
+  }
+
+  const parsedServiceAccount = JSON.parse(serviceAccountJson);
+  adminApp = initializeApp({
+    credential: cert({
+      projectId: parsedServiceAccount.project_id,
+      clientEmail: parsedServiceAccount.client_email,
+      privateKey: parsedServiceAccount.private_key?.replace(/\\n/g, '\n'),
+    }),
+    storageBucket: STORAGE_BUCKET,
+  });
+  return adminApp;
+}
+
+export function getAdminApp(): App {
+  return initAdminApp();
+}
+
+export function getAdminAuth() {
+  return getAuth(getAdminApp());
+}
+
+export function getAdminFirestore() {
+  return getFirestore(getAdminApp());
+}
+
+export function getAdminBucket() {
+  return getStorage(getAdminApp()).bucket(STORAGE_BUCKET);
+}
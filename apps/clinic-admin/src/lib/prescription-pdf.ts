@@ -0,0 +1,73 @@
+import jsPDF from "jspdf";
+import type { PrescriptionDocument } from "@kloqo/shared-core";
+
+const PAGE_MARGIN = 15;
+const LINE_HEIGHT = 6;
+
+/**
+ * Lays out a prescription on A4: letterhead, patient line, then each section.
+ * Long lines wrap and overflow onto new pages.
+ */
+export function renderPrescriptionPdf(prescription: PrescriptionDocument): jsPDF {
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN + 5;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN - 10) {
+      pdf.addPage();
+      y = PAGE_MARGIN + 5;
+    }
+  };
+
+  const writeLines = (text: string, fontSize: number, style: "normal" | "bold" = "normal", align: "left" | "right" = "left") => {
+    pdf.setFont("helvetica", style);
+    pdf.setFontSize(fontSize);
+    const lines: string[] = pdf.splitTextToSize(text, contentWidth);
+    for (const line of lines) {
+      ensureSpace(LINE_HEIGHT);
+      pdf.text(line, align === "left" ? PAGE_MARGIN : pageWidth - PAGE_MARGIN, y, { align });
+      y += LINE_HEIGHT;
+    }
+  };
+
+  // Letterhead: clinic on the left, doctor on the right
+  const headerTop = y;
+  writeLines(prescription.clinicName, 16, "bold");
+  prescription.clinicDetails.forEach(line => writeLines(line, 9));
+  const clinicBottom = y;
+
+  y = headerTop;
+  writeLines(prescription.doctorName, 12, "bold", "right");
+  prescription.doctorDetails.forEach(line => writeLines(line, 9, "normal", "right"));
+  y = Math.max(y, clinicBottom) + 2;
+
+  pdf.setLineWidth(0.5);
+  pdf.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y);
+  y += LINE_HEIGHT;
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(10);
+  pdf.text(`Patient: ${prescription.patientName}`, PAGE_MARGIN, y);
+  pdf.text(`Date: ${prescription.date}`, pageWidth - PAGE_MARGIN, y, { align: "right" });
+  y += LINE_HEIGHT * 2;
+
+  for (const section of prescription.sections) {
+    ensureSpace(LINE_HEIGHT * 2);
+    writeLines(section.heading, 11, "bold");
+    section.lines.forEach(line => writeLines(line, 10));
+    y += LINE_HEIGHT / 2;
+  }
+
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFont("helvetica", "italic");
+    pdf.setFontSize(8);
+    pdf.text(prescription.footer, pageWidth / 2, pageHeight - PAGE_MARGIN, { align: "center" });
+  }
+
+  return pdf;
+}
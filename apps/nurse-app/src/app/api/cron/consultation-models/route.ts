@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getServerDb } from '@/lib/server-worker';
+import { trainAllConsultationTimeModels } from '@kloqo/shared-core';
+
+/**
+ * GET /api/cron/consultation-models
+ * Triggered nightly by the external scheduler, after clinics close.
+ * Retrains every doctor's consultation time model from the last 90 days of
+ * completedAt history; queue ETAs pick the new models up on their next refresh.
+ */
+export async function GET(request: Request) {
+    // 1. Security Check
+    const authHeader = request.headers.get('authorization');
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret) {
+        console.warn('[Consultation Models] Warning: CRON_SECRET is not set in environment variables.');
+        return NextResponse.json({ error: 'Cron secret not configured' }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${secret}`) {
+        console.error('[Consultation Models] Authentication mismatch');
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const db = await getServerDb();
+        const { trained, skipped, failed } = await trainAllConsultationTimeModels(db);
+        console.log(`[CRON] ✅ Consultation models: ${trained} trained, ${skipped} without enough history, ${failed} failed.`);
+
+        return NextResponse.json({
+            message: 'Consultation Models Trained',
+            trained,
+            skipped,
+            failed
+        });
+    } catch (error) {
+        console.error('[CRON] 🔥 Critical Error in Consultation Models Route:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
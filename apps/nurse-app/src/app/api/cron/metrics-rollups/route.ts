@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getServerDb } from '@/lib/server-worker';
+import { isDateKey, refreshMetricsRollups } from '@kloqo/shared-core';
+
+/**
+ * GET /api/cron/metrics-rollups
+ * Triggered hourly by the external scheduler.
+ * Rebuilds the daily metrics rollups the superadmin dashboards read, from the
+ * last completed day up to today.
+ *
+ * Backfill: GET /api/cron/metrics-rollups?from=2026-01-01&to=2026-03-31
+ * (`to` defaults to today) rebuilds that range without moving the progress.
+ */
+export async function GET(request: Request) {
+    // 1. Security Check
+    const authHeader = request.headers.get('authorization');
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret) {
+        console.warn('[Metrics Rollups] Warning: CRON_SECRET is not set in environment variables.');
+        return NextResponse.json({ error: 'Cron secret not configured' }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${secret}`) {
+        console.error('[Metrics Rollups] Authentication mismatch');
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Optional backfill range
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') || undefined;
+    const to = searchParams.get('to') || undefined;
+
+    if ((from && !isDateKey(from)) || (to && !isDateKey(to)) || (to && !from)) {
+        return NextResponse.json({ error: 'Backfill needs from (and optionally to) as yyyy-MM-dd' }, { status: 400 });
+    }
+
+    try {
+        const db = await getServerDb();
+        const result = await refreshMetricsRollups(db, { from, to });
+        console.log(`[CRON] ✅ Metrics rollups: ${result.written} written for ${result.days} days (${result.from} to ${result.to}).`);
+
+        return NextResponse.json({
+            message: from ? 'Metrics Rollups Backfilled' : 'Metrics Rollups Refreshed',
+            ...result
+        });
+    } catch (error) {
+        console.error('[CRON] 🔥 Critical Error in Metrics Rollups Route:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
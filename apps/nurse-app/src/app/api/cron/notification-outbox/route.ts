@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getServerDb } from '@/lib/server-worker';
+import { processNotificationOutbox } from '@kloqo/shared-core';
+
+/**
+ * GET /api/cron/notification-outbox
+ * Triggered every minute by the external scheduler.
+ * Retries outbox notifications whose first delivery attempt failed, with exponential backoff.
+ */
+export async function GET(request: Request) {
+    // 1. Security Check
+    const authHeader = request.headers.get('authorization');
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret) {
+        console.warn('[Notification Outbox] Warning: CRON_SECRET is not set in environment variables.');
+        return NextResponse.json({ error: 'Cron secret not configured' }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${secret}`) {
+        console.error('[Notification Outbox] Authentication mismatch');
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const db = await getServerDb();
+        const { attempted, sent } = await processNotificationOutbox(db);
+        console.log(`[CRON] ✅ Notification outbox: ${sent}/${attempted} delivered.`);
+
+        return NextResponse.json({
+            message: 'Notification Outbox Processed',
+            attempted,
+            sent
+        });
+    } catch (error) {
+        console.error('[CRON] 🔥 Critical Error in Notification Outbox Route:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
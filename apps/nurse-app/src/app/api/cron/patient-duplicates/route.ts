@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getServerDb } from '@/lib/server-worker';
+import { detectDuplicatePatients } from '@kloqo/shared-core';
+
+/**
+ * GET /api/cron/patient-duplicates
+ * Triggered nightly by the external scheduler.
+ * Scores each clinic's patients for likely duplicates and queues new pairs in
+ * patient-duplicates for staff to merge or dismiss.
+ */
+export async function GET(request: Request) {
+    // 1. Security Check
+    const authHeader = request.headers.get('authorization');
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret) {
+        console.warn('[Patient Duplicates] Warning: CRON_SECRET is not set in environment variables.');
+        return NextResponse.json({ error: 'Cron secret not configured' }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${secret}`) {
+        console.error('[Patient Duplicates] Authentication mismatch');
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const db = await getServerDb();
+        const { clinics, queued } = await detectDuplicatePatients(db);
+        console.log(`[CRON] ✅ Patient duplicates: ${queued} pairs queued for review across ${clinics} clinics.`);
+
+        return NextResponse.json({
+            message: 'Duplicate Patients Detected',
+            clinics,
+            queued
+        });
+    } catch (error) {
+        console.error('[CRON] 🔥 Critical Error in Patient Duplicates Route:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
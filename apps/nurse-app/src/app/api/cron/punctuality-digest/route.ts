@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getServerDb } from '@/lib/server-worker';
+import { sendWeeklyPunctualityDigests } from '@kloqo/shared-core';
+
+/**
+ * GET /api/cron/punctuality-digest
+ * Triggered weekly (Monday morning) by the external scheduler.
+ * Sends each clinic owner last week's doctor punctuality summary on WhatsApp.
+ */
+export async function GET(request: Request) {
+    // 1. Security Check
+    const authHeader = request.headers.get('authorization');
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret) {
+        console.warn('[Punctuality Digest] Warning: CRON_SECRET is not set in environment variables.');
+        return NextResponse.json({ error: 'Cron secret not configured' }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${secret}`) {
+        console.error('[Punctuality Digest] Authentication mismatch');
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const db = await getServerDb();
+        const { sent, skipped, failed } = await sendWeeklyPunctualityDigests(db);
+        console.log(`[CRON] ✅ Punctuality digests: ${sent} sent, ${skipped} skipped, ${failed} failed.`);
+
+        return NextResponse.json({
+            message: 'Punctuality Digests Sent',
+            sent,
+            skipped,
+            failed
+        });
+    } catch (error) {
+        console.error('[CRON] 🔥 Critical Error in Punctuality Digest Route:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getServerDb } from '@/lib/server-worker';
+import { refreshActiveQueueProjections } from '@kloqo/shared-core';
+
+/**
+ * GET /api/cron/queue-projections
+ * Triggered every minute by the external scheduler.
+ * Rebuilds the queue projection of every doctor with patients still queued today,
+ * so ETAs and break countdowns move on even when no appointment changes.
+ */
+export async function GET(request: Request) {
+    // 1. Security Check
+    const authHeader = request.headers.get('authorization');
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret) {
+        console.warn('[Queue Projections] Warning: CRON_SECRET is not set in environment variables.');
+        return NextResponse.json({ error: 'Cron secret not configured' }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${secret}`) {
+        console.error('[Queue Projections] Authentication mismatch');
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const db = await getServerDb();
+        const { doctors, failed } = await refreshActiveQueueProjections(db);
+        console.log(`[CRON] ✅ Queue projections: ${doctors - failed}/${doctors} doctors refreshed.`);
+
+        return NextResponse.json({
+            message: 'Queue Projections Refreshed',
+            doctors,
+            failed
+        });
+    } catch (error) {
+        console.error('[CRON] 🔥 Critical Error in Queue Projections Route:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
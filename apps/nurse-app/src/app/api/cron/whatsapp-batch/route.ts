@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { db } from '@/lib/firebase';
+import { getServerDb } from '@/lib/server-worker';
 import { collection, getDocs } from 'firebase/firestore';
 import { checkAndSendDailyReminders } from '@kloqo/shared-core';
 
@@ -32,6 +32,7 @@ export async function GET(request: Request) {
     }
 
     try {
+        const db = await getServerDb();
         console.log('[CRON] 🚀 Starting Global WhatsApp Batch Reminder Process...');
 
         // 2. Fetch all clinics
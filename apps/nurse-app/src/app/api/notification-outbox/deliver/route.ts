@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { doc, getDoc } from 'firebase/firestore';
+import { deliverOutboxEntry, getStaffRole, OUTBOX_COLLECTION, type StaffMember } from '@kloqo/shared-core';
+import type { NotificationOutboxEntry } from '@kloqo/shared-types';
+import { getServerDb } from '@/lib/server-worker';
+import { getFirebaseAdmin } from '../../../../../../../packages/shared-core/src/utils/firebase-admin';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return new NextResponse(null, { status: 200, headers: corsHeaders });
+}
+
+/**
+ * POST /api/notification-outbox/deliver
+ * Body: { id }
+ * Makes the first delivery attempt for an outbox entry queued from a browser.
+ * Browsers may only create entries, so the send and its result are recorded here,
+ * as the server worker. Requires the Firebase ID token of staff of the entry's
+ * clinic, or of the patient the entry is for.
+ */
+export async function POST(request: NextRequest) {
+    const idToken = request.headers.get('authorization')?.replace(/^Bearer /, '');
+    if (!idToken) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: corsHeaders });
+    }
+
+    let caller: { uid: string };
+    try {
+        caller = await getFirebaseAdmin().auth().verifyIdToken(idToken);
+    } catch (error) {
+        console.error('[Notification Outbox] Invalid ID token:', error);
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: corsHeaders });
+    }
+
+    const { id } = await request.json().catch(() => ({}));
+    if (!id || typeof id !== 'string') {
+        return NextResponse.json({ error: 'id is required' }, { status: 400, headers: corsHeaders });
+    }
+
+    try {
+        const db = await getServerDb();
+        const [entrySnap, userSnap] = await Promise.all([
+            getDoc(doc(db, OUTBOX_COLLECTION, id)),
+            getDoc(doc(db, 'users', caller.uid)),
+        ]);
+        if (!entrySnap.exists()) {
+            return NextResponse.json({ error: 'Notification not found' }, { status: 404, headers: corsHeaders });
+        }
+
+        const entry = entrySnap.data() as NotificationOutboxEntry;
+        const user = { uid: caller.uid, ...userSnap.data() } as StaffMember;
+        const isClinicStaff = !!getStaffRole(user) && !!entry.clinicId && user.clinicId === entry.clinicId;
+        const isOwnPatient = user.role === 'patient' && !!entry.patientId && user.patientId === entry.patientId;
+        if (!isClinicStaff && !isOwnPatient) {
+            return NextResponse.json({ error: 'Only the clinic or the patient may send this notification.' }, { status: 403, headers: corsHeaders });
+        }
+
+        const sent = await deliverOutboxEntry(db, id);
+        return NextResponse.json({ sent }, { headers: corsHeaders });
+    } catch (error) {
+        console.error(`[Notification Outbox] Delivery of ${id} failed:`, error);
+        return NextResponse.json({ error: 'Delivery failed' }, { status: 500, headers: corsHeaders });
+    }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { doc, getDoc } from 'firebase/firestore';
+import { getStaffRole, getUserActor, hasPermission, mergePatients, type StaffMember } from '@kloqo/shared-core';
+import type { Patient } from '@kloqo/shared-types';
+import { getServerDb } from '@/lib/server-worker';
+import { getFirebaseAdmin } from '../../../../../../../packages/shared-core/src/utils/firebase-admin';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return new NextResponse(null, { status: 200, headers: corsHeaders });
+}
+
+/**
+ * POST /api/patients/merge
+ * Body: { survivorId, duplicateId, candidateId? }
+ * Merges two patient records for clinic-admin and superadmin. A merge re-points
+ * payments, reviews, logins and other records staff cannot write, so it runs as
+ * the server worker. Clinic staff need the merge_patients permission and may only
+ * merge patients of their own clinic. Requires the caller's Firebase ID token.
+ */
+export async function POST(request: NextRequest) {
+    const idToken = request.headers.get('authorization')?.replace(/^Bearer /, '');
+    if (!idToken) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: corsHeaders });
+    }
+
+    let uid: string;
+    try {
+        uid = (await getFirebaseAdmin().auth().verifyIdToken(idToken)).uid;
+    } catch (error) {
+        console.error('[Patient Merge] Invalid ID token:', error);
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: corsHeaders });
+    }
+
+    const { survivorId, duplicateId, candidateId } = await request.json().catch(() => ({}));
+    if (!survivorId || !duplicateId || typeof survivorId !== 'string' || typeof duplicateId !== 'string') {
+        return NextResponse.json({ error: 'survivorId and duplicateId are required' }, { status: 400, headers: corsHeaders });
+    }
+
+    try {
+        const db = await getServerDb();
+        const userSnap = await getDoc(doc(db, 'users', uid));
+        const isSuperAdmin = userSnap.data()?.role === 'superAdmin';
+        const user = { uid, ...userSnap.data() } as StaffMember;
+
+        if (!isSuperAdmin) {
+            if (!hasPermission(user, 'merge_patients')) {
+                return NextResponse.json({ error: 'You do not have permission to merge duplicate patients.' }, { status: 403, headers: corsHeaders });
+            }
+            const patientSnaps = await Promise.all([survivorId, duplicateId].map(id => getDoc(doc(db, 'patients', id))));
+            const inClinic = !!user.clinicId &&
+                patientSnaps.every(snap => ((snap.data() as Patient | undefined)?.clinicIds || []).includes(user.clinicId!));
+            if (!inClinic) {
+                return NextResponse.json({ error: 'Both patients must be registered at your clinic.' }, { status: 403, headers: corsHeaders });
+            }
+        }
+
+        const record = await mergePatients(db, survivorId, duplicateId, {
+            actor: getUserActor(user, isSuperAdmin ? 'superAdmin' : getStaffRole(user)),
+            source: isSuperAdmin ? 'superadmin' : 'clinic-admin',
+            ...(typeof candidateId === 'string' && candidateId ? { candidateId } : {}),
+        });
+        return NextResponse.json({ record }, { headers: corsHeaders });
+    } catch (error: any) {
+        console.error(`[Patient Merge] Merging ${duplicateId} into ${survivorId} failed:`, error);
+        return NextResponse.json({ error: error?.message || 'Failed to merge patients' }, { status: 500, headers: corsHeaders });
+    }
+}
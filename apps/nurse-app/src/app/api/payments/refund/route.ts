@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { markPaymentForRefund } from '@kloqo/shared-core';
+import { getServerDb } from '@/lib/server-worker';
+import { getFirebaseAdmin } from '../../../../../../../packages/shared-core/src/utils/firebase-admin';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return new NextResponse(null, { status: 200, headers: corsHeaders });
+}
+
+/**
+ * POST /api/payments/refund
+ * Body: { appointmentId }
+ * Marks the online payment of a cancelled booking for refund. Browsers may not
+ * write payments, so the patient and clinic apps ask for it here and it is
+ * recorded as the server worker. Requires the caller's Firebase ID token.
+ */
+export async function POST(request: NextRequest) {
+    const idToken = request.headers.get('authorization')?.replace(/^Bearer /, '');
+    if (!idToken) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: corsHeaders });
+    }
+
+    try {
+        await getFirebaseAdmin().auth().verifyIdToken(idToken);
+    } catch (error) {
+        console.error('[Payments] Invalid ID token:', error);
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: corsHeaders });
+    }
+
+    const { appointmentId } = await request.json().catch(() => ({}));
+    if (!appointmentId || typeof appointmentId !== 'string') {
+        return NextResponse.json({ error: 'appointmentId is required' }, { status: 400, headers: corsHeaders });
+    }
+
+    try {
+        const db = await getServerDb();
+        const payment = await markPaymentForRefund(db, appointmentId);
+        return NextResponse.json({ payment }, { headers: corsHeaders });
+    } catch (error) {
+        console.error(`[Payments] Refund request for ${appointmentId} failed:`, error);
+        return NextResponse.json({ error: 'Refund request failed' }, { status: 500, headers: corsHeaders });
+    }
+}
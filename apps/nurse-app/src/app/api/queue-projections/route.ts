@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { doc, getDoc } from 'firebase/firestore';
+import { getStaffRole, refreshQueueProjections, type StaffMember } from '@kloqo/shared-core';
+import { getServerDb } from '@/lib/server-worker';
+import { getFirebaseAdmin } from '../../../../../../packages/shared-core/src/utils/firebase-admin';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return new NextResponse(null, { status: 200, headers: corsHeaders });
+}
+
+/**
+ * POST /api/queue-projections
+ * Body: { clinicId, doctorId, date? }
+ * Rebuilds one doctor's queue projections. Requested after every appointment
+ * mutation (see requestQueueProjectionRefresh) and by the live dashboard. Requires
+ * the Firebase ID token of staff of the clinic, or of the server worker.
+ */
+export async function POST(request: NextRequest) {
+    const idToken = request.headers.get('authorization')?.replace(/^Bearer /, '');
+    if (!idToken) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: corsHeaders });
+    }
+
+    let caller: { uid: string; worker?: boolean };
+    try {
+        caller = await getFirebaseAdmin().auth().verifyIdToken(idToken);
+    } catch (error) {
+        console.error('[Queue Projections] Invalid ID token:', error);
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: corsHeaders });
+    }
+
+    const { clinicId, doctorId, date } = await request.json().catch(() => ({}));
+    if (!clinicId || !doctorId) {
+        return NextResponse.json({ error: 'clinicId and doctorId are required' }, { status: 400, headers: corsHeaders });
+    }
+
+    try {
+        const db = await getServerDb();
+        if (caller.worker !== true) {
+            const userSnap = await getDoc(doc(db, 'users', caller.uid));
+            const user = { uid: caller.uid, ...userSnap.data() } as StaffMember;
+            if (!getStaffRole(user) || user.clinicId !== clinicId) {
+                return NextResponse.json({ error: 'Only clinic staff may refresh its queue.' }, { status: 403, headers: corsHeaders });
+            }
+        }
+
+        const projections = await refreshQueueProjections(db, clinicId, doctorId, date);
+        return NextResponse.json({ refreshed: projections.map(p => p.id) }, { headers: corsHeaders });
+    } catch (error) {
+        console.error('[Queue Projections] Refresh failed:', error);
+        return NextResponse.json({ error: 'Failed to refresh queue projection' }, { status: 500, headers: corsHeaders });
+    }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promoteWaitlist } from '@kloqo/shared-core';
+import { getServerDb } from '@/lib/server-worker';
+import { getFirebaseAdmin } from '../../../../../../../packages/shared-core/src/utils/firebase-admin';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+    return new NextResponse(null, { status: 200, headers: corsHeaders });
+}
+
+/**
+ * POST /api/waitlist/promote
+ * Body: { clinicId, doctorId, date, sessionIndex }
+ * Offers the slots freed in a session to its waitlist. Browsers may not write
+ * offers, so patients cancelling or passing on an offer ask for them here and
+ * they are made as the server worker. Requires the caller's Firebase ID token.
+ */
+export async function POST(request: NextRequest) {
+    const idToken = request.headers.get('authorization')?.replace(/^Bearer /, '');
+    if (!idToken) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: corsHeaders });
+    }
+
+    try {
+        await getFirebaseAdmin().auth().verifyIdToken(idToken);
+    } catch (error) {
+        console.error('[Waitlist] Invalid ID token:', error);
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: corsHeaders });
+    }
+
+    const { clinicId, doctorId, date, sessionIndex } = await request.json().catch(() => ({}));
+    if (!clinicId || !doctorId || !date || typeof sessionIndex !== 'number') {
+        return NextResponse.json(
+            { error: 'clinicId, doctorId, date and sessionIndex are required' },
+            { status: 400, headers: corsHeaders }
+        );
+    }
+
+    try {
+        const db = await getServerDb();
+        const offered = await promoteWaitlist(db, { clinicId, doctorId, date, sessionIndex });
+        return NextResponse.json({ offered }, { headers: corsHeaders });
+    } catch (error) {
+        console.error(`[Waitlist] Promotion for ${doctorId} ${date} session ${sessionIndex} failed:`, error);
+        return NextResponse.json({ error: 'Promotion failed' }, { status: 500, headers: corsHeaders });
+    }
+}
@@ -5,7 +5,10 @@ import {
     CodeService,
     sendWhatsAppText,
     WhatsAppSessionService,
-    computeQueues,
+    QUEUE_PROJECTIONS_COLLECTION,
+    getQueueProjectionId,
+    getPatientsAhead,
+    refreshQueueProjections,
     getClinicDateString,
     getClinicTimeString,
     getClinicNow,
@@ -15,13 +18,22 @@ import {
     MagicLinkService,
     sendWhatsAppAIFallback,
     sendSmartWhatsAppNotification,
+    buildTemplateVariables,
+    recordWhatsAppDeliveryStatus,
+    resolveLanguage,
+    translate,
+    DEFAULT_WHATSAPP_LANGUAGE,
 } from '@kloqo/shared-core';
+import type { Language, QueueProjection } from '@/lib/types';
+import { getServerDb } from '@/lib/server-worker';
 import { getFirebaseAdmin } from '../../../../../../../packages/shared-core/src/utils/firebase-admin';
 import { MagicLinkAdminService } from '../../../../../../../packages/shared-core/src/services/magic-link-admin-service';
 import { AIService, AI_ERROR_BUSY } from '../../../../../../../packages/shared-core/src/services/ai-service';
-import { collection, query, where, getDocs, doc, getDoc, Timestamp, getFirestore, setDoc, serverTimestamp, runTransaction } from 'firebase/firestore';
+import { collection, query, where, getDocs, doc, getDoc, Timestamp, setDoc, serverTimestamp, runTransaction } from 'firebase/firestore';
 import {
+    getAppointmentDateFields,
     getClinicISOString,
+    getClinicTimeContext,
     parseClinicDate,
     loadDoctorAndSlots,
     generateNextTokenAndReserveSlot,
@@ -54,12 +66,24 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
     const adminApp = getFirebaseAdmin();
     const adminDb = adminApp.firestore();
-    const db = getFirestore();
+    const db = await getServerDb();
     try {
         const body = await request.json();
         console.log('[WhatsApp Webhook] Received:', JSON.stringify(body, null, 2));
 
         if (body.object) {
+            // Delivery receipts for messages we sent (sent / delivered / read / failed)
+            const statuses = body.entry?.[0]?.changes?.[0]?.value?.statuses;
+            if (Array.isArray(statuses) && statuses.length > 0) {
+                for (const status of statuses) {
+                    try {
+                        await recordWhatsAppDeliveryStatus(db, status.id, status.status, status.errors?.[0]?.title);
+                    } catch (e) {
+                        console.error(`[WhatsApp Webhook] Failed to record status for ${status.id}:`, e);
+                    }
+                }
+            }
+
             if (
                 body.entry &&
                 body.entry[0].changes &&
@@ -84,7 +108,10 @@ export async function POST(request: NextRequest) {
                 // 0. Lookup Patient Identity
                 const patient = await getPatientByPhone(from);
                 const patientName = patient?.name;
-                const greetingBase = patientName ? `നമസ്കാരം ${patientName}! ` : "നമസ്കാരം! ";
+                const language = resolveLanguage([patient?.language], DEFAULT_WHATSAPP_LANGUAGE);
+                const greeting = patientName
+                    ? translate(language, 'bot.greeting', { patientName })
+                    : translate(language, 'bot.greetingAnonymous');
 
                 // 1b. Check for Button Clicks / Interactive Messages
                 const buttonText = message.button?.text || message.interactive?.button_reply?.title;
@@ -197,7 +224,7 @@ export async function POST(request: NextRequest) {
 
                             // Find active appointment for today
                             const now = getClinicNow();
-                            const today = getClinicDateString(now);
+                            const today = getClinicDateString(now, getClinicTimeContext(clinicData));
                             const appointmentsRef = collection(db, 'appointments');
                             const aQuery = query(
                                 appointmentsRef,
@@ -225,44 +252,49 @@ export async function POST(request: NextRequest) {
 
                                 if (!dSnap.empty) {
                                     const doctorDoc = dSnap.docs[0];
-                                    const dData = doctorDoc.data();
-
-                                    // Use Admin SDK to computed queues
-                                    const allAptsQuery = query(appointmentsRef, where('clinicId', '==', session.clinicId), where('doctor', '==', doctorName), where('date', '==', today));
-                                    const allAptsSnap = await getDocs(allAptsQuery);
-                                    const allApts = allAptsSnap.docs.map(d => ({ id: d.id, ...d.data() } as any));
-
-                                    const queueState = await computeQueues(allApts, doctorName, doctorDoc.id, session.clinicId, today, 0, dData.consultationStatus);
-
-                                    // Find patient position
-                                    const pos = queueState.arrivedQueue.findIndex((a: any) => a.id === aSnap.docs[0].id);
-                                    peopleAhead = pos >= 0 ? pos : 0;
+                                    const sessionIndex = appointment.sessionIndex ?? 0;
+
+                                    // Same queue document the live-token page shows
+                                    const projectionSnap = await getDoc(doc(db, QUEUE_PROJECTIONS_COLLECTION, getQueueProjectionId(session.clinicId, doctorDoc.id, today, sessionIndex)));
+                                    const projection = projectionSnap.exists()
+                                        ? projectionSnap.data() as QueueProjection
+                                        : (await refreshQueueProjections(db, session.clinicId, doctorDoc.id, today)).find(p => p.sessionIndex === sessionIndex);
+
+                                    peopleAhead = getPatientsAhead(projection, activeAppt.id);
+                                    const entry = projection?.entries.find(e => e.appointmentId === activeAppt.id);
+                                    if (entry?.estimatedTime) {
+                                        estTime = entry.estimatedTime;
+                                    }
                                 }
 
                                 const magicToken = await MagicLinkAdminService.generateTokenAdmin(adminDb, from, `/live-token/${aSnap.docs[0].id}`);
                                 const linkSuffix = `${aSnap.docs[0].id}?ref=wa_button&token=${magicToken}`;
 
-                                const malayalamTextFallback = `നന്ദി. നിലവിൽ നിങ്ങളുടെ മുൻപിൽ ${peopleAhead} പേർ ഉണ്ട്. പ്രതീക്ഷിക്കുന്ന സമയം: ${estTime}.\n\nതത്സമയ വിവരങ്ങൾക്കായി താഴെ കാണുന്ന ലിങ്ക് ഉപയോഗിക്കുക:\n\nhttps://app.kloqo.com/live-token/${linkSuffix}`;
+                                const textFallback = translate(language, 'bot.queueStatus', {
+                                    count: peopleAhead,
+                                    time: estTime,
+                                    link: `https://app.kloqo.com/live-token/${linkSuffix}`,
+                                });
 
                                 await sendSmartWhatsAppNotification({
                                     to: from,
                                     templateName: 'appointment_status_confirmed_mlm',
-                                    templateVariables: {
-                                        "1": patient.name || 'Patient',
-                                        "2": appointment.classicTokenNumber || appointment.tokenNumber,
-                                        "3": linkSuffix
-                                    },
-                                    textFallback: malayalamTextFallback,
+                                    templateVariables: buildTemplateVariables('appointment_status_confirmed_mlm', {
+                                        patientName: patient.name || 'Patient',
+                                        token: appointment.classicTokenNumber || appointment.tokenNumber || '',
+                                        linkSuffix
+                                    }),
+                                    textFallback,
                                     alwaysSend: true // Session is open, but we use this for the premium button
                                 });
                             } else {
-                                await sendWhatsAppText({ to: from, text: "ക്ഷമിക്കണം, ഇന്ന് നിങ്ങൾക്ക് അപ്പോയിന്റ്മെന്റുകൾ ഒന്നും ഉള്ളതായി കാണുന്നില്ല." });
+                                await sendWhatsAppText({ to: from, text: translate(language, 'bot.noAppointmentsToday') });
                             }
                         } catch (error) {
                             console.error('[WhatsApp Webhook] Status check error:', error);
                         }
                     } else {
-                        await sendWhatsAppText({ to: from, text: "ക്ഷമിക്കണം, നിങ്ങളുടെ വിവരങ്ങൾ കണ്ടെത്താൻ കഴിഞ്ഞില്ല. ദയവായി ക്ലിനിക്കുമായി ബന്ധപ്പെടുക." });
+                        await sendWhatsAppText({ to: from, text: translate(language, 'bot.patientNotFound') });
                     }
                     return new NextResponse('EVENT_RECEIVED', { status: 200 });
                 }
@@ -297,12 +329,12 @@ export async function POST(request: NextRequest) {
 
                                 await sendWhatsAppText({
                                     to: from,
-                                    text: `${greetingBase}${clinic.name}-ലേക്ക് സ്വാഗതം! 👋\n\nവിവരങ്ങൾക്കായി താഴെ പറയുന്ന നമ്പറുകൾ ടൈപ്പ് ചെയ്യുക:\n1. ഡോക്ടറുടെ ലഭ്യത\n2. പ്രവർത്തന സമയം\n3. ക്യൂ നില\n4. അപ്പോയിന്റ്മെന്റ് ബുക്കിംഗ്`
+                                    text: translate(language, 'bot.clinicWelcome', { greeting, clinicName: clinic.name, options: translate(language, 'bot.options') })
                                 });
                             } else {
                                 await sendWhatsAppText({
                                     to: from,
-                                    text: "ക്ഷമിക്കണം, ഈ കോഡിലുള്ള ഒരു ക്ലിനിക് കണ്ടെത്താനായില്ല. ദയവായി കോഡ് പരിശോധിക്കുക."
+                                    text: translate(language, 'bot.clinicNotFound')
                                 });
                             }
                         } catch (error) {
@@ -345,13 +377,13 @@ export async function POST(request: NextRequest) {
                                 return new NextResponse('EVENT_RECEIVED', { status: 200 });
                             } catch (e) {
                                 console.error('[WhatsApp Webhook] ❌ Booking link error:', e);
-                                await sendWhatsAppText({ to: from, text: "ക്ഷമിക്കണം, ബുക്കിംഗ് ലിങ്ക് ലഭ്യമാക്കുന്നതിൽ ഒരു പിശക് സംഭവിച്ചു." });
+                                await sendWhatsAppText({ to: from, text: translate(language, 'bot.bookingLinkError') });
                             }
                         } else {
                             console.log(`[WhatsApp Webhook] ⚠️ No clinic in session for 'book' command`);
                             await sendWhatsAppText({
                                 to: from,
-                                text: "അപ്പോയിന്റ്മെന്റ് ബുക്ക് ചെയ്യാൻ ഈ ലിങ്ക് ഉപയോഗിക്കുക: https://app.kloqo.com/clinics\n(ക്ലിനിക്കിന്റെ കോഡ് (ഉദാ: KQ-1234) ആദ്യം നൽകിയാൽ നേരിട്ടുള്ള ലിങ്ക് ലഭിക്കുന്നതാണ്)"
+                                text: translate(language, 'bot.bookingLinkNoClinic')
                             });
                             return new NextResponse('EVENT_RECEIVED', { status: 200 });
                         }
@@ -359,7 +391,7 @@ export async function POST(request: NextRequest) {
 
                     // 2c. Booking Wizard State Handling (Only for active handled states)
                     if (session?.bookingState === 'confirm_booking') {
-                        await handleBookingWizard(from, messageBody, session, patientName);
+                        await handleBookingWizard(from, messageBody, session, language, patientName);
                         return new NextResponse('EVENT_RECEIVED', { status: 200 });
                     }
 
@@ -387,33 +419,23 @@ export async function POST(request: NextRequest) {
                                     doctorName = dData.name;
                                     doctorStatus = dData.consultationStatus || 'Out';
 
-                                    // Fetch Appointments for queue info
-                                    const now = getClinicNow();
-                                    const today = getClinicDateString(now);
-                                    const appointmentsRef = collection(db, 'appointments');
-                                    const aQuery = query(
-                                        appointmentsRef,
+                                    // Queue info from today's projections for this doctor
+                                    const today = getClinicDateString(getClinicNow(), getClinicTimeContext(clinicData));
+                                    const projectionsQuery = query(
+                                        collection(db, QUEUE_PROJECTIONS_COLLECTION),
                                         where('clinicId', '==', session.clinicId),
-                                        where('doctor', '==', doctorName),
+                                        where('doctorId', '==', doctorDoc.id),
                                         where('date', '==', today)
                                     );
-                                    const aSnap = await getDocs(aQuery);
-                                    const allApts = aSnap.docs.map(d => ({ id: d.id, ...d.data() } as any));
-
-                                    const queueState = await computeQueues(
-                                        allApts,
-                                        doctorName,
-                                        doctorDoc.id,
-                                        session.clinicId,
-                                        today,
-                                        0, // Default session
-                                        dData.consultationStatus
-                                    );
+                                    const projectionsSnap = await getDocs(projectionsQuery);
 
-                                    queueLength = queueState.arrivedQueue.length;
+                                    queueLength = projectionsSnap.docs.reduce((total, d) => {
+                                        const projection = d.data() as QueueProjection;
+                                        return total + projection.entries.filter(e => e.status === 'Confirmed').length;
+                                    }, 0);
                                 }
 
-                                const operatingHours = clinicData.operatingHours || "ക്ലിനിക്കുമായി ബന്ധപ്പെടുക.";
+                                const operatingHours = clinicData.operatingHours || translate(language, 'bot.contactClinic');
 
                                 const aiResponse = await AIService.generatePatientResponse(
                                     clinicData.name,
@@ -422,7 +444,10 @@ export async function POST(request: NextRequest) {
                                     queueLength,
                                     operatingHours,
                                     messageBody,
-                                    patientName
+                                    patientName,
+                                    undefined,
+                                    language,
+                                    getClinicTimeContext(clinicData)
                                 );
 
                                 if (aiResponse === AI_ERROR_BUSY) {
@@ -432,7 +457,8 @@ export async function POST(request: NextRequest) {
                                         patientName: patientName,
                                         magicToken: magicToken,
                                         clinicId: session.clinicId,
-                                        firestore: db
+                                        firestore: db,
+                                        language
                                     });
                                 } else {
                                     await sendWhatsAppText({
@@ -462,7 +488,8 @@ export async function POST(request: NextRequest) {
                             "",      // No hours
                             messageBody,
                             patientName,
-                            globalData // Pass global context
+                            globalData, // Pass global context
+                            language
                         );
 
                         if (aiResponse === AI_ERROR_BUSY) {
@@ -471,13 +498,14 @@ export async function POST(request: NextRequest) {
                                 communicationPhone: from,
                                 patientName: patientName,
                                 magicToken: magicToken,
-                                firestore: db
+                                firestore: db,
+                                language
                             });
                         } else {
                             // Append the prompt for clinic code if it's not already helpful
                             let finalResponse = aiResponse;
                             if (!aiResponse.toLowerCase().includes("kq-")) {
-                                const promptExtra = "\n\nഒരു ക്ലിനിക്കുമായോ ഡോക്ടറുമായോ ബന്ധപ്പെടാൻ ആ ക്ലിനിക്കിന്റെ കോഡ് (ഉദാ: KQ-1234) ടൈപ്പ് ചെയ്യുക.";
+                                const promptExtra = '\n\n' + translate(language, 'bot.clinicCodePrompt');
                                 finalResponse += promptExtra;
                             }
 
@@ -494,7 +522,7 @@ export async function POST(request: NextRequest) {
                     // Final Fallback (only if AI fails)
                     await sendWhatsAppText({
                         to: from,
-                        text: `${greetingBase}Kloqo-ലേക്ക് സ്വാഗതം! ഏത് ക്ലിനിക്കുമായാണ് നിങ്ങൾക്ക് ബന്ധപ്പെടേണ്ടത്? ക്ലിനിക് കോഡ് (ഉദാ: KQ-1234) നൽകുക.`
+                        text: translate(language, 'bot.kloqoWelcome', { greeting })
                     });
                 }
             }
@@ -510,8 +538,8 @@ export async function POST(request: NextRequest) {
 /**
  * Handles the multi-step booking wizard for WhatsApp.
  */
-async function handleBookingWizard(from: string, message: string, session: any, patientName?: string) {
-    const db = getFirestore();
+async function handleBookingWizard(from: string, message: string, session: any, language: Language, patientName?: string) {
+    const db = await getServerDb();
     const state = session.bookingState;
 
     try {
@@ -522,10 +550,14 @@ async function handleBookingWizard(from: string, message: string, session: any,
         if (state === 'confirm_booking') {
             if (message.toLowerCase().includes('yes') || message === '1' || message.toLowerCase().includes('confirm')) {
                 // EXECUTE ADVANCE BOOKING (A-TOKEN)
-                const targetDate = parseClinicDate(session.bookingData.date);
+                const clinicDoc = await getDoc(doc(db, 'clinics', session.clinicId));
+                const clinicData = clinicDoc.data();
+                const timeContext = getClinicTimeContext(clinicData);
+
+                const targetDate = parseClinicDate(session.bookingData.date, timeContext);
                 if (!targetDate || isNaN(targetDate.getTime())) {
                     console.error('[BookingWizard] Invalid date in confirm_booking:', session.bookingData.date);
-                    await sendWhatsAppText({ to: from, text: "ക്ഷമിക്കണം, തീയതി വിവരങ്ങളിൽ ഒരു പിശക് സംഭവിച്ചു. ദയവായി ആദ്യം മുതൽ ഒന്ന് കൂടി ശ്രമിക്കുക." });
+                    await sendWhatsAppText({ to: from, text: translate(language, 'bot.bookingDateError') });
                     await WhatsAppSessionService.updateBookingState(from, 'idle');
                     return;
                 }
@@ -544,7 +576,8 @@ async function handleBookingWizard(from: string, message: string, session: any,
                         age: session.bookingData.patientAge,
                         sex: session.bookingData.patientSex,
                         phone: from
-                    }
+                    },
+                    timeContext
                 );
 
                 // 2. Ensure Patient Record Exists
@@ -587,6 +620,7 @@ async function handleBookingWizard(from: string, message: string, session: any,
                     clinicId: session.clinicId,
                     date: session.bookingData.date,
                     time: result.time,
+                    ...getAppointmentDateFields(session.bookingData.date, result.time, timeContext),
                     arriveByTime: result.arriveByTime,
                     tokenNumber: result.tokenNumber,
                     numericToken: result.numericToken,
@@ -596,15 +630,13 @@ async function handleBookingWizard(from: string, message: string, session: any,
                     bookedVia: 'Advanced Booking',
                     createdAt: serverTimestamp(),
                     updatedAt: serverTimestamp(),
-                    cutOffTime: Timestamp.fromDate(subMinutes(parseClinicDate(session.bookingData.date + ' ' + result.time), 15)),
-                    noShowTime: Timestamp.fromDate(addMinutes(parseClinicDate(session.bookingData.date + ' ' + result.arriveByTime), 15))
+                    cutOffTime: Timestamp.fromDate(subMinutes(parseClinicDate(session.bookingData.date + ' ' + result.time, timeContext), 15)),
+                    noShowTime: Timestamp.fromDate(addMinutes(parseClinicDate(session.bookingData.date + ' ' + result.arriveByTime, timeContext), 15))
                 };
 
                 await setDoc(apptRef, newAppointment);
 
-                // 3.5 Fetch Clinic data for notification rules
-                const clinicDoc = await getDoc(doc(db, 'clinics', session.clinicId));
-                const clinicData = clinicDoc.data();
+                // 3.5 Clinic data for notification rules
                 const tokenDistribution = clinicData?.tokenDistribution;
 
                 // 4. Generate Magic Link for the App (Silent Login)
@@ -637,14 +669,21 @@ async function handleBookingWizard(from: string, message: string, session: any,
                         appointmentId: apptRef.id,
                         magicToken: magicToken, // NEW: Pass the magic token for the button
                         showToken: showToken,
-                        clinicId: session.clinicId
+                        clinicId: session.clinicId,
+                        patientId,
+                        timeContext
                     } as any);
                 } catch (e) {
                     console.error('[BookingWizard] WhatsApp Confirm error:', e);
                     // Fallback to text if template fails
                     await sendWhatsAppText({
                         to: from,
-                        text: `✅ ബുക്കിംഗ് പൂർത്തിയായി!\n\nഡോക്ടർ: ${session.bookingData.doctorName}\nതീയതി: ${session.bookingData.date}\nസമയം: ${result.time}\nടോക്കൺ: *${result.tokenNumber}*`
+                        text: translate(language, 'whatsapp.bookingConfirmed', {
+                            doctorName: session.bookingData.doctorName,
+                            date: session.bookingData.date,
+                            time: result.time,
+                            token: result.tokenNumber,
+                        })
                     });
                 }
 
@@ -664,6 +703,7 @@ async function handleBookingWizard(from: string, message: string, session: any,
                         patientName: session.bookingData.patientName,
                         tokenDistribution: tokenDistribution,
                         clinicId: session.clinicId,
+                        timeContext,
                         // classicTokenNumber is not available for advance booking in Classic mode
                     });
                 } catch (e) {
@@ -672,18 +712,24 @@ async function handleBookingWizard(from: string, message: string, session: any,
 
                 await WhatsAppSessionService.updateBookingState(from, 'idle');
             } else if (message.toLowerCase().includes('no')) {
-                await sendWhatsAppText({ to: from, text: "ബുക്കിംഗ് റദ്ദാക്കിയിരിക്കുന്നു. നിങ്ങൾക്ക് മറ്റു സഹായങ്ങൾ ആവശ്യമുണ്ടോ?" });
+                await sendWhatsAppText({ to: from, text: translate(language, 'bot.bookingCancelled') });
                 await WhatsAppSessionService.updateBookingState(from, 'idle');
             } else {
                 await sendWhatsAppText({
                     to: from,
-                    text: `ഈ വിവരങ്ങൾ ശരിയാണോ?\n\nഡോക്ടർ: ${session.bookingData.doctorName}\nതീയതി: ${session.bookingData.date}\nസമയം: ${session.bookingData.slotTime}\nരോഗി: ${session.bookingData.patientName} (${session.bookingData.patientAge})\n\nഉറപ്പിക്കാൻ "Yes" എന്ന് ടൈപ്പ് ചെയ്യുക.`
+                    text: translate(language, 'bot.bookingConfirmPrompt', {
+                        doctorName: session.bookingData.doctorName,
+                        date: session.bookingData.date,
+                        time: session.bookingData.slotTime,
+                        patientName: session.bookingData.patientName,
+                        age: session.bookingData.patientAge,
+                    })
                 });
             }
         }
     } catch (error: any) {
         console.error('[BookingWizard] Error:', error);
-        await sendWhatsAppText({ to: from, text: "ക്ഷമിക്കണം, ബുക്കിംഗ് പ്രക്രിയയിൽ ഒരു പിശക് സംഭവിച്ചു. ദയവായി അല്പം കഴിഞ്ഞ് ശ്രമിക്കുക." });
+        await sendWhatsAppText({ to: from, text: translate(language, 'bot.bookingError') });
         await WhatsAppSessionService.updateBookingState(from, 'idle');
     }
 }
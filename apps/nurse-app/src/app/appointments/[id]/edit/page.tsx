@@ -23,10 +23,11 @@ import { FirestorePermissionError } from '@kloqo/shared-core';
 import { managePatient } from '@kloqo/shared-core';
 import { Card, CardContent } from '@/components/ui/card';
 import { format, parseISO, getDay, isBefore, addMinutes, subMinutes, parse } from 'date-fns';
-import { generateNextTokenAndReserveSlot } from '@kloqo/shared-core';
+import { generateNextTokenAndReserveSlot, getAppointmentDateFields } from '@kloqo/shared-core';
 
 import { parseTime } from '@/lib/utils';
 import { sendBreakUpdateNotification } from '@kloqo/shared-core';
+import { FollowUpSeriesDialog } from '@/components/clinic/follow-up-series-dialog';
 
 const formSchema = z.object({
     patientName: z.string().min(2, { message: "Name must be at least 2 characters." }),
@@ -67,6 +68,7 @@ export default function EditAppointmentPage({ params }: EditAppointmentPageProps
     const [clinicId, setClinicId] = useState<string | null>(null);
     const [displayDate, setDisplayDate] = useState<string | null>(null);
     const [displayTime, setDisplayTime] = useState<string | null>(null);
+    const [isFollowUpDialogOpen, setIsFollowUpDialogOpen] = useState(false);
 
 
     const form = useForm<z.infer<typeof formSchema>>({
@@ -415,6 +417,10 @@ export default function EditAppointmentPage({ params }: EditAppointmentPageProps
                     const newAppointmentData = {
                         ...appointment,
                         ...updatedAppointment,
+                        ...getAppointmentDateFields(
+                            updatedAppointment.date || appointment.date,
+                            updatedAppointment.time || appointment.time
+                        ),
                         id: newAppointmentId,
                         status: 'Pending',
                         isRescheduled: true,
@@ -519,6 +525,8 @@ export default function EditAppointmentPage({ params }: EditAppointmentPageProps
         router.push(`/book-appointment?doctor=${doctor.id}&appointmentId=${appointment.id}&edit=true`);
     };
 
+    const followUpDoctor = appointment ? doctors.find(d => d.name === appointment.doctor) : undefined;
+
     if (isLoading) {
         return (
             <AppFrameLayout>
@@ -558,6 +566,11 @@ export default function EditAppointmentPage({ params }: EditAppointmentPageProps
                                     Change
                                 </Button>
                             </div>
+                            {followUpDoctor && !appointment?.seriesId && (
+                                <Button variant="outline" size="sm" className="w-full" onClick={() => setIsFollowUpDialogOpen(true)}>
+                                    Book Follow-ups
+                                </Button>
+                            )}
                         </CardContent>
                     </Card>
 
@@ -657,6 +670,14 @@ export default function EditAppointmentPage({ params }: EditAppointmentPageProps
                     </Form>
                 </div>
             </div>
+            {appointment && followUpDoctor && (
+                <FollowUpSeriesDialog
+                    isOpen={isFollowUpDialogOpen}
+                    setIsOpen={setIsFollowUpDialogOpen}
+                    appointment={appointment}
+                    doctor={followUpDoctor}
+                />
+            )}
         </AppFrameLayout>
     );
 }
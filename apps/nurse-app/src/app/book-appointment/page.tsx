@@ -8,7 +8,7 @@ import { Calendar as CalendarIcon, ArrowLeft, Loader2 } from 'lucide-react';
 import { format, addMinutes, set, parse, isSameDay, startOfDay, addDays, isBefore, isAfter, subMinutes, differenceInMinutes, parseISO } from 'date-fns';
 import { cn, getDisplayTime, parseTime } from "@/lib/utils";
 import Link from 'next/link';
-import type { Appointment, Doctor } from '@/lib/types';
+import type { Appointment, CapacityPolicy, Doctor } from '@/lib/types';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { collection, onSnapshot, query, where, doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
@@ -21,7 +21,9 @@ import {
     isSlotBlockedByLeave,
     buildBreakIntervalsFromPeriods,
     getSessionBreakIntervals,
-    getSessionEnd
+    getSessionEnd,
+    calculateWalkInReserve,
+    createSessionRatioResolver
 } from '@kloqo/shared-core';
 import { useToast } from '@/hooks/use-toast';
 import {
@@ -135,6 +137,7 @@ function BookAppointmentContent() {
     const [bookedSlotsWithTokens, setBookedSlotsWithTokens] = useState<Map<number, string>>(new Map());
     const [slotsLoading, setSlotsLoading] = useState(true);
     const [clinicId, setClinicId] = useState<string | null>(null);
+    const [clinicCapacityPolicy, setClinicCapacityPolicy] = useState<CapacityPolicy | null>(null);
 
     const [dateCarouselApi, setDateCarouselApi] = useState<CarouselApi>()
     const [currentMonth, setCurrentMonth] = useState(format(new Date(), 'MMMM yyyy'));
@@ -303,6 +306,20 @@ function BookAppointmentContent() {
         return () => unsubscribe();
     }, [doctor, selectedDate, clinicId]);
 
+    // The clinic's capacity policy sets how many slots each session keeps for walk-ins
+    useEffect(() => {
+        if (!clinicId) return;
+
+        getDoc(doc(db, 'clinics', clinicId))
+            .then(clinicSnap => setClinicCapacityPolicy(clinicSnap.data()?.capacityPolicy ?? null))
+            .catch(error => console.error('Error fetching clinic capacity policy:', error));
+    }, [clinicId]);
+
+    const sessionAdvanceRatio = useMemo(
+        () => createSessionRatioResolver(doctor, selectedDate, clinicCapacityPolicy),
+        [doctor, selectedDate, clinicCapacityPolicy]
+    );
+
 
     const isSlotBooked = useCallback((slot: Date): boolean => {
         return allBookedSlots.includes(slot.getTime());
@@ -374,8 +391,8 @@ function BookAppointmentContent() {
 
         // Calculate maximum advance tokens as sum of 85% capacity from FUTURE slots in each session
         let maximumAdvanceTokens = 0;
-        slotsBySession.forEach(({ slotCount }) => {
-            const sessionMinimumWalkInReserve = slotCount > 0 ? Math.ceil(slotCount * 0.15) : 0;
+        slotsBySession.forEach(({ sessionIndex, slotCount }) => {
+            const sessionMinimumWalkInReserve = calculateWalkInReserve(slotCount, sessionAdvanceRatio(sessionIndex));
             const sessionAdvanceCapacity = Math.max(slotCount - sessionMinimumWalkInReserve, 0);
             maximumAdvanceTokens += sessionAdvanceCapacity;
         });
@@ -412,7 +429,7 @@ function BookAppointmentContent() {
         });
 
         return activeAdvanceCount >= maximumAdvanceTokens;
-    }, [doctor, selectedDate, allAppointments]);
+    }, [doctor, selectedDate, allAppointments, sessionAdvanceRatio]);
 
     // Calculate remaining capacity for display
     const remainingCapacity = useMemo(() => {
@@ -463,8 +480,8 @@ function BookAppointmentContent() {
         });
 
         let maximumAdvanceTokens = 0;
-        slotsBySession.forEach(({ slotCount }) => {
-            const sessionMinimumWalkInReserve = slotCount > 0 ? Math.ceil(slotCount * 0.15) : 0;
+        slotsBySession.forEach(({ sessionIndex, slotCount }) => {
+            const sessionMinimumWalkInReserve = calculateWalkInReserve(slotCount, sessionAdvanceRatio(sessionIndex));
             const sessionAdvanceCapacity = Math.max(slotCount - sessionMinimumWalkInReserve, 0);
             maximumAdvanceTokens += sessionAdvanceCapacity;
         });
@@ -486,7 +503,7 @@ function BookAppointmentContent() {
         }).length;
 
         return Math.max(0, maximumAdvanceTokens - activeAdvanceCount);
-    }, [doctor, selectedDate, allAppointments, isAdvanceCapacityReached]);
+    }, [doctor, selectedDate, allAppointments, isAdvanceCapacityReached, sessionAdvanceRatio]);
 
     useEffect(() => {
         if (isAdvanceCapacityReached) {
@@ -609,7 +626,7 @@ function BookAppointmentContent() {
             if (futureSessionSlots.length > 0) {
                 const futureSlotCount = futureSessionSlots.length;
 
-                const sessionMinimumWalkInReserve = Math.ceil(futureSlotCount * 0.15);
+                const sessionMinimumWalkInReserve = calculateWalkInReserve(futureSlotCount, sessionAdvanceRatio(sessionIndex));
                 const reservedWSlotsStart = futureSlotCount - sessionMinimumWalkInReserve;
 
 
@@ -792,7 +809,7 @@ function BookAppointmentContent() {
             };
         }).filter(session => session.slots.length > 0);
 
-    }, [doctor, selectedDate, isSlotBooked, bookedSlotsWithTokens, allAppointments, isAdvanceCapacityReached]);
+    }, [doctor, selectedDate, isSlotBooked, bookedSlotsWithTokens, allAppointments, isAdvanceCapacityReached, sessionAdvanceRatio]);
 
 
     const handleProceed = () => {
@@ -934,7 +951,7 @@ function BookAppointmentContent() {
 
             if (futureSessionSlots.length > 0) {
                 const futureSlotCount = futureSessionSlots.length;
-                const sessionMinimumWalkInReserve = Math.ceil(futureSlotCount * 0.15);
+                const sessionMinimumWalkInReserve = calculateWalkInReserve(futureSlotCount, sessionAdvanceRatio(sessionIndex));
                 const reservedWSlotsStart = futureSlotCount - sessionMinimumWalkInReserve;
                 const reservedSlots = new Set<number>();
 
@@ -1008,7 +1025,7 @@ function BookAppointmentContent() {
         });
 
         return total;
-    }, [selectedDate, doctor, isSlotBooked, allAppointments, isAdvanceCapacityReached]);
+    }, [selectedDate, doctor, isSlotBooked, allAppointments, isAdvanceCapacityReached, sessionAdvanceRatio]);
 
     return (
         <AppFrameLayout>
@@ -14,7 +14,9 @@ import { db } from '@/lib/firebase';
 import AppFrameLayout from '@/components/layout/app-frame';
 import { parseTime, formatTime12Hour, parseAppointmentDateTime } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
-import { errorEmitter, FirestorePermissionError } from '@kloqo/shared-core';
+import { errorEmitter, FirestorePermissionError, createDoctorLeave, cancelDoctorLeave, getStaffRole, getUserActor } from '@kloqo/shared-core';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input } from '@/components/ui/input';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { Card, CardContent } from '@/components/ui/card';
@@ -25,10 +27,13 @@ function MarkLeaveContent() {
     const router = useRouter();
     const searchParams = useSearchParams();
     const { toast } = useToast();
+    const { user } = useAuth();
 
     const doctorIdFromParams = searchParams.get('doctor');
 
     const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+    const [endDate, setEndDate] = useState<Date | undefined>(undefined);
+    const [reason, setReason] = useState('');
     const [selectedSessions, setSelectedSessions] = useState<TimeSession[]>([]);
     const [doctor, setDoctor] = useState<Doctor | null>(null);
     const [appointments, setAppointments] = useState<Appointment[]>([]);
@@ -161,98 +166,58 @@ function MarkLeaveContent() {
         return allSlots;
     }
 
+    const refreshDoctor = async (doctorId: string) => {
+        const docSnap = await getDoc(doc(db, 'doctors', doctorId));
+        if (docSnap.exists()) {
+            setDoctor({ id: docSnap.id, ...docSnap.data() } as Doctor);
+        }
+    };
+
     const handleConfirmLeave = async () => {
         if (selectedSessions.length === 0 || !doctor || !clinicId) {
             toast({ variant: 'destructive', title: 'No Sessions Selected', description: 'Please select one or more sessions to mark as leave.' });
             return;
         }
+        if (!reason.trim()) {
+            toast({ variant: 'destructive', title: 'Reason Required', description: 'Please enter a reason for the leave.' });
+            return;
+        }
+        if (!user?.uid) {
+            toast({ variant: 'destructive', title: 'Not Signed In', description: 'Please sign in again to approve leave.' });
+            return;
+        }
         setIsSubmitting(true);
         try {
-            const batch = writeBatch(db);
-            const doctorRef = doc(db, 'doctors', doctor.id);
-            const dateKey = format(selectedDate, 'd MMMM yyyy');
-
             const sessionsToMark = selectedSessions.filter(s => !isSessionOnLeave(s));
-
-            // Prepare new breaks
-            const newBreaks: any[] = [];
-            const consultationTime = doctor.averageConsultingTime || 15;
-
-            sessionsToMark.forEach(session => {
-                const dayOfWeek = format(selectedDate, 'EEEE');
-                const availabilityForDay = doctor.availabilitySlots?.find(s => s.day === dayOfWeek);
-                const sessionIndex = availabilityForDay?.timeSlots.findIndex(s => s.from === session.from && s.to === session.to) ?? -1;
-
-                if (sessionIndex !== -1) {
-                    const start = parseTime(session.from, selectedDate);
-                    const end = parseTime(session.to, selectedDate);
-                    const duration = differenceInMinutes(end, start);
-
-                    const intervalSlots = eachMinuteOfInterval({ start, end }, { step: consultationTime });
-                    const slotStrings = intervalSlots.map(s => s.toISOString());
-
-                    const breakId = crypto.randomUUID();
-                    const breakPeriod = {
-                        id: breakId,
-                        startTime: start.toISOString(),
-                        endTime: end.toISOString(),
-                        duration: duration,
-                        slots: slotStrings,
-                        sessionIndex: sessionIndex,
-                        type: 'LEAVE',
-                        createdAt: new Date().toISOString()
-                    };
-                    newBreaks.push(breakPeriod);
-                }
-
-                // Cancel appointments
-                const appointmentsToCancel = getAppointmentsInSession(session);
-                appointmentsToCancel.forEach(appt => {
-                    const apptRef = doc(db, 'appointments', appt.id);
-                    batch.update(apptRef, { status: 'Cancelled', cancellationReason: 'DOCTOR_LEAVE' });
-
-                    if (typeof appt.slotIndex === 'number') {
-                        const reservationId = `${clinicId}_${doctor.name}_${dateKey}_slot_${appt.slotIndex}`
-                            .replace(/\s+/g, '_')
-                            .replace(/[^a-zA-Z0-9_]/g, '');
-                        const resRef = doc(db, 'slot-reservations', reservationId);
-                        batch.delete(resRef);
-                    }
-                });
-            });
-
-            if (newBreaks.length > 0) {
-                const currentBreaks = doctor.breakPeriods?.[dateKey] || [];
-                const updatedBreaks = [...currentBreaks, ...newBreaks];
-
-                batch.update(doctorRef, {
-                    [`breakPeriods.${dateKey}`]: updatedBreaks
-                });
-            }
-
-            await batch.commit();
+            const sessionIndices = sessionsToMark
+                .map(session => workSessionsForDay.findIndex(s => s.from === session.from && s.to === session.to))
+                .filter(index => index !== -1);
+            const isWholeDay = sessionIndices.length === workSessionsForDay.length;
+
+            const { cancelledAppointmentIds, proposals } = await createDoctorLeave(db, {
+                clinicId,
+                doctorId: doctor.id,
+                startDate: format(selectedDate, 'd MMMM yyyy'),
+                endDate: format(endDate && endDate > selectedDate ? endDate : selectedDate, 'd MMMM yyyy'),
+                ...(isWholeDay ? {} : { sessionIndices }),
+                reason: reason.trim(),
+                approvedBy: user.uid,
+                approvedByName: user?.name,
+            }, { actor: getUserActor(user, getStaffRole(user)), source: 'nurse-app' });
 
             toast({
                 title: 'Leave Marked Successfully',
-                description: `${sessionsToMark.length} session(s) have been marked as leave.`,
+                description: `${cancelledAppointmentIds.length} appointment(s) cancelled, ${proposals.length} patient(s) offered a new slot.`,
             });
 
-            // Optimistic update
-            const currentBreaks = doctor.breakPeriods?.[dateKey] || [];
-            const updatedBreaks = [...currentBreaks, ...newBreaks];
-            setDoctor(prev => prev ? ({
-                ...prev,
-                breakPeriods: {
-                    ...(prev.breakPeriods || {}),
-                    [dateKey]: updatedBreaks
-                }
-            }) : null);
-
+            await refreshDoctor(doctor.id);
             setSelectedSessions([]);
+            setReason('');
+            setEndDate(undefined);
 
-        } catch (error) {
+        } catch (error: any) {
             console.error("Error marking leave:", error);
-            toast({ variant: 'destructive', title: 'Error', description: 'Failed to mark leave.' });
+            toast({ variant: 'destructive', title: 'Error', description: error?.message || 'Failed to mark leave.' });
         } finally {
             setIsSubmitting(false);
         }
@@ -305,6 +270,7 @@ function MarkLeaveContent() {
             const cancelledSnapshot = await getDocs(cancelledAppointmentsQuery);
             const appointmentsToRestore = cancelledSnapshot.docs.filter(docSnap => {
                 const appt = docSnap.data();
+                if (appt.leaveId) return false; // Restored by cancelDoctorLeave below
                 const apptTime = parseAppointmentDateTime(appt.date, appt.time).getTime(); // Reusing util
                 // Check if apptTime is within any of the sessionsToCancel
                 return sessionsToCancel.some(session => {
@@ -319,27 +285,27 @@ function MarkLeaveContent() {
             });
 
 
-            if (breaksToRemove.length > 0) {
+            // Breaks created from a DoctorLeave are removed with the whole leave record
+            const leaveIds = Array.from(new Set(breaksToRemove.map((bp: any) => bp.leaveId).filter(Boolean))) as string[];
+            const legacyBreaksToRemove = breaksToRemove.filter((bp: any) => !bp.leaveId);
+
+            if (legacyBreaksToRemove.length > 0) {
                 batch.update(doctorRef, {
-                    [`breakPeriods.${dateKey}`]: breaksToKeep
+                    [`breakPeriods.${dateKey}`]: [...breaksToKeep, ...breaksToRemove.filter((bp: any) => bp.leaveId)]
                 });
             }
 
             await batch.commit();
+            for (const leaveId of leaveIds) {
+                await cancelDoctorLeave(db, leaveId, { actor: getUserActor(user, getStaffRole(user)), source: 'nurse-app' });
+            }
 
             toast({
                 title: 'Leave Canceled',
                 description: `${sessionsToCancel.length} leave session(s) have been canceled and appointments restored.`,
             });
 
-            setDoctor(prev => prev ? ({
-                ...prev,
-                breakPeriods: {
-                    ...(prev.breakPeriods || {}),
-                    [dateKey]: breaksToKeep
-                }
-            }) : null);
-
+            await refreshDoctor(doctor.id);
             setSelectedSessions([]);
         } catch (error) {
             console.error("Error canceling leave:", error);
@@ -353,6 +319,7 @@ function MarkLeaveContent() {
         if (date) {
             setSelectedDate(date);
             setSelectedSessions([]);
+            setEndDate(undefined);
         }
     };
 
@@ -455,6 +422,38 @@ function MarkLeaveContent() {
                             </PopoverContent>
                         </Popover>
                     </section>
+                    <section className="mb-6 space-y-3">
+                        <h2 className="text-lg font-semibold">Leave Details</h2>
+                        <Popover>
+                            <PopoverTrigger asChild>
+                                <button className="w-full flex items-center justify-between text-left p-3 rounded-xl bg-muted/50 border">
+                                    <span className={cn(!endDate && "text-muted-foreground")}>
+                                        {endDate ? `Until ${format(endDate, 'EEEE, d MMMM')}` : 'Single day (tap to extend)'}
+                                    </span>
+                                    <CalendarIcon className="h-5 w-5 opacity-50" />
+                                </button>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-auto p-0" align="start">
+                                <Calendar
+                                    mode="single"
+                                    selected={endDate}
+                                    onSelect={setEndDate}
+                                    disabled={(date) => date <= selectedDate}
+                                    initialFocus
+                                />
+                            </PopoverContent>
+                        </Popover>
+                        <Input
+                            placeholder="Reason (e.g. Conference, Sick leave)"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                        />
+                        {endDate && (
+                            <p className="text-xs text-muted-foreground">
+                                Selected sessions are marked on every working day until {format(endDate, 'd MMMM')}. Affected patients are offered the next free slot.
+                            </p>
+                        )}
+                    </section>
                     <section>
                         <h2 className="text-lg font-semibold mb-4">Select Sessions for {format(selectedDate, 'MMMM d')}</h2>
                         <div className="space-y-3">
@@ -100,9 +100,12 @@ export default function LoginPage() {
       } else if (error.name === 'UserDataNotFound' || error.message === 'User data not found') {
         errorMessage = 'User account not found in the system. Please contact your clinic administrator.';
         errorTitle = 'Account Not Found';
-      } else if (error.name === 'AccessDenied' || error.message === 'User does not have clinic admin access') {
-        errorMessage = 'This account does not have nurse access permissions. Please contact your clinic administrator.';
+      } else if (error.name === 'AccessDenied') {
+        errorMessage = 'This account is not a clinic staff account. Please contact your clinic administrator.';
         errorTitle = 'Access Denied';
+      } else if (error.name === 'AccountDisabled') {
+        errorMessage = 'Your staff account has been deactivated. Please contact your clinic owner.';
+        errorTitle = 'Account Disabled';
       }
 
       toast({
@@ -127,7 +130,7 @@ export default function LoginPage() {
           <CardHeader className="text-center">
             <CardTitle>Nurse Login</CardTitle>
             <p className="text-sm text-muted-foreground mt-2">
-              Use your clinic admin email and password
+              Use the staff email and password your clinic gave you
             </p>
           </CardHeader>
           <CardContent className="pt-10">
@@ -17,7 +17,7 @@ import { collection, getDocs, doc, getDoc, query, where, updateDoc, serverTimest
 import { db } from '@/lib/firebase';
 import type { Doctor, Patient, User } from '@/lib/types';
 import AppFrameLayout from '@/components/layout/app-frame';
-import { errorEmitter, FirestorePermissionError, managePatient, sendWhatsAppBookingLink, isSlotBlockedByLeave } from '@kloqo/shared-core';
+import { errorEmitter, FirestorePermissionError, managePatient, sendWhatsAppBookingLink, isSlotBlockedByLeave, calculateWalkInReserve, createSessionRatioResolver } from '@kloqo/shared-core';
 import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import PatientSearchResults from '@/components/clinic/patient-search-results';
@@ -205,6 +205,7 @@ function PhoneBookingDetailsContent() {
                 );
 
                 const slotDuration = doctor.averageConsultingTime || 15;
+                const sessionAdvanceRatio = createSessionRatioResolver(doctor, checkDate, clinicDetails?.capacityPolicy);
                 const extensions = doctor.availabilityExtensions?.[dateStr];
                 const bookingBuffer = addMinutes(now, 30);
                 const isCheckToday = isSameDay(checkDate, now);
@@ -253,11 +254,11 @@ function PhoneBookingDetailsContent() {
                         tempTime = addMinutes(tempTime, slotDuration);
                     }
 
-                    // C. Calculate Reserved (Walk-in) slots for this session (last 15% of future capacity)
+                    // C. Calculate Reserved (Walk-in) slots for this session (the policy's walk-in share of future capacity)
                     const reservedGlobalIndices = new Set<number>();
                     if (futureValidCapacitySlots.length > 0) {
                         const futureCount = futureValidCapacitySlots.length;
-                        const reserveCount = Math.ceil(futureCount * 0.15);
+                        const reserveCount = calculateWalkInReserve(futureCount, sessionAdvanceRatio(sessionIndex));
                         const reservedStartIdx = futureCount - reserveCount;
                         for (let j = reservedStartIdx; j < futureCount; j++) {
                             reservedGlobalIndices.add(futureValidCapacitySlots[j]);
@@ -276,7 +277,7 @@ function PhoneBookingDetailsContent() {
                         // 3. Not already booked
                         if (bookedTimes.has(slotTime.getTime())) continue;
 
-                        // 4. Not reserved for walk-ins (85/15 rule)
+                        // 4. Not reserved for walk-ins (capacity policy)
                         if (reservedGlobalIndices.has(globalIdx)) continue;
 
                         // If all checks pass, this is the next available slot
@@ -23,6 +23,7 @@ import {
 } from "@/components/ui/select";
 import { parseTime } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
 import { FirestorePermissionError } from '@kloqo/shared-core';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
@@ -33,13 +34,18 @@ import {
     getSessionBreaks,
     calculateSessionExtension,
     createBreakPeriod,
+    getClinicISOString,
     mergeAdjacentBreaks,
     validateBreakSlots,
     type SessionInfo,
     type SlotInfo,
     shiftAppointmentsForNewBreak,
+    planSessionExtension,
     validateBreakOverlapWithNextSession,
-    logPunctualityEvent
+    logPunctualityEvent,
+    getStaffRole,
+    getUserActor,
+    hasPermission
 } from '@kloqo/shared-core';
 import type { BreakPeriod } from '@kloqo/shared-types';
 import {
@@ -61,6 +67,7 @@ function ScheduleBreakContent() {
     const router = useRouter();
     const searchParams = useSearchParams();
     const { toast } = useToast();
+    const { user } = useAuth();
 
     const doctorIdFromParams = searchParams.get('doctor');
 
@@ -490,7 +497,7 @@ function ScheduleBreakContent() {
                 // Recalculate availabilityExtensions for this session
                 const availabilityExtensions = { ...(freshData.availabilityExtensions || {}) };
                 if (!availabilityExtensions[dateKey]) {
-                    availabilityExtensions[dateKey] = { sessions: [] };
+                    availabilityExtensions[dateKey] = { dateKey: getClinicISOString(selectedDate), sessions: [] };
                 }
 
                 const sessionIndex = breakPeriod.sessionIndex;
@@ -709,6 +716,10 @@ function ScheduleBreakContent() {
             startSessionIndex: breakStartSlot?.sessionIndex,
             endSessionIndex: breakEndSlot?.sessionIndex
         });
+        if (!hasPermission(user, 'schedule_break')) {
+            toast({ variant: 'destructive', title: 'Not Allowed', description: 'Your role cannot schedule breaks.' });
+            return;
+        }
         if (!doctor || !clinicId || !breakStartSlot || !breakEndSlot) {
             toast({ variant: 'destructive', title: 'Invalid Selection', description: 'Please select a valid start and end time for the break.' });
             return;
@@ -955,55 +966,17 @@ function ScheduleBreakContent() {
             const allBreaksForDate = (breakPeriods[dateStr] || []).filter((bp: BreakPeriod) => bp.sessionIndex !== sessionIndex);
             breakPeriods[dateStr] = [...allBreaksForDate, ...mergedBreaks];
 
-            const availabilityExtensions = doctor.availabilityExtensions || {};
-            if (!availabilityExtensions[dateStr]) {
-                availabilityExtensions[dateStr] = { sessions: [] as any };
-            }
-
-            const sessionExtIndex = availabilityExtensions[dateStr].sessions.findIndex((s: any) => Number(s.sessionIndex) === sessionIndex);
-
-            if (extensionMinutes !== null) {
-                // extensionMinutes is now the TOTAL new totalExtendedBy
-                const newTotalExtendedBy = extensionMinutes;
-                const newEndTimeDate = addMinutes(sessionEnd, newTotalExtendedBy);
-                const newEndTime = format(newEndTimeDate, 'hh:mm a');
+            // extensionMinutes is the TOTAL new totalExtendedBy; without it the current end is kept
+            const existingSessionExt = doctor.availabilityExtensions?.[dateStr]?.sessions?.find((s: any) => Number(s.sessionIndex) === sessionIndex);
+            const newEndTime = extensionMinutes !== null
+                ? format(addMinutes(sessionEnd, extensionMinutes), 'hh:mm a')
+                : (existingSessionExt?.newEndTime || format(sessionEnd, 'hh:mm a'));
 
-                const sessionExtension = {
-                    sessionIndex,
-                    breaks: mergedBreaks,
-                    totalExtendedBy: newTotalExtendedBy,
-                    originalEndTime: format(sessionEnd, 'hh:mm a'),
-                    newEndTime
-                };
-
-                if (sessionExtIndex >= 0) {
-                    availabilityExtensions[dateStr].sessions[sessionExtIndex] = sessionExtension;
-                } else {
-                    availabilityExtensions[dateStr].sessions.push(sessionExtension);
-                }
-            } else {
-                // Preserve current
-                const existingSessionExt = (sessionExtIndex >= 0)
-                    ? availabilityExtensions[dateStr].sessions[sessionExtIndex]
-                    : null;
-
-                const currentTotalExtendedBy = existingSessionExt ? existingSessionExt.totalExtendedBy : 0;
-                const currentNewEndTime = existingSessionExt ? existingSessionExt.newEndTime : format(sessionEnd, 'hh:mm a');
-
-                const sessionExtension = {
-                    sessionIndex,
-                    breaks: mergedBreaks,
-                    totalExtendedBy: currentTotalExtendedBy,
-                    originalEndTime: format(sessionEnd, 'hh:mm a'),
-                    newEndTime: currentNewEndTime
-                };
-
-                if (sessionExtIndex >= 0) {
-                    availabilityExtensions[dateStr].sessions[sessionExtIndex] = sessionExtension;
-                } else {
-                    availabilityExtensions[dateStr].sessions.push(sessionExtension);
-                }
-            }
+            const extendedDoctor = { ...doctor, breakPeriods };
+            planSessionExtension({ doctor: extendedDoctor, date: selectedDate }, sessionIndex, newEndTime).forEach(transition => {
+                if (transition.type === 'doctor') Object.assign(extendedDoctor, transition.changes);
+            });
+            const { availabilityExtensions } = extendedDoctor;
 
             await updateDoc(doctorRef, {
                 breakPeriods,
@@ -1034,7 +1007,9 @@ function ScheduleBreakContent() {
                     selectedDate,
                     doctor.name,
                     clinicId,
-                    slotDuration // Pass the extracted duration
+                    slotDuration, // Pass the extracted duration
+                    { actor: getUserActor(user, getStaffRole(user)), source: 'nurse-app' },
+                    user
                 );
             } catch (error) {
                 toast({
@@ -20,6 +20,7 @@ import { db } from '@/lib/firebase';
 import { doc, getDoc, collection, addDoc, query, where, getDocs, serverTimestamp, updateDoc, arrayUnion, increment, setDoc, deleteDoc, runTransaction, onSnapshot } from 'firebase/firestore';
 import type { Appointment, Doctor, Patient } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
 import { format, isWithinInterval, subMinutes, parse, addMinutes, isBefore, differenceInMinutes, parseISO, isAfter } from 'date-fns';
 import { parseTime } from '@/lib/utils';
 import { cn } from '@/lib/utils';
@@ -117,6 +118,7 @@ function WalkInRegistrationContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const { toast } = useToast();
+  const { user } = useAuth();
   const doctorIdFromParams = searchParams.get('doctor');
 
   const [doctor, setDoctor] = useState<Doctor | null>(null);
@@ -1040,6 +1042,7 @@ function WalkInRegistrationContent() {
         place: appointmentToSave.place,
         phone: appointmentToSave.communicationPhone,
         isForceBooked: appointmentToSave.isForceBooked,
+        staff: user,
       });
 
       if (result.success) {
@@ -1086,7 +1089,8 @@ function WalkInRegistrationContent() {
               tokenDistribution: clinicDetails?.tokenDistribution,
               classicTokenNumber: result.tokenNumber, // Walk-ins have direct tokens
               isWalkIn: true, // TRIGGER: Paid template to open window
-              clinicId: clinicId
+              clinicId: clinicId,
+              patientId: appointmentToSave.patientId
             });
           }
         } catch (err) {
@@ -0,0 +1,328 @@
+"use client";
+
+import { useEffect, useTransition } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { format, parse } from "date-fns";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { db } from "@/lib/firebase";
+import type { Appointment } from "@/lib/types";
+import {
+  getConsultationRecord,
+  getUserActor,
+  MEDICATION_FREQUENCIES,
+  saveConsultationRecord,
+  shareConsultationRecord,
+} from "@kloqo/shared-core";
+
+// Everything stays a string in the form; saveConsultationRecord validates the converted values
+const formSchema = z.object({
+  chiefComplaint: z.string(),
+  bloodPressure: z.string(),
+  pulse: z.string(),
+  temperature: z.string(),
+  weight: z.string(),
+  spo2: z.string(),
+  diagnoses: z.array(z.object({ code: z.string(), description: z.string() })),
+  medications: z.array(z.object({
+    name: z.string(),
+    dose: z.string(),
+    frequency: z.string(),
+    durationDays: z.string(),
+    instructions: z.string(),
+  })),
+  advice: z.string(),
+  followUpDate: z.string(),
+  sendToPatient: z.boolean(),
+});
+
+type ConsultationRecordFormValues = z.infer<typeof formSchema>;
+
+const emptyMedication = { name: "", dose: "", frequency: "1-0-1", durationDays: "5", instructions: "" };
+
+const defaultValues: ConsultationRecordFormValues = {
+  chiefComplaint: "",
+  bloodPressure: "",
+  pulse: "",
+  temperature: "",
+  weight: "",
+  spo2: "",
+  diagnoses: [{ code: "", description: "" }],
+  medications: [emptyMedication],
+  advice: "",
+  followUpDate: "",
+  sendToPatient: true,
+};
+
+const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+type ConsultationRecordDialogProps = {
+  appointment: Appointment | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+/**
+ * Visit notes and prescription for a completed token. Opens right after the
+ * doctor marks the token done; skipping it leaves the appointment without a record.
+ */
+export function ConsultationRecordDialog({ appointment, onOpenChange }: ConsultationRecordDialogProps) {
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const form = useForm<ConsultationRecordFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues,
+  });
+  const diagnoses = useFieldArray({ control: form.control, name: "diagnoses" });
+  const medications = useFieldArray({ control: form.control, name: "medications" });
+
+  // Reopening a token that already has notes edits them instead of starting over
+  useEffect(() => {
+    if (!appointment) return;
+    form.reset(defaultValues);
+    if (!appointment.consultationRecordId) return;
+    getConsultationRecord(db, appointment.id)
+      .then(record => {
+        if (!record) return;
+        form.reset({
+          chiefComplaint: record.chiefComplaint,
+          bloodPressure: record.vitals?.bloodPressure || "",
+          pulse: record.vitals?.pulse?.toString() || "",
+          temperature: record.vitals?.temperature?.toString() || "",
+          weight: record.vitals?.weight?.toString() || "",
+          spo2: record.vitals?.spo2?.toString() || "",
+          diagnoses: record.diagnoses.map(d => ({ code: d.code || "", description: d.description })),
+          medications: record.medications.map(m => ({ ...m, durationDays: String(m.durationDays), instructions: m.instructions || "" })),
+          advice: record.advice || "",
+          followUpDate: record.followUpDate ? format(parse(record.followUpDate, "d MMMM yyyy", new Date()), "yyyy-MM-dd") : "",
+          sendToPatient: false,
+        });
+      })
+      .catch(error => console.error("Error loading consultation record:", error));
+  }, [appointment, form]);
+
+  const onSubmit = (values: ConsultationRecordFormValues) => {
+    if (!appointment) return;
+    startTransition(async () => {
+      try {
+        const record = await saveConsultationRecord(db, appointment, {
+          chiefComplaint: values.chiefComplaint,
+          vitals: {
+            bloodPressure: values.bloodPressure,
+            pulse: toNumber(values.pulse),
+            temperature: toNumber(values.temperature),
+            weight: toNumber(values.weight),
+            spo2: toNumber(values.spo2),
+          },
+          diagnoses: values.diagnoses,
+          medications: values.medications.map(m => ({ ...m, durationDays: Number(m.durationDays) })),
+          advice: values.advice,
+          followUpDate: values.followUpDate ? format(parse(values.followUpDate, "yyyy-MM-dd", new Date()), "d MMMM yyyy") : undefined,
+        }, {
+          actor: getUserActor(user, user?.role),
+          source: "nurse-app",
+        }, user);
+
+        if (values.sendToPatient) {
+          shareConsultationRecord(db, record).catch(error => {
+            console.error("Failed to send prescription to patient:", error);
+          });
+        }
+
+        toast({
+          title: "Prescription Saved",
+          description: values.sendToPatient
+            ? `Sending the prescription to ${appointment.patientName}.`
+            : `Saved the visit notes for ${appointment.patientName}.`,
+        });
+        onOpenChange(false);
+      } catch (error: any) {
+        console.error("Error saving consultation record:", error);
+        toast({ variant: "destructive", title: "Could Not Save", description: error.message });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={!!appointment} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Visit Notes</DialogTitle>
+          <DialogDescription>
+            {appointment?.patientName} · Dr. {appointment?.doctor} · {appointment?.date}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+            <FormField
+              control={form.control}
+              name="chiefComplaint"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Chief Complaint</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="Fever and cough for 3 days" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              {([
+                ["bloodPressure", "BP", "120/80"],
+                ["pulse", "Pulse", "bpm"],
+                ["temperature", "Temp", "°F"],
+                ["weight", "Weight", "kg"],
+                ["spo2", "SpO2", "%"],
+              ] as const).map(([name, label, placeholder]) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input inputMode={name === "bloodPressure" ? "text" : "decimal"} placeholder={placeholder} {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <FormLabel>Diagnosis</FormLabel>
+                <Button type="button" variant="ghost" size="sm" onClick={() => diagnoses.append({ code: "", description: "" })}>
+                  <Plus className="mr-1 h-4 w-4" /> Add
+                </Button>
+              </div>
+              {diagnoses.fields.map((item, index) => (
+                <div key={item.id} className="flex gap-2">
+                  <Input className="w-28" placeholder="ICD-10" {...form.register(`diagnoses.${index}.code`)} />
+                  <Input className="flex-1" placeholder="Description" {...form.register(`diagnoses.${index}.description`)} />
+                  <Button type="button" variant="ghost" size="icon" onClick={() => diagnoses.remove(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <FormLabel>Medications</FormLabel>
+                <Button type="button" variant="ghost" size="sm" onClick={() => medications.append(emptyMedication)}>
+                  <Plus className="mr-1 h-4 w-4" /> Add
+                </Button>
+              </div>
+              {medications.fields.map((item, index) => (
+                <div key={item.id} className="grid grid-cols-12 gap-2 rounded-md border p-2">
+                  <Input className="col-span-12 sm:col-span-4" placeholder="Medicine" {...form.register(`medications.${index}.name`)} />
+                  <Input className="col-span-4 sm:col-span-2" placeholder="Dose" {...form.register(`medications.${index}.dose`)} />
+                  <div className="col-span-5 sm:col-span-3">
+                    <Select
+                      value={form.watch(`medications.${index}.frequency`)}
+                      onValueChange={(value) => form.setValue(`medications.${index}.frequency`, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Frequency" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MEDICATION_FREQUENCIES.map(frequency => (
+                          <SelectItem key={frequency.value} value={frequency.value}>
+                            {frequency.value} ({frequency.label})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input className="col-span-3 sm:col-span-2" inputMode="numeric" placeholder="Days" {...form.register(`medications.${index}.durationDays`)} />
+                  <Button type="button" variant="ghost" size="icon" className="col-span-12 sm:col-span-1 justify-self-end" onClick={() => medications.remove(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                  <Input className="col-span-12" placeholder="Instructions (e.g. after food)" {...form.register(`medications.${index}.instructions`)} />
+                </div>
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="advice"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Advice</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="One point per line" {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="followUpDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Follow-up Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" className="w-48" {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="sendToPatient"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Send the prescription to the patient on WhatsApp</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+                Skip
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,12 +4,13 @@
 import { useState, useMemo, useEffect, useCallback, useTransition } from 'react';
 import type { Appointment, Doctor } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
 import { format, isPast, addMinutes, parse, isAfter, isSameDay, addDays, subDays } from 'date-fns';
 import { Carousel, CarouselContent, CarouselItem } from '@/components/ui/carousel';
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { cn } from '@/lib/utils';
-import { collection, getDocs, query, onSnapshot, doc, updateDoc, Query, where, writeBatch, getDoc, serverTimestamp, runTransaction } from 'firebase/firestore';
+import { collection, getDocs, query, onSnapshot, doc, Query, where, writeBatch, getDoc, serverTimestamp, runTransaction } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
@@ -30,7 +31,8 @@ import {
 import ClinicHeader from './header';
 import AppointmentList from './appointment-list';
 import { useRouter, usePathname } from 'next/navigation';
-import { errorEmitter, compareAppointments, compareAppointmentsClassic, FirestorePermissionError, getClassicTokenCounterId, prepareNextClassicTokenNumber, commitNextClassicTokenNumber } from '@kloqo/shared-core';
+import { errorEmitter, compareAppointments, compareAppointmentsClassic, FirestorePermissionError, getClassicTokenCounterId, prepareNextClassicTokenNumber, commitNextClassicTokenNumber, getUserActor, hasPermission, mutateAppointment, type AppointmentMutationContext } from '@kloqo/shared-core';
+import { ConsultationRecordDialog } from './consultation-record-dialog';
 
 
 export default function ClinicDashboard() {
@@ -47,6 +49,7 @@ export default function ClinicDashboard() {
   const [isPending, startTransition] = useTransition();
   const [currentTime, setCurrentTime] = useState(new Date());
   const [appointmentToAddToQueue, setAppointmentToAddToQueue] = useState<Appointment | null>(null);
+  const [appointmentForNotes, setAppointmentForNotes] = useState<Appointment | null>(null);
   const [isPhoneMode, setIsPhoneMode] = useState(false);
 
   const isAppointmentsPage = pathname === '/appointments';
@@ -54,6 +57,7 @@ export default function ClinicDashboard() {
   const [api, setApi] = useState<any>();
   const [currentMonth, setCurrentMonth] = useState(format(selectedDate || new Date(), 'MMMM yyyy'));
   const { toast } = useToast();
+  const { user } = useAuth();
 
   // Generate a range of dates (90 days before and 275 days after today)
   const dates = useMemo(() => {
@@ -282,7 +286,21 @@ export default function ClinicDashboard() {
           updateData.skippedAt = serverTimestamp();
         }
 
-        await updateDoc(appointmentRef, updateData);
+        const actions: Record<typeof status, AppointmentMutationContext['action']> = {
+          completed: 'completed',
+          Cancelled: 'cancelled',
+          'No-show': 'no_show',
+          Skipped: 'skipped',
+        };
+        await mutateAppointment(db, appointment ?? { id }, updateData, {
+          action: actions[status],
+          actor: getUserActor(user, user?.role),
+          source: 'nurse-app',
+        });
+
+        if (status === 'completed' && appointment && hasPermission(user, 'write_prescription')) {
+          setAppointmentForNotes({ ...appointment, status: 'Completed' });
+        }
 
         // Send notifications to next patients when appointment is completed
         if (status === 'completed' && appointment) {
@@ -567,10 +585,10 @@ export default function ClinicDashboard() {
     if (appointment.isPriority) {
       // Remove priority immediately
       try {
-        await updateDoc(doc(db, 'appointments', appointment.id), {
+        await mutateAppointment(db, appointment, {
           isPriority: false,
           priorityAt: null
-        });
+        }, { action: 'priority_removed', actor: getUserActor(user, user?.role), source: 'nurse-app' });
         toast({ title: "Priority Removed", description: `${appointment.patientName} is no longer priority.` });
       } catch (error) {
         toast({ variant: "destructive", title: "Error", description: "Failed to remove priority." });
@@ -595,10 +613,10 @@ export default function ClinicDashboard() {
   const confirmPrioritize = async () => {
     if (!appointmentToPrioritize) return;
     try {
-      await updateDoc(doc(db, 'appointments', appointmentToPrioritize.id), {
+      await mutateAppointment(db, appointmentToPrioritize, {
         isPriority: true,
         priorityAt: serverTimestamp()
-      });
+      }, { action: 'priority_added', actor: getUserActor(user, user?.role), source: 'nurse-app' });
       toast({ title: "Priority Added", description: `${appointmentToPrioritize.patientName} marked as priority.` });
     } catch (e) {
       toast({ variant: "destructive", title: "Error", description: "Failed to set priority." });
@@ -854,6 +872,10 @@ export default function ClinicDashboard() {
           </Tabs>
         </div>
       </main>
+      <ConsultationRecordDialog
+        appointment={appointmentForNotes}
+        onOpenChange={(open) => !open && setAppointmentForNotes(null)}
+      />
       <AlertDialog open={!!appointmentToAddToQueue && appointmentToAddToQueue.status === 'Pending'} onOpenChange={(open) => !open && setAppointmentToAddToQueue(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { addMonths, addWeeks, format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarCheck, CalendarX, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { db } from "@/lib/firebase";
+import type { Appointment, AppointmentSeries, Doctor } from "@/lib/types";
+import { createAppointmentSeries, describeSeriesConflict, parseClinicDate } from "@kloqo/shared-core";
+
+const INTERVAL_OPTIONS = [1, 2, 3, 4];
+const DURATION_OPTIONS = [1, 2, 3, 6];
+
+type FollowUpSeriesDialogProps = {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  appointment: Appointment;
+  doctor: Doctor;
+};
+
+export function FollowUpSeriesDialog({ isOpen, setIsOpen, appointment, doctor }: FollowUpSeriesDialogProps) {
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+  const [intervalWeeks, setIntervalWeeks] = useState('2');
+  const [durationMonths, setDurationMonths] = useState('3');
+  const [series, setSeries] = useState<AppointmentSeries | null>(null);
+
+  const appointmentDate = parseClinicDate(appointment.date);
+
+  const handleCreate = () => {
+    startTransition(async () => {
+      try {
+        const created = await createAppointmentSeries(db, {
+          clinicId: appointment.clinicId,
+          doctorId: doctor.id,
+          patientId: appointment.patientId,
+          patientName: appointment.patientName,
+          communicationPhone: appointment.communicationPhone,
+          age: appointment.age,
+          sex: appointment.sex,
+          place: appointment.place,
+          startDate: format(addWeeks(appointmentDate, Number(intervalWeeks)), 'd MMMM yyyy'),
+          endDate: format(addMonths(appointmentDate, Number(durationMonths)), 'd MMMM yyyy'),
+          intervalWeeks: Number(intervalWeeks),
+          preferredTime: appointment.time,
+          bookedVia: 'Advanced Booking',
+        });
+        setSeries(created);
+
+        const booked = created.occurrences.filter(o => o.status === 'Booked').length;
+        toast({
+          title: 'Follow-ups Booked',
+          description: `${booked} of ${created.occurrences.length} follow-up appointments booked for ${appointment.patientName}.`,
+        });
+      } catch (error: any) {
+        console.error('Error creating follow-up series:', error);
+        toast({ variant: 'destructive', title: 'Error', description: error?.message || 'Could not book follow-ups.' });
+      }
+    });
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setSeries(null);
+    }
+    setIsOpen(open);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Book Follow-ups</DialogTitle>
+          <DialogDescription>
+            Recurring appointments for {appointment.patientName} with Dr. {doctor.name}, around {appointment.time}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {series ? (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {series.occurrences.map(occurrence => (
+              <div key={occurrence.date} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                <span>{occurrence.date}</span>
+                {occurrence.status === 'Booked' ? (
+                  <span className="flex items-center gap-1 text-green-600">
+                    <CalendarCheck className="h-4 w-4" />
+                    {occurrence.time}
+                  </span>
+                ) : (
+                  <span className="flex items-center gap-1 text-destructive">
+                    <CalendarX className="h-4 w-4" />
+                    {occurrence.conflict ? describeSeriesConflict(occurrence.conflict) : occurrence.status}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Repeat every</Label>
+              <Select value={intervalWeeks} onValueChange={setIntervalWeeks}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INTERVAL_OPTIONS.map(weeks => (
+                    <SelectItem key={weeks} value={String(weeks)}>
+                      {weeks === 1 ? 'Week' : `${weeks} weeks`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>For</Label>
+              <Select value={durationMonths} onValueChange={setDurationMonths}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATION_OPTIONS.map(months => (
+                    <SelectItem key={months} value={String(months)}>
+                      {months === 1 ? '1 month' : `${months} months`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {series ? (
+            <Button type="button" onClick={() => handleOpenChange(false)}>
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button type="button" variant="ghost" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="button" onClick={handleCreate} disabled={isPending}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Book Follow-ups
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
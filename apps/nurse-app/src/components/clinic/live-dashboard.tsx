@@ -2,7 +2,7 @@
 'use client';
 
 import { useState, useMemo, useEffect, useCallback, useRef, useTransition } from 'react';
-import type { Appointment, Doctor } from '@/lib/types';
+import type { Appointment, Doctor, QueueProjection } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import { format, isWithinInterval, addMinutes, parse, isAfter, isBefore } from 'date-fns';
 import { collection, getDocs, query, onSnapshot, doc, updateDoc, where, writeBatch, getDoc, serverTimestamp, runTransaction } from 'firebase/firestore';
@@ -27,7 +27,7 @@ import { useRouter } from 'next/navigation';
 import { errorEmitter } from '@kloqo/shared-core';
 import { FirestorePermissionError } from '@kloqo/shared-core';
 import { parseTime } from '@/lib/utils';
-import { computeQueues, type QueueState, compareAppointments, compareAppointmentsClassic, calculateEstimatedTimes, getCurrentActiveSession, getClassicTokenCounterId, prepareNextClassicTokenNumber, commitNextClassicTokenNumber, sendWhatsAppArrivalConfirmed, sendDoctorRunningLateNotification } from '@kloqo/shared-core';
+import { computeQueues, type QueueState, compareAppointments, compareAppointmentsClassic, QUEUE_PROJECTIONS_COLLECTION, requestQueueProjectionRefresh, getClinicDateString, getClinicNow, getClinicTimeContext, getCurrentActiveSession, getClassicTokenCounterId, prepareNextClassicTokenNumber, commitNextClassicTokenNumber, sendWhatsAppArrivalConfirmed, sendDoctorRunningLateNotification } from '@kloqo/shared-core';
 import { CheckCircle2, Clock } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 
@@ -42,6 +42,7 @@ export default function LiveDashboard() {
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [clinicId, setClinicId] = useState<string | null>(null);
   const [clinicDetails, setClinicDetails] = useState<any>(null);
+  const clinicTimeContext = useMemo(() => getClinicTimeContext(clinicDetails), [clinicDetails]);
   const { toast } = useToast();
   const [currentTime, setCurrentTime] = useState(new Date());
   const [isPending, startTransition] = useTransition();
@@ -170,15 +171,57 @@ export default function LiveDashboard() {
     return confirmed.sort(clinicDetails?.tokenDistribution === 'advanced' ? compareAppointments : compareAppointmentsClassic);
   }, [filteredAppointments, clinicDetails]);
 
-  const arrivedEstimates = useMemo(() => {
-    if (!currentDoctor) return [];
-    return calculateEstimatedTimes(
-      confirmedAppointments,
-      currentDoctor,
-      currentTime,
-      currentDoctor.averageConsultingTime || 15
+  // Keep the server-side queue projection in step with every appointment change
+  useEffect(() => {
+    if (!isOnline || !clinicId || !currentDoctor) return;
+
+    const timer = setTimeout(() => {
+      requestQueueProjectionRefresh(db, {
+        clinicId,
+        doctorId: currentDoctor.id,
+        date: getClinicDateString(getClinicNow(), clinicTimeContext),
+      });
+    }, 1000);
+
+    return () => clearTimeout(timer);
+  }, [appointments, isOnline, clinicId, clinicTimeContext, currentDoctor?.id, currentDoctor?.consultationStatus, currentDoctor?.breakPeriods]);
+
+  // ETAs come from the projection so the dashboard and the patients' live-token page agree
+  const [queueProjections, setQueueProjections] = useState<QueueProjection[]>([]);
+
+  useEffect(() => {
+    if (!isOnline || !clinicId || !selectedDoctor) {
+      setQueueProjections([]);
+      return;
+    }
+
+    const q = query(
+      collection(db, QUEUE_PROJECTIONS_COLLECTION),
+      where('clinicId', '==', clinicId),
+      where('doctorId', '==', selectedDoctor),
+      where('date', '==', getClinicDateString(getClinicNow(), clinicTimeContext))
     );
-  }, [confirmedAppointments, currentDoctor, currentTime]);
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setQueueProjections(snapshot.docs.map(d => d.data() as QueueProjection));
+    }, (error) => {
+      console.error('Error listening to queue projection:', error);
+    });
+
+    return () => unsubscribe();
+  }, [isOnline, clinicId, selectedDoctor, clinicTimeContext]);
+
+  const arrivedEstimates = useMemo(() => {
+    return [...queueProjections]
+      .sort((a, b) => a.sessionIndex - b.sessionIndex)
+      .flatMap(projection => projection.entries)
+      .filter(entry => entry.status === 'Confirmed' && entry.estimatedTime)
+      .map((entry, index) => ({
+        appointmentId: entry.appointmentId,
+        estimatedTime: entry.estimatedTime as string,
+        isFirst: index === 0,
+      }));
+  }, [queueProjections]);
 
   const handleStatusChange = useCallback((newStatus: 'In' | 'Out') => {
     setPendingStatusChange(newStatus);
@@ -300,7 +343,8 @@ export default function LiveDashboard() {
             clinicName: clinicDetails?.name || 'the clinic',
             delayMinutes: currentDoctor.doctorDelayMinutes || 0,
             communicationPhone: appt.communicationPhone,
-            patientName: appt.patientName
+            patientName: appt.patientName,
+            clinicId
           });
           successCount++;
         } catch (e) {
@@ -538,7 +582,8 @@ export default function LiveDashboard() {
               tokenDistribution: clinicDetails?.tokenDistribution,
               classicTokenNumber: finalClassicTokenNumber || appointmentToAddToQueue.classicTokenNumber,
               isWalkIn: false, // Strategy: FREE message since window should be open
-              clinicId: clinicId // FIX: Pass clinicId for marketing tracking
+              clinicId: clinicId, // FIX: Pass clinicId for marketing tracking
+              patientId: appointmentToAddToQueue.patientId
             });
           } catch (e) { console.error("Notify Confirm Error", e); }
         }
@@ -625,7 +670,8 @@ export default function LiveDashboard() {
               tokenDistribution: clinicDetails?.tokenDistribution,
               classicTokenNumber: finalClassicTokenNumber || appointment.classicTokenNumber,
               isWalkIn: false, // Strategy: FREE message
-              clinicId: clinicId // FIX: Pass clinicId for marketing tracking
+              clinicId: clinicId, // FIX: Pass clinicId for marketing tracking
+              patientId: appointment.patientId
             });
           } catch (e) { console.error("Notify Rejoin Error", e); }
         }
@@ -9,7 +9,7 @@ import type { Doctor, TimeSlot } from '@/lib/types';
 import { Loader2, Trash2, Plus, Info, Edit, Save, X, Trash, Clock } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '../ui/button';
-import { FirestorePermissionError } from '@kloqo/shared-core';
+import { FirestorePermissionError, assertNoBranchScheduleConflicts } from '@kloqo/shared-core';
 import { errorEmitter } from '@kloqo/shared-core';
 import { cn } from '@/lib/utils';
 import { Badge } from '../ui/badge';
@@ -213,6 +213,13 @@ export default function AvailabilityManager() {
             .join('; ');
 
         startTransition(async () => {
+            try {
+                await assertNoBranchScheduleConflicts(db, selectedDoctor, newAvailabilitySlots);
+            } catch (error: any) {
+                toast({ variant: "destructive", title: "Schedule Conflict", description: error.message });
+                return;
+            }
+
             const doctorRef = doc(db, "doctors", selectedDoctor.id);
             try {
                 await updateDoc(doctorRef, {
@@ -6,6 +6,7 @@ import { db } from '@/lib/firebase';
 import { useAuth } from '@/contexts/AuthContext';
 import type { Appointment, Doctor } from '@/lib/types';
 import { addMinutes, isAfter, parse, format, subMinutes, differenceInMinutes, isBefore, parseISO, isWithinInterval } from 'date-fns';
+import { applyAppointmentMutation, SYSTEM_ACTOR } from '@kloqo/shared-core';
 
 function parseAppointmentDateTime(dateStr: string, timeStr: string): Date {
   // This format needs to exactly match how dates/times are stored in Firestore
@@ -277,6 +278,13 @@ export function useAppointmentStatusUpdater() {
     const deviceType = UA.includes('mobi') ? 'Mobile' : 'Desktop';
     const deviceTag = `[${deviceId}|${deviceType}]`;
 
+    // Automatic transitions, attributed to this signed-in device
+    const eventContext = {
+      actor: { ...SYSTEM_ACTOR, id: user.uid, name: 'Status updater' },
+      source: 'nurse-app' as const,
+      device: `${deviceId}|${deviceType}`,
+    };
+
     // This function handles both Pending → Skipped and Skipped → No-show transitions
     const checkAndUpdateStatuses = async (appointments: Appointment[]) => {
       if (appointments.length === 0) return;
@@ -343,11 +351,11 @@ export function useAppointmentStatusUpdater() {
             // SAFETY: Only skip if time is up AND doctor is 'In' 
             if (isAfter(now, cutOffTime)) {
               if (doctorStatus === 'In') {
-                batch.update(aptRef, {
+                applyAppointmentMutation(batch, db, { ...freshApt, id: apt.id }, {
                   status: 'Skipped',
                   skippedAt: new Date(),
                   updatedAt: new Date()
-                });
+                }, { ...eventContext, action: 'skipped', reason: `Not arrived by cut-off ${format(cutOffTime, 'hh:mm a')} with the doctor In` });
                 hasWrites = true;
                 console.log(`${deviceTag} [Status-Updater] Auto-Skipped ${freshApt.tokenNumber}: Time exceeded (${format(cutOffTime, 'hh:mm a')}) and Doctor is IN.`);
               } else {
@@ -372,10 +380,10 @@ export function useAppointmentStatusUpdater() {
             // SAFETY: Only move to No-show if doctor is IN
             if (isAfter(now, noShowTime)) {
               if (doctorStatus === 'In') {
-                batch.update(aptRef, {
+                applyAppointmentMutation(batch, db, { ...freshApt, id: apt.id }, {
                   status: 'No-show',
                   updatedAt: new Date()
-                });
+                }, { ...eventContext, action: 'no_show', reason: `Not arrived by no-show time ${format(noShowTime, 'hh:mm a')} with the doctor In` });
                 hasWrites = true;
                 console.log(`${deviceTag} [Status-Updater] Auto-No-Show ${freshApt.tokenNumber}: No-show time exceeded (${format(noShowTime, 'hh:mm a')}) and Doctor is IN.`);
               } else {
@@ -3,6 +3,7 @@ import { auth } from './firebase';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from './firebase';
 import { User } from './types';
+import { setClinicTimeZone } from '@kloqo/shared-core';
 
 export async function loginNurse(email: string, password: string): Promise<User> {
   try {
@@ -20,16 +21,26 @@ export async function loginNurse(email: string, password: string): Promise<User>
     }
 
     if (userData.role !== 'clinicAdmin') {
-      const error = new Error('User does not have clinic admin access');
+      const error = new Error('User does not have clinic staff access');
       error.name = 'AccessDenied';
       throw error;
     }
 
+    if (userData.active === false) {
+      await signOut(auth);
+      const error = new Error('This staff account has been deactivated');
+      error.name = 'AccountDisabled';
+      throw error;
+    }
+
     // Return user with additional data
     return {
       uid: user.uid,
       phone: userData.phone,
       role: userData.role,
+      staffRole: userData.staffRole,
+      doctorId: userData.doctorId,
+      active: userData.active,
       clinicId: userData.clinicId,
       email: userData.email,
       name: userData.name,
@@ -61,10 +72,18 @@ export function onAuthStateChange(callback: (user: User | null) => void) {
         const userData = userDoc.data();
 
         if (userData) {
+          // Dates and times follow the clinic's timezone before any screen renders
+          if (userData.clinicId) {
+            const clinicDoc = await getDoc(doc(db, 'clinics', userData.clinicId));
+            setClinicTimeZone(clinicDoc.data()?.timezone);
+          }
           callback({
             uid: user.uid,
             phone: userData.phone,
             role: userData.role,
+            staffRole: userData.staffRole,
+            doctorId: userData.doctorId,
+            active: userData.active,
             clinicId: userData.clinicId,
             email: userData.email,
             name: userData.name,
@@ -81,6 +100,7 @@ export function onAuthStateChange(callback: (user: User | null) => void) {
         callback(null);
       }
     } else {
+      setClinicTimeZone();
       callback(null);
     }
   });
@@ -0,0 +1,28 @@
+import { signInWithCustomToken } from 'firebase/auth';
+import type { Firestore } from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
+import { getFirebaseAdmin } from '../../../../packages/shared-core/src/utils/firebase-admin';
+
+/**
+ * Server routes and crons use the client SDK, which the Firestore rules only trust
+ * once it is signed in. The server worker is a custom-token account with the
+ * `worker` claim that isServerWorker() checks for.
+ */
+export const SERVER_WORKER_UID = 'kloqo-server-worker';
+
+let signingIn: Promise<unknown> | null = null;
+
+/**
+ * The shared Firestore instance, signed in as the server worker. Server-side only.
+ */
+export async function getServerDb(): Promise<Firestore> {
+    if (auth.currentUser?.uid !== SERVER_WORKER_UID) {
+        signingIn ??= getFirebaseAdmin()
+            .auth()
+            .createCustomToken(SERVER_WORKER_UID, { worker: true })
+            .then(token => signInWithCustomToken(auth, token))
+            .finally(() => { signingIn = null; });
+        await signingIn;
+    }
+    return db;
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleWalkInBooking, WalkInBookingError } from '@kloqo/shared-core';
+import { getServerDb } from '@/lib/server-worker';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,7 +18,8 @@ export async function OPTIONS() {
 export async function POST(request: NextRequest) {
   try {
     const payload = await request.json();
-    const result = await handleWalkInBooking(payload);
+    // Signed in as the server worker, which the rules let write the booking's payment
+    const result = await handleWalkInBooking(payload, await getServerDb());
     return NextResponse.json(result, { headers: corsHeaders });
   } catch (error) {
     const status =
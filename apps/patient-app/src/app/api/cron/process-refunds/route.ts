@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processPendingRefunds } from '@kloqo/shared-core';
+import { getServerDb } from '@/lib/server-worker';
+
+/**
+ * Refund Cron Job
+ * Issues gateway refunds for paid bookings that were cancelled
+ * (payments marked RefundPending when the cancellation notification went out).
+ */
+export async function GET(req: NextRequest) {
+    const authHeader = req.headers.get('authorization');
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret) {
+        console.warn('[Cron Auth] Warning: CRON_SECRET is not set in environment variables.');
+        return NextResponse.json({ error: 'Cron secret not configured' }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${secret}`) {
+        console.error('[Cron Auth] Authentication mismatch');
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const firestore = await getServerDb();
+        const refunded = await processPendingRefunds(firestore);
+        console.log(`[Cron] Refunded ${refunded} payments`);
+        return NextResponse.json({ success: true, refunded });
+    } catch (error: any) {
+        console.error('[Cron] Refund processing failed:', error);
+        return NextResponse.json({ error: error?.message || 'Refund processing failed' }, { status: 500 });
+    }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PATIENT_DOCUMENTS_COLLECTION } from '@kloqo/shared-core';
+import type { PatientDocument } from '@/lib/types';
+import { getAdminFirestore } from '@/lib/firebase-admin';
+import { getCallerPatientIds, getPatientDocumentStorage } from '@/lib/patient-documents-server';
+
+async function loadOwnDocument(request: NextRequest, documentId: string): Promise<PatientDocument | NextResponse> {
+  const caller = await getCallerPatientIds(request);
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const snapshot = await getAdminFirestore().collection(PATIENT_DOCUMENTS_COLLECTION).doc(documentId).get();
+  const document = snapshot.exists ? ({ id: snapshot.id, ...snapshot.data() } as PatientDocument) : null;
+  if (!document || !caller.patientIds.includes(document.patientId)) {
+    return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+  }
+  return document;
+}
+
+/**
+ * GET /api/patient-documents/:documentId
+ * Streams one of the caller's documents.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ documentId: string }> }) {
+  try {
+    const { documentId } = await params;
+    const document = await loadOwnDocument(request, documentId);
+    if (document instanceof NextResponse) return document;
+
+    const contents = await getPatientDocumentStorage().get(document.storagePath);
+    if (!contents) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    return new NextResponse(Buffer.from(contents), {
+      status: 200,
+      headers: {
+        'Content-Type': document.contentType,
+        'Content-Disposition': `inline; filename="${document.fileName.replace(/"/g, '')}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('[Patient Documents API] Download failed:', error);
+    return NextResponse.json({ error: error.message || 'Failed to load document' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/patient-documents/:documentId
+ * Removes the file and its record. Only documents the patient uploaded can be
+ * deleted; clinic uploads stay part of the clinic's record.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ documentId: string }> }) {
+  try {
+    const { documentId } = await params;
+    const document = await loadOwnDocument(request, documentId);
+    if (document instanceof NextResponse) return document;
+    if (document.uploadedBy.type !== 'patient') {
+      return NextResponse.json({ error: 'Documents added by a clinic cannot be deleted' }, { status: 403 });
+    }
+
+    await getPatientDocumentStorage().remove(document.storagePath);
+    await getAdminFirestore().collection(PATIENT_DOCUMENTS_COLLECTION).doc(documentId).delete();
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('[Patient Documents API] Delete failed:', error);
+    return NextResponse.json({ error: error.message || 'Failed to delete document' }, { status: 500 });
+  }
+}
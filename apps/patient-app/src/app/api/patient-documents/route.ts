@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { PATIENT_DOCUMENTS_COLLECTION, storePatientDocument } from '@kloqo/shared-core';
+import type { PatientDocumentKind } from '@/lib/types';
+import { getAdminFirestore } from '@/lib/firebase-admin';
+import { getCallerPatientIds, getPatientDocumentStorage } from '@/lib/patient-documents-server';
+
+/**
+ * POST /api/patient-documents
+ * A patient adds a file to their own vault or a family member's. New uploads
+ * are not shared with any clinic until the patient chooses to.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await getCallerPatientIds(request);
+    if (!caller) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const patientId = (formData.get('patientId') as string | null) || caller.patientIds[0];
+    if (!file) {
+      return NextResponse.json({ error: 'Missing file' }, { status: 400 });
+    }
+    if (!caller.patientIds.includes(patientId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let document;
+    try {
+      document = await storePatientDocument(getPatientDocumentStorage(), {
+        patientId,
+        kind: (formData.get('kind') as PatientDocumentKind) || 'other',
+        title: (formData.get('title') as string) || file.name,
+        fileName: file.name,
+        contentType: file.type,
+        data: new Uint8Array(await file.arrayBuffer()),
+        reportDate: (formData.get('reportDate') as string) || undefined,
+        uploadedBy: { type: 'patient', id: caller.uid },
+      });
+    } catch (validationError: any) {
+      return NextResponse.json({ error: validationError.message }, { status: 400 });
+    }
+
+    await getAdminFirestore().collection(PATIENT_DOCUMENTS_COLLECTION).doc(document.id).set({
+      ...document,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ document });
+  } catch (error: any) {
+    console.error('[Patient Documents API] Upload failed:', error);
+    return NextResponse.json({ error: error.message || 'Failed to upload document' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyPaymentWebhook } from '@kloqo/shared-core';
+import { getServerDb } from '@/lib/server-worker';
+
+/**
+ * Payment Gateway Webhook
+ * Confirms (or fails) the payment intent created for a booking.
+ * The gateway signs the raw body; the signature is checked by the gateway adapter.
+ */
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+  const signature = request.headers.get('x-payment-signature');
+
+  try {
+    const firestore = await getServerDb();
+    const payment = await applyPaymentWebhook(firestore, rawBody, signature);
+    return NextResponse.json({ paymentId: payment.id, status: payment.status });
+  } catch (error: any) {
+    console.error('[Payments Webhook] Failed to apply webhook:', error);
+    const status = error?.message?.includes('signature') ? 401 : 400;
+    return NextResponse.json({ error: error?.message || 'Failed to process webhook' }, { status });
+  }
+}
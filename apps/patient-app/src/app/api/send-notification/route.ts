@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getMessaging } from 'firebase-admin/messaging';
 import { getAdminApp, getAdminFirestore } from '@/lib/firebase-admin';
 import { FieldValue } from 'firebase-admin/firestore';
+import { getPushNotificationContent } from '@kloqo/shared-core';
 
 const app = getAdminApp();
 
@@ -46,12 +47,12 @@ export async function POST(request: NextRequest) {
     let finalTitle = originalTitle;
     let finalBody = originalBody;
 
-    // Handle Malayalam Translation
-    if (language === 'ml') {
-      const mlContent = getMalayalamContent(data?.type, data, originalBody);
-      if (mlContent) {
-        finalTitle = mlContent.title;
-        finalBody = mlContent.body;
+    // Translate into the patient's language; English keeps the sender's text
+    if (language && language !== 'en') {
+      const localizedContent = getPushNotificationContent(language, data);
+      if (localizedContent) {
+        finalTitle = localizedContent.title;
+        finalBody = localizedContent.body;
       }
     }
 
@@ -218,136 +219,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-function getMalayalamContent(type: any, data: any, originalBody: string): { title: string, body: string } | null {
-  if (!data) return null;
-
-  switch (type) {
-    case 'appointment_confirmed':
-      // STRICT LOGIC:
-      // If Classic Clinic:
-      //   - Show ONLY if classicTokenNumber exists.
-      //   - If NO classicTokenNumber, HIDE token.
-
-      let showToken = true;
-      let displayToken = data.tokenNumber;
-
-      if (data.tokenDistribution === 'classic') {
-        if (data.classicTokenNumber) {
-          displayToken = data.classicTokenNumber;
-          showToken = true;
-        } else {
-          showToken = false;
-        }
-      } else {
-        // Advanced or Default: Show if present (and usually starts with A, which we show for Advanced)
-        // Maintain legacy 'A' check just in case, OR prefer strict 'show if present'?
-        // User said "while booking the A token wont get... so dont send". 
-        // But that was for Classic context.
-        // Let's stick to: If Advanced, show it.
-        // Wait, data.tokenNumber coming from service might already be modified?
-        // Service logic: "Advanced: Show token = !!tokenNumber".
-        // Service passes finalTokenNumber in data.tokenNumber.
-        // So here we trust data.tokenNumber unless it's Classic mode where we might want to check classicTokenNumber explicitly.
-
-        // Actually, just consistent logic:
-        showToken = !!data.tokenNumber;
-
-        // To be safe against "A" tokens in Classic context (if data.tokenDistribution is missing for some reason):
-        if (!data.tokenDistribution && data.tokenNumber && data.tokenNumber.toString().startsWith('A')) {
-          // Fallback for legacy calls?
-          // Let's assume data.tokenDistribution is reliable if we passed it.
-        }
-      }
-
-      // Re-apply A-check if we want to be super safe?
-      // "only show the classicTokenNumber for the classic clinics"
-      // My logic above handles this.
-
-      const confirmTokenSuffix = showToken ? ` ടോക്കൺ: ${displayToken}` : '';
-      return {
-        title: 'അപ്പോയിന്റ്മെന്റ് സ്ഥിരീകരിച്ചു',
-        body: `ഡോ. ${data.doctorName}-യുമായുള്ള നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് ${data.date}, ${data.time}-ന് സ്ഥിരീകരിച്ചു.${confirmTokenSuffix}`
-      };
-    case 'token_called':
-      return {
-        title: 'നിങ്ങളുടെ ഊഴമായി!',
-        body: `${data.clinicName}-ൽ ഡോ. ${data.doctorName}-നെ കാണാനുള്ള ടോക്കൺ ${data.tokenNumber} ഇപ്പോൾ വിളിക്കുന്നു. ദയവായി ക്ലിനിക്കിലേക്ക് നീങ്ങുക.`
-      };
-    case 'appointment_cancelled':
-      const isPatient = data.cancelledBy === 'patient';
-      return {
-        title: 'അപ്പോയിന്റ്മെന്റ് റദ്ദാക്കി',
-        body: isPatient
-          ? `ഡോ. ${data.doctorName}-യുമായുള്ള (തീയതി: ${data.date}, സമയം: ${data.time}) അപ്പോയിന്റ്മെന്റ് റദ്ദാക്കിയിരിക്കുന്നു.`
-          : `${data.clinicName}, ഡോ. ${data.doctorName}-യുമായുള്ള (തീയതി: ${data.date}, സമയം: ${data.time}) നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് റദ്ദാക്കി.`
-      };
-    case 'doctor_late':
-      return {
-        title: 'ഡോക്ടർ വൈകുന്നു',
-        body: `${data.clinicName}-ലെ ഡോ. ${data.doctorName} ഏകദേശം ${data.delayMinutes} മിനിറ്റ് വൈകിയാണ് നടക്കുന്നത്.`
-      };
-    case 'appointment_rescheduled':
-      return {
-        title: 'സമയക്രമം മാറ്റി',
-        body: `${data.clinicName}, ഡോ. ${data.doctorName}-യുമായുള്ള അപ്പോയിന്റ്മെന്റ് സമയം മാറ്റിയിരിക്കുന്നു. പുതിയ സമയം: ${data.newTime}.`
-      };
-    case 'appointment_skipped':
-      return {
-        title: 'അപ്പോയിന്റ്മെന്റ് സ്കിപ്പ് ചെയ്തു',
-        body: `കൃത്യസമയത്ത് റിപ്പോർട്ട് ചെയ്യാത്തതിനാൽ ഡോ. ${data.doctorName}-യുമായുള്ള നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് (ടോക്കൺ: ${data.tokenNumber}) സ്കിപ്പ് ചെയ്തിരിക്കുന്നു.`
-      };
-    case 'queue_update':
-      const count = data.peopleAhead;
-      const personText = count === 1 ? 'ഒരാൾ' : `${count} പേർ`;
-      if (count === 0) {
-        return {
-          title: 'നിങ്ങളാണ് അടുത്തത്!',
-          body: `നിങ്ങൾക്ക് മുമ്പിൽ 0 ആളുകൾ. ഡോ. ${data.doctorName}-നെ കാണാൻ നിങ്ങൾക്കാണ് അടുത്ത ഊഴം.`
-        };
-      }
-      return {
-        title: `ക്യൂ അപ്‌ഡേറ്റ്: ${count} പേർ മുന്നിലുണ്ട്`,
-        body: `നിങ്ങൾക്ക് മുമ്പിൽ ${personText} ഉണ്ട്. ഡോ. ${data.doctorName}-നെ കാണാനുള്ള നിങ്ങളുടെ ഊഴം അടുത്തു വരുന്നു.`
-      };
-    case 'doctor_consultation_started':
-      return {
-        title: 'കൺസൾട്ടേഷൻ ആരംഭിച്ചു',
-        body: `ഡോ. ${data.doctorName}, ${data.clinicName}-ൽ കൺസൾട്ടേഷൻ ആരംഭിച്ചു. നിങ്ങളുടെ സമയം: ${data.appointmentTime}.`
-      };
-    case 'consultation_completed':
-      return {
-        title: 'പരിശോധന പൂർത്തിയായി',
-        body: `${data.clinicName} സന്ദർശിച്ചതിന് നന്ദി. ഡോ. ${data.doctorName}-യുമായുള്ള നിങ്ങളുടെ പരിശോധന പൂർത്തിയായി.`
-      };
-    case 'appointment_reminder':
-      let reminderShowToken = true;
-      let reminderDisplayToken = data.tokenNumber;
-
-      if (data.tokenDistribution === 'classic') {
-        if (data.classicTokenNumber) {
-          reminderDisplayToken = data.classicTokenNumber;
-          reminderShowToken = true;
-        } else {
-          reminderShowToken = false;
-        }
-      } else {
-        reminderShowToken = !!data.tokenNumber;
-      }
-
-      const tokenSuffix = reminderShowToken ? ` ടോക്കൺ: ${reminderDisplayToken}` : '';
-      return {
-        title: 'വരാനിരിക്കുന്ന അപ്പോയിന്റ്മെന്റ്',
-        body: `ഡോ. ${data.doctorName}-യുമായുള്ള നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് 2 മണിക്കൂറിനുള്ളിൽ ${data.time}-ന് ആണ്.${tokenSuffix}`
-      };
-    case 'free_followup_expiry':
-      return {
-        title: 'സൗജന്യ പരിശോധന അവസാനിക്കുന്നു',
-        body: `ഡോ. ${data.doctorName}-നെ സൗജന്യമായി കാണാൻ 3 ദിവസങ്ങൾ കൂടി മാത്രം.`
-      };
-    default:
-      return null;
-  }
-}
-
-
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getFirestore, doc, setDoc, getDoc, collection, query, where, getDocs } from 'firebase/firestore/lite';
 import { getServerFirebaseApp } from '@/lib/firebase-server-app';
-import { Patient } from '@/lib/types';
+import { NotificationPreferences, Patient } from '@/lib/types';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -43,6 +43,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
         notificationsEnabled: userData.notificationsEnabled || false,
         notificationPermissionGranted: userData.notificationPermissionGranted || false,
         fcmTokenUpdatedAt: userData.fcmTokenUpdatedAt || null,
+        notificationPreferences: userData.notificationPreferences || null,
       },
       {
         headers: corsHeaders,
@@ -145,6 +146,22 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       }
     }
 
+    // Per-type opt-outs and quiet hours, applied when shared-core decides whether to notify
+    if (payload.notificationPreferences !== undefined) {
+      const preferences: NotificationPreferences = payload.notificationPreferences || {};
+      await setDoc(
+        userRef,
+        {
+          notificationPreferences: {
+            types: preferences.types || {},
+            quietHours: preferences.quietHours || null,
+          },
+          updatedAt: new Date().toISOString(),
+        },
+        { merge: true }
+      );
+    }
+
     return NextResponse.json(
       { success: true },
       {
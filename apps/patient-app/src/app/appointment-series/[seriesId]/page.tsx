@@ -0,0 +1,229 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { addMonths, format } from 'date-fns';
+import { ArrowLeft, CalendarCheck, CalendarX, Loader2 } from 'lucide-react';
+import { cancelAppointmentSeries, describeSeriesConflict, getUserActor, parseClinicDate, updateAppointmentSeries } from '@kloqo/shared-core';
+import { useFirestore } from '@/firebase';
+import { useUser } from '@/firebase/auth/use-user';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { AuthGuard } from '@/components/auth-guard';
+import type { AppointmentSeries } from '@/lib/types';
+
+// Prevent static generation - this page requires Firebase context
+export const dynamic = 'force-dynamic';
+
+const INTERVAL_OPTIONS = [1, 2, 3, 4];
+const DURATION_OPTIONS = [1, 2, 3, 6];
+
+function SeriesPage() {
+    const params = useParams();
+    const firestore = useFirestore();
+    const { user } = useUser();
+    const { toast } = useToast();
+    const seriesId = params.seriesId as string;
+
+    const [series, setSeries] = useState<AppointmentSeries | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [intervalWeeks, setIntervalWeeks] = useState('');
+    const [endDate, setEndDate] = useState('');
+
+    useEffect(() => {
+        if (!firestore || !seriesId) return;
+        const unsubscribe = onSnapshot(doc(firestore, 'appointment-series', seriesId), (snap) => {
+            const data = snap.exists() ? ({ id: snap.id, ...snap.data() } as AppointmentSeries) : null;
+            setSeries(data);
+            if (data) {
+                setIntervalWeeks(String(data.intervalWeeks));
+                setEndDate(data.endDate);
+            }
+            setLoading(false);
+        }, (error) => {
+            console.error('Error fetching appointment series:', error);
+            setLoading(false);
+        });
+        return () => unsubscribe();
+    }, [firestore, seriesId]);
+
+    const endDateOptions = useMemo(() => {
+        if (!series) return [];
+        const options = DURATION_OPTIONS.map(months => format(addMonths(parseClinicDate(series.startDate), months), 'd MMMM yyyy'));
+        return options.includes(series.endDate) ? options : [series.endDate, ...options];
+    }, [series]);
+
+    const hasChanges = !!series && (intervalWeeks !== String(series.intervalWeeks) || endDate !== series.endDate);
+
+    const handleUpdate = async () => {
+        if (!firestore || !series) return;
+        setIsSubmitting(true);
+        try {
+            await updateAppointmentSeries(firestore, series.id, { intervalWeeks: Number(intervalWeeks), endDate }, {
+                actor: getUserActor(user),
+                source: 'patient-app',
+            });
+            toast({ title: 'Follow-ups Updated' });
+        } catch (error: any) {
+            console.error('Error updating appointment series:', error);
+            toast({ variant: 'destructive', title: 'Could not update', description: error?.message || 'Please try again.' });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!firestore || !series) return;
+        setIsSubmitting(true);
+        try {
+            await cancelAppointmentSeries(firestore, series.id, { actor: getUserActor(user), source: 'patient-app' });
+            toast({ title: 'Follow-ups Cancelled', description: 'All upcoming appointments in this series were cancelled.' });
+        } catch (error: any) {
+            console.error('Error cancelling appointment series:', error);
+            toast({ variant: 'destructive', title: 'Could not cancel', description: error?.message || 'Please try again.' });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex h-screen w-full items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex min-h-screen w-full flex-col bg-background">
+            <header className="flex items-center gap-4 p-4 border-b">
+                <Link href="/appointments">
+                    <Button variant="ghost" size="icon">
+                        <ArrowLeft />
+                    </Button>
+                </Link>
+                <h1 className="text-xl font-bold">Follow-up Appointments</h1>
+            </header>
+
+            <main className="flex-1 p-6 space-y-4">
+                {!series ? (
+                    <p className="text-center text-muted-foreground">This series could not be found.</p>
+                ) : (
+                    <>
+                        <Card>
+                            <CardContent className="p-6 space-y-3">
+                                <p className="text-muted-foreground">
+                                    Dr. {series.doctorName} for {series.patientName}, every {series.intervalWeeks === 1 ? 'week' : `${series.intervalWeeks} weeks`} around {series.preferredTime}.
+                                </p>
+                                {series.occurrences.map(occurrence => (
+                                    <div key={occurrence.date} className="flex items-center justify-between rounded-xl border p-3 text-sm">
+                                        <span>{occurrence.date}</span>
+                                        {occurrence.status === 'Booked' ? (
+                                            <Link href={`/live-token/${occurrence.appointmentId}`} className="flex items-center gap-1 text-green-600">
+                                                <CalendarCheck className="h-4 w-4" />
+                                                {occurrence.time}
+                                            </Link>
+                                        ) : (
+                                            <span className="flex items-center gap-1 text-muted-foreground">
+                                                <CalendarX className="h-4 w-4" />
+                                                {occurrence.conflict ? describeSeriesConflict(occurrence.conflict) : occurrence.status}
+                                            </span>
+                                        )}
+                                    </div>
+                                ))}
+                            </CardContent>
+                        </Card>
+
+                        {series.status === 'Active' ? (
+                            <Card>
+                                <CardContent className="p-6 space-y-4">
+                                    <div className="space-y-2">
+                                        <Label>Repeat every</Label>
+                                        <Select value={intervalWeeks} onValueChange={setIntervalWeeks}>
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {INTERVAL_OPTIONS.map(weeks => (
+                                                    <SelectItem key={weeks} value={String(weeks)}>
+                                                        {weeks === 1 ? 'Week' : `${weeks} weeks`}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>Until</Label>
+                                        <Select value={endDate} onValueChange={setEndDate}>
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {endDateOptions.map(date => (
+                                                    <SelectItem key={date} value={date}>{date}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <Button className="w-full" disabled={!hasChanges || isSubmitting} onClick={handleUpdate}>
+                                        {isSubmitting ? <Loader2 className="animate-spin" /> : 'Update follow-ups'}
+                                    </Button>
+                                    <AlertDialog>
+                                        <AlertDialogTrigger asChild>
+                                            <Button variant="outline" className="w-full text-destructive" disabled={isSubmitting}>
+                                                Cancel all follow-ups
+                                            </Button>
+                                        </AlertDialogTrigger>
+                                        <AlertDialogContent>
+                                            <AlertDialogHeader>
+                                                <AlertDialogTitle>Cancel all follow-ups?</AlertDialogTitle>
+                                                <AlertDialogDescription>
+                                                    Every upcoming appointment in this series will be cancelled.
+                                                </AlertDialogDescription>
+                                            </AlertDialogHeader>
+                                            <AlertDialogFooter>
+                                                <AlertDialogCancel>Keep</AlertDialogCancel>
+                                                <AlertDialogAction onClick={handleCancel} className="bg-destructive hover:bg-destructive/90">
+                                                    Cancel all
+                                                </AlertDialogAction>
+                                            </AlertDialogFooter>
+                                        </AlertDialogContent>
+                                    </AlertDialog>
+                                </CardContent>
+                            </Card>
+                        ) : (
+                            <p className="text-center text-muted-foreground">This series has been cancelled.</p>
+                        )}
+                    </>
+                )}
+            </main>
+        </div>
+    );
+}
+
+function SeriesPageWithAuth() {
+    return (
+        <AuthGuard>
+            <SeriesPage />
+        </AuthGuard>
+    );
+}
+
+export default SeriesPageWithAuth;
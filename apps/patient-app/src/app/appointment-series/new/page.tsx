@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+import { addMonths, addWeeks, format } from 'date-fns';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { createAppointmentSeries, parseClinicDate } from '@kloqo/shared-core';
+import { useFirestore } from '@/firebase';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { AuthGuard } from '@/components/auth-guard';
+import type { Appointment } from '@/lib/types';
+
+// Prevent static generation - this page requires Firebase context
+export const dynamic = 'force-dynamic';
+
+const INTERVAL_OPTIONS = [1, 2, 3, 4];
+const DURATION_OPTIONS = [1, 2, 3, 6];
+
+function NewSeriesPage() {
+    const searchParams = useSearchParams();
+    const router = useRouter();
+    const firestore = useFirestore();
+    const { toast } = useToast();
+    const appointmentId = searchParams.get('appointmentId');
+
+    const [appointment, setAppointment] = useState<Appointment | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [intervalWeeks, setIntervalWeeks] = useState('2');
+    const [durationMonths, setDurationMonths] = useState('3');
+
+    useEffect(() => {
+        if (!firestore || !appointmentId) {
+            setLoading(false);
+            return;
+        }
+        getDoc(doc(firestore, 'appointments', appointmentId))
+            .then(snap => setAppointment(snap.exists() ? ({ id: snap.id, ...snap.data() } as Appointment) : null))
+            .catch(error => console.error('Error fetching appointment:', error))
+            .finally(() => setLoading(false));
+    }, [firestore, appointmentId]);
+
+    const handleCreate = async () => {
+        if (!firestore || !appointment) return;
+        setIsSubmitting(true);
+        try {
+            let doctorId = appointment.doctorId;
+            if (!doctorId) {
+                const doctorsSnap = await getDocs(query(
+                    collection(firestore, 'doctors'),
+                    where('clinicId', '==', appointment.clinicId),
+                    where('name', '==', appointment.doctor)
+                ));
+                doctorId = doctorsSnap.docs[0]?.id;
+            }
+            if (!doctorId) {
+                throw new Error('Could not find the doctor for this appointment.');
+            }
+
+            const appointmentDate = parseClinicDate(appointment.date);
+            const series = await createAppointmentSeries(firestore, {
+                clinicId: appointment.clinicId,
+                doctorId,
+                patientId: appointment.patientId,
+                patientName: appointment.patientName,
+                communicationPhone: appointment.communicationPhone,
+                age: appointment.age,
+                sex: appointment.sex,
+                place: appointment.place,
+                startDate: format(addWeeks(appointmentDate, Number(intervalWeeks)), 'd MMMM yyyy'),
+                endDate: format(addMonths(appointmentDate, Number(durationMonths)), 'd MMMM yyyy'),
+                intervalWeeks: Number(intervalWeeks),
+                preferredTime: appointment.time,
+                bookedVia: 'Online',
+            });
+            router.replace(`/appointment-series/${series.id}`);
+        } catch (error: any) {
+            console.error('Error creating follow-up series:', error);
+            toast({ variant: 'destructive', title: 'Could not book follow-ups', description: error?.message || 'Please try again.' });
+            setIsSubmitting(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex h-screen w-full items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex min-h-screen w-full flex-col bg-background">
+            <header className="flex items-center gap-4 p-4 border-b">
+                <Link href="/appointments">
+                    <Button variant="ghost" size="icon">
+                        <ArrowLeft />
+                    </Button>
+                </Link>
+                <h1 className="text-xl font-bold">Book Follow-ups</h1>
+            </header>
+
+            <main className="flex-1 p-6">
+                {!appointment ? (
+                    <p className="text-center text-muted-foreground">This appointment could not be found.</p>
+                ) : (
+                    <Card>
+                        <CardContent className="p-6 space-y-6">
+                            <p className="text-muted-foreground">
+                                Regular appointments with Dr. {appointment.doctor} for {appointment.patientName}, around {appointment.time}.
+                            </p>
+
+                            <div className="space-y-2">
+                                <Label>Repeat every</Label>
+                                <Select value={intervalWeeks} onValueChange={setIntervalWeeks}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {INTERVAL_OPTIONS.map(weeks => (
+                                            <SelectItem key={weeks} value={String(weeks)}>
+                                                {weeks === 1 ? 'Week' : `${weeks} weeks`}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>For</Label>
+                                <Select value={durationMonths} onValueChange={setDurationMonths}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {DURATION_OPTIONS.map(months => (
+                                            <SelectItem key={months} value={String(months)}>
+                                                {months === 1 ? '1 month' : `${months} months`}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            <Button className="w-full" disabled={isSubmitting} onClick={handleCreate}>
+                                {isSubmitting ? <Loader2 className="animate-spin" /> : 'Book follow-ups'}
+                            </Button>
+                        </CardContent>
+                    </Card>
+                )}
+            </main>
+        </div>
+    );
+}
+
+function NewSeriesPageWithAuth() {
+    return (
+        <AuthGuard>
+            <NewSeriesPage />
+        </AuthGuard>
+    );
+}
+
+export default NewSeriesPageWithAuth;
@@ -35,17 +35,17 @@ import { AuthGuard } from '@/components/auth-guard';
 import { LottieAnimation } from '@/components/lottie-animation';
 import emptyStateAnimation from '@/lib/animations/empty-state.json';
 import { useFirestore } from '@/firebase';
-import { doc, updateDoc, getDoc, collection, query, where, getDocs, documentId } from 'firebase/firestore';
+import { doc, getDoc, collection, query, where, getDocs, documentId, serverTimestamp } from 'firebase/firestore';
 
 // Prevent static generation - this page requires Firebase context
 export const dynamic = 'force-dynamic';
 import { useToast } from '@/hooks/use-toast';
 import { errorEmitter } from '@/firebase/error-emitter';
 import { FirestorePermissionError } from '@/firebase/errors';
-import type { Appointment, Doctor, Clinic } from '@/lib/types';
+import type { Appointment, Doctor, Clinic, Language } from '@/lib/types';
 import { sendAppointmentCancelledNotification } from '@/lib/notification-service';
 import nextDynamic from 'next/dynamic';
-import { previewWalkInPlacement, compareAppointments, getClinicNow, getClinicDateString } from '@kloqo/shared-core';
+import { previewWalkInPlacement, compareAppointments, getClinicNow, getClinicDateString, requestWaitlistPromotion, mutateAppointment, getUserActor } from '@kloqo/shared-core';
 import { isSameDay } from 'date-fns';
 
 const ReviewPrompt = nextDynamic(
@@ -73,7 +73,7 @@ const BottomNav = nextDynamic(
 
 
 
-const AppointmentCard = ({ appointment, isHistory = false, user, t, departments, language, onAppointmentCancelled, appointmentsCacheKey, doctor, clinic }: { appointment: Appointment, isHistory?: boolean, user: any, t: any, departments: any[], language: 'en' | 'ml', onAppointmentCancelled?: (appointmentId: string) => void, appointmentsCacheKey?: string | null, doctor?: Doctor | null, clinic?: Clinic }) => {
+const AppointmentCard = ({ appointment, isHistory = false, user, t, departments, language, onAppointmentCancelled, appointmentsCacheKey, doctor, clinic }: { appointment: Appointment, isHistory?: boolean, user: any, t: any, departments: any[], language: Language, onAppointmentCancelled?: (appointmentId: string) => void, appointmentsCacheKey?: string | null, doctor?: Doctor | null, clinic?: Clinic }) => {
     const firestore = useFirestore();
     const { toast } = useToast();
     const router = useRouter();
@@ -118,7 +118,7 @@ const AppointmentCard = ({ appointment, isHistory = false, user, t, departments,
         }
         setIsCancelling(true);
         const appointmentRef = doc(firestore, 'appointments', appointment.id);
-        const updateData = { status: 'Cancelled' };
+        const updateData = { status: 'Cancelled', updatedAt: serverTimestamp() };
 
         // 1. Optimistic UI Update: Update localStorage cache immediately
         if (appointmentsCacheKey && typeof window !== 'undefined') {
@@ -164,7 +164,11 @@ const AppointmentCard = ({ appointment, isHistory = false, user, t, departments,
 
         try {
             // 3. Update Firestore
-            await updateDoc(appointmentRef, updateData).catch(
+            await mutateAppointment(firestore, appointment, updateData, {
+                action: 'cancelled',
+                actor: getUserActor(user),
+                source: 'patient-app',
+            }).catch(
                 async (serverError) => {
                     const permissionError = new FirestorePermissionError({
                         path: appointmentRef.path,
@@ -195,7 +199,17 @@ const AppointmentCard = ({ appointment, isHistory = false, user, t, departments,
                 }
             }
 
-            // 5. Revalidate SWR cache after successful Firestore update to sync with server
+            // 5. Offer the freed slot to the session waitlist
+            if (appointment.doctorId && typeof appointment.sessionIndex === 'number') {
+                requestWaitlistPromotion(firestore, {
+                    clinicId: appointment.clinicId,
+                    doctorId: appointment.doctorId,
+                    date: appointment.date,
+                    sessionIndex: appointment.sessionIndex,
+                });
+            }
+
+            // 6. Revalidate SWR cache after successful Firestore update to sync with server
             if (user?.patientId) {
                 const swrKey = `/api/appointments?patientId=${encodeURIComponent(user.patientId)}`;
                 mutate(swrKey, undefined, { revalidate: true });
@@ -328,6 +342,11 @@ const AppointmentCard = ({ appointment, isHistory = false, user, t, departments,
                                         appointment.status === 'Cancelled' ? (appointment.isRescheduled ? t.appointments.rescheduled : t.appointments.cancelled) :
                                             appointment.status}
                         </span>
+                        {appointment.seriesId && (
+                            <Link href={`/appointment-series/${appointment.seriesId}`} className="text-xs text-primary underline">
+                                Follow-up series
+                            </Link>
+                        )}
                     </div>
                 </div>
                 {!isHistory && appointment.status !== 'Cancelled' && (
@@ -364,16 +383,28 @@ const AppointmentCard = ({ appointment, isHistory = false, user, t, departments,
                         )}
                     </div>
                 )}
-                {appointment.status === 'Completed' && !appointment.reviewed && (
+                {appointment.status === 'Completed' && (!appointment.reviewed || !appointment.seriesId) && (
                     <div className="flex justify-end gap-2 mt-4">
-                        <Button
-                            variant="outline"
-                            className="rounded-full text-yellow-600 border-yellow-600 hover:bg-yellow-50"
-                            onClick={() => setShowReview(true)}
-                        >
-                            <Star className="h-4 w-4 mr-2" />
-                            {t.appointments.reviewDoctor || 'Review Doctor'}
-                        </Button>
+                        {!appointment.seriesId && (
+                            <Button
+                                variant="ghost"
+                                className="rounded-full text-primary"
+                                onClick={() => router.push(`/appointment-series/new?appointmentId=${appointment.id}`)}
+                            >
+                                <Calendar className="h-4 w-4 mr-2" />
+                                Book follow-ups
+                            </Button>
+                        )}
+                        {!appointment.reviewed && (
+                            <Button
+                                variant="outline"
+                                className="rounded-full text-yellow-600 border-yellow-600 hover:bg-yellow-50"
+                                onClick={() => setShowReview(true)}
+                            >
+                                <Star className="h-4 w-4 mr-2" />
+                                {t.appointments.reviewDoctor || 'Review Doctor'}
+                            </Button>
+                        )}
                     </div>
                 )}
                 {showReview && (
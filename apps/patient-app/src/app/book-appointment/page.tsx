@@ -5,7 +5,7 @@ import { Suspense } from 'react';
 import { Button } from '@/components/ui/button';
 import { Calendar as CalendarIcon, ArrowLeft, Loader2 } from 'lucide-react';
 import { format, addMinutes, set, parse, isSameDay, startOfDay, addDays, isBefore, isAfter, subMinutes, differenceInMinutes, differenceInHours, parseISO } from 'date-fns';
-import type { Doctor } from '@/lib/types';
+import type { CapacityPolicy, Doctor } from '@/lib/types';
 import { cn } from '@/lib/utils';
 import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
@@ -13,7 +13,7 @@ import { collection, onSnapshot, query, where, doc, getDoc, Firestore, getDocs }
 import { useFirestore } from '@/firebase';
 import { useLanguage } from '@/contexts/language-context';
 import { parseAppointmentDateTime, parseTime } from '@/lib/utils';
-import { updateAppointmentAndDoctorStatuses, isSlotBlockedByLeave } from '@kloqo/shared-core';
+import { updateAppointmentAndDoctorStatuses, isSlotBlockedByLeave, calculateWalkInReserve, createSessionRatioResolver, setClinicTimeZone } from '@kloqo/shared-core';
 import { useMasterDepartments } from '@/hooks/use-master-departments';
 import { getLocalizedDepartmentName } from '@/lib/department-utils';
 import { formatMonthYear, formatDate, formatDayOfWeek } from '@/lib/date-utils';
@@ -144,6 +144,7 @@ function BookAppointmentContent() {
     const [allAppointments, setAllAppointments] = useState<Appointment[]>([]);
     const [slotsLoading, setSlotsLoading] = useState(true);
     const [clinicId, setClinicId] = useState<string | null>(cachedDoctor?.clinicId || null);
+    const [clinicCapacityPolicy, setClinicCapacityPolicy] = useState<CapacityPolicy | null>(null);
 
     const [dateCarouselApi, setDateCarouselApi] = useState<CarouselApi>()
     const [currentMonth, setCurrentMonth] = useState(formatMonthYear(new Date(), language));
@@ -295,6 +296,25 @@ function BookAppointmentContent() {
         return () => unsubscribe();
     }, [doctor?.name, cachedDoctor?.name, selectedDate, clinicId, clinicIdFromParams, firestore, language]);
 
+    // The clinic's capacity policy sets how many slots each session keeps for walk-ins;
+    // slot times and dates follow the clinic's timezone
+    useEffect(() => {
+        const effectiveClinicId = clinicId || clinicIdFromParams;
+        if (!effectiveClinicId || !firestore) return;
+
+        getDoc(doc(firestore, 'clinics', effectiveClinicId))
+            .then(clinicSnap => {
+                setClinicTimeZone(clinicSnap.data()?.timezone);
+                setClinicCapacityPolicy(clinicSnap.data()?.capacityPolicy ?? null);
+            })
+            .catch(error => console.error('Error fetching clinic capacity policy:', error));
+    }, [clinicId, clinicIdFromParams, firestore]);
+
+    const sessionAdvanceRatio = useMemo(
+        () => createSessionRatioResolver(doctor, selectedDate, clinicCapacityPolicy),
+        [doctor, selectedDate, clinicCapacityPolicy]
+    );
+
 
     const isSlotBooked = useCallback((slot: Date): boolean => {
         return allBookedSlots.includes(slot.getTime());
@@ -373,8 +393,8 @@ function BookAppointmentContent() {
 
         // Calculate maximum advance tokens as sum of 85% capacity from FUTURE slots in each session
         let maximumAdvanceTokens = 0;
-        slotsBySession.forEach(({ slotCount }) => {
-            const sessionMinimumWalkInReserve = slotCount > 0 ? Math.ceil(slotCount * 0.15) : 0;
+        slotsBySession.forEach(({ sessionIndex, slotCount }) => {
+            const sessionMinimumWalkInReserve = calculateWalkInReserve(slotCount, sessionAdvanceRatio(sessionIndex));
             const sessionAdvanceCapacity = Math.max(slotCount - sessionMinimumWalkInReserve, 0);
             maximumAdvanceTokens += sessionAdvanceCapacity;
         });
@@ -444,7 +464,7 @@ function BookAppointmentContent() {
         });
 
         return capacityReached;
-    }, [doctor, selectedDate, allAppointments, currentTime]);
+    }, [doctor, selectedDate, allAppointments, currentTime, sessionAdvanceRatio]);
 
     useEffect(() => {
         if (isAdvanceCapacityReached) {
@@ -528,7 +548,7 @@ function BookAppointmentContent() {
             // Calculate reserved slots based on FUTURE slots only (last 15% of future slots)
             if (futureSessionSlots.length > 0) {
                 const futureSlotCount = futureSessionSlots.length;
-                const sessionMinimumWalkInReserve = Math.ceil(futureSlotCount * 0.15);
+                const sessionMinimumWalkInReserve = calculateWalkInReserve(futureSlotCount, sessionAdvanceRatio(sessionIndex));
                 const reservedWSlotsStart = futureSlotCount - sessionMinimumWalkInReserve;
                 const reservedSlots = new Set<number>();
 
@@ -778,7 +798,7 @@ function BookAppointmentContent() {
             };
         }).filter(session => session.subsessions.length > 0);
 
-    }, [doctor, selectedDate, isSlotBooked, t, language, allAppointments, currentTime, isAdvanceCapacityReached]);
+    }, [doctor, selectedDate, isSlotBooked, t, language, allAppointments, currentTime, isAdvanceCapacityReached, sessionAdvanceRatio]);
 
     // Calculate remaining capacity for display
     const remainingCapacity = useMemo(() => {
@@ -828,8 +848,8 @@ function BookAppointmentContent() {
         });
 
         let maximumAdvanceTokens = 0;
-        slotsBySession.forEach(({ slotCount }) => {
-            const sessionMinimumWalkInReserve = slotCount > 0 ? Math.ceil(slotCount * 0.15) : 0;
+        slotsBySession.forEach(({ sessionIndex, slotCount }) => {
+            const sessionMinimumWalkInReserve = calculateWalkInReserve(slotCount, sessionAdvanceRatio(sessionIndex));
             const sessionAdvanceCapacity = Math.max(slotCount - sessionMinimumWalkInReserve, 0);
             maximumAdvanceTokens += sessionAdvanceCapacity;
         });
@@ -874,7 +894,7 @@ function BookAppointmentContent() {
 
         const activeAdvanceCount = activeAdvanceAppointments.length;
         return Math.max(0, maximumAdvanceTokens - activeAdvanceCount);
-    }, [doctor, selectedDate, allAppointments, currentTime, isAdvanceCapacityReached]);
+    }, [doctor, selectedDate, allAppointments, currentTime, isAdvanceCapacityReached, sessionAdvanceRatio]);
 
 
     const handleProceed = () => {
@@ -1078,7 +1098,7 @@ function BookAppointmentContent() {
             // Calculate reserved slots based on FUTURE slots only (last 15% of future slots)
             if (futureSessionSlots.length > 0) {
                 const futureSlotCount = futureSessionSlots.length;
-                const sessionMinimumWalkInReserve = Math.ceil(futureSlotCount * 0.15);
+                const sessionMinimumWalkInReserve = calculateWalkInReserve(futureSlotCount, sessionAdvanceRatio(sessionIndex));
                 const reservedWSlotsStart = futureSlotCount - sessionMinimumWalkInReserve;
                 const reservedSlots = new Set<number>();
 
@@ -1167,7 +1187,7 @@ function BookAppointmentContent() {
             });
         });
         return total;
-    }, [selectedDate, doctor, isSlotBooked, allAppointments, currentTime, isAdvanceCapacityReached]);
+    }, [selectedDate, doctor, isSlotBooked, allAppointments, currentTime, isAdvanceCapacityReached, sessionAdvanceRatio]);
 
     return (
         <div className="flex min-h-screen w-full flex-col bg-background font-body">
@@ -9,13 +9,14 @@ import Link from 'next/link';
 import { useFirestore } from '@/firebase';
 import { doc, getDoc, addDoc, collection, serverTimestamp, getDocs, query, where, setDoc, updateDoc, deleteDoc, DocumentReference, arrayUnion, increment, runTransaction } from 'firebase/firestore';
 import type { Doctor, Patient, Appointment } from '@/lib/types';
-import { generateNextToken, generateNextTokenAndReserveSlot, getClinicTimeString, getClinicDayOfWeek, getClinicNow, loadDoctorAndSlots, calculatePerSessionReservedSlots, type DailySlot } from '@kloqo/shared-core';
+import { generateNextToken, generateNextTokenAndReserveSlot, joinWaitlist, getClinicTimeString, getClinicDayOfWeek, getClinicNow, getAppointmentDateFields, loadDoctorAndSlots, calculatePerSessionReservedSlots, applyAppointmentMutation, getUserActor, setClinicTimeZone, type DailySlot } from '@kloqo/shared-core';
 
 
 import { Card, CardContent } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { useUser } from '@/firebase/auth/use-user';
 import { errorEmitter } from '@/firebase/error-emitter';
 import { FirestorePermissionError } from '@/firebase/errors';
@@ -180,6 +181,8 @@ function BookingSummaryPage() {
                     const clinicDocRef = doc(firestore, 'clinics', currentDoctor.clinicId);
                     const clinicDoc = await getDoc(clinicDocRef);
                     if (clinicDoc.exists()) {
+                        // Tokens and slot times are worked out on the clinic's clock
+                        setClinicTimeZone(clinicDoc.data().timezone);
                         setClinicData(clinicDoc.data());
                     }
                 }
@@ -215,6 +218,19 @@ function BookingSummaryPage() {
                     const appointmentSnap = await getDoc(appointmentRef);
                     if (appointmentSnap.exists()) {
                         const data = appointmentSnap.data() as Appointment;
+
+                        // Paid online: send the patient on to the gateway checkout, once
+                        if (data.paymentId && data.paymentStatus === 'Pending') {
+                            const paymentSnap = await getDoc(doc(firestore, 'payments', data.paymentId));
+                            const checkoutUrl: string | undefined = paymentSnap.data()?.checkoutUrl;
+                            const redirectKey = `kloqo_checkout_${data.paymentId}`;
+                            if (checkoutUrl && !sessionStorage.getItem(redirectKey)) {
+                                sessionStorage.setItem(redirectKey, '1');
+                                window.location.assign(checkoutUrl);
+                                return;
+                            }
+                        }
+
                         setGeneratedToken(data.tokenNumber);
                         setAppointmentDate(data.date);
                         setAppointmentTime(data.time);
@@ -238,6 +254,43 @@ function BookingSummaryPage() {
 
 
 
+    const handleJoinWaitlist = async (finalDoctor: Doctor, finalPatient: Patient, date: string, sessionIndex: number) => {
+        if (!firestore) return;
+        try {
+            const entry = await joinWaitlist(firestore, {
+                clinicId: finalDoctor.clinicId,
+                doctorId: finalDoctor.id,
+                doctorName: finalDoctor.name,
+                date,
+                sessionIndex,
+                patientId: finalPatient.id,
+                patientName: finalPatient.name,
+                communicationPhone: finalPatient.communicationPhone || finalPatient.phone || user?.phoneNumber || '',
+                age: finalPatient.age,
+                sex: finalPatient.sex,
+                place: finalPatient.place || '',
+            });
+            router.push(`/waitlist/${entry.id}`);
+        } catch (error: any) {
+            console.error('Error joining waitlist:', error);
+            toast({ variant: "destructive", title: t.bookAppointment.error, description: error?.message || t.waitlist.joinFailed });
+        }
+    };
+
+    const showWaitlistToast = (finalDoctor: Doctor, finalPatient: Patient, date: string, sessionIndex: number) => {
+        toast({
+            variant: "destructive",
+            title: t.waitlist.sessionFull,
+            description: t.waitlist.sessionFullDesc,
+            duration: 10000,
+            action: (
+                <ToastAction altText={t.waitlist.join} onClick={() => handleJoinWaitlist(finalDoctor, finalPatient, date, sessionIndex)}>
+                    {t.waitlist.join}
+                </ToastAction>
+            ),
+        });
+    };
+
     const handleConfirmBooking = async () => {
         setHasBookingFailed(false);
         const effectiveDoctor = doctor || cachedDoctor;
@@ -368,6 +421,7 @@ function BookingSummaryPage() {
                     id: newAppointmentRef.id,
                     date: appointmentDateStr,
                     time: actualTime,
+                    ...getAppointmentDateFields(appointmentDateStr, actualTime),
                     slotIndex: actualSlotIndex,
                     sessionIndex: tokenData.sessionIndex,
                     tokenNumber: tokenData.tokenNumber,
@@ -401,12 +455,12 @@ function BookingSummaryPage() {
                         const reservationDoc = await transaction.get(reservationRef);
 
                         // 1. Mark OLD appointment as Cancelled
-                        transaction.update(appointmentRef, {
+                        applyAppointmentMutation(transaction, firestore, { ...existingData, id: appointmentId }, {
                             status: 'Cancelled',
                             cancellationReason: 'Rescheduled',
                             isRescheduled: true,
                             updatedAt: serverTimestamp(),
-                        });
+                        }, { action: 'cancelled', reason: 'Rescheduled', actor: getUserActor(user), source: 'patient-app' });
 
                         // 2. Update OLD reservation or create new booked entry
                         // Note: If Edit mode used same slot, it might still have a reservationId
@@ -750,12 +804,8 @@ function BookingSummaryPage() {
                     setIsSubmitting(false);
                     setHasBookingFailed(true);
                     return;
-                } else if (error.code === 'A_CAPACITY_REACHED') {
-                    toast({
-                        variant: "destructive",
-                        title: "No Slots Available",
-                        description: "Advance booking capacity has been reached for this doctor today. Please choose another day.",
-                    });
+                } else if (error.code === 'A_CAPACITY_REACHED' || error.message?.startsWith('No available slots in session')) {
+                    showWaitlistToast(finalDoctor, finalPatient, appointmentDateStr, sessionIndex);
                     setIsSubmitting(false);
                     return;
                 } else {
@@ -907,6 +957,7 @@ function BookingSummaryPage() {
                 ...baseAppointmentData,
                 // Use times from shared-core (already break-shifted)
                 time: actualTimeString,
+                ...getAppointmentDateFields(baseAppointmentData.date, actualTimeString),
                 arriveByTime: adjustedTimeString,
                 slotIndex: actualSlotIndex,
                 sessionIndex: resolvedSessionIndex,
@@ -1429,7 +1480,7 @@ function BookingSummaryPage() {
                                                         <span className="font-semibold">{(doctor || cachedDoctor)!.consultationFee} {t.bookAppointment.consultationFee}</span>
                                                     </div>
                                                 )}
-                                                <ConvenienceFeeDisplay />
+                                                <ConvenienceFeeDisplay rule={clinicData?.convenienceFee} consultationFee={(doctor || cachedDoctor)!.consultationFee} />
                                             </div>
                                         )}
                                     </>
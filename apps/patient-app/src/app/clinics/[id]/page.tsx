@@ -11,7 +11,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ArrowLeft, MapPin, Building2, Clock, Users } from 'lucide-react';
-import type { Clinic, Doctor } from '@/lib/types';
+import type { Clinic, Doctor, Language } from '@/lib/types';
 import { useLanguage } from '@/contexts/language-context';
 import { useMasterDepartments } from '@/hooks/use-master-departments';
 import { getLocalizedDepartmentName } from '@/lib/department-utils';
@@ -36,7 +36,7 @@ function DoctorSkeleton() {
     );
 }
 
-function DoctorCard({ doctor, t, departments, language }: { doctor: Doctor; t: any; departments: any[]; language: 'en' | 'ml' }) {
+function DoctorCard({ doctor, t, departments, language }: { doctor: Doctor; t: any; departments: any[]; language: Language }) {
     const router = useRouter();
 
     const handleBookAppointment = () => {
@@ -3,7 +3,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { collection, query, where, onSnapshot, doc, getDoc, updateDoc, getDocs, serverTimestamp, Timestamp, limit, runTransaction } from 'firebase/firestore';
-import { compareAppointments, getClinicNow, getClinicDayOfWeek, getClinicDateString, getClassicTokenCounterId, prepareNextClassicTokenNumber, commitNextClassicTokenNumber } from '@kloqo/shared-core';
+import { compareAppointments, getClinicNow, getClinicDayOfWeek, getClinicDateString, getClassicTokenCounterId, prepareNextClassicTokenNumber, commitNextClassicTokenNumber, setClinicTimeZone } from '@kloqo/shared-core';
 import { format, parse, subMinutes, addMinutes, isBefore, isAfter, differenceInMinutes } from 'date-fns';
 import { getArriveByTime, getArriveByTimeFromAppointment, getActualAppointmentTime, parseTime } from '@/lib/utils';
 import { Loader2, MapPin, CheckCircle2, Clock, AlertCircle, UserPlus, ChevronDown, ChevronUp } from 'lucide-react';
@@ -217,6 +217,7 @@ function ConfirmArrivalPage() {
     const clinicRef = doc(firestore, 'clinics', clinicId);
     const unsubscribe = onSnapshot(clinicRef, (snapshot) => {
       if (snapshot.exists()) {
+        setClinicTimeZone(snapshot.data().timezone);
         setClinic({ id: snapshot.id, ...snapshot.data() } as Clinic);
       }
     });
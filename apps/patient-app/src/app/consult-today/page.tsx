@@ -26,7 +26,7 @@ import { doc, getDoc, collection, query, where, getDocs } from 'firebase/firesto
 const loadQRScanner = () => import('html5-qrcode').then(module => module.Html5Qrcode);
 import { format, addMinutes, isBefore, isAfter, subMinutes, isWithinInterval, set, differenceInMinutes } from 'date-fns';
 import { parseTime } from '@/lib/utils';
-import { getSessionEnd, getClinicNow, getClinicDayOfWeek, getClinicDateString } from '@kloqo/shared-core';
+import { getSessionEnd, getClinicNow, getClinicDayOfWeek, getClinicDateString, setClinicTimeZone } from '@kloqo/shared-core';
 import { BottomNav } from '@/components/bottom-nav';
 import { FullScreenLoader } from '@/components/full-screen-loader';
 
@@ -214,6 +214,8 @@ function ConsultTodayContent() {
 
                 if (clinicSnap.exists()) {
                     const clinicData = clinicSnap.data();
+                    // "Today" and session times are the clinic's, not the phone's
+                    setClinicTimeZone(clinicData.timezone);
                     setClinic({
                         id: clinicSnap.id,
                         name: clinicData.name || '',
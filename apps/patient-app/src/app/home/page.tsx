@@ -109,7 +109,7 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { useUser } from '@/firebase/auth/use-user';
 import { AuthGuard } from '@/components/auth-guard';
 import { useLanguage } from '@/contexts/language-context';
-import type { Doctor, Appointment, Clinic } from '@/lib/types';
+import type { Doctor, Appointment, Clinic, Language } from '@/lib/types';
 import { formatDayOfWeek, formatDate } from '@/lib/date-utils';
 import { useMasterDepartments } from '@/hooks/use-master-departments';
 import { getLocalizedDepartmentName } from '@/lib/department-utils';
@@ -149,7 +149,7 @@ import { NotificationHistory } from '@/components/notification-history';
 export const dynamic = 'force-dynamic';
 
 
-const WalkInCard = ({ appointment, allClinicAppointments, userDoctors, t, departments, language, clinics }: { appointment: Appointment, allClinicAppointments: Appointment[], userDoctors: Doctor[], t: any, departments: any[], language: 'en' | 'ml', clinics: Clinic[] }) => {
+const WalkInCard = ({ appointment, allClinicAppointments, userDoctors, t, departments, language, clinics }: { appointment: Appointment, allClinicAppointments: Appointment[], userDoctors: Doctor[], t: any, departments: any[], language: Language, clinics: Clinic[] }) => {
     const clinic = clinics.find(c => c.id === appointment.clinicId);
     const isClassic = clinic?.tokenDistribution === 'classic';
 
@@ -194,7 +194,7 @@ const WalkInCard = ({ appointment, allClinicAppointments, userDoctors, t, depart
     )
 }
 
-const AppointmentCard = ({ appointment, departments, language, doctors, t, clinics }: { appointment: Appointment, departments: any[], language: 'en' | 'ml', doctors: Doctor[], t: any, clinics: Clinic[] }) => {
+const AppointmentCard = ({ appointment, departments, language, doctors, t, clinics }: { appointment: Appointment, departments: any[], language: Language, doctors: Doctor[], t: any, clinics: Clinic[] }) => {
     const clinic = clinics.find(c => c.id === appointment.clinicId);
     const isClassic = clinic?.tokenDistribution === 'classic';
 
@@ -243,7 +243,7 @@ const AppointmentCard = ({ appointment, departments, language, doctors, t, clini
     );
 };
 
-const AppointmentCarousel = ({ appointments, departments, language, doctors, t, clinics }: { appointments: Appointment[], departments: any[], language: 'en' | 'ml', doctors: Doctor[], t: any, clinics: Clinic[] }) => {
+const AppointmentCarousel = ({ appointments, departments, language, doctors, t, clinics }: { appointments: Appointment[], departments: any[], language: Language, doctors: Doctor[], t: any, clinics: Clinic[] }) => {
     if (appointments.length === 0) {
         return null;
     }
@@ -271,7 +271,7 @@ const AppointmentCarousel = ({ appointments, departments, language, doctors, t,
 }
 
 
-const DoctorCard = ({ doctor, departments, language }: { doctor: Doctor, departments: any[], language: 'en' | 'ml' }) => {
+const DoctorCard = ({ doctor, departments, language }: { doctor: Doctor, departments: any[], language: Language }) => {
     const status = doctor.consultationStatus || 'Out';
     const isAvailable = status === 'In';
 
@@ -23,8 +23,8 @@ import {
 import { useDoctors } from '@/firebase/firestore/use-doctors';
 import { parseAppointmentDateTime, parseTime, getArriveByTime, getArriveByTimeFromAppointment, getActualAppointmentTime, buildBreakIntervals } from '@/lib/utils';
 import { formatDate } from '@/lib/date-utils';
-import type { Appointment, Doctor, Clinic } from '@/lib/types';
-import { collection, query, where, onSnapshot, DocumentData, QuerySnapshot, doc, updateDoc, getDoc, getDocs, serverTimestamp, runTransaction } from 'firebase/firestore';
+import type { Appointment, Doctor, Clinic, Language, QueueProjection, QueueProjectionEntry } from '@/lib/types';
+import { collection, query, where, onSnapshot, doc, getDoc, getDocs, serverTimestamp, runTransaction } from 'firebase/firestore';
 import { useFirestore } from '@/firebase';
 import { BottomNav } from '@/components/bottom-nav';
 import { AuthGuard } from '@/components/auth-guard';
@@ -35,7 +35,7 @@ import { useLanguage } from '@/contexts/language-context';
 import { useMasterDepartments } from '@/hooks/use-master-departments';
 import { getLocalizedDepartmentName } from '@/lib/department-utils';
 import { Skeleton } from '@/components/ui/skeleton';
-import { computeQueues, type QueueState, compareAppointments, compareAppointmentsClassic, getClinicNow, getClinicDateString, calculateEstimatedTimes, getClassicTokenCounterId, prepareNextClassicTokenNumber, commitNextClassicTokenNumber } from '@kloqo/shared-core';
+import { QUEUE_PROJECTIONS_COLLECTION, getQueueProjectionId, getPatientsAhead, getClassicTokenCounterId, prepareNextClassicTokenNumber, commitNextClassicTokenNumber, buildCheckInCode, buildQrCodeSvg, mutateAppointment, getUserActor } from '@kloqo/shared-core';
 
 function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number) {
     const R = 6371e3;
@@ -51,33 +51,34 @@ function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: numbe
 }
 
 function calculateDelayForAppointments(
-    appointments: Appointment[],
-    currentTokenAppointment: Appointment,
+    entries: QueueProjectionEntry[],
+    currentEntry: QueueProjectionEntry,
+    date: string,
     avgConsultingTime: number,
     currentTime: Date
 ): Map<string, number> {
     const delayMap = new Map<string, number>();
 
-    if (!currentTokenAppointment || appointments.length === 0) {
+    if (!currentEntry || entries.length === 0) {
         return delayMap;
     }
 
-    const currentIndex = appointments.findIndex(apt => apt.id === currentTokenAppointment.id);
+    const currentIndex = entries.findIndex(entry => entry.appointmentId === currentEntry.appointmentId);
     if (currentIndex === -1) return delayMap;
 
     try {
-        const scheduledTime = parseAppointmentDateTime(currentTokenAppointment.date, currentTokenAppointment.time);
+        const scheduledTime = parseAppointmentDateTime(date, currentEntry.time);
         const currentDelay = Math.max(0, differenceInMinutes(currentTime, scheduledTime));
 
-        delayMap.set(currentTokenAppointment.id, 0);
+        delayMap.set(currentEntry.appointmentId, 0);
         let accumulatedDelay = currentDelay;
 
-        for (let i = currentIndex + 1; i < appointments.length; i++) {
-            const appointment = appointments[i];
-            const prevAppointment = appointments[i - 1];
+        for (let i = currentIndex + 1; i < entries.length; i++) {
+            const entry = entries[i];
+            const prevEntry = entries[i - 1];
 
-            const currentScheduledTime = parseAppointmentDateTime(appointment.date, appointment.time);
-            const prevScheduledTime = parseAppointmentDateTime(prevAppointment.date, prevAppointment.time);
+            const currentScheduledTime = parseAppointmentDateTime(date, entry.time);
+            const prevScheduledTime = parseAppointmentDateTime(date, prevEntry.time);
             const gapBetweenSlots = differenceInMinutes(currentScheduledTime, prevScheduledTime);
 
             if (gapBetweenSlots > avgConsultingTime) {
@@ -85,7 +86,7 @@ function calculateDelayForAppointments(
                 accumulatedDelay = Math.max(0, accumulatedDelay - absorbedDelay);
             }
 
-            delayMap.set(appointment.id, Math.round(accumulatedDelay));
+            delayMap.set(entry.appointmentId, Math.round(accumulatedDelay));
         }
     } catch (error) {
         console.error('Error calculating delays:', error);
@@ -103,9 +104,10 @@ function getReportByTimeLabel(appointment: Appointment | null, doctor?: Doctor |
     }
 }
 
-const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors, currentTime, t, departments, language, onAppointmentConfirmed }: { yourAppointment: Appointment, allTodaysAppointments: Appointment[], doctors: Doctor[], currentTime: Date, t: any, departments: any[], language: 'en' | 'ml', onAppointmentConfirmed?: (appointmentId: string) => void }) => {
+const AppointmentStatusCard = ({ yourAppointment, doctors, currentTime, t, departments, language, onAppointmentConfirmed }: { yourAppointment: Appointment, doctors: Doctor[], currentTime: Date, t: any, departments: any[], language: Language, onAppointmentConfirmed?: (appointmentId: string) => void }) => {
     const firestore = useFirestore();
     const router = useRouter();
+    const { user } = useUser();
 
     const reportingLabel = language === 'ml'
         ? 'ക്ലിനിക്കിൽ റിപ്പോർട്ട് ചെയ്യേണ്ട സമയം'
@@ -138,8 +140,21 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
         return yourAppointment?.sessionIndex ?? 0;
     }, [yourAppointment]);
 
-    // Queue state using standardized queue management service
-    const [queueState, setQueueState] = useState<QueueState | null>(null);
+    // Queue projection maintained server-side for this doctor/session (see queue-projection-service)
+    const [queueProjection, setQueueProjection] = useState<QueueProjection | null>(null);
+
+    useEffect(() => {
+        if (!yourAppointment?.date || !doctorId || !clinicId || !firestore) return;
+
+        const projectionRef = doc(firestore, QUEUE_PROJECTIONS_COLLECTION, getQueueProjectionId(clinicId, doctorId, yourAppointment.date, sessionIndex));
+        const unsubscribe = onSnapshot(projectionRef, (docSnap) => {
+            setQueueProjection(docSnap.exists() ? (docSnap.data() as QueueProjection) : null);
+        }, (error) => {
+            console.error("Error listening to queue projection:", error);
+        });
+
+        return () => unsubscribe();
+    }, [yourAppointment?.date, doctorId, clinicId, sessionIndex, firestore]);
 
     // Live Doctor Status Listener (Surgical Fix)
     const [liveDoctor, setLiveDoctor] = useState<Doctor | null>(null);
@@ -171,22 +186,13 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
         }
     }, [yourAppointment]);
 
-    // Filter breaks to exclude cancelled ones (cancelledByBreak && status: Cancelled)
+    // Breaks for the day; the projection already leaves out cancelled ones (cancelledByBreak && status: Cancelled)
     const validBreaks = useMemo(() => {
+        if (queueProjection) return queueProjection.breaks;
         if (!currentDoctor?.breakPeriods || !yourAppointment) return [];
         const dateKey = format(appointmentDate, 'd MMMM yyyy');
-        const breaks = currentDoctor.breakPeriods[dateKey] || [];
-
-        return breaks.filter((bp: any) => {
-            // A break is cancelled if there's an appointment with status 'Cancelled' AND cancelledByBreak === true
-            const isCancelled = allTodaysAppointments.some(appt =>
-                appt.status === 'Cancelled' &&
-                appt.cancelledByBreak === true &&
-                (appt.time === bp.startTimeFormatted || appt.id === bp.id)
-            );
-            return !isCancelled;
-        });
-    }, [currentDoctor?.breakPeriods, yourAppointment, appointmentDate, allTodaysAppointments]);
+        return currentDoctor.breakPeriods[dateKey] || [];
+    }, [queueProjection, currentDoctor?.breakPeriods, yourAppointment, appointmentDate]);
 
     const doctorStatusInfo = useMemo(() => {
         if (!yourAppointment || !currentDoctor?.availabilitySlots) {
@@ -286,212 +292,14 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
         fetchClinicData();
     }, [clinicId, firestore]);
 
-    useEffect(() => {
-        if (!yourAppointment || !doctorId || !clinicId || !currentDoctor || !firestore) return;
-
-        const computeQueueState = async () => {
-            try {
-                const state = await computeQueues(
-                    allTodaysAppointments,
-                    yourAppointment.doctor,
-                    doctorId,
-                    clinicId,
-                    yourAppointment.date,
-                    sessionIndex,
-                    currentDoctor.consultationStatus,
-                    clinicData?.tokenDistribution === 'advanced' ? 'advanced' : 'classic'
-                );
-                setQueueState(state);
-            } catch (error) {
-                console.error('Error computing queues:', error);
-                // Fallback to empty state
-                setQueueState({
-                    arrivedQueue: [],
-                    bufferQueue: [],
-                    skippedQueue: [],
-                    currentConsultation: null,
-                    consultationCount: 0,
-                    nextBreakDuration: null,
-                });
-            }
-        };
-
-        computeQueueState();
-    }, [allTodaysAppointments, yourAppointment, doctorId, clinicId, sessionIndex, firestore, currentDoctor, clinicData]);
+    // Ordered queue (Pending, Confirmed and rejoining Skipped) from the projection
+    const masterQueue = useMemo(() => queueProjection?.entries ?? [], [queueProjection]);
 
     const arrivedEstimates = useMemo(() => {
-        if (!currentDoctor || !queueState?.arrivedQueue) return [];
-
-        // For Classic, we strictly focus on Arrived (Confirmed) people
-        // We use a virtual doctor with validBreaks to exclude cancelled breaks
-        const virtualDoctor = {
-            ...currentDoctor,
-            breakPeriods: {
-                ...currentDoctor.breakPeriods,
-                [format(appointmentDate, 'd MMMM yyyy')]: validBreaks
-            }
-        };
-
-        return calculateEstimatedTimes(
-            queueState.arrivedQueue,
-            virtualDoctor,
-            currentTime,
-            currentDoctor.averageConsultingTime || 15
-        );
-    }, [queueState?.arrivedQueue, currentDoctor, currentTime, validBreaks, appointmentDate]);
-
-    // Helper function to parse appointment time
-    const parseAppointmentTime = useCallback((apt: Appointment): Date => {
-        try {
-            const appointmentDate = parse(apt.date, 'd MMMM yyyy', new Date());
-            return parseTime(apt.time, appointmentDate);
-        } catch {
-            return new Date(0); // Fallback for invalid dates
-        }
-    }, []);
-
-    // Simulate where a skipped appointment would be placed if it rejoined now
-    // Simulate where a skipped appointment would be placed if it rejoined now
-    const simulateSkippedRejoinTime = useCallback((skippedAppointment: Appointment): Date | null => {
-        try {
-            if (!skippedAppointment.time || !skippedAppointment.noShowTime) return null;
-
-            const now = new Date(); // In actual use, this would be when they rejoin
-            const appointmentDate = parse(skippedAppointment.date, 'd MMMM yyyy', new Date());
-            const scheduledTime = parseTime(skippedAppointment.time, appointmentDate);
-
-            // Handle noShowTime as Firestore Timestamp or Date
-            let noShowDate: Date;
-            if ((skippedAppointment.noShowTime as any)?.toDate) {
-                noShowDate = (skippedAppointment.noShowTime as any).toDate();
-            } else {
-                noShowDate = new Date(skippedAppointment.noShowTime as any);
-            }
-
-            if (isAfter(now, scheduledTime)) {
-                // Current time past the 'time' -> noShowTime + 15 minutes
-                return addMinutes(noShowDate, 15);
-            } else {
-                // Current time didn't pass 'time' -> noShowTime
-                return noShowDate;
-            }
-        } catch (error) {
-            console.error('Error simulating skipped rejoin time:', error);
-            return null;
-        }
-    }, []);
-
-    // Build simulated queue that includes Pending, Confirmed, and Skipped (if they would rejoin before you)
-    const simulatedQueue = useMemo(() => {
-        if (!yourAppointment || !allTodaysAppointments || !clinicData) {
-            // Fallback to current masterQueue if data not ready
-            return queueState?.arrivedQueue || [];
-        }
-
-
-        // Get all appointments for this doctor and date (including your appointment)
-        const relevantAppointments = allTodaysAppointments.filter(apt =>
-            apt.doctor === yourAppointment.doctor &&
-            apt.date === yourAppointment.date &&
-            apt.status !== 'Cancelled' &&
-            apt.status !== 'No-show'
-            // Include your appointment so we can find its position in the queue
-        );
-
-        // Get Pending and Confirmed appointments (these are at their current positions)
-        const pendingAndConfirmed = relevantAppointments.filter(apt =>
-            apt.status === 'Pending' || apt.status === 'Confirmed'
-        );
-
-        // Get Skipped appointments (excluding your appointment if you're skipped, since we handle you separately)
-        const skippedAppointments = relevantAppointments.filter(apt =>
-            apt.status === 'Skipped' && apt.id !== yourAppointment.id
-        );
-
-        // For each skipped appointment, simulate where it would be placed if it rejoined now
-        const simulatedSkippedAppointments: Array<{ appointment: Appointment; simulatedTime: Date }> = [];
-        for (const skipped of skippedAppointments) {
-            const simulatedTime = simulateSkippedRejoinTime(skipped);
-            if (simulatedTime) {
-                // Create a temporary appointment object with the simulated time for sorting
-                const simulatedApt = {
-                    ...skipped,
-                    time: format(simulatedTime, 'hh:mm a')
-                };
-                simulatedSkippedAppointments.push({ appointment: simulatedApt, simulatedTime });
-            }
-        }
-
-        // Get your appointment's time for comparison
-        const yourAppointmentTime = parseAppointmentTime(yourAppointment);
-
-        const yourNaturalIndex = pendingAndConfirmed.findIndex(a => a.id === yourAppointment.id);
-        const isTopPosition = yourNaturalIndex !== -1 && yourNaturalIndex <= 1; // 1st or 2nd position (0 or 1)
-
-        // Build the complete queue: pending/confirmed + skipped (only if they would be before you)
-        const queue: Array<{ appointment: Appointment; queueTime: Date }> = [];
-
-        // Add Pending and Confirmed appointments at their current time
-        for (const apt of pendingAndConfirmed) {
-            // If in top 2 positions, exclude other Pending tokens from the count
-            // This ensures stability once you are "Next" or "Current"
-            if (isTopPosition && apt.status === 'Pending' && apt.id !== yourAppointment.id) {
-                continue;
-            }
-            const aptTime = parseAppointmentTime(apt);
-            queue.push({ appointment: apt, queueTime: aptTime });
-        }
-
-        // Add Skipped appointments only if they would be placed before your appointment
-        // AND we are NOT in the top 2 positions
-        if (!isTopPosition) {
-            for (const { appointment, simulatedTime } of simulatedSkippedAppointments) {
-                if (simulatedTime.getTime() < yourAppointmentTime.getTime()) {
-                    queue.push({ appointment, queueTime: simulatedTime });
-                }
-            }
-        }
-
-        // Sort using shared logic
-        queue.sort((a, b) => (clinicData?.tokenDistribution === 'classic' ? compareAppointmentsClassic(a.appointment, b.appointment) : compareAppointments(a.appointment, b.appointment)));
-
-        // Return just the appointments in order
-        return queue.map(item => item.appointment);
-    }, [yourAppointment, allTodaysAppointments, clinicData, parseAppointmentTime, simulateSkippedRejoinTime, queueState]);
-
-    // 1. Master queue is the simulated queue (includes Pending, Confirmed, and Skipped if they would rejoin before you)
-    const masterQueue = useMemo(() => {
-        // Use simulated queue if we have all necessary data, otherwise fallback to arrivedQueue
-        if (simulatedQueue.length > 0 || (clinicData && yourAppointment)) {
-            return simulatedQueue;
-        }
-        // Fallback to current behavior if data not ready
-        if (queueState) {
-            return queueState.arrivedQueue;
-        }
-        return [];
-    }, [simulatedQueue, queueState, clinicData, yourAppointment]);
-
-    // All tokens for this doctor today (sorted by time)
-    const doctorAppointmentsToday = useMemo(() => {
-        if (!yourAppointment) return [];
-        return allTodaysAppointments
-            .filter(apt =>
-                apt.doctor === yourAppointment.doctor &&
-                apt.date === yourAppointment.date &&
-                apt.status !== 'Cancelled' &&
-                apt.status !== 'No-show' &&
-                apt.status !== 'Completed'
-            )
-            .sort(clinicData?.tokenDistribution === 'classic' ? compareAppointmentsClassic : compareAppointments);
-    }, [allTodaysAppointments, yourAppointment, clinicData]);
-
-    // Check if your appointment is in buffer queue
-    const isInBufferQueue = useMemo(() => {
-        if (!queueState || !yourAppointment) return false;
-        return queueState.bufferQueue.some(apt => apt.id === yourAppointment.id);
-
-    }, [queueState, yourAppointment]);
+        return masterQueue
+            .filter(entry => entry.status === 'Confirmed' && entry.estimatedTime)
+            .map((entry, index) => ({ appointmentId: entry.appointmentId, estimatedTime: entry.estimatedTime as string, isFirst: index === 0 }));
+    }, [masterQueue]);
 
     // Calculate cutoff time for display: use original cutOffTime + doctorDelayMinutes
     // Status transitions use original cutOffTime (never delayed), but we show delayed time to user
@@ -529,44 +337,18 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
     }, [yourAppointment]);
 
 
-    // 2. The current token is always the first in the master queue
-    const currentTokenAppointment = useMemo(() => masterQueue[0] || null, [masterQueue]);
+    // The current token is the first arrived patient in the projection
+    const currentTokenAppointment = useMemo(() => {
+        if (!queueProjection?.currentAppointmentId) return null;
+        return masterQueue.find(entry => entry.appointmentId === queueProjection.currentAppointmentId) || null;
+    }, [masterQueue, queueProjection]);
 
-    // 3. Patients ahead is your index in the master queue
     const patientsAhead = useMemo(() => {
         if (!yourAppointment) return 0;
+        return getPatientsAhead(queueProjection, yourAppointment.id);
+    }, [yourAppointment, queueProjection]);
 
-        // For Classic distribution, count ONLY arrived (Confirmed) patients
-        if (clinicData?.tokenDistribution === 'classic') {
-            const confirmedAppointments = doctorAppointmentsToday.filter(a => a.status === 'Confirmed');
-            const yourIndex = confirmedAppointments.findIndex(a => a.id === yourAppointment.id);
-
-            // If you are Confirmed, show your position in confirmed queue
-            if (yourIndex !== -1) return yourIndex;
-
-            // If you are Pending, how many are already ahead of you in the confirmed queue?
-            return confirmedAppointments.filter(a => a.id !== yourAppointment.id).length;
-        }
-
-        const yourIndex = masterQueue.findIndex(a => a.id === yourAppointment.id);
-        // If you are not in the queue, show 0 (shouldn't happen if you're Pending or Confirmed)
-        if (yourIndex === -1) return 0;
-        return yourIndex;
-    }, [yourAppointment, masterQueue, clinicData, doctorAppointmentsToday]);
-
-
-    const estimatedDelay = useMemo(() => {
-        if (!currentTokenAppointment) return 0;
-        try {
-            const appointmentTime = parseAppointmentDateTime(currentTokenAppointment.date, currentTokenAppointment.time);
-            const diff = differenceInMinutes(currentTime, appointmentTime);
-            return Math.max(0, diff);
-        } catch {
-            return 0;
-        }
-    }, [currentTokenAppointment, currentTime]);
-
-    const isYourTurn = yourAppointment?.id === currentTokenAppointment?.id;
+    const isYourTurn = !!yourAppointment && yourAppointment.id === currentTokenAppointment?.appointmentId;
 
     // Calculate days until appointment
     const daysUntilAppointment = useMemo(() => {
@@ -754,10 +536,11 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
         return calculateDelayForAppointments(
             masterQueue,
             currentTokenAppointment,
+            yourAppointment.date,
             avgTime,
             currentTime
         );
-    }, [masterQueue, currentTokenAppointment, doctor, currentTime]);
+    }, [masterQueue, currentTokenAppointment, yourAppointment, doctor, currentTime]);
 
     // Get delay for your appointment
     const yourDelay = useMemo(() => {
@@ -776,106 +559,7 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
     const confirmedEstimatedWaitMinutes = useMemo(() => {
         if (!yourAppointment || yourAppointment.status !== 'Confirmed') return 0;
 
-        // Classic Token Distribution Logic
-        if (clinicData?.tokenDistribution === 'classic') {
-            // Count all confirmed (arrived) patients seen before you
-            const confirmedAppointmentsQueue = doctorAppointmentsToday.filter(a => a.status === 'Confirmed');
-            const yourPositionInConfirmed = confirmedAppointmentsQueue.findIndex(a => a.id === yourAppointment.id);
-
-            if (yourPositionInConfirmed !== -1) {
-                // Number of CONFIRMED patients ahead of you
-                const peopleAhead = yourPositionInConfirmed;
-                const avgTime = currentDoctor?.averageConsultingTime || 15;
-
-                // Simulation Start
-                let simulationTime = new Date(currentTime);
-                const isDoctorIn = currentDoctor?.consultationStatus === 'In';
-
-                // 1. Initial Delay (Session Start or Current Break)
-                if (!isDoctorIn) {
-                    if (breakMinutes > 0) {
-                        // If currently on break, add remaining break time
-                        simulationTime = addMinutes(simulationTime, breakMinutes);
-                    } else {
-                        // Check session start delay
-                        try {
-                            const dayOfWeek = format(appointmentDate, 'EEEE');
-                            const sessionIndex = yourAppointment.sessionIndex || 0;
-                            const daySlot = currentDoctor?.availabilitySlots?.find(s => s.day === dayOfWeek);
-
-                            if (daySlot && daySlot.timeSlots[sessionIndex]) {
-                                const sessionStartStr = daySlot.timeSlots[sessionIndex].from;
-                                const sessionStartDate = parseTime(sessionStartStr, appointmentDate);
-                                const minutesUntilStart = differenceInMinutes(sessionStartDate, currentTime);
-                                if (minutesUntilStart > 0) {
-                                    simulationTime = addMinutes(simulationTime, minutesUntilStart);
-                                }
-                            }
-                        } catch (error) {
-                            console.error("Error calculating session start delay:", error);
-                        }
-                    }
-                }
-
-                // 2. Project Consultation Time with Future Break hopping
-                let remainingConsultationMinutes = peopleAhead * avgTime;
-
-                try {
-                    const breaks = validBreaks
-                        .map((b: any) => ({ start: parseISO(b.startTime), end: parseISO(b.endTime) }))
-                        .sort((a: any, b: any) => a.start.getTime() - b.start.getTime());
-
-                    // Filter relevant breaks (those ending after simulation starts)
-                    const relevantBreaks = breaks.filter((b: any) => isAfter(b.end, simulationTime));
-
-                    for (const brk of relevantBreaks) {
-                        if (remainingConsultationMinutes <= 0) break;
-
-                        // Sync Break Cancellation: If doctor is 'In' during an ACTIVE break, don't hop it
-                        const nowTime = currentTime.getTime();
-                        const isThisBreakActive = nowTime >= brk.start.getTime() && nowTime < brk.end.getTime();
-                        if (isDoctorIn && isThisBreakActive) {
-                            continue;
-                        }
-
-                        let timeUntilBreak = differenceInMinutes(brk.start, simulationTime);
-
-                        if (timeUntilBreak < 0) {
-                            // We are inside this break (and it's not the active one or doctor isn't 'In')
-                            const remainingBreak = differenceInMinutes(brk.end, simulationTime);
-                            simulationTime = addMinutes(simulationTime, Math.max(0, remainingBreak));
-                            continue;
-                        }
-
-                        if (remainingConsultationMinutes < timeUntilBreak) {
-                            // We can finish before this break starts
-                            simulationTime = addMinutes(simulationTime, remainingConsultationMinutes);
-                            remainingConsultationMinutes = 0;
-                        } else {
-                            // Work until break starts
-                            simulationTime = addMinutes(simulationTime, timeUntilBreak);
-                            remainingConsultationMinutes -= timeUntilBreak;
-
-                            // Jump over the break
-                            const breakDuration = differenceInMinutes(brk.end, brk.start);
-                            simulationTime = addMinutes(simulationTime, breakDuration);
-                        }
-                    }
-                } catch (e) {
-                    console.error("Error calculating break hopping:", e);
-                }
-
-                // Add any remaining time (after all breaks)
-                if (remainingConsultationMinutes > 0) {
-                    simulationTime = addMinutes(simulationTime, remainingConsultationMinutes);
-                }
-
-                const totalWait = differenceInMinutes(simulationTime, currentTime);
-                return Math.max(0, totalWait);
-            }
-        }
-
-        // Default Advanced/Standard Logic
+        // Projection ETA (classic and advanced), else scheduled time plus delay
         try {
             const myEstimate = arrivedEstimates.find(e => e.appointmentId === yourAppointment.id);
             if (myEstimate) {
@@ -893,7 +577,19 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
             console.error('Error calculating confirmed wait time:', error);
             return 0;
         }
-    }, [yourAppointment, currentTime, totalDelayMinutes, clinicData, masterQueue, currentDoctor, appointmentDate, breakMinutes, arrivedEstimates]);
+    }, [yourAppointment, currentTime, totalDelayMinutes, appointmentDate, arrivedEstimates]);
+
+    // p90 of the wait when the doctor has a trained consultation time model
+    const confirmedLatestWaitMinutes = useMemo(() => {
+        if (!yourAppointment || yourAppointment.status !== 'Confirmed') return null;
+        const latest = masterQueue.find(entry => entry.appointmentId === yourAppointment.id)?.latestEstimatedTime;
+        if (!latest) return null;
+        try {
+            return Math.max(0, differenceInMinutes(parseTime(latest, appointmentDate), currentTime));
+        } catch {
+            return null;
+        }
+    }, [yourAppointment, masterQueue, appointmentDate, currentTime]);
 
 
     const estimatedWaitTime = useMemo(() => {
@@ -998,6 +694,12 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
 
     const displayedPatientsAhead = shouldShowQueueVisualization ? scheduledPatientsAhead : patientsAhead;
 
+    // QR for the clinic's self check-in kiosk
+    const checkInQrSrc = useMemo(() => {
+        if (!yourAppointment?.id || !isPendingAppointment || !isAppointmentToday) return null;
+        return `data:image/svg+xml;utf8,${encodeURIComponent(buildQrCodeSvg(buildCheckInCode(yourAppointment.id), 192))}`;
+    }, [yourAppointment?.id, isPendingAppointment, isAppointmentToday]);
+
     const isCutoffWithinTwoHours = useMemo(() => {
         if (!cutoffTime) return false;
         const minutes = differenceInMinutes(cutoffTime, currentTime);
@@ -1265,15 +967,6 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
         }
     };
 
-    // Unified bottom message container
-    const tokensAheadForConfirmed = useMemo(() => {
-        if (!yourAppointment) return 0;
-        const statuses = new Set(['Pending', 'Confirmed', 'Skipped']);
-        const index = doctorAppointmentsToday.findIndex(appt => appt.id === yourAppointment.id);
-        if (index <= 0) return 0;
-        return doctorAppointmentsToday.slice(0, index).filter(appt => statuses.has(appt.status || '')).length;
-    }, [doctorAppointmentsToday, yourAppointment]);
-
     const doctorDelayMinutes = yourAppointment?.doctorDelayMinutes || 0;
 
     // Determine if estimated wait time should be shown
@@ -1356,6 +1049,11 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
                     ? 'ഏകദേശ കാത്തിരിപ്പ് സമയം'
                     : 'Estimated waiting time';
 
+                const latestMins = confirmedLatestWaitMinutes !== null ? Math.round(confirmedLatestWaitMinutes) : null;
+                const latestLabel = latestMins !== null && latestMins > mins
+                    ? t.liveToken.upToMinutes.replace('{minutes}', String(latestMins))
+                    : null;
+
                 const bgClass = (doctorStatusInfo.isAffected || breakMinutes > 0) ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800';
 
                 return (
@@ -1365,6 +1063,7 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
                             <div className="flex flex-col items-center justify-center">
                                 <span className="text-sm font-medium">{waitTitle}</span>
                                 <span className="font-bold text-lg">{waitLabel}</span>
+                                {latestLabel && <span className="text-xs opacity-80">{latestLabel}</span>}
                             </div>
                         </div>
                     </div>
@@ -1374,14 +1073,15 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
 
         // Priority 1: If it's your turn during consultation
         if (shouldShowQueueInfo && isYourTurn) {
-            const hasBreak = queueState?.nextBreakDuration && queueState.nextBreakDuration > 0;
+            const breakMinutesRemaining = queueProjection?.breakState.minutesRemaining ?? 0;
+            const hasBreak = breakMinutesRemaining > 0;
             return (
                 <div className="w-full text-center py-4">
                     <div className={`${hasBreak ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'} rounded-full px-4 py-3 flex items-center justify-center gap-2`}>
                         {hasBreak ? <Clock className="w-6 h-6" /> : <UserCheck className="w-6 h-6" />}
                         <span className="font-bold text-lg">
                             {hasBreak
-                                ? (language === 'ml' ? `ഡോക്ടർ വിശ്രമത്തിലാണ് (${queueState.nextBreakDuration} മിനിറ്റ്)` : `Doctor is on break (${queueState.nextBreakDuration} mins)`)
+                                ? (language === 'ml' ? `ഡോക്ടർ വിശ്രമത്തിലാണ് (${breakMinutesRemaining} മിനിറ്റ്)` : `Doctor is on break (${breakMinutesRemaining} mins)`)
                                 : t.liveToken.itsYourTurn}
                         </span>
                     </div>
@@ -1391,7 +1091,8 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
 
         // Priority 2: If consultation started and exactly 1 person ahead
         if (shouldShowQueueInfo && patientsAhead === 1) {
-            const hasBreak = queueState?.nextBreakDuration && queueState.nextBreakDuration > 0;
+            const breakMinutesRemaining = queueProjection?.breakState.minutesRemaining ?? 0;
+            const hasBreak = breakMinutesRemaining > 0;
             return (
                 <div className="w-full text-center py-4">
                     <div className={`${hasBreak ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'} rounded-full px-4 py-3 flex items-center justify-center gap-2`}>
@@ -1601,74 +1302,6 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
         return null;
     };
 
-    const formatTokenTime = (appointment: Appointment) => {
-        try {
-            if (clinicData?.tokenDistribution !== 'advanced') {
-                const estimate = arrivedEstimates.find(e => e.appointmentId === appointment.id);
-                if (estimate) {
-                    // If it's the first person and doctor is In, hide time (in consultation)
-                    if (estimate.isFirst && currentDoctor?.consultationStatus === 'In') {
-                        return null;
-                    }
-                    return estimate.estimatedTime;
-                }
-            }
-
-            const dateObj = parse(appointment.date, "d MMMM yyyy", new Date());
-            const dateTime = parseTime(appointment.time, dateObj);
-            return format(dateTime, 'hh:mm a');
-        } catch {
-            return appointment.time || '--';
-        }
-    };
-
-    const getLiveQueueBadge = (appointment: Appointment, index: number) => {
-        const defaultBadge = { label: appointment.status || 'Status', className: 'bg-gray-100 text-gray-800' };
-        if (!yourAppointment) return defaultBadge;
-
-        if (appointment.isPriority) {
-            return { label: t.liveToken?.priority || 'Priority', className: 'bg-amber-100 text-amber-800 border-amber-200 border' };
-        }
-
-        if (queueState?.currentConsultation && queueState.currentConsultation.id === appointment.id) {
-            return { label: t.liveToken?.inConsultation || 'In Consultation', className: 'bg-green-100 text-green-800' };
-        }
-
-        if (appointment.id === yourAppointment.id) {
-            return { label: t.liveToken?.yourTokenLabel || 'Your Token', className: 'bg-blue-100 text-blue-800' };
-        }
-
-        const masterIndex = masterQueue.findIndex(a => a.id === appointment.id);
-        if (masterIndex === 0) {
-            return { label: t.liveToken?.currentToken || 'Current Token', className: 'bg-emerald-100 text-emerald-800' };
-        }
-        if (masterIndex > 0) {
-            const aheadLabel = language === 'ml'
-                ? `മുന്നിൽ ${masterIndex}`
-                : `${masterIndex} ahead`;
-            return { label: aheadLabel, className: 'bg-sky-100 text-sky-800' };
-        }
-
-        if (queueState?.bufferQueue?.some(a => a.id === appointment.id)) {
-            return { label: t.liveToken?.bufferQueueLabel || 'Ready Next', className: 'bg-amber-100 text-amber-800' };
-        }
-
-        switch (appointment.status) {
-            case 'Pending':
-                return { label: t.liveToken?.pending || 'Pending', className: 'bg-yellow-100 text-yellow-800' };
-            case 'Confirmed':
-                return { label: t.liveToken?.confirmed || 'Confirmed', className: 'bg-blue-100 text-blue-800' };
-            case 'Skipped':
-                return { label: t.liveToken?.skipped || 'Skipped', className: 'bg-red-100 text-red-800' };
-            case 'Completed':
-                return { label: t.liveToken?.completed || 'Completed', className: 'bg-green-100 text-green-800' };
-            case 'Cancelled':
-                return { label: t.liveToken?.cancelled || 'Cancelled', className: 'bg-gray-200 text-gray-800' };
-            default:
-                return defaultBadge;
-        }
-    };
-
     // Calculate no-show timestamp and check if within 2 hours
     const noShowTimestamp = useMemo(() => {
         if (!yourAppointment || yourAppointment.status !== 'No-show') return null;
@@ -1973,7 +1606,7 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
                                     <p className="text-sm text-muted-foreground">{t.liveToken.currentToken}</p>
                                     <p className="text-6xl font-bold" style={{ color: 'hsl(var(--token-current))' }}>
                                         {clinicData?.tokenDistribution === 'classic'
-                                            ? (currentTokenAppointment?.classicTokenNumber ? `#${currentTokenAppointment.classicTokenNumber.toString().padStart(3, '0')}` : 'N/A')
+                                            ? (currentTokenAppointment?.classicTokenNumber ? `#${currentTokenAppointment.classicTokenNumber.padStart(3, '0')}` : 'N/A')
                                             : (currentTokenAppointment?.tokenNumber || 'N/A')
                                         }
                                     </p>
@@ -2096,11 +1729,10 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
                                             onClick={async () => {
                                                 if (!firestore || !yourAppointment) return;
                                                 try {
-                                                    const appointmentRef = doc(firestore, 'appointments', yourAppointment.id);
-                                                    await updateDoc(appointmentRef, {
+                                                    await mutateAppointment(firestore, yourAppointment, {
                                                         status: 'Cancelled',
-                                                        updatedAt: new Date()
-                                                    });
+                                                        updatedAt: serverTimestamp()
+                                                    }, { action: 'cancelled', actor: getUserActor(user), source: 'patient-app' });
                                                 } catch (error) {
                                                     console.error('Error cancelling appointment:', error);
                                                 }
@@ -2115,6 +1747,14 @@ const AppointmentStatusCard = ({ yourAppointment, allTodaysAppointments, doctors
                     </div>
                 </div>
             )}
+
+            {checkInQrSrc && (
+                <div className="w-full mt-4 flex flex-col items-center gap-2 rounded-lg border p-4 text-center">
+                    <p className="font-semibold">{t.liveToken.kioskCheckIn}</p>
+                    <img src={checkInQrSrc} alt={t.liveToken.kioskCheckIn} width={192} height={192} />
+                    <p className="text-xs text-muted-foreground">{t.liveToken.kioskCheckInHint}</p>
+                </div>
+            )}
         </div>
     );
 };
@@ -2128,7 +1768,6 @@ function LiveTokenPage() {
     const { t, language } = useLanguage();
     const router = useRouter();
     const { departments } = useMasterDepartments();
-    const [allClinicAppointments, setAllClinicAppointments] = useState<Appointment[]>([]);
     const [clinics, setClinics] = useState<Clinic[]>([]);
 
     const { appointments: familyAppointments, loading: familyAppointmentsLoading } = useAppointments(user?.patientId);
@@ -2161,10 +1800,6 @@ function LiveTokenPage() {
     }, [firestore, clinicIds]);
 
 
-
-    // Also fetch appointments for the appointment date if it's different from today
-    const [appointmentDateAppointments, setAppointmentDateAppointments] = useState<Appointment[]>([]);
-
     const familyUpcomingAppointments = useMemo(() => {
         if (familyAppointments.length === 0) return [];
 
@@ -2348,108 +1983,30 @@ function LiveTokenPage() {
 
     const activeAppointment = useMemo(() => yourAppointments[0] || null, [yourAppointments]);
 
-    // Fetch appointments for today
+    // Live copy of the active appointment (the queue itself comes from the projection)
+    const [liveActiveAppointment, setLiveActiveAppointment] = useState<Appointment | null>(null);
     useEffect(() => {
-        const targetClinicIds = activeAppointment?.clinicId
-            ? [activeAppointment.clinicId]
-            : clinicIds;
-
-        if (!firestore || targetClinicIds.length === 0) return;
-
-        const now = getClinicNow();
-        const todayStr = getClinicDateString(now);
-        const appointmentsQuery = query(
-            collection(firestore, 'appointments'),
-            where("clinicId", "in", targetClinicIds),
-            where("date", "==", todayStr)
-        );
-
-        const unsubscribe = onSnapshot(appointmentsQuery,
-            (snapshot: QuerySnapshot<DocumentData>) => {
-                const appointmentsData: Appointment[] = snapshot.docs.map(doc => ({
-                    id: doc.id,
-                    ...doc.data()
-                } as Appointment));
-                setAllClinicAppointments(appointmentsData);
-            },
-            (error) => {
-                console.error("Error fetching all clinic appointments: ", error);
-            }
-        );
-
-        return () => unsubscribe();
-    }, [firestore, clinicIds, activeAppointment?.clinicId]);
-
-    useEffect(() => {
-        if (!firestore || !activeAppointment || clinicIds.length === 0) {
-            setAppointmentDateAppointments([]);
-            return;
-        }
-
-        const now = getClinicNow();
-        const todayStr = getClinicDateString(now);
-        const appointmentDateStr = activeAppointment.date;
-
-        if (appointmentDateStr === todayStr) {
-            setAppointmentDateAppointments([]);
+        if (!firestore || !activeAppointment?.id) {
+            setLiveActiveAppointment(null);
             return;
         }
 
-        const targetClinicIds = activeAppointment?.clinicId
-            ? [activeAppointment.clinicId]
-            : clinicIds;
-
-        if (targetClinicIds.length === 0) {
-            setAppointmentDateAppointments([]);
-            return;
-        }
-
-        const appointmentsQuery = query(
-            collection(firestore, 'appointments'),
-            where("clinicId", "in", targetClinicIds),
-            where("date", "==", appointmentDateStr)
-        );
-
-        const unsubscribe = onSnapshot(appointmentsQuery,
-            (snapshot: QuerySnapshot<DocumentData>) => {
-                const appointmentsData: Appointment[] = snapshot.docs.map(doc => ({
-                    id: doc.id,
-                    ...doc.data()
-                } as Appointment));
-                setAppointmentDateAppointments(appointmentsData);
+        const unsubscribe = onSnapshot(doc(firestore, 'appointments', activeAppointment.id),
+            (docSnap) => {
+                setLiveActiveAppointment(docSnap.exists() ? ({ id: docSnap.id, ...docSnap.data() } as Appointment) : null);
             },
             (error) => {
-                console.error("Error fetching appointments for appointment date: ", error);
-                setAppointmentDateAppointments([]);
+                console.error("Error listening to active appointment: ", error);
             }
         );
 
         return () => unsubscribe();
-    }, [firestore, clinicIds, activeAppointment?.date, activeAppointment?.id, activeAppointment?.clinicId]);
-
-    const allRelevantAppointments = useMemo(() => {
-        if (!activeAppointment) return allClinicAppointments;
-
-        const now = getClinicNow();
-        const todayStr = getClinicDateString(now);
-        if (activeAppointment.date === todayStr) {
-            return allClinicAppointments;
-        }
-
-        const merged = [...allClinicAppointments, ...appointmentDateAppointments];
-        const uniqueMap = new Map();
-        merged.forEach(apt => {
-            if (!uniqueMap.has(apt.id)) {
-                uniqueMap.set(apt.id, apt);
-            }
-        });
-        return Array.from(uniqueMap.values());
-    }, [allClinicAppointments, appointmentDateAppointments, activeAppointment]);
+    }, [firestore, activeAppointment?.id]);
 
     const realTimeActiveAppointment = useMemo(() => {
         if (!activeAppointment) return null;
-        return allRelevantAppointments.find(a => a.id === activeAppointment.id) || activeAppointment;
-    }, [activeAppointment, allRelevantAppointments]);
+        return liveActiveAppointment?.id === activeAppointment.id ? liveActiveAppointment : activeAppointment;
+    }, [activeAppointment, liveActiveAppointment]);
 
     const isLoading = userLoading || familyAppointmentsLoading || doctorsLoading;
 
@@ -2527,7 +2084,6 @@ function LiveTokenPage() {
                 {realTimeActiveAppointment ? (
                     <AppointmentStatusCard
                         yourAppointment={realTimeActiveAppointment}
-                        allTodaysAppointments={allRelevantAppointments}
                         doctors={doctors}
                         currentTime={currentTime}
                         t={t}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useCallback, useEffect, useState, useTransition } from 'react';
+import Link from 'next/link';
+import { format, parse } from 'date-fns';
+import { doc, getDoc } from 'firebase/firestore';
+import { ArrowLeft, CalendarCheck, ExternalLink, FileText, Loader2, Pill, Trash2, Upload } from 'lucide-react';
+import {
+    getConsultationRecord,
+    getMedicalTimeline,
+    getPatientDocuments,
+    getPrescriptionUrl,
+    PATIENT_DOCUMENT_KIND_LABELS,
+    setPatientDocumentSharing,
+} from '@kloqo/shared-core';
+import type { MedicalTimelineEntry, PatientDocument, PatientDocumentKind } from '@/lib/types';
+import { useAuth, useFirestore } from '@/firebase';
+import { useUser } from '@/firebase/auth/use-user';
+import { useLanguage } from '@/contexts/language-context';
+import { useToast } from '@/hooks/use-toast';
+import { AuthGuard } from '@/components/auth-guard';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const entryIcons = {
+    visit: CalendarCheck,
+    prescription: Pill,
+    document: FileText,
+};
+
+function MedicalRecordsPage() {
+    const { t } = useLanguage();
+    const { user } = useUser();
+    const firestore = useFirestore();
+    const auth = useAuth();
+    const { toast } = useToast();
+    const [isUploading, startUpload] = useTransition();
+
+    const [timeline, setTimeline] = useState<MedicalTimelineEntry[]>([]);
+    const [documents, setDocuments] = useState<Record<string, PatientDocument>>({});
+    const [clinics, setClinics] = useState<{ id: string; name: string }[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const [file, setFile] = useState<File | null>(null);
+    const [title, setTitle] = useState('');
+    const [kind, setKind] = useState<PatientDocumentKind>('lab_report');
+    const [reportDate, setReportDate] = useState('');
+
+    const patientId = user?.patientId;
+    const clinicName = (clinicId?: string) => clinics.find(c => c.id === clinicId)?.name;
+
+    const loadRecords = useCallback(async () => {
+        if (!firestore || !patientId) {
+            setLoading(false);
+            return;
+        }
+        try {
+            const viewer = { type: 'patient' as const, patientId };
+            const [entries, patientDocuments, patientSnap] = await Promise.all([
+                getMedicalTimeline(firestore, patientId, viewer),
+                getPatientDocuments(firestore, patientId, viewer),
+                getDoc(doc(firestore, 'patients', patientId)),
+            ]);
+            setTimeline(entries);
+            setDocuments(Object.fromEntries(patientDocuments.map(d => [d.id, d])));
+
+            const clinicIds: string[] = patientSnap.data()?.clinicIds || [];
+            const clinicSnaps = await Promise.all(clinicIds.map(id => getDoc(doc(firestore, 'clinics', id))));
+            setClinics(clinicSnaps.filter(s => s.exists()).map(s => ({ id: s.id, name: s.data()?.name || s.id })));
+        } catch (error) {
+            console.error('[MedicalRecords] Failed to load records:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [firestore, patientId]);
+
+    useEffect(() => {
+        loadRecords();
+    }, [loadRecords]);
+
+    const authorizedFetch = async (url: string, init: RequestInit = {}) => {
+        const idToken = await auth?.currentUser?.getIdToken();
+        return fetch(url, { ...init, headers: { ...init.headers, Authorization: `Bearer ${idToken}` } });
+    };
+
+    const handleUpload = () => {
+        if (!file || !patientId) return;
+        startUpload(async () => {
+            try {
+                const formData = new FormData();
+                formData.append('file', file);
+                formData.append('patientId', patientId);
+                formData.append('kind', kind);
+                formData.append('title', title || file.name);
+                if (reportDate) formData.append('reportDate', format(parse(reportDate, 'yyyy-MM-dd', new Date()), 'd MMMM yyyy'));
+
+                const response = await authorizedFetch('/api/patient-documents', { method: 'POST', body: formData });
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error);
+
+                toast({ title: t.profile.medicalRecords.uploaded });
+                setFile(null);
+                setTitle('');
+                setReportDate('');
+                await loadRecords();
+            } catch (error: any) {
+                console.error('[MedicalRecords] Upload failed:', error);
+                toast({ variant: 'destructive', title: t.profile.medicalRecords.uploadFailed, description: error.message });
+            }
+        });
+    };
+
+    const openEntry = async (entry: MedicalTimelineEntry) => {
+        try {
+            if (entry.type === 'prescription' && firestore && entry.consultationRecordId) {
+                const record = await getConsultationRecord(firestore, entry.consultationRecordId);
+                if (record) window.open(getPrescriptionUrl(record), '_blank');
+            } else if (entry.type === 'document' && entry.documentId) {
+                const response = await authorizedFetch(`/api/patient-documents/${entry.documentId}`);
+                if (!response.ok) throw new Error((await response.json()).error);
+                window.open(URL.createObjectURL(await response.blob()), '_blank');
+            }
+        } catch (error) {
+            console.error('[MedicalRecords] Failed to open entry:', error);
+        }
+    };
+
+    const toggleSharing = async (document: PatientDocument, clinicId: string, shared: boolean) => {
+        if (!firestore) return;
+        try {
+            const sharedWithClinicIds = await setPatientDocumentSharing(firestore, document, clinicId, shared);
+            setDocuments(prev => ({ ...prev, [document.id]: { ...document, sharedWithClinicIds } }));
+        } catch (error) {
+            console.error('[MedicalRecords] Failed to update sharing:', error);
+        }
+    };
+
+    const deleteDocument = async (documentId: string) => {
+        if (!confirm(t.profile.medicalRecords.deleteConfirm)) return;
+        try {
+            const response = await authorizedFetch(`/api/patient-documents/${documentId}`, { method: 'DELETE' });
+            if (!response.ok) throw new Error((await response.json()).error);
+            await loadRecords();
+        } catch (error) {
+            console.error('[MedicalRecords] Delete failed:', error);
+        }
+    };
+
+    return (
+        <div className="flex min-h-screen w-full flex-col bg-green-50/50 font-body">
+            <header className="flex items-center p-4">
+                <Link href="/profile" className="p-2">
+                    <ArrowLeft className="h-6 w-6" />
+                </Link>
+                <h1 className="text-xl font-bold text-center flex-grow">{t.profile.medicalRecords.title}</h1>
+                <div className="w-8"></div>
+            </header>
+
+            <main className="flex-grow p-4 space-y-4 pb-24">
+                <Card className="border-none shadow-sm">
+                    <CardContent className="p-4 space-y-3">
+                        <h2 className="font-semibold">{t.profile.medicalRecords.addDocument}</h2>
+                        <div className="space-y-1">
+                            <Label htmlFor="document-file">{t.profile.medicalRecords.chooseFile}</Label>
+                            <Input
+                                id="document-file"
+                                type="file"
+                                accept="application/pdf,image/jpeg,image/png,image/webp"
+                                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-1">
+                                <Label>{t.profile.medicalRecords.documentType}</Label>
+                                <Select value={kind} onValueChange={(value) => setKind(value as PatientDocumentKind)}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(PATIENT_DOCUMENT_KIND_LABELS) as PatientDocumentKind[]).map(value => (
+                                            <SelectItem key={value} value={value}>{t.profile.medicalRecords.kinds[value]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="report-date">{t.profile.medicalRecords.reportDate}</Label>
+                                <Input id="report-date" type="date" value={reportDate} onChange={(e) => setReportDate(e.target.value)} />
+                            </div>
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="document-title">{t.profile.medicalRecords.documentTitle}</Label>
+                            <Input id="document-title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder={file?.name} />
+                        </div>
+                        <Button className="w-full" onClick={handleUpload} disabled={!file || isUploading}>
+                            {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                            {t.profile.medicalRecords.upload}
+                        </Button>
+                    </CardContent>
+                </Card>
+
+                {loading ? (
+                    <div className="space-y-3">
+                        <Skeleton className="h-20 w-full" />
+                        <Skeleton className="h-20 w-full" />
+                    </div>
+                ) : timeline.length === 0 ? (
+                    <p className="py-8 text-center text-sm text-muted-foreground">{t.profile.medicalRecords.empty}</p>
+                ) : (
+                    <ol className="relative border-l border-primary/20 ml-3 space-y-4">
+                        {timeline.map(entry => {
+                            const Icon = entryIcons[entry.type];
+                            const document = entry.documentId ? documents[entry.documentId] : undefined;
+                            return (
+                                <li key={entry.id} className="ml-6">
+                                    <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-primary/10">
+                                        <Icon className="h-3.5 w-3.5 text-primary" />
+                                    </span>
+                                    <Card className="border-none shadow-sm">
+                                        <CardContent className="p-4 space-y-2">
+                                            <div className="flex items-start justify-between gap-2">
+                                                <div className="min-w-0">
+                                                    <p className="text-xs text-muted-foreground">{entry.date}</p>
+                                                    <p className="font-semibold">{entry.title}</p>
+                                                    {(document ? t.profile.medicalRecords.kinds[document.kind] : entry.subtitle) && (
+                                                        <p className="text-sm text-muted-foreground truncate">
+                                                            {document ? t.profile.medicalRecords.kinds[document.kind] : entry.subtitle}
+                                                        </p>
+                                                    )}
+                                                    {clinicName(entry.clinicId) && (
+                                                        <p className="text-xs text-muted-foreground">{clinicName(entry.clinicId)}</p>
+                                                    )}
+                                                </div>
+                                                {entry.type !== 'visit' && (
+                                                    <Button variant="ghost" size="sm" onClick={() => openEntry(entry)}>
+                                                        {t.profile.medicalRecords.open}
+                                                        <ExternalLink className="ml-1 h-4 w-4" />
+                                                    </Button>
+                                                )}
+                                            </div>
+                                            {document && clinics.length > 0 && (
+                                                <div className="border-t pt-2 space-y-2">
+                                                    <p className="text-xs font-medium">{t.profile.medicalRecords.sharedWith}</p>
+                                                    {clinics.map(clinic => (
+                                                        <div key={clinic.id} className="flex items-center justify-between">
+                                                            <span className="text-sm">{clinic.name}</span>
+                                                            <Switch
+                                                                checked={document.sharedWithClinicIds.includes(clinic.id)}
+                                                                onCheckedChange={(checked) => toggleSharing(document, clinic.id, checked)}
+                                                            />
+                                                        </div>
+                                                    ))}
+                                                    <p className="text-xs text-muted-foreground">{t.profile.medicalRecords.shareHint}</p>
+                                                </div>
+                                            )}
+                                            {document?.uploadedBy.type === 'patient' && (
+                                                <Button variant="ghost" size="sm" className="text-destructive" onClick={() => deleteDocument(document.id)}>
+                                                    <Trash2 className="mr-1 h-4 w-4" />
+                                                    {t.profile.medicalRecords.delete}
+                                                </Button>
+                                            )}
+                                        </CardContent>
+                                    </Card>
+                                </li>
+                            );
+                        })}
+                    </ol>
+                )}
+            </main>
+        </div>
+    );
+}
+
+export default function MedicalRecordsPageWrapper() {
+    return (
+        <AuthGuard>
+            <MedicalRecordsPage />
+        </AuthGuard>
+    );
+}
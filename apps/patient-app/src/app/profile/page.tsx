@@ -1,5 +1,5 @@
 'use client';
-import { ArrowLeft, Home, Calendar, Radio, User, Users, ChevronRight, LogOut, FileText, Shield, HelpCircle, Download, Share, CheckCircle2, MapPin } from 'lucide-react';
+import { ArrowLeft, Home, Calendar, Radio, User, Users, ChevronRight, LogOut, FileText, Shield, HelpCircle, Download, Share, CheckCircle2, MapPin, FolderHeart } from 'lucide-react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
@@ -15,6 +15,7 @@ import { usePwa } from '@/lib/pwa';
 import dynamic from 'next/dynamic';
 import { Skeleton } from '@/components/ui/skeleton';
 import { AuthGuard } from '@/components/auth-guard';
+import { PrescriptionHistory } from '@/components/prescription-history';
 
 const NotificationSettings = dynamic(
     () =>
@@ -97,6 +98,7 @@ function ProfilePage() {
 
     const menuItems = [
         { icon: Users, label: t.profile?.friendsAndFamily || 'Your Friends and Family', href: '/profile/relatives' },
+        { icon: FolderHeart, label: t.profile.medicalRecords.menu, href: '/profile/medical-records' },
         { icon: MapPin, label: t.profile?.allowLocation || 'Allow Location', href: '#', key: 'location' },
         { icon: FileText, label: t.profile.terms, href: '#', key: 'terms' },
         { icon: Shield, label: t.profile.privacyPolicy, href: '#', key: 'privacy' },
@@ -210,6 +212,8 @@ function ProfilePage() {
                     </div>
                 </div>
 
+                <PrescriptionHistory />
+
                 <div className="bg-card rounded-xl shadow-sm overflow-hidden">
                     <NotificationSettings />
                     <LanguageSettings />
@@ -0,0 +1,146 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { doc, getDoc } from 'firebase/firestore';
+import { ArrowLeft, CalendarCheck, CalendarX, Loader2 } from 'lucide-react';
+import { acceptLeaveRebookProposal, declineLeaveRebookProposal, getUserActor } from '@kloqo/shared-core';
+import { useFirestore } from '@/firebase';
+import { useUser } from '@/firebase/auth/use-user';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { AuthGuard } from '@/components/auth-guard';
+import type { LeaveRebookProposal } from '@/lib/types';
+
+// Prevent static generation - this page requires Firebase context
+export const dynamic = 'force-dynamic';
+
+function RebookPage() {
+    const params = useParams();
+    const router = useRouter();
+    const firestore = useFirestore();
+    const { user } = useUser();
+    const { toast } = useToast();
+    const proposalId = params.proposalId as string;
+
+    const [proposal, setProposal] = useState<LeaveRebookProposal | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (!firestore || !proposalId) return;
+        getDoc(doc(firestore, 'leave-rebook-proposals', proposalId))
+            .then(snap => setProposal(snap.exists() ? ({ id: snap.id, ...snap.data() } as LeaveRebookProposal) : null))
+            .catch(error => console.error('Error fetching rebook proposal:', error))
+            .finally(() => setLoading(false));
+    }, [firestore, proposalId]);
+
+    const handleAccept = async () => {
+        if (!firestore || !proposal) return;
+        setIsSubmitting(true);
+        try {
+            const appointment = await acceptLeaveRebookProposal(firestore, proposal.id, { actor: getUserActor(user), source: 'patient-app' });
+            toast({ title: 'Appointment Rebooked', description: `${appointment.date} at ${appointment.time}` });
+            router.push(`/live-token/${appointment.id}`);
+        } catch (error: any) {
+            console.error('Error accepting rebook proposal:', error);
+            toast({ variant: 'destructive', title: 'Could not rebook', description: error?.message || 'Please choose another time.' });
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleChooseAnother = async () => {
+        if (!firestore || !proposal) return;
+        setIsSubmitting(true);
+        try {
+            if (proposal.status === 'Proposed') {
+                await declineLeaveRebookProposal(firestore, proposal.id);
+            }
+        } catch (error) {
+            console.error('Error declining rebook proposal:', error);
+        }
+        router.push(`/book-appointment?doctorId=${proposal.doctorId}&clinicId=${proposal.clinicId}`);
+    };
+
+    if (loading) {
+        return (
+            <div className="flex h-screen w-full items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex min-h-screen w-full flex-col bg-background">
+            <header className="flex items-center gap-4 p-4 border-b">
+                <Link href="/appointments">
+                    <Button variant="ghost" size="icon">
+                        <ArrowLeft />
+                    </Button>
+                </Link>
+                <h1 className="text-xl font-bold">Rebook Appointment</h1>
+            </header>
+
+            <main className="flex-1 p-6">
+                {!proposal ? (
+                    <p className="text-center text-muted-foreground">This rebook offer could not be found.</p>
+                ) : (
+                    <Card>
+                        <CardContent className="p-6 space-y-6">
+                            <p className="text-muted-foreground">
+                                Dr. {proposal.doctorName} is on leave and your appointment on {proposal.originalDate} at {proposal.originalTime} was cancelled.
+                            </p>
+
+                            <div className="flex items-center gap-4 rounded-xl bg-muted/50 border p-4">
+                                <CalendarCheck className="h-8 w-8 text-primary" />
+                                <div>
+                                    <p className="text-sm text-muted-foreground">Next available slot</p>
+                                    <p className="text-lg font-semibold">{proposal.proposedDate}, {proposal.proposedTime}</p>
+                                </div>
+                            </div>
+
+                            {proposal.status === 'Proposed' ? (
+                                <div className="space-y-2">
+                                    <Button className="w-full" disabled={isSubmitting} onClick={handleAccept}>
+                                        {isSubmitting ? <Loader2 className="animate-spin" /> : 'Confirm this slot'}
+                                    </Button>
+                                    <Button variant="outline" className="w-full" disabled={isSubmitting} onClick={handleChooseAnother}>
+                                        Choose another time
+                                    </Button>
+                                </div>
+                            ) : (
+                                <div className="space-y-4 text-center">
+                                    <div className="flex items-center justify-center gap-2 text-muted-foreground">
+                                        <CalendarX className="h-5 w-5" />
+                                        <span>{proposal.status === 'Accepted' ? 'You have already rebooked this appointment.' : 'This offer is no longer available.'}</span>
+                                    </div>
+                                    {proposal.status === 'Accepted' && proposal.rebookedAppointmentId ? (
+                                        <Button asChild className="w-full">
+                                            <Link href={`/live-token/${proposal.rebookedAppointmentId}`}>View appointment</Link>
+                                        </Button>
+                                    ) : (
+                                        <Button variant="outline" className="w-full" onClick={handleChooseAnother}>
+                                            Choose another time
+                                        </Button>
+                                    )}
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
+            </main>
+        </div>
+    );
+}
+
+function RebookPageWithAuth() {
+    return (
+        <AuthGuard>
+            <RebookPage />
+        </AuthGuard>
+    );
+}
+
+export default RebookPageWithAuth;
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { differenceInSeconds } from 'date-fns';
+import { ArrowLeft, CalendarCheck, Hourglass, Loader2, Timer } from 'lucide-react';
+import { acceptWaitlistOffer, declineWaitlistOffer, leaveWaitlist, toEngineDate, getClinicNow } from '@kloqo/shared-core';
+import { useFirestore } from '@/firebase';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { AuthGuard } from '@/components/auth-guard';
+import { useLanguage } from '@/contexts/language-context';
+import type { WaitlistEntry } from '@/lib/types';
+
+// Prevent static generation - this page requires Firebase context
+export const dynamic = 'force-dynamic';
+
+function WaitlistPage() {
+    const params = useParams();
+    const router = useRouter();
+    const firestore = useFirestore();
+    const { toast } = useToast();
+    const { t } = useLanguage();
+    const entryId = params.entryId as string;
+
+    const [entry, setEntry] = useState<WaitlistEntry | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+    useEffect(() => {
+        if (!firestore || !entryId) return;
+        const unsubscribe = onSnapshot(doc(firestore, 'waitlist', entryId), (snap) => {
+            setEntry(snap.exists() ? ({ id: snap.id, ...snap.data() } as WaitlistEntry) : null);
+            setLoading(false);
+        }, (error) => {
+            console.error('Error fetching waitlist entry:', error);
+            setLoading(false);
+        });
+        return () => unsubscribe();
+    }, [firestore, entryId]);
+
+    useEffect(() => {
+        const expiresAt = entry?.status === 'Offered' ? toEngineDate(entry.offerExpiresAt) : null;
+        if (!expiresAt) {
+            setSecondsLeft(null);
+            return;
+        }
+        const tick = () => setSecondsLeft(Math.max(0, differenceInSeconds(expiresAt, getClinicNow())));
+        tick();
+        const interval = setInterval(tick, 1000);
+        return () => clearInterval(interval);
+    }, [entry]);
+
+    const handleAccept = async () => {
+        if (!firestore || !entry) return;
+        setIsSubmitting(true);
+        try {
+            const appointment = await acceptWaitlistOffer(firestore, entry.id);
+            toast({
+                title: t.waitlist.booked,
+                description: t.waitlist.bookedDesc.replace('{date}', appointment.date).replace('{time}', appointment.time),
+            });
+            router.push(`/live-token/${appointment.id}`);
+        } catch (error: any) {
+            console.error('Error accepting waitlist offer:', error);
+            toast({ variant: 'destructive', title: t.waitlist.bookFailed, description: error?.message || t.waitlist.tryAgain });
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDecline = async () => {
+        if (!firestore || !entry) return;
+        setIsSubmitting(true);
+        try {
+            if (entry.status === 'Offered') {
+                await declineWaitlistOffer(firestore, entry.id);
+            } else {
+                await leaveWaitlist(firestore, entry.id);
+            }
+            router.push('/appointments');
+        } catch (error: any) {
+            console.error('Error leaving waitlist:', error);
+            toast({ variant: 'destructive', title: t.bookAppointment.error, description: error?.message || t.waitlist.tryAgain });
+            setIsSubmitting(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex h-screen w-full items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    const isOfferLive = entry?.status === 'Offered' && secondsLeft !== null && secondsLeft > 0;
+
+    return (
+        <div className="flex min-h-screen w-full flex-col bg-background">
+            <header className="flex items-center gap-4 p-4 border-b">
+                <Link href="/appointments">
+                    <Button variant="ghost" size="icon">
+                        <ArrowLeft />
+                    </Button>
+                </Link>
+                <h1 className="text-xl font-bold">{t.waitlist.title}</h1>
+            </header>
+
+            <main className="flex-1 p-6">
+                {!entry ? (
+                    <p className="text-center text-muted-foreground">{t.waitlist.notFound}</p>
+                ) : (
+                    <Card>
+                        <CardContent className="p-6 space-y-6">
+                            <p className="text-muted-foreground">
+                                Dr. {entry.doctorName}, {entry.date}
+                            </p>
+
+                            {entry.status === 'Waiting' && (
+                                <>
+                                    <div className="flex items-center gap-4 rounded-xl bg-muted/50 border p-4">
+                                        <Hourglass className="h-8 w-8 text-primary" />
+                                        <p>{t.waitlist.waiting}</p>
+                                    </div>
+                                    <Button variant="outline" className="w-full" disabled={isSubmitting} onClick={handleDecline}>
+                                        {t.waitlist.leave}
+                                    </Button>
+                                </>
+                            )}
+
+                            {isOfferLive && (
+                                <>
+                                    <div className="flex items-center gap-4 rounded-xl bg-muted/50 border p-4">
+                                        <CalendarCheck className="h-8 w-8 text-primary" />
+                                        <div>
+                                            <p className="text-sm text-muted-foreground">{t.waitlist.slotAvailable}</p>
+                                            <p className="text-lg font-semibold">{entry.offeredTime}</p>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                                        <Timer className="h-4 w-4" />
+                                        <span>{t.waitlist.heldFor.replace('{time}', `${Math.floor(secondsLeft! / 60)}:${String(secondsLeft! % 60).padStart(2, '0')}`)}</span>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Button className="w-full" disabled={isSubmitting} onClick={handleAccept}>
+                                            {isSubmitting ? <Loader2 className="animate-spin" /> : t.waitlist.bookSlot}
+                                        </Button>
+                                        <Button variant="outline" className="w-full" disabled={isSubmitting} onClick={handleDecline}>
+                                            {t.waitlist.noThanks}
+                                        </Button>
+                                    </div>
+                                </>
+                            )}
+
+                            {entry.status === 'Booked' && entry.bookedAppointmentId && (
+                                <Button asChild className="w-full">
+                                    <Link href={`/live-token/${entry.bookedAppointmentId}`}>{t.waitlist.viewAppointment}</Link>
+                                </Button>
+                            )}
+
+                            {entry.status !== 'Waiting' && entry.status !== 'Booked' && !isOfferLive && (
+                                <p className="text-center text-muted-foreground">{t.waitlist.offerUnavailable}</p>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
+            </main>
+        </div>
+    );
+}
+
+function WaitlistPageWithAuth() {
+    return (
+        <AuthGuard>
+            <WaitlistPage />
+        </AuthGuard>
+    );
+}
+
+export default WaitlistPageWithAuth;
@@ -1,13 +1,24 @@
-export function ConvenienceFeeDisplay() {
+import type { ConvenienceFeeRule } from '@/lib/types';
+import { calculateConvenienceFee, DEFAULT_CONVENIENCE_FEE } from '@kloqo/shared-core';
+
+export function ConvenienceFeeDisplay({ rule, consultationFee }: { rule?: ConvenienceFeeRule; consultationFee?: number }) {
+    const effectiveRule = rule ?? DEFAULT_CONVENIENCE_FEE;
+    const fee = calculateConvenienceFee(effectiveRule, consultationFee ?? 0);
+    if (fee <= 0) return null;
+
     return (
         <div className="flex items-center gap-3">
             <span className="font-bold text-lg text-muted-foreground ml-1 font-mono">&#8377;</span>
-            <div className="flex items-center gap-2">
-                <span className="text-muted-foreground line-through">10 Convenience Fee</span>
-                <span className="text-xs font-semibold text-green-600 bg-green-50 px-2 py-0.5 rounded-full">
-                    Waived 🎉
-                </span>
-            </div>
+            {effectiveRule.waived ? (
+                <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground line-through">{fee} Convenience Fee</span>
+                    <span className="text-xs font-semibold text-green-600 bg-green-50 px-2 py-0.5 rounded-full">
+                        Waived 🎉
+                    </span>
+                </div>
+            ) : (
+                <span className="text-muted-foreground">{fee} Convenience Fee</span>
+            )}
         </div>
     );
 }
@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { useLanguage } from '@/contexts/language-context';
 import translations from '@/translations';
+import { isSupportedLanguage } from '@kloqo/shared-core';
+import type { Language } from '@/lib/types';
 
 export function LanguagePrompt() {
   const [showPrompt, setShowPrompt] = useState(false); // Start with false, check after mount
@@ -23,7 +25,7 @@ export function LanguagePrompt() {
     const savedLanguage = localStorage.getItem('app-language');
 
     // If language is already selected, don't show prompt
-    if (savedLanguage && (savedLanguage === 'en' || savedLanguage === 'ml')) {
+    if (isSupportedLanguage(savedLanguage)) {
       setShowPrompt(false);
       return;
     }
@@ -51,7 +53,7 @@ export function LanguagePrompt() {
     );
   }
 
-  const handleSelectLanguage = (lang: 'en' | 'ml') => {
+  const handleSelectLanguage = (lang: Language) => {
     setLanguage(lang);
     setShowPrompt(false);
     localStorage.setItem('language-prompt-shown', 'true');
@@ -89,6 +91,22 @@ export function LanguagePrompt() {
               <span className="text-3xl mr-3">🇮🇳</span>
               <span className="font-malayalam">{t.language.malayalam}</span>
             </Button>
+            <Button
+              variant="outline"
+              className="w-full h-16 text-lg font-semibold border-2 hover:bg-accent"
+              onClick={() => handleSelectLanguage('ta')}
+            >
+              <span className="text-3xl mr-3">🇮🇳</span>
+              {t.language.tamil}
+            </Button>
+            <Button
+              variant="outline"
+              className="w-full h-16 text-lg font-semibold border-2 hover:bg-accent"
+              onClick={() => handleSelectLanguage('hi')}
+            >
+              <span className="text-3xl mr-3">🇮🇳</span>
+              {t.language.hindi}
+            </Button>
           </div>
 
           <p className="text-xs text-muted-foreground text-center mt-6">
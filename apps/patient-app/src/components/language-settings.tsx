@@ -4,12 +4,14 @@ import { Languages } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useLanguage } from '@/contexts/language-context';
 import { useToast } from '@/hooks/use-toast';
+import { LANGUAGE_NAMES, SUPPORTED_LANGUAGES } from '@kloqo/shared-core';
+import type { Language } from '@/lib/types';
 
 export function LanguageSettings() {
   const { language, setLanguage, t } = useLanguage();
   const { toast } = useToast();
 
-  const handleLanguageChange = (lang: 'en' | 'ml') => {
+  const handleLanguageChange = (lang: Language) => {
     setLanguage(lang);
     toast({
       title: t.messages.success,
@@ -25,23 +27,18 @@ export function LanguageSettings() {
           <p className="font-semibold">{t.profile.language}</p>
         </div>
       </div>
-      <div className="flex gap-2">
-        <Button
-          variant={language === 'en' ? 'default' : 'outline'}
-          size="sm"
-          onClick={() => handleLanguageChange('en')}
-          className="px-3"
-        >
-          🇬🇧 English
-        </Button>
-        <Button
-          variant={language === 'ml' ? 'default' : 'outline'}
-          size="sm"
-          onClick={() => handleLanguageChange('ml')}
-          className="px-3"
-        >
-          🇮🇳 മലയാളം
-        </Button>
+      <div className="flex flex-wrap justify-end gap-2">
+        {SUPPORTED_LANGUAGES.map(lang => (
+          <Button
+            key={lang}
+            variant={language === lang ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => handleLanguageChange(lang)}
+            className="px-3"
+          >
+            {lang === 'en' ? '🇬🇧' : '🇮🇳'} {LANGUAGE_NAMES[lang]}
+          </Button>
+        ))}
       </div>
     </div>
   );
@@ -1,22 +1,45 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Bell, BellOff, Loader2 } from 'lucide-react';
+import { Bell, BellOff, ChevronDown, Loader2, SlidersHorizontal } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useToast } from '@/hooks/use-toast';
 import { requestNotificationPermission, getFCMToken, isNotificationEnabled } from '@/lib/firebase-messaging';
 import { useUser } from '@/firebase/auth/use-user';
 import { useLanguage } from '@/contexts/language-context';
 import { useFirebase } from '@/firebase/provider';
 import { doc, getDoc, collection, query, where, getDocs } from 'firebase/firestore';
-import { Patient } from '@/lib/types';
+import { NotificationPreferences, Patient, QuietHours } from '@/lib/types';
+import { NOTIFICATION_METADATA, NOTIFICATION_TYPES, type NotificationType } from '@kloqo/shared-core';
 import useSWR, { mutate } from 'swr';
 
+// AI fallback and booking links reply to something the patient asked for, so they are not listed
+const PATIENT_NOTIFICATION_TYPES: NotificationType[] = [
+    NOTIFICATION_TYPES.APPOINTMENT_BOOKED_BY_STAFF,
+    NOTIFICATION_TYPES.DAILY_REMINDER,
+    NOTIFICATION_TYPES.ARRIVAL_CONFIRMED,
+    NOTIFICATION_TYPES.PEOPLE_AHEAD,
+    NOTIFICATION_TYPES.DOCTOR_CONSULTATION_STARTED,
+    NOTIFICATION_TYPES.TOKEN_CALLED,
+    NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE,
+    NOTIFICATION_TYPES.BREAK_UPDATE,
+    NOTIFICATION_TYPES.APPOINTMENT_SKIPPED,
+    NOTIFICATION_TYPES.APPOINTMENT_CANCELLED,
+    NOTIFICATION_TYPES.WAITLIST_OFFER,
+    NOTIFICATION_TYPES.CONSULTATION_COMPLETED,
+    NOTIFICATION_TYPES.FREE_FOLLOWUP_EXPIRY,
+];
+
+const DEFAULT_QUIET_HOURS: QuietHours = { start: '21:00', end: '07:00' };
+
 export function NotificationSettings() {
     const [notificationsEnabled, setNotificationsEnabled] = useState(false);
     const [loading, setLoading] = useState(false);
     const [isMounted, setIsMounted] = useState(false);
     const [primaryUserId, setPrimaryUserId] = useState<string | null>(null);
+    const [preferences, setPreferences] = useState<NotificationPreferences>({});
     const { toast } = useToast();
     const { user } = useUser();
     const { firestore } = useFirebase() || {};
@@ -92,9 +115,53 @@ export function NotificationSettings() {
     useEffect(() => {
         if (userResponse) {
             setNotificationsEnabled(userResponse.notificationsEnabled === true);
+            setPreferences(userResponse.notificationPreferences || {});
         }
     }, [userResponse]);
 
+    const savePreferences = async (next: NotificationPreferences) => {
+        if (!primaryUserId) return;
+        const previous = preferences;
+        setPreferences(next);
+        try {
+            const res = await fetch(`/api/users/${primaryUserId}/notifications`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ notificationPreferences: next }),
+            });
+            if (!res.ok) {
+                throw new Error(`Failed to save notification preferences: ${res.status}`);
+            }
+            mutate(`/api/users/${primaryUserId}/notifications`);
+        } catch (error) {
+            console.error('Error saving notification preferences:', error);
+            setPreferences(previous);
+            toast({
+                title: notifTexts.errorTitle,
+                description: notifTexts.errorDesc,
+                variant: 'destructive',
+            });
+        }
+    };
+
+    const isTypeEnabled = (type: NotificationType) => {
+        const channels = preferences.types?.[type];
+        return !NOTIFICATION_METADATA[type].channels.every(channel => channels?.[channel] === false);
+    };
+
+    // One switch per type covers both WhatsApp and push
+    const handleTypeToggle = (type: NotificationType, checked: boolean) => {
+        const channels = Object.fromEntries(NOTIFICATION_METADATA[type].channels.map(channel => [channel, checked]));
+        savePreferences({ ...preferences, types: { ...preferences.types, [type]: channels } });
+    };
+
+    const handleQuietHoursChange = (quietHours: QuietHours | null) => {
+        if (quietHours && (!quietHours.start || !quietHours.end)) return;
+        savePreferences({ ...preferences, quietHours });
+    };
+
     const handleToggle = async (checked: boolean) => {
         setLoading(true);
         
@@ -241,30 +308,91 @@ export function NotificationSettings() {
         );
     }
 
+    const quietHours = preferences.quietHours || null;
+
     return (
-        <div className="flex items-center justify-between p-4 border-b last:border-b-0">
-            <div className="flex items-center gap-4 flex-1">
-                {notificationsEnabled ? (
-                    <Bell className="h-6 w-6 text-primary" />
-                ) : (
-                    <BellOff className="h-6 w-6 text-muted-foreground" />
-                )}
-                <div className="flex-1">
-                    <p className="font-semibold">{t.profile.notificationsTitle}</p>
-                    <p className="text-sm text-muted-foreground">
-                        {notificationsEnabled 
-                            ? t.profile.notificationsEnabledDesc
-                            : t.profile.notificationsDisabledDesc}
-                    </p>
+        <>
+            <div className="flex items-center justify-between p-4 border-b last:border-b-0">
+                <div className="flex items-center gap-4 flex-1">
+                    {notificationsEnabled ? (
+                        <Bell className="h-6 w-6 text-primary" />
+                    ) : (
+                        <BellOff className="h-6 w-6 text-muted-foreground" />
+                    )}
+                    <div className="flex-1">
+                        <p className="font-semibold">{t.profile.notificationsTitle}</p>
+                        <p className="text-sm text-muted-foreground">
+                            {notificationsEnabled 
+                                ? t.profile.notificationsEnabledDesc
+                                : t.profile.notificationsDisabledDesc}
+                        </p>
+                    </div>
                 </div>
+                <Switch
+                    checked={notificationsEnabled}
+                    onCheckedChange={handleToggle}
+                    disabled={loading || !primaryUserId}
+                />
             </div>
-            <Switch
-                checked={notificationsEnabled}
-                onCheckedChange={handleToggle}
-                disabled={loading || !primaryUserId}
-            />
-        </div>
+            {primaryUserId && (
+                <Collapsible className="border-b last:border-b-0">
+                    <CollapsibleTrigger className="group flex w-full items-center justify-between p-4 text-left hover:bg-muted/50 transition-colors">
+                        <div className="flex items-center gap-4 flex-1">
+                            <SlidersHorizontal className="h-6 w-6 text-muted-foreground" />
+                            <div className="flex-1">
+                                <p className="font-semibold">{t.profile.notificationPreferencesTitle}</p>
+                                <p className="text-sm text-muted-foreground">{t.profile.notificationPreferencesDesc}</p>
+                            </div>
+                        </div>
+                        <ChevronDown className="h-5 w-5 text-muted-foreground transition-transform group-data-[state=open]:rotate-180" />
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="px-4 pb-4 space-y-4">
+                        <div className="space-y-3">
+                            {PATIENT_NOTIFICATION_TYPES.map(type => (
+                                <div key={type} className="flex items-center justify-between gap-4">
+                                    <p className="text-sm">{t.profile.notificationTypes[type as keyof typeof t.profile.notificationTypes]}</p>
+                                    <Switch
+                                        checked={isTypeEnabled(type)}
+                                        onCheckedChange={(checked) => handleTypeToggle(type, checked)}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <div className="space-y-3 pt-4 border-t">
+                            <div className="flex items-center justify-between gap-4">
+                                <div>
+                                    <p className="text-sm font-semibold">{t.profile.quietHoursTitle}</p>
+                                    <p className="text-xs text-muted-foreground">{t.profile.quietHoursDesc}</p>
+                                </div>
+                                <Switch
+                                    checked={!!quietHours}
+                                    onCheckedChange={(checked) => handleQuietHoursChange(checked ? DEFAULT_QUIET_HOURS : null)}
+                                />
+                            </div>
+                            {quietHours && (
+                                <div className="flex items-center gap-3">
+                                    <label className="flex-1 text-xs text-muted-foreground">
+                                        {t.profile.quietHoursFrom}
+                                        <Input
+                                            type="time"
+                                            defaultValue={quietHours.start}
+                                            onBlur={(e) => e.target.value !== quietHours.start && handleQuietHoursChange({ ...quietHours, start: e.target.value })}
+                                        />
+                                    </label>
+                                    <label className="flex-1 text-xs text-muted-foreground">
+                                        {t.profile.quietHoursTo}
+                                        <Input
+                                            type="time"
+                                            defaultValue={quietHours.end}
+                                            onBlur={(e) => e.target.value !== quietHours.end && handleQuietHoursChange({ ...quietHours, end: e.target.value })}
+                                        />
+                                    </label>
+                                </div>
+                            )}
+                        </div>
+                    </CollapsibleContent>
+                </Collapsible>
+            )}
+        </>
     );
 }
-
-
@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FileText, ExternalLink } from 'lucide-react';
+import { getPatientConsultationRecords, getPrescriptionUrl, formatDiagnosis } from '@kloqo/shared-core';
+import type { ConsultationRecord } from '@/lib/types';
+import { useFirebase } from '@/firebase/provider';
+import { useUser } from '@/firebase/auth/use-user';
+import { useLanguage } from '@/contexts/language-context';
+import { Skeleton } from '@/components/ui/skeleton';
+
+/**
+ * Prescriptions from the patient's past visits, newest first. Each one opens
+ * the same PDF that was sent over WhatsApp.
+ */
+export function PrescriptionHistory() {
+    const { t } = useLanguage();
+    const { user } = useUser();
+    const { firestore } = useFirebase() || {};
+    const [records, setRecords] = useState<ConsultationRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        if (!firestore || !user?.patientId) {
+            setLoading(false);
+            return;
+        }
+        getPatientConsultationRecords(firestore, user.patientId)
+            .then(setRecords)
+            .catch(error => console.error('[PrescriptionHistory] Failed to load prescriptions:', error))
+            .finally(() => setLoading(false));
+    }, [firestore, user?.patientId]);
+
+    return (
+        <div className="bg-card rounded-xl shadow-sm overflow-hidden">
+            <div className="flex items-center gap-4 p-4 border-b">
+                <FileText className="h-6 w-6 text-primary" />
+                <span className="font-semibold">{t.profile.prescriptions.title}</span>
+            </div>
+            {loading ? (
+                <div className="p-4">
+                    <Skeleton className="h-10 w-full" />
+                </div>
+            ) : records.length === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground">{t.profile.prescriptions.empty}</p>
+            ) : (
+                records.map(record => (
+                    <a
+                        key={record.id}
+                        href={getPrescriptionUrl(record)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center justify-between gap-4 p-4 border-b last:border-b-0 hover:bg-muted/50 transition-colors"
+                    >
+                        <div className="min-w-0">
+                            <p className="font-semibold">Dr. {record.doctorName}</p>
+                            <p className="text-sm text-muted-foreground">{record.date}</p>
+                            {record.diagnoses.length > 0 && (
+                                <p className="text-sm truncate">{record.diagnoses.map(formatDiagnosis).join(', ')}</p>
+                            )}
+                            {record.followUpDate && (
+                                <p className="text-xs text-muted-foreground">
+                                    {t.profile.prescriptions.followUp.replace('{date}', record.followUpDate)}
+                                </p>
+                            )}
+                        </div>
+                        <span className="flex items-center gap-1 text-sm text-primary shrink-0">
+                            {t.profile.prescriptions.view}
+                            <ExternalLink className="h-4 w-4" />
+                        </span>
+                    </a>
+                ))
+            )}
+        </div>
+    );
+}
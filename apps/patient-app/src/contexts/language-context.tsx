@@ -5,8 +5,8 @@ import translations from '@/translations';
 import { useUser } from '@/firebase/auth/use-user';
 import { useFirebase } from '@/firebase/provider';
 import { doc, updateDoc } from 'firebase/firestore';
-
-type Language = 'en' | 'ml';
+import { isSupportedLanguage } from '@kloqo/shared-core';
+import type { Language } from '@/lib/types';
 
 interface LanguageContextType {
   language: Language;
@@ -24,8 +24,8 @@ export function LanguageProvider({ children }: { children: ReactNode }) {
 
   useEffect(() => {
     // Load saved language from localStorage
-    const savedLanguage = localStorage.getItem('app-language') as Language;
-    if (savedLanguage && (savedLanguage === 'en' || savedLanguage === 'ml')) {
+    const savedLanguage = localStorage.getItem('app-language');
+    if (isSupportedLanguage(savedLanguage)) {
       setLanguageState(savedLanguage);
     }
     setIsMounted(true);
@@ -45,6 +45,17 @@ export function LanguageProvider({ children }: { children: ReactNode }) {
         console.error('Error syncing language preference:', error);
       }
     }
+
+    // Notifications for this patient are sent in the chosen language
+    if (user?.patientId && firestore) {
+      try {
+        await updateDoc(doc(firestore, 'patients', user.patientId), {
+          language: lang
+        });
+      } catch (error) {
+        console.error('Error syncing patient language preference:', error);
+      }
+    }
   };
 
   // Sync to Firestore when user loads, if local preference exists
@@ -1,4 +1,15 @@
 import { format } from 'date-fns';
+import type { Language } from '@/lib/types';
+
+// Tamil and Hindi names come from the browser's locale data
+const intlLocales: Partial<Record<Language, string>> = {
+  ta: 'ta-IN',
+  hi: 'hi-IN'
+};
+
+function formatWithIntl(date: Date, locale: string, options: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat(locale, options).format(date);
+}
 
 const malayalamMonths: Record<string, string> = {
   'January': 'ജനുവരി',
@@ -43,7 +54,7 @@ const malayalamDays: Record<string, string> = {
 /**
  * Format month and year with Malayalam support
  */
-export function formatMonthYear(date: Date, language: 'en' | 'ml'): string {
+export function formatMonthYear(date: Date, language: Language): string {
   if (language === 'ml') {
     const englishMonth = format(date, 'MMMM yyyy');
     const monthName = format(date, 'MMMM');
@@ -51,13 +62,17 @@ export function formatMonthYear(date: Date, language: 'en' | 'ml'): string {
     const malayalamMonth = malayalamMonths[monthName] || monthName;
     return `${malayalamMonth} ${year}`;
   }
+  const locale = intlLocales[language];
+  if (locale) {
+    return formatWithIntl(date, locale, { month: 'long', year: 'numeric' });
+  }
   return format(date, 'MMMM yyyy');
 }
 
 /**
  * Format date with Malayalam month support
  */
-export function formatDate(date: Date, formatStr: string, language: 'en' | 'ml'): string {
+export function formatDate(date: Date, formatStr: string, language: Language): string {
   if (language === 'ml') {
     if (formatStr === 'MMMM') {
       const monthName = format(date, 'MMMM');
@@ -67,17 +82,25 @@ export function formatDate(date: Date, formatStr: string, language: 'en' | 'ml')
       return malayalamShortMonths[shortMonthName] || shortMonthName;
     }
   }
+  const locale = intlLocales[language];
+  if (locale && (formatStr === 'MMMM' || formatStr === 'MMM')) {
+    return formatWithIntl(date, locale, { month: formatStr === 'MMMM' ? 'long' : 'short' });
+  }
   return format(date, formatStr);
 }
 
 /**
  * Format day of week with Malayalam support
  */
-export function formatDayOfWeek(date: Date, language: 'en' | 'ml'): string {
+export function formatDayOfWeek(date: Date, language: Language): string {
   const englishDay = format(date, 'EEE');
   if (language === 'ml') {
     return malayalamDays[englishDay] || englishDay;
   }
+  const locale = intlLocales[language];
+  if (locale) {
+    return formatWithIntl(date, locale, { weekday: 'short' });
+  }
   return englishDay;
 }
 
@@ -1,20 +1,21 @@
 import type { Department } from '@/hooks/use-master-departments';
+import type { Language } from '@/lib/types';
 
 /**
  * Get the localized department name based on the selected language
  * @param departmentName - The English department name
- * @param language - The selected language ('en' or 'ml')
+ * @param language - The selected language; only Malayalam names are in the master list
  * @param departments - Array of department objects with name_ml field
  * @returns The localized department name, or the original name if translation not found
  */
 export function getLocalizedDepartmentName(
   departmentName: string | undefined,
-  language: 'en' | 'ml',
+  language: Language,
   departments: Department[]
 ): string {
   if (!departmentName) return '';
   
-  if (language === 'en') {
+  if (language !== 'ml') {
     return departmentName;
   }
 
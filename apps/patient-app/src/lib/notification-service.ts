@@ -7,7 +7,7 @@ import { getMessaging } from 'firebase/messaging';
 import type { Firestore } from 'firebase/firestore';
 import { logger } from '@/lib/logger';
 import { parse, subMinutes, format } from 'date-fns';
-import { getClinicTimeString } from '@kloqo/shared-core';
+import { enqueueNotification, getClinicNow, getClinicTimeString, NOTIFICATION_TYPES, requestAppointmentRefund, resolveNotificationDecision, type NotificationType } from '@kloqo/shared-core';
 
 export interface NotificationData {
   type: 'appointment_confirmed' | 'appointment_reminder' | 'appointment_cancelled' | 'token_called' | 'doctor_late' | 'appointment_rescheduled';
@@ -19,6 +19,16 @@ export interface NotificationData {
   [key: string]: any;
 }
 
+// Push types the patient can switch off in notification settings.
+// appointment_confirmed answers the patient's own booking and is always sent.
+const PREFERENCE_TYPES: Partial<Record<NotificationData['type'], NotificationType>> = {
+  appointment_reminder: NOTIFICATION_TYPES.DAILY_REMINDER,
+  appointment_cancelled: NOTIFICATION_TYPES.APPOINTMENT_CANCELLED,
+  token_called: NOTIFICATION_TYPES.TOKEN_CALLED,
+  doctor_late: NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE,
+  appointment_rescheduled: NOTIFICATION_TYPES.BREAK_UPDATE,
+};
+
 /**
  * Get user's FCM token from Firestore
  */
@@ -69,6 +79,32 @@ export async function sendNotification(params: {
       return false;
     }
 
+    const notificationType = PREFERENCE_TYPES[data.type];
+    if (notificationType) {
+      const decision = resolveNotificationDecision({
+        notificationType,
+        channel: 'pwa',
+        globalEnabled: true,
+        patientPreferences: userData.notificationPreferences,
+        now: getClinicNow(),
+      });
+      if (!decision.allowed) {
+        logger.info(`Skipping ${data.type} notification (${decision.reason})`);
+        return false;
+      }
+      if (decision.deferUntil) {
+        // Quiet hours: the outbox sends it once they end
+        await enqueueNotification(firestore, {
+          channel: 'pwa',
+          notificationType,
+          patientId: userData.patientId,
+          payload: { userId, fcmToken, title, body, data, language: userData.language || 'en' },
+          deferUntil: decision.deferUntil,
+        });
+        return true;
+      }
+    }
+
     // Send notification to API endpoint
     const response = await fetch('/api/send-notification', {
       method: 'POST',
@@ -247,6 +283,15 @@ export async function sendAppointmentCancelledNotification(params: {
 }): Promise<boolean> {
   const { firestore, userId, appointmentId, doctorName, date, time, reason } = params;
 
+  // Refund bookings that were paid online
+  let refundedAmount: number | null = null;
+  try {
+    const refund = await requestAppointmentRefund(firestore, appointmentId);
+    refundedAmount = refund?.amount ?? null;
+  } catch (error) {
+    console.error('Error requesting refund for cancelled appointment:', error);
+  }
+
   // Cancellation shows reporting time
   let displayTime = time;
   try {
@@ -261,10 +306,11 @@ export async function sendAppointmentCancelledNotification(params: {
     firestore,
     userId,
     title: 'Appointment Cancelled',
-    body: `Your appointment with Dr. ${doctorName} on ${date} at ${displayTime} has been cancelled.${reason ? ` Reason: ${reason}` : ''}`,
+    body: `Your appointment with Dr. ${doctorName} on ${date} at ${displayTime} has been cancelled.${reason ? ` Reason: ${reason}` : ''}${refundedAmount ? ` Your payment of ₹${refundedAmount} will be refunded.` : ''}`,
     data: {
       type: 'appointment_cancelled',
       appointmentId,
+      ...(refundedAmount && { refundedAmount }),
       doctorName,
       date,
       time: displayTime,
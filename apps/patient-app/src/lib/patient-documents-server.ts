@@ -0,0 +1,33 @@
+import type { NextRequest } from 'next/server';
+import { getAuth } from 'firebase-admin/auth';
+import { getStorage } from 'firebase-admin/storage';
+import { FirebaseStorageDocumentStorage } from '@kloqo/shared-core';
+import { getAdminApp, getAdminFirestore } from '@/lib/firebase-admin';
+
+const STORAGE_BUCKET = 'kloqo-clinic-multi-33968-4c50b.firebasestorage.app';
+
+export function getPatientDocumentStorage() {
+  return new FirebaseStorageDocumentStorage(getStorage(getAdminApp()).bucket(STORAGE_BUCKET));
+}
+
+/**
+ * The signed-in patient and the family members they manage, from the bearer
+ * ID token. User docs of phone sign-ups are keyed by phone, so fall back to
+ * looking them up by uid.
+ */
+export async function getCallerPatientIds(request: NextRequest): Promise<{ uid: string; patientIds: string[] } | null> {
+  const idToken = request.headers.get('authorization')?.replace('Bearer ', '');
+  if (!idToken) return null;
+
+  const { uid } = await getAuth(getAdminApp()).verifyIdToken(idToken);
+  const firestore = getAdminFirestore();
+  let user = (await firestore.collection('users').doc(uid).get()).data();
+  if (!user) {
+    const byUid = await firestore.collection('users').where('uid', '==', uid).limit(1).get();
+    user = byUid.empty ? undefined : byUid.docs[0].data();
+  }
+  if (!user?.patientId) return null;
+
+  const patient = (await firestore.collection('patients').doc(user.patientId).get()).data();
+  return { uid, patientIds: [user.patientId, ...(patient?.relatedPatientIds || [])] };
+}
@@ -0,0 +1,29 @@
+import { getAuth, signInWithCustomToken } from 'firebase/auth';
+import { getFirestore, type Firestore } from 'firebase/firestore';
+import { getAuth as getAdminAuth } from 'firebase-admin/auth';
+import { getServerFirebaseApp } from '@kloqo/shared-firebase';
+import { getAdminApp } from '@/lib/firebase-admin';
+
+/**
+ * The same custom-token account the nurse app's crons and API routes use: the
+ * Firestore rules only let the server worker write payments.
+ */
+export const SERVER_WORKER_UID = 'kloqo-server-worker';
+
+let signingIn: Promise<unknown> | null = null;
+
+/**
+ * Firestore for the server app, signed in as the server worker. Server-side only.
+ */
+export async function getServerDb(): Promise<Firestore> {
+  const app = getServerFirebaseApp();
+  const auth = getAuth(app);
+  if (auth.currentUser?.uid !== SERVER_WORKER_UID) {
+    signingIn ??= getAdminAuth(getAdminApp())
+      .createCustomToken(SERVER_WORKER_UID, { worker: true })
+      .then(token => signInWithCustomToken(auth, token))
+      .finally(() => { signingIn = null; });
+    await signingIn;
+  }
+  return getFirestore(app);
+}
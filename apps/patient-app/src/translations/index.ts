@@ -1,10 +1,13 @@
 import en from './en.json';
 import ml from './ml.json';
+import ta from './ta.json';
+import hi from './hi.json';
 
 const translations = {
   en,
-  ml
+  ml,
+  ta,
+  hi
 };
 
 export default translations;
-
@@ -14,6 +14,8 @@ import { ArrowLeft, Building2, MapPin, Mail, FileText, ExternalLink, CheckCircle
 import { Switch } from '@/components/ui/switch';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell, AreaChart, Area } from 'recharts';
 import type { Clinic, Appointment } from '@/lib/analytics';
+import { ClinicSubscriptionCard } from '@/components/clinic-subscription-card';
+import { ClinicGroupCard } from '@/components/clinic-group-card';
 
 interface Doctor {
   id: string;
@@ -410,6 +412,19 @@ export default function ClinicDetailsPage() {
         </Card>
       </div>
 
+      <ClinicSubscriptionCard
+        clinicId={clinicId}
+        subscription={clinic.subscription}
+        doctorCount={doctors.length}
+        onChange={(subscription) => setClinic(prev => prev ? { ...prev, subscription } : null)}
+      />
+
+      <ClinicGroupCard
+        clinicId={clinicId}
+        groupId={clinic.groupId || null}
+        onChange={(groupId) => setClinic(prev => prev ? { ...prev, groupId } : null)}
+      />
+
       {/* Date Range Selector */}
       <Card>
         <CardHeader>
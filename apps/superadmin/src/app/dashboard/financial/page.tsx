@@ -2,8 +2,10 @@
 
 import { useEffect, useState, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { fetchAllClinics, fetchAllAppointments } from '@/lib/analytics';
+import { fetchAllClinics, fetchPlatformRollups } from '@/lib/analytics';
+import { getSubscriptionRevenueHistory, summarizeSubscriptionRevenue, sumMetricsRollups, SUBSCRIPTION_PLANS } from '@kloqo/shared-core';
 import { format, subMonths, startOfMonth, endOfMonth, eachMonthOfInterval } from 'date-fns';
+import type { DailyMetricsRollup } from '@/lib/types';
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend,
   ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell, AreaChart, Area
@@ -37,7 +39,7 @@ const GLOSSARY: Record<string, string> = {
   "MoM Growth Rate": "Month-over-Month Growth - The percentage increase in new clinics joining Kloqo each month.",
   "Starting Clinics": "The baseline number of clinics to start the financial projection with (simulated).",
   "Monthly Churn": "The percentage of clinics that cancel their subscription each month.",
-  "Base Subscription": "The fixed monthly fee charged to each clinic for using the platform.",
+  "Base Subscription": "The fixed monthly fee charged to each clinic. Projections use what paying clinics actually pay; this value only applies before the first paid subscription.",
   "Token Fee": "The fee Kloqo earns for every walk-in appointment processed (usage-based).",
   "Ad Rev / TV": "Revenue earned from pharmaceutical ads displayed on the clinic's reception TV.",
   "Passport Fee": "Subscription fee paid by patients for the 'Kloqo Health Passport' (premium features).",
@@ -79,7 +81,7 @@ export default function FinancialPage() {
   const [activeTab, setActiveTab] = useState<TabType>('overview');
   const [loading, setLoading] = useState(true);
   const [clinics, setClinics] = useState<any[]>([]);
-  const [appointments, setAppointments] = useState<any[]>([]);
+  const [rollups, setRollups] = useState<DailyMetricsRollup[]>([]);
 
   // Interactive Valuation State
   const [mrrMultiple, setMrrMultiple] = useState(10);
@@ -161,12 +163,12 @@ export default function FinancialPage() {
     const loadData = async () => {
       setLoading(true);
       try {
-        const [clinicsData, appointmentsData] = await Promise.all([
+        const [clinicsData, rollupsData] = await Promise.all([
           fetchAllClinics(),
-          fetchAllAppointments(),
+          fetchPlatformRollups(),
         ]);
         setClinics(clinicsData);
-        setAppointments(appointmentsData);
+        setRollups(rollupsData);
       } catch (error) {
         console.error('Error loading financial data:', error);
       } finally {
@@ -179,36 +181,43 @@ export default function FinancialPage() {
   // 1. Revenue Calculations
   const metrics = useMemo(() => {
     const activeClinics = clinics.filter(c => c.onboardingStatus === 'Completed').length;
-    const totalPatients = new Set(appointments.map(a => a.patientId)).size;
-
-    // Monthly calculation
-    const subRevenue = activeClinics * pricing.subscription;
-    const tokenRevenue = appointments.filter(a => a.status === 'Completed').length * pricing.tokenFee;
-    const adRevenue = activeClinics * (pricing.adAdoption / 100) * pricing.adRevenue;
-    const patientRevenue = totalPatients * (pricing.passportAdoption / 100) * pricing.healthPass;
-
-    const mrr = subRevenue + tokenRevenue + adRevenue + patientRevenue;
+    // Every patient is new exactly once, so the all-time sum counts each of them
+    const allTime = sumMetricsRollups(rollups);
+    const totalPatients = allTime.newPatients;
+
+    // Recurring revenue comes from the clinics' subscription records
+    const revenue = summarizeSubscriptionRevenue(clinics);
+    const history = getSubscriptionRevenueHistory(clinics, 12).map(month => ({
+      name: format(new Date(`${month.month}-01T00:00:00`), 'MMM yy'),
+      mrr: month.mrr,
+      clinics: month.activeSubscriptions,
+    }));
 
     return {
       activeClinics,
+      payingClinics: revenue.activeSubscriptions,
       totalPatients,
-      mrr,
-      arr: mrr * 12,
+      mrr: revenue.mrr,
+      arr: revenue.arr,
+      // What paying clinics actually pay today; the pricing slider only stands in before the first sale
+      subscriptionPerClinic: revenue.activeSubscriptions > 0 ? revenue.mrr / revenue.activeSubscriptions : null,
+      history,
       breakdown: [
-        { name: 'Subscriptions', value: subRevenue, color: '#3b82f6' },
-        { name: 'Token Fees', value: tokenRevenue, color: '#22c55e' },
-        { name: 'TV Ads', value: adRevenue, color: '#a855f7' },
-        { name: 'Health Passport', value: patientRevenue, color: '#f97316' },
+        { name: SUBSCRIPTION_PLANS.starter.name, value: Math.round(revenue.byPlan.starter), color: '#3b82f6' },
+        { name: SUBSCRIPTION_PLANS.growth.name, value: Math.round(revenue.byPlan.growth), color: '#22c55e' },
+        { name: SUBSCRIPTION_PLANS.pro.name, value: Math.round(revenue.byPlan.pro), color: '#a855f7' },
       ],
-      gmv: appointments.length * 300 // Avg 300 per consultation
+      consultations: allTime.bookings,
+      gmv: allTime.bookings * 300 // Avg 300 per consultation
     };
-  }, [clinics, appointments]);
+  }, [clinics, rollups]);
 
   // 2. P&L & Runway Modeler Logic
   const pnlProjections = useMemo(() => {
     const projection = [];
     // User Override: Use the higher of Live Data OR Simulation Input
     let currentClinics = Math.max(metrics.activeClinics, assumptions.startingClinics);
+    const subscriptionPerClinic = metrics.subscriptionPerClinic ?? pricing.subscription;
 
     for (let i = 1; i <= 12; i++) {
       // 1. Growth Engine
@@ -219,7 +228,7 @@ export default function FinancialPage() {
 
       // 2. Detailed Revenue Logic
       // Recurring
-      const revSub = currentClinics * pricing.subscription;
+      const revSub = currentClinics * subscriptionPerClinic;
       const revTokens = currentClinics * 45 * 25 * pricing.tokenFee; // 45 tokens/day * 25 days assumption
       const revAds = currentClinics * (pricing.adAdoption / 100) * pricing.adRevenue;
       const revPassport = currentClinics * 100 * (pricing.passportAdoption / 100) * pricing.healthPass; // 100 patients/mo assumption
@@ -246,7 +255,7 @@ export default function FinancialPage() {
       // Sales & Marketing (CAC)
       const costPaidMarketing = newClinics * assumptions.avgCac;
       const costBrandMarketing = assumptions.marketingFixed;
-      const newARR = (newClinics * pricing.subscription * 12);
+      const newARR = (newClinics * subscriptionPerClinic * 12);
       const costCommissions = newARR * (assumptions.salesCommission / 100);
 
       // G&A / R&D
@@ -274,7 +283,7 @@ export default function FinancialPage() {
     }
 
     // SaaS efficiency metrics (based on Month 1 run-rate for simplicity)
-    const avgMonthlyRevPerClinic = pricing.subscription + (45 * 25 * pricing.tokenFee);
+    const avgMonthlyRevPerClinic = subscriptionPerClinic + (45 * 25 * pricing.tokenFee);
     const avgMonthlyGrossProfit = avgMonthlyRevPerClinic - (avgMonthlyRevPerClinic * (assumptions.paymentGateway / 100) + (45 * 25 * assumptions.smsCost) + assumptions.hostingCost + assumptions.supportCost);
 
     // LTV based on Gross Profit, not Revenue (More accurate)
@@ -283,8 +292,8 @@ export default function FinancialPage() {
     const payback = assumptions.avgCac / avgMonthlyGrossProfit;
 
     // 4. Market Metrics
-    const tam = marketAssumptions.totalClinicsIndia * (pricing.subscription * 12);
-    const sam = marketAssumptions.serviceableClinics * (pricing.subscription * 12);
+    const tam = marketAssumptions.totalClinicsIndia * (subscriptionPerClinic * 12);
+    const sam = marketAssumptions.serviceableClinics * (subscriptionPerClinic * 12);
     const som = sam * (marketAssumptions.targetCapture / 100);
 
     // Rule of 40 = Growth Rate + Profit Margin
@@ -294,11 +303,11 @@ export default function FinancialPage() {
 
     return {
       projection,
-      efficiency: { ltv, ltvCac, payback },
+      efficiency: { ltv, ltvCac, payback, revenuePerClinic: avgMonthlyRevPerClinic },
       market: { tam, sam, som },
       ruleOf40
     };
-  }, [metrics.activeClinics, assumptions, pricing, marketAssumptions]);
+  }, [metrics.activeClinics, metrics.subscriptionPerClinic, assumptions, pricing, marketAssumptions]);
   // 3. Cohort Analytics (Mock Data for structure)
   const cohortData = [
     { month: 'Jan 2024', size: 10, m1: 100, m2: 90, m3: 80, m4: 80, m5: 70, m6: 70 },
@@ -412,7 +421,7 @@ export default function FinancialPage() {
                   <div className="space-y-3">
                     <div className="space-y-2">
                       <div className="flex justify-between text-[11px]">
-                        <label className="flex items-center">Base Subscription (₹) <span className="text-slate-500 ml-1">(Avg: ₹2-5k)</span> <InfoTooltip term="Base Subscription" /></label>
+                        <label className="flex items-center">Base Subscription (₹) <span className="text-slate-500 ml-1">{metrics.subscriptionPerClinic !== null ? `(Live: ₹${Math.round(metrics.subscriptionPerClinic)})` : '(Avg: ₹2-5k)'}</span> <InfoTooltip term="Base Subscription" /></label>
                         <span className="font-bold text-blue-400">₹{pricing.subscription}</span>
                       </div>
                       <input type="range" min="500" max="15000" step="100" value={pricing.subscription} onChange={e => setPricing({ ...pricing, subscription: Number(e.target.value) })} className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500" />
@@ -576,7 +585,7 @@ export default function FinancialPage() {
                   <CardContent>
                     <div className="flex items-center text-blue-100 text-xs">
                       <ArrowUpRight className="h-3 w-3 mr-1" />
-                      <span>Incl. Ads & Passport Streams</span>
+                      <span>From {metrics.payingClinics} paying clinics</span>
                     </div>
                   </CardContent>
                   <DollarSign className="absolute -right-2 -bottom-2 h-24 w-24 text-white/10" />
@@ -599,7 +608,7 @@ export default function FinancialPage() {
                     <CardTitle className="text-3xl font-bold text-white tracking-tighter">₹{metrics.gmv.toLocaleString()}</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="text-purple-100 text-xs">{appointments.length} Consultations processed</div>
+                    <div className="text-purple-100 text-xs">{metrics.consultations} Consultations processed</div>
                   </CardContent>
                   <Building2 className="absolute -right-2 -bottom-2 h-24 w-24 text-white/10" />
                 </Card>
@@ -621,7 +630,7 @@ export default function FinancialPage() {
                 <Card className="shadow-sm">
                   <CardHeader>
                     <CardTitle>Revenue Breakdown</CardTitle>
-                    <CardDescription>Contribution of mixed revenue streams to MRR</CardDescription>
+                    <CardDescription>Contribution of each subscription plan to MRR</CardDescription>
                   </CardHeader>
                   <CardContent className="h-[300px]">
                     <ResponsiveContainer width="100%" height="100%">
@@ -646,30 +655,20 @@ export default function FinancialPage() {
                   </CardContent>
                 </Card>
 
-                {/* Scale Projections Chart */}
+                {/* MRR History Chart */}
                 <Card className="shadow-sm">
                   <CardHeader>
-                    <CardTitle>Growth Scenarios (Annual MRR Forecast)</CardTitle>
-                    <CardDescription>Simulated projection for next 12 months</CardDescription>
+                    <CardTitle>MRR History</CardTitle>
+                    <CardDescription>Recurring revenue from subscription records, last 12 months</CardDescription>
                   </CardHeader>
                   <CardContent className="h-[300px]">
                     <ResponsiveContainer width="100%" height="100%">
-                      <AreaChart
-                        data={[
-                          { name: 'Month 0', cons: metrics.mrr, real: metrics.mrr, opt: metrics.mrr },
-                          { name: 'Month 3', cons: metrics.mrr * 2, real: metrics.mrr * 3, opt: metrics.mrr * 4 },
-                          { name: 'Month 6', cons: metrics.mrr * 4, real: metrics.mrr * 8, opt: metrics.mrr * 12 },
-                          { name: 'Month 9', cons: metrics.mrr * 6, real: metrics.mrr * 15, opt: metrics.mrr * 25 },
-                          { name: 'Month 12', cons: metrics.mrr * 10, real: metrics.mrr * 30, opt: metrics.mrr * 60 },
-                        ]}
-                      >
+                      <AreaChart data={metrics.history}>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} />
                         <XAxis dataKey="name" />
                         <YAxis />
                         <Tooltip formatter={(value: number) => `₹${value.toLocaleString()}`} />
-                        <Area type="monotone" dataKey="opt" stroke="#a855f7" fill="#a855f7" fillOpacity={0.1} name="Optimistic" />
-                        <Area type="monotone" dataKey="real" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.2} name="Realistic" />
-                        <Area type="monotone" dataKey="cons" stroke="#94a3b8" fill="#94a3b8" fillOpacity={0.1} name="Conservative" />
+                        <Area type="monotone" dataKey="mrr" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.2} name="MRR" />
                       </AreaChart>
                     </ResponsiveContainer>
                   </CardContent>
@@ -905,7 +904,7 @@ export default function FinancialPage() {
                       <div className="space-y-4">
                         <div className="flex justify-between border-b border-slate-700 pb-2">
                           <span className="text-slate-400">Monthly Revenue (Sub + Avg Tokens)</span>
-                          <span className="font-bold">₹{(pricing.subscription + (45 * 25 * pricing.tokenFee)).toLocaleString()}</span>
+                          <span className="font-bold">₹{Math.round(pnlProjections.efficiency.revenuePerClinic).toLocaleString()}</span>
                         </div>
                         <div className="flex justify-between border-b border-slate-700 pb-2 text-red-400 text-sm">
                           <span>Variable Costs (SMS + Cloud)</span>
@@ -914,7 +913,7 @@ export default function FinancialPage() {
                         <div className="flex justify-between pt-2">
                           <span className="font-bold underline">Contribution Margin</span>
                           <span className="text-xl font-black text-blue-400">
-                            ₹{((pricing.subscription + (45 * 25 * pricing.tokenFee)) - ((45 * 25 * assumptions.smsCost) + 100)).toLocaleString()}
+                            ₹{Math.round(pnlProjections.efficiency.revenuePerClinic - ((45 * 25 * assumptions.smsCost) + 100)).toLocaleString()}
                           </span>
                         </div>
                         <p className="text-[10px] text-slate-500 italic mt-2">
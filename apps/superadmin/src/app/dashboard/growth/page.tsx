@@ -2,37 +2,24 @@
 
 import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { fetchAllClinics, fetchAllPatients, fetchAllAppointments, calculateGrowthTrends } from '@/lib/analytics';
-import { formatGrowthPercentage } from '@/lib/metrics';
-import { format, subDays, subMonths, startOfMonth, endOfMonth, eachDayOfInterval, eachMonthOfInterval, startOfDay } from 'date-fns';
+import { fetchPlatformRollups } from '@/lib/analytics';
+import { formatGrowthPercentage, getDailyBookingTrend, getMonthlyRollupStats } from '@/lib/metrics';
+import { format, subMonths, startOfMonth } from 'date-fns';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from 'recharts';
 import { TrendingUp, Users, Building2, Calendar } from 'lucide-react';
-import type { Clinic, Patient, Appointment } from '@/lib/analytics';
+import type { DailyMetricsRollup } from '@/lib/types';
 
 export default function GrowthAnalyticsPage() {
   const [loading, setLoading] = useState(true);
-  const [clinics, setClinics] = useState<Clinic[]>([]);
-  const [patients, setPatients] = useState<Patient[]>([]);
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
-  const [growthData, setGrowthData] = useState<Array<{ date: string; count: number }>>([]);
+  const [rollups, setRollups] = useState<DailyMetricsRollup[]>([]);
 
   useEffect(() => {
     const loadData = async () => {
       setLoading(true);
       try {
-        const [clinicsData, patientsData, appointmentsData] = await Promise.all([
-          fetchAllClinics(),
-          fetchAllPatients(),
-          fetchAllAppointments(),
-        ]);
-
-        setClinics(clinicsData);
-        setPatients(patientsData);
-        setAppointments(appointmentsData);
-
-        // Calculate growth trends for last 90 days
-        const trends = calculateGrowthTrends(appointmentsData, 90);
-        setGrowthData(trends);
+        // Six calendar months also covers the 90-day trend
+        const fromKey = format(startOfMonth(subMonths(new Date(), 5)), 'yyyy-MM-dd');
+        setRollups(await fetchPlatformRollups(fromKey));
       } catch (error) {
         console.error('Error loading growth data:', error);
       } finally {
@@ -43,73 +30,14 @@ export default function GrowthAnalyticsPage() {
     loadData();
   }, []);
 
-  // Calculate monthly stats
-  const monthlyStats = (() => {
-    const now = new Date();
-    const months = [];
-    
-    for (let i = 5; i >= 0; i--) {
-      const monthDate = subMonths(now, i);
-      const monthStart = startOfMonth(monthDate);
-      const monthEnd = endOfMonth(monthDate);
-      
-      const monthAppointments = appointments.filter((apt) => {
-        let aptDate: Date | null = null;
-        if (apt.createdAt) {
-          aptDate = apt.createdAt.toDate ? apt.createdAt.toDate() : new Date(apt.createdAt);
-        } else if (apt.date) {
-          try {
-            const parts = apt.date.toLowerCase().split(' ');
-            const monthsMap: Record<string, number> = {
-              'january': 0, 'february': 1, 'march': 2, 'april': 3,
-              'may': 4, 'june': 5, 'july': 6, 'august': 7,
-              'september': 8, 'october': 9, 'november': 10, 'december': 11
-            };
-            if (parts.length === 3) {
-              const day = parseInt(parts[0]);
-              const month = monthsMap[parts[1]];
-              const year = parseInt(parts[2]);
-              if (!isNaN(day) && month !== undefined && !isNaN(year)) {
-                aptDate = new Date(year, month, day);
-              }
-            }
-          } catch (e) {
-            // Ignore
-          }
-        }
-        
-        if (!aptDate) return false;
-        return aptDate >= monthStart && aptDate <= monthEnd;
-      });
-
-      const monthPatients = patients.filter((patient) => {
-        if (!patient.createdAt) return false;
-        const createdDate = patient.createdAt.toDate ? patient.createdAt.toDate() : new Date(patient.createdAt);
-        return createdDate >= monthStart && createdDate <= monthEnd;
-      });
-
-      const monthClinics = clinics.filter((clinic) => {
-        if (!clinic.registrationDate) return false;
-        const regDate = clinic.registrationDate.toDate ? clinic.registrationDate.toDate() : new Date(clinic.registrationDate);
-        return regDate >= monthStart && regDate <= monthEnd;
-      });
-
-      months.push({
-        month: format(monthDate, 'MMM yyyy'),
-        appointments: monthAppointments.length,
-        patients: monthPatients.length,
-        clinics: monthClinics.length,
-      });
-    }
-    
-    return months;
-  })();
+  const monthlyStats = getMonthlyRollupStats(rollups, 6);
+  const growthData = getDailyBookingTrend(rollups, 90);
 
   // Calculate growth percentages
   const currentMonth = monthlyStats[monthlyStats.length - 1];
   const previousMonth = monthlyStats[monthlyStats.length - 2];
   const patientGrowth = previousMonth ? formatGrowthPercentage(currentMonth.patients, previousMonth.patients) : '0%';
-  const appointmentGrowth = previousMonth ? formatGrowthPercentage(currentMonth.appointments, previousMonth.appointments) : '0%';
+  const appointmentGrowth = previousMonth ? formatGrowthPercentage(currentMonth.bookings, previousMonth.bookings) : '0%';
   const clinicGrowth = previousMonth ? formatGrowthPercentage(currentMonth.clinics, previousMonth.clinics) : '0%';
 
   if (loading) {
@@ -172,10 +100,10 @@ export default function GrowthAnalyticsPage() {
             <Calendar className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{currentMonth.appointments}</div>
+            <div className="text-2xl font-bold">{currentMonth.bookings}</div>
             <p className="text-xs text-muted-foreground mt-1">
               {previousMonth && (
-                <span className={currentMonth.appointments >= previousMonth.appointments ? 'text-green-600' : 'text-red-600'}>
+                <span className={currentMonth.bookings >= previousMonth.bookings ? 'text-green-600' : 'text-red-600'}>
                   {appointmentGrowth} from last month
                 </span>
               )}
@@ -199,7 +127,7 @@ export default function GrowthAnalyticsPage() {
               <Tooltip />
               <Legend />
               <Bar dataKey="patients" fill="#8884d8" name="New Patients" />
-              <Bar dataKey="appointments" fill="#82ca9d" name="Appointments" />
+              <Bar dataKey="bookings" fill="#82ca9d" name="Appointments" />
               <Bar dataKey="clinics" fill="#ffc658" name="New Clinics" />
             </BarChart>
           </ResponsiveContainer>
@@ -262,14 +190,14 @@ export default function GrowthAnalyticsPage() {
               <tbody>
                 {monthlyStats.map((stat, index) => {
                   const prevStat = index > 0 ? monthlyStats[index - 1] : null;
-                  const growth = prevStat ? formatGrowthPercentage(stat.appointments, prevStat.appointments) : '-';
+                  const growth = prevStat ? formatGrowthPercentage(stat.bookings, prevStat.bookings) : '-';
                   
                   return (
                     <tr key={stat.month} className="border-b">
                       <td className="p-2 font-medium">{stat.month}</td>
                       <td className="text-right p-2">{stat.patients}</td>
                       <td className="text-right p-2">{stat.clinics}</td>
-                      <td className="text-right p-2">{stat.appointments}</td>
+                      <td className="text-right p-2">{stat.bookings}</td>
                       <td className={`text-right p-2 ${growth.startsWith('+') ? 'text-green-600' : growth.startsWith('-') ? 'text-red-600' : ''}`}>
                         {growth}
                       </td>
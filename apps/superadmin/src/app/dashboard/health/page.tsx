@@ -3,14 +3,14 @@
 import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { fetchAllClinics, fetchAllAppointments } from '@/lib/analytics';
+import { fetchPlatformRollups } from '@/lib/analytics';
+import { getLatestRollup } from '@/lib/metrics';
+import { getClinicISOString } from '@kloqo/shared-core';
+import { subDays } from 'date-fns';
 import { Activity, CheckCircle, AlertCircle, XCircle } from 'lucide-react';
-import type { Clinic, Appointment } from '@/lib/analytics';
 
 export default function HealthPage() {
   const [loading, setLoading] = useState(true);
-  const [clinics, setClinics] = useState<Clinic[]>([]);
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [health, setHealth] = useState({
     systemStatus: 'operational',
     uptime: '99.5%',
@@ -24,33 +24,21 @@ export default function HealthPage() {
     const loadData = async () => {
       setLoading(true);
       try {
-        const [clinicsData, appointmentsData] = await Promise.all([
-          fetchAllClinics(),
-          fetchAllAppointments(),
-        ]);
-
-        setClinics(clinicsData);
-        setAppointments(appointmentsData);
-
-        // Calculate health metrics
-        const activeClinics = clinicsData.filter(c => c.onboardingStatus === 'Completed').length;
-        
-        // Recent appointments (last 24 hours)
-        const yesterday = new Date();
-        yesterday.setDate(yesterday.getDate() - 1);
-        const recentAppointments = appointmentsData.filter((apt) => {
-          if (!apt.createdAt) return false;
-          const aptDate = apt.createdAt.toDate ? apt.createdAt.toDate() : new Date(apt.createdAt);
-          return aptDate >= yesterday;
-        }).length;
+        // Today's rollup is refreshed by the metrics cron through the day; until
+        // its first run, yesterday's still has the clinic counts
+        const today = getClinicISOString(new Date());
+        const yesterday = getClinicISOString(subDays(new Date(), 1));
+        const latest = getLatestRollup(await fetchPlatformRollups(yesterday, today));
+        const activeClinics = latest?.clinicsActive || 0;
+        const totalClinics = latest?.clinicsTotal || 0;
 
         // Determine system status
         let systemStatus = 'operational';
-        const clinicHealthRatio = activeClinics / clinicsData.length;
+        const clinicHealthRatio = activeClinics / totalClinics;
         
-        if (clinicHealthRatio < 0.5 && clinicsData.length > 0) {
+        if (clinicHealthRatio < 0.5 && totalClinics > 0) {
           systemStatus = 'degraded';
-        } else if (clinicHealthRatio === 0 && clinicsData.length > 0) {
+        } else if (clinicHealthRatio === 0 && totalClinics > 0) {
           systemStatus = 'down';
         }
 
@@ -58,8 +46,8 @@ export default function HealthPage() {
           systemStatus,
           uptime: '99.5%', // Placeholder - would come from monitoring
           activeClinics,
-          totalClinics: clinicsData.length,
-          recentAppointments,
+          totalClinics,
+          recentAppointments: latest?.dateKey === today ? latest.bookings : 0,
           errorRate: '0.1%', // Placeholder - would come from error logs
         });
       } catch (error) {
@@ -150,7 +138,7 @@ export default function HealthPage() {
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Recent Activity</p>
-              <p className="text-2xl font-bold">{health.recentAppointments} appointments (24h)</p>
+              <p className="text-2xl font-bold">{health.recentAppointments} appointments today</p>
             </div>
           </div>
         </CardContent>
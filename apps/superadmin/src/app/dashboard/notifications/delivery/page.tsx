@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArrowLeft, Bell, MessageSquare, Search, Send } from 'lucide-react';
+import { format } from 'date-fns';
+import { db } from '@/lib/firebase';
+import { firestoreTimestampToDate } from '@/lib/metrics';
+import {
+    getAppointmentNotificationHistory,
+    NOTIFICATION_METADATA,
+    type NotificationType,
+} from '@kloqo/shared-core';
+import type { NotificationOutboxEntry, NotificationOutboxStatus } from '@/lib/types';
+
+const STATUS_STYLES: Record<NotificationOutboxStatus, string> = {
+    Pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+    Sent: 'bg-blue-100 text-blue-800 border-blue-200',
+    Delivered: 'bg-green-100 text-green-800 border-green-200',
+    Read: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+    Failed: 'bg-red-100 text-red-800 border-red-200',
+};
+
+export default function NotificationDeliveryPage() {
+    const [appointmentId, setAppointmentId] = useState('');
+    const [entries, setEntries] = useState<NotificationOutboxEntry[] | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const handleSearch = async () => {
+        const id = appointmentId.trim();
+        if (!id) return;
+
+        setLoading(true);
+        try {
+            setEntries(await getAppointmentNotificationHistory(db, id));
+        } catch (error) {
+            console.error('Error loading notification history:', error);
+            alert('Failed to load notification history.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const getTypeName = (type?: string) =>
+        (type && NOTIFICATION_METADATA[type as NotificationType]?.name) || type || 'Unknown';
+
+    const formatTime = (value: any) => {
+        const date = typeof value === 'string' ? new Date(value) : firestoreTimestampToDate(value);
+        return date ? format(date, 'dd MMM yyyy, hh:mm:ss a') : '-';
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <Link href="/dashboard/notifications" className="text-sm text-muted-foreground flex items-center gap-1 mb-2 hover:text-primary">
+                    <ArrowLeft className="h-4 w-4" />
+                    Back to Notifications
+                </Link>
+                <h1 className="text-3xl font-bold flex items-center gap-2">
+                    <Send className="h-8 w-8 text-primary" />
+                    Delivery History
+                </h1>
+                <p className="text-muted-foreground mt-1">
+                    Every WhatsApp and push notification sent for an appointment, with retries and delivery receipts.
+                </p>
+            </div>
+
+            <Card>
+                <CardHeader className="pb-3">
+                    <form
+                        className="flex gap-2"
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            handleSearch();
+                        }}
+                    >
+                        <div className="relative flex-1">
+                            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                placeholder="Appointment ID"
+                                value={appointmentId}
+                                onChange={(e) => setAppointmentId(e.target.value)}
+                                className="pl-10 h-10"
+                            />
+                        </div>
+                        <Button type="submit" disabled={loading || !appointmentId.trim()}>
+                            {loading ? 'Searching...' : 'Search'}
+                        </Button>
+                    </form>
+                </CardHeader>
+            </Card>
+
+            {entries && entries.length === 0 && (
+                <div className="text-center py-12 text-muted-foreground">
+                    No notifications found for this appointment.
+                </div>
+            )}
+
+            {entries?.map(entry => (
+                <Card key={entry.id}>
+                    <CardHeader className="pb-2">
+                        <div className="flex items-start justify-between gap-4">
+                            <div>
+                                <CardTitle className="text-base flex items-center gap-2">
+                                    {entry.channel === 'whatsapp'
+                                        ? <MessageSquare className="h-4 w-4 text-green-600" />
+                                        : <Bell className="h-4 w-4 text-blue-600" />}
+                                    {getTypeName(entry.notificationType)}
+                                </CardTitle>
+                                <CardDescription className="text-xs mt-1">
+                                    {entry.channel === 'whatsapp' ? `WhatsApp to ${entry.to || '-'}` : 'PWA / Push'}
+                                    {' · '}Queued {formatTime(entry.createdAt)}
+                                </CardDescription>
+                            </div>
+                            <Badge variant="outline" className={STATUS_STYLES[entry.status]}>
+                                {entry.status}
+                            </Badge>
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+                            <span>Attempts: {entry.attempts}/{entry.maxAttempts}</span>
+                            {entry.providerMessageId && <span>Message ID: {entry.providerMessageId}</span>}
+                            {entry.status === 'Pending' && entry.attempts > 0 && (
+                                <span>Next retry: {formatTime(entry.nextAttemptAt)}</span>
+                            )}
+                        </div>
+                        {entry.lastError && (
+                            <p className="text-xs text-red-600 bg-red-50 rounded p-2">{entry.lastError}</p>
+                        )}
+                        {entry.history?.length > 0 && (
+                            <ol className="border-l pl-4 space-y-1">
+                                {entry.history.map((event, index) => (
+                                    <li key={index} className="text-xs">
+                                        <span className="font-medium">{event.status}</span>
+                                        <span className="text-muted-foreground"> · {formatTime(event.at)}</span>
+                                        {event.error && <span className="text-red-600"> · {event.error}</span>}
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </CardContent>
+                </Card>
+            ))}
+        </div>
+    );
+}
@@ -17,8 +17,10 @@ import {
     UserPlus,
     Clock,
     AlertTriangle,
-    Info
+    Info,
+    Send
 } from 'lucide-react';
+import Link from 'next/link';
 import { doc, setDoc, getDoc, collection, getDocs, writeBatch, serverTimestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import {
@@ -192,15 +194,23 @@ export default function NotificationsPage() {
                         Global toggles for WhatsApp and PWA / Push notifications.
                     </p>
                 </div>
-                <Button
-                    variant="outline"
-                    onClick={handleResetToDefaults}
-                    disabled={resetting}
-                    className="flex items-center gap-2"
-                >
-                    <RefreshCw className={`h-4 w-4 ${resetting ? 'animate-spin' : ''}`} />
-                    Reset All to Defaults
-                </Button>
+                <div className="flex gap-2">
+                    <Button variant="outline" asChild>
+                        <Link href="/dashboard/notifications/delivery" className="flex items-center gap-2">
+                            <Send className="h-4 w-4" />
+                            Delivery History
+                        </Link>
+                    </Button>
+                    <Button
+                        variant="outline"
+                        onClick={handleResetToDefaults}
+                        disabled={resetting}
+                        className="flex items-center gap-2"
+                    >
+                        <RefreshCw className={`h-4 w-4 ${resetting ? 'animate-spin' : ''}`} />
+                        Reset All to Defaults
+                    </Button>
+                </div>
             </div>
 
             <Card>
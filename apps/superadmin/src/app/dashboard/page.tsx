@@ -2,16 +2,15 @@
 
 import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { fetchAllClinics, fetchAllPatients, fetchAllAppointments, calculateGrowthTrends } from '@/lib/analytics';
-import { calculateGrowthPercentage, formatGrowthPercentage, calculate30DayRetention, calculateMAU } from '@/lib/metrics';
+import { fetchPlatformRollups } from '@/lib/analytics';
+import { formatGrowthPercentage, getLatestRollup, getMonthlyRollupStats } from '@/lib/metrics';
+import { getRollupRetentionRate, sumMetricsRollups } from '@kloqo/shared-core';
 import { TrendingUp, TrendingDown, Users, Building2, Calendar, Activity } from 'lucide-react';
-import type { Clinic, Patient, Appointment } from '@/lib/analytics';
 
 export default function OverviewDashboard() {
   const [loading, setLoading] = useState(true);
-  const [clinics, setClinics] = useState<Clinic[]>([]);
-  const [patients, setPatients] = useState<Patient[]>([]);
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [activeClinics, setActiveClinics] = useState(0);
+  const [prevMonthAppointments, setPrevMonthAppointments] = useState(0);
   const [stats, setStats] = useState({
     totalClinics: 0,
     totalPatients: 0,
@@ -25,88 +24,21 @@ export default function OverviewDashboard() {
     const loadData = async () => {
       setLoading(true);
       try {
-        const [clinicsData, patientsData, appointmentsData] = await Promise.all([
-          fetchAllClinics(),
-          fetchAllPatients(),
-          fetchAllAppointments(),
-        ]);
-
-        setClinics(clinicsData);
-        setPatients(patientsData);
-        setAppointments(appointmentsData);
-
-        // Calculate current month appointments
-        const now = new Date();
-        const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-        const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-        
-        const monthAppointments = appointmentsData.filter((apt) => {
-          let aptDate: Date | null = null;
-          if (apt.createdAt) {
-            if (apt.createdAt.toDate) {
-              aptDate = apt.createdAt.toDate();
-            } else {
-              aptDate = new Date(apt.createdAt);
-            }
-          }
-          if (!aptDate && apt.date) {
-            // Parse "15 October 2024" format
-            try {
-              const parts = apt.date.toLowerCase().split(' ');
-              const months: Record<string, number> = {
-                'january': 0, 'february': 1, 'march': 2, 'april': 3,
-                'may': 4, 'june': 5, 'july': 6, 'august': 7,
-                'september': 8, 'october': 9, 'november': 10, 'december': 11
-              };
-              if (parts.length === 3) {
-                const day = parseInt(parts[0]);
-                const month = months[parts[1]];
-                const year = parseInt(parts[2]);
-                if (!isNaN(day) && month !== undefined && !isNaN(year)) {
-                  aptDate = new Date(year, month, day);
-                }
-              }
-            } catch (e) {
-              // Ignore
-            }
-          }
-          
-          if (!aptDate) return false;
-          return aptDate >= monthStart && aptDate <= monthEnd;
-        });
-
-        // Calculate previous month for comparison
-        const prevMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-        const prevMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
-        
-        const prevMonthAppointments = appointmentsData.filter((apt) => {
-          let aptDate: Date | null = null;
-          if (apt.createdAt) {
-            if (apt.createdAt.toDate) {
-              aptDate = apt.createdAt.toDate();
-            } else {
-              aptDate = new Date(apt.createdAt);
-            }
-          }
-          if (!aptDate) return false;
-          return aptDate >= prevMonthStart && aptDate <= prevMonthEnd;
-        });
-
-        // Calculate stats
-        const retentionRate = calculate30DayRetention(patientsData, appointmentsData);
-        const mau = calculateMAU(appointmentsData, now);
+        const rollups = await fetchPlatformRollups();
+        const latest = getLatestRollup(rollups);
+        const allTime = sumMetricsRollups(rollups);
+        const [previousMonth, currentMonth] = getMonthlyRollupStats(rollups, 2);
 
         setStats({
-          totalClinics: clinicsData.length,
-          totalPatients: patientsData.length,
-          totalAppointments: appointmentsData.length,
-          monthlyAppointments: monthAppointments.length,
-          retentionRate,
-          mau,
+          totalClinics: latest?.clinicsTotal || 0,
+          totalPatients: latest?.patientsTotal || 0,
+          totalAppointments: allTime.bookings,
+          monthlyAppointments: currentMonth.bookings,
+          retentionRate: getRollupRetentionRate(allTime),
+          mau: currentMonth.monthlyActivePatients,
         });
-
-        // Store previous month for growth calculation
-        (window as any).prevMonthAppointments = prevMonthAppointments.length;
+        setActiveClinics(latest?.clinicsActive || 0);
+        setPrevMonthAppointments(previousMonth.bookings);
       } catch (error) {
         console.error('Error loading dashboard data:', error);
       } finally {
@@ -117,7 +49,6 @@ export default function OverviewDashboard() {
     loadData();
   }, []);
 
-  const prevMonthAppointments = (window as any).prevMonthAppointments || 0;
   const appointmentGrowth = formatGrowthPercentage(stats.monthlyAppointments, prevMonthAppointments);
 
   if (loading) {
@@ -241,7 +172,7 @@ export default function OverviewDashboard() {
             <div className="space-y-2">
               <div className="flex justify-between items-center">
                 <span className="text-sm">Clinics Active</span>
-                <span className="text-sm font-semibold">{clinics.filter(c => c.onboardingStatus === 'Completed').length} / {stats.totalClinics}</span>
+                <span className="text-sm font-semibold">{activeClinics} / {stats.totalClinics}</span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-sm">Average Appointments/Clinic</span>
@@ -0,0 +1,134 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { doc, getDoc } from 'firebase/firestore';
+import { ArrowLeft } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  dismissDuplicateCandidate,
+  getPendingDuplicateCandidates,
+  getUserActor,
+  requestPatientMerge,
+} from '@kloqo/shared-core';
+import type { Patient, PatientDuplicateCandidate } from '@/lib/types';
+
+type DuplicatePair = PatientDuplicateCandidate & { patients: [Patient, Patient] };
+
+export default function DuplicatePatientsPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadPairs = useCallback(async () => {
+    try {
+      const candidates = await getPendingDuplicateCandidates(db);
+      const loaded = await Promise.all(candidates.map(async candidate => {
+        const snaps = await Promise.all(candidate.patientIds.map(id => getDoc(doc(db, 'patients', id))));
+        if (snaps.some(snap => !snap.exists())) return null;
+        return { ...candidate, patients: snaps.map(snap => ({ ...snap.data(), id: snap.id })) as [Patient, Patient] };
+      }));
+      setPairs(loaded.filter((pair): pair is DuplicatePair => pair !== null));
+    } catch (error) {
+      console.error('Error loading duplicate patients:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPairs();
+  }, [loadPairs]);
+
+  const handleMerge = async (pair: DuplicatePair, survivor: Patient) => {
+    const duplicateId = pair.patientIds.find(id => id !== survivor.id)!;
+    if (!confirm(`Merge the other record into ${survivor.name}? The other record will be deleted.`)) return;
+    setBusyId(pair.id);
+    try {
+      await requestPatientMerge(db, survivor.id, duplicateId, pair.id);
+      setPairs(prev => prev.filter(p => p.id !== pair.id));
+    } catch (error: any) {
+      console.error('Error merging patients:', error);
+      alert(error.message || 'Failed to merge patients. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    setBusyId(pair.id);
+    try {
+      await dismissDuplicateCandidate(db, pair.id, getUserActor(user, 'superAdmin'));
+      setPairs(prev => prev.filter(p => p.id !== pair.id));
+    } catch (error) {
+      console.error('Error dismissing duplicate:', error);
+      alert('Failed to dismiss. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => router.push('/dashboard/patients')}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Duplicate Patients</h1>
+          <p className="text-muted-foreground mt-1">Likely duplicates across all clinics, best matches first</p>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading...</p>
+      ) : pairs.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">No possible duplicates to review.</CardContent>
+        </Card>
+      ) : (
+        pairs.map(pair => (
+          <Card key={pair.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                {Math.round(pair.score * 100)}% match
+                {pair.reasons.map(reason => (
+                  <Badge key={reason} variant="secondary">{reason}</Badge>
+                ))}
+              </CardTitle>
+              <CardDescription>{pair.clinicIds.length} clinic(s)</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                {pair.patients.map(patient => (
+                  <div key={patient.id} className="rounded-md border p-4 space-y-1 text-sm">
+                    <p className="font-medium">{patient.name}</p>
+                    <p className="text-muted-foreground">{patient.phone || 'No phone'}</p>
+                    <p className="text-muted-foreground">
+                      {[patient.age && `${patient.age} yrs`, patient.sex, patient.place].filter(Boolean).join(' · ')}
+                    </p>
+                    <p className="text-muted-foreground">{patient.visitHistory?.length || 0} visits</p>
+                    <Button size="sm" className="mt-2" disabled={busyId === pair.id} onClick={() => handleMerge(pair, patient)}>
+                      Keep this record
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <Button variant="outline" disabled={busyId === pair.id} onClick={() => handleDismiss(pair)}>
+                  Not a Duplicate
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
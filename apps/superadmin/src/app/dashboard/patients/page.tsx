@@ -276,9 +276,14 @@ export default function PatientsPage() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Patient Analytics</h1>
-        <p className="text-muted-foreground mt-1">Patient engagement and retention metrics</p>
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Patient Analytics</h1>
+          <p className="text-muted-foreground mt-1">Patient engagement and retention metrics</p>
+        </div>
+        <Button variant="outline" onClick={() => router.push('/dashboard/patients/duplicates')}>
+          Review Duplicates
+        </Button>
       </div>
 
       {/* Key Metrics */}
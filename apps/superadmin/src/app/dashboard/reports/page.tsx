@@ -3,31 +3,22 @@
 import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { fetchAllClinics, fetchAllPatients, fetchAllAppointments } from '@/lib/analytics';
-import { calculate30DayRetention, calculateMAU, formatGrowthPercentage } from '@/lib/metrics';
-import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns';
+import { fetchPlatformRollups } from '@/lib/analytics';
+import { formatGrowthPercentage, getLatestRollup, getMonthlyRollupStats } from '@/lib/metrics';
+import { getRollupRetentionRate, sumMetricsRollups } from '@kloqo/shared-core';
+import { format } from 'date-fns';
 import { FileText, Download, Calendar, Clock } from 'lucide-react';
 import Link from 'next/link';
-import type { Clinic, Patient, Appointment } from '@/lib/analytics';
+import type { DailyMetricsRollup } from '@/lib/types';
 
 export default function ReportsPage() {
   const [loading, setLoading] = useState(false);
-  const [clinics, setClinics] = useState<Clinic[]>([]);
-  const [patients, setPatients] = useState<Patient[]>([]);
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [rollups, setRollups] = useState<DailyMetricsRollup[]>([]);
 
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [clinicsData, patientsData, appointmentsData] = await Promise.all([
-          fetchAllClinics(),
-          fetchAllPatients(),
-          fetchAllAppointments(),
-        ]);
-
-        setClinics(clinicsData);
-        setPatients(patientsData);
-        setAppointments(appointmentsData);
+        setRollups(await fetchPlatformRollups());
       } catch (error) {
         console.error('Error loading reports data:', error);
       }
@@ -36,55 +27,20 @@ export default function ReportsPage() {
     loadData();
   }, []);
 
-  const generateMonthlyReport = () => {
-    const now = new Date();
-    const currentMonthStart = startOfMonth(now);
-    const currentMonthEnd = endOfMonth(now);
-    const prevMonthStart = startOfMonth(subMonths(now, 1));
-    const prevMonthEnd = endOfMonth(subMonths(now, 1));
+  const latest = getLatestRollup(rollups);
+  const allTime = sumMetricsRollups(rollups);
+  const retentionRate = getRollupRetentionRate(allTime);
+  const monthlyStats = getMonthlyRollupStats(rollups, 6);
+  const currentMonth = monthlyStats[monthlyStats.length - 1];
+  const previousMonth = monthlyStats[monthlyStats.length - 2];
 
-    const currentMonthAppointments = appointments.filter((apt) => {
-      let aptDate: Date | null = null;
-      if (apt.createdAt) {
-        aptDate = apt.createdAt.toDate ? apt.createdAt.toDate() : new Date(apt.createdAt);
-      }
-      if (!aptDate && apt.date) {
-        try {
-          const parts = apt.date.toLowerCase().split(' ');
-          const monthsMap: Record<string, number> = {
-            'january': 0, 'february': 1, 'march': 2, 'april': 3,
-            'may': 4, 'june': 5, 'july': 6, 'august': 7,
-            'september': 8, 'october': 9, 'november': 10, 'december': 11
-          };
-          if (parts.length === 3) {
-            const day = parseInt(parts[0]);
-            const month = monthsMap[parts[1]];
-            const year = parseInt(parts[2]);
-            if (!isNaN(day) && month !== undefined && !isNaN(year)) {
-              aptDate = new Date(year, month, day);
-            }
-          }
-        } catch (e) {
-          // Ignore
-        }
-      }
-      if (!aptDate) return false;
-      return aptDate >= currentMonthStart && aptDate <= currentMonthEnd;
-    });
-
-    const prevMonthAppointments = appointments.filter((apt) => {
-      let aptDate: Date | null = null;
-      if (apt.createdAt) {
-        aptDate = apt.createdAt.toDate ? apt.createdAt.toDate() : new Date(apt.createdAt);
-      }
-      if (!aptDate) return false;
-      return aptDate >= prevMonthStart && aptDate <= prevMonthEnd;
-    });
+  const totalClinics = latest?.clinicsTotal || 0;
+  const totalPatients = latest?.patientsTotal || 0;
 
-    const retention = calculate30DayRetention(patients, appointments);
-    const mau = calculateMAU(appointments, now);
-    const appointmentGrowth = prevMonthAppointments.length > 0
-      ? formatGrowthPercentage(currentMonthAppointments.length, prevMonthAppointments.length)
+  const generateMonthlyReport = () => {
+    const now = new Date();
+    const appointmentGrowth = previousMonth.bookings > 0
+      ? formatGrowthPercentage(currentMonth.bookings, previousMonth.bookings)
       : '0%';
 
     const report = {
@@ -92,14 +48,14 @@ export default function ReportsPage() {
       period: format(now, 'MMMM yyyy'),
       generatedAt: format(now, 'PPpp'),
       metrics: {
-        totalClinics: clinics.length,
-        activeClinics: clinics.filter(c => c.onboardingStatus === 'Completed').length,
-        totalPatients: patients.length,
-        monthlyActiveUsers: mau,
-        totalAppointments: appointments.length,
-        monthlyAppointments: currentMonthAppointments.length,
+        totalClinics,
+        activeClinics: latest?.clinicsActive || 0,
+        totalPatients,
+        monthlyActiveUsers: currentMonth.monthlyActivePatients,
+        totalAppointments: allTime.bookings,
+        monthlyAppointments: currentMonth.bookings,
         appointmentGrowth,
-        retentionRate: `${retention.toFixed(1)}%`,
+        retentionRate: `${retentionRate.toFixed(1)}%`,
       },
     };
 
@@ -138,39 +94,12 @@ Report generated by Kloqo SuperAdmin Dashboard
 
   const exportInvestorData = () => {
     const now = new Date();
-    const monthlyStats = [];
-
-    for (let i = 5; i >= 0; i--) {
-      const monthDate = subMonths(now, i);
-      const monthStart = startOfMonth(monthDate);
-      const monthEnd = endOfMonth(monthDate);
-
-      const monthAppointments = appointments.filter((apt) => {
-        let aptDate: Date | null = null;
-        if (apt.createdAt) {
-          aptDate = apt.createdAt.toDate ? apt.createdAt.toDate() : new Date(apt.createdAt);
-        }
-        if (!aptDate) return false;
-        return aptDate >= monthStart && aptDate <= monthEnd;
-      });
-
-      const monthPatients = patients.filter((patient) => {
-        if (!patient.createdAt) return false;
-        const createdDate = patient.createdAt.toDate ? patient.createdAt.toDate() : new Date(patient.createdAt);
-        return createdDate >= monthStart && createdDate <= monthEnd;
-      });
-
-      monthlyStats.push({
-        month: format(monthDate, 'MMM yyyy'),
-        patients: monthPatients.length,
-        appointments: monthAppointments.length,
-        clinics: clinics.filter(c => {
-          if (!c.registrationDate) return false;
-          const regDate = c.registrationDate.toDate ? c.registrationDate.toDate() : new Date(c.registrationDate);
-          return regDate >= monthStart && regDate <= monthEnd;
-        }).length,
-      });
-    }
+    const monthlyTrends = monthlyStats.map((stat) => ({
+      month: stat.month,
+      patients: stat.patients,
+      appointments: stat.bookings,
+      clinics: stat.clinics,
+    }));
 
     const investorData = {
       company: 'Klo intelligent Solutions',
@@ -178,13 +107,13 @@ Report generated by Kloqo SuperAdmin Dashboard
       reportType: 'Investor Pitch Data',
       generatedAt: format(now, 'PPpp'),
       currentMetrics: {
-        totalClinics: clinics.length,
-        totalPatients: patients.length,
-        totalAppointments: appointments.length,
-        retentionRate: `${calculate30DayRetention(patients, appointments).toFixed(1)}%`,
-        mau: calculateMAU(appointments, now),
+        totalClinics,
+        totalPatients,
+        totalAppointments: allTime.bookings,
+        retentionRate: `${retentionRate.toFixed(1)}%`,
+        mau: currentMonth.monthlyActivePatients,
       },
-      monthlyTrends: monthlyStats,
+      monthlyTrends,
       projections: {
         month3: { clinics: 20, mrr: 19980 },
         month6: { clinics: 50, mrr: 49950 },
@@ -288,20 +217,20 @@ Report generated by Kloqo SuperAdmin Dashboard
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div>
               <p className="text-sm text-muted-foreground">Total Clinics</p>
-              <p className="text-2xl font-bold">{clinics.length}</p>
+              <p className="text-2xl font-bold">{totalClinics}</p>
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Total Patients</p>
-              <p className="text-2xl font-bold">{patients.length}</p>
+              <p className="text-2xl font-bold">{totalPatients}</p>
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Total Appointments</p>
-              <p className="text-2xl font-bold">{appointments.length}</p>
+              <p className="text-2xl font-bold">{allTime.bookings}</p>
             </div>
             <div>
               <p className="text-sm text-muted-foreground">30-Day Retention</p>
               <p className="text-2xl font-bold">
-                {patients.length > 0 ? `${calculate30DayRetention(patients, appointments).toFixed(1)}%` : '0%'}
+                {`${retentionRate.toFixed(1)}%`}
               </p>
             </div>
           </div>
@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { db } from '@/lib/firebase';
+import { createClinicGroup, getClinicGroups, setClinicGroup } from '@kloqo/shared-core';
+import type { ClinicGroup } from '@/lib/types';
+
+interface ClinicGroupCardProps {
+  clinicId: string;
+  groupId: string | null;
+  onChange: (groupId: string | null) => void;
+}
+
+export function ClinicGroupCard({ clinicId, groupId, onChange }: ClinicGroupCardProps) {
+  const [groups, setGroups] = useState<ClinicGroup[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState<string>(groupId || '');
+  const [newGroupName, setNewGroupName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getClinicGroups(db)
+      .then(setGroups)
+      .catch(error => console.error('Error loading clinic groups:', error));
+  }, []);
+
+  const currentGroup = groups.find(g => g.id === groupId);
+
+  const moveTo = async (nextGroupId: string | null) => {
+    setSaving(true);
+    try {
+      await setClinicGroup(db, clinicId, nextGroupId);
+      setGroups(prev => prev.map(g => ({
+        ...g,
+        clinicIds: g.id === nextGroupId
+          ? Array.from(new Set([...g.clinicIds, clinicId]))
+          : g.clinicIds.filter(id => id !== clinicId),
+      })));
+      setSelectedGroupId(nextGroupId || '');
+      onChange(nextGroupId);
+    } catch (error) {
+      console.error('Error updating clinic group:', error);
+      alert('Failed to update clinic group. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const group = await createClinicGroup(db, newGroupName);
+      setGroups(prev => [...prev, group]);
+      setSelectedGroupId(group.id);
+      setNewGroupName('');
+    } catch (error) {
+      console.error('Error creating clinic group:', error);
+      alert('Failed to create clinic group. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Clinic Group</CardTitle>
+            <CardDescription>Branches of one hospital group share doctors and a group dashboard</CardDescription>
+          </div>
+          {currentGroup ? (
+            <Badge variant="secondary">{currentGroup.name} · {currentGroup.clinicIds.length} branches</Badge>
+          ) : (
+            <Badge variant="outline">Independent</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <select
+            className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+            value={selectedGroupId}
+            onChange={(e) => setSelectedGroupId(e.target.value)}
+          >
+            <option value="">No group</option>
+            {groups.map(g => (
+              <option key={g.id} value={g.id}>{g.name}</option>
+            ))}
+          </select>
+          <Button
+            disabled={saving || selectedGroupId === (groupId || '')}
+            onClick={() => {
+              if (groupId && !confirm('Move this clinic out of its current group? Doctors shared with other branches stay linked.')) return;
+              moveTo(selectedGroupId || null);
+            }}
+          >
+            {selectedGroupId ? 'Assign to Group' : 'Remove from Group'}
+          </Button>
+        </div>
+        <div className="flex items-end gap-3 pt-4 border-t">
+          <Input
+            placeholder="New group name"
+            value={newGroupName}
+            onChange={(e) => setNewGroupName(e.target.value)}
+            className="max-w-[260px]"
+          />
+          <Button variant="outline" disabled={saving || !newGroupName.trim()} onClick={handleCreate}>
+            Create Group
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { format } from 'date-fns';
+import { db } from '@/lib/firebase';
+import {
+  addWhatsAppPackCredits,
+  assignClinicSubscription,
+  cancelClinicSubscription,
+  getSubscriptionState,
+  renewClinicSubscription,
+  SUBSCRIPTION_PLANS,
+} from '@kloqo/shared-core';
+import type { Subscription, SubscriptionPlanId, SubscriptionStatus, SubscriptionTerm } from '@/lib/types';
+
+const STATUS_STYLES: Record<SubscriptionStatus, string> = {
+  Active: 'bg-green-100 text-green-800',
+  GracePeriod: 'bg-yellow-100 text-yellow-800',
+  Locked: 'bg-red-100 text-red-800',
+  Cancelled: 'bg-gray-100 text-gray-800',
+};
+
+interface ClinicSubscriptionCardProps {
+  clinicId: string;
+  subscription?: Subscription;
+  doctorCount: number;
+  onChange: (subscription: Subscription | undefined) => void;
+}
+
+export function ClinicSubscriptionCard({ clinicId, subscription, doctorCount, onChange }: ClinicSubscriptionCardProps) {
+  const [plan, setPlan] = useState<SubscriptionPlanId>(subscription?.plan || 'starter');
+  const [term, setTerm] = useState<SubscriptionTerm>(subscription?.term || 'annual');
+  const [packCredits, setPackCredits] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const state = subscription ? getSubscriptionState(subscription) : null;
+  const month = format(new Date(), 'yyyy-MM');
+  const whatsappUsed = subscription?.whatsappUsage?.month === month ? subscription.whatsappUsage.count : 0;
+
+  const run = async (action: () => Promise<Subscription | undefined>) => {
+    setSaving(true);
+    try {
+      onChange(await action());
+    } catch (error) {
+      console.error('Error updating subscription:', error);
+      alert('Failed to update subscription. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Subscription</CardTitle>
+            <CardDescription>Plan, limits and renewal for this clinic</CardDescription>
+          </div>
+          {state ? (
+            <Badge className={STATUS_STYLES[state.status]}>{state.status === 'GracePeriod' ? 'Grace Period' : state.status}</Badge>
+          ) : (
+            <Badge variant="outline">Legacy Free Plan</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {subscription && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground mb-1">Plan</p>
+              <p className="font-medium">
+                {SUBSCRIPTION_PLANS[subscription.plan].name} ({subscription.term === 'annual' ? 'Annual' : 'Monthly'})
+              </p>
+              <p className="text-xs text-muted-foreground">₹{subscription.price.toLocaleString()} per {subscription.term === 'annual' ? 'year' : 'month'}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground mb-1">Renewal Date</p>
+              <p className="font-medium">{subscription.renewalDate}</p>
+              <p className="text-xs text-muted-foreground">Since {subscription.startDate}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground mb-1">Doctors / Seats</p>
+              <p className="font-medium">{doctorCount} / {subscription.maxDoctors} doctors</p>
+              <p className="text-xs text-muted-foreground">{subscription.maxSeats} staff logins</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground mb-1">WhatsApp ({format(new Date(), 'MMM')})</p>
+              <p className="font-medium">{whatsappUsed} / {subscription.whatsappMonthlyQuota}</p>
+              <p className="text-xs text-muted-foreground">{subscription.whatsappPackCredits ?? 0} pack credits</p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3 pt-4 border-t">
+          <select
+            className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+            value={plan}
+            onChange={(e) => setPlan(e.target.value as SubscriptionPlanId)}
+          >
+            {Object.values(SUBSCRIPTION_PLANS).map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <select
+            className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+            value={term}
+            onChange={(e) => setTerm(e.target.value as SubscriptionTerm)}
+          >
+            <option value="annual">Annual</option>
+            <option value="monthly">Monthly</option>
+          </select>
+          <Button
+            disabled={saving}
+            onClick={() => {
+              if (subscription && !confirm('Replace the current subscription? Usage and pack credits will be reset.')) return;
+              run(() => assignClinicSubscription(db, clinicId, plan, term));
+            }}
+          >
+            {subscription ? 'Change Plan' : 'Assign Plan'}
+          </Button>
+          {subscription && (
+            <>
+              <Button variant="outline" disabled={saving} onClick={() => run(() => renewClinicSubscription(db, clinicId))}>
+                Renew
+              </Button>
+              {!subscription.cancelled && (
+                <Button
+                  variant="outline"
+                  className="text-destructive"
+                  disabled={saving}
+                  onClick={() => {
+                    if (!confirm('Cancel this subscription? The clinic will be locked out immediately.')) return;
+                    run(async () => {
+                      await cancelClinicSubscription(db, clinicId);
+                      return { ...subscription, cancelled: true };
+                    });
+                  }}
+                >
+                  Cancel Subscription
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+
+        {subscription && (
+          <div className="flex items-end gap-3">
+            <Input
+              type="number"
+              min="1"
+              placeholder="WhatsApp pack credits"
+              value={packCredits}
+              onChange={(e) => setPackCredits(e.target.value)}
+              className="max-w-[220px]"
+            />
+            <Button
+              variant="outline"
+              disabled={saving || !(Number(packCredits) > 0)}
+              onClick={() => run(async () => {
+                const credits = Number(packCredits);
+                await addWhatsAppPackCredits(db, clinicId, credits);
+                setPackCredits('');
+                return { ...subscription, whatsappPackCredits: (subscription.whatsappPackCredits ?? 0) + credits };
+              })}
+            >
+              Add Credits
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,11 @@
 import { collection, getDocs, query, where, orderBy, limit, doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { firestoreTimestampToDate, parseDateString } from './metrics';
+import { fetchMetricsRollups, getClinicISOString } from '@kloqo/shared-core';
+import type { DailyMetricsRollup, Subscription } from './types';
+
+// Earlier than any clinic on the platform, so "all time" covers every rollup
+const ROLLUPS_START_DATE_KEY = '2024-01-01';
 
 export interface Clinic {
   id: string;
@@ -33,6 +38,8 @@ export interface Clinic {
   licenseUrl?: string;
   receptionPhotoUrl?: string | null;
   plan?: string;
+  subscription?: Subscription;
+  groupId?: string | null;
   walkInTokenAllotment?: number;
   departments?: string[];
   shortCode?: string;
@@ -300,46 +307,22 @@ export function getPatientLastActive(patientId: string, appointments: Appointmen
 }
 
 /**
- * Calculate growth trends over time periods
+ * Fetch platform-wide daily rollups between two yyyy-MM-dd dates (inclusive),
+ * oldest first. Without a start date, every day since rollups began.
  */
-export function calculateGrowthTrends(
-  appointments: Appointment[],
-  days: number = 90
-): Array<{ date: string; count: number }> {
-  const now = new Date();
-  const trends: Map<string, number> = new Map();
-
-  for (let i = days - 1; i >= 0; i--) {
-    const date = new Date(now);
-    date.setDate(date.getDate() - i);
-    const dateStr = date.toISOString().split('T')[0];
-    trends.set(dateStr, 0);
+export async function fetchPlatformRollups(
+  fromKey: string = ROLLUPS_START_DATE_KEY,
+  toKey: string = getClinicISOString(new Date())
+): Promise<DailyMetricsRollup[]> {
+  try {
+    return await fetchMetricsRollups(db, fromKey, toKey);
+  } catch (error) {
+    console.error('Error fetching platform rollups:', error);
+    return [];
   }
-
-  appointments.forEach((apt) => {
-    let aptDate: Date | null = null;
-
-    if (apt.createdAt) {
-      aptDate = firestoreTimestampToDate(apt.createdAt);
-    } else if (apt.date) {
-      aptDate = parseDateString(apt.date);
-    }
-
-    if (!aptDate) return;
-
-    const dateStr = aptDate.toISOString().split('T')[0];
-    if (trends.has(dateStr)) {
-      trends.set(dateStr, (trends.get(dateStr) || 0) + 1);
-    }
-  });
-
-  return Array.from(trends.entries())
-    .map(([date, count]) => ({ date, count }))
-    .sort((a, b) => a.date.localeCompare(b.date));
 }
 
 
-
 export interface PunctualityLog {
   id: string;
   clinicId: string;
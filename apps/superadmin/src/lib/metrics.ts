@@ -1,4 +1,7 @@
 import { Timestamp } from 'firebase/firestore';
+import { addDays, format, parse, subMonths } from 'date-fns';
+import { getClinicISOString, sumMetricsRollups, type MetricsRollupTotals } from '@kloqo/shared-core';
+import type { DailyMetricsRollup } from './types';
 
 /**
  * Calculate growth percentage between two values
@@ -146,6 +149,66 @@ export function calculateClinicHealth(
   return Math.round(score);
 }
 
+export interface MonthlyRollupStats extends MetricsRollupTotals {
+  month: string; // "MMM yyyy"
+  patients: number; // patient sign-ups
+  clinics: number; // new clinics
+}
+
+/**
+ * Sum platform rollups into the last N calendar months (India time), oldest first
+ */
+export function getMonthlyRollupStats(
+  rollups: DailyMetricsRollup[],
+  months: number = 6,
+  now: Date = new Date()
+): MonthlyRollupStats[] {
+  const today = parse(getClinicISOString(now), 'yyyy-MM-dd', new Date());
+  const stats: MonthlyRollupStats[] = [];
+
+  for (let i = months - 1; i >= 0; i--) {
+    const monthDate = subMonths(today, i);
+    const monthKey = format(monthDate, 'yyyy-MM');
+    const monthRollups = rollups.filter((rollup) => rollup.dateKey.startsWith(monthKey));
+
+    stats.push({
+      ...sumMetricsRollups(monthRollups),
+      month: format(monthDate, 'MMM yyyy'),
+      patients: monthRollups.reduce((sum, rollup) => sum + (rollup.patientSignups || 0), 0),
+      clinics: monthRollups.reduce((sum, rollup) => sum + (rollup.newClinics || 0), 0),
+    });
+  }
+
+  return stats;
+}
+
+/**
+ * Bookings per day for the last N days, with empty days as zero
+ */
+export function getDailyBookingTrend(
+  rollups: DailyMetricsRollup[],
+  days: number = 90,
+  now: Date = new Date()
+): Array<{ date: string; count: number }> {
+  const bookingsByDay = new Map(rollups.map((rollup) => [rollup.dateKey, rollup.bookings]));
+  const today = parse(getClinicISOString(now), 'yyyy-MM-dd', new Date());
+
+  return Array.from({ length: days }, (_, i) => {
+    const date = format(addDays(today, i - days + 1), 'yyyy-MM-dd');
+    return { date, count: bookingsByDay.get(date) || 0 };
+  });
+}
+
+/**
+ * The newest rollup; its clinic and patient totals are the current ones
+ */
+export function getLatestRollup(rollups: DailyMetricsRollup[]): DailyMetricsRollup | null {
+  return rollups.reduce<DailyMetricsRollup | null>(
+    (latest, rollup) => (!latest || rollup.dateKey > latest.dateKey ? rollup : latest),
+    null
+  );
+}
+
 /**
  * Parse date string like "15 October 2024" to Date object (shared with analytics.ts)
  */
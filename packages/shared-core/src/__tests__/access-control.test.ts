@@ -0,0 +1,105 @@
+/**
+ * CRITICAL TEST 20: Staff Access Control
+ * Tests the role/permission matrix, how legacy and deactivated accounts are
+ * treated, the permission checks on cancel/fees/breaks and the users doc
+ * written for a new staff login.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { User } from '@kloqo/shared-types';
+import {
+  assertPermission,
+  buildStaffUserDoc,
+  getStaffRole,
+  hasPermission,
+  PermissionDeniedError,
+  ROLE_PERMISSIONS,
+} from '../services/access-control-service';
+import { updateDoctorFees } from '../services/payment-service';
+import { cancelAppointment } from '../services/appointment-service';
+import { SYSTEM_ACTOR } from '../services/appointment-event-service';
+
+const staff = (overrides: Partial<User> = {}): User => ({
+  uid: 'user-1',
+  phone: '+919876543210',
+  role: 'clinicAdmin',
+  clinicId: 'clinic-1',
+  ...overrides,
+});
+
+describe('getStaffRole', () => {
+  test('treats clinic admins without a staff role as owners', () => {
+    expect(getStaffRole(staff())).toBe('owner');
+    expect(getStaffRole(staff({ designation: 'Doctor' }))).toBe('owner');
+  });
+
+  test('gives patients, deactivated staff and missing users no role', () => {
+    expect(getStaffRole(staff({ role: 'patient' }))).toBeNull();
+    expect(getStaffRole(staff({ staffRole: 'nurse', active: false }))).toBeNull();
+    expect(getStaffRole(null)).toBeNull();
+  });
+});
+
+describe('hasPermission', () => {
+  test.each([
+    ['cancel_appointment', ['owner', 'receptionist']],
+    ['force_book', ['owner', 'receptionist', 'nurse']],
+    ['schedule_break', ['owner', 'doctor', 'nurse']],
+    ['edit_fees', ['owner']],
+    ['merge_patients', ['owner']],
+    ['manage_staff', ['owner']],
+  ] as const)('%s is allowed for %j only', (permission, allowed) => {
+    const roles = Object.keys(ROLE_PERMISSIONS) as (keyof typeof ROLE_PERMISSIONS)[];
+    const granted = roles.filter(role => hasPermission(staff({ staffRole: role }), permission));
+    expect(granted).toEqual(allowed);
+  });
+
+  test('read-only staff can change nothing', () => {
+    expect(ROLE_PERMISSIONS.readOnly).toEqual([]);
+  });
+});
+
+describe('assertPermission', () => {
+  test('throws a PermissionDeniedError naming the permission', () => {
+    expect(() => assertPermission(staff({ staffRole: 'doctor' }), 'cancel_appointment')).toThrow(PermissionDeniedError);
+    expect(() => assertPermission(staff({ staffRole: 'doctor' }), 'cancel_appointment')).toThrow('cancel appointments');
+    expect(() => assertPermission(staff(), 'cancel_appointment')).not.toThrow();
+  });
+
+  test('guards the fee and cancel services before they write', async () => {
+    const receptionist = staff({ staffRole: 'receptionist' });
+    await expect(updateDoctorFees({} as any, 'doc-1', { consultationFee: 300 }, receptionist)).rejects.toThrow(PermissionDeniedError);
+    await expect(cancelAppointment({} as any, { id: 'appt-1' } as any, { actor: SYSTEM_ACTOR, source: 'clinic-admin' }, staff({ staffRole: 'nurse' })))
+      .rejects.toThrow(PermissionDeniedError);
+  });
+});
+
+describe('buildStaffUserDoc', () => {
+  test('builds an onboarded, active clinic login', () => {
+    expect(buildStaffUserDoc('uid-2', {
+      clinicId: 'clinic-1',
+      name: ' Anu ',
+      email: 'Anu@Clinic.in',
+      phone: '98765 43210',
+      staffRole: 'doctor',
+      doctorId: 'doc-1',
+    })).toEqual({
+      uid: 'uid-2',
+      clinicId: 'clinic-1',
+      name: 'Anu',
+      email: 'anu@clinic.in',
+      phone: '+919876543210',
+      role: 'clinicAdmin',
+      staffRole: 'doctor',
+      doctorId: 'doc-1',
+      active: true,
+      onboarded: true,
+    });
+  });
+
+  test('rejects doctor logins without a doctor and bad phone numbers', () => {
+    const input = { clinicId: 'clinic-1', name: 'Anu', email: 'a@b.in', phone: '9876543210', staffRole: 'doctor' as const };
+    expect(() => buildStaffUserDoc('uid', input)).toThrow('linked to a doctor');
+    expect(() => buildStaffUserDoc('uid', { ...input, staffRole: 'nurse', phone: '12345' })).toThrow('10-digit');
+  });
+});
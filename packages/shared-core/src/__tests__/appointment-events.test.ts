@@ -0,0 +1,106 @@
+/**
+ * CRITICAL TEST 19: Appointment Event Log
+ * Tests the before/after diff recorded with every appointment mutation:
+ * timestamp normalisation, FieldValue sentinels, ignored bookkeeping fields
+ * and the event shape (actor, source, reason, previous id).
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { Appointment } from '@kloqo/shared-types';
+import {
+  buildAppointmentEvent,
+  diffAppointmentFields,
+  getUserActor,
+  normalizeEventValue,
+  SYSTEM_ACTOR,
+} from '../services/appointment-event-service';
+
+const NOW = new Date('2026-10-19T10:30:00+05:30');
+
+// Firestore is mocked in vitest.setup.ts, so stand in for a Timestamp and a sentinel
+const timestamp = (date: Date) => ({ toDate: () => date });
+const sentinel = { isEqual: () => false };
+
+const appointment = {
+  id: 'appt-1',
+  clinicId: 'clinic-1',
+  patientId: 'patient-1',
+  tokenNumber: 'A5',
+  status: 'Pending',
+  slotIndex: 4,
+  isPriority: false,
+  cutOffTime: timestamp(new Date('2026-10-19T10:00:00+05:30')),
+} as unknown as Appointment;
+
+describe('normalizeEventValue', () => {
+  test('stores dates and timestamps as ISO strings', () => {
+    expect(normalizeEventValue(NOW)).toBe(NOW.toISOString());
+    expect(normalizeEventValue(timestamp(NOW))).toBe(NOW.toISOString());
+  });
+
+  test('stores other FieldValue sentinels and undefined as null', () => {
+    expect(normalizeEventValue(sentinel)).toBeNull();
+    expect(normalizeEventValue(undefined)).toBeNull();
+  });
+});
+
+describe('diffAppointmentFields', () => {
+  test('keeps only fields that change and skips updatedAt', () => {
+    const changes = diffAppointmentFields(appointment, {
+      status: 'Skipped',
+      slotIndex: 4,
+      skippedAt: NOW,
+      updatedAt: new Date(),
+    }, NOW);
+
+    expect(changes).toEqual({
+      status: { before: 'Pending', after: 'Skipped' },
+      skippedAt: { before: null, after: NOW.toISOString() },
+    });
+  });
+
+  test('compares timestamps by instant', () => {
+    const same = diffAppointmentFields(appointment, { cutOffTime: new Date('2026-10-19T10:00:00+05:30') });
+    expect(same).toEqual({});
+  });
+});
+
+describe('buildAppointmentEvent', () => {
+  test('records who, where, why and the appointment identity', () => {
+    const actor = getUserActor({ uid: 'user-1', email: 'admin@clinic.in' }, 'clinicAdmin');
+    const event = buildAppointmentEvent(appointment, { isPriority: true }, {
+      action: 'priority_added',
+      actor,
+      source: 'clinic-admin',
+    });
+
+    expect(event).toEqual({
+      appointmentId: 'appt-1',
+      clinicId: 'clinic-1',
+      patientId: 'patient-1',
+      tokenNumber: 'A5',
+      action: 'priority_added',
+      actor: { type: 'user', id: 'user-1', name: 'admin@clinic.in', role: 'clinicAdmin' },
+      source: 'clinic-admin',
+      reason: null,
+      changes: { isPriority: { before: false, after: true } },
+    });
+  });
+
+  test('links a re-created appointment to its previous id', () => {
+    const event = buildAppointmentEvent(
+      { ...appointment, id: 'appt-2' },
+      { time: '11:00 AM' },
+      { action: 'shifted_for_break', actor: SYSTEM_ACTOR, source: 'system', reason: 'Break 10:30 AM - 11:00 AM', device: 'dev-1' },
+      { previousAppointmentId: 'appt-1' }
+    );
+
+    expect(event).toMatchObject({
+      appointmentId: 'appt-2',
+      previousAppointmentId: 'appt-1',
+      reason: 'Break 10:30 AM - 11:00 AM',
+      device: 'dev-1',
+      actor: SYSTEM_ACTOR,
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * CRITICAL TEST 10: Recurring Appointment Series
+ * Tests that a series expands to the right dates and that each occurrence is
+ * placed near the preferred time, or reported as a conflict with the reason.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { Appointment, Doctor } from '@kloqo/shared-types';
+import { buildSeriesDates, planSeriesOccurrence, type SeriesDay } from '../services/series-service';
+import { buildLeaveBreakPeriods } from '../services/leave-service';
+import { buildDaySlots } from '../services/scheduling-engine';
+import { getLeaveBlockedIndices, isSlotCapacityError } from '../services/appointment-service';
+import { parseTime } from '../utils/break-helpers';
+import { parseClinicDate } from '../utils/date-utils';
+
+const doctor: Doctor = {
+  id: 'doc-1',
+  clinicId: 'clinic-1',
+  name: 'Test Doctor',
+  specialty: 'General',
+  avatar: '',
+  schedule: '',
+  preferences: '',
+  historicalData: '',
+  department: 'General Medicine',
+  availability: 'Available',
+  averageConsultingTime: 15,
+  // 19 January 2026 is a Monday; each session has 4 slots, the last is the walk-in reserve
+  availabilitySlots: [
+    { day: 'Monday', timeSlots: [{ from: '09:00 AM', to: '10:00 AM' }, { from: '05:00 PM', to: '06:00 PM' }] },
+  ],
+};
+
+const now = parseTime('08:00 AM', parseClinicDate('18 January 2026'));
+
+const appointment = (date: string, slotIndex: number): Appointment => ({
+  id: `appt-${slotIndex}`,
+  clinicId: 'clinic-1',
+  patientId: `patient-${slotIndex}`,
+  patientName: `Patient ${slotIndex}`,
+  sex: 'Male',
+  communicationPhone: '',
+  age: 30,
+  doctor: doctor.name,
+  date,
+  time: '09:00 AM',
+  department: 'General Medicine',
+  status: 'Pending',
+  bookedVia: 'Advanced Booking',
+  slotIndex,
+  sessionIndex: slotIndex < 4 ? 0 : 1,
+  tokenNumber: `A${slotIndex + 1}`,
+  numericToken: slotIndex + 1,
+});
+
+const day = (dateStr: string, appointments: Appointment[] = [], source: Doctor = doctor, leaveSource?: Doctor): SeriesDay => {
+  const date = parseClinicDate(dateStr);
+  const slots = buildDaySlots(source, date);
+  return {
+    date,
+    slots,
+    appointments,
+    blockedIndices: getLeaveBlockedIndices(source, slots, date),
+    leaveIndices: leaveSource ? getLeaveBlockedIndices(leaveSource, slots, date) : [],
+  };
+};
+
+describe('Appointment Series - Dates', () => {
+  test('CRITICAL: every 2 weeks for 3 months gives 7 occurrences', () => {
+    const dates = buildSeriesDates({ startDate: '19 January 2026', endDate: '19 April 2026', intervalWeeks: 2 });
+
+    expect(dates).toHaveLength(7);
+    expect(dates[0]).toBe('19 January 2026');
+    expect(dates[1]).toBe('2 February 2026');
+    expect(dates[6]).toBe('13 April 2026');
+  });
+
+  test('CRITICAL: invalid intervals and ranges are rejected', () => {
+    expect(() => buildSeriesDates({ startDate: '19 January 2026', endDate: '19 April 2026', intervalWeeks: 0 })).toThrow();
+    expect(() => buildSeriesDates({ startDate: '19 April 2026', endDate: '19 January 2026', intervalWeeks: 1 })).toThrow();
+    expect(() => buildSeriesDates({ startDate: '19 January 2026', endDate: '19 January 2028', intervalWeeks: 1 })).toThrow();
+  });
+});
+
+describe('Appointment Series - Occurrence Placement', () => {
+  test('CRITICAL: the free slot closest to the preferred time is used', () => {
+    const monday = day('19 January 2026', [appointment('19 January 2026', 5)]);
+
+    expect(planSeriesOccurrence(monday, '05:15 PM', now)).toEqual({ slotIndex: 4, sessionIndex: 1, time: '05:00 PM' }); // tie goes to the earlier slot
+    expect(planSeriesOccurrence(monday, '05:25 PM', now)).toEqual({ slotIndex: 6, sessionIndex: 1, time: '05:30 PM' });
+    expect(planSeriesOccurrence(monday, '09:00 AM', now)).toEqual({ slotIndex: 0, sessionIndex: 0, time: '09:00 AM' });
+  });
+
+  test('CRITICAL: a day the doctor does not consult is a conflict', () => {
+    expect(planSeriesOccurrence(day('20 January 2026'), '09:00 AM', now)).toEqual({ conflict: 'NotWorking' });
+  });
+
+  test('CRITICAL: a session on leave is reported as leave, other sessions still book', () => {
+    const breaks = buildLeaveBreakPeriods(doctor, { id: 'leave-1', startDate: '19 January 2026', endDate: '19 January 2026', sessionIndices: [0] });
+    const onLeave = { ...doctor, breakPeriods: breaks };
+    const monday = day('19 January 2026', [], onLeave, onLeave);
+
+    expect(planSeriesOccurrence(monday, '09:00 AM', now)).toEqual({ conflict: 'Leave' });
+    expect(planSeriesOccurrence(monday, '05:00 PM', now)).toMatchObject({ slotIndex: 4 });
+  });
+
+  test('CRITICAL: a full session is reported as full', () => {
+    const date = '19 January 2026';
+    const monday = day(date, [0, 1, 2].map(index => appointment(date, index)));
+
+    expect(planSeriesOccurrence(monday, '09:30 AM', now)).toEqual({ conflict: 'Full' });
+  });
+});
+
+describe('Appointment Series - Booking Errors', () => {
+  const withCode = (message: string, code: string) => Object.assign(new Error(message), { code });
+
+  test('CRITICAL: only running out of room is recorded as a full day', () => {
+    expect(isSlotCapacityError(withCode('Advance booking capacity for the day has been reached.', 'A_CAPACITY_REACHED'))).toBe(true);
+    expect(isSlotCapacityError(withCode('Slot is already booked by another user', 'SLOT_ALREADY_BOOKED'))).toBe(true);
+    expect(isSlotCapacityError(new Error('No available slots match the booking rules.'))).toBe(true);
+
+    expect(isSlotCapacityError(withCode('Missing or insufficient permissions.', 'permission-denied'))).toBe(false);
+    expect(isSlotCapacityError(new Error('Doctor not found.'))).toBe(false);
+    expect(isSlotCapacityError('offline')).toBe(false);
+  });
+});
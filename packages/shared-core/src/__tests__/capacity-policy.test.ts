@@ -0,0 +1,160 @@
+/**
+ * CRITICAL TEST 7: Capacity Policy
+ * Tests the configurable advance/walk-in split: doctor rules override the clinic
+ * default, the default keeps the original 15% reserve, and every session gets its own reserve.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { addMinutes } from 'date-fns';
+import type { CapacityPolicy, Doctor } from '@kloqo/shared-types';
+import {
+  DEFAULT_ADVANCE_RATIO,
+  calculateWalkInReserve,
+  createSessionRatioResolver,
+  normalizeCapacityPolicy,
+  resolveAdvanceRatio,
+} from '../services/capacity-service';
+import { calculatePerSessionReservedSlots, type DailySlot } from '../services/day-slots';
+import { simulateClinicDay, type SimulationEvent } from '../services/day-simulator';
+import { parseTime } from '../utils/break-helpers';
+
+const doctorPolicy: CapacityPolicy = {
+  advanceRatio: 0.9,
+  rules: [
+    { sessionIndex: 0, advanceRatio: 0.6 },                  // mornings 40% walk-in
+    { day: 'Sunday', advanceRatio: 0.5 },
+    { day: 'Sunday', sessionIndex: 1, advanceRatio: 0.95 },
+  ],
+};
+
+const clinicPolicy: CapacityPolicy = {
+  advanceRatio: 0.7,
+  rules: [{ day: 'Saturday', advanceRatio: 1 }],
+};
+
+describe('Capacity Policy - Resolution', () => {
+  test('CRITICAL: falls back to the 85/15 split without any policy', () => {
+    expect(resolveAdvanceRatio('Monday', 0)).toBe(DEFAULT_ADVANCE_RATIO);
+  });
+
+  test('CRITICAL: most specific doctor rule wins', () => {
+    expect(resolveAdvanceRatio('Sunday', 1, doctorPolicy, clinicPolicy)).toBe(0.95); // day + session
+    expect(resolveAdvanceRatio('Sunday', 0, doctorPolicy, clinicPolicy)).toBe(0.5);  // day beats session
+    expect(resolveAdvanceRatio('Monday', 0, doctorPolicy, clinicPolicy)).toBe(0.6);  // session rule
+    expect(resolveAdvanceRatio('Monday', 1, doctorPolicy, clinicPolicy)).toBe(0.9);  // doctor default
+  });
+
+  test('CRITICAL: clinic policy applies to doctors without their own', () => {
+    expect(resolveAdvanceRatio('Monday', 1, undefined, clinicPolicy)).toBe(0.7);
+    expect(resolveAdvanceRatio('Saturday', 0, undefined, clinicPolicy)).toBe(1);
+  });
+
+  test('CRITICAL: out of range and invalid ratios are clamped or ignored', () => {
+    expect(resolveAdvanceRatio('Monday', 0, { advanceRatio: 1.5 })).toBe(1);
+    expect(resolveAdvanceRatio('Monday', 0, { advanceRatio: -1 })).toBe(0);
+    expect(resolveAdvanceRatio('Monday', 0, { rules: [{ advanceRatio: NaN }] }, clinicPolicy)).toBe(0.7);
+  });
+
+  test('CRITICAL: resolver uses the clinic weekday of the booking date', () => {
+    // 2026-01-18 is a Sunday
+    const resolve = createSessionRatioResolver({ capacityPolicy: doctorPolicy }, parseTime('10:00 AM', new Date('2026-01-18T00:00:00+05:30')));
+    expect(resolve(0)).toBe(0.5);
+    expect(resolve(1)).toBe(0.95);
+  });
+});
+
+describe('Capacity Policy - Editing', () => {
+  test('CRITICAL: saved policies keep only rules that can match', () => {
+    const policy = normalizeCapacityPolicy({
+      advanceRatio: 1.4,
+      rules: [
+        { day: 'Monday', advanceRatio: 0.6 },
+        { advanceRatio: 0.2 },                              // no day or session
+        { sessionIndex: 1, advanceRatio: Number.NaN },
+        { day: 'Monday', advanceRatio: 0.5 },               // replaces the first Monday rule
+        { day: 'Friday', sessionIndex: 0, advanceRatio: -1 },
+      ],
+    });
+
+    expect(policy).toEqual({
+      advanceRatio: 1,
+      rules: [
+        { day: 'Monday', advanceRatio: 0.5 },
+        { day: 'Friday', sessionIndex: 0, advanceRatio: 0 },
+      ],
+    });
+  });
+
+  test('CRITICAL: an empty policy falls back to the clinic default', () => {
+    expect(normalizeCapacityPolicy({ rules: [{ advanceRatio: 0.5 }] })).toBeNull();
+    expect(normalizeCapacityPolicy(undefined)).toBeNull();
+  });
+});
+
+describe('Capacity Policy - Walk-in Reserve', () => {
+  test('CRITICAL: default ratio keeps the original ceil(15%) reserve', () => {
+    for (let count = 0; count <= 60; count++) {
+      expect(calculateWalkInReserve(count)).toBe(count > 0 ? Math.ceil(count * 0.15) : 0);
+    }
+  });
+
+  test('CRITICAL: each session reserves its own share of future slots', () => {
+    const start = new Date('2026-01-19T09:00:00+05:30');
+    const slots: DailySlot[] = [];
+    for (let i = 0; i < 10; i++) slots.push({ index: i, time: addMinutes(start, i * 15), sessionIndex: 0 });
+    for (let i = 10; i < 20; i++) slots.push({ index: i, time: addMinutes(start, 480 + i * 15), sessionIndex: 1 });
+
+    const reserved = calculatePerSessionReservedSlots(slots, start, sessionIndex => (sessionIndex === 0 ? 0.6 : 0.95));
+
+    expect(Array.from(reserved).sort((a, b) => a - b)).toEqual([6, 7, 8, 9, 19]);
+  });
+});
+
+describe('Capacity Policy - Booking', () => {
+  const doctor: Doctor = {
+    id: 'doc-1',
+    clinicId: 'clinic-1',
+    name: 'Test Doctor',
+    specialty: 'General',
+    avatar: '',
+    schedule: '',
+    preferences: '',
+    historicalData: '',
+    department: 'General Medicine',
+    availability: 'Available',
+    consultationStatus: 'In',
+    averageConsultingTime: 15,
+    availabilitySlots: [{ day: 'Monday', timeSlots: [{ from: '09:00 AM', to: '12:00 PM' }] }],
+  };
+
+  const advanceBookings = (count: number): SimulationEvent[] =>
+    Array.from({ length: count }, (_, i) => ({
+      at: '07:00 AM',
+      type: 'book-advance' as const,
+      ref: `a${i}`,
+      patientName: `Patient ${i}`,
+    }));
+
+  test('CRITICAL: advance bookings stop at the doctor policy share', () => {
+    const result = simulateClinicDay({
+      date: '2026-01-19',
+      doctor: { ...doctor, capacityPolicy: { advanceRatio: 0.5 } },
+      events: advanceBookings(7),
+    });
+
+    expect(result.appointments.map(appt => appt.slotIndex)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(result.steps[6].error).toBe('No available slots match the booking rules.');
+  });
+
+  test('CRITICAL: a 100% advance session refuses walk-ins', () => {
+    const result = simulateClinicDay({
+      date: '2026-01-19',
+      doctor,
+      clinicCapacityPolicy: { advanceRatio: 1 },
+      events: [{ at: '09:05 AM', type: 'book-walk-in', ref: 'w1', patientName: 'Walk In' }],
+    });
+
+    expect(result.appointments).toHaveLength(0);
+    expect(result.steps[0].error).toBe('Walk-ins are not accepted for this session.');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * CRITICAL TEST 21: Clinic Groups
+ * Tests that a doctor's sessions are checked against their other branches
+ * and that the group dashboard counts appointments per branch and per doctor
+ * across branches.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { AvailabilitySlot } from '@kloqo/shared-types';
+import {
+  findBranchScheduleConflicts,
+  formatBranchConflict,
+  summarizeGroupAppointments,
+} from '../services/clinic-group-service';
+
+const mondayMorning: AvailabilitySlot[] = [
+  { day: 'Monday', timeSlots: [{ from: '09:00 AM', to: '12:00 PM' }] },
+];
+
+describe('findBranchScheduleConflicts', () => {
+  test('flags sessions that overlap on the same weekday', () => {
+    const conflicts = findBranchScheduleConflicts(mondayMorning, [
+      {
+        clinicId: 'branch-2',
+        clinicName: 'Kakkanad',
+        availabilitySlots: [{ day: 'Monday', timeSlots: [{ from: '11:30 AM', to: '02:00 PM' }] }],
+      },
+    ]);
+
+    expect(conflicts).toHaveLength(1);
+    expect(formatBranchConflict(conflicts[0])).toBe('Monday 09:00 AM - 12:00 PM overlaps 11:30 AM - 02:00 PM at Kakkanad');
+  });
+
+  test('allows back-to-back sessions and other weekdays', () => {
+    const otherBranch = {
+      clinicId: 'branch-2',
+      availabilitySlots: [
+        { day: 'Monday', timeSlots: [{ from: '12:00 PM', to: '03:00 PM' }] },
+        { day: 'Tuesday', timeSlots: [{ from: '09:00 AM', to: '12:00 PM' }] },
+      ],
+    };
+
+    expect(findBranchScheduleConflicts(mondayMorning, [otherBranch])).toEqual([]);
+  });
+
+  test('requires the travel gap between branches when one is given', () => {
+    const otherBranch = {
+      clinicId: 'branch-2',
+      availabilitySlots: [{ day: 'Monday', timeSlots: [{ from: '12:15 PM', to: '03:00 PM' }] }],
+    };
+
+    expect(findBranchScheduleConflicts(mondayMorning, [otherBranch], 15)).toEqual([]);
+    expect(findBranchScheduleConflicts(mondayMorning, [otherBranch], 30)).toHaveLength(1);
+  });
+});
+
+describe('summarizeGroupAppointments', () => {
+  const clinics = [
+    { id: 'branch-1', name: 'Edappally' },
+    { id: 'branch-2', name: 'Kakkanad' },
+  ];
+  const doctors = [
+    { id: 'doc-1', clinicId: 'branch-1', name: 'Anu', groupDoctorId: 'doc-1' },
+    { id: 'doc-9', clinicId: 'branch-2', name: 'Anu', groupDoctorId: 'doc-1' },
+    { id: 'doc-2', clinicId: 'branch-2', name: 'Ravi' },
+  ];
+  const appointment = (clinicId: string, doctor: string, patientId: string, status: any = 'Completed', date = '5 March 2026') =>
+    ({ clinicId, doctor, patientId, status, date, bookedVia: 'Advanced Booking' as const });
+
+  const summary = summarizeGroupAppointments([
+    appointment('branch-1', 'Anu', 'p1'),
+    appointment('branch-1', 'Anu', 'p2', 'Cancelled'),
+    appointment('branch-2', 'Anu', 'p1'),
+    appointment('branch-2', 'Ravi', 'p3', 'No-show'),
+    appointment('branch-2', 'Ravi', 'p3', 'Completed', '20 March 2026'),
+    appointment('clinic-elsewhere', 'Anu', 'p4'),
+  ], {
+    groupId: 'group-1',
+    clinics,
+    doctors,
+    from: new Date(2026, 2, 1),
+    to: new Date(2026, 2, 10),
+  });
+
+  test('counts each branch within the date range', () => {
+    expect(summary.branches).toEqual([
+      expect.objectContaining({ clinicId: 'branch-1', appointments: 2, completed: 1, cancelled: 1, uniquePatients: 2 }),
+      expect.objectContaining({ clinicId: 'branch-2', appointments: 2, completed: 1, noShows: 1, uniquePatients: 2 }),
+    ]);
+    expect(summary.totals).toEqual({
+      appointments: 4,
+      completed: 2,
+      cancelled: 1,
+      noShows: 1,
+      uniquePatients: 3,
+      crossBranchPatients: 1,
+    });
+  });
+
+  test('merges a shared doctor across branches', () => {
+    expect(summary.doctors[0]).toEqual({
+      groupDoctorId: 'doc-1',
+      name: 'Anu',
+      clinicIds: ['branch-1', 'branch-2'],
+      appointments: 3,
+      completed: 2,
+    });
+    expect(summary.doctors[1]).toMatchObject({ groupDoctorId: 'doc-2', appointments: 1, completed: 0 });
+  });
+});
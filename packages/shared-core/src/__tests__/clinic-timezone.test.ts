@@ -0,0 +1,178 @@
+/**
+ * CRITICAL TEST 27: Clinic Time Zones
+ * Tests that dates, slot times, sessions, ETAs, booking plans and quiet hours
+ * follow the clinic's own clock (India by default, Gulf and South-East Asian
+ * clinics on theirs), whatever timezone the server or device runs in.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { Appointment, Doctor, WaitlistEntry } from '@kloqo/shared-types';
+import {
+  getClinicDateString,
+  getClinicDateTime,
+  getClinicDayOfWeek,
+  getClinicHour,
+  getClinicTimeContext,
+  getClinicTimeString,
+  getTimeZoneOffsetMinutes,
+  parseClinicDate,
+  parseClinicTime,
+} from '../utils/date-utils';
+import { getCurrentActiveSession, parseTime } from '../utils/break-helpers';
+import { calculateEstimatedTimes } from '../utils/estimated-time-utils';
+import { isWithinQuietHours } from '../services/notification-config';
+import { buildDaySlots } from '../services/scheduling-engine';
+import { planSeriesOccurrence } from '../services/series-service';
+import { planWaitlistOffers } from '../services/waitlist-service';
+import { buildLeaveBreakPeriods } from '../services/leave-service';
+
+const india = getClinicTimeContext(null);
+const dubai = getClinicTimeContext({ timezone: 'Asia/Dubai' });
+const singapore = getClinicTimeContext({ timezone: 'Asia/Singapore' });
+const london = getClinicTimeContext({ timezone: 'Europe/London' });
+
+const doctor = {
+  id: 'd-1',
+  name: 'Anu',
+  clinicId: 'clinic-1',
+  consultationStatus: 'Out',
+  averageConsultingTime: 15,
+  availabilitySlots: [{ day: 'Monday', timeSlots: [{ from: '09:00 AM', to: '01:00 PM' }] }],
+} as Doctor;
+
+const appointment = (id: string, time: string): Appointment => ({
+  id,
+  clinicId: 'clinic-1',
+  doctor: 'Anu',
+  date: '19 October 2026',
+  time,
+  sessionIndex: 0,
+  status: 'Pending',
+} as Appointment);
+
+describe('getClinicTimeContext', () => {
+  test('uses the clinic\'s timezone, and India time without a valid one', () => {
+    expect(dubai.timeZone).toBe('Asia/Dubai');
+    expect(india.timeZone).toBe('Asia/Kolkata');
+    expect(getClinicTimeContext({ timezone: 'Mars/Olympus' }).timeZone).toBe('Asia/Kolkata');
+  });
+});
+
+describe('reading the clinic clock', () => {
+  test('shows the same instant in each clinic\'s local time', () => {
+    const instant = new Date('2026-10-19T05:00:00Z');
+
+    expect(getClinicTimeString(instant, india)).toBe('10:30 AM');
+    expect(getClinicTimeString(instant, dubai)).toBe('09:00 AM');
+    expect(getClinicTimeString(instant, singapore)).toBe('01:00 PM');
+    expect(getClinicHour(instant, singapore)).toBe(13);
+  });
+
+  test('rolls over to the next day at the clinic\'s own midnight', () => {
+    const instant = new Date('2026-10-19T19:00:00Z');
+
+    expect(getClinicDateString(instant, india)).toBe('20 October 2026');
+    expect(getClinicDateString(instant, dubai)).toBe('19 October 2026');
+    expect(getClinicDayOfWeek(instant, dubai)).toBe('Monday');
+  });
+
+  test('knows each zone\'s fixed offset', () => {
+    const instant = new Date('2026-10-19T05:00:00Z');
+
+    expect(getTimeZoneOffsetMinutes(instant, india)).toBe(330);
+    expect(getTimeZoneOffsetMinutes(instant, dubai)).toBe(240);
+    expect(getTimeZoneOffsetMinutes(instant, singapore)).toBe(480);
+  });
+});
+
+describe('parsing stored dates and times', () => {
+  test('a stored date is midnight on the clinic\'s calendar', () => {
+    expect(parseClinicDate('19 October 2026', dubai).toISOString()).toBe('2026-10-18T20:00:00.000Z');
+    expect(parseClinicDate('19 October 2026', singapore).toISOString()).toBe('2026-10-18T16:00:00.000Z');
+    expect(parseClinicDate('2026-10-19', india).toISOString()).toBe('2026-10-18T18:30:00.000Z');
+  });
+
+  test('a slot time lands on the clinic\'s day, not the server\'s', () => {
+    const day = parseClinicDate('19 October 2026', singapore);
+
+    expect(parseClinicTime('07:30 AM', day, singapore).toISOString()).toBe('2026-10-18T23:30:00.000Z');
+    expect(parseTime('07:30 AM', day, singapore).toISOString()).toBe('2026-10-18T23:30:00.000Z');
+    expect(parseClinicTime('14:00', parseClinicDate('19 October 2026', dubai), dubai).toISOString())
+      .toBe('2026-10-19T10:00:00.000Z');
+  });
+
+  test('follows daylight saving in zones that have it', () => {
+    // London leaves BST on 25 October 2026
+    expect(getClinicDateTime(2026, 9, 24, 9, 0, london).toISOString()).toBe('2026-10-24T08:00:00.000Z');
+    expect(getClinicDateTime(2026, 9, 26, 9, 0, london).toISOString()).toBe('2026-10-26T09:00:00.000Z');
+  });
+});
+
+describe('sessions and ETAs', () => {
+  test('finds the session on the clinic\'s clock', () => {
+    const now = new Date('2026-10-19T06:00:00Z'); // 10:00 AM in Dubai
+    const session = getCurrentActiveSession(doctor, now, now, dubai);
+
+    expect(session?.sessionStart.toISOString()).toBe('2026-10-19T05:00:00.000Z');
+    expect(getCurrentActiveSession(doctor, now, now, singapore)).toBeNull();
+  });
+
+  test('estimates from the session start in the clinic\'s time', () => {
+    const now = new Date('2026-10-19T04:30:00Z'); // 08:30 AM in Dubai
+    const estimates = calculateEstimatedTimes(
+      [appointment('a1', '09:00 AM'), appointment('a2', '09:15 AM')],
+      doctor,
+      now,
+      15,
+      undefined,
+      dubai
+    );
+
+    expect(estimates.map(e => e.estimatedTime)).toEqual(['09:00 AM', '09:15 AM']);
+  });
+});
+
+describe('quiet hours', () => {
+  test('are checked against the clinic\'s clock', () => {
+    const quietHours = { start: '22:00', end: '07:00' };
+    const instant = new Date('2026-10-19T17:00:00Z'); // 10:30 PM in India, 9 PM in Dubai
+
+    expect(isWithinQuietHours(quietHours, instant, india)).toBe(true);
+    expect(isWithinQuietHours(quietHours, instant, dubai)).toBe(false);
+  });
+});
+
+describe('booking in a Dubai clinic', () => {
+  const day = parseClinicDate('19 October 2026', dubai);
+  const slots = buildDaySlots(doctor, day, dubai);
+  const now = new Date('2026-10-18T08:00:00Z');
+
+  test('builds the day\'s slots from the clinic\'s session times', () => {
+    expect(slots[0].time.toISOString()).toBe('2026-10-19T05:00:00.000Z');
+    expect(slots).toHaveLength(16);
+  });
+
+  test('places a series occurrence at the preferred clinic time', () => {
+    const plan = planSeriesOccurrence({ date: day, slots, appointments: [], timeContext: dubai }, '11:00 AM', now);
+
+    expect(plan).toEqual({ slotIndex: 8, sessionIndex: 0, time: '11:00 AM' });
+  });
+
+  test('offers waitlisted patients the slot time on the clinic\'s clock', () => {
+    const entry = { id: 'w-1', status: 'Waiting', createdAt: now } as WaitlistEntry;
+    const { offers } = planWaitlistOffers({ sessionIndex: 0, slots, appointments: [], entries: [entry], timeContext: dubai }, now);
+
+    expect(offers).toEqual([{ entryId: 'w-1', slotIndex: 0, time: '09:00 AM' }]);
+  });
+
+  test('blocks leave over the clinic\'s session hours', () => {
+    const breaks = buildLeaveBreakPeriods(doctor, { id: 'leave-1', startDate: '19 October 2026', endDate: '19 October 2026' }, dubai);
+
+    expect(breaks['19 October 2026']).toMatchObject([{
+      startTime: '2026-10-19T05:00:00.000Z',
+      endTime: '2026-10-19T09:00:00.000Z',
+      startTimeFormatted: '09:00 AM',
+      endTimeFormatted: '01:00 PM',
+    }]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * CRITICAL TEST 22: Consultation Records
+ * Tests that visit notes are validated before they are saved and that the
+ * prescription lists only the sections the doctor filled in.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { ConsultationRecord } from '@kloqo/shared-types';
+import {
+  buildPrescriptionDocument,
+  formatMedication,
+  formatVitals,
+  normalizeConsultationRecordInput,
+} from '../services/consultation-record-service';
+
+const paracetamol = { name: 'Paracetamol', dose: '650 mg', frequency: '1-0-1', durationDays: 3 };
+
+describe('normalizeConsultationRecordInput', () => {
+  test('trims values and drops empty rows and blank optional fields', () => {
+    const result = normalizeConsultationRecordInput({
+      chiefComplaint: '  Fever for 3 days ',
+      vitals: { bloodPressure: '120 / 80', pulse: 88, temperature: undefined },
+      diagnoses: [{ code: 'r50.9', description: ' Fever, unspecified ' }, { code: '', description: '' }],
+      medications: [{ ...paracetamol, instructions: ' ' }, { name: '', dose: '', frequency: '', durationDays: 0 }],
+      advice: '  ',
+      followUpDate: '',
+    });
+
+    expect(result).toEqual({
+      chiefComplaint: 'Fever for 3 days',
+      vitals: { bloodPressure: '120/80', pulse: 88 },
+      diagnoses: [{ code: 'R50.9', description: 'Fever, unspecified' }],
+      medications: [paracetamol],
+    });
+  });
+
+  test('needs a chief complaint or a diagnosis', () => {
+    expect(() => normalizeConsultationRecordInput({ chiefComplaint: ' ', diagnoses: [], medications: [] }))
+      .toThrow('Enter the chief complaint or a diagnosis.');
+  });
+
+  test.each([
+    [{ vitals: { bloodPressure: '120-80' } }, 'Blood pressure must look like 120/80.'],
+    [{ vitals: { spo2: 120 } }, 'SpO2 must be between 50 and 100.'],
+    [{ diagnoses: [{ code: 'FEVER', description: 'Fever' }] }, '"FEVER" is not a valid ICD-10 code.'],
+    [{ medications: [{ ...paracetamol, frequency: '' }] }, 'Enter the dose and frequency for Paracetamol.'],
+    [{ medications: [{ ...paracetamol, durationDays: 0 }] }, 'Duration for Paracetamol must be between 1 and 365 days.'],
+    [{ followUpDate: '31 February 2026' }, 'Follow-up date is not valid.'],
+  ])('rejects %o', (overrides, message) => {
+    expect(() => normalizeConsultationRecordInput({
+      chiefComplaint: 'Cough',
+      diagnoses: [],
+      medications: [],
+      ...overrides,
+    })).toThrow(message);
+  });
+});
+
+describe('prescription formatting', () => {
+  test('formats medications and vitals', () => {
+    expect(formatMedication({ ...paracetamol, durationDays: 1, instructions: 'after food' }))
+      .toBe('Paracetamol 650 mg - 1-0-1 x 1 day (after food)');
+    expect(formatVitals({ bloodPressure: '130/85', temperature: 100.4, spo2: 97 }))
+      .toEqual(['BP 130/85 mmHg', 'Temp 100.4 °F', 'SpO2 97%']);
+  });
+
+  test('builds the prescription with only the filled sections', () => {
+    const record: ConsultationRecord = {
+      id: 'appt-1',
+      appointmentId: 'appt-1',
+      clinicId: 'clinic-1',
+      doctorName: 'Anu',
+      patientId: 'patient-1',
+      patientName: 'Ravi',
+      date: '5 March 2026',
+      chiefComplaint: 'Fever',
+      diagnoses: [{ code: 'R50.9', description: 'Fever, unspecified' }],
+      medications: [paracetamol],
+      advice: 'Drink plenty of water\n\nRest for two days',
+      followUpDate: '10 March 2026',
+      shareToken: 'token',
+    };
+
+    const prescription = buildPrescriptionDocument(
+      record,
+      { name: 'Sunrise Clinic', address: 'MG Road, Kochi' },
+      { specialty: 'General Medicine', degrees: ['MBBS', 'MD'], registrationNumber: 'TCMC 12345' }
+    );
+
+    expect(prescription.doctorName).toBe('Dr. Anu');
+    expect(prescription.doctorDetails).toEqual(['MBBS, MD - General Medicine', 'Reg. No. TCMC 12345']);
+    expect(prescription.clinicDetails).toEqual(['MG Road, Kochi']);
+    expect(prescription.sections).toEqual([
+      { heading: 'Chief Complaint', lines: ['Fever'] },
+      { heading: 'Diagnosis', lines: ['R50.9 - Fever, unspecified'] },
+      { heading: 'Rx', lines: ['1. Paracetamol 650 mg - 1-0-1 x 3 days'] },
+      { heading: 'Advice', lines: ['Drink plenty of water', 'Rest for two days'] },
+      { heading: 'Follow-up', lines: ['Review on 10 March 2026'] },
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * CRITICAL TEST 17: Consultation Time Model
+ * Tests sample extraction from completedAt history, training and shrinkage,
+ * p50/p90 predictions, the predictor inside calculateEstimatedTimes and the
+ * walk-forward backtest against the flat average.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { Appointment, Doctor } from '@kloqo/shared-types';
+import {
+  backtestConsultationTimeModel,
+  createConsultationPredictor,
+  extractConsultationSamples,
+  predictConsultationMinutes,
+  predictWaitMinutes,
+  quantile,
+  trainConsultationTimeModel,
+} from '../services/consultation-time-service';
+import { calculateEstimatedTimes } from '../utils/estimated-time-utils';
+
+const DOCTOR_ID = 'doc-1';
+
+/**
+ * One morning session per day from 09:00; walk-ins take 6 minutes and advance
+ * bookings 12, alternating. The first completion only marks the session start.
+ */
+function makeHistory(days: number, perDay: number = 12): Appointment[] {
+  const appointments: Appointment[] = [];
+  for (let day = 1; day <= days; day++) {
+    const date = `${day} October 2026`;
+    let time = new Date(`2026-10-${String(day).padStart(2, '0')}T09:00:00+05:30`);
+    for (let i = 0; i < perDay; i++) {
+      const walkIn = i % 2 === 1;
+      time = new Date(time.getTime() + (i === 0 ? 0 : (walkIn ? 6 : 12)) * 60000);
+      appointments.push({
+        id: `d${day}-${i}`,
+        patientId: `p${i}`,
+        doctorId: DOCTOR_ID,
+        doctor: 'Dr. Ravi',
+        date,
+        sessionIndex: 0,
+        status: 'Completed',
+        bookedVia: walkIn ? 'Walk-in' : 'Advanced Booking',
+        tokenNumber: walkIn ? `W${i}` : `A${i}`,
+        completedAt: time,
+      } as Appointment);
+    }
+  }
+  return appointments;
+}
+
+describe('extractConsultationSamples', () => {
+  test('measures the gap since the previous completion in the session', () => {
+    const samples = extractConsultationSamples(makeHistory(1));
+    expect(samples).toHaveLength(11);
+    expect(samples[0]).toMatchObject({ appointmentId: 'd1-1', minutes: 6, bookingType: 'walk-in', timeOfDay: 'morning', fatigue: '0-4' });
+    expect(samples[1]).toMatchObject({ appointmentId: 'd1-2', minutes: 12, bookingType: 'advance' });
+  });
+
+  test('drops idle gaps, break patients and appointments without completedAt', () => {
+    const history = makeHistory(1, 3);
+    history[2].completedAt = new Date((history[1].completedAt as Date).getTime() + 90 * 60000);
+    history.push({ ...history[0], id: 'break', patientId: 'dummy-break-patient' } as Appointment);
+    history.push({ ...history[0], id: 'open', completedAt: undefined } as Appointment);
+    expect(extractConsultationSamples(history).map(s => s.appointmentId)).toEqual(['d1-1']);
+  });
+
+  test('marks a patient\'s later visits as follow-ups', () => {
+    const samples = extractConsultationSamples(makeHistory(2));
+    expect(samples.find(s => s.appointmentId === 'd1-3')?.visitType).toBe('first');
+    expect(samples.find(s => s.appointmentId === 'd2-3')?.visitType).toBe('follow-up');
+  });
+});
+
+describe('trainConsultationTimeModel', () => {
+  test('needs enough samples to replace the flat average', () => {
+    expect(trainConsultationTimeModel(extractConsultationSamples(makeHistory(1)), { doctorId: DOCTOR_ID })).toBeNull();
+  });
+
+  test('learns the baseline and shrunk per-level multipliers', () => {
+    const samples = extractConsultationSamples(makeHistory(10));
+    const model = trainConsultationTimeModel(samples, { doctorId: DOCTOR_ID })!;
+
+    expect(model.sampleCount).toBe(110);
+    expect(model.base.p50).toBe(quantile(samples.map(s => s.minutes), 0.5));
+    expect(model.trainedFrom).toBe('1 October 2026');
+    expect(model.trainedTo).toBe('10 October 2026');
+    expect(model.factors.bookingType['walk-in']).toBeLessThan(1);
+    expect(model.factors.bookingType['advance']).toBeGreaterThanOrEqual(1);
+    // Shrinkage keeps the multiplier between the raw ratio (60 walk-ins at 6, 50 advance at 12) and 1
+    const overallMean = (60 * 6 + 50 * 12) / 110;
+    expect(model.factors.bookingType['walk-in']).toBeGreaterThan(6 / overallMean);
+  });
+});
+
+describe('predictions', () => {
+  const model = trainConsultationTimeModel(extractConsultationSamples(makeHistory(10)), { doctorId: DOCTOR_ID })!;
+
+  test('walk-ins are predicted shorter than advance bookings, with p90 above p50', () => {
+    const walkIn = predictConsultationMinutes(model, { timeOfDay: 'morning', bookingType: 'walk-in', fatigue: '0-4' });
+    const advance = predictConsultationMinutes(model, { timeOfDay: 'morning', bookingType: 'advance', fatigue: '0-4' });
+    expect(walkIn.p50).toBeLessThan(advance.p50);
+    expect(advance.p90).toBeGreaterThanOrEqual(advance.p50);
+  });
+
+  test('the predictor falls back to the flat average without a model', () => {
+    const predictor = createConsultationPredictor(null, { fallbackMinutes: 15 });
+    expect(predictWaitMinutes(predictor, 3, new Date('2026-10-19T10:00:00+05:30'))).toEqual({ p50: 45, p90: 45 });
+  });
+
+  test('calculateEstimatedTimes steps by the predicted p50 and reports the p90', () => {
+    const now = new Date('2026-10-19T10:00:00+05:30');
+    const doctor = { id: DOCTOR_ID, name: 'Dr. Ravi', consultationStatus: 'In' } as Doctor;
+    const queue = [
+      { id: 'a', date: '19 October 2026', status: 'Confirmed', bookedVia: 'Walk-in', tokenNumber: 'W1' },
+      { id: 'b', date: '19 October 2026', status: 'Confirmed', bookedVia: 'Advanced Booking', tokenNumber: 'A2' },
+    ] as Appointment[];
+
+    const flat = calculateEstimatedTimes(queue, doctor, now, 15);
+    expect(flat[1].estimatedTime).toBe('10:15 AM');
+    expect(flat[1].latestTime).toBeUndefined();
+
+    const learned = calculateEstimatedTimes(queue, doctor, now, 15, createConsultationPredictor(model, { fallbackMinutes: 15 }));
+    expect(learned[0]).toMatchObject({ estimatedTime: '10:00 AM', latestTime: '10:00 AM' });
+    expect(learned[1].estimatedTime).not.toBe('10:15 AM');
+    expect(learned[1].latestTime).toBeDefined();
+  });
+});
+
+describe('backtestConsultationTimeModel', () => {
+  test('walks forward and beats a badly set flat average', () => {
+    const result = backtestConsultationTimeModel(extractConsultationSamples(makeHistory(10)), {
+      doctorId: DOCTOR_ID,
+      fallbackMinutes: 20,
+      testDays: 5,
+    });
+    expect(result.testDays).toBe(5);
+    expect(result.samples).toBe(55);
+    expect(result.modelDays).toBe(5);
+    expect(result.modelMae).toBeLessThan(result.flatMae);
+    expect(result.p90Coverage).toBeGreaterThan(0.5);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * CRITICAL TEST 28: Canonical Date Keys
+ * Tests that appointments, breaks and session extensions get a sortable
+ * "yyyy-MM-dd" key and an absolute slot time next to their display date, and
+ * that reads work for documents written before and after the backfill.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { Appointment, BreakPeriod } from '@kloqo/shared-types';
+import {
+  getAppointmentDateFields,
+  getAppointmentDateKey,
+  getAppointmentSlotTime,
+  getDateKeyedEntry,
+  isDateKey,
+  toDateKey,
+  toDisplayDate,
+} from '../utils/date-keys';
+import { getClinicTimeContext } from '../utils/date-utils';
+import { createBreakPeriod, getSessionBreaks } from '../utils/break-helpers';
+import { withAppointmentDateFields } from '../services/appointment-event-service';
+
+const india = getClinicTimeContext(null);
+const dubai = getClinicTimeContext({ timezone: 'Asia/Dubai' });
+
+const breakOn = (id: string): BreakPeriod => ({
+  id,
+  startTime: '2026-10-19T06:00:00.000Z',
+  endTime: '2026-10-19T06:30:00.000Z',
+  startTimeFormatted: '11:30 AM',
+  endTimeFormatted: '12:00 PM',
+  duration: 30,
+  sessionIndex: 0,
+  slots: [],
+});
+
+describe('date keys', () => {
+  test('recognises real calendar days only', () => {
+    expect(isDateKey('2026-10-19')).toBe(true);
+    expect(isDateKey('2026-02-30')).toBe(false);
+    expect(isDateKey('19 October 2026')).toBe(false);
+    expect(isDateKey(undefined)).toBe(false);
+  });
+
+  test('converts stored display dates without touching the timezone', () => {
+    expect(toDateKey('19 October 2026')).toBe('2026-10-19');
+    expect(toDateKey('5 January 2027')).toBe('2027-01-05');
+    expect(toDateKey('19 Oct 2026')).toBe('2026-10-19');
+    expect(toDateKey('2026-10-19')).toBe('2026-10-19');
+    expect(toDateKey('sometime next week')).toBeNull();
+    expect(toDisplayDate('2027-01-05')).toBe('5 January 2027');
+  });
+
+  test('reads an instant on the clinic\'s calendar', () => {
+    const instant = new Date('2026-10-19T19:00:00Z');
+
+    expect(toDateKey(instant, india)).toBe('2026-10-20');
+    expect(toDateKey(instant, dubai)).toBe('2026-10-19');
+  });
+
+  test('sort in date order where display dates do not', () => {
+    const display = ['9 November 2026', '19 October 2026', '2 January 2027'];
+
+    expect([...display].sort()).toEqual(['19 October 2026', '2 January 2027', '9 November 2026']);
+    expect(display.map(date => toDateKey(date)!).sort()).toEqual(['2026-10-19', '2026-11-09', '2027-01-02']);
+  });
+});
+
+describe('appointment date fields', () => {
+  test('are written as a key and the slot start in the clinic\'s timezone', () => {
+    const fields = getAppointmentDateFields('19 October 2026', '09:30 AM', dubai);
+
+    expect(fields.dateKey).toBe('2026-10-19');
+    expect(fields.slotAt.toISOString()).toBe('2026-10-19T05:30:00.000Z');
+    expect(getAppointmentDateFields('19 October 2026', 'later', dubai)).toEqual({ dateKey: '2026-10-19' });
+    expect(getAppointmentDateFields('soon', '09:30 AM', dubai)).toEqual({});
+  });
+
+  test('are read from the stored fields, or derived for older appointments', () => {
+    const legacy = { date: '19 October 2026', time: '09:30 AM' } as Appointment;
+    const migrated = {
+      ...legacy,
+      dateKey: '2026-10-19',
+      slotAt: { toDate: () => new Date('2026-10-19T05:45:00Z') },
+    } as Appointment;
+
+    expect(getAppointmentDateKey(legacy)).toBe('2026-10-19');
+    expect(getAppointmentSlotTime(legacy, india)?.toISOString()).toBe('2026-10-19T04:00:00.000Z');
+    expect(getAppointmentSlotTime(migrated, india)?.toISOString()).toBe('2026-10-19T05:45:00.000Z');
+  });
+
+  test('follow an update that moves the slot', () => {
+    const appointment = { date: '19 October 2026', time: '09:30 AM' } as Appointment;
+
+    const moved = withAppointmentDateFields(appointment, { time: '10:00 AM' }, dubai);
+    expect(moved.dateKey).toBe('2026-10-19');
+    expect(moved.slotAt.toISOString()).toBe('2026-10-19T06:00:00.000Z');
+
+    const statusOnly = { status: 'Confirmed' };
+    expect(withAppointmentDateFields(appointment, statusOnly, dubai)).toBe(statusOnly);
+  });
+});
+
+describe('date-keyed doctor maps', () => {
+  test('read entries keyed by display date or by date key', () => {
+    const legacy = { '19 October 2026': [breakOn('legacy')] };
+    const keyed = { '2026-10-19': [breakOn('keyed')] };
+    const day = new Date('2026-10-19T06:00:00Z');
+
+    expect(getDateKeyedEntry(legacy, '2026-10-19')?.[0].id).toBe('legacy');
+    expect(getDateKeyedEntry(keyed, '19 October 2026')?.[0].id).toBe('keyed');
+    expect(getDateKeyedEntry(keyed, day, india)?.[0].id).toBe('keyed');
+    expect(getDateKeyedEntry(legacy, '20 October 2026')).toBeUndefined();
+  });
+
+  test('feed session breaks either way, and new breaks carry their key', () => {
+    const day = new Date('2026-10-19T06:00:00Z');
+    const doctor = { breakPeriods: { '2026-10-19': [breakOn('keyed')] } } as any;
+    const created = createBreakPeriod(['2026-10-19T19:00:00.000Z'], 0, 15, india);
+
+    expect(getSessionBreaks(doctor, day, 0, india).map(bp => bp.id)).toEqual(['keyed']);
+    expect(created.dateKey).toBe('2026-10-20');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * CRITICAL TEST 6: Day Simulator
+ * Replays a scripted clinic day against the pure scheduling engine.
+ * Guards deterministic replay, status transitions, break shifting and extensions.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { differenceInMinutes } from 'date-fns';
+import type { Appointment, Doctor } from '@kloqo/shared-types';
+import { simulateClinicDay, type SimulationScript } from '../services/day-simulator';
+import { buildDaySlots, planBreakShift } from '../services/scheduling-engine';
+import { parseClinicDate } from '../utils/date-utils';
+
+const doctor: Doctor = {
+  id: 'doc-1',
+  clinicId: 'clinic-1',
+  name: 'Test Doctor',
+  specialty: 'General',
+  avatar: '',
+  schedule: '',
+  preferences: '',
+  historicalData: '',
+  department: 'General Medicine',
+  availability: 'Available',
+  consultationStatus: 'Out',
+  averageConsultingTime: 15,
+  // 19 January 2026 is a Monday
+  availabilitySlots: [{ day: 'Monday', timeSlots: [{ from: '09:00 AM', to: '12:00 PM' }] }],
+};
+
+const baseScript = (): SimulationScript => ({
+  date: '2026-01-19',
+  doctor,
+  walkInTokenAllotment: 3,
+  events: [
+    { at: '07:00 AM', type: 'book-advance', ref: 'a1', patientName: 'Anu' },
+    { at: '07:05 AM', type: 'book-advance', ref: 'a2', patientName: 'Biju' },
+    { at: '08:00 AM', type: 'book-advance', ref: 'a3', patientName: 'Chitra', preferredSlotIndex: 5 },
+    { at: '09:00 AM', type: 'doctor-in' },
+    { at: '09:00 AM', type: 'arrive', ref: 'a1' },
+  ],
+});
+
+const findByName = (appointments: Appointment[], name: string) =>
+  appointments.find(appt => appt.patientName === name)!;
+
+describe('Day Simulator - Bookings', () => {
+  test('CRITICAL: advance bookings take the earliest free non-reserved slots', () => {
+    const result = simulateClinicDay(baseScript());
+
+    expect(findByName(result.appointments, 'Anu')).toMatchObject({ slotIndex: 0, tokenNumber: 'A1-001', time: '09:00 AM', status: 'Confirmed' });
+    expect(findByName(result.appointments, 'Biju')).toMatchObject({ slotIndex: 1, tokenNumber: 'A1-002' });
+    expect(findByName(result.appointments, 'Chitra')).toMatchObject({ slotIndex: 5, tokenNumber: 'A1-006', time: '10:15 AM' });
+  });
+
+  test('CRITICAL: cut-off and no-show are one consultation either side of the slot', () => {
+    const script = baseScript();
+    script.doctor = { ...doctor, averageConsultingTime: 10 };
+    const result = simulateClinicDay(script);
+    const anu = findByName(result.appointments, 'Anu');
+
+    expect(differenceInMinutes(anu.slotAt, anu.cutOffTime)).toBe(10);
+    expect(differenceInMinutes(anu.noShowTime, anu.slotAt)).toBe(10);
+  });
+
+  test('CRITICAL: walk-ins get W tokens without double-booking a slot', () => {
+    const script = baseScript();
+    script.events.push(
+      { at: '09:05 AM', type: 'book-walk-in', ref: 'w1', patientName: 'Deepa' },
+      { at: '09:06 AM', type: 'book-walk-in', ref: 'w2', patientName: 'Eldho' },
+    );
+    const result = simulateClinicDay(script);
+
+    expect(findByName(result.appointments, 'Deepa').tokenNumber).toBe('W1-001');
+    expect(findByName(result.appointments, 'Eldho').tokenNumber).toBe('W1-002');
+
+    const activeSlots = result.appointments
+      .filter(appt => appt.status !== 'Cancelled')
+      .map(appt => appt.slotIndex);
+    expect(new Set(activeSlots).size).toBe(activeSlots.length);
+  });
+
+  test('CRITICAL: a failed booking is recorded on the step instead of aborting the day', () => {
+    const script = baseScript();
+    script.events.push({ at: '11:59 AM', type: 'book-advance', ref: 'late', patientName: 'Late' });
+    const result = simulateClinicDay(script);
+
+    expect(result.steps[result.steps.length - 1].error).toBe('No available slots match the booking rules.');
+  });
+});
+
+describe('Day Simulator - Time Driven Transitions', () => {
+  test('CRITICAL: pending patient is skipped after cut-off and becomes No-show later', () => {
+    const script = baseScript();
+    script.events.push({ at: '09:20 AM', type: 'tick' });
+    expect(findByName(simulateClinicDay(script).appointments, 'Biju').status).toBe('Skipped');
+
+    script.events.push({ at: '09:40 AM', type: 'tick' });
+    expect(findByName(simulateClinicDay(script).appointments, 'Biju').status).toBe('No-show');
+  });
+
+  test('CRITICAL: while the doctor is Out, later patients stay Pending and nobody becomes No-show', () => {
+    const script = baseScript();
+    script.events = script.events.filter(event => event.type !== 'doctor-in');
+    script.events.push({ at: '10:05 AM', type: 'tick' });
+    const result = simulateClinicDay(script);
+
+    expect(findByName(result.appointments, 'Biju').status).toBe('Skipped');
+    expect(findByName(result.appointments, 'Chitra').status).toBe('Pending');
+  });
+});
+
+describe('Day Simulator - Breaks and Extensions', () => {
+  test('CRITICAL: appointments inside a break move to the first slot after it', () => {
+    const script = baseScript();
+    script.events.push({ at: '09:30 AM', type: 'break', sessionIndex: 0, start: '10:00 AM', end: '10:30 AM' });
+    const result = simulateClinicDay(script);
+
+    expect(findByName(result.appointments, 'Chitra')).toMatchObject({ slotIndex: 6, time: '10:30 AM', tokenNumber: 'A1-007' });
+    const blocks = result.appointments.filter(appt => appt.cancelledByBreak);
+    expect(blocks.map(appt => appt.slotIndex)).toEqual([4, 5]);
+    expect(result.doctor.breakPeriods?.['19 January 2026']).toHaveLength(1);
+  });
+
+  test('CRITICAL: a break over a lifted break reuses its blocks', () => {
+    const script = baseScript();
+    script.events.push({ at: '09:30 AM', type: 'break', sessionIndex: 0, start: '10:00 AM', end: '10:30 AM' });
+    const result = simulateClinicDay(script);
+    const date = parseClinicDate('2026-01-19');
+    const [breakPeriod] = result.doctor.breakPeriods!['19 January 2026'];
+    const blockIds = result.appointments.filter(appt => appt.cancelledByBreak).map(appt => appt.id);
+    const lifted = result.appointments.map(appt =>
+      appt.cancelledByBreak ? { ...appt, status: 'Cancelled' as const } : appt
+    );
+
+    const transitions = planBreakShift(
+      { doctor, date, slots: buildDaySlots(doctor, date), appointments: lifted, walkInTokenAllotment: 3 },
+      breakPeriod,
+      () => 'unused'
+    );
+
+    expect(transitions.some(transition => transition.type === 'create')).toBe(false);
+    expect(transitions.filter(transition => transition.type === 'update')).toEqual(
+      blockIds.map(appointmentId => ({ type: 'update', appointmentId, changes: { status: 'Completed' } }))
+    );
+  });
+
+  test('CRITICAL: extending a session adds physical slots', () => {
+    const script = baseScript();
+    script.events.push({ at: '11:00 AM', type: 'extend', sessionIndex: 0, newEndTime: '01:00 PM' });
+    const result = simulateClinicDay(script);
+    const date = parseClinicDate('2026-01-19');
+
+    expect(buildDaySlots(doctor, date)).toHaveLength(12);
+    expect(buildDaySlots(result.doctor, date)).toHaveLength(16);
+    expect(result.doctor.availabilityExtensions?.['19 January 2026'].sessions[0].totalExtendedBy).toBe(60);
+  });
+
+  test('CRITICAL: replaying the same script yields an identical day', () => {
+    const script = baseScript();
+    script.events.push(
+      { at: '09:05 AM', type: 'book-walk-in', ref: 'w1', patientName: 'Deepa' },
+      { at: '09:30 AM', type: 'break', sessionIndex: 0, start: '10:00 AM', end: '10:30 AM' },
+      { at: '09:45 AM', type: 'cancel', ref: 'a3' },
+    );
+
+    expect(simulateClinicDay(script)).toEqual(simulateClinicDay(script));
+  });
+
+  test('CRITICAL: events out of order are rejected', () => {
+    const script = baseScript();
+    script.events.push({ at: '08:00 AM', type: 'tick' });
+
+    expect(() => simulateClinicDay(script)).toThrow(/chronological/);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * CRITICAL TEST 25: Self Check-in Kiosk
+ * Tests the check-in QR codes, which appointments the kiosk may check in,
+ * phone lookup for patients without a QR, and that kiosk tablets stay separate
+ * from staff logins.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { Appointment, User } from '@kloqo/shared-types';
+import {
+  buildCheckInCode,
+  generateKioskPairingCode,
+  getKioskCheckInError,
+  matchAppointmentsByPhone,
+  parseCheckInCode,
+} from '../services/kiosk-service';
+import { buildKioskUserDoc, buildStaffUserDoc, hasPermission } from '../services/access-control-service';
+import { buildQrCodeSvg, encodeQrCode } from '../utils/qr-code';
+
+const today = '19 October 2026';
+
+const appointment = (overrides: Partial<Appointment> = {}) => ({
+  id: 'appt-1',
+  clinicId: 'clinic-1',
+  date: today,
+  status: 'Pending',
+  doctor: 'Anu',
+  patientName: 'Ravi',
+  communicationPhone: '+919876543210',
+  ...overrides,
+} as Appointment);
+
+describe('check-in codes', () => {
+  test('round-trips an appointment id', () => {
+    expect(parseCheckInCode(buildCheckInCode('AbC123xyz'))).toBe('AbC123xyz');
+  });
+
+  test('accepts live token links and rejects anything else', () => {
+    expect(parseCheckInCode('https://app.kloqo.com/live-token/AbC123xyz?token=t')).toBe('AbC123xyz');
+    expect(parseCheckInCode('https://example.com/menu')).toBeNull();
+    expect(parseCheckInCode('kloqo:checkin:../../users')).toBeNull();
+  });
+
+  test('encodes the code as a scannable QR with finder patterns in three corners', () => {
+    const modules = encodeQrCode(buildCheckInCode('AbCdEfGhIjKlMnOpQrSt'));
+    const size = modules.length;
+
+    expect(size).toBe(29); // version 3
+    for (const [x, y] of [[0, 0], [size - 7, 0], [0, size - 7]]) {
+      expect(modules[y].slice(x, x + 7)).toEqual(Array(7).fill(true));
+      expect(modules[y + 2].slice(x, x + 7)).toEqual([true, false, true, true, true, false, true]);
+    }
+    expect(buildQrCodeSvg('kloqo')).toMatch(/^<svg [^>]*viewBox="0 0 29 29"/);
+  });
+
+  test('picks a larger version for longer links', () => {
+    const link = `https://app.kloqo.com/live-token/AbC123xyz?token=${'t'.repeat(200)}`;
+    expect(encodeQrCode(link).length).toBeGreaterThan(encodeQrCode('https://app.kloqo.com/live-token/AbC123xyz').length);
+    expect(encodeQrCode('ടോക്കൺ A12 ✅').length).toBeGreaterThanOrEqual(21);
+  });
+
+  test('refuses text too long for any QR', () => {
+    expect(() => encodeQrCode('x'.repeat(3000))).toThrow('too big');
+  });
+});
+
+describe('getKioskCheckInError', () => {
+  test.each([
+    ['Pending', null],
+    ['Confirmed', null],
+    ['Skipped', 'Your turn was missed. Please see the reception desk.'],
+    ['Completed', 'This consultation is already complete.'],
+    ['Cancelled', 'This appointment was cancelled. Please see the reception desk.'],
+  ] as const)('%s appointments: %s', (status, error) => {
+    expect(getKioskCheckInError(appointment({ status }), 'clinic-1', today)).toBe(error);
+  });
+
+  test('only checks in today\'s appointments at this clinic', () => {
+    expect(getKioskCheckInError(appointment({ clinicId: 'clinic-2' }), 'clinic-1', today)).toBe('This token is for a different clinic.');
+    expect(getKioskCheckInError(appointment({ date: '20 October 2026' }), 'clinic-1', today))
+      .toBe('This token is for 20 October 2026, not today.');
+  });
+});
+
+describe('matchAppointmentsByPhone', () => {
+  test('matches the last 10 digits and skips finished appointments', () => {
+    const appointments = [
+      appointment({ id: 'a1' }),
+      appointment({ id: 'a2', communicationPhone: '9876543210', status: 'Confirmed' }),
+      appointment({ id: 'a3', status: 'Completed' }),
+      appointment({ id: 'a4', communicationPhone: '+919000000000' }),
+    ];
+
+    expect(matchAppointmentsByPhone(appointments, '98765 43210').map(a => a.id)).toEqual(['a1', 'a2']);
+    expect(matchAppointmentsByPhone(appointments, '12345')).toEqual([]);
+  });
+});
+
+describe('kiosk accounts', () => {
+  test('pairing codes are six digits', () => {
+    expect(generateKioskPairingCode(() => 0.000042)).toBe('000042');
+    expect(generateKioskPairingCode()).toMatch(/^\d{6}$/);
+  });
+
+  test('a kiosk books walk-ins but cannot cancel or manage staff', () => {
+    const kiosk: User = buildKioskUserDoc('kiosk-1', 'clinic-1', ' Front desk ');
+
+    expect(kiosk).toMatchObject({ name: 'Front desk', role: 'clinicAdmin', staffRole: 'kiosk', active: true });
+    expect(hasPermission(kiosk, 'book_appointment')).toBe(true);
+    expect(hasPermission(kiosk, 'cancel_appointment')).toBe(false);
+    expect(hasPermission(kiosk, 'manage_staff')).toBe(false);
+  });
+
+  test('kiosks cannot be created as staff logins', () => {
+    expect(() => buildStaffUserDoc('', {
+      clinicId: 'clinic-1',
+      name: 'Tablet',
+      email: 'tablet@example.com',
+      phone: '9876543210',
+      staffRole: 'kiosk',
+    })).toThrow('Kiosks are added by pairing a tablet, not as staff logins');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * CRITICAL TEST 8: Doctor Leave Rebooking
+ * Tests that a leave blocks exactly its sessions, picks up the pending appointments
+ * inside it, and proposes each patient a distinct next free advance slot.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { Appointment, Doctor, DoctorLeave } from '@kloqo/shared-types';
+import {
+  buildLeaveBreakPeriods,
+  createDoctorLeave,
+  getLeaveDates,
+  isAppointmentOnLeave,
+  planLeaveRebooking,
+  type LeaveRebookDay,
+} from '../services/leave-service';
+import { buildDaySlots } from '../services/scheduling-engine';
+import { getLeaveBlockedIndices } from '../services/appointment-service';
+import { parseTime } from '../utils/break-helpers';
+import { parseClinicDate } from '../utils/date-utils';
+
+const doctor: Doctor = {
+  id: 'doc-1',
+  clinicId: 'clinic-1',
+  name: 'Test Doctor',
+  specialty: 'General',
+  avatar: '',
+  schedule: '',
+  preferences: '',
+  historicalData: '',
+  department: 'General Medicine',
+  availability: 'Available',
+  averageConsultingTime: 15,
+  // 19 January 2026 is a Monday
+  availabilitySlots: [
+    { day: 'Monday', timeSlots: [{ from: '09:00 AM', to: '10:00 AM' }, { from: '05:00 PM', to: '06:00 PM' }] },
+    { day: 'Tuesday', timeSlots: [{ from: '09:00 AM', to: '10:00 AM' }] },
+    { day: 'Thursday', timeSlots: [{ from: '09:00 AM', to: '10:00 AM' }] },
+  ],
+};
+
+const leave: Pick<DoctorLeave, 'id' | 'startDate' | 'endDate' | 'sessionIndices'> = {
+  id: 'leave-1',
+  startDate: '19 January 2026',
+  endDate: '21 January 2026',
+};
+
+const appointment = (id: string, date: string, time: string, slotIndex: number, status: Appointment['status'] = 'Pending'): Appointment => ({
+  id,
+  clinicId: 'clinic-1',
+  patientId: `patient-${id}`,
+  patientName: id,
+  sex: 'Male',
+  communicationPhone: '',
+  age: 30,
+  doctor: doctor.name,
+  date,
+  time,
+  department: 'General Medicine',
+  status,
+  bookedVia: 'Advanced Booking',
+  slotIndex,
+  sessionIndex: 0,
+  tokenNumber: `A${slotIndex + 1}`,
+  numericToken: slotIndex + 1,
+});
+
+const day = (dateStr: string, appointments: Appointment[] = [], source: Doctor = doctor): LeaveRebookDay => {
+  const date = parseClinicDate(dateStr);
+  const slots = buildDaySlots(source, date);
+  return { date, slots, appointments, blockedIndices: getLeaveBlockedIndices(source, slots, date) };
+};
+
+describe('Doctor Leave - Blocking', () => {
+  test('CRITICAL: leave covers every date in the range inclusive', () => {
+    expect(getLeaveDates(leave)).toHaveLength(3);
+  });
+
+  test('CRITICAL: only working sessions become LEAVE breaks', () => {
+    const breaks = buildLeaveBreakPeriods(doctor, leave);
+
+    expect(Object.keys(breaks)).toEqual(['19 January 2026', '20 January 2026']); // Wednesday is a day off
+    expect(breaks['19 January 2026']).toHaveLength(2);
+    expect(breaks['19 January 2026'][0]).toMatchObject({ type: 'LEAVE', leaveId: 'leave-1', sessionIndex: 0, duration: 60 });
+    expect(breaks['19 January 2026'][0].slots).toHaveLength(4);
+  });
+
+  test('CRITICAL: a session leave blocks that session and picks up only its pending appointments', () => {
+    const breaks = buildLeaveBreakPeriods(doctor, { ...leave, endDate: '19 January 2026', sessionIndices: [0] });
+    const onLeave = { ...doctor, breakPeriods: breaks };
+    const date = parseClinicDate('19 January 2026');
+
+    expect(getLeaveBlockedIndices(onLeave, buildDaySlots(onLeave, date), date)).toEqual([0, 1, 2, 3]);
+    expect(isAppointmentOnLeave(appointment('a', '19 January 2026', '09:30 AM', 2), breaks)).toBe(true);
+    expect(isAppointmentOnLeave(appointment('b', '19 January 2026', '05:00 PM', 4), breaks)).toBe(false);
+    expect(isAppointmentOnLeave(appointment('c', '19 January 2026', '09:15 AM', 1, 'Completed'), breaks)).toBe(false);
+  });
+});
+
+describe('Doctor Leave - Rebook Proposals', () => {
+  const now = parseTime('08:00 AM', parseClinicDate('18 January 2026'));
+  const onLeave = { ...doctor, breakPeriods: buildLeaveBreakPeriods(doctor, leave) };
+
+  test('CRITICAL: patients are offered distinct slots on the next working day in queue order', () => {
+    const affected = [
+      appointment('second', '19 January 2026', '09:15 AM', 1),
+      appointment('first', '19 January 2026', '09:00 AM', 0),
+    ];
+    const days = [day('19 January 2026', [], onLeave), day('22 January 2026')];
+
+    const placements = planLeaveRebooking(affected, days, now);
+
+    expect(placements).toEqual([
+      { appointmentId: 'first', date: '22 January 2026', time: '09:00 AM', slotIndex: 0, sessionIndex: 0 },
+      { appointmentId: 'second', date: '22 January 2026', time: '09:15 AM', slotIndex: 1, sessionIndex: 0 },
+    ]);
+  });
+
+  test('CRITICAL: booked and walk-in reserved slots are skipped', () => {
+    const affected = [
+      appointment('x', '19 January 2026', '09:00 AM', 0),
+      appointment('y', '19 January 2026', '09:15 AM', 1),
+      appointment('z', '19 January 2026', '09:30 AM', 2),
+    ];
+    // Thursday has 4 slots: slot 3 is the walk-in reserve, slot 0 is taken
+    const thursday = day('22 January 2026', [appointment('booked', '22 January 2026', '09:00 AM', 0)]);
+
+    const placements = planLeaveRebooking(affected, [thursday], now);
+
+    expect(placements.map(p => [p.appointmentId, p.slotIndex])).toEqual([['x', 1], ['y', 2]]);
+  });
+});
+
+describe('Doctor Leave - Validation', () => {
+  test('a leave without an approver is rejected before anything is written', async () => {
+    await expect(createDoctorLeave({} as any, {
+      clinicId: 'clinic-1',
+      doctorId: doctor.id,
+      startDate: '19 January 2026',
+      endDate: '19 January 2026',
+      reason: 'Conference',
+      approvedBy: '',
+    }, { actor: { type: 'user', id: 'nurse-1', name: 'Nurse' }, source: 'nurse-app' })).rejects.toThrow('Leave must record who approved it.');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * CRITICAL TEST 23: Medical Records
+ * Tests that uploaded documents round-trip through document storage, that
+ * clinics only see documents the patient shared with them, and that the
+ * timeline merges visits, prescriptions and documents in date order.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Appointment, ConsultationRecord, PatientDocument } from '@kloqo/shared-types';
+import { LocalDocumentStorage } from '../services/local-document-storage';
+import {
+  buildMedicalTimeline,
+  buildPatientDocumentPath,
+  canViewPatientDocument,
+  storePatientDocument,
+  updateSharedClinicIds,
+  validatePatientDocumentUpload,
+} from '../services/medical-record-service';
+
+const pdfBytes = new TextEncoder().encode('%PDF-1.4 test report');
+
+describe('document storage', () => {
+  let rootDir: string;
+  let storage: LocalDocumentStorage;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'kloqo-documents-'));
+    storage = new LocalDocumentStorage(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  test('stores an upload and reads the same bytes back', async () => {
+    const document = await storePatientDocument(storage, {
+      patientId: 'patient-1',
+      kind: 'lab_report',
+      title: ' CBC ',
+      fileName: 'cbc report.pdf',
+      contentType: 'application/pdf',
+      data: pdfBytes,
+      reportDate: '2 March 2026',
+      uploadedBy: { type: 'staff', id: 'staff-1', clinicId: 'clinic-1' },
+    });
+
+    expect(document).toMatchObject({
+      title: 'CBC',
+      size: pdfBytes.byteLength,
+      storagePath: `patient-documents/patient-1/${document.id}/cbc_report.pdf`,
+      sharedWithClinicIds: ['clinic-1'],
+    });
+    expect(await storage.get(document.storagePath)).toEqual(pdfBytes);
+
+    await storage.remove(document.storagePath);
+    expect(await storage.get(document.storagePath)).toBeNull();
+  });
+
+  test('does not write files outside its root', async () => {
+    await expect(storage.put('../outside.pdf', pdfBytes)).rejects.toThrow('Invalid storage path');
+  });
+
+  test('keeps patient uploads private until shared', async () => {
+    const document = await storePatientDocument(storage, {
+      patientId: 'patient-1',
+      kind: 'imaging',
+      title: 'Chest X-ray',
+      fileName: 'xray.png',
+      contentType: 'image/png',
+      data: pdfBytes,
+      uploadedBy: { type: 'patient', id: 'user-1' },
+    });
+
+    expect(document.sharedWithClinicIds).toEqual([]);
+  });
+});
+
+describe('validatePatientDocumentUpload', () => {
+  const upload = { kind: 'lab_report' as const, title: 'CBC', fileName: 'cbc.pdf', contentType: 'application/pdf', size: 1000 };
+
+  test.each([
+    [{ title: ' ' }, 'Give the document a title.'],
+    [{ contentType: 'application/zip' }, 'Only PDF, JPEG, PNG and WebP files can be uploaded.'],
+    [{ size: 11 * 1024 * 1024 }, 'cbc.pdf is larger than 10 MB.'],
+    [{ reportDate: '2026-03-02' }, 'Report date is not valid.'],
+  ])('rejects %o', (overrides, message) => {
+    expect(() => validatePatientDocumentUpload({ ...upload, ...overrides })).toThrow(message);
+  });
+
+  test('builds a safe storage path', () => {
+    expect(buildPatientDocumentPath('p1', 'd1', '../../etc/passwd')).toBe('patient-documents/p1/d1/etc_passwd');
+  });
+});
+
+describe('consent and timeline', () => {
+  const document = (id: string, sharedWithClinicIds: string[], reportDate: string): PatientDocument => ({
+    id,
+    patientId: 'patient-1',
+    kind: 'lab_report',
+    title: `Report ${id}`,
+    fileName: `${id}.pdf`,
+    contentType: 'application/pdf',
+    size: 100,
+    storagePath: `patient-documents/patient-1/${id}/${id}.pdf`,
+    reportDate,
+    uploadedBy: { type: 'patient', id: 'user-1' },
+    sharedWithClinicIds,
+  });
+
+  const appointment = (id: string, clinicId: string, date: string, status: Appointment['status'] = 'Completed') =>
+    ({ id, clinicId, date, status, doctor: 'Anu', department: 'General Medicine', patientId: 'patient-1' } as Appointment);
+
+  const record = {
+    id: 'a1',
+    appointmentId: 'a1',
+    clinicId: 'clinic-1',
+    doctorName: 'Anu',
+    patientId: 'patient-1',
+    patientName: 'Ravi',
+    date: '5 March 2026',
+    chiefComplaint: 'Fever',
+    diagnoses: [],
+    medications: [],
+    shareToken: 'token',
+  } as ConsultationRecord;
+
+  const sources = {
+    appointments: [
+      appointment('a1', 'clinic-1', '5 March 2026'),
+      appointment('a2', 'clinic-2', '1 March 2026'),
+      appointment('a3', 'clinic-1', '9 March 2026', 'Cancelled'),
+    ],
+    records: [record],
+    documents: [document('d1', ['clinic-1'], '5 March 2026'), document('d2', [], '7 March 2026')],
+  };
+
+  test('shares and withdraws a document per clinic', () => {
+    const shared = updateSharedClinicIds(['clinic-1'], 'clinic-2', true);
+    expect(shared).toEqual(['clinic-1', 'clinic-2']);
+    expect(updateSharedClinicIds(shared, 'clinic-1', false)).toEqual(['clinic-2']);
+
+    expect(canViewPatientDocument(sources.documents[1], { type: 'staff', clinicId: 'clinic-1' })).toBe(false);
+    expect(canViewPatientDocument(sources.documents[1], { type: 'patient', patientId: 'patient-1' })).toBe(true);
+  });
+
+  test('shows the patient everything, newest first', () => {
+    const timeline = buildMedicalTimeline(sources, { type: 'patient', patientId: 'patient-1' });
+
+    expect(timeline.map(entry => entry.id)).toEqual([
+      'document-d2',
+      'visit-a1',
+      'prescription-a1',
+      'document-d1',
+      'visit-a2',
+    ]);
+  });
+
+  test('shows a clinic its own visits and the documents shared with it', () => {
+    const timeline = buildMedicalTimeline(sources, { type: 'staff', clinicId: 'clinic-1' });
+
+    expect(timeline.map(entry => entry.id)).toEqual(['visit-a1', 'prescription-a1', 'document-d1']);
+    expect(timeline[1]).toMatchObject({ title: 'Prescription from Dr. Anu', subtitle: 'Fever' });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * CRITICAL TEST 15: Message Catalog
+ * Tests placeholder interpolation, plural selection per language, the English
+ * fallback and the localized push notification content.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  getPushNotificationContent,
+  resolveLanguage,
+  SUPPORTED_LANGUAGES,
+  translate,
+} from '../services/message-catalog';
+
+describe('translate', () => {
+  test('interpolates named placeholders', () => {
+    expect(translate('en', 'whatsapp.doctorLate', {
+      patientName: 'Anu',
+      doctorName: 'Ravi',
+      clinicName: 'City Clinic',
+      minutes: 20,
+    })).toBe('Hello Anu, Dr. Ravi at City Clinic will start consultations about 20 minutes late.');
+  });
+
+  test('leaves placeholders without a value untouched', () => {
+    expect(translate('en', 'push.youAreNext.body', {})).toBe(
+      'There is no one ahead of you. You will see Dr. {doctorName} next.'
+    );
+    expect(translate('en', 'push.youAreNext.body', { doctorName: null })).toContain('{doctorName}');
+  });
+
+  test('selects the plural form from count', () => {
+    expect(translate('en', 'push.queueUpdate.title', { count: 1 })).toBe('Queue Update: 1 Person Ahead');
+    expect(translate('en', 'push.queueUpdate.title', { count: 4 })).toBe('Queue Update: 4 People Ahead');
+  });
+
+  test('every supported language renders plurals with the count', () => {
+    for (const language of SUPPORTED_LANGUAGES) {
+      const text = translate(language, 'push.queueUpdate.title', { count: 3 });
+      expect(text).toContain('3');
+      expect(text).not.toContain('{count}');
+    }
+  });
+
+  test('the bot welcome and the AI assistant offer the same menu in each language', () => {
+    for (const language of SUPPORTED_LANGUAGES) {
+      const options = translate(language, 'bot.options');
+      expect(options.split('\n')).toHaveLength(4);
+      expect(translate(language, 'bot.clinicWelcome', { greeting: '', clinicName: 'City Clinic', options }))
+        .toMatch(new RegExp(`\n${options}$`));
+    }
+  });
+
+  test('unknown languages fall back to English', () => {
+    const english = translate('en', 'date.tomorrow');
+    expect(translate('fr', 'date.tomorrow')).toBe(english);
+    expect(translate(undefined, 'date.tomorrow')).toBe(english);
+    expect(translate('ml', 'date.tomorrow')).not.toBe(english);
+  });
+});
+
+describe('resolveLanguage', () => {
+  test('takes the first supported candidate', () => {
+    expect(resolveLanguage([undefined, 'ta', 'ml'])).toBe('ta');
+    expect(resolveLanguage(['fr', 'hi'])).toBe('hi');
+  });
+
+  test('falls back when no candidate is supported', () => {
+    expect(resolveLanguage([])).toBe('en');
+    expect(resolveLanguage([null, 'fr'], 'ml')).toBe('ml');
+  });
+});
+
+describe('getPushNotificationContent', () => {
+  const base = { doctorName: 'Ravi', clinicName: 'City Clinic', date: '10 Mar', time: '10:30 AM' };
+
+  test('classic clinics show only the classic token', () => {
+    const classic = getPushNotificationContent('en', {
+      ...base,
+      type: 'appointment_confirmed',
+      tokenDistribution: 'classic',
+      tokenNumber: 'A012',
+      classicTokenNumber: '7',
+    });
+    expect(classic?.body).toContain('7');
+    expect(classic?.body).not.toContain('A012');
+
+    const noClassicToken = getPushNotificationContent('en', {
+      ...base,
+      type: 'appointment_confirmed',
+      tokenDistribution: 'classic',
+      tokenNumber: 'A012',
+    });
+    expect(noClassicToken?.body).toBe(translate('en', 'push.appointmentConfirmed.body', base));
+  });
+
+  test('queue update with nobody ahead says you are next', () => {
+    const content = getPushNotificationContent('hi', { ...base, type: 'queue_update', peopleAhead: 0 });
+    expect(content?.title).toBe(translate('hi', 'push.youAreNext.title'));
+
+    const ahead = getPushNotificationContent('en', { ...base, type: 'queue_update', peopleAhead: '2' });
+    expect(ahead?.title).toBe('Queue Update: 2 People Ahead');
+  });
+
+  test('returns null for types the catalog does not cover', () => {
+    expect(getPushNotificationContent('ml', { type: 'something_new' })).toBeNull();
+    expect(getPushNotificationContent('ml', {})).toBeNull();
+  });
+});
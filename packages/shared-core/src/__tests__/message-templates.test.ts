@@ -0,0 +1,141 @@
+/**
+ * CRITICAL TEST 30: WhatsApp Message Templates
+ * Tests that named template variables are numbered the way the providers
+ * expect, serialized to Meta components and Twilio content, refused when
+ * missing, routed to a configured provider, and that the template document is
+ * up to date with the registry.
+ */
+
+import { describe, test, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  buildTemplateVariables,
+  isBillableMessage,
+  isWhatsAppTemplateName,
+  renderTemplateDocs,
+  selectTemplateProvider,
+  toMetaTemplateComponents,
+  toTwilioTemplateContent,
+} from '../services/message-templates';
+
+describe('buildTemplateVariables', () => {
+  test('numbers body variables, then URL button variables after them', () => {
+    expect(buildTemplateVariables('appointment_cancelled_rebook_ml', {
+      patientName: 'Anjali',
+      doctorName: 'Dr. Ravi',
+      date: '19 October 2026',
+      time: '10:30 AM',
+      clinicName: 'City Clinic',
+      rebookPath: 'P1?ref=leave_rebook',
+    })).toEqual({
+      '1': 'Anjali',
+      '2': 'Dr. Ravi',
+      '3': '19 October 2026',
+      '4': '10:30 AM',
+      '5': 'City Clinic',
+      '6': 'P1?ref=leave_rebook',
+    });
+  });
+
+  test('keeps header media by name and stringifies numbers', () => {
+    expect(buildTemplateVariables('prescription_ready_ml', {
+      patientName: 'Anjali',
+      doctorName: 'Dr. Ravi',
+      clinicName: 'City Clinic',
+      document: 'https://example.com/rx.pdf',
+      filename: 'Prescription - Anjali.pdf',
+    })).toEqual({
+      document: 'https://example.com/rx.pdf',
+      filename: 'Prescription - Anjali.pdf',
+      '1': 'Anjali',
+      '2': 'Dr. Ravi',
+      '3': 'City Clinic',
+    });
+    expect(buildTemplateVariables('doctor_running_late_ml', {
+      patientName: 'Anjali', doctorName: 'Dr. Ravi', clinicName: 'City Clinic', delayMinutes: 20,
+    })['4']).toBe('20');
+  });
+
+  test('allows a blank value but not a missing one', () => {
+    expect(buildTemplateVariables('token_called_quick_reply_ml', { patientName: 'Anjali', token: '', linkSuffix: 'A1?ref=x' })['2']).toBe('');
+    expect(() => buildTemplateVariables('doctor_in_pending_ml', { doctorName: 'Dr. Ravi' } as any))
+      .toThrow('doctor_in_pending_ml is missing "linkSuffix" ({{2}})');
+    expect(() => buildTemplateVariables('not_a_template' as any, {})).toThrow('Unknown WhatsApp template');
+  });
+});
+
+describe('provider formats', () => {
+  test('Meta components put header, body and URL button parameters in place', () => {
+    const variables = buildTemplateVariables('prescription_ready_ml', {
+      patientName: 'Anjali',
+      doctorName: 'Dr. Ravi',
+      clinicName: 'City Clinic',
+      document: 'https://example.com/rx.pdf',
+      filename: 'rx.pdf',
+    });
+
+    expect(toMetaTemplateComponents('prescription_ready_ml', variables)).toEqual([
+      { type: 'header', parameters: [{ type: 'document', document: { link: 'https://example.com/rx.pdf', filename: 'rx.pdf' } }] },
+      { type: 'body', parameters: ['Anjali', 'Dr. Ravi', 'City Clinic'].map(text => ({ type: 'text', text })) },
+    ]);
+    expect(toMetaTemplateComponents('appointment_requested_ml', { '1': 'Anjali', '2': 'City Clinic', '3': 'KQ-1', '4': 'C1?ref=x' })).toEqual([
+      { type: 'body', parameters: ['Anjali', 'City Clinic', 'KQ-1'].map(text => ({ type: 'text', text })) },
+      { type: 'button', sub_type: 'url', index: '0', parameters: [{ type: 'text', text: 'C1?ref=x' }] },
+    ]);
+  });
+
+  test('queued variables missing a parameter are refused rather than sent blank', () => {
+    expect(() => toMetaTemplateComponents('appointment_requested_ml', { '1': 'Anjali', '2': 'City Clinic', '3': 'KQ-1' }))
+      .toThrow('"linkSuffix" ({{4}})');
+    expect(() => toMetaTemplateComponents('appointment_reminder_v2', { '1': 'Anjali', '2': 'Dr. Ravi', '3': {}, '4': 'A1' }))
+      .toThrow('got a object for "dateTime"');
+  });
+
+  test('Twilio content uses the registered SID, and Meta-only templates are refused', () => {
+    const content = toTwilioTemplateContent('kloqo_appointment_confirmed', {
+      '1': 'John', '2': 'Smith', '3': 'City Clinic', '4': '25 January 2024', '5': '10:30 AM', '6': '10:15 AM', '7': 'https://app.kloqo.com/live-token/A1',
+    });
+
+    expect(content.contentSid).toBe('HX08166827af694ffd8802a6b1b352365b');
+    expect(JSON.parse(content.contentVariables)).toMatchObject({ '1': 'John', '7': 'https://app.kloqo.com/live-token/A1' });
+    expect(() => toTwilioTemplateContent('appointment_reminder_v2', {})).toThrow('not approved on Twilio');
+  });
+});
+
+describe('provider selection', () => {
+  test('picks the first configured provider that has the template', () => {
+    expect(selectTemplateProvider('appointment_reminder_v2', { meta: true, twilio: true })).toBe('meta');
+    expect(selectTemplateProvider('appointment_reminder_v2', { twilio: true })).toBeNull();
+    expect(selectTemplateProvider('kloqo_appointment_confirmed', { meta: true, twilio: true })).toBe('twilio');
+    expect(selectTemplateProvider('kloqo_appointment_confirmed_no_token', { twilio: true })).toBeNull();
+  });
+
+  test('knows its templates, and free text is not one of them', () => {
+    expect(isWhatsAppTemplateName('queue_update_ml')).toBe(true);
+    expect(isWhatsAppTemplateName('text_message')).toBe(false);
+    expect(isWhatsAppTemplateName('toString')).toBe(false);
+  });
+});
+
+describe('billing', () => {
+  test('templates are billed outside the session window only', () => {
+    expect(isBillableMessage('whatsapp', 'queue_update_ml', false)).toBe(true);
+    expect(isBillableMessage('whatsapp', 'queue_update_ml', true)).toBe(false);
+  });
+
+  test('free text and unknown names are never billed, and SMS always is', () => {
+    expect(isBillableMessage('whatsapp', 'text_message', true)).toBe(false);
+    expect(isBillableMessage('whatsapp', undefined, false)).toBe(false);
+    expect(isBillableMessage('sms', undefined, true)).toBe(true);
+  });
+});
+
+describe('template documentation', () => {
+  test('is regenerated from the registry', () => {
+    const docPath = path.resolve(__dirname, '../../../../documentation/Twilio_Content_Templates.md');
+
+    // Out of date? Run: npx ts-node scripts/generate-template-docs.ts
+    expect(fs.readFileSync(docPath, 'utf-8')).toBe(renderTemplateDocs());
+  });
+});
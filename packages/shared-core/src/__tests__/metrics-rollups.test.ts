@@ -0,0 +1,155 @@
+/**
+ * CRITICAL TEST 29: Daily Metrics Rollups
+ * Tests that a day's bookings, outcomes, patients and WhatsApp messages are
+ * counted into per-clinic and platform rollups, and that summed rollups give
+ * the MAU and retention the superadmin dashboards show.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { Appointment } from '@kloqo/shared-types';
+import {
+  buildDailyMetricsRollups,
+  getDateKeyRange,
+  getMetricsRollupId,
+  getRollupRetentionRate,
+  sumMetricsRollups,
+  toRollupBooking,
+  type DailyRollupInput,
+  type RollupBooking,
+} from '../services/metrics-rollup-service';
+import { getClinicTimeContext } from '../utils/date-utils';
+
+const dubai = getClinicTimeContext({ timezone: 'Asia/Dubai' });
+
+const booking = (id: string, patientId: string, clinicId: string, dateKey: string, bookedVia = 'Online'): RollupBooking => ({
+  id,
+  clinicId,
+  patientId,
+  bookedVia,
+  createdAt: new Date(`${dateKey}T06:00:00Z`),
+  dateKey,
+});
+
+const dayInput = (overrides: Partial<DailyRollupInput>): DailyRollupInput => ({
+  dateKey: '2026-10-19',
+  clinicIds: ['c1', 'c2'],
+  history: [],
+  outcomes: [],
+  messages: [],
+  platform: { newClinics: 0, clinicsTotal: 2, clinicsActive: 2, patientSignups: 0, patientsTotal: 10 },
+  ...overrides,
+});
+
+describe('toRollupBooking', () => {
+  const appointment = {
+    id: 'a1',
+    clinicId: 'c1',
+    patientId: 'p1',
+    bookedVia: 'Walk-in',
+    status: 'Pending',
+    createdAt: { toDate: () => new Date('2026-10-19T21:00:00Z') },
+  } as Appointment;
+
+  test('dates a booking on its clinic\'s calendar', () => {
+    expect(toRollupBooking(appointment)?.dateKey).toBe('2026-10-20');
+    expect(toRollupBooking(appointment, dubai)?.dateKey).toBe('2026-10-20');
+    expect(toRollupBooking({ ...appointment, createdAt: new Date('2026-10-19T19:30:00Z') }, dubai)?.dateKey).toBe('2026-10-19');
+  });
+
+  test('skips break blocks and the replacement written by a reschedule', () => {
+    expect(toRollupBooking({ ...appointment, patientId: 'dummy-break-patient' })).toBeNull();
+    expect(toRollupBooking({ ...appointment, bookedVia: 'BreakBlock' as Appointment['bookedVia'] })).toBeNull();
+    expect(toRollupBooking({ ...appointment, isRescheduled: true })).toBeNull();
+    expect(toRollupBooking({ ...appointment, isRescheduled: true, status: 'Cancelled' })).not.toBeNull();
+    expect(toRollupBooking({ ...appointment, createdAt: undefined })).toBeNull();
+  });
+});
+
+describe('buildDailyMetricsRollups', () => {
+  test('counts bookings by channel and outcomes per clinic, summed for the platform', () => {
+    const rollups = buildDailyMetricsRollups(dayInput({
+      history: [
+        booking('a1', 'p1', 'c1', '2026-10-19', 'Walk-in'),
+        booking('a2', 'p2', 'c1', '2026-10-19', 'Online'),
+        booking('a3', 'p3', 'c2', '2026-10-19', 'Advanced Booking'),
+        booking('a0', 'p3', 'c2', '2026-10-01', 'Online'),
+      ],
+      outcomes: [
+        { clinicId: 'c1', status: 'Completed' },
+        { clinicId: 'c1', status: 'No-show' },
+        { clinicId: 'c2', status: 'Cancelled' },
+        { clinicId: 'c2', status: 'Cancelled', isRescheduled: true },
+      ],
+      messages: [
+        { clinicId: 'c1', failed: false },
+        { clinicId: 'c1', failed: true },
+        { clinicId: null, failed: false },
+      ],
+    }));
+
+    const [c1, c2, platform] = rollups;
+    expect(rollups.map(r => r.id)).toEqual(['c1_2026-10-19', 'c2_2026-10-19', 'platform_2026-10-19']);
+    expect(c1).toMatchObject({ bookings: 2, bookingsByChannel: { 'Walk-in': 1, Online: 1 }, completed: 1, noShows: 1 });
+    expect(c2).toMatchObject({ bookings: 1, bookingsByChannel: { 'Advanced Booking': 1 }, cancelled: 1 });
+    expect(c1).toMatchObject({ whatsappMessages: 2, whatsappFailed: 1 });
+    expect(platform).toMatchObject({
+      scope: 'platform',
+      clinicId: null,
+      bookings: 3,
+      bookingsByChannel: { 'Walk-in': 1, Online: 1, 'Advanced Booking': 1 },
+      completed: 1,
+      noShows: 1,
+      cancelled: 1,
+      whatsappMessages: 3,
+      patientsTotal: 10,
+    });
+  });
+
+  test('a patient new to a clinic can be returning to the platform', () => {
+    const [c1, c2, platform] = buildDailyMetricsRollups(dayInput({
+      history: [
+        booking('a0', 'p1', 'c1', '2026-09-10'),
+        booking('a1', 'p1', 'c2', '2026-10-19'),
+        booking('a2', 'p1', 'c2', '2026-10-19'),
+      ],
+    }));
+
+    expect(c1).toMatchObject({ bookings: 0, newPatients: 0, returningPatients: 0 });
+    expect(c2).toMatchObject({ bookings: 2, newPatients: 1, returningPatients: 0, monthlyActivePatients: 1 });
+    expect(platform).toMatchObject({ newPatients: 0, returningPatients: 1, monthlyActivePatients: 1 });
+  });
+
+  test('counts a patient active once a month and their second booking once', () => {
+    const history = [
+      booking('a1', 'p1', 'c1', '2026-10-02'),
+      booking('a2', 'p1', 'c1', '2026-10-19'),
+      booking('b1', 'p2', 'c1', '2026-08-01'),
+      booking('b2', 'p2', 'c1', '2026-10-19'),
+    ];
+    const [c1] = buildDailyMetricsRollups(dayInput({ history }));
+
+    expect(c1).toMatchObject({ returningPatients: 2, monthlyActivePatients: 1, secondBookings: 2, secondBookingsWithin30Days: 1 });
+  });
+});
+
+describe('summed rollups', () => {
+  test('add up counters and channels over a range', () => {
+    const [day1] = buildDailyMetricsRollups(dayInput({ dateKey: '2026-10-18', history: [booking('a1', 'p1', 'c1', '2026-10-18', 'Walk-in')] }));
+    const [day2] = buildDailyMetricsRollups(dayInput({
+      history: [booking('a1', 'p1', 'c1', '2026-10-18', 'Walk-in'), booking('a2', 'p1', 'c1', '2026-10-19', 'Online')],
+    }));
+    const totals = sumMetricsRollups([day1, day2]);
+
+    expect(totals).toMatchObject({ days: 2, bookings: 2, bookingsByChannel: { 'Walk-in': 1, Online: 1 } });
+    expect(totals).toMatchObject({ newPatients: 1, returningPatients: 1, monthlyActivePatients: 1 });
+    expect(getRollupRetentionRate(totals)).toBe(100);
+    expect(getRollupRetentionRate(sumMetricsRollups([]))).toBe(0);
+  });
+
+  test('are read by id range', () => {
+    expect(getMetricsRollupId('2026-10-19')).toBe('platform_2026-10-19');
+    expect(getMetricsRollupId('2026-10-19', 'c1')).toBe('c1_2026-10-19');
+    expect(getDateKeyRange('2026-10-30', '2026-11-02')).toEqual(['2026-10-30', '2026-10-31', '2026-11-01', '2026-11-02']);
+    expect(getDateKeyRange('2026-10-19', '2026-10-18')).toEqual([]);
+  });
+});
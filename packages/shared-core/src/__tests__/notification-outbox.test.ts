@@ -0,0 +1,59 @@
+/**
+ * CRITICAL TEST 14: Notification Outbox
+ * Tests idempotency keys, retry backoff and the ordering rules applied
+ * to out-of-order WhatsApp delivery receipts.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  buildOutboxKey,
+  canApplyDeliveryStatus,
+  getOutboxRetryDelayMs,
+  mapWhatsAppDeliveryStatus,
+} from '../services/notification-outbox-service';
+
+describe('Outbox keys', () => {
+  test('same event produces the same key', () => {
+    expect(buildOutboxKey('token_called', 'whatsapp', 'appt1', '202603101030'))
+      .toBe(buildOutboxKey('token_called', 'whatsapp', 'appt1', '202603101030'));
+  });
+
+  test('keys are safe Firestore document ids and skip empty parts', () => {
+    expect(buildOutboxKey('break_update', 'pwa', 'appt1', '10/03/2026', '10:30 AM')).toBe('break_update:pwa:appt1:10-03-2026:10:30-AM');
+    expect(buildOutboxKey('free_followup_expiry', 'pwa', undefined, 'patient1')).toBe('free_followup_expiry:pwa:patient1');
+    expect(buildOutboxKey('people_ahead', 'whatsapp', 'appt1', 0)).toBe('people_ahead:whatsapp:appt1:0');
+  });
+});
+
+describe('Retry backoff', () => {
+  test('doubles after each failure', () => {
+    expect(getOutboxRetryDelayMs(1)).toBe(30_000);
+    expect(getOutboxRetryDelayMs(2)).toBe(60_000);
+    expect(getOutboxRetryDelayMs(4)).toBe(240_000);
+  });
+
+  test('is capped at an hour', () => {
+    expect(getOutboxRetryDelayMs(20)).toBe(60 * 60 * 1000);
+  });
+});
+
+describe('Delivery receipts', () => {
+  test('statuses only move forward', () => {
+    expect(canApplyDeliveryStatus('Sent', 'Delivered')).toBe(true);
+    expect(canApplyDeliveryStatus('Sent', 'Read')).toBe(true);
+    expect(canApplyDeliveryStatus('Read', 'Delivered')).toBe(false);
+    expect(canApplyDeliveryStatus('Delivered', 'Delivered')).toBe(false);
+  });
+
+  test('failed is terminal and cannot override a delivered message', () => {
+    expect(canApplyDeliveryStatus('Sent', 'Failed')).toBe(true);
+    expect(canApplyDeliveryStatus('Delivered', 'Failed')).toBe(false);
+    expect(canApplyDeliveryStatus('Failed', 'Read')).toBe(false);
+  });
+
+  test('maps Meta webhook statuses', () => {
+    expect(mapWhatsAppDeliveryStatus('delivered')).toBe('Delivered');
+    expect(mapWhatsAppDeliveryStatus('read')).toBe('Read');
+    expect(mapWhatsAppDeliveryStatus('deleted')).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * CRITICAL TEST 13: Notification Preferences
+ * Tests the global -> clinic -> patient layering and quiet hours, including
+ * windows that wrap past midnight, deferral to their end and live queue
+ * updates that ignore them.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  isWithinQuietHours,
+  NOTIFICATION_TYPES,
+  resolveNotificationDecision,
+} from '../services/notification-config';
+
+// Clinic time is IST (UTC+5:30)
+const istTime = (hours: number, minutes = 0) => new Date(Date.UTC(2026, 2, 10, hours - 5, minutes - 30));
+
+describe('Quiet hours', () => {
+  test('same-day window, end exclusive', () => {
+    const lunch = { start: '13:00', end: '14:00' };
+    expect(isWithinQuietHours(lunch, istTime(13, 0))).toBe(true);
+    expect(isWithinQuietHours(lunch, istTime(13, 59))).toBe(true);
+    expect(isWithinQuietHours(lunch, istTime(14, 0))).toBe(false);
+    expect(isWithinQuietHours(lunch, istTime(12, 59))).toBe(false);
+  });
+
+  test('window wrapping past midnight', () => {
+    const night = { start: '21:00', end: '07:00' };
+    expect(isWithinQuietHours(night, istTime(22, 30))).toBe(true);
+    expect(isWithinQuietHours(night, istTime(6, 45))).toBe(true);
+    expect(isWithinQuietHours(night, istTime(7, 0))).toBe(false);
+    expect(isWithinQuietHours(night, istTime(17, 0))).toBe(false);
+  });
+
+  test('missing or empty windows never apply', () => {
+    expect(isWithinQuietHours(undefined, istTime(23))).toBe(false);
+    expect(isWithinQuietHours(null, istTime(23))).toBe(false);
+    expect(isWithinQuietHours({ start: '09:00', end: '09:00' }, istTime(9))).toBe(false);
+  });
+});
+
+describe('Notification policy layers', () => {
+  const base = {
+    notificationType: NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE,
+    channel: 'whatsapp' as const,
+    globalEnabled: true,
+    now: istTime(10),
+  };
+
+  test('global toggle wins over everything', () => {
+    expect(resolveNotificationDecision({ ...base, globalEnabled: false })).toEqual({ allowed: false, reason: 'disabled_globally' });
+  });
+
+  test('clinic and patient can each switch a channel off', () => {
+    const off = { types: { [NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE]: { whatsapp: false } } };
+    expect(resolveNotificationDecision({ ...base, clinicPreferences: off }).reason).toBe('disabled_by_clinic');
+    expect(resolveNotificationDecision({ ...base, patientPreferences: off }).reason).toBe('disabled_by_patient');
+    expect(resolveNotificationDecision({ ...base, channel: 'pwa', patientPreferences: off }).allowed).toBe(true);
+  });
+
+  test('patients cannot switch on what the clinic switched off', () => {
+    const result = resolveNotificationDecision({
+      ...base,
+      clinicPreferences: { types: { [NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE]: { whatsapp: false } } },
+      patientPreferences: { types: { [NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE]: { whatsapp: true } } },
+    });
+    expect(result.allowed).toBe(false);
+  });
+
+  test('quiet hours from either layer hold back reminders but not live queue updates', () => {
+    const night = { quietHours: { start: '21:00', end: '07:00' } };
+    const lateEvening = istTime(22);
+
+    expect(resolveNotificationDecision({ ...base, now: lateEvening, patientPreferences: night })).toEqual({
+      allowed: true,
+      reason: 'quiet_hours',
+      deferUntil: istTime(24 + 7),
+    });
+    expect(resolveNotificationDecision({
+      ...base,
+      notificationType: NOTIFICATION_TYPES.DAILY_REMINDER,
+      now: lateEvening,
+      clinicPreferences: night,
+    }).reason).toBe('quiet_hours');
+    expect(resolveNotificationDecision({
+      ...base,
+      notificationType: NOTIFICATION_TYPES.TOKEN_CALLED,
+      now: lateEvening,
+      clinicPreferences: night,
+    })).toEqual({ allowed: true });
+  });
+
+  test('deferred notifications go out when the later of the two quiet hours ends', () => {
+    const result = resolveNotificationDecision({
+      ...base,
+      now: istTime(6, 30),
+      clinicPreferences: { quietHours: { start: '21:00', end: '07:00' } },
+      patientPreferences: { quietHours: { start: '22:00', end: '08:00' } },
+    });
+    expect(result.deferUntil).toEqual(istTime(8));
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * CRITICAL TEST 24: Patient Deduplication
+ * Tests that likely duplicates are found across typos, word order and second
+ * phone numbers, that different people sharing a phone are kept apart, and
+ * that a merge keeps everything from both records.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { Patient } from '@kloqo/shared-types';
+import {
+  buildDuplicatePairId,
+  buildMergedPatientFields,
+  findDuplicateCandidates,
+  MIN_NAME_SIMILARITY,
+  nameSimilarity,
+  normalizePatientName,
+  scorePatientPair,
+} from '../services/patient-dedup-service';
+
+const patient = (id: string, overrides: Partial<Patient> = {}) => ({
+  id,
+  name: 'Ravi Kumar',
+  phone: '+919876543210',
+  age: 42,
+  sex: 'Male',
+  place: 'Kochi',
+  clinicIds: ['clinic-1'],
+  ...overrides,
+} as Patient);
+
+describe('name similarity', () => {
+  test('ignores case, honorifics and punctuation', () => {
+    expect(normalizePatientName('Mr. RAVI  kumar')).toBe('ravi kumar');
+  });
+
+  test('matches typos and swapped word order', () => {
+    expect(nameSimilarity('Ravi Kumar', 'Ravi Kumaar')).toBeGreaterThan(0.9);
+    expect(nameSimilarity('Kumar Ravi', 'Ravi Kumar')).toBe(1);
+    expect(nameSimilarity('Ravi Kumar', 'Meera Nair')).toBeLessThan(MIN_NAME_SIMILARITY);
+  });
+});
+
+describe('scorePatientPair', () => {
+  test('scores a typo on the same phone as a strong match', () => {
+    const match = scorePatientPair(patient('p1'), patient('p2', { name: 'Ravi Kumaar', age: 43 }));
+
+    expect(match?.score).toBeGreaterThanOrEqual(0.9);
+    expect(match?.reasons).toEqual(['name', 'phone', 'age', 'sex', 'place']);
+  });
+
+  test('matches a second phone number through communicationPhone', () => {
+    const match = scorePatientPair(
+      patient('p1'),
+      patient('p2', { phone: '+919000000000', communicationPhone: '9876543210' })
+    );
+
+    expect(match?.reasons).toContain('phone');
+  });
+
+  test.each([
+    ['sexes differ', { sex: 'Female' }],
+    ['ages are far apart', { age: 70 }],
+    ['names differ', { name: 'Meera Nair' }],
+  ])('rules out a pair when %s', (_, overrides) => {
+    expect(scorePatientPair(patient('p1'), patient('p2', overrides as Partial<Patient>))).toBeNull();
+  });
+});
+
+describe('findDuplicateCandidates', () => {
+  test('returns each likely pair once with a stable id', () => {
+    const candidates = findDuplicateCandidates([
+      patient('p2', { name: 'Ravi Kumaar' }),
+      patient('p1', { clinicIds: ['clinic-2'] }),
+      patient('p3', { name: 'Meera Nair', sex: 'Female', age: 40 }),
+      patient('p4', { name: 'Ravi Kumar', phone: '+919111111111', age: 12 }),
+    ]);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0]).toMatchObject({
+      id: buildDuplicatePairId('p2', 'p1'),
+      patientIds: ['p1', 'p2'],
+      clinicIds: ['clinic-1', 'clinic-2'],
+    });
+  });
+
+  test('leaves weak matches out of the queue', () => {
+    const candidates = findDuplicateCandidates([
+      patient('p1', { phone: '+919111111111', age: undefined, sex: undefined, place: undefined }),
+      patient('p2', { phone: '+919222222222', age: undefined, sex: undefined, place: undefined }),
+    ]);
+
+    expect(candidates).toEqual([]);
+  });
+});
+
+describe('buildMergedPatientFields', () => {
+  test('keeps links and history from both records', () => {
+    const survivor = patient('p1', {
+      clinicIds: ['clinic-1'],
+      visitHistory: ['a1'],
+      relatedPatientIds: ['p2', 'p5'],
+      totalAppointments: 1,
+      email: undefined,
+    });
+    const duplicate = patient('p2', {
+      clinicIds: ['clinic-2'],
+      visitHistory: ['a2'],
+      relatedPatientIds: ['p1', 'p6'],
+      totalAppointments: 2,
+      email: 'ravi@example.com',
+      primaryUserId: 'user-2',
+    });
+
+    expect(buildMergedPatientFields(survivor, duplicate)).toMatchObject({
+      clinicIds: ['clinic-1', 'clinic-2'],
+      visitHistory: ['a1', 'a2'],
+      relatedPatientIds: ['p5', 'p6'],
+      totalAppointments: 3,
+      email: 'ravi@example.com',
+      primaryUserId: 'user-2',
+    });
+  });
+
+  test('does not overwrite details the survivor already has', () => {
+    const fields = buildMergedPatientFields(patient('p1'), patient('p2', { place: 'Thrissur' }));
+
+    expect(fields.place).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * CRITICAL TEST 11: Online Payments
+ * Tests the convenience fee rules and the gateway round trip the payment
+ * service relies on: intent, signed webhook, refund.
+ */
+
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import { assertOnlinePaymentAvailable, calculateConvenienceFee, calculatePaymentAmounts, DEFAULT_CONVENIENCE_FEE } from '../services/payment-service';
+import { FakePaymentGateway, getPaymentGateway, setPaymentGateway } from '../services/payment-gateway';
+
+describe('Convenience fee', () => {
+  test('flat fee is charged regardless of the consultation fee', () => {
+    expect(calculateConvenienceFee({ type: 'flat', value: 15 }, 300)).toBe(15);
+    expect(calculatePaymentAmounts(300, { type: 'flat', value: 15 })).toEqual({
+      consultationFee: 300,
+      convenienceFee: 15,
+      convenienceFeeWaived: false,
+      amount: 315,
+    });
+  });
+
+  test('percent fee is rounded and capped', () => {
+    expect(calculateConvenienceFee({ type: 'percent', value: 2.5 }, 250)).toBe(6);
+    expect(calculateConvenienceFee({ type: 'percent', value: 5, maxAmount: 20 }, 1000)).toBe(20);
+  });
+
+  test('waived fee is shown but not charged', () => {
+    const amounts = calculatePaymentAmounts(200, { type: 'flat', value: 10, waived: true });
+    expect(amounts.convenienceFee).toBe(10);
+    expect(amounts.convenienceFeeWaived).toBe(true);
+    expect(amounts.amount).toBe(200);
+  });
+
+  test('clinics without a rule get the default waived fee', () => {
+    expect(calculateConvenienceFee(undefined, 200)).toBe(DEFAULT_CONVENIENCE_FEE.value);
+    expect(calculatePaymentAmounts(undefined, undefined).amount).toBe(0);
+  });
+});
+
+describe('Fake payment gateway', () => {
+  test('successful checkout produces a signed webhook and can be refunded', async () => {
+    const gateway = new FakePaymentGateway('secret');
+    const intent = await gateway.createIntent({ amount: 310, currency: 'INR', reference: 'pay-1' });
+
+    const webhook = gateway.simulateCheckout(intent.intentId, 'succeeded');
+    const event = gateway.parseWebhook(webhook.rawBody, webhook.signature);
+    expect(event?.type).toBe('payment.succeeded');
+    expect(event?.intentId).toBe(intent.intentId);
+
+    await expect(gateway.refund(intent.intentId, 400)).rejects.toThrow();
+    const refund = await gateway.refund(intent.intentId, 310);
+    expect(refund.refundId).toBeTruthy();
+  });
+
+  test('webhooks with a wrong signature are rejected', async () => {
+    const gateway = new FakePaymentGateway('secret');
+    const intent = await gateway.createIntent({ amount: 100, currency: 'INR', reference: 'pay-2' });
+    const webhook = gateway.simulateCheckout(intent.intentId, 'failed');
+
+    expect(gateway.parseWebhook(webhook.rawBody, 'forged')).toBeNull();
+    expect(gateway.parseWebhook(webhook.rawBody, null)).toBeNull();
+    expect(gateway.parseWebhook(webhook.rawBody, webhook.signature)?.type).toBe('payment.failed');
+  });
+
+  test('unpaid intents cannot be refunded', async () => {
+    const gateway = new FakePaymentGateway('secret');
+    const intent = await gateway.createIntent({ amount: 100, currency: 'INR', reference: 'pay-3' });
+    await expect(gateway.refund(intent.intentId, 100)).rejects.toThrow('created');
+  });
+});
+
+describe('Payment gateway configuration', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    setPaymentGateway(null);
+  });
+
+  test('CRITICAL: the fake gateway is not installed without a webhook secret', () => {
+    vi.stubEnv('PAYMENT_GATEWAY', 'fake');
+    vi.stubEnv('PAYMENT_WEBHOOK_SECRET', '');
+    expect(() => getPaymentGateway()).toThrow('PAYMENT_WEBHOOK_SECRET');
+
+    vi.stubEnv('PAYMENT_WEBHOOK_SECRET', 'secret');
+    expect(getPaymentGateway().name).toBe('fake');
+  });
+
+  test('CRITICAL: bookings that must be paid online are refused without a gateway', () => {
+    vi.stubEnv('PAYMENT_GATEWAY', '');
+    const clinic = { onlinePaymentsEnabled: true, convenienceFee: DEFAULT_CONVENIENCE_FEE };
+    expect(() => assertOnlinePaymentAvailable(clinic, 300)).toThrow('Online payments are not available');
+
+    // Nothing to collect, nothing to refuse
+    expect(() => assertOnlinePaymentAvailable(clinic, 0)).not.toThrow();
+    expect(() => assertOnlinePaymentAvailable({ onlinePaymentsEnabled: false }, 300)).not.toThrow();
+
+    setPaymentGateway(new FakePaymentGateway('secret'));
+    expect(() => assertOnlinePaymentAvailable(clinic, 300)).not.toThrow();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * CRITICAL TEST 18: Doctor Punctuality Report
+ * Tests how In/Out/break/extension logs become sessions (lateness, overtime,
+ * break overruns), the per-doctor and per-weekday scorecards, the weekly trend,
+ * the CSV export and the owner's digest text and template variables.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  buildPunctualityReport,
+  buildPunctualitySessions,
+  buildPunctualityDigestVariables,
+  formatPunctualityDigest,
+  getLatenessBucket,
+  punctualityReportToCsv,
+  type DoctorPunctualityLog,
+  type PunctualityEventType,
+} from '../services/punctuality-service';
+
+const at = (day: number, time: string) => new Date(`2026-10-${String(day).padStart(2, '0')}T${time}:00+05:30`);
+
+let nextId = 0;
+function log(
+  day: number,
+  time: string,
+  type: PunctualityEventType,
+  scheduledTime: string | null,
+  overrides: Partial<DoctorPunctualityLog> = {}
+): DoctorPunctualityLog {
+  return {
+    id: `log-${nextId++}`,
+    clinicId: 'clinic-1',
+    doctorId: 'doc-1',
+    doctorName: 'Ravi',
+    date: `${day} October 2026`,
+    sessionIndex: 0,
+    type,
+    timestamp: at(day, time),
+    scheduledTime,
+    ...overrides,
+  };
+}
+
+// Monday 12 October: 09:00-13:00 session, 20 min late, 11:00-11:15 break back at 11:25, 15 min overtime
+const monday = [
+  log(12, '09:20', 'IN', '09:00 AM'),
+  log(12, '10:00', 'BREAK_START', '09:00 AM', { metadata: { breakId: 'b1', startTime: '11:00 AM', endTime: '11:15 AM', duration: 15 } }),
+  log(12, '11:00', 'OUT', '01:00 PM'),
+  log(12, '11:25', 'IN', '09:00 AM'),
+  log(12, '12:00', 'EXTENSION', '09:00 AM', { metadata: { extensionMinutes: 15, newEndTime: '01:15 PM' } }),
+  log(12, '13:15', 'OUT', '01:00 PM'),
+];
+
+// Tuesday 13 October: on time, a cancelled break, finishes early
+const tuesday = [
+  log(13, '08:58', 'IN', '09:00 AM'),
+  log(13, '10:00', 'BREAK_START', '09:00 AM', { metadata: { breakId: 'b2', startTime: '11:00 AM', endTime: '11:15 AM', duration: 15 } }),
+  log(13, '10:05', 'BREAK_END', '01:00 PM', { metadata: { breakId: 'b2', startTime: '11:00 AM', endTime: '11:15 AM', duration: 15 } }),
+  log(13, '12:50', 'OUT', '01:00 PM'),
+];
+
+// Monday 19 October: 35 min late, second doctor on the same day
+const nextMonday = [
+  log(19, '09:35', 'IN', '09:00 AM'),
+  log(19, '13:00', 'OUT', '01:00 PM'),
+  log(19, '17:05', 'IN', '05:00 PM', { doctorId: 'doc-2', doctorName: 'Asha' }),
+];
+
+const logs = [...monday, ...tuesday, ...nextMonday];
+
+describe('buildPunctualitySessions', () => {
+  test('measures lateness from the first IN and overtime from the last OUT', () => {
+    const [session] = buildPunctualitySessions(monday);
+    expect(session).toMatchObject({
+      date: '12 October 2026',
+      weekday: 'Monday',
+      latenessMinutes: 20,
+      overtimeMinutes: 15,
+      extensions: 1,
+      extensionMinutes: 15,
+    });
+  });
+
+  test('counts a break overrun when the doctor returns after the planned end', () => {
+    const [session] = buildPunctualitySessions(monday);
+    expect(session).toMatchObject({ breaks: 1, breakOverruns: 1, breakOverrunMinutes: 10 });
+  });
+
+  test('ignores removed breaks and reports early starts as negative lateness', () => {
+    const [session] = buildPunctualitySessions(tuesday);
+    expect(session).toMatchObject({ latenessMinutes: -2, overtimeMinutes: 0, breaks: 0, breakOverruns: 0 });
+  });
+
+  test('skips logs without a session', () => {
+    expect(buildPunctualitySessions([log(12, '09:00', 'OUT', null, { sessionIndex: null })])).toEqual([]);
+  });
+});
+
+describe('buildPunctualityReport', () => {
+  const report = buildPunctualityReport(logs, { clinicId: 'clinic-1', from: new Date(2026, 9, 12), to: new Date(2026, 9, 19) });
+  const ravi = report.doctors.find(d => d.doctorId === 'doc-1')!;
+
+  test('builds a scorecard per doctor with lateness stats that ignore early starts', () => {
+    expect(report.doctors.map(d => d.doctorName)).toEqual(['Asha', 'Ravi']);
+    expect(ravi.sessions).toBe(3);
+    expect(ravi.onTimeSessions).toBe(1);
+    expect(ravi.averageLateness).toBe(Math.round((20 + 0 + 35) / 3));
+    expect(ravi.latenessBuckets).toEqual({ 'On time': 1, '10-20 min': 1, '20-30 min': 0, '30+ min': 1 });
+    expect(ravi.overtimeMinutes).toBe(15);
+    expect(ravi.breakOverrunMinutes).toBe(10);
+  });
+
+  test('breaks the distribution down by weekday', () => {
+    expect(Object.keys(ravi.byWeekday)).toEqual(['Monday', 'Tuesday']);
+    expect(ravi.byWeekday['Monday'].sessions).toBe(2);
+    expect(ravi.byWeekday['Monday'].averageLateness).toBe(28);
+  });
+
+  test('groups the trend by Monday-start weeks', () => {
+    expect(report.trend.map(t => t.weekStart)).toEqual(['12 October 2026', '19 October 2026']);
+    expect(ravi.trend.map(t => t.averageLateness)).toEqual([10, 35]);
+  });
+
+  test('only includes logs of the clinic inside the range', () => {
+    const week = buildPunctualityReport(
+      [...logs, log(13, '09:30', 'IN', '09:00 AM', { clinicId: 'clinic-2', doctorId: 'doc-3' })],
+      { clinicId: 'clinic-1', from: new Date(2026, 9, 12), to: new Date(2026, 9, 18) }
+    );
+    expect(week.doctors.map(d => d.doctorId)).toEqual(['doc-1']);
+    expect(week.overall.sessions).toBe(2);
+  });
+
+  test('exports one CSV row per doctor plus one per weekday', () => {
+    const lines = punctualityReportToCsv(report).split('\n');
+    expect(lines[0].startsWith('Doctor,Weekday,Sessions')).toBe(true);
+    expect(lines.slice(1).map(line => line.split(',').slice(0, 3).join(','))).toEqual([
+      'Asha,All days,1',
+      'Asha,Monday,1',
+      'Ravi,All days,3',
+      'Ravi,Monday,2',
+      'Ravi,Tuesday,1',
+    ]);
+  });
+
+  test('summarises each doctor in the owner digest', () => {
+    const digest = formatPunctualityDigest(report, 'City Clinic');
+    expect(digest).toContain('City Clinic (12 October 2026 - 19 October 2026)');
+    expect(digest).toContain('Dr. Ravi: 3 sessions, 1 on time, avg 18 min late (p90 32), 15 min overtime, 1 break overrun (10 min)');
+  });
+
+  test('fills the digest template with every doctor on one line', () => {
+    const variables = buildPunctualityDigestVariables(report, 'City Clinic');
+    expect(variables['1']).toBe('City Clinic');
+    expect(variables['2']).toBe('12 October 2026 - 19 October 2026');
+    expect(variables['3']).toContain('Dr. Asha: 1 sessions');
+    expect(variables['3']).toContain('; Dr. Ravi: 3 sessions');
+    expect(variables['3']).not.toContain('\n');
+  });
+});
+
+describe('getLatenessBucket', () => {
+  test('treats the grace period as on time', () => {
+    expect(getLatenessBucket(10)).toBe('On time');
+    expect(getLatenessBucket(11)).toBe('10-20 min');
+    expect(getLatenessBucket(31)).toBe('30+ min');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * CRITICAL TEST 26: Waiting-room Queue Display
+ * Tests the "Now Serving" board a TV polls - current and next tokens, breaks,
+ * the owner's doctor selection and layout - and which token calls it reads
+ * out, in which languages.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { Appointment, Doctor, TokenCall } from '@kloqo/shared-types';
+import {
+  buildNowServingBoard,
+  buildTokenAnnouncement,
+  getCallsToAnnounce,
+  getDisplayToken,
+  getSpokenToken,
+  normalizeQueueDisplayLayout,
+  DEFAULT_QUEUE_DISPLAY_LAYOUT,
+  TOKEN_CALL_ANNOUNCE_WINDOW_MS,
+} from '../services/queue-display-service';
+import { getClinicTimeString } from '../utils/date-utils';
+
+const DATE = '19 October 2026';
+const NOW = new Date('2026-10-19T10:35:00+05:30');
+
+function makeDoctor(id: string, name: string, overrides: Partial<Doctor> = {}): Doctor {
+  return { id, name, clinicId: 'clinic-1', department: 'General', consultationStatus: 'In', ...overrides } as Doctor;
+}
+
+function makeAppointment(id: string, overrides: Partial<Appointment>): Appointment {
+  return {
+    id,
+    clinicId: 'clinic-1',
+    doctor: 'Anu',
+    date: DATE,
+    sessionIndex: 0,
+    status: 'Confirmed',
+    patientName: `Patient ${id}`,
+    tokenNumber: `A1-00${id}`,
+    ...overrides,
+  } as Appointment;
+}
+
+const makeCall = (id: string, calledAt: number, overrides: Partial<TokenCall> = {}): TokenCall => ({
+  id,
+  clinicId: 'clinic-1',
+  doctorName: 'Anu',
+  token: 'A1-003',
+  appointmentId: 'appt-3',
+  date: DATE,
+  calledAt,
+  ...overrides,
+});
+
+const doctors = [
+  makeDoctor('d-anu', 'Anu'),
+  makeDoctor('d-ben', 'Ben', { consultationStatus: 'Out' }),
+];
+
+const appointments = [
+  makeAppointment('1', { time: '10:00 AM', isInBuffer: true }),
+  makeAppointment('2', { time: '10:15 AM' }),
+  makeAppointment('3', { time: '10:30 AM' }),
+  makeAppointment('4', { time: '10:45 AM', status: 'Pending' }),
+  makeAppointment('5', { time: '10:20 AM', isPriority: true, priorityAt: { seconds: 1 } }),
+  makeAppointment('6', { time: '09:45 AM', status: 'Completed' }),
+  // Ben is on a break from 10:30 to 10:45
+  makeAppointment('b1', { doctor: 'Ben', time: '10:30 AM', status: 'Completed', patientId: 'dummy-break-patient', slotIndex: 4 }),
+  makeAppointment('b2', { doctor: 'Ben', time: '11:00 AM' }),
+];
+
+function board(layout = DEFAULT_QUEUE_DISPLAY_LAYOUT, calls: TokenCall[] = []) {
+  return buildNowServingBoard({
+    clinicName: 'Sunrise Clinic',
+    display: { name: 'Lobby TV', layout },
+    doctors,
+    appointments,
+    calls,
+    tokenDistribution: 'advanced',
+    now: NOW,
+  });
+}
+
+describe('buildNowServingBoard', () => {
+  test('shows the priority patient first, then the rest in queue order', () => {
+    const anu = board().doctors.find(d => d.doctorName === 'Anu')!;
+
+    expect(anu.status).toBe('consulting');
+    expect(anu.currentToken).toBe('A1-005');
+    expect(anu.upcomingTokens).toEqual(['A1-001', 'A1-002', 'A1-003']);
+  });
+
+  test('a doctor on a break shows when they are back instead of a token', () => {
+    const ben = board().doctors.find(d => d.doctorName === 'Ben')!;
+
+    expect(ben.status).toBe('break');
+    expect(ben.currentToken).toBeNull();
+    expect(ben.returnTime).toBe(getClinicTimeString(new Date(NOW.getTime() + 10 * 60 * 1000)));
+    expect(ben.upcomingTokens).toEqual(['A1-00b2']);
+  });
+
+  test('follows the owner\'s doctor selection, order and number of next tokens', () => {
+    const result = board({ ...DEFAULT_QUEUE_DISPLAY_LAYOUT, doctorIds: ['d-ben', 'd-anu', 'd-gone'], upcomingCount: 1 });
+
+    expect(result.doctors.map(d => d.doctorName)).toEqual(['Ben', 'Anu']);
+    expect(result.doctors[1].upcomingTokens).toEqual(['A1-001']);
+  });
+
+  test('never carries patient names', () => {
+    expect(JSON.stringify(board())).not.toContain('Patient');
+  });
+
+  test('only passes on recent calls for doctors on this display', () => {
+    const now = NOW.getTime();
+    const result = board({ ...DEFAULT_QUEUE_DISPLAY_LAYOUT, doctorIds: ['d-anu'] }, [
+      makeCall('c2', now - 1000),
+      makeCall('c1', now - 5000),
+      makeCall('ben', now - 1000, { doctorName: 'Ben' }),
+      makeCall('stale', now - TOKEN_CALL_ANNOUNCE_WINDOW_MS - 1),
+    ]);
+
+    expect(result.calls.map(c => c.id)).toEqual(['c1', 'c2']);
+  });
+});
+
+describe('tokens on screen and aloud', () => {
+  test('classic clinics show the classic number and hide internal tokens', () => {
+    expect(getDisplayToken({ tokenNumber: 'A1-004', classicTokenNumber: '7' }, 'classic')).toBe('#007');
+    expect(getDisplayToken({ tokenNumber: 'A1-004' }, 'classic')).toBeNull();
+    expect(getDisplayToken({ tokenNumber: 'W1-002' }, 'classic')).toBe('W1-002');
+    expect(getDisplayToken({ tokenNumber: 'A1-004', classicTokenNumber: '7' }, 'advanced')).toBe('A1-004');
+  });
+
+  test('reads tokens the way patients say them', () => {
+    expect(getSpokenToken('#007')).toBe('7');
+    expect(getSpokenToken('W1-012')).toBe('W 12');
+    expect(getSpokenToken('15')).toBe('15');
+  });
+
+  test('announces in each of the display\'s languages, in order', () => {
+    const lines = buildTokenAnnouncement({ token: '#012', doctorName: 'Anu' }, ['ml', 'en']);
+
+    expect(lines.map(l => l.language)).toEqual(['ml', 'en']);
+    expect(lines[0].text).toContain('ടോക്കൺ നമ്പർ 12');
+    expect(lines[1].text).toBe('Token number 12, please go to Dr. Anu\'s room.');
+  });
+
+  test('announces each new call once, oldest first', () => {
+    const calls = [makeCall('b', 3_000), makeCall('a', 2_000), makeCall('old', 1_000)];
+
+    expect(getCallsToAnnounce(calls, 1_000, 4_000).map(c => c.id)).toEqual(['a', 'b']);
+    expect(getCallsToAnnounce(calls, 3_000, 4_000)).toEqual([]);
+  });
+});
+
+describe('normalizeQueueDisplayLayout', () => {
+  test('pulls out-of-range settings back to what a TV can show', () => {
+    expect(normalizeQueueDisplayLayout({
+      doctorIds: ['d-anu', 'd-anu', ''],
+      columns: 9 as any,
+      upcomingCount: 40,
+      announcementLanguages: ['fr' as any],
+    })).toEqual({
+      doctorIds: ['d-anu'],
+      columns: DEFAULT_QUEUE_DISPLAY_LAYOUT.columns,
+      upcomingCount: 6,
+      announcementLanguages: ['ml', 'en'],
+    });
+    expect(normalizeQueueDisplayLayout(undefined)).toEqual(DEFAULT_QUEUE_DISPLAY_LAYOUT);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * CRITICAL TEST 16: Queue Projection
+ * Tests the queue order for classic and advanced distribution, skipped patients
+ * rejoining, the current token, break state and the "people ahead" count that
+ * the live-token page, nurse app and WhatsApp bot all share.
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { Appointment, Doctor } from '@kloqo/shared-types';
+import {
+  buildQueueProjection,
+  getPatientsAhead,
+  getQueueProjectionId,
+  getSkippedRejoinTime,
+} from '../services/queue-projection-service';
+
+const DATE = '19 October 2026';
+const NOW = new Date('2026-10-19T10:30:00+05:30');
+
+const at = (time: string) => new Date(`2026-10-19T${time}:00+05:30`);
+
+function makeDoctor(overrides: Partial<Doctor> = {}): Doctor {
+  return {
+    id: 'doc-1',
+    name: 'Dr. Ravi',
+    clinicId: 'clinic-1',
+    averageConsultingTime: 15,
+    consultationStatus: 'In',
+    ...overrides,
+  } as Doctor;
+}
+
+function makeAppointment(id: string, overrides: Partial<Appointment>): Appointment {
+  return {
+    id,
+    clinicId: 'clinic-1',
+    doctor: 'Dr. Ravi',
+    doctorId: 'doc-1',
+    date: DATE,
+    sessionIndex: 0,
+    status: 'Pending',
+    tokenNumber: `A${id}`,
+    ...overrides,
+  } as Appointment;
+}
+
+// A1 arrived second, A3 arrived first, A4 was skipped and would rejoin at 10:10
+const appointments: Appointment[] = [
+  makeAppointment('1', { time: '10:00 AM', status: 'Confirmed', confirmedAt: at('09:50'), classicTokenNumber: '002' }),
+  makeAppointment('2', { time: '10:15 AM', status: 'Pending' }),
+  makeAppointment('3', { time: '10:30 AM', status: 'Confirmed', confirmedAt: at('09:40'), classicTokenNumber: '001' }),
+  makeAppointment('4', { time: '10:20 AM', status: 'Skipped', noShowTime: at('09:55') }),
+  makeAppointment('5', { time: '09:45 AM', status: 'Completed' }),
+  makeAppointment('6', { time: '09:30 AM', status: 'Cancelled' }),
+  makeAppointment('7', { time: '10:05 AM', status: 'Confirmed', doctor: 'Dr. Other' }),
+];
+
+function build(tokenDistribution: 'classic' | 'advanced', doctor: Doctor = makeDoctor()) {
+  return buildQueueProjection({
+    appointments,
+    doctor,
+    clinicId: 'clinic-1',
+    date: DATE,
+    sessionIndex: 0,
+    tokenDistribution,
+    now: NOW,
+  });
+}
+
+describe('getSkippedRejoinTime', () => {
+  test('rejoins at the no-show time while the slot is still ahead', () => {
+    const apt = makeAppointment('x', { time: '11:00 AM', status: 'Skipped', noShowTime: at('10:20') });
+    expect(getSkippedRejoinTime(apt, NOW)?.getTime()).toBe(at('10:20').getTime());
+  });
+
+  test('rejoins 15 minutes after the no-show time once the slot has passed', () => {
+    const apt = makeAppointment('x', { time: '10:00 AM', status: 'Skipped', noShowTime: at('09:55') });
+    expect(getSkippedRejoinTime(apt, NOW)?.getTime()).toBe(at('10:10').getTime());
+  });
+
+  test('returns null without a no-show time', () => {
+    expect(getSkippedRejoinTime(makeAppointment('x', { time: '10:00 AM', status: 'Skipped' }), NOW)).toBeNull();
+  });
+});
+
+describe('buildQueueProjection', () => {
+  test('uses the consultation counter id scheme', () => {
+    const projection = build('advanced');
+    expect(projection.id).toBe(getQueueProjectionId('clinic-1', 'doc-1', DATE, 0));
+  });
+
+  test('advanced orders by slot time with skipped patients at their rejoin time', () => {
+    const projection = build('advanced');
+    expect(projection.entries.map(e => e.appointmentId)).toEqual(['1', '4', '2', '3']);
+    expect(projection.entries.find(e => e.appointmentId === '4')?.time).toBe('10:10 AM');
+    expect(projection.currentAppointmentId).toBe('1');
+    expect(projection.currentToken).toBe('A1');
+    expect(projection.delayMinutes).toBe(30);
+    expect(projection.consultationCount).toBe(1);
+  });
+
+  test('classic puts arrived patients first in arrival order', () => {
+    const projection = build('classic');
+    expect(projection.entries.map(e => e.appointmentId)).toEqual(['3', '1', '4', '2']);
+    expect(projection.currentAppointmentId).toBe('3');
+    expect(projection.currentToken).toBe('001');
+  });
+
+  test('only arrived patients get an ETA, stepping by the consulting time', () => {
+    const projection = build('advanced');
+    const eta = Object.fromEntries(projection.entries.map(e => [e.appointmentId, e.estimatedTime]));
+    expect(eta['1']).toBe('10:30 AM');
+    expect(eta['3']).toBe('10:45 AM');
+    expect(eta['2']).toBeNull();
+    expect(eta['4']).toBeNull();
+  });
+
+  test('reports an active break only while the doctor is out', () => {
+    const breakPeriods = {
+      [DATE]: [{
+        id: 'break-1',
+        sessionIndex: 0,
+        startTime: at('10:20').toISOString(),
+        endTime: at('10:50').toISOString(),
+        startTimeFormatted: '10:20 AM',
+        endTimeFormatted: '10:50 AM',
+        duration: 30,
+      }],
+    } as any;
+
+    const out = build('advanced', makeDoctor({ consultationStatus: 'Out', breakPeriods }));
+    expect(out.breakState).toEqual({ onBreak: true, minutesRemaining: 20, endsAt: '10:50 AM' });
+
+    const resumed = build('advanced', makeDoctor({ consultationStatus: 'In', breakPeriods }));
+    expect(resumed.breakState.onBreak).toBe(false);
+    expect(resumed.breaks).toHaveLength(1);
+  });
+});
+
+describe('getPatientsAhead', () => {
+  test('classic counts only arrived patients', () => {
+    const projection = build('classic');
+    expect(getPatientsAhead(projection, '3')).toBe(0);
+    expect(getPatientsAhead(projection, '1')).toBe(1);
+    // Pending patients wait behind everyone who has arrived
+    expect(getPatientsAhead(projection, '2')).toBe(2);
+  });
+
+  test('advanced counts pending patients and skipped patients rejoining ahead', () => {
+    expect(getPatientsAhead(build('advanced'), '3')).toBe(3);
+  });
+
+  test('advanced ignores pending and skipped patients once you are one of the next two', () => {
+    const projection = build('advanced');
+    expect(getPatientsAhead(projection, '1')).toBe(0);
+    expect(getPatientsAhead(projection, '2')).toBe(1);
+  });
+
+  test('returns 0 for skipped or unknown appointments and missing projections', () => {
+    const projection = build('advanced');
+    expect(getPatientsAhead(projection, '4')).toBe(0);
+    expect(getPatientsAhead(projection, 'missing')).toBe(0);
+    expect(getPatientsAhead(null, '1')).toBe(0);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * CRITICAL TEST 12: Clinic Subscriptions
+ * Tests renewal and grace-period states, doctor and staff-login limits,
+ * WhatsApp quota billing and the MRR reported to superadmin.
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  buildSubscription,
+  getDoctorLimit,
+  getSeatLimit,
+  getSubscriptionState,
+  getWhatsAppCreditSource,
+  getWhatsAppCreditUpdate,
+  isSubscriptionLocked,
+  getSubscriptionRevenueHistory,
+  summarizeSubscriptionRevenue,
+} from '../services/subscription-service';
+import { countStaffSeats } from '../services/access-control-service';
+
+const annualGrowth = buildSubscription('growth', 'annual', new Date(2026, 0, 10));
+
+describe('Subscription state', () => {
+  test('annual plan renews a year after it starts', () => {
+    expect(annualGrowth.startDate).toBe('10 January 2026');
+    expect(annualGrowth.renewalDate).toBe('10 January 2027');
+    expect(annualGrowth.maxDoctors).toBe(3);
+    expect(annualGrowth.price).toBe(17999);
+  });
+
+  test('active through the renewal day, then grace period, then locked', () => {
+    expect(getSubscriptionState(annualGrowth, new Date(2026, 11, 1)).status).toBe('Active');
+    expect(getSubscriptionState(annualGrowth, new Date(2027, 0, 10, 12, 0)).status).toBe('Active');
+    expect(getSubscriptionState(annualGrowth, new Date(2027, 0, 10, 12, 0)).daysUntilRenewal).toBe(0);
+    expect(getSubscriptionState(annualGrowth, new Date(2027, 0, 11, 12, 0)).status).toBe('GracePeriod');
+    expect(getSubscriptionState(annualGrowth, new Date(2027, 0, 17, 12, 0)).status).toBe('GracePeriod');
+    expect(getSubscriptionState(annualGrowth, new Date(2027, 0, 18, 12, 0)).status).toBe('Locked');
+  });
+
+  test('cancelled subscriptions lock the clinic; legacy clinics never lock', () => {
+    expect(isSubscriptionLocked({ ...annualGrowth, cancelled: true }, new Date(2026, 5, 1))).toBe(true);
+    expect(isSubscriptionLocked(undefined, new Date(2026, 5, 1))).toBe(false);
+  });
+
+  test('doctor limit comes from the plan, else the registered doctor count', () => {
+    expect(getDoctorLimit({ numDoctors: 8, subscription: annualGrowth })).toBe(3);
+    expect(getDoctorLimit({ numDoctors: 2 })).toBe(2);
+    expect(getDoctorLimit({})).toBe(1);
+  });
+
+  test('staff logins are limited by the plan; kiosks and deactivated logins take no seat', () => {
+    expect(getSeatLimit({ subscription: annualGrowth })).toBe(2);
+    expect(getSeatLimit({})).toBeNull();
+
+    expect(countStaffSeats([
+      { role: 'clinicAdmin' },                                   // legacy owner
+      { role: 'clinicAdmin', staffRole: 'receptionist' },
+      { role: 'clinicAdmin', staffRole: 'nurse', active: false },
+      { role: 'clinicAdmin', staffRole: 'kiosk' },
+      { role: 'patient' },
+    ])).toBe(2);
+  });
+});
+
+describe('WhatsApp credits', () => {
+  test('monthly quota is used first and resets each month', () => {
+    const used = { ...annualGrowth, whatsappUsage: { month: '2026-03', count: 1000 } };
+    expect(getWhatsAppCreditSource(used, '2026-03')).toBeNull();
+    expect(getWhatsAppCreditSource(used, '2026-04')).toBe('quota');
+  });
+
+  test('pack credits cover messages once the quota runs out', () => {
+    const starter = buildSubscription('starter', 'annual', new Date(2026, 0, 10));
+    expect(starter.whatsappMonthlyQuota).toBe(0);
+    expect(getWhatsAppCreditSource(starter, '2026-01')).toBe('pack');
+    expect(getWhatsAppCreditSource({ ...starter, whatsappPackCredits: 0 }, '2026-01')).toBeNull();
+  });
+
+  test('a paid template bumps the month\'s usage, else spends a pack credit', () => {
+    const now = new Date(2026, 2, 15, 10, 0);
+    const used = { ...annualGrowth, whatsappUsage: { month: '2026-03', count: 4 } };
+    expect(getWhatsAppCreditUpdate(used, now)).toEqual({ 'subscription.whatsappUsage': { month: '2026-03', count: 5 } });
+
+    const starter = { ...buildSubscription('starter', 'annual', new Date(2026, 0, 10)), whatsappPackCredits: 3 };
+    expect(getWhatsAppCreditUpdate(starter, now)).toEqual({ 'subscription.whatsappPackCredits': 2 });
+  });
+
+  test('locked or exhausted clinics cannot send paid templates', () => {
+    const now = new Date(2026, 2, 15, 10, 0);
+    expect(getWhatsAppCreditUpdate({ ...annualGrowth, cancelled: true }, now)).toBeNull();
+    expect(getWhatsAppCreditUpdate({ ...buildSubscription('starter', 'annual', new Date(2026, 0, 10)), whatsappPackCredits: 0 }, now)).toBeNull();
+  });
+});
+
+describe('Subscription revenue', () => {
+  test('MRR counts live subscriptions only', () => {
+    const now = new Date(2026, 5, 1);
+    const revenue = summarizeSubscriptionRevenue([
+      { subscription: annualGrowth },                                                 // 17999 / 12
+      { subscription: buildSubscription('starter', 'monthly', new Date(2026, 4, 20)) }, // 999
+      { subscription: { ...annualGrowth, cancelled: true } },
+      { subscription: buildSubscription('pro', 'monthly', new Date(2025, 0, 1)) },      // long locked
+      {},
+    ], now);
+
+    expect(revenue.activeSubscriptions).toBe(2);
+    expect(revenue.mrr).toBe(Math.round(17999 / 12 + 999));
+    expect(revenue.arr).toBe(revenue.mrr * 12);
+    expect(revenue.byPlan.pro).toBe(0);
+  });
+
+  test('monthly history counts each subscription from its start until it lapses', () => {
+    const history = getSubscriptionRevenueHistory([
+      { subscription: buildSubscription('starter', 'monthly', new Date(2026, 2, 15)) }, // lapses in April
+      { subscription: buildSubscription('starter', 'monthly', new Date(2026, 4, 20)) },
+      { subscription: annualGrowth },
+    ], 6, new Date(2026, 5, 1));
+
+    expect(history.map(h => h.month)).toEqual(['2026-01', '2026-02', '2026-03', '2026-04', '2026-05', '2026-06']);
+    expect(history.map(h => h.activeSubscriptions)).toEqual([1, 1, 2, 1, 2, 2]);
+    expect(history[0].mrr).toBe(Math.round(17999 / 12));
+    expect(history[5].mrr).toBe(Math.round(17999 / 12 + 999));
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * CRITICAL TEST 9: Waitlist Promotion
+ * Tests that freed slots go to waiting patients first come, first served,
+ * that lapsed offers pass on to the next patient, and that held slots are not offered twice.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { addMinutes } from 'date-fns';
+import type { Appointment, Doctor, WaitlistEntry } from '@kloqo/shared-types';
+import { isWaitlistOfferExpired, planWaitlistOffers, type WaitlistSessionState } from '../services/waitlist-service';
+import { buildDaySlots } from '../services/scheduling-engine';
+import { parseTime } from '../utils/break-helpers';
+import { parseClinicDate } from '../utils/date-utils';
+
+const DATE = '19 January 2026';
+
+const doctor: Doctor = {
+  id: 'doc-1',
+  clinicId: 'clinic-1',
+  name: 'Test Doctor',
+  specialty: 'General',
+  avatar: '',
+  schedule: '',
+  preferences: '',
+  historicalData: '',
+  department: 'General Medicine',
+  availability: 'Available',
+  averageConsultingTime: 15,
+  // 19 January 2026 is a Monday; 4 slots, slot 3 is the walk-in reserve
+  availabilitySlots: [{ day: 'Monday', timeSlots: [{ from: '09:00 AM', to: '10:00 AM' }] }],
+};
+
+const now = parseTime('08:00 AM', parseClinicDate(DATE));
+
+const appointment = (slotIndex: number, status: Appointment['status'] = 'Pending'): Appointment => ({
+  id: `appt-${slotIndex}`,
+  clinicId: 'clinic-1',
+  patientId: `patient-${slotIndex}`,
+  patientName: `Patient ${slotIndex}`,
+  sex: 'Male',
+  communicationPhone: '',
+  age: 30,
+  doctor: doctor.name,
+  date: DATE,
+  time: '09:00 AM',
+  department: 'General Medicine',
+  status,
+  bookedVia: 'Advanced Booking',
+  slotIndex,
+  sessionIndex: 0,
+  tokenNumber: `A${slotIndex + 1}`,
+  numericToken: slotIndex + 1,
+});
+
+const entry = (id: string, joinedMinutesAgo: number, overrides: Partial<WaitlistEntry> = {}): WaitlistEntry => ({
+  id,
+  clinicId: 'clinic-1',
+  doctorId: doctor.id,
+  doctorName: doctor.name,
+  date: DATE,
+  sessionIndex: 0,
+  patientId: `patient-${id}`,
+  patientName: id,
+  status: 'Waiting',
+  createdAt: addMinutes(now, -joinedMinutesAgo),
+  ...overrides,
+});
+
+const session = (appointments: Appointment[], entries: WaitlistEntry[]): WaitlistSessionState => ({
+  sessionIndex: 0,
+  slots: buildDaySlots(doctor, parseClinicDate(DATE)),
+  appointments,
+  entries,
+});
+
+describe('Waitlist - Offer Expiry', () => {
+  test('CRITICAL: an offer lapses once its hold time has passed', () => {
+    const offered = { status: 'Offered' as const, offerExpiresAt: addMinutes(now, 10) };
+
+    expect(isWaitlistOfferExpired(offered, now)).toBe(false);
+    expect(isWaitlistOfferExpired(offered, addMinutes(now, 10))).toBe(true);
+    expect(isWaitlistOfferExpired({ status: 'Waiting' }, addMinutes(now, 60))).toBe(false);
+  });
+});
+
+describe('Waitlist - Promotion', () => {
+  test('CRITICAL: a freed slot goes to the patient who joined first', () => {
+    const state = session(
+      [appointment(0), appointment(1, 'Cancelled'), appointment(2)],
+      [entry('late', 5), entry('early', 30)]
+    );
+
+    expect(planWaitlistOffers(state, now)).toEqual({
+      expiredEntryIds: [],
+      offers: [{ entryId: 'early', slotIndex: 1, time: '09:15 AM' }],
+    });
+  });
+
+  test('CRITICAL: a slot held by a live offer is not offered again', () => {
+    const state = session(
+      [appointment(0), appointment(2)],
+      [entry('holder', 30, { status: 'Offered', offeredSlotIndex: 1, offerExpiresAt: addMinutes(now, 5) }), entry('next', 10)]
+    );
+
+    expect(planWaitlistOffers(state, now).offers).toEqual([]);
+  });
+
+  test('CRITICAL: a lapsed offer passes the slot to the next waiting patient', () => {
+    const state = session(
+      [appointment(0), appointment(2)],
+      [entry('holder', 30, { status: 'Offered', offeredSlotIndex: 1, offerExpiresAt: addMinutes(now, -1) }), entry('next', 10)]
+    );
+
+    expect(planWaitlistOffers(state, now)).toEqual({
+      expiredEntryIds: ['holder'],
+      offers: [{ entryId: 'next', slotIndex: 1, time: '09:15 AM' }],
+    });
+  });
+
+  test('CRITICAL: slots in a later session are offered with their absolute index', () => {
+    const twoSessions = {
+      ...doctor,
+      availabilitySlots: [{ day: 'Monday', timeSlots: [{ from: '09:00 AM', to: '10:00 AM' }, { from: '05:00 PM', to: '06:00 PM' }] }],
+    };
+    const state: WaitlistSessionState = {
+      sessionIndex: 1,
+      slots: buildDaySlots(twoSessions, parseClinicDate(DATE)),
+      appointments: [appointment(4), appointment(6)],
+      entries: [entry('evening', 10, { sessionIndex: 1 })],
+    };
+
+    expect(planWaitlistOffers(state, now).offers).toEqual([{ entryId: 'evening', slotIndex: 5, time: '05:15 PM' }]);
+  });
+
+  test('CRITICAL: the walk-in reserve is never offered to the waitlist', () => {
+    const state = session([appointment(0), appointment(1), appointment(2)], [entry('waiting', 10)]);
+
+    expect(planWaitlistOffers(state, now).offers).toEqual([]);
+  });
+});
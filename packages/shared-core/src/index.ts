@@ -12,7 +12,30 @@ export { getPatientByPhone } from './services/patient-service';
 export * from './utils/break-helpers';
 export { previewWalkInPlacement, calculateWalkInDetails, findActiveSessionIndex, findTargetSessionForForceBooking, type DailySlot } from './services/walk-in.service';
 export * from './services/walk-in-scheduler';
+export * from './services/scheduling-engine';
+export * from './services/day-simulator';
 export * from './services/booking.service';
+export * from './services/leave-service';
+export * from './services/waitlist-service';
+export * from './services/series-service';
+export * from './services/payment-gateway';
+export * from './services/payment-service';
+export * from './services/subscription-service';
+export * from './services/notification-outbox-service';
+export * from './services/queue-projection-service';
+export * from './services/consultation-time-service';
+export * from './services/appointment-event-service';
+export * from './services/access-control-service';
+export * from './services/clinic-group-service';
+export * from './services/consultation-record-service';
+export * from './services/document-storage';
+export * from './services/medical-record-service';
+export * from './services/patient-dedup-service';
+export * from './services/kiosk-service';
+export * from './services/queue-display-service';
+// export * from './services/local-document-storage'; // Server-only: Import directly
+export * from './services/message-catalog';
+export * from './services/message-templates';
 export * from './services/whatsapp-service';
 export * from './services/punctuality-service';
 export * from './services/code-service';
@@ -21,16 +44,20 @@ export * from './services/global-search-service';
 export * from './services/magic-link-service';
 export * from './services/marketing-link-service';
 export * from './services/notification-config';
+export * from './services/metrics-rollup-service';
 // export * from './services/magic-link-admin-service'; // Server-only: Import directly
 // Note: AIService is not exported here to avoid forcing @google/generative-ai dependency on all apps
 // Import directly from './services/ai-service' if needed
 
 export * from './utils/date-utils';
 export { getClinicDateString, getClinicNow } from './utils/date-utils';
+export * from './utils/date-keys';
 export * from './utils/reservation-utils';
 export * from './utils/errors';
 // export * from './utils/firebase-admin'; // Server-only: Import directly
 export * from './utils/error-emitter';
 export * from './utils/text-utils';
 export * from './utils/token-utils';
+export * from './utils/qr-code';
 export * from './utils/estimated-time-utils';
+export * from './utils/nurse-app-api';
@@ -0,0 +1,201 @@
+/**
+ * Access Control Service
+ *
+ * Staff roles and what each may do. Every clinic login is a `users` doc with
+ * role 'clinicAdmin' and a `staffRole` (owner, doctor, receptionist, nurse,
+ * read-only or kiosk); accounts from before staff roles have none and count
+ * as owners. Kiosks are reception tablets: they check patients in and book
+ * walk-ins, and are paired rather than created with an email and password.
+ * Services that cancel, force-book, schedule breaks, edit fees, write
+ * prescriptions or merge patients take the signed-in staff member and call
+ * `assertPermission` before writing; server jobs and patient flows pass none
+ * and are not checked here. The Firestore rules mirror `ROLE_PERMISSIONS`, so
+ * keep the two in step.
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  type Firestore,
+} from 'firebase/firestore';
+import type { StaffPermission, StaffRole, User } from '@kloqo/shared-types';
+
+export const STAFF_ROLES: StaffRole[] = ['owner', 'doctor', 'receptionist', 'nurse', 'readOnly', 'kiosk'];
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  doctor: 'Doctor',
+  receptionist: 'Receptionist',
+  nurse: 'Nurse',
+  readOnly: 'Read-only',
+  kiosk: 'Kiosk',
+};
+
+export const ROLE_PERMISSIONS: Record<StaffRole, StaffPermission[]> = {
+  owner: ['book_appointment', 'update_queue', 'cancel_appointment', 'force_book', 'schedule_break', 'edit_fees', 'write_prescription', 'merge_patients', 'manage_staff'],
+  doctor: ['update_queue', 'schedule_break', 'write_prescription'],
+  receptionist: ['book_appointment', 'update_queue', 'cancel_appointment', 'force_book'],
+  nurse: ['book_appointment', 'update_queue', 'force_book', 'schedule_break'],
+  readOnly: [],
+  kiosk: ['book_appointment'],
+};
+
+export const PERMISSION_LABELS: Record<StaffPermission, string> = {
+  book_appointment: 'book appointments',
+  update_queue: 'update the queue',
+  cancel_appointment: 'cancel appointments',
+  force_book: 'force-book beyond capacity',
+  schedule_break: 'schedule breaks',
+  edit_fees: 'edit fees',
+  write_prescription: 'write prescriptions',
+  merge_patients: 'merge duplicate patients',
+  manage_staff: 'manage staff',
+};
+
+// The signed-in user's doc, as services receive it for permission checks
+export type StaffMember = Partial<User> & { uid: string };
+
+export class PermissionDeniedError extends Error {
+  permission: StaffPermission;
+  constructor(permission: StaffPermission, message?: string) {
+    super(message || `You do not have permission to ${PERMISSION_LABELS[permission]}.`);
+    this.name = 'PermissionDeniedError';
+    this.permission = permission;
+  }
+}
+
+// ============================================================================
+// ROLE CHECKS
+// ============================================================================
+
+/**
+ * The staff role of a user doc, or null for patients and deactivated accounts.
+ */
+export function getStaffRole(user: Partial<User> | null | undefined): StaffRole | null {
+  if (!user || user.role !== 'clinicAdmin' || user.active === false) return null;
+  return user.staffRole && STAFF_ROLES.includes(user.staffRole) ? user.staffRole : 'owner';
+}
+
+export function hasPermission(user: Partial<User> | null | undefined, permission: StaffPermission): boolean {
+  const role = getStaffRole(user);
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function assertPermission(user: Partial<User> | null | undefined, permission: StaffPermission): void {
+  if (!hasPermission(user, permission)) {
+    console.warn(`[Access] Denied ${permission} for user ${user?.uid ?? 'unknown'} (${getStaffRole(user) ?? 'no staff role'})`);
+    throw new PermissionDeniedError(permission);
+  }
+}
+
+// ============================================================================
+// STAFF ACCOUNTS
+// ============================================================================
+
+export interface StaffAccountInput {
+  clinicId: string;
+  name: string;
+  email: string;
+  phone: string;
+  staffRole: StaffRole;
+  doctorId?: string | null;
+}
+
+/**
+ * The `users` doc of a new staff login. Staff skip the clinic onboarding flow,
+ * which only the owner who registered the clinic goes through.
+ */
+export function buildStaffUserDoc(uid: string, input: StaffAccountInput): User {
+  const phone = input.phone.replace(/\D/g, '').slice(-10);
+  if (!input.name.trim()) throw new Error('Staff name is required');
+  if (phone.length !== 10) throw new Error('Staff phone must be a 10-digit mobile number');
+  if (!STAFF_ROLES.includes(input.staffRole)) throw new Error(`Unknown staff role: ${input.staffRole}`);
+  if (input.staffRole === 'doctor' && !input.doctorId) throw new Error('Doctor logins must be linked to a doctor');
+  if (input.staffRole === 'kiosk') throw new Error('Kiosks are added by pairing a tablet, not as staff logins');
+
+  return {
+    uid,
+    clinicId: input.clinicId,
+    name: input.name.trim(),
+    email: input.email.trim().toLowerCase(),
+    phone: `+91${phone}`,
+    role: 'clinicAdmin',
+    staffRole: input.staffRole,
+    ...(input.staffRole === 'doctor' && input.doctorId ? { doctorId: input.doctorId } : {}),
+    active: true,
+    onboarded: true,
+  };
+}
+
+/**
+ * The `users` doc of a kiosk tablet. It has no email or phone; the tablet
+ * signs in with a custom token after entering a pairing code.
+ */
+export function buildKioskUserDoc(uid: string, clinicId: string, name: string): User {
+  if (!name.trim()) throw new Error('Kiosk name is required');
+  return {
+    uid,
+    clinicId,
+    name: name.trim(),
+    phone: '',
+    role: 'clinicAdmin',
+    staffRole: 'kiosk',
+    active: true,
+    onboarded: true,
+  };
+}
+
+/**
+ * Staff logins that count against the plan's seats: active accounts other than kiosks
+ */
+export function countStaffSeats(users: Partial<User>[]): number {
+  return users.filter(user => {
+    const role = getStaffRole(user);
+    return role !== null && role !== 'kiosk';
+  }).length;
+}
+
+export async function getClinicStaff(firestore: Firestore, clinicId: string): Promise<User[]> {
+  const snapshot = await getDocs(query(
+    collection(firestore, 'users'),
+    where('clinicId', '==', clinicId),
+    where('role', '==', 'clinicAdmin')
+  ));
+  return snapshot.docs
+    .map(d => ({ ...d.data(), uid: d.id } as User))
+    .sort((a, b) => STAFF_ROLES.indexOf(a.staffRole || 'owner') - STAFF_ROLES.indexOf(b.staffRole || 'owner')
+      || (a.name || '').localeCompare(b.name || ''));
+}
+
+/**
+ * Changes a staff member's role or (de)activates them. An owner cannot demote
+ * or deactivate themselves, so a clinic is never left without one.
+ */
+export async function updateStaffMember(
+  firestore: Firestore,
+  actor: StaffMember,
+  member: User,
+  updates: { staffRole?: StaffRole; active?: boolean; doctorId?: string | null }
+): Promise<void> {
+  assertPermission(actor, 'manage_staff');
+  if (member.clinicId !== actor.clinicId) throw new Error('Staff member belongs to another clinic');
+  if (member.uid === actor.uid && ((updates.staffRole && updates.staffRole !== 'owner') || updates.active === false)) {
+    throw new Error('You cannot remove your own owner access');
+  }
+  if (updates.staffRole && (updates.staffRole === 'kiosk') !== (member.staffRole === 'kiosk')) {
+    throw new Error('Kiosks and staff logins cannot be converted into each other');
+  }
+  if (updates.staffRole === 'doctor' && !(updates.doctorId ?? member.doctorId)) {
+    throw new Error('Doctor logins must be linked to a doctor');
+  }
+
+  await updateDoc(doc(firestore, 'users', member.uid), {
+    ...updates,
+    updatedAt: serverTimestamp(),
+  });
+}
@@ -1,4 +1,7 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { Language } from '@kloqo/shared-types';
+import { LANGUAGE_NAMES, translate } from './message-catalog';
+import { DEFAULT_CLINIC_TIME_ZONE, type ClinicTimeContext } from '../utils/date-utils';
 
 // Initialize Gemini with API Key (Needs to be in env)
 // Refactored to initialize inside the method to ensure ENV is loaded
@@ -17,12 +20,14 @@ export class AIService {
         operatingHours: string,
         userQuery: string,
         patientName?: string,
-        globalData?: string // New parameter for global clinic context
+        globalData?: string, // New parameter for global clinic context
+        language: Language = 'ml',
+        timeContext?: ClinicTimeContext // the clinic's clock; India time for the general assistant
     ): Promise<string> {
         const apiKey = process.env.GEMINI_API_KEY;
         if (!apiKey) {
             console.warn('GEMINI_API_KEY not found. Returning fallback response.');
-            return "ക്ഷമിക്കണം, സിസ്റ്റം അറ്റകുറ്റപ്പണിയിലാണ്. ബുക്ക് ചെയ്യാൻ 'Book' എന്ന് ടൈപ്പ് ചെയ്യുക.";
+            return translate(language, 'bot.maintenance');
         }
 
         // Initialize Gemini dynamically to ensure ENV is loaded
@@ -30,6 +35,13 @@ export class AIService {
         // Use gemini-flash-latest which is available for this key
         const model = genAI.getGenerativeModel({ model: 'gemini-flash-latest' });
 
+        const languageGuideline = language === 'ml'
+            ? 'Priority language is Malayalam. If the user asks in English, you can reply in Malayalam or a mix (Manglish).'
+            : `Priority language is ${LANGUAGE_NAMES[language]}. If the user writes in another language, reply in that language.`;
+
+        // The same menu the clinic welcome message offers, in the patient's language
+        const menuOptions = translate(language, 'bot.options').split('\n').join('\n         ');
+
         const greeting = patientName ? `Address the patient as "${patientName}".` : "Address the user politely.";
         const isGeneral = clinicName === "Kloqo" || !clinicName;
 
@@ -53,7 +65,7 @@ export class AIService {
       ${clinicContext}
       ${greeting}
       
-      Time: ${new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}
+      Time: ${new Date().toLocaleString('en-IN', { timeZone: timeContext?.timeZone ?? DEFAULT_CLINIC_TIME_ZONE })}
       
       ${statusInfo}
       ${globalInfo}
@@ -61,13 +73,10 @@ export class AIService {
       User Query: "${userQuery}"
       
       Guidelines:
-      1. Priority language is Malayalam. If the user asks in English, you can reply in Malayalam or a mix (Manglish).
+      1. ${languageGuideline}
       2. If the user describes a symptom (e.g., fever, stomach ache, tooth pain), use the "Platform context" above to find a matching specialty and recommend the specific clinic and its code (KQ-XXXX). Explain why you are recommending it (e.g., "For stomach pain, you can visit a General Physician at Clinic X").
       3. If the user asks for options or what they can do, present these numbered options:
-         1. ഡോക്ടറുടെ ലഭята (Doctor Availability)
-         2. പ്രവർത്തന സമയം (Opening Hours)
-         3. ക്യൂ നില (Queue Status)
-         4. അപ്പോയിന്റ്മെന്റ് ബുക്ക് ചെയ്യുക (Book Appointment)
+         ${menuOptions}
       4. If the user types a number (1, 2, 3, 4), respond to the corresponding option.
       5. If the user wants to book (Option 4), guide them to type "Book" or "4".
       6. Keep it concise (max 3 sentences).
@@ -100,14 +109,14 @@ export class AIService {
                     if (fallbackError.status === 429) return AI_ERROR_BUSY;
                 }
             }
-            return "ക്ഷമിക്കണം, ഇപ്പോൾ സിസ്റ്റുമായി ബന്ധിപ്പിക്കാൻ കഴിയുന്നില്ല. ദയവായി അല്പം കഴിഞ്ഞ് ശ്രമിക്കുക.";
+            return translate(language, 'bot.unavailable');
         }
     }
 
     /**
      * Uses AI to extract booking information (name, age, sex, date, intent) from user messages.
      */
-    static async extractBookingInfo(text: string): Promise<{
+    static async extractBookingInfo(text: string, timeContext?: ClinicTimeContext): Promise<{
         intent?: 'book' | 'cancel' | 'check_status' | 'unknown';
         patientName?: string;
         patientAge?: number;
@@ -120,12 +129,13 @@ export class AIService {
 
         const genAI = new GoogleGenerativeAI(apiKey);
         const model = genAI.getGenerativeModel({ model: 'gemini-flash-latest' });
+        const timeZone = timeContext?.timeZone ?? DEFAULT_CLINIC_TIME_ZONE;
 
         const prompt = `
       Extract booking information from this message: "${text}"
       
-      Current Date: ${new Date().toLocaleDateString('en-GB', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'Asia/Kolkata' })}
-      Reference Date (YYYY-MM-DD): ${new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' })}
+      Current Date: ${new Date().toLocaleDateString('en-GB', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone })}
+      Reference Date (YYYY-MM-DD): ${new Date().toLocaleDateString('en-CA', { timeZone })}
       
       Rules:
       1. Identify intent: Is the user trying to start a booking, cancel, or just checking?
@@ -0,0 +1,275 @@
+/**
+ * Appointment Event Service
+ *
+ * The single write path for appointment mutations that need an audit trail.
+ * `applyAppointmentMutation` adds the update and an `appointment_events` doc to
+ * the caller's batch or transaction, so both land together or not at all;
+ * `mutateAppointment` does the same in its own batch, then has the doctor's queue
+ * projection rebuilt. Each event records who
+ * (actor), from which app (source), what changed (before/after per field), when
+ * and why. Events are append-only (the rules allow create by the actor itself,
+ * never update/delete) and the clinic-admin appointment history reads them back
+ * through `getAppointmentTimeline`, which answers disputes over a skip or No-show.
+ */
+
+import { getAuth } from 'firebase/auth';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+  type Firestore,
+  type Transaction,
+  type WriteBatch,
+} from 'firebase/firestore';
+import type {
+  Appointment,
+  AppointmentEvent,
+  AppointmentEventAction,
+  AppointmentEventActor,
+  AppointmentEventSource,
+  AppointmentFieldChange,
+} from '@kloqo/shared-types';
+import { getAppointmentDateFields } from '../utils/date-keys';
+import type { ClinicTimeContext } from '../utils/date-utils';
+
+export const APPOINTMENT_EVENTS_COLLECTION = 'appointment_events';
+
+export const SYSTEM_ACTOR: AppointmentEventActor = { type: 'system', id: null, name: 'System' };
+
+// Bookkeeping fields that change with every write and say nothing on their own
+const IGNORED_FIELDS = new Set(['updatedAt', 'dateKey', 'slotAt']);
+
+// previousAppointmentId hops followed when reading a timeline
+const MAX_TIMELINE_HOPS = 10;
+
+export interface AppointmentMutationContext {
+  action: AppointmentEventAction;
+  actor: AppointmentEventActor;
+  source: AppointmentEventSource;
+  reason?: string | null;
+  device?: string | null;
+  // Clinic clock for re-deriving dateKey/slotAt when date or time moves
+  timeContext?: ClinicTimeContext;
+}
+
+export type AppointmentEventDraft = Omit<AppointmentEvent, 'id' | 'createdAt'>;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * Makes a field value storable and comparable: Dates and Timestamps become ISO
+ * strings and `serverTimestamp()` becomes `now`, since that is when it resolves.
+ */
+export function normalizeEventValue(value: any, now: Date = new Date()): any {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value.toDate === 'function') return value.toDate().toISOString();
+  // FieldValue sentinels (serverTimestamp(), deleteField()) only expose isEqual
+  if (typeof value.isEqual === 'function') {
+    return value.isEqual(serverTimestamp()) ? now.toISOString() : null;
+  }
+  if (Array.isArray(value)) return value.map(item => normalizeEventValue(item, now));
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, normalizeEventValue(item, now)]));
+  }
+  return value;
+}
+
+/**
+ * The actor for automatic changes (status sweeps, rebalancing), attributed to
+ * the signed-in device or server worker: the rules only accept events whose
+ * actor id is the caller's uid.
+ */
+export function getSystemActor(firestore: Firestore, name: string = 'System'): AppointmentEventActor {
+  return { ...SYSTEM_ACTOR, id: getAuth(firestore.app).currentUser?.uid ?? null, name };
+}
+
+export function getUserActor(
+  user: { uid: string; name?: string | null; displayName?: string | null; email?: string | null } | null | undefined,
+  role?: string | null
+): AppointmentEventActor {
+  return {
+    type: 'user',
+    id: user?.uid ?? null,
+    name: user?.name || user?.displayName || user?.email || null,
+    role: role ?? null,
+  };
+}
+
+/**
+ * Before/after for every field in `updates` whose value actually changes.
+ */
+export function diffAppointmentFields(
+  before: Partial<Appointment> & Record<string, any>,
+  updates: Record<string, any>,
+  now: Date = new Date()
+): Record<string, AppointmentFieldChange> {
+  const changes: Record<string, AppointmentFieldChange> = {};
+  for (const [field, value] of Object.entries(updates)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const previous = normalizeEventValue(before[field], now);
+    const next = normalizeEventValue(value, now);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+  return changes;
+}
+
+export function buildAppointmentEvent(
+  appointment: Partial<Appointment> & { id: string },
+  updates: Record<string, any>,
+  context: AppointmentMutationContext,
+  options: { now?: Date; previousAppointmentId?: string | null } = {}
+): AppointmentEventDraft {
+  return {
+    appointmentId: appointment.id,
+    clinicId: appointment.clinicId || '',
+    patientId: appointment.patientId || null,
+    tokenNumber: appointment.tokenNumber || null,
+    action: context.action,
+    actor: context.actor,
+    source: context.source,
+    reason: context.reason || null,
+    changes: diffAppointmentFields(appointment, updates, options.now),
+    ...(options.previousAppointmentId ? { previousAppointmentId: options.previousAppointmentId } : {}),
+    ...(context.device ? { device: context.device } : {}),
+  };
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+/**
+ * Adds just the event to a batch or transaction, for writes that are not a
+ * plain update (e.g. an appointment re-created under a new id).
+ */
+export function addAppointmentEvent(
+  writer: WriteBatch | Transaction,
+  firestore: Firestore,
+  event: AppointmentEventDraft
+): void {
+  (writer as WriteBatch).set(doc(collection(firestore, APPOINTMENT_EVENTS_COLLECTION)), {
+    ...event,
+    createdAt: serverTimestamp(),
+  });
+}
+
+/**
+ * The `dateKey`/`slotAt` that go with an update moving the appointment's date
+ * or time, so the canonical fields never lag the display ones.
+ */
+export function withAppointmentDateFields(
+  appointment: Partial<Appointment>,
+  updates: Record<string, any>,
+  timeContext?: ClinicTimeContext
+): Record<string, any> {
+  const movesSlot = typeof updates.date === 'string' || typeof updates.time === 'string';
+  if (!movesSlot || 'dateKey' in updates || 'slotAt' in updates) return updates;
+
+  const date = updates.date ?? appointment.date;
+  if (!date) return updates;
+  return { ...updates, ...getAppointmentDateFields(date, updates.time ?? appointment.time, timeContext) };
+}
+
+/**
+ * Queues the update and its event on the caller's batch or transaction.
+ * `appointment` is the state before the update. Writes that change nothing
+ * visible (only bookkeeping fields) get no event.
+ */
+export function applyAppointmentMutation(
+  writer: WriteBatch | Transaction,
+  firestore: Firestore,
+  appointment: Partial<Appointment> & { id: string },
+  updates: Record<string, any>,
+  context: AppointmentMutationContext
+): void {
+  updates = withAppointmentDateFields(appointment, updates, context.timeContext);
+  (writer as WriteBatch).update(doc(firestore, 'appointments', appointment.id), updates);
+
+  const event = buildAppointmentEvent(appointment, updates, context);
+  if (Object.keys(event.changes).length > 0) {
+    addAppointmentEvent(writer, firestore, event);
+  }
+}
+
+export async function mutateAppointment(
+  firestore: Firestore,
+  appointment: Partial<Appointment> & { id: string },
+  updates: Record<string, any>,
+  context: AppointmentMutationContext
+): Promise<void> {
+  const batch = writeBatch(firestore);
+  applyAppointmentMutation(batch, firestore, appointment, updates, context);
+  await batch.commit();
+
+  // Loaded lazily: the projection service depends on appointment-service, which imports this one
+  const doctorId = updates.doctorId ?? appointment.doctorId;
+  if (appointment.clinicId && doctorId) {
+    const dates = new Set([appointment.date, updates.date].filter((date): date is string => typeof date === 'string'));
+    const { requestQueueProjectionRefresh } = await import('./queue-projection-service');
+    dates.forEach(date => {
+      void requestQueueProjectionRefresh(firestore, { clinicId: appointment.clinicId!, doctorId, date });
+    });
+  }
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+function eventTime(event: AppointmentEvent): number {
+  const createdAt = event.createdAt;
+  if (!createdAt) return Date.now(); // pending server timestamp of a local write
+  if (typeof createdAt.toDate === 'function') return createdAt.toDate().getTime();
+  return new Date(createdAt).getTime();
+}
+
+/**
+ * Events of one appointment. Filtered by clinic too, as the rules only let staff
+ * read their own clinic's events.
+ */
+export async function getAppointmentEvents(
+  firestore: Firestore,
+  appointmentId: string,
+  clinicId: string
+): Promise<AppointmentEvent[]> {
+  const snapshot = await getDocs(query(
+    collection(firestore, APPOINTMENT_EVENTS_COLLECTION),
+    where('clinicId', '==', clinicId),
+    where('appointmentId', '==', appointmentId)
+  ));
+  return snapshot.docs
+    .map(d => ({ id: d.id, ...d.data() } as AppointmentEvent))
+    .sort((a, b) => eventTime(a) - eventTime(b));
+}
+
+/**
+ * Oldest-first events of the appointment, including those recorded under the
+ * ids it had before a break shift re-created it.
+ */
+export async function getAppointmentTimeline(
+  firestore: Firestore,
+  appointmentId: string,
+  clinicId: string
+): Promise<AppointmentEvent[]> {
+  const events: AppointmentEvent[] = [];
+  const seen = new Set<string>();
+  let currentId: string | null = appointmentId;
+
+  for (let hop = 0; currentId && hop < MAX_TIMELINE_HOPS && !seen.has(currentId); hop++) {
+    seen.add(currentId);
+    const current = await getAppointmentEvents(firestore, currentId, clinicId);
+    events.push(...current);
+    currentId = current.find(event => event.previousAppointmentId)?.previousAppointmentId || null;
+  }
+
+  return events.sort((a, b) => eventTime(a) - eventTime(b));
+}
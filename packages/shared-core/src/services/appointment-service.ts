@@ -24,9 +24,30 @@ import {
   isSlotBlockedByLeave,
   parseTime as parseTimeString
 } from '../utils/break-helpers';
-import { getClinicDateString, getClinicDayOfWeek, getClinicTimeString, getClinicISOString, getClinicShortDateString, getClinicNow, parseClinicDate, parseClinicTime } from '../utils/date-utils';
-import { buildReservationDocId } from '../utils/reservation-utils';
+import {
+  getClinicDateString,
+  getClinicDayOfWeek,
+  getClinicTimeString,
+  getClinicISOString,
+  getClinicShortDateString,
+  getClinicNow,
+  parseClinicDate,
+  parseClinicTime,
+  type ClinicTimeContext,
+} from '../utils/date-utils';
+import { getAppointmentDateFields, getDateKeyedEntry } from '../utils/date-keys';
+import { buildReservationDocId, isReservationHeld } from '../utils/reservation-utils';
 import { computeWalkInSchedule, type SchedulerAssignment } from './walk-in-scheduler';
+import { planAdvanceBooking, type BookingPlan, type ScheduleState } from './scheduling-engine';
+import { buildCandidateSlots, buildOccupiedSlotSet } from './day-slots';
+import {
+  DEFAULT_ADVANCE_RATIO,
+  calculateWalkInReserve,
+  createSessionRatioResolver,
+  getSessionAdvanceRatio,
+  sessionAcceptsWalkIns,
+  type SessionAdvanceRatio,
+} from './capacity-service';
 
 const DEBUG_BOOKING = process.env.NEXT_PUBLIC_DEBUG_BOOKING === 'true';
 
@@ -34,6 +55,24 @@ const ACTIVE_STATUSES = new Set(['Pending', 'Confirmed', 'Skipped', 'Completed']
 const MAX_TRANSACTION_ATTEMPTS = 5;
 const RESERVATION_CONFLICT_CODE = 'slot-reservation-conflict';
 
+/**
+ * True when generateNextTokenAndReserveSlot failed because there was no room left
+ * (capacity reached, the slot was taken or no slot fits), rather than on an
+ * unexpected error callers should surface.
+ */
+export function isSlotCapacityError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const code = (error as { code?: string }).code;
+  return (
+    code === 'A_CAPACITY_REACHED' ||
+    code === 'SLOT_ALREADY_BOOKED' ||
+    code === RESERVATION_CONFLICT_CODE ||
+    error.message.startsWith('No available slots')
+  );
+}
+
 function isReservationConflict(error: unknown): boolean {
   if (!(error instanceof Error)) {
     return false;
@@ -52,6 +91,8 @@ function isReservationConflict(error: unknown): boolean {
  * Examples: A1-001 (Session 0), A2-001 (Session 1), A3-015 (Session 2)
  */
 import { generateOnlineTokenNumber, generateWalkInTokenNumber } from '../utils/token-utils';
+import { applyAppointmentMutation, mutateAppointment, getSystemActor, type AppointmentMutationContext } from './appointment-event-service';
+import { assertPermission, type StaffMember } from './access-control-service';
 
 interface DailySlot {
   index: number;
@@ -65,11 +106,11 @@ interface LoadedDoctor {
 }
 
 
-export function getLeaveBlockedIndices(doctor: Doctor, slots: DailySlot[], date: Date): number[] {
+export function getLeaveBlockedIndices(doctor: Doctor, slots: DailySlot[], date: Date, timeContext?: ClinicTimeContext): number[] {
   const blockedIndices: number[] = [];
 
   for (const slot of slots) {
-    if (isSlotBlockedByLeave(doctor, slot.time)) {
+    if (isSlotBlockedByLeave(doctor, slot.time, timeContext)) {
       blockedIndices.push(slot.index);
     }
   }
@@ -81,7 +122,8 @@ export async function loadDoctorAndSlots(
   clinicId: string,
   doctorName: string,
   date: Date,
-  doctorId?: string
+  doctorId?: string,
+  timeContext?: ClinicTimeContext
 ): Promise<LoadedDoctor> {
   let doctor: Doctor | null = null;
 
@@ -116,7 +158,7 @@ export async function loadDoctorAndSlots(
     throw new Error('Doctor availability information is missing.');
   }
 
-  const dayOfWeek = getClinicDayOfWeek(date);
+  const dayOfWeek = getClinicDayOfWeek(date, timeContext);
   const availabilityForDay = doctor.availabilitySlots.find(slot => slot.day === dayOfWeek);
 
   if (!availabilityForDay || !availabilityForDay.timeSlots?.length) {
@@ -127,15 +169,14 @@ export async function loadDoctorAndSlots(
   const slots: DailySlot[] = [];
 
   availabilityForDay.timeSlots.forEach((session, sessionIndex) => {
-    let currentTime = parseTimeString(session.from, date);
-    let endTime = parseTimeString(session.to, date);
+    let currentTime = parseTimeString(session.from, date, timeContext);
+    let endTime = parseTimeString(session.to, date, timeContext);
 
     // Segmented Indexing: Each session starts at its own range (0, 1000, 2000...)
     let slotIndex = sessionIndex * 1000;
 
     // Check for availability extension (session-specific)
-    const dateKey = getClinicDateString(date);
-    const extensionForDate = (doctor as any).availabilityExtensions?.[dateKey];
+    const extensionForDate = getDateKeyedEntry(doctor.availabilityExtensions, date, timeContext);
 
     if (extensionForDate) {
       const sessionExtension = extensionForDate.sessions?.find((s: any) => s.sessionIndex === sessionIndex);
@@ -144,7 +185,7 @@ export async function loadDoctorAndSlots(
         const newEndTimeStr = sessionExtension.newEndTime;
         if (newEndTimeStr) {
           try {
-            const extendedEndTime = parseTimeString(newEndTimeStr, date);
+            const extendedEndTime = parseTimeString(newEndTimeStr, date, timeContext);
             if (isAfter(extendedEndTime, endTime)) {
               endTime = extendedEndTime;
             }
@@ -186,33 +227,18 @@ async function fetchDayAppointments(
   return snapshot.docs.map(docRef => ({ id: docRef.id, ...docRef.data() } as Appointment));
 }
 
-function buildOccupiedSlotSet(appointments: Appointment[]): Set<number> {
-  const occupied = new Set<number>();
-
-  appointments.forEach(appointment => {
-    const slotIndex = appointment.slotIndex;
-    if (typeof slotIndex === 'number' && ACTIVE_STATUSES.has(appointment.status)) {
-      occupied.add(slotIndex);
-    }
-  });
-
-  return occupied;
-}
-
-function getSlotTime(slots: DailySlot[], slotIndex: number): Date {
-  const slot = slots.find(s => s.index === slotIndex);
-  if (!slot) {
-    throw new Error('Selected slot is outside the doctor availability.');
-  }
-  return slot.time;
-}
-
 /**
- * Calculate reserved walk-in slots per session (15% of FUTURE slots only in each session)
+ * Calculate reserved walk-in slots per session (15% of FUTURE slots only in each session by default;
+ * pass the doctor's capacity policy resolver as advanceRatio to honour a per-session split)
  * This dynamically adjusts as time passes - reserved slots are recalculated based on remaining future slots
  * Returns a Set of slot indices that are reserved for walk-ins
  */
-export function calculatePerSessionReservedSlots(slots: DailySlot[], now: Date = getClinicNow(), blockedIndices: Set<number> = new Set()): Set<number> {
+export function calculatePerSessionReservedSlots(
+  slots: DailySlot[],
+  now: Date = getClinicNow(),
+  blockedIndices: Set<number> = new Set(),
+  advanceRatio: SessionAdvanceRatio = DEFAULT_ADVANCE_RATIO
+): Set<number> {
   const reservedSlots = new Set<number>();
 
   // Group slots by sessionIndex
@@ -239,10 +265,10 @@ export function calculatePerSessionReservedSlots(slots: DailySlot[], now: Date =
     }
 
     const futureSlotCount = futureSlots.length;
-    const minimumWalkInReserve = Math.ceil(futureSlotCount * 0.15);
+    const minimumWalkInReserve = calculateWalkInReserve(futureSlotCount, getSessionAdvanceRatio(advanceRatio, sessionIndex));
     const reservedWSlotsStart = futureSlotCount - minimumWalkInReserve;
 
-    // Mark the last 15% of FUTURE slots in this session as reserved
+    // Mark the last 15% (or the policy's walk-in share) of FUTURE slots in this session as reserved
     for (let i = reservedWSlotsStart; i < futureSlotCount; i++) {
       reservedSlots.add(futureSlots[i].index);
     }
@@ -251,204 +277,6 @@ export function calculatePerSessionReservedSlots(slots: DailySlot[], now: Date =
   return reservedSlots;
 }
 
-type CandidateOptions = {
-  appointments?: Appointment[];
-  walkInSpacing?: number;
-};
-
-function buildCandidateSlots(
-  type: 'A' | 'W',
-  slots: DailySlot[],
-  now: Date,
-  occupied: Set<number>,
-  preferredSlotIndex?: number,
-  options: CandidateOptions = {},
-  blockedIndices: Set<number> = new Set() // New param
-): number[] {
-  const bookingBuffer = addMinutes(now, 30);
-  const candidates: number[] = [];
-
-  // Calculate reserved walk-in slots per session (15% of FUTURE slots only in each session)
-  // We need blockedIndices to exclude them from reserve calculation
-  const reservedWSlots = calculatePerSessionReservedSlots(slots, now, blockedIndices);
-
-  // Build a set of valid indices for faster lookup
-  const validIndices = new Set(slots.map(s => s.index));
-
-  const addCandidate = (slotIndex: number) => {
-    if (
-      slotIndex >= 0 &&
-      validIndices.has(slotIndex) && // CRITICAL FIX: Use presence in set, not length check
-      !occupied.has(slotIndex) &&
-      !candidates.includes(slotIndex)
-    ) {
-      if (type === 'A' && reservedWSlots.has(slotIndex)) {
-        return; // Skip reserved walk-in slots
-      }
-      candidates.push(slotIndex);
-    }
-  };
-
-  if (type === 'A') {
-    if (typeof preferredSlotIndex === 'number') {
-      const slotTime = getSlotTime(slots, preferredSlotIndex);
-      const preferredSlot = slots.find(s => s.index === preferredSlotIndex);
-      const preferredSessionIndex = preferredSlot?.sessionIndex;
-
-      // CRITICAL: Also check if preferred slot is not reserved for walk-ins
-      // This prevents booking cancelled slots that are in the reserved walk-in range (last 15% of session)
-      if (reservedWSlots.has(preferredSlotIndex)) {
-
-      } else if (isAfter(slotTime, bookingBuffer)) {
-        addCandidate(preferredSlotIndex);
-      } else {
-
-      }
-
-      // CRITICAL: If preferred slot is not available, first look for alternatives within the SAME session
-      // This ensures bookings stay within the same sessionIndex when possible
-      if (candidates.length === 0 && typeof preferredSessionIndex === 'number') {
-        slots.forEach(slot => {
-          // Only consider slots in the same session as the preferred slot
-          if (
-            slot.sessionIndex === preferredSessionIndex &&
-            isAfter(slot.time, bookingBuffer) &&
-            !reservedWSlots.has(slot.index)
-          ) {
-            addCandidate(slot.index);
-          }
-        });
-
-        // CRITICAL FIX: If no slots found in preferred session, fall back to searching ALL sessions
-        // This prevents booking failures when the calculated session is full but other sessions have availability
-        // Common scenario: Nurse app calculates slotIndex in session 0, but all session 0 slots are reserved/occupied
-        if (candidates.length === 0) {
-          slots.forEach(slot => {
-            // Search across all sessions for any available slot
-            if (
-              isAfter(slot.time, bookingBuffer) &&
-              !reservedWSlots.has(slot.index)
-            ) {
-              addCandidate(slot.index);
-            }
-          });
-        }
-      }
-    } else {
-      // No preferred slot - look across all sessions
-      slots.forEach(slot => {
-        // CRITICAL: Only add slots that are after 1 hour AND not reserved for walk-ins (per session)
-        if (isAfter(slot.time, bookingBuffer) && !reservedWSlots.has(slot.index)) {
-          addCandidate(slot.index);
-        }
-      });
-    }
-  } else {
-    const activeAppointments =
-      options.appointments
-        ?.filter(
-          appointment =>
-            typeof appointment.slotIndex === 'number' && ACTIVE_STATUSES.has(appointment.status),
-        )
-        .sort((a, b) => (a.slotIndex! < b.slotIndex! ? -1 : 1)) ?? [];
-
-    const walkInSpacing =
-      typeof options.walkInSpacing === 'number' && options.walkInSpacing > 0
-        ? options.walkInSpacing
-        : Number.POSITIVE_INFINITY;
-
-    const getATokens = (filterFn?: (appointment: Appointment) => boolean) =>
-      activeAppointments.filter(
-        appointment =>
-          appointment.bookedVia !== 'Walk-in' &&
-          (typeof appointment.slotIndex === 'number') &&
-          (!filterFn || filterFn(appointment)),
-      );
-
-    const getSlotIndexAfterNthA = (afterSlotIndex: number, nth: number): number => {
-      let count = 0;
-      for (const appointment of activeAppointments) {
-        if (appointment.bookedVia === 'Walk-in') continue;
-        const slotIndex = appointment.slotIndex!;
-        if (slotIndex > afterSlotIndex) {
-          count += 1;
-          if (count === nth) {
-            return slotIndex;
-          }
-        }
-      }
-      return -1;
-    };
-
-    slots.forEach(slot => {
-      if (!isBefore(slot.time, now) && !isAfter(slot.time, bookingBuffer)) {
-        addCandidate(slot.index);
-      }
-    });
-
-    if (candidates.length > 0) {
-      return candidates;
-    }
-
-    const availableAfterHour = slots.filter(
-      slot => isAfter(slot.time, bookingBuffer) && !occupied.has(slot.index),
-    );
-
-    if (availableAfterHour.length === 0) {
-      return candidates;
-    }
-
-    if (walkInSpacing === Number.POSITIVE_INFINITY || activeAppointments.length === 0) {
-      availableAfterHour.forEach(slot => addCandidate(slot.index));
-      return candidates;
-    }
-
-    const walkInAppointments = activeAppointments.filter(appointment => appointment.bookedVia === 'Walk-in');
-    const lastWalkInSlotIndex =
-      walkInAppointments.length > 0
-        ? Math.max(...walkInAppointments.map(appointment => appointment.slotIndex!))
-        : null;
-
-    let minSlotIndex = -1;
-
-    if (lastWalkInSlotIndex === null) {
-      const aTokens = getATokens();
-      if (aTokens.length > walkInSpacing) {
-        const slotAfterNth = getSlotIndexAfterNthA(-1, walkInSpacing);
-        minSlotIndex =
-          slotAfterNth >= 0 ? slotAfterNth : aTokens[aTokens.length - 1]?.slotIndex ?? -1;
-      } else {
-        minSlotIndex = aTokens[aTokens.length - 1]?.slotIndex ?? -1;
-      }
-    } else {
-      const aTokensAfterLastWalkIn = getATokens(appointment => appointment.slotIndex! > lastWalkInSlotIndex);
-      if (aTokensAfterLastWalkIn.length > walkInSpacing) {
-        const slotAfterNth = getSlotIndexAfterNthA(lastWalkInSlotIndex, walkInSpacing);
-        if (slotAfterNth >= 0) {
-          minSlotIndex = slotAfterNth;
-        } else {
-          const allATokens = getATokens();
-          minSlotIndex = allATokens[allATokens.length - 1]?.slotIndex ?? lastWalkInSlotIndex;
-        }
-      } else {
-        const allATokens = getATokens();
-        const lastASlotIndex = allATokens[allATokens.length - 1]?.slotIndex ?? lastWalkInSlotIndex;
-        minSlotIndex = Math.max(lastWalkInSlotIndex, lastASlotIndex);
-      }
-    }
-
-    const filteredAfterHour = availableAfterHour.filter(slot => slot.index > minSlotIndex);
-
-    if (filteredAfterHour.length === 0) {
-      availableAfterHour.forEach(slot => addCandidate(slot.index));
-    } else {
-      filteredAfterHour.forEach(slot => addCandidate(slot.index));
-    }
-  }
-
-  return candidates;
-}
-
 interface TokenCounterState {
   nextNumber: number;
   exists: boolean;
@@ -539,8 +367,11 @@ export async function generateNextTokenAndReserveSlot(
     doctorId?: string;
     existingAppointmentId?: string;
     isForceBooked?: boolean;
+    waitlistEntryId?: string; // allows booking a slot held for this waitlist offer
+    staff?: StaffMember | null; // signed-in staff member, checked for booking/force-booking rights
     [key: string]: unknown;
-  }
+  },
+  timeContext?: ClinicTimeContext // the clinic's clock when booking from a server
 ): Promise<{
   tokenNumber: string;
   numericToken: number;
@@ -550,18 +381,23 @@ export async function generateNextTokenAndReserveSlot(
   arriveByTime: string;
   reservationId: string;
 }> {
-  const dateStr = getClinicDateString(date);
+  if (appointmentData.staff) {
+    assertPermission(appointmentData.staff, 'book_appointment');
+    if (appointmentData.isForceBooked) assertPermission(appointmentData.staff, 'force_book');
+  }
+
+  const dateStr = getClinicDateString(date, timeContext);
   const now = getClinicNow();
   const counterDocId = `${clinicId}_${doctorName}_${dateStr}${type === 'W' ? '_W' : ''}`
     .replace(/\s+/g, '_')
     .replace(/[^a-zA-Z0-9_]/g, '');
   const counterRef = doc(firestore, 'token-counters', counterDocId);
+  const clinicSnap = await getDoc(doc(firestore, 'clinics', clinicId));
   let walkInSpacingValue = 0;
   if (type === 'W') {
     if (typeof appointmentData.walkInSpacing === 'number') {
       walkInSpacingValue = appointmentData.walkInSpacing;
     } else {
-      const clinicSnap = await getDoc(doc(firestore, 'clinics', clinicId));
       const rawSpacing = clinicSnap.exists() ? Number(clinicSnap.data()?.walkInTokenAllotment ?? 0) : 0;
       walkInSpacingValue = Number.isFinite(rawSpacing) && rawSpacing > 0 ? Math.floor(rawSpacing) : 0;
     }
@@ -572,11 +408,19 @@ export async function generateNextTokenAndReserveSlot(
     clinicId,
     doctorName,
     date,
-    typeof appointmentData.doctorId === 'string' ? appointmentData.doctorId : undefined
+    typeof appointmentData.doctorId === 'string' ? appointmentData.doctorId : undefined,
+    timeContext
   );
   const totalSlots = slots.length;
+  // Advance/walk-in split per session: doctor policy, then clinic default, then 85/15
+  const advanceRatio = createSessionRatioResolver(
+    doctorProfile,
+    date,
+    clinicSnap.exists() ? clinicSnap.data()?.capacityPolicy : null,
+    timeContext
+  );
   // Calculate blocked slot indices due to leave
-  const blockedIndices = getLeaveBlockedIndices(doctorProfile, slots, date);
+  const blockedIndices = getLeaveBlockedIndices(doctorProfile, slots, date, timeContext);
   // Use current time (already defined above) to calculate capacity based on future slots only
 
   // Calculate maximum advance tokens per session (85% of FUTURE slots in each session)
@@ -656,7 +500,7 @@ export async function generateNextTokenAndReserveSlot(
           updatedAt: new Date(),
           time: (() => {
             const slot = slots.find(s => s.index === idx);
-            return slot ? getClinicTimeString(slot.time) : '';
+            return slot ? getClinicTimeString(slot.time, timeContext) : '';
           })(),
           tokenNumber: `L${idx}`,
           department: doctorProfile.department || '',
@@ -678,9 +522,9 @@ export async function generateNextTokenAndReserveSlot(
         if (type === 'A') {
           // Calculate maximum advance tokens per session atomically
           let maximumAdvanceTokens = 0;
-          const dayOfWeek = getClinicDayOfWeek(date);
+          const dayOfWeek = getClinicDayOfWeek(date, timeContext);
           const availabilityForDay = (doctorProfile.availabilitySlots || []).find((s: any) => s.day === dayOfWeek);
-          const extensionForDate = (doctorProfile as any).availabilityExtensions?.[dateStr];
+          const extensionForDate = getDateKeyedEntry(doctorProfile.availabilityExtensions, dateStr);
 
           // Store capacity basis end times for each session to filter usage
           const sessionCapacityEndTimes = new Map<number, Date>();
@@ -690,7 +534,7 @@ export async function generateNextTokenAndReserveSlot(
             const sessionSource = availabilityForDay?.timeSlots?.[sessionIndex];
             if (!sessionSource) return;
 
-            const originalSessionEndTime = parseTimeString(sessionSource.to, date);
+            const originalSessionEndTime = parseTimeString(sessionSource.to, date, timeContext);
             let capacityBasisEndTime = originalSessionEndTime;
 
             const sessionExtension = extensionForDate?.sessions?.find((s: any) => s.sessionIndex === sessionIndex);
@@ -702,7 +546,7 @@ export async function generateNextTokenAndReserveSlot(
               // implying that if breaks are gone, we shouldn't use the extended window for capacity OR usage.
               if (hasActiveBreaks) {
                 try {
-                  capacityBasisEndTime = parseTimeString(sessionExtension.newEndTime, date);
+                  capacityBasisEndTime = parseTimeString(sessionExtension.newEndTime, date, timeContext);
                 } catch (e) {
                   console.error('Error parsing extension time for capacity:', e);
                 }
@@ -724,17 +568,17 @@ export async function generateNextTokenAndReserveSlot(
             );
 
             const futureSlotCount = futureCapacitySlots.length;
-            const sessionMinimumWalkInReserve = futureSlotCount > 0 ? Math.ceil(futureSlotCount * 0.15) : 0;
+            const sessionMinimumWalkInReserve = calculateWalkInReserve(futureSlotCount, getSessionAdvanceRatio(advanceRatio, sessionIndex));
             const sessionAdvanceCapacity = Math.max(futureSlotCount - sessionMinimumWalkInReserve, 0);
             maximumAdvanceTokens += sessionAdvanceCapacity;
 
-            console.log(`📊 [CAPACITY TX DEBUG] Session ${sessionIndex}: totalSlots=${sessionSlots.length}, futureSlots=${futureSlotCount}, reserve=${sessionMinimumWalkInReserve}, aCapacity=${sessionAdvanceCapacity}, basisEnd=${getClinicTimeString(capacityBasisEndTime)}`);
+            console.log(`📊 [CAPACITY TX DEBUG] Session ${sessionIndex}: totalSlots=${sessionSlots.length}, futureSlots=${futureSlotCount}, reserve=${sessionMinimumWalkInReserve}, aCapacity=${sessionAdvanceCapacity}, basisEnd=${getClinicTimeString(capacityBasisEndTime, timeContext)}`);
           });
 
           const activeAdvanceTokens = effectiveAppointments.filter(appointment => {
             // CRITICAL: Since capacity is shrinking (future slots only), usage MUST also be future-only to match.
             // Also exclude "stranded" appointments (slotIndex >= totalSlots) that fall outside current doctor availability.
-            const appointmentTime = parseTimeString(appointment.time || '', date);
+            const appointmentTime = parseTimeString(appointment.time || '', date, timeContext);
             const isFutureAppointment = isAfter(appointmentTime, now) || appointmentTime.getTime() >= now.getTime();
 
             // CRITICAL FIX: Ensure appointment falls within the valid capacity basis time of its session.
@@ -826,6 +670,10 @@ export async function generateNextTokenAndReserveSlot(
             throw new Error('Unable to schedule walk-in token.');
           }
 
+          if (!appointmentData.isForceBooked && !sessionAcceptsWalkIns(advanceRatio, newAssignment.sessionIndex)) {
+            throw new Error('Walk-ins are not accepted for this session.');
+          }
+
           tokenNumber = generateWalkInTokenNumber(numericToken, newAssignment.sessionIndex);
 
           // If we used a bucket slot, assign a NEW slotIndex at the end (don't reuse cancelled slot's index)
@@ -837,7 +685,7 @@ export async function generateNextTokenAndReserveSlot(
           chosenSlotTime = walkInTime;
 
 
-          let finalTimeString = getClinicTimeString(walkInTime);
+          let finalTimeString = getClinicTimeString(walkInTime, timeContext);
 
 
 
@@ -868,6 +716,7 @@ export async function generateNextTokenAndReserveSlot(
               slotIndex: update.slotIndex,
               sessionIndex: update.sessionIndex,
               time: update.timeString,
+              ...getAppointmentDateFields(dateStr, update.timeString, timeContext),
               noShowTime: update.noShowTime,
               // CRITICAL: cutOffTime is NOT updated - it remains the same as the original appointment
             });
@@ -878,54 +727,54 @@ export async function generateNextTokenAndReserveSlot(
           sessionIndexForNew = finalSessionIndex;
           resolvedTimeString = finalTimeString;
         } else {
-          const occupiedSlots = buildOccupiedSlotSet(effectiveAppointments);
-          // Combine all blocked indices for accurate reservation calculation (Leave + Break)
-          const allBlockedIndices = new Set([...blockedIndices, ...breakBlockedIndices]);
-
           // CRITICAL: Resolve preferred slotIndex from time if it's missing or to ensure session consistency
           let preferredSlotIndex = appointmentData.slotIndex;
           if (appointmentData.time) {
-            const matchingSlot = slots.find(s => getClinicTimeString(s.time) === appointmentData.time);
+            const matchingSlot = slots.find(s => getClinicTimeString(s.time, timeContext) === appointmentData.time);
             if (matchingSlot) {
               console.log(`[BOOKING DEBUG] Resolved slotIndex ${matchingSlot.index} from time ${appointmentData.time}`);
               preferredSlotIndex = matchingSlot.index;
             }
           }
 
-          const candidates = buildCandidateSlots(type, slots, now, occupiedSlots, preferredSlotIndex, {
-            appointments: effectiveAppointments,
-          }, allBlockedIndices);
-
-          if (candidates.length === 0) {
-            // If a preferred slot was provided, check if it's in a specific session
-            if (typeof appointmentData.slotIndex === 'number') {
-              const preferredSlot = slots.find(s => s.index === appointmentData.slotIndex);
-              const sessionIndex = preferredSlot?.sessionIndex;
-              throw new Error(
-                `No available slots in session ${typeof sessionIndex === 'number' ? sessionIndex + 1 : 'selected'}. ` +
-                `All slots in this session are either booked or reserved for walk-ins. Please select a different time slot.`
-              );
-            }
-            throw new Error('No available slots match the booking rules.');
-          }
-
-          for (const slotIndex of candidates) {
-            if (occupiedSlots.has(slotIndex)) {
-              continue;
-            }
-
-            // CRITICAL: Double-check that this slot is NOT reserved for walk-ins (last 15% of FUTURE slots in its session)
-            // This check happens inside the transaction to prevent race conditions
-            // Even if buildCandidateSlots included it (shouldn't happen), we reject it here
-            // IMPORTANT: Must pass blockedIndices to exclude break-blocked slots from the calculation
-            const combinedBlockedIndices = new Set([...blockedIndices, ...Array.from(breakBlockedIndices)]);
-            const reservedWSlots = calculatePerSessionReservedSlots(slots, now, combinedBlockedIndices);
-            if (type === 'A' && reservedWSlots.has(slotIndex)) {
-              const slot = slots.find(s => s.index === slotIndex);
-              console.log(`🔵 [SLOT SELECTION DEBUG] Skipping slot ${slotIndex} - reserved for W-tokens`);
-              continue; // NEVER allow advance bookings to use reserved walk-in slots
+          // The scheduling engine picks the slot (walk-in reserve, 30 minute buffer,
+          // leave and break blocks); slots held by another booking are passed over
+          const bookingState: ScheduleState = {
+            doctor: doctorProfile,
+            date,
+            slots,
+            appointments: rawEffectiveAppointments,
+            walkInTokenAllotment: 0,
+            clinicCapacityPolicy: clinicSnap.exists() ? clinicSnap.data()?.capacityPolicy : null,
+            timeContext,
+            blockedIndices: [...blockedIndices, ...breakBlockedIndices],
+          };
+          const heldSlotIndices: number[] = [];
+
+          while (!reservationRef) {
+            let plan: BookingPlan;
+            try {
+              // Only the placement is used here; the caller writes the appointment
+              plan = planAdvanceBooking(bookingState, {
+                id: '',
+                patientId: '',
+                patientName: '',
+                preferredSlotIndex,
+                excludedSlotIndices: heldSlotIndices,
+              }, now);
+            } catch (error) {
+              if (heldSlotIndices.length === 0 && typeof appointmentData.slotIndex === 'number') {
+                const preferredSlot = slots.find(s => s.index === appointmentData.slotIndex);
+                const sessionIndex = preferredSlot?.sessionIndex;
+                throw new Error(
+                  `No available slots in session ${typeof sessionIndex === 'number' ? sessionIndex + 1 : 'selected'}. ` +
+                  `All slots in this session are either booked or reserved for walk-ins. Please select a different time slot.`
+                );
+              }
+              throw error;
             }
 
+            const slotIndex = plan.appointment.slotIndex!;
             const reservationId = buildReservationDocId(clinicId, doctorName, dateStr, slotIndex);
             const reservationDocRef = doc(firestore, 'slot-reservations', reservationId);
             const reservationSnapshot = await transaction.get(reservationDocRef);
@@ -962,6 +811,11 @@ export async function generateNextTokenAndReserveSlot(
                 }
               }
 
+              // Slot held for a waitlist offer: only the offered entry may take it over
+              if (isReservationHeld(reservationData, now)) {
+                isStale = !!appointmentData.waitlistEntryId && reservationData?.waitlistEntryId === appointmentData.waitlistEntryId;
+              }
+
               if (isStale) {
                 // Reservation is stale - clean it up and allow new booking
 
@@ -969,43 +823,20 @@ export async function generateNextTokenAndReserveSlot(
                 transaction.delete(reservationDocRef);
                 // Continue to create new reservation below
               } else {
-                // Reservation exists and is not stale - skip it
+                // Reservation exists and is not stale - pass over the slot
+                heldSlotIndices.push(slotIndex);
                 continue;
               }
             }
 
             reservationRef = reservationDocRef;
             chosenSlotIndex = slotIndex;
-            const reservedSlot = slots.find(s => s.index === chosenSlotIndex);
-            chosenSlotTime = reservedSlot?.time || null;
-            sessionIndexForNew = reservedSlot?.sessionIndex ?? 0;
-            resolvedTimeString = getClinicTimeString(reservedSlot?.time ?? now);
-
-            // CRITICAL: Token number MUST be based on slotIndex + 1 (slotIndex is 0-based, tokens are 1-based)
-            // This ensures token A001 goes to slot #1 (slotIndex 0), A002 to slot #2 (slotIndex 1), etc.
-            // This makes token numbers correspond to slot positions, not sequential booking order
-            // DO NOT use counterState.nextNumber - always use slotIndex + 1
-            // Calculate token IMMEDIATELY after reserving slot to ensure atomicity
-            const calculatedNumericToken = chosenSlotIndex + 1;
-            const calculatedTokenNumber = generateOnlineTokenNumber(calculatedNumericToken, sessionIndexForNew);
-
-            // Force assignment - don't allow any other value
-            numericToken = calculatedNumericToken;
-            tokenNumber = calculatedTokenNumber;
-
-            // Verify assignment was successful
-            if (numericToken !== calculatedNumericToken || tokenNumber !== calculatedTokenNumber) {
-
-              // Force correct values
-              numericToken = calculatedNumericToken;
-              tokenNumber = calculatedTokenNumber;
-            }
-
-            break;
-          }
-
-          if (chosenSlotIndex < 0 || !reservationRef) {
-            throw new Error('No available slots match the booking rules.');
+            chosenSlotTime = slots.find(s => s.index === slotIndex)?.time || null;
+            sessionIndexForNew = plan.appointment.sessionIndex ?? 0;
+            resolvedTimeString = plan.appointment.time;
+            // Advance tokens follow the slot: slotIndex 0 is A001
+            numericToken = plan.appointment.numericToken ?? slotIndex + 1;
+            tokenNumber = plan.appointment.tokenNumber ?? generateOnlineTokenNumber(numericToken, sessionIndexForNew);
           }
         }
 
@@ -1074,7 +905,7 @@ export async function generateNextTokenAndReserveSlot(
         // arriveByTime should be the original slot time (UI handles 15-min early display)
         // CRITICAL FIX: Handle overflow slots where chosenSlotIndex >= slots.length
         const arriveByTimeDate = chosenSlotTime || now;
-        const arriveByTimeString = getClinicTimeString(arriveByTimeDate);
+        const arriveByTimeString = getClinicTimeString(arriveByTimeDate, timeContext);
 
         return {
           tokenNumber,
@@ -1243,6 +1074,12 @@ export const prepareAdvanceShift = async ({
       const reservedAt = reservationData?.reservedAt;
       let reservedTime: Date | null = null;
 
+      // Slots held for a waitlist offer stay blocked until the offer expires
+      if (isReservationHeld(reservationData, now)) {
+        existingReservations.set(slotIdx, now);
+        continue;
+      }
+
       if (reservedAt) {
         try {
           if (typeof reservedAt.toDate === 'function') {
@@ -2610,7 +2447,8 @@ export const prepareAdvanceShift = async ({
 export async function rebalanceWalkInSchedule(
   doctor: Doctor,
   clinicId: string,
-  date: Date
+  date: Date,
+  eventContext: Pick<AppointmentMutationContext, 'actor' | 'source'> = { actor: getSystemActor(db), source: 'system' }
 ): Promise<void> {
   const now = getClinicNow();
   const clinicSnap = await getDoc(doc(db, 'clinics', clinicId));
@@ -2752,14 +2590,13 @@ export async function rebalanceWalkInSchedule(
         continue;
       }
 
-      const appointmentRef = doc(db, 'appointments', appointment.id);
-      transaction.update(appointmentRef, {
+      applyAppointmentMutation(transaction, db, appointment, {
         slotIndex: newSlotIndex,
         sessionIndex: assignment.sessionIndex,
         time: newTimeString,
         cutOffTime: subMinutes(assignment.slotTime, averageConsultingTime),
         noShowTime: addMinutes(assignment.slotTime, averageConsultingTime),
-      });
+      }, { ...eventContext, action: 'rebalanced' });
     }
 
     for (const appointment of freshWalkIns) {
@@ -2784,14 +2621,13 @@ export async function rebalanceWalkInSchedule(
         });
       }
 
-      const appointmentRef = doc(db, 'appointments', appointment.id);
-      transaction.update(appointmentRef, {
+      applyAppointmentMutation(transaction, db, appointment, {
         slotIndex: newSlotIndex,
         sessionIndex: assignment.sessionIndex,
         time: newTimeString,
         cutOffTime: subMinutes(assignment.slotTime, averageConsultingTime),
         noShowTime: addMinutes(assignment.slotTime, averageConsultingTime),
-      });
+      }, { ...eventContext, action: 'rebalanced' });
     }
   });
 }
@@ -3040,3 +2876,22 @@ export async function getNextClassicTokenNumber(
   const newTokenNum = maxToken + 1;
   return newTokenNum.toString().padStart(3, '0');
 }
+
+/**
+ * Cancels an appointment on behalf of clinic staff and records it in the
+ * appointment's event log.
+ */
+export async function cancelAppointment(
+  firestore: Firestore,
+  appointment: Appointment,
+  context: Omit<AppointmentMutationContext, 'action'>,
+  staff?: StaffMember | null
+): Promise<void> {
+  if (staff) assertPermission(staff, 'cancel_appointment');
+
+  await mutateAppointment(firestore, appointment, {
+    status: 'Cancelled',
+    ...(appointment.isInBuffer ? { isInBuffer: false } : {}),
+    updatedAt: serverTimestamp(),
+  }, { ...context, action: 'cancelled' });
+}
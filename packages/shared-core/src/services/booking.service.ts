@@ -35,12 +35,18 @@ import {
 import {
     getClassicTokenCounterId,
     prepareNextClassicTokenNumber,
-    commitNextClassicTokenNumber
+    commitNextClassicTokenNumber,
+    cancelAppointment
 } from './appointment-service';
-import { getClinicNow, getClinicDateString, getClinicTimeString, getClinicDayOfWeek, parseClinicTime } from '../utils/date-utils';
+import { getClinicNow, getClinicDateString, getClinicTimeString, getClinicDayOfWeek, getClinicISOString, getClinicTimeContext, parseClinicTime } from '../utils/date-utils';
+import { getAppointmentDateFields } from '../utils/date-keys';
 import { parseTime } from '../utils/break-helpers';
 import { generateWalkInTokenNumber } from '../utils/token-utils';
-import type { Doctor, Appointment } from '@kloqo/shared-types';
+import { createSessionRatioResolver, sessionAcceptsWalkIns } from './capacity-service';
+import { assertOnlinePaymentAvailable, createAppointmentPayment } from './payment-service';
+import { getSystemActor } from './appointment-event-service';
+import { assertPermission, type StaffMember } from './access-control-service';
+import type { Doctor, Appointment, Clinic } from '@kloqo/shared-types';
 
 const ACTIVE_STATUSES = ['Pending', 'Confirmed', 'Skipped', 'Completed'];
 const ACTIVE_STATUS_SET = new Set(ACTIVE_STATUSES);
@@ -56,6 +62,7 @@ export interface StaffBookingPayload {
     phone: string;
     isForceBooked?: boolean;
     appointmentDate?: Date;
+    staff?: StaffMember | null; // signed-in staff member, checked for booking/force-booking rights
 }
 
 export interface BookingResult {
@@ -66,6 +73,7 @@ export interface BookingResult {
     estimatedTime: string;
     patientsAhead: number;
     classicTokenNumber?: string;
+    payment?: { paymentId: string; amount: number; checkoutUrl?: string }; // set when the clinic collects online
 }
 
 /**
@@ -76,26 +84,33 @@ export async function completeStaffWalkInBooking(
     firestore: Firestore,
     payload: StaffBookingPayload
 ): Promise<BookingResult> {
-    const { clinicId, doctor, patientId, patientName, age, sex, place, phone, isForceBooked, appointmentDate: inputDate } = payload;
+    const { clinicId, doctor, patientId, patientName, age, sex, place, phone, isForceBooked, appointmentDate: inputDate, staff } = payload;
+
+    if (staff) {
+        assertPermission(staff, 'book_appointment');
+        if (isForceBooked) assertPermission(staff, 'force_book');
+    }
 
     const now = getClinicNow();
     const date = inputDate || now;
-    const dateStr = getClinicDateString(date);
 
     // 1. Parallel Pre-fetch (Consistent Reads)
-    // These are outside the transaction but help fail fast or provide data for the transaction
+    // These are outside the transaction but help fail fast or provide data for the transaction.
+    // The clinic is read first: its timezone decides which day and times are booked.
     const clinicRef = doc(firestore, 'clinics', clinicId);
     const patientRef = doc(firestore, 'patients', patientId);
 
-    const [clinicSnap, patientSnap, doctorDataRaw, appointments] = await Promise.all([
-        getDoc(clinicRef),
-        getDoc(patientRef),
-        loadDoctorAndSlots(firestore, clinicId, doctor.name, date, doctor.id),
-        fetchDayAppointments(firestore, clinicId, doctor.name, date)
-    ]);
-
+    const clinicSnap = await getDoc(clinicRef);
     if (!clinicSnap.exists()) throw new Error('Clinic not found');
     const clinicData = clinicSnap.data();
+    const timeContext = getClinicTimeContext(clinicData);
+    const dateStr = getClinicDateString(date, timeContext);
+
+    const [patientSnap, doctorDataRaw, appointments] = await Promise.all([
+        getDoc(patientRef),
+        loadDoctorAndSlots(firestore, clinicId, doctor.name, date, doctor.id, timeContext),
+        fetchDayAppointments(firestore, clinicId, doctor.name, date, timeContext)
+    ]);
     const walkInTokenAllotment = Number(clinicData?.walkInTokenAllotment ?? 5);
     const tokenDistribution = clinicData?.tokenDistribution || 'classic';
 
@@ -120,7 +135,7 @@ export async function completeStaffWalkInBooking(
     // If strictly checking active sessions fail, but we are Force Booking, we relax the constraint.
     // We assume the user knows what they are doing (booking into an "Overtime" or "Next" session).
     if (activeSessionIndex === null && isForceBooked) {
-        activeSessionIndex = findTargetSessionForForceBooking(doctorDataRaw.doctor, now);
+        activeSessionIndex = findTargetSessionForForceBooking(doctorDataRaw.doctor, now, timeContext);
     }
 
     if (activeSessionIndex === null) {
@@ -150,7 +165,8 @@ export async function completeStaffWalkInBooking(
         doctorData.doctor,
         walkInTokenAllotment,
         0,
-        isForceBooked || false
+        isForceBooked || false,
+        timeContext
     );
 
     const finalForceBook = isForceBooked || walkInDetails.isForceBooked || false;
@@ -159,6 +175,12 @@ export async function completeStaffWalkInBooking(
         throw new Error('No walk-in slots are available.');
     }
 
+    // Capacity policy: a session configured as 100% advance takes no walk-ins (staff can still force book)
+    const advanceRatio = createSessionRatioResolver(doctorData.doctor, date, clinicData?.capacityPolicy, timeContext);
+    if (!isForceBooked && !sessionAcceptsWalkIns(advanceRatio, walkInDetails.sessionIndex)) {
+        throw new Error('Walk-ins are not accepted for this session.');
+    }
+
     // 3. The Unified Transaction
     // This is the CORE optimization: One commit for ALL changes
     const result = await runTransaction(firestore, async (transaction) => {
@@ -248,6 +270,7 @@ export async function completeStaffWalkInBooking(
             totalSlots: doctorData.slots.length,
             newWalkInNumericToken: nextWalkInNumericToken,
             forceBook: finalForceBook,
+            timeContext,
         });
 
         if (!shiftPlan.newAssignment) {
@@ -322,8 +345,10 @@ export async function completeStaffWalkInBooking(
             department: doctor.department,
             bookedVia: 'Walk-in',
             date: dateStr,
-            time: getClinicTimeString(appointmentTime),
-            arriveByTime: getClinicTimeString(appointmentTime),
+            time: getClinicTimeString(appointmentTime, timeContext),
+            dateKey: getClinicISOString(appointmentTime, timeContext),
+            slotAt: Timestamp.fromDate(appointmentTime),
+            arriveByTime: getClinicTimeString(appointmentTime, timeContext),
             status: 'Confirmed',
             tokenNumber,
             numericToken: nextWalkInNumericToken,
@@ -344,6 +369,7 @@ export async function completeStaffWalkInBooking(
                 slotIndex: update.slotIndex,
                 sessionIndex: update.sessionIndex,
                 time: update.timeString,
+                ...getAppointmentDateFields(dateStr, update.timeString, timeContext),
                 arriveByTime: update.arriveByTime,
                 cutOffTime: Timestamp.fromDate(update.cutOffTime),
                 noShowTime: Timestamp.fromDate(update.noShowTime),
@@ -413,23 +439,25 @@ export async function completePatientWalkInBooking(
 
     const now = getClinicNow();
     const date = now;
-    const dateStr = getClinicDateString(date);
 
-    // 1. Parallel Pre-fetch
+    // 1. Parallel Pre-fetch, after the clinic whose timezone decides the day
     const clinicRef = doc(firestore, 'clinics', clinicId);
     const patientRef = doc(firestore, 'patients', patientId);
 
-    const [clinicSnap, patientSnap, doctorDataRaw, appointments] = await Promise.all([
-        getDoc(clinicRef),
-        getDoc(patientRef),
-        loadDoctorAndSlots(firestore, clinicId, doctor.name, date, doctor.id),
-        fetchDayAppointments(firestore, clinicId, doctor.name, date)
-    ]);
-
+    const clinicSnap = await getDoc(clinicRef);
     if (!clinicSnap.exists()) throw new Error('Clinic not found');
     const clinicDataFromSnap = clinicSnap.data();
+    const timeContext = getClinicTimeContext(clinicDataFromSnap);
+    const dateStr = getClinicDateString(date, timeContext);
+
+    const [patientSnap, doctorDataRaw, appointments] = await Promise.all([
+        getDoc(patientRef),
+        loadDoctorAndSlots(firestore, clinicId, doctor.name, date, doctor.id, timeContext),
+        fetchDayAppointments(firestore, clinicId, doctor.name, date, timeContext)
+    ]);
     const walkInTokenAllotment = Number(clinicDataFromSnap?.walkInTokenAllotment ?? 5);
     const tokenDistribution = clinicDataFromSnap?.tokenDistribution || 'classic';
+    assertOnlinePaymentAvailable(clinicDataFromSnap as Clinic, doctorDataRaw.doctor.consultationFee);
 
     // CRITICAL: For walk-in bookings, restrict to active session only
     // This prevents concurrent bookings from spilling over into distant future sessions
@@ -479,7 +507,10 @@ export async function completePatientWalkInBooking(
     const walkInDetails = await calculateWalkInDetails(
         firestore,
         doctorDataRaw.doctor,
-        walkInTokenAllotment
+        walkInTokenAllotment,
+        0,
+        false,
+        timeContext
     );
 
     // CRITICAL FIX: Use the session index from walk-in calculations as the source of truth.
@@ -501,12 +532,18 @@ export async function completePatientWalkInBooking(
         throw new Error('No walk-in slots are available.');
     }
 
+    // Capacity policy: a session configured as 100% advance takes no walk-ins
+    const advanceRatio = createSessionRatioResolver(doctorDataRaw.doctor, date, clinicDataFromSnap?.capacityPolicy, timeContext);
+    if (!sessionAcceptsWalkIns(advanceRatio, activeSessionIndex)) {
+        throw new Error('Walk-ins are not accepted for this session.');
+    }
+
     // Filter slots to include active session AND future sessions to allow spillover
     slots = allSlots.filter((s) => s.sessionIndex >= (activeSessionIndex ?? 0));
     const doctorData = { doctor: doctorDataRaw.doctor, slots };
 
     // 3. Unified Transaction
-    return await runTransaction(firestore, async (transaction) => {
+    const result = await runTransaction(firestore, async (transaction): Promise<BookingResult> => {
         // A. Multi-read Section
         const counterDocId = `${clinicId}_${doctor.name}_${dateStr}_W`
             .replace(/\s+/g, '_')
@@ -570,6 +607,7 @@ export async function completePatientWalkInBooking(
             totalSlots: doctorData.slots.length,
             newWalkInNumericToken: nextWalkInNumericToken,
             forceBook: finalForceBook,
+            timeContext,
         });
 
         if (!shiftPlan.newAssignment) {
@@ -643,8 +681,10 @@ export async function completePatientWalkInBooking(
             department: doctor.department,
             bookedVia: 'Walk-in',
             date: dateStr,
-            time: getClinicTimeString(appointmentTime),
-            arriveByTime: getClinicTimeString(appointmentTime),
+            time: getClinicTimeString(appointmentTime, timeContext),
+            dateKey: getClinicISOString(appointmentTime, timeContext),
+            slotAt: Timestamp.fromDate(appointmentTime),
+            arriveByTime: getClinicTimeString(appointmentTime, timeContext),
             status: 'Confirmed',
             tokenNumber,
             numericToken: nextWalkInNumericToken,
@@ -667,6 +707,7 @@ export async function completePatientWalkInBooking(
                 slotIndex: update.slotIndex,
                 sessionIndex: update.sessionIndex,
                 time: update.timeString,
+                ...getAppointmentDateFields(dateStr, update.timeString, timeContext),
                 arriveByTime: update.arriveByTime,
                 noShowTime: Timestamp.fromDate(update.noShowTime),
                 cutOffTime: Timestamp.fromDate(update.cutOffTime),
@@ -703,4 +744,38 @@ export async function completePatientWalkInBooking(
             classicTokenNumber,
         };
     });
+
+    // 4. Online payment. A booking the patient cannot pay for is cancelled again
+    try {
+        const payment = await createAppointmentPayment(firestore, {
+            clinicId,
+            clinic: clinicDataFromSnap as Clinic,
+            appointmentId: result.appointmentId,
+            patientId,
+            consultationFee: doctorDataRaw.doctor.consultationFee,
+            description: `Consultation with Dr. ${doctor.name} on ${dateStr}`,
+        });
+        if (payment) {
+            result.payment = { paymentId: payment.id, amount: payment.amount, checkoutUrl: payment.checkoutUrl };
+        }
+    } catch (error) {
+        console.error('[BOOKING:SERVER] Failed to create payment intent:', error);
+        await cancelAppointment(firestore, {
+            id: result.appointmentId,
+            clinicId,
+            patientId,
+            doctorId: doctor.id,
+            doctor: doctor.name,
+            date: dateStr,
+            status: 'Confirmed',
+            tokenNumber: result.tokenNumber,
+        } as Appointment, {
+            actor: getSystemActor(firestore),
+            source: 'system',
+            reason: 'Online payment could not be started',
+        });
+        throw new Error('Online payment could not be started, so the booking was cancelled. Please try again or book at the reception.');
+    }
+
+    return result;
 }
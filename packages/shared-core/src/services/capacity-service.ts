@@ -5,8 +5,22 @@
  * - Maximum A tokens: 85% of total slots
  * - Minimum W tokens: 15% of total slots (assigned slots)
  * - W tokens can use empty A token slots if available
+ *
+ * The 85% default can be overridden by a CapacityPolicy on the clinic
+ * (default for every doctor) or on the doctor (per weekday / per session).
  */
 
+import type { CapacityPolicy, CapacityRule, Doctor } from '@kloqo/shared-types';
+import { getClinicDayOfWeek, type ClinicTimeContext } from '../utils/date-utils';
+
+export const DEFAULT_ADVANCE_RATIO = 0.85;
+
+/**
+ * Advance ratio accepted by the slot helpers: a single ratio for every session,
+ * or a resolver keyed by session index (see createSessionRatioResolver).
+ */
+export type SessionAdvanceRatio = number | ((sessionIndex: number) => number);
+
 /**
  * Calculate session capacity split based on ratio
  * 
@@ -21,7 +35,7 @@
  */
 export function calculateSessionCapacity(
   totalSlots: number,
-  capacityRatio: number = 0.85
+  capacityRatio: number = DEFAULT_ADVANCE_RATIO
 ): { advancedCapacity: number; walkInCapacity: number } {
   if (totalSlots <= 0) {
     return { advancedCapacity: 0, walkInCapacity: 0 };
@@ -76,7 +90,7 @@ export function calculateSessionCapacity(
 }
 
 /**
- * Check if a slot index is in the advanced token zone (85% zone)
+ * Check if a slot index is in the advanced token zone (85% zone by default)
  * 
  * @param slotIndex The slot index to check
  * @param totalSlots Total number of slots in the session
@@ -86,7 +100,7 @@ export function calculateSessionCapacity(
 export function isSlotInAdvancedZone(
   slotIndex: number,
   totalSlots: number,
-  capacityRatio: number = 0.85
+  capacityRatio: number = DEFAULT_ADVANCE_RATIO
 ): boolean {
   const { advancedCapacity } = calculateSessionCapacity(totalSlots, capacityRatio);
   return slotIndex < advancedCapacity;
@@ -115,7 +129,7 @@ export function getBookedATokenCount(
 }
 
 /**
- * Check if A token booking is allowed (within 85% capacity)
+ * Check if A token booking is allowed (within the advance capacity)
  * 
  * @param currentA Current number of A tokens booked in the session
  * @param totalSlots Total number of slots in the session
@@ -125,7 +139,7 @@ export function getBookedATokenCount(
 export function canBookAToken(
   currentA: number,
   totalSlots: number,
-  capacityRatio: number = 0.85
+  capacityRatio: number = DEFAULT_ADVANCE_RATIO
 ): boolean {
   const { advancedCapacity } = calculateSessionCapacity(totalSlots, capacityRatio);
   return currentA < advancedCapacity;
@@ -149,3 +163,146 @@ export function calculateTotalSlots(
   return Math.floor(durationMinutes / slotDuration);
 }
 
+
+function normalizeRatio(value: unknown): number | null {
+  const ratio = Number(value);
+  if (value === null || value === undefined || !Number.isFinite(ratio)) return null;
+  return Math.min(Math.max(ratio, 0), 1);
+}
+
+function matchPolicy(policy: CapacityPolicy | null | undefined, day: string, sessionIndex: number): number | null {
+  if (!policy) return null;
+
+  let bestRatio: number | null = null;
+  let bestScore = -1;
+  for (const rule of policy.rules ?? []) {
+    const ratio = normalizeRatio(rule.advanceRatio);
+    if (ratio === null) continue;
+    if (rule.day && rule.day.toLowerCase() !== day.toLowerCase()) continue;
+    if (typeof rule.sessionIndex === 'number' && rule.sessionIndex !== sessionIndex) continue;
+
+    // day + session (3) > day (2) > session (1); first rule wins a tie
+    const score = (rule.day ? 2 : 0) + (typeof rule.sessionIndex === 'number' ? 1 : 0);
+    if (score > bestScore) {
+      bestScore = score;
+      bestRatio = ratio;
+    }
+  }
+
+  return bestRatio ?? normalizeRatio(policy.advanceRatio);
+}
+
+/**
+ * Clean up a policy before saving it: ratios are clamped to 0..1, rules without
+ * a ratio are dropped and a later rule for the same day and session replaces an
+ * earlier one.
+ *
+ * @returns The policy to store, or null when nothing is left to override
+ */
+export function normalizeCapacityPolicy(policy: CapacityPolicy | null | undefined): CapacityPolicy | null {
+  if (!policy) return null;
+
+  const rulesByKey = new Map<string, CapacityRule>();
+  for (const rule of policy.rules ?? []) {
+    const advanceRatio = normalizeRatio(rule.advanceRatio);
+    if (advanceRatio === null) continue;
+    const hasSession = typeof rule.sessionIndex === 'number' && rule.sessionIndex >= 0;
+    if (!rule.day && !hasSession) continue; // matches everything: that is the default's job
+
+    const key = `${(rule.day ?? '').toLowerCase()}|${hasSession ? rule.sessionIndex : ''}`;
+    rulesByKey.delete(key);
+    rulesByKey.set(key, {
+      ...(rule.day ? { day: rule.day } : {}),
+      ...(hasSession ? { sessionIndex: rule.sessionIndex } : {}),
+      advanceRatio,
+    });
+  }
+
+  const advanceRatio = normalizeRatio(policy.advanceRatio);
+  const rules = [...rulesByKey.values()];
+  if (advanceRatio === null && rules.length === 0) return null;
+
+  return {
+    ...(advanceRatio !== null ? { advanceRatio } : {}),
+    ...(rules.length > 0 ? { rules } : {}),
+  };
+}
+
+/**
+ * Resolve the advance ratio for one session of one day
+ *
+ * Lookup order: doctor rules, doctor default, clinic rules, clinic default,
+ * then DEFAULT_ADVANCE_RATIO. Ratios are clamped to 0..1.
+ *
+ * @param day Weekday name, e.g. "Monday"
+ * @param sessionIndex Session index within the day
+ * @param doctorPolicy Capacity policy stored on the doctor
+ * @param clinicPolicy Capacity policy stored on the clinic
+ * @returns Ratio of slots available to advanced tokens
+ */
+export function resolveAdvanceRatio(
+  day: string,
+  sessionIndex: number,
+  doctorPolicy?: CapacityPolicy | null,
+  clinicPolicy?: CapacityPolicy | null
+): number {
+  return matchPolicy(doctorPolicy, day, sessionIndex)
+    ?? matchPolicy(clinicPolicy, day, sessionIndex)
+    ?? DEFAULT_ADVANCE_RATIO;
+}
+
+/**
+ * Build a per-session ratio resolver for a doctor's day
+ *
+ * @param doctor Doctor (only capacityPolicy is read)
+ * @param date Any time on the day being booked
+ * @param clinicPolicy Clinic-level default policy
+ * @param timeContext Clinic whose calendar decides the weekday
+ * @returns Function mapping session index to advance ratio
+ */
+export function createSessionRatioResolver(
+  doctor: Pick<Doctor, 'capacityPolicy'> | null | undefined,
+  date: Date,
+  clinicPolicy?: CapacityPolicy | null,
+  timeContext?: ClinicTimeContext
+): (sessionIndex: number) => number {
+  const day = getClinicDayOfWeek(date, timeContext);
+  return (sessionIndex: number) => resolveAdvanceRatio(day, sessionIndex, doctor?.capacityPolicy, clinicPolicy);
+}
+
+/**
+ * Read the ratio for a session from a fixed ratio or a resolver
+ */
+export function getSessionAdvanceRatio(
+  advanceRatio: SessionAdvanceRatio | undefined,
+  sessionIndex: number
+): number {
+  if (typeof advanceRatio === 'function') return advanceRatio(sessionIndex);
+  return normalizeRatio(advanceRatio) ?? DEFAULT_ADVANCE_RATIO;
+}
+
+/**
+ * Calculate how many of the remaining slots stay reserved for walk-ins
+ *
+ * Rounds up, so the default ratio keeps the original "ceil(15%)" reserve.
+ *
+ * @param futureSlotCount Number of future slots left in the session
+ * @param advanceRatio Ratio for advanced tokens (default 0.85)
+ * @returns Number of slots reserved for walk-ins at the end of the session
+ */
+export function calculateWalkInReserve(
+  futureSlotCount: number,
+  advanceRatio: number = DEFAULT_ADVANCE_RATIO
+): number {
+  if (futureSlotCount <= 0) return 0;
+  // Round the share first so 1 - 0.85 is exactly 0.15 and ceil() doesn't overshoot
+  const walkInShare = Math.round((1 - advanceRatio) * 10000) / 10000;
+  return Math.min(futureSlotCount, Math.ceil(futureSlotCount * walkInShare));
+}
+
+/**
+ * Check whether a session accepts walk-ins at all (advance ratio below 100%)
+ */
+export function sessionAcceptsWalkIns(advanceRatio: SessionAdvanceRatio | undefined, sessionIndex: number): boolean {
+  return getSessionAdvanceRatio(advanceRatio, sessionIndex) < 1;
+}
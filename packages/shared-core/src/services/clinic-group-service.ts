@@ -0,0 +1,454 @@
+/**
+ * Clinic Group Service
+ *
+ * A clinic group ties together the branches of one hospital group. Branches
+ * stay ordinary clinics, so booking, queues and schedules are untouched: a
+ * doctor who consults at several branches has one doctor doc per branch, each
+ * with that branch's `availabilitySlots`, linked by a shared `groupDoctorId`.
+ * Saving a branch schedule checks it against the doctor's other branches so
+ * the same doctor is never booked in two places at once, and the group
+ * dashboard aggregates appointments across all branches.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+  type Firestore,
+} from 'firebase/firestore';
+import { endOfDay, format, parse, startOfDay } from 'date-fns';
+import type { Appointment, AvailabilitySlot, Clinic, ClinicGroup, Doctor, TimeSlot } from '@kloqo/shared-types';
+import { getDoctorLimit } from './subscription-service';
+
+export const CLINIC_GROUPS_COLLECTION = 'clinic-groups';
+
+// Profile fields that describe the doctor rather than a branch; kept the same at every branch
+export const SHARED_DOCTOR_FIELDS = [
+  'name',
+  'specialty',
+  'department',
+  'degrees',
+  'experience',
+  'registrationNumber',
+  'avatar',
+  'bio',
+] as const;
+
+export interface DoctorBranchSchedule {
+  clinicId: string;
+  clinicName?: string;
+  availabilitySlots?: AvailabilitySlot[];
+}
+
+export interface BranchScheduleConflict {
+  day: string;
+  slot: TimeSlot;
+  otherClinicId: string;
+  otherClinicName?: string;
+  otherSlot: TimeSlot;
+}
+
+export interface GroupBranchSummary {
+  clinicId: string;
+  clinicName: string;
+  appointments: number;
+  completed: number;
+  cancelled: number;
+  noShows: number;
+  walkIns: number;
+  uniquePatients: number;
+}
+
+export interface GroupDoctorSummary {
+  groupDoctorId: string;
+  name: string;
+  clinicIds: string[];
+  appointments: number;
+  completed: number;
+}
+
+export interface GroupDashboard {
+  groupId: string;
+  from: string;
+  to: string;
+  totals: {
+    appointments: number;
+    completed: number;
+    cancelled: number;
+    noShows: number;
+    uniquePatients: number;
+    // Patients with appointments at more than one branch in the range
+    crossBranchPatients: number;
+  };
+  branches: GroupBranchSummary[];
+  doctors: GroupDoctorSummary[];
+}
+
+// ============================================================================
+// SCHEDULE CONFLICTS
+// ============================================================================
+
+function toMinutesOfDay(time: string): number {
+  const parsed = parse(time, 'hh:mm a', new Date(0));
+  return parsed.getHours() * 60 + parsed.getMinutes();
+}
+
+/**
+ * Sessions in `slots` that overlap a session of the same doctor at another
+ * branch on the same weekday. `minGapMinutes` is the travel time required
+ * between two branches; back-to-back sessions are fine when it is 0.
+ */
+export function findBranchScheduleConflicts(
+  slots: AvailabilitySlot[],
+  otherBranches: DoctorBranchSchedule[],
+  minGapMinutes = 0
+): BranchScheduleConflict[] {
+  const conflicts: BranchScheduleConflict[] = [];
+
+  for (const { day, timeSlots } of slots) {
+    for (const slot of timeSlots) {
+      const start = toMinutesOfDay(slot.from);
+      const end = toMinutesOfDay(slot.to);
+
+      for (const branch of otherBranches) {
+        const otherDay = branch.availabilitySlots?.find(s => s.day === day);
+        for (const otherSlot of otherDay?.timeSlots || []) {
+          const otherStart = toMinutesOfDay(otherSlot.from);
+          const otherEnd = toMinutesOfDay(otherSlot.to);
+          if (start < otherEnd + minGapMinutes && otherStart < end + minGapMinutes) {
+            conflicts.push({
+              day,
+              slot,
+              otherClinicId: branch.clinicId,
+              otherClinicName: branch.clinicName,
+              otherSlot,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+export function formatBranchConflict(conflict: BranchScheduleConflict): string {
+  const branch = conflict.otherClinicName || conflict.otherClinicId;
+  return `${conflict.day} ${conflict.slot.from} - ${conflict.slot.to} overlaps ${conflict.otherSlot.from} - ${conflict.otherSlot.to} at ${branch}`;
+}
+
+// ============================================================================
+// GROUP DASHBOARD
+// ============================================================================
+
+function parseAppointmentDate(date: string): Date {
+  return parse(date, 'd MMMM yyyy', new Date());
+}
+
+/**
+ * Per-branch and per-doctor counts for appointments dated between `from` and
+ * `to` (inclusive days). Doctors are matched by name within their branch, as
+ * appointments store it, and merged across branches by `groupDoctorId`.
+ */
+export function summarizeGroupAppointments(
+  appointments: Pick<Appointment, 'clinicId' | 'doctor' | 'date' | 'status' | 'patientId' | 'bookedVia'>[],
+  params: {
+    groupId: string;
+    clinics: Pick<Clinic, 'id' | 'name'>[];
+    doctors: Pick<Doctor, 'id' | 'clinicId' | 'name' | 'groupDoctorId'>[];
+    from: Date;
+    to: Date;
+  }
+): GroupDashboard {
+  const start = startOfDay(params.from).getTime();
+  const end = endOfDay(params.to).getTime();
+
+  const branches = new Map<string, GroupBranchSummary & { patients: Set<string> }>();
+  for (const clinic of params.clinics) {
+    branches.set(clinic.id, {
+      clinicId: clinic.id,
+      clinicName: clinic.name,
+      appointments: 0,
+      completed: 0,
+      cancelled: 0,
+      noShows: 0,
+      walkIns: 0,
+      uniquePatients: 0,
+      patients: new Set(),
+    });
+  }
+
+  const doctorKeys = new Map<string, string>();
+  const doctors = new Map<string, GroupDoctorSummary>();
+  for (const doctor of params.doctors) {
+    const key = doctor.groupDoctorId || doctor.id;
+    doctorKeys.set(`${doctor.clinicId}|${doctor.name}`, key);
+    const summary = doctors.get(key) || { groupDoctorId: key, name: doctor.name, clinicIds: [], appointments: 0, completed: 0 };
+    if (!summary.clinicIds.includes(doctor.clinicId)) summary.clinicIds.push(doctor.clinicId);
+    doctors.set(key, summary);
+  }
+
+  const branchesByPatient = new Map<string, Set<string>>();
+  const totals = { appointments: 0, completed: 0, cancelled: 0, noShows: 0, uniquePatients: 0, crossBranchPatients: 0 };
+
+  for (const appointment of appointments) {
+    const branch = branches.get(appointment.clinicId);
+    if (!branch || !appointment.date) continue;
+    const day = parseAppointmentDate(appointment.date).getTime();
+    if (isNaN(day) || day < start || day > end) continue;
+
+    branch.appointments++;
+    totals.appointments++;
+    if (appointment.status === 'Completed') {
+      branch.completed++;
+      totals.completed++;
+    } else if (appointment.status === 'Cancelled') {
+      branch.cancelled++;
+      totals.cancelled++;
+    } else if (appointment.status === 'No-show') {
+      branch.noShows++;
+      totals.noShows++;
+    }
+    if (appointment.bookedVia === 'Walk-in') branch.walkIns++;
+
+    if (appointment.patientId) {
+      branch.patients.add(appointment.patientId);
+      const seenAt = branchesByPatient.get(appointment.patientId) || new Set<string>();
+      seenAt.add(appointment.clinicId);
+      branchesByPatient.set(appointment.patientId, seenAt);
+    }
+
+    const doctorKey = doctorKeys.get(`${appointment.clinicId}|${appointment.doctor}`);
+    const doctor = doctorKey ? doctors.get(doctorKey) : undefined;
+    if (doctor) {
+      doctor.appointments++;
+      if (appointment.status === 'Completed') doctor.completed++;
+    }
+  }
+
+  totals.uniquePatients = branchesByPatient.size;
+  totals.crossBranchPatients = Array.from(branchesByPatient.values()).filter(seenAt => seenAt.size > 1).length;
+
+  return {
+    groupId: params.groupId,
+    from: format(params.from, 'd MMMM yyyy'),
+    to: format(params.to, 'd MMMM yyyy'),
+    totals,
+    branches: Array.from(branches.values()).map(({ patients, ...branch }) => ({
+      ...branch,
+      uniquePatients: patients.size,
+    })),
+    doctors: Array.from(doctors.values()).sort((a, b) => b.appointments - a.appointments),
+  };
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+export async function getClinicGroups(firestore: Firestore): Promise<ClinicGroup[]> {
+  const snapshot = await getDocs(collection(firestore, CLINIC_GROUPS_COLLECTION));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as ClinicGroup));
+}
+
+export async function getClinicGroup(firestore: Firestore, groupId: string): Promise<ClinicGroup | null> {
+  const snapshot = await getDoc(doc(firestore, CLINIC_GROUPS_COLLECTION, groupId));
+  return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as ClinicGroup) : null;
+}
+
+export async function createClinicGroup(firestore: Firestore, name: string): Promise<ClinicGroup> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Group name is required');
+
+  const groupRef = doc(collection(firestore, CLINIC_GROUPS_COLLECTION));
+  const group: ClinicGroup = { id: groupRef.id, name: trimmed, clinicIds: [] };
+  await setDoc(groupRef, { ...group, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+  return group;
+}
+
+/**
+ * Moves a clinic into `groupId`, or out of its group when `groupId` is null.
+ * The clinic's doctors carry the group id too so branch lookups stay a single query.
+ */
+export async function setClinicGroup(firestore: Firestore, clinicId: string, groupId: string | null): Promise<void> {
+  const clinicRef = doc(firestore, 'clinics', clinicId);
+  const doctorsSnap = await getDocs(query(collection(firestore, 'doctors'), where('clinicId', '==', clinicId)));
+
+  await runTransaction(firestore, async transaction => {
+    const clinicSnap = await transaction.get(clinicRef);
+    if (!clinicSnap.exists()) throw new Error('Clinic not found');
+    const currentGroupId: string | undefined = clinicSnap.data().groupId;
+    if ((currentGroupId || null) === groupId) return;
+
+    const currentRef = currentGroupId ? doc(firestore, CLINIC_GROUPS_COLLECTION, currentGroupId) : null;
+    const nextRef = groupId ? doc(firestore, CLINIC_GROUPS_COLLECTION, groupId) : null;
+    const currentSnap = currentRef ? await transaction.get(currentRef) : null;
+    const nextSnap = nextRef ? await transaction.get(nextRef) : null;
+    if (nextRef && !nextSnap?.exists()) throw new Error('Clinic group not found');
+
+    if (currentRef && currentSnap?.exists()) {
+      const clinicIds: string[] = currentSnap.data().clinicIds || [];
+      transaction.update(currentRef, { clinicIds: clinicIds.filter(id => id !== clinicId), updatedAt: serverTimestamp() });
+    }
+    if (nextRef && nextSnap?.exists()) {
+      const clinicIds: string[] = nextSnap.data().clinicIds || [];
+      transaction.update(nextRef, { clinicIds: Array.from(new Set([...clinicIds, clinicId])), updatedAt: serverTimestamp() });
+    }
+    transaction.update(clinicRef, { groupId: groupId || null });
+    doctorsSnap.docs.forEach(d => transaction.update(d.ref, { groupId: groupId || null }));
+  });
+
+  console.log(`[ClinicGroup] Clinic ${clinicId} moved to group ${groupId ?? '(none)'}`);
+}
+
+/**
+ * The doctor docs of one doctor across the branches of their group, this one included.
+ */
+export async function getDoctorBranches(firestore: Firestore, doctor: Pick<Doctor, 'id' | 'groupDoctorId'>): Promise<Doctor[]> {
+  if (!doctor.groupDoctorId) return [];
+  const snapshot = await getDocs(query(collection(firestore, 'doctors'), where('groupDoctorId', '==', doctor.groupDoctorId)));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Doctor));
+}
+
+/**
+ * Throws when `slots`, the schedule about to be saved for `doctor` at their
+ * branch, overlaps the doctor's sessions at another branch. Doctors who
+ * consult at a single clinic are never in conflict.
+ */
+export async function assertNoBranchScheduleConflicts(
+  firestore: Firestore,
+  doctor: Pick<Doctor, 'id' | 'groupDoctorId'>,
+  slots: AvailabilitySlot[]
+): Promise<void> {
+  const otherDocs = (await getDoctorBranches(firestore, doctor)).filter(d => d.id !== doctor.id);
+  if (otherDocs.length === 0) return;
+
+  const clinicSnaps = await Promise.all(otherDocs.map(d => getDoc(doc(firestore, 'clinics', d.clinicId))));
+  const otherBranches: DoctorBranchSchedule[] = otherDocs.map((d, i) => ({
+    clinicId: d.clinicId,
+    clinicName: clinicSnaps[i].exists() ? clinicSnaps[i].data()?.name : undefined,
+    availabilitySlots: d.availabilitySlots,
+  }));
+
+  const conflicts = findBranchScheduleConflicts(slots, otherBranches);
+  if (conflicts.length > 0) {
+    console.warn(`[ClinicGroup] Schedule for doctor ${doctor.id} overlaps other branches`, conflicts);
+    throw new Error(`This schedule overlaps the doctor's sessions at another branch: ${conflicts.map(formatBranchConflict).join('; ')}`);
+  }
+}
+
+/**
+ * Lets `doctor` also consult at `clinicId`, another branch of the same group.
+ * The new branch gets its own doctor doc with the shared profile and no
+ * sessions yet; its schedule, fees and queue are set up there as for any doctor.
+ */
+export async function attachDoctorToBranch(firestore: Firestore, doctor: Doctor, clinicId: string): Promise<Doctor> {
+  if (clinicId === doctor.clinicId) throw new Error('The doctor already consults at this branch');
+
+  const [homeSnap, clinicSnap] = await Promise.all([
+    getDoc(doc(firestore, 'clinics', doctor.clinicId)),
+    getDoc(doc(firestore, 'clinics', clinicId)),
+  ]);
+  const groupId: string | undefined = homeSnap.exists() ? homeSnap.data().groupId : undefined;
+  if (!groupId) throw new Error('This clinic is not part of a clinic group');
+  if (!clinicSnap.exists() || clinicSnap.data().groupId !== groupId) {
+    throw new Error('The branch is not part of this clinic group');
+  }
+
+  const groupDoctorId = doctor.groupDoctorId || doctor.id;
+  const branches = await getDoctorBranches(firestore, { id: doctor.id, groupDoctorId });
+  if (branches.some(d => d.clinicId === clinicId)) {
+    throw new Error('The doctor already consults at this branch');
+  }
+
+  const branchDoctors = await getDocs(query(collection(firestore, 'doctors'), where('clinicId', '==', clinicId)));
+  const maxDoctors = getDoctorLimit(clinicSnap.data());
+  if (branchDoctors.size >= maxDoctors) {
+    throw new Error(`${clinicSnap.data().name || 'The branch'} has reached its plan limit of ${maxDoctors} doctor(s).`);
+  }
+
+  const newId = `doc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const branchDoctor: Doctor = {
+    id: newId,
+    clinicId,
+    groupId,
+    groupDoctorId,
+    name: doctor.name,
+    specialty: doctor.specialty,
+    department: doctor.department,
+    avatar: doctor.avatar,
+    schedule: 'Not set',
+    preferences: 'Not set',
+    historicalData: 'No data',
+    availability: 'Unavailable',
+    consultationStatus: 'Out',
+    availabilitySlots: [],
+  };
+  for (const field of SHARED_DOCTOR_FIELDS) {
+    if (doctor[field] !== undefined) (branchDoctor as any)[field] = doctor[field];
+  }
+  if (doctor.consultationFee !== undefined) branchDoctor.consultationFee = doctor.consultationFee;
+  if (doctor.averageConsultingTime !== undefined) branchDoctor.averageConsultingTime = doctor.averageConsultingTime;
+
+  const batch = writeBatch(firestore);
+  batch.set(doc(firestore, 'doctors', newId), branchDoctor);
+  if (!doctor.groupDoctorId) batch.update(doc(firestore, 'doctors', doctor.id), { groupId, groupDoctorId });
+  batch.update(doc(firestore, 'clinics', clinicId), { currentDoctorCount: increment(1) });
+  await batch.commit();
+
+  console.log(`[ClinicGroup] Doctor ${doctor.id} now also consults at clinic ${clinicId} as ${newId}`);
+  return branchDoctor;
+}
+
+/**
+ * Copies the shared profile fields of `doctor` to their docs at the other branches.
+ */
+export async function syncGroupDoctorProfile(firestore: Firestore, doctor: Doctor): Promise<void> {
+  const others = (await getDoctorBranches(firestore, doctor)).filter(d => d.id !== doctor.id);
+  if (others.length === 0) return;
+
+  const profile: Record<string, unknown> = {};
+  for (const field of SHARED_DOCTOR_FIELDS) {
+    if (doctor[field] !== undefined) profile[field] = doctor[field];
+  }
+
+  await Promise.all(others.map(d => updateDoc(doc(firestore, 'doctors', d.id), { ...profile, updatedAt: serverTimestamp() })));
+}
+
+/**
+ * Appointments of every branch of the group between `from` and `to`, summarised.
+ */
+export async function getGroupDashboard(firestore: Firestore, groupId: string, from: Date, to: Date): Promise<GroupDashboard> {
+  const group = await getClinicGroup(firestore, groupId);
+  if (!group) throw new Error('Clinic group not found');
+
+  const perBranch = await Promise.all(group.clinicIds.map(async clinicId => {
+    const [clinicSnap, doctorsSnap, appointmentsSnap] = await Promise.all([
+      getDoc(doc(firestore, 'clinics', clinicId)),
+      getDocs(query(collection(firestore, 'doctors'), where('clinicId', '==', clinicId))),
+      getDocs(query(collection(firestore, 'appointments'), where('clinicId', '==', clinicId))),
+    ]);
+    return {
+      clinic: { id: clinicId, name: clinicSnap.exists() ? clinicSnap.data()?.name : clinicId },
+      doctors: doctorsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Doctor)),
+      appointments: appointmentsSnap.docs.map(d => d.data() as Appointment),
+    };
+  }));
+
+  return summarizeGroupAppointments(perBranch.flatMap(b => b.appointments), {
+    groupId,
+    clinics: perBranch.map(b => b.clinic),
+    doctors: perBranch.flatMap(b => b.doctors),
+    from,
+    to,
+  });
+}
@@ -0,0 +1,335 @@
+/**
+ * Consultation Record Service
+ *
+ * The doctor's notes for a visit: chief complaint, vitals, diagnoses,
+ * medications, advice and the follow-up date. One record per appointment,
+ * stored under the appointment's id and linked from it by
+ * `consultationRecordId`. The prescription PDF is rendered on demand by the
+ * clinic app from `buildPrescriptionDocument`; patients reach it through a
+ * link carrying the record's share token, sent over WhatsApp and shown in the
+ * patient app's profile.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type Firestore,
+} from 'firebase/firestore';
+import { parse, isValid } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Appointment,
+  Clinic,
+  ConsultationRecord,
+  Diagnosis,
+  Doctor,
+  PrescribedMedication,
+  Vitals,
+} from '@kloqo/shared-types';
+import { applyAppointmentMutation, type AppointmentMutationContext } from './appointment-event-service';
+import { assertPermission, type StaffMember } from './access-control-service';
+import { sendPrescriptionReadyNotification } from './notification-service';
+
+export const CONSULTATION_RECORDS_COLLECTION = 'consultation-records';
+
+// Common dosing patterns, morning-afternoon-night
+export const MEDICATION_FREQUENCIES: { value: string; label: string }[] = [
+  { value: '1-0-0', label: 'Morning' },
+  { value: '0-1-0', label: 'Afternoon' },
+  { value: '0-0-1', label: 'Night' },
+  { value: '1-0-1', label: 'Morning and night' },
+  { value: '1-1-1', label: 'Three times a day' },
+  { value: '1-1-1-1', label: 'Four times a day' },
+  { value: 'SOS', label: 'When needed' },
+];
+
+export type ConsultationRecordInput = Pick<
+  ConsultationRecord,
+  'chiefComplaint' | 'vitals' | 'diagnoses' | 'medications' | 'advice' | 'followUpDate'
+>;
+
+export interface PrescriptionSection {
+  heading: string;
+  lines: string[];
+}
+
+// Everything printed on a prescription, in reading order; renderers only lay it out
+export interface PrescriptionDocument {
+  clinicName: string;
+  clinicDetails: string[];
+  doctorName: string;
+  doctorDetails: string[];
+  patientName: string;
+  date: string;
+  sections: PrescriptionSection[];
+  footer: string;
+}
+
+const VITAL_RANGES: Record<Exclude<keyof Vitals, 'bloodPressure'>, [number, number]> = {
+  pulse: [20, 250],
+  temperature: [90, 110],
+  weight: [0.5, 300],
+  spo2: [50, 100],
+};
+
+const ICD10_PATTERN = /^[A-Z][0-9][0-9A-Z](\.[0-9A-Z]{1,4})?$/;
+const BLOOD_PRESSURE_PATTERN = /^\d{2,3}\/\d{2,3}$/;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+function normalizeVitals(vitals: Vitals | undefined): Vitals | undefined {
+  if (!vitals) return undefined;
+  const result: Vitals = {};
+
+  const bloodPressure = vitals.bloodPressure?.replace(/\s/g, '');
+  if (bloodPressure) {
+    if (!BLOOD_PRESSURE_PATTERN.test(bloodPressure)) {
+      throw new Error('Blood pressure must look like 120/80.');
+    }
+    result.bloodPressure = bloodPressure;
+  }
+
+  for (const key of Object.keys(VITAL_RANGES) as (keyof typeof VITAL_RANGES)[]) {
+    const value = vitals[key];
+    if (value === undefined || value === null || Number.isNaN(value)) continue;
+    const [min, max] = VITAL_RANGES[key];
+    if (value < min || value > max) {
+      throw new Error(`${key === 'spo2' ? 'SpO2' : key.charAt(0).toUpperCase() + key.slice(1)} must be between ${min} and ${max}.`);
+    }
+    result[key] = value;
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function normalizeDiagnosis(diagnosis: Diagnosis): Diagnosis | null {
+  const description = diagnosis.description?.trim();
+  const code = diagnosis.code?.trim().toUpperCase();
+  if (!description && !code) return null;
+  if (code && !ICD10_PATTERN.test(code)) {
+    throw new Error(`"${code}" is not a valid ICD-10 code.`);
+  }
+  if (!description) {
+    throw new Error(`Add a description for diagnosis ${code}.`);
+  }
+  return code ? { code, description } : { description };
+}
+
+function normalizeMedication(medication: PrescribedMedication): PrescribedMedication | null {
+  const name = medication.name?.trim();
+  if (!name) return null;
+
+  const dose = medication.dose?.trim();
+  const frequency = medication.frequency?.trim();
+  if (!dose || !frequency) {
+    throw new Error(`Enter the dose and frequency for ${name}.`);
+  }
+  if (!Number.isInteger(medication.durationDays) || medication.durationDays < 1 || medication.durationDays > 365) {
+    throw new Error(`Duration for ${name} must be between 1 and 365 days.`);
+  }
+
+  const instructions = medication.instructions?.trim();
+  return { name, dose, frequency, durationDays: medication.durationDays, ...(instructions ? { instructions } : {}) };
+}
+
+/**
+ * Trims the form input, drops empty rows and validates the rest. Optional
+ * fields that are blank are left out, as Firestore rejects undefined values.
+ */
+export function normalizeConsultationRecordInput(input: ConsultationRecordInput): ConsultationRecordInput {
+  const chiefComplaint = input.chiefComplaint?.trim() || '';
+  const diagnoses = (input.diagnoses || []).map(normalizeDiagnosis).filter((d): d is Diagnosis => d !== null);
+  const medications = (input.medications || []).map(normalizeMedication).filter((m): m is PrescribedMedication => m !== null);
+
+  if (!chiefComplaint && diagnoses.length === 0) {
+    throw new Error('Enter the chief complaint or a diagnosis.');
+  }
+
+  const followUpDate = input.followUpDate?.trim();
+  if (followUpDate && !isValid(parse(followUpDate, 'd MMMM yyyy', new Date()))) {
+    throw new Error('Follow-up date is not valid.');
+  }
+
+  const vitals = normalizeVitals(input.vitals);
+  const advice = input.advice?.trim();
+
+  return {
+    chiefComplaint,
+    diagnoses,
+    medications,
+    ...(vitals ? { vitals } : {}),
+    ...(advice ? { advice } : {}),
+    ...(followUpDate ? { followUpDate } : {}),
+  };
+}
+
+export function formatMedication(medication: PrescribedMedication): string {
+  const days = `${medication.durationDays} ${medication.durationDays === 1 ? 'day' : 'days'}`;
+  const instructions = medication.instructions ? ` (${medication.instructions})` : '';
+  return `${medication.name} ${medication.dose} - ${medication.frequency} x ${days}${instructions}`;
+}
+
+export function formatVitals(vitals: Vitals | undefined): string[] {
+  if (!vitals) return [];
+  const lines: string[] = [];
+  if (vitals.bloodPressure) lines.push(`BP ${vitals.bloodPressure} mmHg`);
+  if (vitals.pulse !== undefined) lines.push(`Pulse ${vitals.pulse} bpm`);
+  if (vitals.temperature !== undefined) lines.push(`Temp ${vitals.temperature} °F`);
+  if (vitals.weight !== undefined) lines.push(`Weight ${vitals.weight} kg`);
+  if (vitals.spo2 !== undefined) lines.push(`SpO2 ${vitals.spo2}%`);
+  return lines;
+}
+
+export function formatDiagnosis(diagnosis: Diagnosis): string {
+  return diagnosis.code ? `${diagnosis.code} - ${diagnosis.description}` : diagnosis.description;
+}
+
+/**
+ * The prescription as printed: letterhead, patient, then the sections that have content.
+ */
+export function buildPrescriptionDocument(
+  record: ConsultationRecord,
+  clinic: Pick<Clinic, 'name'> & { address?: string; phone?: string },
+  doctor?: Pick<Doctor, 'specialty' | 'degrees' | 'registrationNumber'> | null
+): PrescriptionDocument {
+  const sections: PrescriptionSection[] = [];
+  const addSection = (heading: string, lines: string[]) => {
+    if (lines.length > 0) sections.push({ heading, lines });
+  };
+
+  addSection('Chief Complaint', record.chiefComplaint ? [record.chiefComplaint] : []);
+  addSection('Vitals', formatVitals(record.vitals).length > 0 ? [formatVitals(record.vitals).join('   ')] : []);
+  addSection('Diagnosis', record.diagnoses.map(formatDiagnosis));
+  addSection('Rx', record.medications.map((medication, i) => `${i + 1}. ${formatMedication(medication)}`));
+  addSection('Advice', record.advice ? record.advice.split('\n').map(line => line.trim()).filter(Boolean) : []);
+  addSection('Follow-up', record.followUpDate ? [`Review on ${record.followUpDate}`] : []);
+
+  const doctorDetails = [
+    [doctor?.degrees?.join(', '), doctor?.specialty].filter(Boolean).join(' - '),
+    doctor?.registrationNumber ? `Reg. No. ${doctor.registrationNumber}` : '',
+  ].filter(Boolean);
+
+  return {
+    clinicName: clinic.name,
+    clinicDetails: [clinic.address, clinic.phone].filter((line): line is string => !!line),
+    doctorName: `Dr. ${record.doctorName}`,
+    doctorDetails,
+    patientName: record.patientName,
+    date: record.date,
+    sections,
+    footer: 'This prescription was generated electronically through Kloqo.',
+  };
+}
+
+/**
+ * Public link to the prescription PDF, served by the clinic app
+ */
+export function getPrescriptionUrl(record: Pick<ConsultationRecord, 'appointmentId' | 'shareToken'>): string {
+  const baseUrl = process.env.NEXT_PUBLIC_CLINIC_ADMIN_URL || 'https://admin.kloqo.com';
+  return `${baseUrl}/api/prescriptions/${record.appointmentId}?token=${record.shareToken}`;
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+export async function getConsultationRecord(firestore: Firestore, appointmentId: string): Promise<ConsultationRecord | null> {
+  const snapshot = await getDoc(doc(firestore, CONSULTATION_RECORDS_COLLECTION, appointmentId));
+  return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as ConsultationRecord) : null;
+}
+
+/**
+ * A patient's records across clinics, most recent visit first
+ */
+export async function getPatientConsultationRecords(firestore: Firestore, patientId: string): Promise<ConsultationRecord[]> {
+  const snapshot = await getDocs(query(
+    collection(firestore, CONSULTATION_RECORDS_COLLECTION),
+    where('patientId', '==', patientId)
+  ));
+  const visitTime = (record: ConsultationRecord) => parse(record.date, 'd MMMM yyyy', new Date()).getTime() || 0;
+  return snapshot.docs
+    .map(d => ({ id: d.id, ...d.data() } as ConsultationRecord))
+    .sort((a, b) => visitTime(b) - visitTime(a));
+}
+
+/**
+ * Creates or replaces the record for `appointment` and links it from the
+ * appointment. Editing keeps the original author and share token.
+ */
+export async function saveConsultationRecord(
+  firestore: Firestore,
+  appointment: Appointment,
+  input: ConsultationRecordInput,
+  context: Omit<AppointmentMutationContext, 'action'>,
+  staff?: StaffMember | null
+): Promise<ConsultationRecord> {
+  if (staff) assertPermission(staff, 'write_prescription');
+
+  const normalized = normalizeConsultationRecordInput(input);
+  const recordRef = doc(firestore, CONSULTATION_RECORDS_COLLECTION, appointment.id);
+  const existing = await getDoc(recordRef);
+  const previous = existing.exists() ? (existing.data() as ConsultationRecord) : null;
+
+  const record: ConsultationRecord = {
+    id: appointment.id,
+    appointmentId: appointment.id,
+    clinicId: appointment.clinicId,
+    ...(appointment.doctorId ? { doctorId: appointment.doctorId } : {}),
+    doctorName: appointment.doctor,
+    patientId: appointment.patientId,
+    patientName: appointment.patientName,
+    date: appointment.date,
+    ...normalized,
+    shareToken: previous?.shareToken || uuidv4(),
+    createdBy: previous?.createdBy || context.actor,
+  };
+
+  const batch = writeBatch(firestore);
+  batch.set(recordRef, {
+    ...record,
+    createdAt: previous?.createdAt || serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  if (appointment.consultationRecordId !== appointment.id) {
+    applyAppointmentMutation(batch, firestore, appointment, { consultationRecordId: appointment.id }, { ...context, action: 'updated' });
+  }
+  await batch.commit();
+
+  console.log(`[ConsultationRecord] Saved record for appointment ${appointment.id}`);
+  return record;
+}
+
+/**
+ * Sends the prescription link to the patient over WhatsApp and push.
+ */
+export async function shareConsultationRecord(firestore: Firestore, record: ConsultationRecord): Promise<boolean> {
+  const [clinicSnap, patientSnap] = await Promise.all([
+    getDoc(doc(firestore, 'clinics', record.clinicId)),
+    getDoc(doc(firestore, 'patients', record.patientId)),
+  ]);
+  const patient = patientSnap.exists() ? patientSnap.data() : null;
+
+  const sent = await sendPrescriptionReadyNotification({
+    firestore,
+    patientId: record.patientId,
+    appointmentId: record.appointmentId,
+    clinicId: record.clinicId,
+    doctorName: record.doctorName,
+    clinicName: clinicSnap.exists() ? clinicSnap.data()?.name || 'The clinic' : 'The clinic',
+    prescriptionUrl: getPrescriptionUrl(record),
+    communicationPhone: patient?.communicationPhone || patient?.phone,
+    patientName: record.patientName,
+  });
+
+  await updateDoc(doc(firestore, CONSULTATION_RECORDS_COLLECTION, record.id), { sharedAt: serverTimestamp() });
+  return sent;
+}
@@ -0,0 +1,451 @@
+/**
+ * Consultation Time Model
+ *
+ * Learns how long a doctor's consultations actually take from the `completedAt`
+ * history, instead of the flat `averageConsultingTime`. Each completed consultation
+ * is measured as the gap since the previous completion in the same session and
+ * tagged with its time of day, booking type (walk-in vs advance), visit type
+ * (first visit vs follow-up) and position in the session (fatigue).
+ *
+ * The model is a per-doctor p50/p90 baseline with a multiplier per feature level,
+ * shrunk towards 1 when a level has few samples. It is trained offline (nightly
+ * cron, one `consultation-time-models/{doctorId}` doc per doctor) and consumed by
+ * `calculateEstimatedTimes` through a predictor, so the queue projection, the
+ * live-token page and the people-ahead notification get p50/p90 ETAs.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  where,
+  type Firestore,
+} from 'firebase/firestore';
+import { parse, subDays } from 'date-fns';
+import type {
+  Appointment,
+  ConsultationBookingType,
+  ConsultationTimeModel,
+  ConsultationVisitType,
+  Doctor,
+} from '@kloqo/shared-types';
+import type { ConsultationDurationPredictor } from '../utils/estimated-time-utils';
+import { getClinic24hTimeString, getClinicNow } from '../utils/date-utils';
+
+export const CONSULTATION_TIME_MODELS_COLLECTION = 'consultation-time-models';
+
+// Gaps outside this range are idle time or batch completions, not consultations
+// (same window the superadmin doctor page uses for actualAverageConsultationTime)
+export const MIN_CONSULTATION_MINUTES = 2;
+export const MAX_CONSULTATION_MINUTES = 60;
+
+// Below this many samples the doctor keeps the flat averageConsultingTime
+export const MIN_TRAINING_SAMPLES = 20;
+
+// Pseudo-count pulling a feature level's multiplier towards 1
+const SHRINKAGE_SAMPLES = 10;
+
+const BREAK_PATIENT_ID = 'dummy-break-patient';
+
+export type ConsultationTimeOfDay = 'morning' | 'afternoon' | 'evening';
+export type ConsultationFatigueBucket = '0-4' | '5-9' | '10-19' | '20+';
+
+export interface ConsultationFeatures {
+  timeOfDay: ConsultationTimeOfDay;
+  bookingType: ConsultationBookingType;
+  visitType?: ConsultationVisitType; // unknown visit type is neutral
+  fatigue: ConsultationFatigueBucket;
+}
+
+export interface ConsultationSample extends ConsultationFeatures {
+  appointmentId: string;
+  date: string;
+  minutes: number;
+}
+
+export interface ConsultationPrediction {
+  p50: number;
+  p90: number;
+}
+
+export interface TrainConsultationTimeModelOptions {
+  doctorId: string;
+  now?: Date;
+  minSamples?: number;
+}
+
+// ============================================================================
+// FEATURES
+// ============================================================================
+
+function dayTime(date: string): number {
+  return parse(date, 'd MMMM yyyy', new Date()).getTime();
+}
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === 'function') return value.toDate();
+  if (typeof value.seconds === 'number') return new Date(value.seconds * 1000);
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export function getTimeOfDay(time: Date): ConsultationTimeOfDay {
+  const hour = Number(getClinic24hTimeString(time).split(':')[0]);
+  if (hour < 12) return 'morning';
+  if (hour < 17) return 'afternoon';
+  return 'evening';
+}
+
+export function getFatigueBucket(position: number): ConsultationFatigueBucket {
+  if (position < 5) return '0-4';
+  if (position < 10) return '5-9';
+  if (position < 20) return '10-19';
+  return '20+';
+}
+
+export function getBookingType(appointment: Pick<Appointment, 'bookedVia' | 'tokenNumber'>): ConsultationBookingType {
+  return appointment.bookedVia === 'Walk-in' || appointment.tokenNumber?.startsWith('W') ? 'walk-in' : 'advance';
+}
+
+/**
+ * Turns a doctor's appointment history into one duration sample per consultation.
+ * A patient's first completed appointment with the doctor in the history is a
+ * first visit, later ones are follow-ups.
+ */
+export function extractConsultationSamples(appointments: Appointment[]): ConsultationSample[] {
+  const completed = appointments
+    .filter(apt => apt.status === 'Completed' && apt.patientId !== BREAK_PATIENT_ID)
+    .map(apt => ({ apt, completedAt: toDate(apt.completedAt) }))
+    .filter((item): item is { apt: Appointment; completedAt: Date } => !!item.completedAt)
+    .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+
+  const seenPatients = new Set<string>();
+  const visitTypeById = new Map<string, ConsultationVisitType>();
+  for (const { apt } of completed) {
+    visitTypeById.set(apt.id, seenPatients.has(apt.patientId) ? 'follow-up' : 'first');
+    seenPatients.add(apt.patientId);
+  }
+
+  const sessions = new Map<string, { apt: Appointment; completedAt: Date }[]>();
+  for (const item of completed) {
+    const key = `${item.apt.date}|${item.apt.sessionIndex ?? 0}`;
+    if (!sessions.has(key)) sessions.set(key, []);
+    sessions.get(key)!.push(item);
+  }
+
+  const samples: ConsultationSample[] = [];
+  for (const session of sessions.values()) {
+    for (let i = 1; i < session.length; i++) {
+      const start = session[i - 1].completedAt;
+      const minutes = (session[i].completedAt.getTime() - start.getTime()) / 60000;
+      if (minutes <= MIN_CONSULTATION_MINUTES || minutes >= MAX_CONSULTATION_MINUTES) continue;
+
+      const { apt } = session[i];
+      samples.push({
+        appointmentId: apt.id,
+        date: apt.date,
+        minutes,
+        timeOfDay: getTimeOfDay(start),
+        bookingType: getBookingType(apt),
+        visitType: visitTypeById.get(apt.id),
+        fatigue: getFatigueBucket(i),
+      });
+    }
+  }
+  return samples;
+}
+
+// ============================================================================
+// TRAINING & PREDICTION
+// ============================================================================
+
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+const FEATURE_NAMES = ['timeOfDay', 'bookingType', 'visitType', 'fatigue'] as const;
+
+/**
+ * Fits the baseline quantiles and per-level multipliers. Returns null when there
+ * is not enough history to beat the flat average.
+ */
+export function trainConsultationTimeModel(
+  samples: ConsultationSample[],
+  options: TrainConsultationTimeModelOptions
+): ConsultationTimeModel | null {
+  const minSamples = options.minSamples ?? MIN_TRAINING_SAMPLES;
+  if (samples.length < minSamples) return null;
+
+  const minutes = samples.map(s => s.minutes);
+  const p50 = quantile(minutes, 0.5);
+  const p90 = quantile(minutes, 0.9);
+  // Multipliers compare means: a level's median can equal the overall one when durations are bimodal
+  const overallMean = mean(minutes);
+
+  const factors = {} as ConsultationTimeModel['factors'];
+  for (const feature of FEATURE_NAMES) {
+    const byLevel = new Map<string, number[]>();
+    for (const sample of samples) {
+      const level = sample[feature];
+      if (!level) continue;
+      if (!byLevel.has(level)) byLevel.set(level, []);
+      byLevel.get(level)!.push(sample.minutes);
+    }
+    factors[feature] = {};
+    for (const [level, values] of byLevel) {
+      const ratio = mean(values) / overallMean;
+      factors[feature][level] = (values.length * ratio + SHRINKAGE_SAMPLES) / (values.length + SHRINKAGE_SAMPLES);
+    }
+  }
+
+  const dates = samples.map(s => s.date);
+  return {
+    doctorId: options.doctorId,
+    trainedAt: (options.now ?? getClinicNow()).toISOString(),
+    sampleCount: samples.length,
+    base: { p50, p90 },
+    factors,
+    trainedFrom: dates.reduce((a, b) => (dayTime(a) <= dayTime(b) ? a : b)),
+    trainedTo: dates.reduce((a, b) => (dayTime(a) >= dayTime(b) ? a : b)),
+  };
+}
+
+export function predictConsultationMinutes(
+  model: ConsultationTimeModel,
+  features: ConsultationFeatures
+): ConsultationPrediction {
+  let multiplier = 1;
+  for (const feature of FEATURE_NAMES) {
+    const level = features[feature];
+    if (level) multiplier *= model.factors[feature]?.[level] ?? 1;
+  }
+  return {
+    p50: Math.max(1, model.base.p50 * multiplier),
+    p90: Math.max(1, model.base.p90 * multiplier),
+  };
+}
+
+export interface ConsultationPredictorOptions {
+  fallbackMinutes: number;
+  completedInSession?: number; // consultations already done, so fatigue continues from there
+  returningPatientIds?: Set<string>;
+}
+
+/**
+ * Predictor for `calculateEstimatedTimes`. Without a model every consultation
+ * takes the flat fallback, which keeps the old behaviour.
+ */
+export function createConsultationPredictor(
+  model: ConsultationTimeModel | null | undefined,
+  options: ConsultationPredictorOptions
+): ConsultationDurationPredictor {
+  return (appointment, { startTime, position }) => {
+    if (!model) return { p50: options.fallbackMinutes, p90: options.fallbackMinutes };
+    return predictConsultationMinutes(model, {
+      timeOfDay: getTimeOfDay(startTime),
+      bookingType: getBookingType(appointment),
+      visitType: options.returningPatientIds
+        ? (options.returningPatientIds.has(appointment.patientId) ? 'follow-up' : 'first')
+        : undefined,
+      fatigue: getFatigueBucket((options.completedInSession ?? 0) + position),
+    });
+  };
+}
+
+/**
+ * Wait for `peopleAhead` consultations starting at `startTime`. The p90 adds up
+ * the per-consultation spreads in quadrature, treating consultations as independent.
+ */
+export function predictWaitMinutes(
+  predictor: ConsultationDurationPredictor,
+  peopleAhead: number,
+  startTime: Date,
+  appointment: Pick<Appointment, 'bookedVia' | 'tokenNumber' | 'patientId'> = { bookedVia: 'Advanced Booking', tokenNumber: '', patientId: '' }
+): ConsultationPrediction {
+  let p50 = 0;
+  let spread = 0;
+  for (let position = 0; position < peopleAhead; position++) {
+    const step = predictor(appointment as Appointment, { startTime: new Date(startTime.getTime() + p50 * 60000), position });
+    p50 += step.p50;
+    spread += (step.p90 - step.p50) ** 2;
+  }
+  return { p50, p90: p50 + Math.sqrt(spread) };
+}
+
+// ============================================================================
+// BACKTEST
+// ============================================================================
+
+export interface ConsultationBacktestResult {
+  testDays: number;
+  samples: number;
+  modelMae: number;
+  flatMae: number;
+  p90Coverage: number; // share of consultations that finished within the p90
+  modelDays: number; // test days that had enough history for a model
+}
+
+/**
+ * Walks forward one day at a time: trains on every earlier day, predicts each
+ * consultation of the day, and compares against the flat average.
+ */
+export function backtestConsultationTimeModel(
+  samples: ConsultationSample[],
+  options: { doctorId: string; fallbackMinutes: number; testDays: number; minSamples?: number }
+): ConsultationBacktestResult {
+  const days = Array.from(new Set(samples.map(s => s.date)))
+    .sort((a, b) => dayTime(a) - dayTime(b));
+  const testDays = days.slice(-options.testDays);
+
+  let count = 0;
+  let modelError = 0;
+  let flatError = 0;
+  let covered = 0;
+  let modelDays = 0;
+
+  for (const day of testDays) {
+    const history = samples.filter(s => dayTime(s.date) < dayTime(day));
+    const model = trainConsultationTimeModel(history, { doctorId: options.doctorId, minSamples: options.minSamples });
+    if (model) modelDays++;
+
+    for (const sample of samples.filter(s => s.date === day)) {
+      const prediction = model
+        ? predictConsultationMinutes(model, sample)
+        : { p50: options.fallbackMinutes, p90: options.fallbackMinutes };
+      count++;
+      modelError += Math.abs(prediction.p50 - sample.minutes);
+      flatError += Math.abs(options.fallbackMinutes - sample.minutes);
+      if (sample.minutes <= prediction.p90) covered++;
+    }
+  }
+
+  return {
+    testDays: testDays.length,
+    samples: count,
+    modelMae: count ? modelError / count : 0,
+    flatMae: count ? flatError / count : 0,
+    p90Coverage: count ? covered / count : 0,
+    modelDays,
+  };
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+/**
+ * Completed appointments of the doctor over the last `days` days.
+ */
+export async function fetchConsultationHistory(
+  firestore: Firestore,
+  doctorId: string,
+  days: number = 90
+): Promise<Appointment[]> {
+  const since = subDays(getClinicNow(), days);
+  const snapshot = await getDocs(query(
+    collection(firestore, 'appointments'),
+    where('doctorId', '==', doctorId),
+    where('status', '==', 'Completed')
+  ));
+  return snapshot.docs
+    .map(d => ({ id: d.id, ...d.data() } as Appointment))
+    .filter(apt => {
+      const completedAt = toDate(apt.completedAt);
+      return !!completedAt && completedAt >= since;
+    });
+}
+
+export async function getConsultationTimeModel(
+  firestore: Firestore,
+  doctorId: string
+): Promise<ConsultationTimeModel | null> {
+  try {
+    const snap = await getDoc(doc(firestore, CONSULTATION_TIME_MODELS_COLLECTION, doctorId));
+    return snap.exists() ? (snap.data() as ConsultationTimeModel) : null;
+  } catch (error) {
+    console.error(`[ConsultationModel] Failed to load model for ${doctorId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Patients in `patientIds` who have completed a consultation with the doctor before.
+ */
+export async function getReturningPatientIds(
+  firestore: Firestore,
+  doctorId: string,
+  patientIds: string[]
+): Promise<Set<string>> {
+  const returning = new Set<string>();
+  const unique = Array.from(new Set(patientIds.filter(Boolean)));
+  for (let i = 0; i < unique.length; i += 30) {
+    const snapshot = await getDocs(query(
+      collection(firestore, 'appointments'),
+      where('doctorId', '==', doctorId),
+      where('status', '==', 'Completed'),
+      where('patientId', 'in', unique.slice(i, i + 30))
+    ));
+    snapshot.docs.forEach(d => returning.add(d.data().patientId));
+  }
+  return returning;
+}
+
+/**
+ * Retrains and stores the doctor's model. Returns null (and leaves any previous
+ * model in place) when the history is too short.
+ */
+export async function trainAndSaveConsultationTimeModel(
+  firestore: Firestore,
+  doctorId: string,
+  days: number = 90
+): Promise<ConsultationTimeModel | null> {
+  const history = await fetchConsultationHistory(firestore, doctorId, days);
+  const model = trainConsultationTimeModel(extractConsultationSamples(history), { doctorId });
+  if (!model) {
+    console.log(`[ConsultationModel] Not enough history for ${doctorId} (${history.length} completed)`);
+    return null;
+  }
+  await setDoc(doc(firestore, CONSULTATION_TIME_MODELS_COLLECTION, doctorId), model);
+  return model;
+}
+
+/**
+ * Nightly retrain for every doctor.
+ */
+export async function trainAllConsultationTimeModels(
+  firestore: Firestore
+): Promise<{ trained: number; skipped: number; failed: number }> {
+  const doctorsSnap = await getDocs(collection(firestore, 'doctors'));
+  let trained = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const doctorDoc of doctorsSnap.docs) {
+    const doctor = { id: doctorDoc.id, ...doctorDoc.data() } as Doctor;
+    try {
+      const model = await trainAndSaveConsultationTimeModel(firestore, doctor.id);
+      if (model) trained++;
+      else skipped++;
+    } catch (error) {
+      failed++;
+      console.error(`[ConsultationModel] Failed to train ${doctor.name} (${doctor.id}):`, error);
+    }
+  }
+
+  console.log(`[ConsultationModel] Trained ${trained}, skipped ${skipped}, failed ${failed}`);
+  return { trained, skipped, failed };
+}
@@ -0,0 +1,202 @@
+/**
+ * Day Simulator
+ *
+ * Replays a whole clinic day for one doctor against the pure scheduling engine:
+ * bookings, arrivals, skips, completions, cancellations, breaks and extensions.
+ * The clock only moves when the script says so, ids are generated from a counter,
+ * and no Firestore is involved, so the same script always yields the same day.
+ */
+
+import { addMinutes, differenceInMinutes } from 'date-fns';
+import type { Appointment, CapacityPolicy, Doctor } from '@kloqo/shared-types';
+import {
+  applyScheduleTransitions,
+  buildDaySlots,
+  planAdvanceBooking,
+  planBreakShift,
+  planSessionExtension,
+  planStatusTransitions,
+  planWalkInBooking,
+  planWalkInRebalance,
+  type ScheduleState,
+  type ScheduleTransition,
+} from './scheduling-engine';
+import { parseTime } from '../utils/break-helpers';
+import { getClinicTimeString, parseClinicDate } from '../utils/date-utils';
+
+// ============================================================================
+// SCRIPT FORMAT
+// ============================================================================
+
+type PatientFields = {
+  ref: string;               // alias used by later events to refer to this booking
+  patientName: string;
+  patientId?: string;
+  age?: number;
+  sex?: Appointment['sex'];
+  phone?: string;
+  place?: string;
+};
+
+export type SimulationEvent =
+  | ({ at: string; type: 'book-advance'; preferredSlotIndex?: number } & PatientFields)
+  | ({ at: string; type: 'book-walk-in' } & PatientFields)
+  | { at: string; type: 'arrive' | 'skip' | 'complete' | 'cancel'; ref: string }
+  | { at: string; type: 'doctor-in' | 'doctor-out' }
+  | { at: string; type: 'break'; sessionIndex: number; start: string; end: string }
+  | { at: string; type: 'extend'; sessionIndex: number; newEndTime: string }
+  | { at: string; type: 'tick' };
+
+export interface SimulationScript {
+  date: string;                   // "2026-01-18" or "18 January 2026"
+  doctor: Doctor;
+  walkInTokenAllotment?: number;
+  clinicCapacityPolicy?: CapacityPolicy;
+  appointments?: Appointment[];   // seed appointments, e.g. an export like appointments.json
+  events: SimulationEvent[];
+}
+
+export interface SimulationStep {
+  at: Date;
+  event: SimulationEvent;
+  transitions: ScheduleTransition[];
+  error?: string;
+}
+
+export interface SimulationResult {
+  steps: SimulationStep[];
+  doctor: Doctor;
+  appointments: Appointment[];
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Runs a script to completion. Events must be in chronological order; before
+ * each event the clock advances and time-driven status transitions are applied.
+ * Planner errors (e.g. a fully booked session) are recorded on the step rather
+ * than aborting the day, mirroring a failed booking attempt in the apps.
+ */
+export function simulateClinicDay(script: SimulationScript): SimulationResult {
+  const date = parseClinicDate(script.date);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid simulation date: ${script.date}`);
+  }
+
+  let idCounter = 0;
+  const nextId = (prefix: string) => `${prefix}-${String(++idCounter).padStart(3, '0')}`;
+  const refs = new Map<string, string>();
+  const resolveRef = (ref: string) => refs.get(ref) ?? ref;
+
+  let state: ScheduleState = {
+    doctor: script.doctor,
+    date,
+    slots: buildDaySlots(script.doctor, date),
+    appointments: script.appointments ?? [],
+    walkInTokenAllotment: script.walkInTokenAllotment ?? 0,
+    clinicCapacityPolicy: script.clinicCapacityPolicy ?? null,
+  };
+
+  const steps: SimulationStep[] = [];
+  let lastTick: Date | null = null;
+
+  for (const event of script.events) {
+    const now = parseTime(event.at, date);
+    if (lastTick && now.getTime() < lastTick.getTime()) {
+      throw new Error(`Simulation events must be chronological (${event.at} is before ${getClinicTimeString(lastTick)}).`);
+    }
+    lastTick = now;
+
+    const statusTransitions = planStatusTransitions(state, now);
+    state = applyScheduleTransitions(state, statusTransitions);
+
+    const step: SimulationStep = { at: now, event, transitions: [...statusTransitions] };
+    try {
+      const eventTransitions = planEvent(state, event, now, nextId, resolveRef, refs);
+      state = applyScheduleTransitions(state, eventTransitions);
+      step.transitions.push(...eventTransitions);
+    } catch (error) {
+      step.error = error instanceof Error ? error.message : String(error);
+    }
+    steps.push(step);
+  }
+
+  return { steps, doctor: state.doctor, appointments: state.appointments };
+}
+
+function planEvent(
+  state: ScheduleState,
+  event: SimulationEvent,
+  now: Date,
+  nextId: (prefix: string) => string,
+  resolveRef: (ref: string) => string,
+  refs: Map<string, string>
+): ScheduleTransition[] {
+  switch (event.type) {
+    case 'book-advance':
+    case 'book-walk-in': {
+      const id = nextId(event.type === 'book-advance' ? 'adv' : 'walkin');
+      const request = {
+        id,
+        patientId: event.patientId ?? `patient-${id}`,
+        patientName: event.patientName,
+        age: event.age,
+        sex: event.sex,
+        phone: event.phone,
+        place: event.place,
+        preferredSlotIndex: event.type === 'book-advance' ? event.preferredSlotIndex : undefined,
+      };
+      const plan = event.type === 'book-advance'
+        ? planAdvanceBooking(state, request, now)
+        : planWalkInBooking(state, request, now);
+      refs.set(event.ref, id);
+      return plan.transitions;
+    }
+    case 'arrive':
+      return [updateStatus(state, resolveRef(event.ref), { status: 'Confirmed', confirmedAt: now, updatedAt: now })];
+    case 'skip':
+      return [updateStatus(state, resolveRef(event.ref), { status: 'Skipped', skippedAt: now, updatedAt: now })];
+    case 'complete':
+      return [updateStatus(state, resolveRef(event.ref), { status: 'Completed', completedAt: now, updatedAt: now })];
+    case 'cancel': {
+      const cancelled = updateStatus(state, resolveRef(event.ref), { status: 'Cancelled', updatedAt: now });
+      const afterCancel = applyScheduleTransitions(state, [cancelled]);
+      return [cancelled, ...planWalkInRebalance(afterCancel, now)];
+    }
+    case 'doctor-in':
+    case 'doctor-out':
+      return [{ type: 'doctor', changes: { consultationStatus: event.type === 'doctor-in' ? 'In' : 'Out' } }];
+    case 'break': {
+      const start = parseTime(event.start, state.date);
+      const end = parseTime(event.end, state.date);
+      const slotDuration = state.doctor.averageConsultingTime || 15;
+      const breakSlots: string[] = [];
+      for (let t = start; t.getTime() < end.getTime(); t = addMinutes(t, slotDuration)) {
+        breakSlots.push(t.toISOString());
+      }
+      return planBreakShift(state, {
+        id: `break-${start.getTime()}`,
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+        startTimeFormatted: getClinicTimeString(start),
+        endTimeFormatted: getClinicTimeString(end),
+        duration: differenceInMinutes(end, start),
+        sessionIndex: event.sessionIndex,
+        slots: breakSlots,
+      }, () => nextId('break-block'));
+    }
+    case 'extend':
+      return planSessionExtension(state, event.sessionIndex, event.newEndTime);
+    case 'tick':
+      return [];
+  }
+}
+
+function updateStatus(state: ScheduleState, appointmentId: string, changes: Partial<Appointment>): ScheduleTransition {
+  if (!state.appointments.some(appt => appt.id === appointmentId)) {
+    throw new Error(`Unknown appointment: ${appointmentId}`);
+  }
+  return { type: 'update', appointmentId, changes };
+}
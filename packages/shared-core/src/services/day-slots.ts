@@ -0,0 +1,317 @@
+/**
+ * Day Slots
+ *
+ * Pure slot helpers shared by the scheduling engine and the Firestore booking
+ * services: which slots are taken, which are held back for walk-ins, and where
+ * a new advance or walk-in booking may go.
+ */
+
+import { addMinutes, isAfter, isBefore, subMinutes } from 'date-fns';
+import type { Appointment } from '@kloqo/shared-types';
+import type { SchedulerAssignment } from './walk-in-scheduler';
+import {
+  DEFAULT_ADVANCE_RATIO,
+  calculateWalkInReserve,
+  getSessionAdvanceRatio,
+  type SessionAdvanceRatio,
+} from './capacity-service';
+import { getClinicNow } from '../utils/date-utils';
+
+const ACTIVE_STATUSES = new Set(['Pending', 'Confirmed', 'Skipped', 'Completed']);
+
+export interface DailySlot {
+  index: number;
+  time: Date;
+  sessionIndex: number;
+}
+
+export interface WalkInPreviewShift {
+  id: string;
+  tokenNumber?: string;
+  fromSlot: number;
+  toSlot: number;
+  fromTime?: Date | null;
+  toTime: Date;
+}
+
+export interface WalkInPreviewResult {
+  placeholderAssignment: SchedulerAssignment | null;
+  advanceShifts: WalkInPreviewShift[];
+  walkInAssignments: SchedulerAssignment[];
+}
+
+/**
+ * When a booking in `slotTime` is skipped (cutOffTime) and marked a no-show
+ * (noShowTime): one consultation either side of the slot
+ */
+export function getAttendanceWindow(
+  slotTime: Date,
+  averageConsultingTime?: number
+): { cutOffTime: Date; noShowTime: Date } {
+  const consultingMinutes = averageConsultingTime || 15;
+  return {
+    cutOffTime: subMinutes(slotTime, consultingMinutes),
+    noShowTime: addMinutes(slotTime, consultingMinutes),
+  };
+}
+
+export function buildOccupiedSlotSet(appointments: Appointment[]): Set<number> {
+  const occupied = new Set<number>();
+
+  appointments.forEach(appointment => {
+    const slotIndex = appointment.slotIndex;
+    if (typeof slotIndex === 'number' && ACTIVE_STATUSES.has(appointment.status)) {
+      occupied.add(slotIndex);
+    }
+  });
+
+  return occupied;
+}
+
+export function getSlotTime(slots: DailySlot[], slotIndex: number): Date | null {
+  const slot = slots.find(s => s.index === slotIndex);
+  return slot ? slot.time : null;
+}
+
+/**
+ * Calculate reserved walk-in slots per session (15% of FUTURE slots only in each session by default;
+ * pass the doctor's capacity policy resolver as advanceRatio to honour a per-session split)
+ * This dynamically adjusts as time passes - reserved slots are recalculated based on remaining future slots
+ * Returns a Set of slot indices that are reserved for walk-ins
+ */
+export function calculatePerSessionReservedSlots(
+  slots: DailySlot[],
+  now: Date = getClinicNow(),
+  advanceRatio: SessionAdvanceRatio = DEFAULT_ADVANCE_RATIO,
+  blockedIndices: Set<number> = new Set()
+): Set<number> {
+  const reservedSlots = new Set<number>();
+
+  // Group slots by sessionIndex
+  const slotsBySession = new Map<number, DailySlot[]>();
+  slots.forEach(slot => {
+    const sessionSlots = slotsBySession.get(slot.sessionIndex) || [];
+    sessionSlots.push(slot);
+    slotsBySession.set(slot.sessionIndex, sessionSlots);
+  });
+
+  // For each session, calculate 15% reserve (last 15% of FUTURE slots in that session)
+  slotsBySession.forEach((sessionSlots, sessionIndex) => {
+    // Sort slots by index to ensure correct order
+    sessionSlots.sort((a, b) => a.index - b.index);
+
+    // Filter to only future slots (including current time) AND not blocked by leave/breaks
+    const futureSlots = sessionSlots.filter(slot =>
+      (isAfter(slot.time, now) || slot.time.getTime() >= now.getTime()) &&
+      !blockedIndices.has(slot.index)
+    );
+
+    if (futureSlots.length === 0) {
+      return; // No future slots, no reserved slots
+    }
+
+    const futureSlotCount = futureSlots.length;
+    const minimumWalkInReserve = calculateWalkInReserve(futureSlotCount, getSessionAdvanceRatio(advanceRatio, sessionIndex));
+    const reservedWSlotsStart = futureSlotCount - minimumWalkInReserve;
+
+    // Mark the last 15% (or the policy's walk-in share) of FUTURE slots in this session as reserved
+    for (let i = reservedWSlotsStart; i < futureSlotCount; i++) {
+      reservedSlots.add(futureSlots[i].index);
+    }
+  });
+
+  return reservedSlots;
+}
+
+type CandidateOptions = {
+  appointments?: Appointment[];
+  walkInSpacing?: number;
+  advanceRatio?: SessionAdvanceRatio;
+  blockedIndices?: Set<number>;   // leave/break slots, left out of the walk-in reserve
+  anySessionFallback?: boolean;   // A: try other sessions when the preferred one is full
+};
+
+export function buildCandidateSlots(
+  type: 'A' | 'W',
+  slots: DailySlot[],
+  now: Date,
+  occupied: Set<number>,
+  preferredSlotIndex?: number,
+  options: CandidateOptions = {}
+): number[] {
+  const bookingBuffer = addMinutes(now, 30);
+  const candidates: number[] = [];
+
+  // Calculate reserved walk-in slots per session (15% of FUTURE slots only in each session)
+  const reservedWSlots = calculatePerSessionReservedSlots(slots, now, options.advanceRatio, options.blockedIndices);
+
+  const addCandidate = (slotIndex: number) => {
+    if (
+      slotIndex >= 0 &&
+      slotIndex < slots.length &&
+      !occupied.has(slotIndex) &&
+      !candidates.includes(slotIndex)
+    ) {
+      // CRITICAL: For advance bookings, NEVER allow slots reserved for walk-ins (last 15% of each session)
+      if (type === 'A' && reservedWSlots.has(slotIndex)) {
+        const slot = slots.find(s => s.index === slotIndex);
+        console.log(`[SLOT FILTER] Rejecting slot ${slotIndex} - reserved for walk-ins in session ${slot?.sessionIndex}`);
+        return; // Skip reserved walk-in slots
+      }
+      candidates.push(slotIndex);
+    }
+  };
+
+  if (type === 'A') {
+    if (typeof preferredSlotIndex === 'number') {
+      const slotTime = getSlotTime(slots, preferredSlotIndex);
+      const preferredSlot = slots.find(s => s.index === preferredSlotIndex);
+      const preferredSessionIndex = preferredSlot?.sessionIndex;
+
+      // CRITICAL: Also check if preferred slot is not reserved for walk-ins
+      // This prevents booking cancelled slots that are in the reserved walk-in range (last 15% of session)
+      if (reservedWSlots.has(preferredSlotIndex)) {
+        console.log(`[SLOT FILTER] Rejecting preferred slot ${preferredSlotIndex} - reserved for walk-ins in session ${preferredSessionIndex}`);
+      } else if (slotTime && isAfter(slotTime, bookingBuffer)) {
+        addCandidate(preferredSlotIndex);
+      } else {
+        console.log(`[SLOT FILTER] Rejecting preferred slot ${preferredSlotIndex} - within 1 hour from now`);
+      }
+
+      // CRITICAL: If preferred slot is not available, only look for alternatives within the SAME session
+      // This ensures bookings stay within the same sessionIndex and don't cross session boundaries
+      if (candidates.length === 0 && typeof preferredSessionIndex === 'number') {
+        slots.forEach(slot => {
+          // Only consider slots in the same session as the preferred slot
+          if (
+            slot.sessionIndex === preferredSessionIndex &&
+            isAfter(slot.time, bookingBuffer) &&
+            !reservedWSlots.has(slot.index)
+          ) {
+            addCandidate(slot.index);
+          }
+        });
+      }
+
+      // Direct bookings would rather land in another session than fail
+      if (candidates.length === 0 && options.anySessionFallback) {
+        slots.forEach(slot => {
+          if (isAfter(slot.time, bookingBuffer) && !reservedWSlots.has(slot.index)) {
+            addCandidate(slot.index);
+          }
+        });
+      }
+    } else {
+      // No preferred slot - look across all sessions
+      slots.forEach(slot => {
+        // CRITICAL: Only add slots that are after 1 hour AND not reserved for walk-ins (per session)
+        if (isAfter(slot.time, bookingBuffer) && !reservedWSlots.has(slot.index)) {
+          addCandidate(slot.index);
+        }
+      });
+    }
+  } else {
+    const activeAppointments =
+      options.appointments
+        ?.filter(
+          appointment =>
+            typeof appointment.slotIndex === 'number' && ACTIVE_STATUSES.has(appointment.status),
+        )
+        .sort((a, b) => (a.slotIndex! < b.slotIndex! ? -1 : 1)) ?? [];
+
+    const walkInSpacing =
+      typeof options.walkInSpacing === 'number' && options.walkInSpacing > 0
+        ? options.walkInSpacing
+        : Number.POSITIVE_INFINITY;
+
+    const getATokens = (filterFn?: (appointment: Appointment) => boolean) =>
+      activeAppointments.filter(
+        appointment =>
+          appointment.bookedVia !== 'Walk-in' &&
+          (typeof appointment.slotIndex === 'number') &&
+          (!filterFn || filterFn(appointment)),
+      );
+
+    const getSlotIndexAfterNthA = (afterSlotIndex: number, nth: number): number => {
+      let count = 0;
+      for (const appointment of activeAppointments) {
+        if (appointment.bookedVia === 'Walk-in') continue;
+        const slotIndex = appointment.slotIndex!;
+        if (slotIndex > afterSlotIndex) {
+          count += 1;
+          if (count === nth) {
+            return slotIndex;
+          }
+        }
+      }
+      return -1;
+    };
+
+    slots.forEach(slot => {
+      if (!isBefore(slot.time, now) && !isAfter(slot.time, bookingBuffer)) {
+        addCandidate(slot.index);
+      }
+    });
+
+    if (candidates.length > 0) {
+      return candidates;
+    }
+
+    const availableAfterHour = slots.filter(
+      slot => isAfter(slot.time, bookingBuffer) && !occupied.has(slot.index),
+    );
+
+    if (availableAfterHour.length === 0) {
+      return candidates;
+    }
+
+    if (walkInSpacing === Number.POSITIVE_INFINITY || activeAppointments.length === 0) {
+      availableAfterHour.forEach(slot => addCandidate(slot.index));
+      return candidates;
+    }
+
+    const walkInAppointments = activeAppointments.filter(appointment => appointment.bookedVia === 'Walk-in');
+    const lastWalkInSlotIndex =
+      walkInAppointments.length > 0
+        ? Math.max(...walkInAppointments.map(appointment => appointment.slotIndex!))
+        : null;
+
+    let minSlotIndex = -1;
+
+    if (lastWalkInSlotIndex === null) {
+      const aTokens = getATokens();
+      if (aTokens.length > walkInSpacing) {
+        const slotAfterNth = getSlotIndexAfterNthA(-1, walkInSpacing);
+        minSlotIndex =
+          slotAfterNth >= 0 ? slotAfterNth : aTokens[aTokens.length - 1]?.slotIndex ?? -1;
+      } else {
+        minSlotIndex = aTokens[aTokens.length - 1]?.slotIndex ?? -1;
+      }
+    } else {
+      const aTokensAfterLastWalkIn = getATokens(appointment => appointment.slotIndex! > lastWalkInSlotIndex);
+      if (aTokensAfterLastWalkIn.length > walkInSpacing) {
+        const slotAfterNth = getSlotIndexAfterNthA(lastWalkInSlotIndex, walkInSpacing);
+        if (slotAfterNth >= 0) {
+          minSlotIndex = slotAfterNth;
+        } else {
+          const allATokens = getATokens();
+          minSlotIndex = allATokens[allATokens.length - 1]?.slotIndex ?? lastWalkInSlotIndex;
+        }
+      } else {
+        const allATokens = getATokens();
+        const lastASlotIndex = allATokens[allATokens.length - 1]?.slotIndex ?? lastWalkInSlotIndex;
+        minSlotIndex = Math.max(lastWalkInSlotIndex, lastASlotIndex);
+      }
+    }
+
+    const filteredAfterHour = availableAfterHour.filter(slot => slot.index > minSlotIndex);
+
+    if (filteredAfterHour.length === 0) {
+      availableAfterHour.forEach(slot => addCandidate(slot.index));
+    } else {
+      filteredAfterHour.forEach(slot => addCandidate(slot.index));
+    }
+  }
+
+  return candidates;
+}
@@ -0,0 +1,66 @@
+/**
+ * Document Storage Adapter
+ *
+ * Patient documents are private files, so they are read and written through
+ * this interface instead of public download URLs. The Firebase Storage
+ * implementation is used by the API routes; LocalDocumentStorage (in
+ * local-document-storage.ts, server-only) keeps files on disk for tests and
+ * local development.
+ */
+
+export interface DocumentStorage {
+    readonly name: string;
+    put(path: string, data: Uint8Array, contentType: string): Promise<void>;
+    /** Returns null when nothing is stored at the path */
+    get(path: string): Promise<Uint8Array | null>;
+    remove(path: string): Promise<void>;
+}
+
+// The part of a firebase-admin Storage bucket we use, so shared-core does not depend on firebase-admin
+export interface StorageBucketLike {
+    name: string;
+    file(path: string): {
+        save(data: Buffer, options?: { contentType?: string; resumable?: boolean }): Promise<unknown>;
+        exists(): Promise<[boolean]>;
+        download(): Promise<[Buffer]>;
+        delete(options?: { ignoreNotFound?: boolean }): Promise<unknown>;
+    };
+}
+
+export class FirebaseStorageDocumentStorage implements DocumentStorage {
+    readonly name = 'firebase-storage';
+
+    constructor(private readonly bucket: StorageBucketLike) { }
+
+    async put(path: string, data: Uint8Array, contentType: string): Promise<void> {
+        await this.bucket.file(path).save(Buffer.from(data), { contentType, resumable: false });
+    }
+
+    async get(path: string): Promise<Uint8Array | null> {
+        const file = this.bucket.file(path);
+        const [exists] = await file.exists();
+        if (!exists) return null;
+        const [contents] = await file.download();
+        return new Uint8Array(contents);
+    }
+
+    async remove(path: string): Promise<void> {
+        await this.bucket.file(path).delete({ ignoreNotFound: true });
+    }
+}
+
+let activeStorage: DocumentStorage | null = null;
+
+/**
+ * Installs the storage used for patient documents
+ */
+export function setDocumentStorage(storage: DocumentStorage | null): void {
+    activeStorage = storage;
+}
+
+export function getDocumentStorage(): DocumentStorage {
+    if (!activeStorage) {
+        throw new Error('No document storage is configured.');
+    }
+    return activeStorage;
+}
@@ -0,0 +1,171 @@
+/**
+ * Kiosk Service
+ *
+ * Self check-in at a reception tablet. A patient either scans the check-in QR
+ * from their live token page or types their phone number, and their Pending
+ * appointment for today becomes Confirmed - the same change staff make with
+ * "Add to queue", including the classic token number. Walk-ins book through
+ * completeStaffWalkInBooking with the kiosk as the staff member.
+ *
+ * Kiosk tablets are `users` docs with staffRole 'kiosk'. The owner pairs one by
+ * creating it in clinic-admin, which stores a short-lived code under
+ * `kiosk-pairings`; the tablet exchanges the code for a custom token.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  type Firestore,
+} from 'firebase/firestore';
+import type { Appointment, AppointmentEventActor } from '@kloqo/shared-types';
+import { applyAppointmentMutation } from './appointment-event-service';
+import {
+  commitNextClassicTokenNumber,
+  getClassicTokenCounterId,
+  prepareNextClassicTokenNumber,
+} from './appointment-service';
+import { getClinicDateString, getClinicNow, getClinicTimeContext } from '../utils/date-utils';
+
+export const KIOSK_PAIRINGS_COLLECTION = 'kiosk-pairings';
+export const KIOSK_PAIRING_TTL_MS = 15 * 60 * 1000;
+
+const CHECK_IN_CODE_PREFIX = 'kloqo:checkin:';
+
+export interface KioskCheckInResult {
+  appointment: Appointment;
+  alreadyCheckedIn: boolean;
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * The text in a patient's check-in QR
+ */
+export function buildCheckInCode(appointmentId: string): string {
+  return `${CHECK_IN_CODE_PREFIX}${appointmentId}`;
+}
+
+/**
+ * The appointment id in a scanned QR, or null if it is not one of ours. Live
+ * token links (as sent on WhatsApp) are accepted too.
+ */
+export function parseCheckInCode(text: string): string | null {
+  const value = text.trim();
+  if (value.startsWith(CHECK_IN_CODE_PREFIX)) {
+    const id = value.slice(CHECK_IN_CODE_PREFIX.length);
+    return /^[A-Za-z0-9_-]+$/.test(id) ? id : null;
+  }
+  const match = value.match(/\/live-token\/([A-Za-z0-9_-]+)/);
+  return match ? match[1] : null;
+}
+
+export function generateKioskPairingCode(random: () => number = Math.random): string {
+  return Math.floor(random() * 1_000_000).toString().padStart(6, '0');
+}
+
+/**
+ * Why the kiosk cannot check this appointment in, or null if it can. Skipped
+ * and no-show patients rejoin the queue at a new time, which reception decides.
+ */
+export function getKioskCheckInError(appointment: Appointment, clinicId: string, today: string): string | null {
+  if (appointment.clinicId !== clinicId) return 'This token is for a different clinic.';
+  if (appointment.date !== today) return `This token is for ${appointment.date}, not today.`;
+  switch (appointment.status) {
+    case 'Pending':
+    case 'Confirmed':
+      return null;
+    case 'Skipped':
+    case 'No-show':
+      return 'Your turn was missed. Please see the reception desk.';
+    case 'Completed':
+      return 'This consultation is already complete.';
+    default:
+      return 'This appointment was cancelled. Please see the reception desk.';
+  }
+}
+
+/**
+ * Today's appointments booked with this phone number, as the kiosk lists them
+ * for a patient who has no QR.
+ */
+export function matchAppointmentsByPhone(appointments: Appointment[], phone: string): Appointment[] {
+  const digits = phone.replace(/\D/g, '').slice(-10);
+  if (digits.length !== 10) return [];
+  return appointments.filter(appointment =>
+    (appointment.communicationPhone || '').replace(/\D/g, '').slice(-10) === digits &&
+    (appointment.status === 'Pending' || appointment.status === 'Confirmed')
+  );
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+export async function findKioskAppointmentsByPhone(firestore: Firestore, clinicId: string, phone: string): Promise<Appointment[]> {
+  const snapshot = await getDocs(query(
+    collection(firestore, 'appointments'),
+    where('clinicId', '==', clinicId),
+    where('date', '==', getClinicDateString(getClinicNow()))
+  ));
+  return matchAppointmentsByPhone(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Appointment)), phone);
+}
+
+/**
+ * Marks the patient arrived. Checking in twice is harmless: the second scan
+ * returns the appointment as it is.
+ */
+export async function kioskCheckIn(
+  firestore: Firestore,
+  appointmentId: string,
+  context: { clinicId: string; actor: AppointmentEventActor }
+): Promise<KioskCheckInResult> {
+  const clinicSnap = await getDoc(doc(firestore, 'clinics', context.clinicId));
+  const isClassic = clinicSnap.data()?.tokenDistribution === 'classic';
+  const today = getClinicDateString(getClinicNow(), getClinicTimeContext(clinicSnap.data()));
+  const appointmentRef = doc(firestore, 'appointments', appointmentId);
+
+  const result = await runTransaction(firestore, async (transaction) => {
+    const snap = await transaction.get(appointmentRef);
+    if (!snap.exists()) throw new Error('Token not found. Please see the reception desk.');
+    const appointment = { id: snap.id, ...snap.data() } as Appointment;
+
+    const error = getKioskCheckInError(appointment, context.clinicId, today);
+    if (error) throw new Error(error);
+    if (appointment.status === 'Confirmed') return { appointment, alreadyCheckedIn: true };
+
+    const updates: Record<string, any> = { status: 'Confirmed', updatedAt: serverTimestamp() };
+    if (isClassic) {
+      updates.confirmedAt = serverTimestamp();
+      if (!appointment.classicTokenNumber) {
+        const counterRef = doc(firestore, 'token-counters', getClassicTokenCounterId(
+          context.clinicId, appointment.doctor, appointment.date, appointment.sessionIndex || 0
+        ));
+        const counterState = await prepareNextClassicTokenNumber(transaction, counterRef);
+        updates.classicTokenNumber = counterState.nextNumber.toString().padStart(3, '0');
+        commitNextClassicTokenNumber(transaction, counterRef, counterState);
+      }
+    }
+
+    applyAppointmentMutation(transaction, firestore, appointment, updates, {
+      action: 'checked_in',
+      actor: context.actor,
+      source: 'kiosk',
+    });
+
+    return {
+      appointment: { ...appointment, status: 'Confirmed', ...(updates.classicTokenNumber ? { classicTokenNumber: updates.classicTokenNumber } : {}) },
+      alreadyCheckedIn: false,
+    };
+  });
+
+  console.log(`[Kiosk] Appointment ${appointmentId} ${result.alreadyCheckedIn ? 'was already checked in' : 'checked in'}`);
+  return result as KioskCheckInResult;
+}
@@ -0,0 +1,544 @@
+/**
+ * Leave Service
+ *
+ * DoctorLeave records with a date range, sessions, reason and approver.
+ * A leave is mirrored into doctor.breakPeriods as 'LEAVE' breaks so slot blocking
+ * (isSlotBlockedByLeave / getLeaveBlockedIndices) keeps working unchanged, and every
+ * affected appointment gets a rebook proposal for the doctor's next free slot.
+ */
+
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  deleteDoc,
+  updateDoc,
+  where,
+  writeBatch,
+  type Firestore,
+} from 'firebase/firestore';
+import { addDays, addMinutes, isBefore } from 'date-fns';
+import type { Appointment, BreakPeriod, Clinic, Doctor, DoctorLeave, LeaveRebookProposal } from '@kloqo/shared-types';
+import { createSessionRatioResolver, type SessionAdvanceRatio } from './capacity-service';
+import { buildDaySlots } from './scheduling-engine';
+import { buildCandidateSlots, buildOccupiedSlotSet, getAttendanceWindow, type DailySlot } from './day-slots';
+import { generateNextTokenAndReserveSlot, getLeaveBlockedIndices } from './appointment-service';
+import { applyAppointmentMutation, type AppointmentMutationContext } from './appointment-event-service';
+import { sendAppointmentCancelledNotification } from './notification-service';
+import { parseTime } from '../utils/break-helpers';
+import { getClinicDateString, getClinicDayOfWeek, getClinicISOString, getClinicNow, getClinicTimeContext, getClinicTimeString, parseClinicDate, type ClinicTimeContext } from '../utils/date-utils';
+import { getDateKeyedEntry } from '../utils/date-keys';
+import { buildReservationDocId } from '../utils/reservation-utils';
+
+/** How many days after the leave ends we look for replacement slots */
+export const LEAVE_REBOOK_SEARCH_DAYS = 14;
+
+export type DoctorLeaveInput = Pick<
+  DoctorLeave,
+  'clinicId' | 'doctorId' | 'startDate' | 'endDate' | 'sessionIndices' | 'reason' | 'approvedBy' | 'approvedByName'
+>;
+
+export interface LeaveRebookDay {
+  date: Date;
+  slots: DailySlot[];
+  appointments: Appointment[];
+  blockedIndices?: number[];
+  advanceRatio?: SessionAdvanceRatio;
+}
+
+export interface LeaveRebookPlacement {
+  appointmentId: string;
+  date: string;
+  time: string;
+  slotIndex: number;
+  sessionIndex: number;
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * Every clinic day covered by the leave, start and end inclusive
+ */
+export function getLeaveDates(leave: Pick<DoctorLeave, 'startDate' | 'endDate'>, timeContext?: ClinicTimeContext): Date[] {
+  const start = parseClinicDate(leave.startDate, timeContext);
+  const end = parseClinicDate(leave.endDate, timeContext);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new Error('Invalid leave dates.');
+  }
+
+  const dates: Date[] = [];
+  for (let date = start; !isBefore(end, date); date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Builds the 'LEAVE' break periods mirroring a leave, keyed by "d MMMM yyyy".
+ * Only the doctor's working sessions are covered; days off are skipped.
+ */
+export function buildLeaveBreakPeriods(
+  doctor: Pick<Doctor, 'availabilitySlots' | 'averageConsultingTime'>,
+  leave: Pick<DoctorLeave, 'id' | 'startDate' | 'endDate' | 'sessionIndices'>,
+  timeContext?: ClinicTimeContext
+): Record<string, BreakPeriod[]> {
+  const slotDuration = doctor.averageConsultingTime || 15;
+  const breaksByDate: Record<string, BreakPeriod[]> = {};
+
+  for (const date of getLeaveDates(leave, timeContext)) {
+    const availabilityForDay = doctor.availabilitySlots?.find(slot => slot.day === getClinicDayOfWeek(date, timeContext));
+    const breaks: BreakPeriod[] = [];
+
+    availabilityForDay?.timeSlots?.forEach((session, sessionIndex) => {
+      if (leave.sessionIndices && !leave.sessionIndices.includes(sessionIndex)) return;
+
+      const start = parseTime(session.from, date, timeContext);
+      const end = parseTime(session.to, date, timeContext);
+      const slots: string[] = [];
+      for (let t = start; isBefore(t, end); t = addMinutes(t, slotDuration)) {
+        slots.push(t.toISOString());
+      }
+
+      breaks.push({
+        id: `${leave.id}-${sessionIndex}`,
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+        startTimeFormatted: getClinicTimeString(start, timeContext),
+        endTimeFormatted: getClinicTimeString(end, timeContext),
+        duration: Math.round((end.getTime() - start.getTime()) / 60000),
+        sessionIndex,
+        slots,
+        type: 'LEAVE',
+        leaveId: leave.id,
+        dateKey: getClinicISOString(date, timeContext),
+      });
+    });
+
+    if (breaks.length > 0) {
+      breaksByDate[getClinicDateString(date, timeContext)] = breaks;
+    }
+  }
+
+  return breaksByDate;
+}
+
+/**
+ * True when a pending appointment falls inside one of the leave's breaks
+ */
+export function isAppointmentOnLeave(
+  appointment: Appointment,
+  leaveBreaks: Record<string, BreakPeriod[]>,
+  timeContext?: ClinicTimeContext
+): boolean {
+  if (appointment.status !== 'Pending') return false;
+  const breaks = leaveBreaks[appointment.date];
+  if (!breaks?.length) return false;
+
+  const appointmentTime = parseTime(appointment.time, parseClinicDate(appointment.date, timeContext), timeContext);
+  return breaks.some(breakPeriod =>
+    appointmentTime.getTime() >= new Date(breakPeriod.startTime).getTime() &&
+    appointmentTime.getTime() < new Date(breakPeriod.endTime).getTime()
+  );
+}
+
+/**
+ * Proposes a replacement slot for each affected appointment.
+ *
+ * Patients keep their queue order: earlier appointments get earlier slots.
+ * Each day is searched with the advance booking rules (30 minute buffer,
+ * walk-in reserve, leave/break blocked slots) and a slot is never proposed twice.
+ * Appointments without a free slot in the given days are left out.
+ */
+export function planLeaveRebooking(
+  affected: Appointment[],
+  days: LeaveRebookDay[],
+  now: Date,
+  timeContext?: ClinicTimeContext
+): LeaveRebookPlacement[] {
+  const orderedDays = [...days].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const proposedByDay = orderedDays.map(() => new Set<number>());
+  const ordered = [...affected].sort((a, b) => {
+    const byDate = parseClinicDate(a.date, timeContext).getTime() - parseClinicDate(b.date, timeContext).getTime();
+    return byDate !== 0 ? byDate : (a.slotIndex ?? 0) - (b.slotIndex ?? 0);
+  });
+
+  const placements: LeaveRebookPlacement[] = [];
+  for (const appointment of ordered) {
+    for (let dayIndex = 0; dayIndex < orderedDays.length; dayIndex++) {
+      const day = orderedDays[dayIndex];
+      const occupied = buildOccupiedSlotSet(day.appointments);
+      day.blockedIndices?.forEach(index => occupied.add(index));
+      proposedByDay[dayIndex].forEach(index => occupied.add(index));
+
+      const candidates = buildCandidateSlots('A', day.slots, now, occupied, undefined, {
+        advanceRatio: day.advanceRatio,
+      });
+      if (candidates.length === 0) continue;
+
+      const slot = day.slots.find(s => s.index === candidates[0])!;
+      proposedByDay[dayIndex].add(slot.index);
+      placements.push({
+        appointmentId: appointment.id,
+        date: getClinicDateString(day.date, timeContext),
+        time: getClinicTimeString(slot.time, timeContext),
+        slotIndex: slot.index,
+        sessionIndex: slot.sessionIndex,
+      });
+      break;
+    }
+  }
+
+  return placements;
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+async function fetchDoctorAppointments(firestore: Firestore, doctor: Doctor, date: string): Promise<Appointment[]> {
+  const snapshot = await getDocs(query(
+    collection(firestore, 'appointments'),
+    where('clinicId', '==', doctor.clinicId),
+    where('doctor', '==', doctor.name),
+    where('date', '==', date)
+  ));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Appointment));
+}
+
+/**
+ * Records an approved leave, blocks its sessions, cancels the pending
+ * appointments inside it and offers each patient a one-tap rebook link.
+ */
+export async function createDoctorLeave(
+  firestore: Firestore,
+  input: DoctorLeaveInput,
+  eventContext: Pick<AppointmentMutationContext, 'actor' | 'source'>
+): Promise<{ leave: DoctorLeave; cancelledAppointmentIds: string[]; proposals: LeaveRebookProposal[] }> {
+  if (!input.reason?.trim()) {
+    throw new Error('A reason is required for leave.');
+  }
+  if (!input.approvedBy) {
+    throw new Error('Leave must record who approved it.');
+  }
+
+  const clinicSnap = await getDoc(doc(firestore, 'clinics', input.clinicId));
+  const clinic = clinicSnap.exists() ? (clinicSnap.data() as Clinic) : null;
+  const timeContext = getClinicTimeContext(clinic);
+
+  if (isBefore(parseClinicDate(input.endDate, timeContext), parseClinicDate(input.startDate, timeContext))) {
+    throw new Error('Leave end date must not be before the start date.');
+  }
+
+  const doctorSnap = await getDoc(doc(firestore, 'doctors', input.doctorId));
+  if (!doctorSnap.exists()) {
+    throw new Error('Doctor not found.');
+  }
+  const doctor = { id: doctorSnap.id, ...doctorSnap.data() } as Doctor;
+
+  const leaveRef = doc(collection(firestore, 'doctor-leaves'));
+  const leave: DoctorLeave = {
+    ...input,
+    id: leaveRef.id,
+    reason: input.reason.trim(),
+    doctorName: doctor.name,
+    status: 'Approved',
+  };
+
+  const leaveBreaks = buildLeaveBreakPeriods(doctor, leave, timeContext);
+  if (Object.keys(leaveBreaks).length === 0) {
+    throw new Error('Doctor has no sessions during the selected leave.');
+  }
+
+  const updatedBreakPeriods = { ...(doctor.breakPeriods || {}) };
+  Object.entries(leaveBreaks).forEach(([dateKey, breaks]) => {
+    updatedBreakPeriods[dateKey] = [...(updatedBreakPeriods[dateKey] || []), ...breaks];
+  });
+  const doctorOnLeave: Doctor = { ...doctor, breakPeriods: updatedBreakPeriods };
+
+  const affected: Appointment[] = [];
+  for (const dateKey of Object.keys(leaveBreaks)) {
+    const dayAppointments = await fetchDoctorAppointments(firestore, doctor, dateKey);
+    affected.push(...dayAppointments.filter(appt => isAppointmentOnLeave(appt, leaveBreaks, timeContext)));
+  }
+
+  // Search forward from the first leave day until everyone has a proposal
+  const now = getClinicNow();
+  const days: LeaveRebookDay[] = [];
+  let placements: LeaveRebookPlacement[] = [];
+  if (affected.length > 0) {
+    const searchEnd = addDays(parseClinicDate(leave.endDate, timeContext), LEAVE_REBOOK_SEARCH_DAYS);
+    for (let date = parseClinicDate(leave.startDate, timeContext); !isBefore(searchEnd, date); date = addDays(date, 1)) {
+      const slots = buildDaySlots(doctorOnLeave, date, timeContext);
+      if (slots.length === 0) continue;
+
+      days.push({
+        date,
+        slots,
+        appointments: await fetchDoctorAppointments(firestore, doctor, getClinicDateString(date, timeContext)),
+        blockedIndices: getLeaveBlockedIndices(doctorOnLeave, slots, date, timeContext),
+        advanceRatio: createSessionRatioResolver(doctor, date, clinic?.capacityPolicy, timeContext),
+      });
+      placements = planLeaveRebooking(affected, days, now, timeContext);
+      if (placements.length === affected.length) break;
+    }
+  }
+
+  const batch = writeBatch(firestore);
+  const leaveData = Object.fromEntries(Object.entries(leave).filter(([_, v]) => v !== undefined));
+  batch.set(leaveRef, { ...leaveData, approvedAt: serverTimestamp(), createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+  Object.keys(leaveBreaks).forEach(dateKey => {
+    batch.update(doc(firestore, 'doctors', doctor.id), { [`breakPeriods.${dateKey}`]: updatedBreakPeriods[dateKey] });
+  });
+
+  affected.forEach(appt => {
+    applyAppointmentMutation(batch, firestore, appt, {
+      status: 'Cancelled',
+      cancellationReason: 'DOCTOR_LEAVE',
+      leaveId: leave.id,
+      updatedAt: serverTimestamp(),
+    }, { ...eventContext, action: 'cancelled', reason: 'DOCTOR_LEAVE' });
+    if (typeof appt.slotIndex === 'number') {
+      batch.delete(doc(firestore, 'slot-reservations', buildReservationDocId(input.clinicId, doctor.name, appt.date, appt.slotIndex)));
+    }
+  });
+
+  const proposals: LeaveRebookProposal[] = placements.map(placement => {
+    const appt = affected.find(a => a.id === placement.appointmentId)!;
+    const proposalRef = doc(collection(firestore, 'leave-rebook-proposals'));
+    const proposal: LeaveRebookProposal = {
+      id: proposalRef.id,
+      leaveId: leave.id,
+      clinicId: input.clinicId,
+      appointmentId: appt.id,
+      patientId: appt.patientId,
+      doctorId: doctor.id,
+      doctorName: doctor.name,
+      originalDate: appt.date,
+      originalTime: appt.time,
+      proposedDate: placement.date,
+      proposedTime: placement.time,
+      proposedSlotIndex: placement.slotIndex,
+      proposedSessionIndex: placement.sessionIndex,
+      status: 'Proposed',
+    };
+    batch.set(proposalRef, { ...proposal, createdAt: serverTimestamp() });
+    return proposal;
+  });
+
+  await batch.commit();
+  console.log(`[Leave] Leave ${leave.id} for Dr. ${doctor.name}: ${affected.length} cancelled, ${proposals.length} rebook proposals`);
+
+  for (const appt of affected) {
+    try {
+      await sendAppointmentCancelledNotification({
+        firestore,
+        patientId: appt.patientId,
+        appointmentId: appt.id,
+        doctorName: doctor.name,
+        clinicName: clinic?.name || 'The clinic',
+        date: appt.date,
+        time: appt.time,
+        arriveByTime: appt.arriveByTime,
+        cancelledBy: 'clinic',
+        communicationPhone: appt.communicationPhone,
+        patientName: appt.patientName,
+        rebookProposalId: proposals.find(p => p.appointmentId === appt.id)?.id,
+        clinicId: input.clinicId,
+      });
+    } catch (error) {
+      console.error(`[Leave] Failed to notify patient for appointment ${appt.id}:`, error);
+    }
+  }
+
+  return { leave, cancelledAppointmentIds: affected.map(appt => appt.id), proposals };
+}
+
+/**
+ * Cancels a leave: unblocks its sessions, restores appointments that were not
+ * rebooked and expires any open rebook proposals.
+ */
+export async function cancelDoctorLeave(
+  firestore: Firestore,
+  leaveId: string,
+  eventContext: Pick<AppointmentMutationContext, 'actor' | 'source'>
+): Promise<void> {
+  const leaveRef = doc(firestore, 'doctor-leaves', leaveId);
+  const leaveSnap = await getDoc(leaveRef);
+  if (!leaveSnap.exists()) {
+    throw new Error('Leave not found.');
+  }
+  const leave = { id: leaveSnap.id, ...leaveSnap.data() } as DoctorLeave;
+  if (leave.status === 'Cancelled') return;
+
+  const doctorSnap = await getDoc(doc(firestore, 'doctors', leave.doctorId));
+  const doctor = doctorSnap.exists() ? ({ id: doctorSnap.id, ...doctorSnap.data() } as Doctor) : null;
+
+  const [appointmentsSnap, proposalsSnap] = await Promise.all([
+    getDocs(query(collection(firestore, 'appointments'), where('leaveId', '==', leaveId))),
+    getDocs(query(collection(firestore, 'leave-rebook-proposals'), where('leaveId', '==', leaveId))),
+  ]);
+  const proposals = proposalsSnap.docs.map(d => ({ id: d.id, ...d.data() } as LeaveRebookProposal));
+  const rebooked = new Set(proposals.filter(p => p.status === 'Accepted').map(p => p.appointmentId));
+
+  const batch = writeBatch(firestore);
+
+  if (doctor?.breakPeriods) {
+    const clinicSnap = await getDoc(doc(firestore, 'clinics', leave.clinicId));
+    const timeContext = getClinicTimeContext(clinicSnap.exists() ? (clinicSnap.data() as Clinic) : null);
+    getLeaveDates(leave, timeContext).forEach(date => {
+      const dateKey = getClinicDateString(date, timeContext);
+      const breaks = getDateKeyedEntry(doctor.breakPeriods, dateKey);
+      if (breaks?.some(bp => bp.leaveId === leaveId)) {
+        batch.update(doc(firestore, 'doctors', doctor.id), {
+          [`breakPeriods.${dateKey}`]: breaks.filter(bp => bp.leaveId !== leaveId),
+        });
+      }
+    });
+  }
+
+  appointmentsSnap.docs.forEach(apptDoc => {
+    const appt = { id: apptDoc.id, ...apptDoc.data() } as Appointment;
+    if (appt.status === 'Cancelled' && !rebooked.has(apptDoc.id)) {
+      applyAppointmentMutation(batch, firestore, appt, {
+        status: 'Pending',
+        cancellationReason: deleteField(),
+        updatedAt: serverTimestamp(),
+      }, { ...eventContext, action: 'updated', reason: 'Leave cancelled' });
+    }
+  });
+
+  proposals.filter(p => p.status === 'Proposed').forEach(p => {
+    batch.update(doc(firestore, 'leave-rebook-proposals', p.id), { status: 'Expired', respondedAt: serverTimestamp() });
+  });
+
+  batch.update(leaveRef, { status: 'Cancelled', cancelledAt: serverTimestamp(), updatedAt: serverTimestamp() });
+  await batch.commit();
+}
+
+async function getOpenProposal(firestore: Firestore, proposalId: string): Promise<LeaveRebookProposal> {
+  const proposalSnap = await getDoc(doc(firestore, 'leave-rebook-proposals', proposalId));
+  if (!proposalSnap.exists()) {
+    throw new Error('Rebook offer not found.');
+  }
+  const proposal = { id: proposalSnap.id, ...proposalSnap.data() } as LeaveRebookProposal;
+  if (proposal.status !== 'Proposed') {
+    throw new Error('This rebook offer is no longer available.');
+  }
+  return proposal;
+}
+
+/**
+ * One-tap rebook: books the proposed slot (or the next free one in the same
+ * session if it was taken meanwhile) as a rescheduled copy of the cancelled appointment.
+ * Returns the new appointment.
+ */
+export async function acceptLeaveRebookProposal(
+  firestore: Firestore,
+  proposalId: string,
+  eventContext: Pick<AppointmentMutationContext, 'actor' | 'source'>
+): Promise<Appointment> {
+  const proposal = await getOpenProposal(firestore, proposalId);
+
+  const originalSnap = await getDoc(doc(firestore, 'appointments', proposal.appointmentId));
+  if (!originalSnap.exists()) {
+    throw new Error('Original appointment not found.');
+  }
+  const original = { id: originalSnap.id, ...originalSnap.data() } as Appointment;
+
+  const clinicSnap = await getDoc(doc(firestore, 'clinics', proposal.clinicId));
+  const timeContext = getClinicTimeContext(clinicSnap.exists() ? (clinicSnap.data() as Clinic) : null);
+
+  const proposedDate = parseClinicDate(proposal.proposedDate, timeContext);
+  const tokenData = await generateNextTokenAndReserveSlot(
+    firestore,
+    proposal.clinicId,
+    proposal.doctorName,
+    parseTime(proposal.proposedTime, proposedDate, timeContext),
+    'A',
+    {
+      time: proposal.proposedTime,
+      slotIndex: proposal.proposedSlotIndex,
+      doctorId: proposal.doctorId,
+    },
+    timeContext
+  );
+
+  const doctorSnap = await getDoc(doc(firestore, 'doctors', proposal.doctorId));
+  const newAppointmentRef = doc(collection(firestore, 'appointments'));
+  const slotTime = parseTime(tokenData.time, proposedDate, timeContext);
+  // The copy starts fresh: nothing from the cancellation or the old visit carries over
+  const { cancellationReason, leaveId, completedAt, skippedAt, reviewed, reviewId, ...carried } = original;
+  const appointment: Appointment = {
+    ...carried,
+    id: newAppointmentRef.id,
+    date: proposal.proposedDate,
+    time: tokenData.time,
+    dateKey: getClinicISOString(proposedDate, timeContext),
+    slotAt: slotTime,
+    arriveByTime: tokenData.arriveByTime,
+    slotIndex: tokenData.slotIndex,
+    sessionIndex: tokenData.sessionIndex,
+    tokenNumber: tokenData.tokenNumber,
+    numericToken: tokenData.numericToken,
+    status: 'Pending',
+    isRescheduled: true,
+    ...getAttendanceWindow(slotTime, (doctorSnap.data() as Doctor | undefined)?.averageConsultingTime),
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  };
+
+  try {
+    await runTransaction(firestore, async transaction => {
+      const proposalRef = doc(firestore, 'leave-rebook-proposals', proposal.id);
+      const proposalDoc = await transaction.get(proposalRef);
+      if (proposalDoc.data()?.status !== 'Proposed') {
+        throw new Error('This rebook offer is no longer available.');
+      }
+
+      const reservationRef = doc(firestore, 'slot-reservations', tokenData.reservationId);
+      const reservationDoc = await transaction.get(reservationRef);
+      if (reservationDoc.exists()) {
+        transaction.update(reservationRef, {
+          status: 'booked',
+          appointmentId: newAppointmentRef.id,
+          bookedAt: serverTimestamp(),
+        });
+      }
+
+      transaction.set(newAppointmentRef, appointment);
+      applyAppointmentMutation(transaction, firestore, original, {
+        isRescheduled: true,
+        updatedAt: serverTimestamp(),
+      }, { ...eventContext, action: 'updated', reason: 'Rebooked after leave' });
+      transaction.update(proposalRef, {
+        status: 'Accepted',
+        rebookedAppointmentId: newAppointmentRef.id,
+        respondedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('[Leave] Error accepting rebook proposal:', error);
+    await deleteDoc(doc(firestore, 'slot-reservations', tokenData.reservationId)).catch(() => undefined);
+    throw error;
+  }
+
+  return appointment;
+}
+
+/**
+ * Patient turned the offer down (e.g. to pick another time themselves)
+ */
+export async function declineLeaveRebookProposal(firestore: Firestore, proposalId: string): Promise<void> {
+  const proposal = await getOpenProposal(firestore, proposalId);
+  await updateDoc(doc(firestore, 'leave-rebook-proposals', proposal.id), {
+    status: 'Declined',
+    respondedAt: serverTimestamp(),
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * Local filesystem stand-in for DocumentStorage. Server-only (uses node:fs),
+ * so it is not exported from the package index; import it directly.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve, sep } from 'node:path';
+import type { DocumentStorage } from './document-storage';
+
+export class LocalDocumentStorage implements DocumentStorage {
+    readonly name = 'local';
+    private readonly root: string;
+
+    constructor(rootDir: string) {
+        this.root = resolve(rootDir);
+    }
+
+    // Storage paths come from buildPatientDocumentPath, but never let one climb out of the root
+    private resolvePath(path: string): string {
+        const fullPath = resolve(join(this.root, path));
+        if (!fullPath.startsWith(this.root + sep)) {
+            throw new Error(`Invalid storage path: ${path}`);
+        }
+        return fullPath;
+    }
+
+    async put(path: string, data: Uint8Array): Promise<void> {
+        const fullPath = this.resolvePath(path);
+        await mkdir(dirname(fullPath), { recursive: true });
+        await writeFile(fullPath, data);
+    }
+
+    async get(path: string): Promise<Uint8Array | null> {
+        try {
+            return new Uint8Array(await readFile(this.resolvePath(path)));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async remove(path: string): Promise<void> {
+        await rm(this.resolvePath(path), { force: true });
+    }
+}
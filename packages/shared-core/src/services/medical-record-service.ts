@@ -0,0 +1,266 @@
+/**
+ * Medical Record Service
+ *
+ * A patient's history in one place: completed visits, prescriptions and the
+ * documents in their vault (lab reports, scans, discharge summaries). Patients
+ * see everything; clinic staff see their own clinic's visits and prescriptions
+ * plus the documents the patient has shared with that clinic.
+ *
+ * Document metadata lives in Firestore; the files themselves go through a
+ * DocumentStorage and are only served by the document API routes after the
+ * consent check in canViewPatientDocument.
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  updateDoc,
+  where,
+  type Firestore,
+} from 'firebase/firestore';
+import { format, isValid, parse } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Appointment,
+  ConsultationRecord,
+  MedicalTimelineEntry,
+  PatientDocument,
+  PatientDocumentKind,
+} from '@kloqo/shared-types';
+import type { DocumentStorage } from './document-storage';
+import { CONSULTATION_RECORDS_COLLECTION, formatDiagnosis } from './consultation-record-service';
+
+export const PATIENT_DOCUMENTS_COLLECTION = 'patient-documents';
+
+export const PATIENT_DOCUMENT_KIND_LABELS: Record<PatientDocumentKind, string> = {
+  lab_report: 'Lab report',
+  imaging: 'Scan / X-ray',
+  prescription: 'Prescription',
+  discharge_summary: 'Discharge summary',
+  other: 'Other',
+};
+
+export const ALLOWED_DOCUMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+export type DocumentViewer =
+  | { type: 'patient'; patientId: string }
+  | { type: 'staff'; clinicId: string };
+
+export interface PatientDocumentUpload {
+  patientId: string;
+  kind: PatientDocumentKind;
+  title: string;
+  fileName: string;
+  contentType: string;
+  data: Uint8Array;
+  reportDate?: string;
+  uploadedBy: PatientDocument['uploadedBy'];
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+export function validatePatientDocumentUpload(
+  upload: Pick<PatientDocumentUpload, 'kind' | 'title' | 'fileName' | 'contentType' | 'reportDate'> & { size: number }
+): void {
+  if (!upload.title?.trim()) {
+    throw new Error('Give the document a title.');
+  }
+  if (!(upload.kind in PATIENT_DOCUMENT_KIND_LABELS)) {
+    throw new Error(`Unknown document type "${upload.kind}".`);
+  }
+  if (!ALLOWED_DOCUMENT_TYPES.includes(upload.contentType)) {
+    throw new Error('Only PDF, JPEG, PNG and WebP files can be uploaded.');
+  }
+  if (upload.size <= 0) {
+    throw new Error(`${upload.fileName} is empty.`);
+  }
+  if (upload.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`${upload.fileName} is larger than ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB.`);
+  }
+  if (upload.reportDate && !isValid(parse(upload.reportDate, 'd MMMM yyyy', new Date()))) {
+    throw new Error('Report date is not valid.');
+  }
+}
+
+/**
+ * Where a document's bytes are stored. The file name is reduced to safe
+ * characters; the document id keeps paths unique.
+ */
+export function buildPatientDocumentPath(patientId: string, documentId: string, fileName: string): string {
+  const safeName = fileName
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^[._]+/, '')
+    .slice(-100) || 'document';
+  return `patient-documents/${patientId}/${documentId}/${safeName}`;
+}
+
+export function canViewPatientDocument(document: PatientDocument, viewer: DocumentViewer): boolean {
+  if (viewer.type === 'patient') return document.patientId === viewer.patientId;
+  return document.sharedWithClinicIds.includes(viewer.clinicId);
+}
+
+export function updateSharedClinicIds(current: string[], clinicId: string, shared: boolean): string[] {
+  const without = current.filter(id => id !== clinicId);
+  return shared ? [...without, clinicId] : without;
+}
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === 'function') return value.toDate();
+  return null;
+}
+
+function documentDate(document: PatientDocument): string {
+  if (document.reportDate) return document.reportDate;
+  const uploaded = toDate(document.createdAt);
+  return uploaded ? format(uploaded, 'd MMMM yyyy') : '';
+}
+
+/**
+ * Merges visits, prescriptions and documents into one list, most recent first.
+ * On the same day a visit comes before its prescription and documents.
+ */
+export function buildMedicalTimeline(
+  sources: {
+    appointments: Appointment[];
+    records: ConsultationRecord[];
+    documents: PatientDocument[];
+  },
+  viewer: DocumentViewer
+): MedicalTimelineEntry[] {
+  const ownClinic = (clinicId: string) => viewer.type === 'patient' || clinicId === viewer.clinicId;
+  const entries: MedicalTimelineEntry[] = [];
+
+  for (const appointment of sources.appointments) {
+    if (appointment.status !== 'Completed' || !ownClinic(appointment.clinicId)) continue;
+    entries.push({
+      id: `visit-${appointment.id}`,
+      type: 'visit',
+      date: appointment.date,
+      title: `Visit with Dr. ${appointment.doctor}`,
+      ...(appointment.department ? { subtitle: appointment.department } : {}),
+      clinicId: appointment.clinicId,
+      appointmentId: appointment.id,
+    });
+  }
+
+  for (const record of sources.records) {
+    if (!ownClinic(record.clinicId)) continue;
+    const summary = record.diagnoses.length > 0 ? record.diagnoses.map(formatDiagnosis).join(', ') : record.chiefComplaint;
+    entries.push({
+      id: `prescription-${record.id}`,
+      type: 'prescription',
+      date: record.date,
+      title: `Prescription from Dr. ${record.doctorName}`,
+      ...(summary ? { subtitle: summary } : {}),
+      clinicId: record.clinicId,
+      appointmentId: record.appointmentId,
+      consultationRecordId: record.id,
+    });
+  }
+
+  for (const document of sources.documents) {
+    if (!canViewPatientDocument(document, viewer)) continue;
+    entries.push({
+      id: `document-${document.id}`,
+      type: 'document',
+      date: documentDate(document),
+      title: document.title,
+      subtitle: PATIENT_DOCUMENT_KIND_LABELS[document.kind],
+      ...(document.uploadedBy.clinicId ? { clinicId: document.uploadedBy.clinicId } : {}),
+      documentId: document.id,
+    });
+  }
+
+  const typeOrder: Record<MedicalTimelineEntry['type'], number> = { visit: 0, prescription: 1, document: 2 };
+  const time = (entry: MedicalTimelineEntry) => {
+    const parsed = parse(entry.date, 'd MMMM yyyy', new Date());
+    return isValid(parsed) ? parsed.getTime() : 0;
+  };
+  return entries.sort((a, b) => time(b) - time(a) || typeOrder[a.type] - typeOrder[b.type]);
+}
+
+// ============================================================================
+// DOCUMENT STORAGE (server)
+// ============================================================================
+
+/**
+ * Validates and stores an uploaded file and returns the metadata to save under
+ * PATIENT_DOCUMENTS_COLLECTION. A document uploaded by a clinic is shared with
+ * that clinic from the start; patient uploads are shared with nobody.
+ */
+export async function storePatientDocument(storage: DocumentStorage, upload: PatientDocumentUpload): Promise<PatientDocument> {
+  validatePatientDocumentUpload({ ...upload, size: upload.data.byteLength });
+
+  const id = uuidv4();
+  const storagePath = buildPatientDocumentPath(upload.patientId, id, upload.fileName);
+  await storage.put(storagePath, upload.data, upload.contentType);
+
+  const reportDate = upload.reportDate?.trim();
+  return {
+    id,
+    patientId: upload.patientId,
+    kind: upload.kind,
+    title: upload.title.trim(),
+    fileName: upload.fileName,
+    contentType: upload.contentType,
+    size: upload.data.byteLength,
+    storagePath,
+    ...(reportDate ? { reportDate } : {}),
+    uploadedBy: upload.uploadedBy,
+    sharedWithClinicIds: upload.uploadedBy.clinicId ? [upload.uploadedBy.clinicId] : [],
+  };
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+/**
+ * The documents `viewer` may see for a patient. Staff queries are limited to
+ * documents shared with their clinic, as the security rules require.
+ */
+export async function getPatientDocuments(firestore: Firestore, patientId: string, viewer: DocumentViewer): Promise<PatientDocument[]> {
+  const constraints = [where('patientId', '==', patientId)];
+  if (viewer.type === 'staff') {
+    constraints.push(where('sharedWithClinicIds', 'array-contains', viewer.clinicId));
+  }
+  const snapshot = await getDocs(query(collection(firestore, PATIENT_DOCUMENTS_COLLECTION), ...constraints));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as PatientDocument));
+}
+
+/**
+ * Patient consent: share a document with a clinic, or take it back
+ */
+export async function setPatientDocumentSharing(
+  firestore: Firestore,
+  document: PatientDocument,
+  clinicId: string,
+  shared: boolean
+): Promise<string[]> {
+  const sharedWithClinicIds = updateSharedClinicIds(document.sharedWithClinicIds, clinicId, shared);
+  await updateDoc(doc(firestore, PATIENT_DOCUMENTS_COLLECTION, document.id), { sharedWithClinicIds });
+  console.log(`[MedicalRecords] Document ${document.id} ${shared ? 'shared with' : 'withdrawn from'} clinic ${clinicId}`);
+  return sharedWithClinicIds;
+}
+
+export async function getMedicalTimeline(firestore: Firestore, patientId: string, viewer: DocumentViewer): Promise<MedicalTimelineEntry[]> {
+  const byClinic = viewer.type === 'staff' ? [where('clinicId', '==', viewer.clinicId)] : [];
+  const [appointmentsSnap, recordsSnap, documents] = await Promise.all([
+    getDocs(query(collection(firestore, 'appointments'), where('patientId', '==', patientId), ...byClinic)),
+    getDocs(query(collection(firestore, CONSULTATION_RECORDS_COLLECTION), where('patientId', '==', patientId), ...byClinic)),
+    getPatientDocuments(firestore, patientId, viewer),
+  ]);
+
+  return buildMedicalTimeline({
+    appointments: appointmentsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Appointment)),
+    records: recordsSnap.docs.map(d => ({ id: d.id, ...d.data() } as ConsultationRecord)),
+    documents,
+  }, viewer);
+}
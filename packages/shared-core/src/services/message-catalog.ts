@@ -0,0 +1,612 @@
+/**
+ * Message Catalog
+ *
+ * Patient-facing copy for WhatsApp, push notifications, the WhatsApp bot and
+ * the waiting-room TV, in every language patients can choose. English defines
+ * the keys; the other languages must provide all of them.
+ *
+ * Placeholders are written as {name}. Messages that depend on a number are
+ * split into plural forms and selected with the `count` param using the
+ * language's plural rules.
+ *
+ * Meta WhatsApp templates are approved in Malayalam only, so template
+ * variables are always filled from the Malayalam catalog.
+ */
+
+import type { Language } from '@kloqo/shared-types';
+
+export type MessageParams = Record<string, string | number | null | undefined>;
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+/** Existing WhatsApp users have only ever been messaged in Malayalam */
+export const DEFAULT_WHATSAPP_LANGUAGE: Language = 'ml';
+
+export const SUPPORTED_LANGUAGES: Language[] = ['en', 'ml', 'ta', 'hi'];
+
+/** Native names, for language pickers */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  ml: 'മലയാളം',
+  ta: 'தமிழ்',
+  hi: 'हिन्दी',
+};
+
+const LANGUAGE_LOCALES: Record<Language, string> = {
+  en: 'en-IN',
+  ml: 'ml-IN',
+  ta: 'ta-IN',
+  hi: 'hi-IN',
+};
+
+// ============================================================================
+// CATALOG
+// ============================================================================
+
+const en = {
+  // Dates
+  'date.today': 'Today',
+  'date.tomorrow': 'Tomorrow',
+
+  // WhatsApp notifications
+  'whatsapp.tokenOnArrival': 'Given when you arrive at the clinic',
+  'whatsapp.arrivalConfirmed': 'Hello {patientName}, your token {token} is confirmed. Tap the link below for the live status:\n\n{link}',
+  'whatsapp.tokenCalled': 'Hello {patientName}, Dr. {doctorName} has called your token ({token}). Please come to the consultation room. Live status: {link}',
+  'whatsapp.appointmentCancelledByPatient': 'Hello {patientName}, your appointment with Dr. {doctorName} on {date} at {time} has been cancelled.',
+  'whatsapp.appointmentCancelled': 'Hello {patientName}, your appointment with Dr. {doctorName} at {clinicName} on {date} at {time} has been cancelled.',
+  'whatsapp.rebookLink': 'Tap below to book a new time:\n\n{link}',
+  'whatsapp.waitlistOffer': 'Hello {patientName}, a slot with Dr. {doctorName} at {clinicName} is available on {date} at {time}. Book it within {minutes} minutes:\n\n{link}',
+  'whatsapp.prescriptionReady': 'Hello {patientName}, your prescription from Dr. {doctorName} at {clinicName} is ready. Download it here:\n\n{link}',
+  'whatsapp.doctorLate': 'Hello {patientName}, Dr. {doctorName} at {clinicName} will start consultations about {minutes} minutes late.',
+  'whatsapp.breakUpdate': 'Hello {patientName}, Dr. {doctorName} at {clinicName} is on a short break, so your token time has changed slightly. Sorry for the inconvenience.',
+  'whatsapp.appointmentSkipped': 'Hello {patientName}, your appointment with Dr. {doctorName} on {date} at {time} (Token: {token}) has been skipped because you had not arrived 5 minutes before the appointment time.',
+  'whatsapp.youAreNext': 'Hello {patientName}, you will see Dr. {doctorName} next. Your token at {clinicName}: {token}',
+  'whatsapp.youAreNextAfterBreak': 'Hello {patientName}, the doctor is on a {minutes}-minute break. You will see Dr. {doctorName} next after the break. Your token at {clinicName}: {token}',
+  'whatsapp.peopleAhead': {
+    one: 'Hello {patientName}, there is 1 person ahead of you before you see Dr. {doctorName}. Your token at {clinicName}: {token}',
+    other: 'Hello {patientName}, there are {count} people ahead of you before you see Dr. {doctorName}. Your token at {clinicName}: {token}',
+  },
+  'whatsapp.peopleAheadWithBreak': {
+    one: 'Hello {patientName}, there is 1 person ahead of you and the doctor is on a {minutes}-minute break. You will then see Dr. {doctorName}. Your token at {clinicName}: {token}',
+    other: 'Hello {patientName}, there are {count} people ahead of you and the doctor is on a {minutes}-minute break. You will then see Dr. {doctorName}. Your token at {clinicName}: {token}',
+  },
+  'whatsapp.consultationStarted': 'Hello {patientName},\n\nDr. {doctorName} has started consultations. 🟢\n\nYour token number: {token}\n\nTo see how many people are ahead of you and how long you will wait, tap below to check your status:\n\n{link}',
+  'whatsapp.doctorIn': 'Hello {patientName}, Dr. {doctorName} has started consultations at the clinic. To know when your turn comes and get live updates, log in with the link below:\n\n{link}',
+  'whatsapp.aiFallback': 'Sorry, I am busy right now. Please tap the link below to continue:\n\n{link}',
+  'whatsapp.bookingConfirmed': '✅ Booking complete!\n\nDoctor: {doctorName}\nDate: {date}\nTime: {time}\nToken: *{token}*',
+
+  // WhatsApp bot
+  'bot.greeting': 'Hello {patientName}!',
+  'bot.greetingAnonymous': 'Hello!',
+  'bot.clinicWelcome': '{greeting} Welcome to {clinicName}! 👋\n\nType one of these numbers for details:\n{options}',
+  'bot.options': '1. Doctor availability\n2. Opening hours\n3. Queue status\n4. Book an appointment',
+  'bot.kloqoWelcome': '{greeting} Welcome to Kloqo! Which clinic would you like to contact? Send the clinic code (e.g. KQ-1234).',
+  'bot.clinicCodePrompt': 'To contact a clinic or doctor, type that clinic\'s code (e.g. KQ-1234).',
+  'bot.clinicNotFound': 'Sorry, we could not find a clinic with this code. Please check the code.',
+  'bot.queueStatus': {
+    one: 'Thank you. There is 1 person ahead of you right now. Expected time: {time}.\n\nUse the link below for live updates:\n\n{link}',
+    other: 'Thank you. There are {count} people ahead of you right now. Expected time: {time}.\n\nUse the link below for live updates:\n\n{link}',
+  },
+  'bot.noAppointmentsToday': 'Sorry, you do not seem to have any appointments today.',
+  'bot.patientNotFound': 'Sorry, we could not find your details. Please contact the clinic.',
+  'bot.contactClinic': 'Please contact the clinic.',
+  'bot.bookingLinkError': 'Sorry, something went wrong while getting your booking link.',
+  'bot.bookingLinkNoClinic': 'Use this link to book an appointment: https://app.kloqo.com/clinics\n(Send the clinic code (e.g. KQ-1234) first to get a direct link)',
+  'bot.bookingConfirmPrompt': 'Are these details correct?\n\nDoctor: {doctorName}\nDate: {date}\nTime: {time}\nPatient: {patientName} ({age})\n\nType "Yes" to confirm.',
+  'bot.bookingCancelled': 'Booking cancelled. Is there anything else we can help you with?',
+  'bot.bookingDateError': 'Sorry, something went wrong with the date. Please start again.',
+  'bot.bookingError': 'Sorry, something went wrong while booking. Please try again in a little while.',
+  'bot.maintenance': 'Sorry, the system is under maintenance. Type \'Book\' to book an appointment.',
+  'bot.unavailable': 'Sorry, we cannot connect to the system right now. Please try again in a little while.',
+
+  // Push notifications
+  'push.tokenSuffix': ' Token: {token}',
+  'push.appointmentConfirmed.title': 'Appointment Confirmed',
+  'push.appointmentConfirmed.body': 'Your appointment with Dr. {doctorName} is confirmed for {date} at {time}.',
+  'push.tokenCalled.title': 'Your Turn!',
+  'push.tokenCalled.body': 'Token {token} is now being called to see Dr. {doctorName} at {clinicName}. Please proceed to the clinic.',
+  'push.appointmentCancelled.title': 'Appointment Cancelled',
+  'push.appointmentCancelled.bodyByPatient': 'Your appointment with Dr. {doctorName} (Date: {date}, Time: {time}) has been cancelled.',
+  'push.appointmentCancelled.body': '{clinicName} has cancelled your appointment with Dr. {doctorName} (Date: {date}, Time: {time}).',
+  'push.appointmentCancelled.refund': ' Your payment of ₹{amount} will be refunded.',
+  'push.appointmentCancelled.rebook': ' Tap to book a new time.',
+  'push.waitlistOffer.title': 'A Slot Opened Up',
+  'push.waitlistOffer.body': 'A slot with Dr. {doctorName} on {date} at {time} is available. Tap within {minutes} minutes to book it.',
+  'push.doctorLate.title': 'Doctor Running Late',
+  'push.doctorLate.body': 'Dr. {doctorName} at {clinicName} is running approximately {minutes} minutes late.',
+  'push.appointmentRescheduled.title': 'Appointment Time Changed',
+  'push.appointmentRescheduled.body': '{clinicName} has changed the time of your appointment with Dr. {doctorName}. New time: {time}.',
+  'push.appointmentSkipped.title': 'Appointment Skipped',
+  'push.appointmentSkipped.body': 'Your appointment with Dr. {doctorName} (Token: {token}) has been skipped because you did not report on time.',
+  'push.youAreNext.title': 'You are Next!',
+  'push.youAreNext.body': 'There is no one ahead of you. You will see Dr. {doctorName} next.',
+  'push.queueUpdate.title': {
+    one: 'Queue Update: 1 Person Ahead',
+    other: 'Queue Update: {count} People Ahead',
+  },
+  'push.queueUpdate.body': {
+    one: 'There is 1 person ahead of you. Your turn to see Dr. {doctorName} is coming up.',
+    other: 'There are {count} people ahead of you. Your turn to see Dr. {doctorName} is coming up.',
+  },
+  'push.consultationStarted.title': 'Consultation Started',
+  'push.consultationStarted.body': 'Dr. {doctorName} has started consultations at {clinicName}. Your time: {time}.',
+  'push.consultationCompleted.title': 'Consultation Completed',
+  'push.consultationCompleted.body': 'Thank you for visiting {clinicName}. Your consultation with Dr. {doctorName} is complete.',
+  'push.prescriptionReady.title': 'Prescription Ready',
+  'push.prescriptionReady.body': 'Your prescription from Dr. {doctorName} at {clinicName} is ready to view.',
+  'push.appointmentReminder.title': 'Upcoming Appointment',
+  'push.appointmentReminder.body': 'Reminder: your appointment with Dr. {doctorName} is at {time}.',
+  'push.freeFollowUpExpiry.title': 'Free Follow-up Expiring Soon',
+  'push.freeFollowUpExpiry.body': {
+    one: 'You have 1 more day to visit Dr. {doctorName} for free.',
+    other: 'You have {count} more days to visit Dr. {doctorName} for free.',
+  },
+
+  // Waiting-room display announcements
+  'display.tokenCalled': 'Token number {token}, please go to Dr. {doctorName}\'s room.',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+type MessageCatalog = Record<MessageKey, Message>;
+
+const ml: MessageCatalog = {
+  'date.today': 'ഇന്ന്',
+  'date.tomorrow': 'നാളെ',
+
+  'whatsapp.tokenOnArrival': 'ക്ലിനിക്കിൽ വരുമ്പോൾ ലഭിക്കും',
+  'whatsapp.arrivalConfirmed': 'നമസ്കാരം {patientName}, നിങ്ങളുടെ ടോക്കൺ {token} കൺഫേം ചെയ്തിട്ടുണ്ട്. ലൈവ് സ്റ്റാറ്റസ് അറിയാനായി താഴെ കാണുന്ന ലിങ്കിൽ ക്ലിക്ക് ചെയ്യുക:\n\n{link}',
+  'whatsapp.tokenCalled': 'നമസ്കാരം {patientName}, ഡോ. {doctorName} നിങ്ങളുടെ ടോക്കൺ ({token}) വിളിച്ചിരിക്കുന്നു. ദയവായി കൺസൾട്ടേഷൻ റൂമിലേക്ക് വരിക. ലൈവ് സ്റ്റാറ്റസ്: {link}',
+  'whatsapp.appointmentCancelledByPatient': 'നമസ്കാരം {patientName}, ഡോ. {doctorName} മായി {date} {time} ന് ഉണ്ടായിരുന്ന നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് റദ്ദാക്കിയിട്ടുണ്ട്.',
+  'whatsapp.appointmentCancelled': 'നമസ്കാരം {patientName}, {clinicName}-ൽ ഡോ. {doctorName} മായി {date} {time} ന് ഉണ്ടായിരുന്ന നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് റദ്ദാക്കിയിട്ടുണ്ട്.',
+  'whatsapp.rebookLink': 'പുതിയ സമയം ബുക്ക് ചെയ്യാൻ താഴെ ക്ലിക്ക് ചെയ്യുക:\n\n{link}',
+  'whatsapp.waitlistOffer': 'നമസ്കാരം {patientName}, {clinicName}-ൽ ഡോ. {doctorName} മായി {date} {time} ന് ഒരു സ്ലോട്ട് ലഭ്യമാണ്. {minutes} മിനിറ്റിനുള്ളിൽ ബുക്ക് ചെയ്യുക:\n\n{link}',
+  'whatsapp.prescriptionReady': 'നമസ്കാരം {patientName}, {clinicName}-ലെ ഡോ. {doctorName} നൽകിയ നിങ്ങളുടെ കുറിപ്പടി തയ്യാറാണ്. ഇവിടെ നിന്ന് ഡൗൺലോഡ് ചെയ്യാം:\n\n{link}',
+  'whatsapp.doctorLate': 'നമസ്കാരം {patientName}, {clinicName}-ൽ ഡോ. {doctorName} ഏകദേശം {minutes} മിനിറ്റ് വൈകിയാണ് കൺസൾട്ടേഷൻ ആരംഭിക്കുന്നത്.',
+  'whatsapp.breakUpdate': 'നമസ്കാരം {patientName}, {clinicName}-ൽ ഡോ. {doctorName} ഇപ്പോൾ ഒരു ചെറിയ ബ്രേക്കിലാണ്. നിങ്ങളുടെ ടോക്കൺ സമയം അല്പം മാറിയിട്ടുണ്ട്. അസൗകര്യത്തിൽ ഖേദിക്കുന്നു.',
+  'whatsapp.appointmentSkipped': 'നമസ്കാരം {patientName}, ഡോ. {doctorName} മായി {date} {time} ന് ഉണ്ടായിരുന്ന നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് (ടോക്കൺ: {token}) ഒഴിവാക്കിയിട്ടുണ്ട്. അപ്പോയിന്റ്മെന്റ് സമയത്തിന് 5 മിനിറ്റ് മുൻപ് നിങ്ങൾ എത്തിച്ചേരാത്തതിനാലാണിത്.',
+  'whatsapp.youAreNext': 'നമസ്കാരം {patientName}, നിങ്ങൾ അടുത്തതായി ഡോ. {doctorName} നെ കാണും. {clinicName}-ൽ നിങ്ങളുടെ ടോക്കൺ: {token}',
+  'whatsapp.youAreNextAfterBreak': 'നമസ്കാരം {patientName}, ഡോക്ടർ {minutes} മിനിറ്റ് ബ്രേക്കിലാണ്. ബ്രേക്കിന് ശേഷം നിങ്ങൾ അടുത്തതായി ഡോ. {doctorName} നെ കാണും. {clinicName}-ൽ നിങ്ങളുടെ ടോക്കൺ: {token}',
+  'whatsapp.peopleAhead': {
+    one: 'നമസ്കാരം {patientName}, നിങ്ങൾക്ക് മുന്നിൽ ഒരാൾ ഉണ്ട്. അതിനു ശേഷം നിങ്ങൾ ഡോ. {doctorName} നെ കാണും. {clinicName}-ൽ നിങ്ങളുടെ ടോക്കൺ: {token}',
+    other: 'നമസ്കാരം {patientName}, നിങ്ങൾക്ക് മുന്നിൽ {count} പേർ ഉണ്ട്. അതിനു ശേഷം നിങ്ങൾ ഡോ. {doctorName} നെ കാണും. {clinicName}-ൽ നിങ്ങളുടെ ടോക്കൺ: {token}',
+  },
+  'whatsapp.peopleAheadWithBreak': {
+    one: 'നമസ്കാരം {patientName}, നിങ്ങൾക്ക് മുന്നിൽ ഒരാൾ ഉണ്ട്. ഡോക്ടർ {minutes} മിനിറ്റ് ബ്രേക്കിലാണ്. അതിനു ശേഷം നിങ്ങൾ ഡോ. {doctorName} നെ കാണും. {clinicName}-ൽ നിങ്ങളുടെ ടോക്കൺ: {token}',
+    other: 'നമസ്കാരം {patientName}, നിങ്ങൾക്ക് മുന്നിൽ {count} പേർ ഉണ്ട്. ഡോക്ടർ {minutes} മിനിറ്റ് ബ്രേക്കിലാണ്. അതിനു ശേഷം നിങ്ങൾ ഡോ. {doctorName} നെ കാണും. {clinicName}-ൽ നിങ്ങളുടെ ടോക്കൺ: {token}',
+  },
+  'whatsapp.consultationStarted': 'നമസ്കാരം {patientName},\n\nഡോക്ടർ {doctorName} കൺസൾട്ടേഷൻ ആരംഭിച്ചു. 🟢\n\nനിങ്ങളുടെ ടോക്കൺ നമ്പർ: {token}\n\nനിങ്ങളുടെ മുൻപിൽ എത്ര പേര് ഉണ്ട് എന്ന് അറിയാനും , എത്ര നേരം കാത്തിരിക്കണം എന്നും അറിയാനായി താഴെ ക്ലിക്ക് ചെയ്ത് സ്റ്റാറ്റസ് പരിശോധിക്കുക:\n\n{link}',
+  'whatsapp.doctorIn': 'നമസ്കാരം {patientName}, ഡോ. {doctorName} ഇപ്പോൾ ക്ലിനിക്കിൽ കൺസൾട്ടേഷൻ ആരംഭിച്ചിട്ടുണ്ട്. നിങ്ങളുടെ ഊഴം എപ്പോൾ വരുമെന്ന് അറിയാനും തത്സമയ അപ്ഡേറ്റുകൾ ലഭിക്കാനും താഴെ കാണുന്ന ലിങ്കിൽ ലോഗിൻ ചെയ്യുക:\n\n{link}',
+  'whatsapp.aiFallback': 'ക്ഷമിക്കണം, എനിക്ക് പണിത്തിരക്കാണ്. ദയവായി താഴെ കാണുന്ന ലിങ്കിൽ ക്ലിക്ക് ചെയ്ത് തുടരുക:\n\n{link}',
+  'whatsapp.bookingConfirmed': '✅ ബുക്കിംഗ് പൂർത്തിയായി!\n\nഡോക്ടർ: {doctorName}\nതീയതി: {date}\nസമയം: {time}\nടോക്കൺ: *{token}*',
+
+  'bot.greeting': 'നമസ്കാരം {patientName}!',
+  'bot.greetingAnonymous': 'നമസ്കാരം!',
+  'bot.clinicWelcome': '{greeting} {clinicName}-ലേക്ക് സ്വാഗതം! 👋\n\nവിവരങ്ങൾക്കായി താഴെ പറയുന്ന നമ്പറുകൾ ടൈപ്പ് ചെയ്യുക:\n{options}',
+  'bot.options': '1. ഡോക്ടറുടെ ലഭ്യത\n2. പ്രവർത്തന സമയം\n3. ക്യൂ നില\n4. അപ്പോയിന്റ്മെന്റ് ബുക്കിംഗ്',
+  'bot.kloqoWelcome': '{greeting} Kloqo-ലേക്ക് സ്വാഗതം! ഏത് ക്ലിനിക്കുമായാണ് നിങ്ങൾക്ക് ബന്ധപ്പെടേണ്ടത്? ക്ലിനിക് കോഡ് (ഉദാ: KQ-1234) നൽകുക.',
+  'bot.clinicCodePrompt': 'ഒരു ക്ലിനിക്കുമായോ ഡോക്ടറുമായോ ബന്ധപ്പെടാൻ ആ ക്ലിനിക്കിന്റെ കോഡ് (ഉദാ: KQ-1234) ടൈപ്പ് ചെയ്യുക.',
+  'bot.clinicNotFound': 'ക്ഷമിക്കണം, ഈ കോഡിലുള്ള ഒരു ക്ലിനിക് കണ്ടെത്താനായില്ല. ദയവായി കോഡ് പരിശോധിക്കുക.',
+  'bot.queueStatus': {
+    one: 'നന്ദി. നിലവിൽ നിങ്ങളുടെ മുൻപിൽ ഒരാൾ ഉണ്ട്. പ്രതീക്ഷിക്കുന്ന സമയം: {time}.\n\nതത്സമയ വിവരങ്ങൾക്കായി താഴെ കാണുന്ന ലിങ്ക് ഉപയോഗിക്കുക:\n\n{link}',
+    other: 'നന്ദി. നിലവിൽ നിങ്ങളുടെ മുൻപിൽ {count} പേർ ഉണ്ട്. പ്രതീക്ഷിക്കുന്ന സമയം: {time}.\n\nതത്സമയ വിവരങ്ങൾക്കായി താഴെ കാണുന്ന ലിങ്ക് ഉപയോഗിക്കുക:\n\n{link}',
+  },
+  'bot.noAppointmentsToday': 'ക്ഷമിക്കണം, ഇന്ന് നിങ്ങൾക്ക് അപ്പോയിന്റ്മെന്റുകൾ ഒന്നും ഉള്ളതായി കാണുന്നില്ല.',
+  'bot.patientNotFound': 'ക്ഷമിക്കണം, നിങ്ങളുടെ വിവരങ്ങൾ കണ്ടെത്താൻ കഴിഞ്ഞില്ല. ദയവായി ക്ലിനിക്കുമായി ബന്ധപ്പെടുക.',
+  'bot.contactClinic': 'ക്ലിനിക്കുമായി ബന്ധപ്പെടുക.',
+  'bot.bookingLinkError': 'ക്ഷമിക്കണം, ബുക്കിംഗ് ലിങ്ക് ലഭ്യമാക്കുന്നതിൽ ഒരു പിശക് സംഭവിച്ചു.',
+  'bot.bookingLinkNoClinic': 'അപ്പോയിന്റ്മെന്റ് ബുക്ക് ചെയ്യാൻ ഈ ലിങ്ക് ഉപയോഗിക്കുക: https://app.kloqo.com/clinics\n(ക്ലിനിക്കിന്റെ കോഡ് (ഉദാ: KQ-1234) ആദ്യം നൽകിയാൽ നേരിട്ടുള്ള ലിങ്ക് ലഭിക്കുന്നതാണ്)',
+  'bot.bookingConfirmPrompt': 'ഈ വിവരങ്ങൾ ശരിയാണോ?\n\nഡോക്ടർ: {doctorName}\nതീയതി: {date}\nസമയം: {time}\nരോഗി: {patientName} ({age})\n\nഉറപ്പിക്കാൻ "Yes" എന്ന് ടൈപ്പ് ചെയ്യുക.',
+  'bot.bookingCancelled': 'ബുക്കിംഗ് റദ്ദാക്കിയിരിക്കുന്നു. നിങ്ങൾക്ക് മറ്റു സഹായങ്ങൾ ആവശ്യമുണ്ടോ?',
+  'bot.bookingDateError': 'ക്ഷമിക്കണം, തീയതി വിവരങ്ങളിൽ ഒരു പിശക് സംഭവിച്ചു. ദയവായി ആദ്യം മുതൽ ഒന്ന് കൂടി ശ്രമിക്കുക.',
+  'bot.bookingError': 'ക്ഷമിക്കണം, ബുക്കിംഗ് പ്രക്രിയയിൽ ഒരു പിശക് സംഭവിച്ചു. ദയവായി അല്പം കഴിഞ്ഞ് ശ്രമിക്കുക.',
+  'bot.maintenance': 'ക്ഷമിക്കണം, സിസ്റ്റം അറ്റകുറ്റപ്പണിയിലാണ്. ബുക്ക് ചെയ്യാൻ \'Book\' എന്ന് ടൈപ്പ് ചെയ്യുക.',
+  'bot.unavailable': 'ക്ഷമിക്കണം, ഇപ്പോൾ സിസ്റ്റുമായി ബന്ധിപ്പിക്കാൻ കഴിയുന്നില്ല. ദയവായി അല്പം കഴിഞ്ഞ് ശ്രമിക്കുക.',
+
+  'push.tokenSuffix': ' ടോക്കൺ: {token}',
+  'push.appointmentConfirmed.title': 'അപ്പോയിന്റ്മെന്റ് സ്ഥിരീകരിച്ചു',
+  'push.appointmentConfirmed.body': 'ഡോ. {doctorName}-യുമായുള്ള നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് {date}, {time}-ന് സ്ഥിരീകരിച്ചു.',
+  'push.tokenCalled.title': 'നിങ്ങളുടെ ഊഴമായി!',
+  'push.tokenCalled.body': '{clinicName}-ൽ ഡോ. {doctorName}-നെ കാണാനുള്ള ടോക്കൺ {token} ഇപ്പോൾ വിളിക്കുന്നു. ദയവായി ക്ലിനിക്കിലേക്ക് നീങ്ങുക.',
+  'push.appointmentCancelled.title': 'അപ്പോയിന്റ്മെന്റ് റദ്ദാക്കി',
+  'push.appointmentCancelled.bodyByPatient': 'ഡോ. {doctorName}-യുമായുള്ള (തീയതി: {date}, സമയം: {time}) അപ്പോയിന്റ്മെന്റ് റദ്ദാക്കിയിരിക്കുന്നു.',
+  'push.appointmentCancelled.body': '{clinicName}, ഡോ. {doctorName}-യുമായുള്ള (തീയതി: {date}, സമയം: {time}) നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് റദ്ദാക്കി.',
+  'push.appointmentCancelled.refund': ' അടച്ച ₹{amount} തിരികെ നൽകുന്നതാണ്.',
+  'push.appointmentCancelled.rebook': ' പുതിയ സമയം ബുക്ക് ചെയ്യാൻ ടാപ്പ് ചെയ്യുക.',
+  'push.waitlistOffer.title': 'ഒരു സമയം ഒഴിവായി',
+  'push.waitlistOffer.body': 'ഡോ. {doctorName}-യുമായി {date}, {time}-ന് ഒരു സമയം ലഭ്യമാണ്. {minutes} മിനിറ്റിനുള്ളിൽ ബുക്ക് ചെയ്യാൻ ടാപ്പ് ചെയ്യുക.',
+  'push.doctorLate.title': 'ഡോക്ടർ വൈകുന്നു',
+  'push.doctorLate.body': '{clinicName}-ലെ ഡോ. {doctorName} ഏകദേശം {minutes} മിനിറ്റ് വൈകിയാണ് നടക്കുന്നത്.',
+  'push.appointmentRescheduled.title': 'സമയക്രമം മാറ്റി',
+  'push.appointmentRescheduled.body': '{clinicName}, ഡോ. {doctorName}-യുമായുള്ള അപ്പോയിന്റ്മെന്റ് സമയം മാറ്റിയിരിക്കുന്നു. പുതിയ സമയം: {time}.',
+  'push.appointmentSkipped.title': 'അപ്പോയിന്റ്മെന്റ് സ്കിപ്പ് ചെയ്തു',
+  'push.appointmentSkipped.body': 'കൃത്യസമയത്ത് റിപ്പോർട്ട് ചെയ്യാത്തതിനാൽ ഡോ. {doctorName}-യുമായുള്ള നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് (ടോക്കൺ: {token}) സ്കിപ്പ് ചെയ്തിരിക്കുന്നു.',
+  'push.youAreNext.title': 'നിങ്ങളാണ് അടുത്തത്!',
+  'push.youAreNext.body': 'നിങ്ങൾക്ക് മുമ്പിൽ ആരുമില്ല. ഡോ. {doctorName}-നെ കാണാൻ നിങ്ങൾക്കാണ് അടുത്ത ഊഴം.',
+  'push.queueUpdate.title': {
+    one: 'ക്യൂ അപ്‌ഡേറ്റ്: ഒരാൾ മുന്നിലുണ്ട്',
+    other: 'ക്യൂ അപ്‌ഡേറ്റ്: {count} പേർ മുന്നിലുണ്ട്',
+  },
+  'push.queueUpdate.body': {
+    one: 'നിങ്ങൾക്ക് മുമ്പിൽ ഒരാൾ ഉണ്ട്. ഡോ. {doctorName}-നെ കാണാനുള്ള നിങ്ങളുടെ ഊഴം അടുത്തു വരുന്നു.',
+    other: 'നിങ്ങൾക്ക് മുമ്പിൽ {count} പേർ ഉണ്ട്. ഡോ. {doctorName}-നെ കാണാനുള്ള നിങ്ങളുടെ ഊഴം അടുത്തു വരുന്നു.',
+  },
+  'push.consultationStarted.title': 'കൺസൾട്ടേഷൻ ആരംഭിച്ചു',
+  'push.consultationStarted.body': 'ഡോ. {doctorName}, {clinicName}-ൽ കൺസൾട്ടേഷൻ ആരംഭിച്ചു. നിങ്ങളുടെ സമയം: {time}.',
+  'push.consultationCompleted.title': 'പരിശോധന പൂർത്തിയായി',
+  'push.consultationCompleted.body': '{clinicName} സന്ദർശിച്ചതിന് നന്ദി. ഡോ. {doctorName}-യുമായുള്ള നിങ്ങളുടെ പരിശോധന പൂർത്തിയായി.',
+  'push.prescriptionReady.title': 'കുറിപ്പടി തയ്യാർ',
+  'push.prescriptionReady.body': '{clinicName}-ലെ ഡോ. {doctorName} നൽകിയ നിങ്ങളുടെ കുറിപ്പടി കാണാൻ തയ്യാറാണ്.',
+  'push.appointmentReminder.title': 'വരാനിരിക്കുന്ന അപ്പോയിന്റ്മെന്റ്',
+  'push.appointmentReminder.body': 'ഓർമ്മപ്പെടുത്തൽ: ഡോ. {doctorName}-യുമായുള്ള നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് {time}-ന് ആണ്.',
+  'push.freeFollowUpExpiry.title': 'സൗജന്യ പരിശോധന അവസാനിക്കുന്നു',
+  'push.freeFollowUpExpiry.body': {
+    one: 'ഡോ. {doctorName}-നെ സൗജന്യമായി കാണാൻ ഒരു ദിവസം കൂടി മാത്രം.',
+    other: 'ഡോ. {doctorName}-നെ സൗജന്യമായി കാണാൻ {count} ദിവസങ്ങൾ കൂടി മാത്രം.',
+  },
+
+  // Waiting-room display announcements
+  'display.tokenCalled': 'ടോക്കൺ നമ്പർ {token}, ദയവായി ഡോ. {doctorName}-ന്റെ മുറിയിലേക്ക് പോകുക.',
+};
+
+const ta: MessageCatalog = {
+  'date.today': 'இன்று',
+  'date.tomorrow': 'நாளை',
+
+  'whatsapp.tokenOnArrival': 'கிளினிக்கிற்கு வந்ததும் வழங்கப்படும்',
+  'whatsapp.arrivalConfirmed': 'வணக்கம் {patientName}, உங்கள் டோக்கன் {token} உறுதிசெய்யப்பட்டது. நேரடி நிலையை அறிய கீழே உள்ள இணைப்பைத் தட்டவும்:\n\n{link}',
+  'whatsapp.tokenCalled': 'வணக்கம் {patientName}, டாக்டர் {doctorName} உங்கள் டோக்கனை ({token}) அழைத்துள்ளார். தயவுசெய்து ஆலோசனை அறைக்கு வாருங்கள். நேரடி நிலை: {link}',
+  'whatsapp.appointmentCancelledByPatient': 'வணக்கம் {patientName}, {date} அன்று {time} மணிக்கு டாக்டர் {doctorName} உடனான உங்கள் சந்திப்பு ரத்து செய்யப்பட்டது.',
+  'whatsapp.appointmentCancelled': 'வணக்கம் {patientName}, {clinicName}-இல் {date} அன்று {time} மணிக்கு டாக்டர் {doctorName} உடனான உங்கள் சந்திப்பு ரத்து செய்யப்பட்டது.',
+  'whatsapp.rebookLink': 'புதிய நேரத்தை முன்பதிவு செய்ய கீழே தட்டவும்:\n\n{link}',
+  'whatsapp.waitlistOffer': 'வணக்கம் {patientName}, {clinicName}-இல் டாக்டர் {doctorName} உடன் {date} அன்று {time} மணிக்கு ஒரு நேரம் காலியாக உள்ளது. {minutes} நிமிடங்களுக்குள் முன்பதிவு செய்யுங்கள்:\n\n{link}',
+  'whatsapp.prescriptionReady': 'வணக்கம் {patientName}, {clinicName}-இல் டாக்டர் {doctorName} எழுதிய உங்கள் மருந்துச்சீட்டு தயாராக உள்ளது. இங்கே பதிவிறக்கவும்:\n\n{link}',
+  'whatsapp.doctorLate': 'வணக்கம் {patientName}, {clinicName}-இல் டாக்டர் {doctorName} சுமார் {minutes} நிமிடங்கள் தாமதமாக ஆலோசனையைத் தொடங்குவார்.',
+  'whatsapp.breakUpdate': 'வணக்கம் {patientName}, {clinicName}-இல் டாக்டர் {doctorName} இப்போது ஒரு சிறிய இடைவேளையில் உள்ளார். உங்கள் டோக்கன் நேரம் சற்று மாறியுள்ளது. சிரமத்திற்கு வருந்துகிறோம்.',
+  'whatsapp.appointmentSkipped': 'வணக்கம் {patientName}, {date} அன்று {time} மணிக்கு டாக்டர் {doctorName} உடனான உங்கள் சந்திப்பு (டோக்கன்: {token}) தவிர்க்கப்பட்டது. சந்திப்பு நேரத்திற்கு 5 நிமிடங்கள் முன் நீங்கள் வந்து சேராததால் இது நடந்தது.',
+  'whatsapp.youAreNext': 'வணக்கம் {patientName}, அடுத்து நீங்கள் டாக்டர் {doctorName}-ஐப் பார்ப்பீர்கள். {clinicName}-இல் உங்கள் டோக்கன்: {token}',
+  'whatsapp.youAreNextAfterBreak': 'வணக்கம் {patientName}, மருத்துவர் {minutes} நிமிட இடைவேளையில் உள்ளார். இடைவேளைக்குப் பிறகு அடுத்து நீங்கள் டாக்டர் {doctorName}-ஐப் பார்ப்பீர்கள். {clinicName}-இல் உங்கள் டோக்கன்: {token}',
+  'whatsapp.peopleAhead': {
+    one: 'வணக்கம் {patientName}, உங்களுக்கு முன் ஒருவர் இருக்கிறார். அதன் பிறகு நீங்கள் டாக்டர் {doctorName}-ஐப் பார்ப்பீர்கள். {clinicName}-இல் உங்கள் டோக்கன்: {token}',
+    other: 'வணக்கம் {patientName}, உங்களுக்கு முன் {count} பேர் இருக்கிறார்கள். அதன் பிறகு நீங்கள் டாக்டர் {doctorName}-ஐப் பார்ப்பீர்கள். {clinicName}-இல் உங்கள் டோக்கன்: {token}',
+  },
+  'whatsapp.peopleAheadWithBreak': {
+    one: 'வணக்கம் {patientName}, உங்களுக்கு முன் ஒருவர் இருக்கிறார், மருத்துவர் {minutes} நிமிட இடைவேளையில் உள்ளார். அதன் பிறகு நீங்கள் டாக்டர் {doctorName}-ஐப் பார்ப்பீர்கள். {clinicName}-இல் உங்கள் டோக்கன்: {token}',
+    other: 'வணக்கம் {patientName}, உங்களுக்கு முன் {count} பேர் இருக்கிறார்கள், மருத்துவர் {minutes} நிமிட இடைவேளையில் உள்ளார். அதன் பிறகு நீங்கள் டாக்டர் {doctorName}-ஐப் பார்ப்பீர்கள். {clinicName}-இல் உங்கள் டோக்கன்: {token}',
+  },
+  'whatsapp.consultationStarted': 'வணக்கம் {patientName},\n\nடாக்டர் {doctorName} ஆலோசனையைத் தொடங்கிவிட்டார். 🟢\n\nஉங்கள் டோக்கன் எண்: {token}\n\nஉங்களுக்கு முன் எத்தனை பேர் உள்ளனர், எவ்வளவு நேரம் காத்திருக்க வேண்டும் என்பதை அறிய கீழே தட்டி உங்கள் நிலையைப் பாருங்கள்:\n\n{link}',
+  'whatsapp.doctorIn': 'வணக்கம் {patientName}, டாக்டர் {doctorName} கிளினிக்கில் ஆலோசனையைத் தொடங்கிவிட்டார். உங்கள் முறை எப்போது வரும் என்பதை அறியவும் நேரடி தகவல்களைப் பெறவும் கீழே உள்ள இணைப்பில் உள்நுழையவும்:\n\n{link}',
+  'whatsapp.aiFallback': 'மன்னிக்கவும், நான் இப்போது பிஸியாக இருக்கிறேன். தொடர கீழே உள்ள இணைப்பைத் தட்டவும்:\n\n{link}',
+  'whatsapp.bookingConfirmed': '✅ முன்பதிவு முடிந்தது!\n\nமருத்துவர்: {doctorName}\nதேதி: {date}\nநேரம்: {time}\nடோக்கன்: *{token}*',
+
+  'bot.greeting': 'வணக்கம் {patientName}!',
+  'bot.greetingAnonymous': 'வணக்கம்!',
+  'bot.clinicWelcome': '{greeting} {clinicName}-க்கு வரவேற்கிறோம்! 👋\n\nவிவரங்களுக்கு கீழே உள்ள எண்களில் ஒன்றை டைப் செய்யவும்:\n{options}',
+  'bot.options': '1. மருத்துவர் கிடைக்கும் நேரம்\n2. செயல்படும் நேரம்\n3. வரிசை நிலை\n4. சந்திப்பு முன்பதிவு',
+  'bot.kloqoWelcome': '{greeting} Kloqo-க்கு வரவேற்கிறோம்! எந்த கிளினிக்கைத் தொடர்பு கொள்ள விரும்புகிறீர்கள்? கிளினிக் குறியீட்டை (எ.கா: KQ-1234) அனுப்பவும்.',
+  'bot.clinicCodePrompt': 'ஒரு கிளினிக் அல்லது மருத்துவரைத் தொடர்பு கொள்ள அந்த கிளினிக்கின் குறியீட்டை (எ.கா: KQ-1234) டைப் செய்யவும்.',
+  'bot.clinicNotFound': 'மன்னிக்கவும், இந்தக் குறியீட்டுடன் எந்த கிளினிக்கும் கிடைக்கவில்லை. தயவுசெய்து குறியீட்டைச் சரிபார்க்கவும்.',
+  'bot.queueStatus': {
+    one: 'நன்றி. இப்போது உங்களுக்கு முன் ஒருவர் இருக்கிறார். எதிர்பார்க்கப்படும் நேரம்: {time}.\n\nநேரடி தகவல்களுக்கு கீழே உள்ள இணைப்பைப் பயன்படுத்தவும்:\n\n{link}',
+    other: 'நன்றி. இப்போது உங்களுக்கு முன் {count} பேர் இருக்கிறார்கள். எதிர்பார்க்கப்படும் நேரம்: {time}.\n\nநேரடி தகவல்களுக்கு கீழே உள்ள இணைப்பைப் பயன்படுத்தவும்:\n\n{link}',
+  },
+  'bot.noAppointmentsToday': 'மன்னிக்கவும், இன்று உங்களுக்கு எந்த சந்திப்பும் இருப்பதாகத் தெரியவில்லை.',
+  'bot.patientNotFound': 'மன்னிக்கவும், உங்கள் விவரங்களைக் கண்டுபிடிக்க முடியவில்லை. தயவுசெய்து கிளினிக்கைத் தொடர்பு கொள்ளவும்.',
+  'bot.contactClinic': 'கிளினிக்கைத் தொடர்பு கொள்ளவும்.',
+  'bot.bookingLinkError': 'மன்னிக்கவும், முன்பதிவு இணைப்பைப் பெறுவதில் பிழை ஏற்பட்டது.',
+  'bot.bookingLinkNoClinic': 'சந்திப்பை முன்பதிவு செய்ய இந்த இணைப்பைப் பயன்படுத்தவும்: https://app.kloqo.com/clinics\n(முதலில் கிளினிக் குறியீட்டை (எ.கா: KQ-1234) அனுப்பினால் நேரடி இணைப்பு கிடைக்கும்)',
+  'bot.bookingConfirmPrompt': 'இந்த விவரங்கள் சரியா?\n\nமருத்துவர்: {doctorName}\nதேதி: {date}\nநேரம்: {time}\nநோயாளி: {patientName} ({age})\n\nஉறுதிப்படுத்த "Yes" என டைப் செய்யவும்.',
+  'bot.bookingCancelled': 'முன்பதிவு ரத்து செய்யப்பட்டது. வேறு ஏதாவது உதவி தேவையா?',
+  'bot.bookingDateError': 'மன்னிக்கவும், தேதியில் பிழை ஏற்பட்டது. தயவுசெய்து மீண்டும் முதலில் இருந்து முயற்சிக்கவும்.',
+  'bot.bookingError': 'மன்னிக்கவும், முன்பதிவின் போது பிழை ஏற்பட்டது. சிறிது நேரம் கழித்து மீண்டும் முயற்சிக்கவும்.',
+  'bot.maintenance': 'மன்னிக்கவும், அமைப்பு பராமரிப்பில் உள்ளது. முன்பதிவு செய்ய \'Book\' என டைப் செய்யவும்.',
+  'bot.unavailable': 'மன்னிக்கவும், இப்போது அமைப்புடன் இணைக்க முடியவில்லை. சிறிது நேரம் கழித்து மீண்டும் முயற்சிக்கவும்.',
+
+  'push.tokenSuffix': ' டோக்கன்: {token}',
+  'push.appointmentConfirmed.title': 'சந்திப்பு உறுதிசெய்யப்பட்டது',
+  'push.appointmentConfirmed.body': 'டாக்டர் {doctorName} உடனான உங்கள் சந்திப்பு {date} அன்று {time} மணிக்கு உறுதிசெய்யப்பட்டது.',
+  'push.tokenCalled.title': 'உங்கள் முறை வந்துவிட்டது!',
+  'push.tokenCalled.body': '{clinicName}-இல் டாக்டர் {doctorName}-ஐப் பார்க்க டோக்கன் {token} இப்போது அழைக்கப்படுகிறது. தயவுசெய்து கிளினிக்கிற்குச் செல்லவும்.',
+  'push.appointmentCancelled.title': 'சந்திப்பு ரத்து செய்யப்பட்டது',
+  'push.appointmentCancelled.bodyByPatient': 'டாக்டர் {doctorName} உடனான உங்கள் சந்திப்பு (தேதி: {date}, நேரம்: {time}) ரத்து செய்யப்பட்டது.',
+  'push.appointmentCancelled.body': '{clinicName} டாக்டர் {doctorName} உடனான உங்கள் சந்திப்பை (தேதி: {date}, நேரம்: {time}) ரத்து செய்துள்ளது.',
+  'push.appointmentCancelled.refund': ' நீங்கள் செலுத்திய ₹{amount} திருப்பி அளிக்கப்படும்.',
+  'push.appointmentCancelled.rebook': ' புதிய நேரத்தை முன்பதிவு செய்ய தட்டவும்.',
+  'push.waitlistOffer.title': 'ஒரு நேரம் காலியாகியுள்ளது',
+  'push.waitlistOffer.body': 'டாக்டர் {doctorName} உடன் {date} அன்று {time} மணிக்கு ஒரு நேரம் கிடைக்கிறது. முன்பதிவு செய்ய {minutes} நிமிடங்களுக்குள் தட்டவும்.',
+  'push.doctorLate.title': 'மருத்துவர் தாமதம்',
+  'push.doctorLate.body': '{clinicName}-இல் டாக்டர் {doctorName} சுமார் {minutes} நிமிடங்கள் தாமதமாக உள்ளார்.',
+  'push.appointmentRescheduled.title': 'சந்திப்பு நேரம் மாற்றப்பட்டது',
+  'push.appointmentRescheduled.body': '{clinicName} டாக்டர் {doctorName} உடனான உங்கள் சந்திப்பு நேரத்தை மாற்றியுள்ளது. புதிய நேரம்: {time}.',
+  'push.appointmentSkipped.title': 'சந்திப்பு தவிர்க்கப்பட்டது',
+  'push.appointmentSkipped.body': 'நீங்கள் சரியான நேரத்தில் வராததால் டாக்டர் {doctorName} உடனான உங்கள் சந்திப்பு (டோக்கன்: {token}) தவிர்க்கப்பட்டது.',
+  'push.youAreNext.title': 'அடுத்தது நீங்கள்தான்!',
+  'push.youAreNext.body': 'உங்களுக்கு முன் யாரும் இல்லை. அடுத்து நீங்கள் டாக்டர் {doctorName}-ஐப் பார்ப்பீர்கள்.',
+  'push.queueUpdate.title': {
+    one: 'வரிசை நிலை: உங்களுக்கு முன் ஒருவர்',
+    other: 'வரிசை நிலை: உங்களுக்கு முன் {count} பேர்',
+  },
+  'push.queueUpdate.body': {
+    one: 'உங்களுக்கு முன் ஒருவர் இருக்கிறார். டாக்டர் {doctorName}-ஐப் பார்க்கும் உங்கள் முறை நெருங்குகிறது.',
+    other: 'உங்களுக்கு முன் {count} பேர் இருக்கிறார்கள். டாக்டர் {doctorName}-ஐப் பார்க்கும் உங்கள் முறை நெருங்குகிறது.',
+  },
+  'push.consultationStarted.title': 'ஆலோசனை தொடங்கியது',
+  'push.consultationStarted.body': 'டாக்டர் {doctorName} {clinicName}-இல் ஆலோசனையைத் தொடங்கிவிட்டார். உங்கள் நேரம்: {time}.',
+  'push.consultationCompleted.title': 'ஆலோசனை முடிந்தது',
+  'push.consultationCompleted.body': '{clinicName}-க்கு வருகை தந்ததற்கு நன்றி. டாக்டர் {doctorName} உடனான உங்கள் ஆலோசனை முடிந்தது.',
+  'push.prescriptionReady.title': 'மருந்துச்சீட்டு தயார்',
+  'push.prescriptionReady.body': '{clinicName}-இல் டாக்டர் {doctorName} எழுதிய உங்கள் மருந்துச்சீட்டைப் பார்க்கலாம்.',
+  'push.appointmentReminder.title': 'வரவிருக்கும் சந்திப்பு',
+  'push.appointmentReminder.body': 'நினைவூட்டல்: டாக்டர் {doctorName} உடனான உங்கள் சந்திப்பு {time} மணிக்கு.',
+  'push.freeFollowUpExpiry.title': 'இலவச மறுபரிசோதனை விரைவில் முடிகிறது',
+  'push.freeFollowUpExpiry.body': {
+    one: 'டாக்டர் {doctorName}-ஐ இலவசமாகப் பார்க்க இன்னும் 1 நாள் மட்டுமே உள்ளது.',
+    other: 'டாக்டர் {doctorName}-ஐ இலவசமாகப் பார்க்க இன்னும் {count} நாட்கள் மட்டுமே உள்ளன.',
+  },
+
+  // Waiting-room display announcements
+  'display.tokenCalled': 'டோக்கன் எண் {token}, தயவுசெய்து டாக்டர் {doctorName} அறைக்குச் செல்லவும்.',
+};
+
+const hi: MessageCatalog = {
+  'date.today': 'आज',
+  'date.tomorrow': 'कल',
+
+  'whatsapp.tokenOnArrival': 'क्लिनिक पहुँचने पर मिलेगा',
+  'whatsapp.arrivalConfirmed': 'नमस्ते {patientName}, आपका टोकन {token} कन्फ़र्म हो गया है। लाइव स्टेटस देखने के लिए नीचे दिए लिंक पर टैप करें:\n\n{link}',
+  'whatsapp.tokenCalled': 'नमस्ते {patientName}, डॉ. {doctorName} ने आपका टोकन ({token}) बुलाया है। कृपया परामर्श कक्ष में आएँ। लाइव स्टेटस: {link}',
+  'whatsapp.appointmentCancelledByPatient': 'नमस्ते {patientName}, डॉ. {doctorName} के साथ {date} को {time} बजे की आपकी अपॉइंटमेंट रद्द कर दी गई है।',
+  'whatsapp.appointmentCancelled': 'नमस्ते {patientName}, {clinicName} में डॉ. {doctorName} के साथ {date} को {time} बजे की आपकी अपॉइंटमेंट रद्द कर दी गई है।',
+  'whatsapp.rebookLink': 'नया समय बुक करने के लिए नीचे टैप करें:\n\n{link}',
+  'whatsapp.waitlistOffer': 'नमस्ते {patientName}, {clinicName} में डॉ. {doctorName} के साथ {date} को {time} बजे एक स्लॉट उपलब्ध है। {minutes} मिनट के अंदर बुक करें:\n\n{link}',
+  'whatsapp.prescriptionReady': 'नमस्ते {patientName}, {clinicName} में डॉ. {doctorName} द्वारा लिखा आपका पर्चा तैयार है। यहाँ से डाउनलोड करें:\n\n{link}',
+  'whatsapp.doctorLate': 'नमस्ते {patientName}, {clinicName} में डॉ. {doctorName} लगभग {minutes} मिनट की देरी से परामर्श शुरू करेंगे।',
+  'whatsapp.breakUpdate': 'नमस्ते {patientName}, {clinicName} में डॉ. {doctorName} अभी एक छोटे ब्रेक पर हैं, इसलिए आपके टोकन का समय थोड़ा बदल गया है। असुविधा के लिए खेद है।',
+  'whatsapp.appointmentSkipped': 'नमस्ते {patientName}, डॉ. {doctorName} के साथ {date} को {time} बजे की आपकी अपॉइंटमेंट (टोकन: {token}) छोड़ दी गई है, क्योंकि आप अपॉइंटमेंट के समय से 5 मिनट पहले नहीं पहुँचे।',
+  'whatsapp.youAreNext': 'नमस्ते {patientName}, अगली बारी आपकी है, आप डॉ. {doctorName} से मिलेंगे। {clinicName} में आपका टोकन: {token}',
+  'whatsapp.youAreNextAfterBreak': 'नमस्ते {patientName}, डॉक्टर {minutes} मिनट के ब्रेक पर हैं। ब्रेक के बाद अगली बारी आपकी है, आप डॉ. {doctorName} से मिलेंगे। {clinicName} में आपका टोकन: {token}',
+  'whatsapp.peopleAhead': {
+    one: 'नमस्ते {patientName}, आपसे पहले 1 व्यक्ति है। उसके बाद आप डॉ. {doctorName} से मिलेंगे। {clinicName} में आपका टोकन: {token}',
+    other: 'नमस्ते {patientName}, आपसे पहले {count} लोग हैं। उसके बाद आप डॉ. {doctorName} से मिलेंगे। {clinicName} में आपका टोकन: {token}',
+  },
+  'whatsapp.peopleAheadWithBreak': {
+    one: 'नमस्ते {patientName}, आपसे पहले 1 व्यक्ति है और डॉक्टर {minutes} मिनट के ब्रेक पर हैं। उसके बाद आप डॉ. {doctorName} से मिलेंगे। {clinicName} में आपका टोकन: {token}',
+    other: 'नमस्ते {patientName}, आपसे पहले {count} लोग हैं और डॉक्टर {minutes} मिनट के ब्रेक पर हैं। उसके बाद आप डॉ. {doctorName} से मिलेंगे। {clinicName} में आपका टोकन: {token}',
+  },
+  'whatsapp.consultationStarted': 'नमस्ते {patientName},\n\nडॉ. {doctorName} ने परामर्श शुरू कर दिया है। 🟢\n\nआपका टोकन नंबर: {token}\n\nआपसे पहले कितने लोग हैं और कितना इंतज़ार करना होगा, यह जानने के लिए नीचे टैप करके अपना स्टेटस देखें:\n\n{link}',
+  'whatsapp.doctorIn': 'नमस्ते {patientName}, डॉ. {doctorName} ने क्लिनिक में परामर्श शुरू कर दिया है। आपकी बारी कब आएगी और लाइव अपडेट पाने के लिए नीचे दिए लिंक से लॉग इन करें:\n\n{link}',
+  'whatsapp.aiFallback': 'क्षमा करें, मैं अभी व्यस्त हूँ। जारी रखने के लिए कृपया नीचे दिए लिंक पर टैप करें:\n\n{link}',
+  'whatsapp.bookingConfirmed': '✅ बुकिंग पूरी हुई!\n\nडॉक्टर: {doctorName}\nतारीख: {date}\nसमय: {time}\nटोकन: *{token}*',
+
+  'bot.greeting': 'नमस्ते {patientName}!',
+  'bot.greetingAnonymous': 'नमस्ते!',
+  'bot.clinicWelcome': '{greeting} {clinicName} में आपका स्वागत है! 👋\n\nजानकारी के लिए इनमें से कोई नंबर टाइप करें:\n{options}',
+  'bot.options': '1. डॉक्टर की उपलब्धता\n2. खुलने का समय\n3. कतार की स्थिति\n4. अपॉइंटमेंट बुक करें',
+  'bot.kloqoWelcome': '{greeting} Kloqo में आपका स्वागत है! आप किस क्लिनिक से संपर्क करना चाहते हैं? क्लिनिक कोड (जैसे: KQ-1234) भेजें।',
+  'bot.clinicCodePrompt': 'किसी क्लिनिक या डॉक्टर से संपर्क करने के लिए उस क्लिनिक का कोड (जैसे: KQ-1234) टाइप करें।',
+  'bot.clinicNotFound': 'क्षमा करें, इस कोड वाला कोई क्लिनिक नहीं मिला। कृपया कोड जाँच लें।',
+  'bot.queueStatus': {
+    one: 'धन्यवाद। अभी आपसे पहले 1 व्यक्ति है। अनुमानित समय: {time}।\n\nलाइव जानकारी के लिए नीचे दिया लिंक इस्तेमाल करें:\n\n{link}',
+    other: 'धन्यवाद। अभी आपसे पहले {count} लोग हैं। अनुमानित समय: {time}।\n\nलाइव जानकारी के लिए नीचे दिया लिंक इस्तेमाल करें:\n\n{link}',
+  },
+  'bot.noAppointmentsToday': 'क्षमा करें, आज आपकी कोई अपॉइंटमेंट नहीं दिख रही है।',
+  'bot.patientNotFound': 'क्षमा करें, आपकी जानकारी नहीं मिल सकी। कृपया क्लिनिक से संपर्क करें।',
+  'bot.contactClinic': 'कृपया क्लिनिक से संपर्क करें।',
+  'bot.bookingLinkError': 'क्षमा करें, बुकिंग लिंक प्राप्त करने में कोई त्रुटि हुई।',
+  'bot.bookingLinkNoClinic': 'अपॉइंटमेंट बुक करने के लिए यह लिंक इस्तेमाल करें: https://app.kloqo.com/clinics\n(पहले क्लिनिक कोड (जैसे: KQ-1234) भेजने पर सीधा लिंक मिलेगा)',
+  'bot.bookingConfirmPrompt': 'क्या ये जानकारी सही है?\n\nडॉक्टर: {doctorName}\nतारीख: {date}\nसमय: {time}\nमरीज़: {patientName} ({age})\n\nपुष्टि करने के लिए "Yes" टाइप करें।',
+  'bot.bookingCancelled': 'बुकिंग रद्द कर दी गई है। क्या आपको किसी और मदद की ज़रूरत है?',
+  'bot.bookingDateError': 'क्षमा करें, तारीख में कोई त्रुटि हुई। कृपया शुरू से दोबारा प्रयास करें।',
+  'bot.bookingError': 'क्षमा करें, बुकिंग के दौरान कोई त्रुटि हुई। कृपया थोड़ी देर बाद प्रयास करें।',
+  'bot.maintenance': 'क्षमा करें, सिस्टम का रखरखाव चल रहा है। बुक करने के लिए \'Book\' टाइप करें।',
+  'bot.unavailable': 'क्षमा करें, अभी सिस्टम से कनेक्ट नहीं हो पा रहा है। कृपया थोड़ी देर बाद प्रयास करें।',
+
+  'push.tokenSuffix': ' टोकन: {token}',
+  'push.appointmentConfirmed.title': 'अपॉइंटमेंट कन्फ़र्म',
+  'push.appointmentConfirmed.body': 'डॉ. {doctorName} के साथ आपकी अपॉइंटमेंट {date} को {time} बजे के लिए कन्फ़र्म है।',
+  'push.tokenCalled.title': 'आपकी बारी!',
+  'push.tokenCalled.body': '{clinicName} में डॉ. {doctorName} से मिलने के लिए टोकन {token} अभी बुलाया जा रहा है। कृपया क्लिनिक में पहुँचें।',
+  'push.appointmentCancelled.title': 'अपॉइंटमेंट रद्द',
+  'push.appointmentCancelled.bodyByPatient': 'डॉ. {doctorName} के साथ आपकी अपॉइंटमेंट (तारीख: {date}, समय: {time}) रद्द कर दी गई है।',
+  'push.appointmentCancelled.body': '{clinicName} ने डॉ. {doctorName} के साथ आपकी अपॉइंटमेंट (तारीख: {date}, समय: {time}) रद्द कर दी है।',
+  'push.appointmentCancelled.refund': ' आपका ₹{amount} का भुगतान वापस कर दिया जाएगा।',
+  'push.appointmentCancelled.rebook': ' नया समय बुक करने के लिए टैप करें।',
+  'push.waitlistOffer.title': 'एक स्लॉट खाली हुआ',
+  'push.waitlistOffer.body': 'डॉ. {doctorName} के साथ {date} को {time} बजे एक स्लॉट उपलब्ध है। बुक करने के लिए {minutes} मिनट के अंदर टैप करें।',
+  'push.doctorLate.title': 'डॉक्टर देर से',
+  'push.doctorLate.body': '{clinicName} में डॉ. {doctorName} लगभग {minutes} मिनट देरी से चल रहे हैं।',
+  'push.appointmentRescheduled.title': 'अपॉइंटमेंट का समय बदला',
+  'push.appointmentRescheduled.body': '{clinicName} ने डॉ. {doctorName} के साथ आपकी अपॉइंटमेंट का समय बदल दिया है। नया समय: {time}।',
+  'push.appointmentSkipped.title': 'अपॉइंटमेंट छोड़ी गई',
+  'push.appointmentSkipped.body': 'समय पर रिपोर्ट न करने के कारण डॉ. {doctorName} के साथ आपकी अपॉइंटमेंट (टोकन: {token}) छोड़ दी गई है।',
+  'push.youAreNext.title': 'अगली बारी आपकी!',
+  'push.youAreNext.body': 'आपसे पहले कोई नहीं है। अगली बारी आपकी है, आप डॉ. {doctorName} से मिलेंगे।',
+  'push.queueUpdate.title': {
+    one: 'कतार अपडेट: आपसे पहले 1 व्यक्ति',
+    other: 'कतार अपडेट: आपसे पहले {count} लोग',
+  },
+  'push.queueUpdate.body': {
+    one: 'आपसे पहले 1 व्यक्ति है। डॉ. {doctorName} से मिलने की आपकी बारी नज़दीक है।',
+    other: 'आपसे पहले {count} लोग हैं। डॉ. {doctorName} से मिलने की आपकी बारी नज़दीक है।',
+  },
+  'push.consultationStarted.title': 'परामर्श शुरू',
+  'push.consultationStarted.body': 'डॉ. {doctorName} ने {clinicName} में परामर्श शुरू कर दिया है। आपका समय: {time}।',
+  'push.consultationCompleted.title': 'परामर्श पूरा हुआ',
+  'push.consultationCompleted.body': '{clinicName} आने के लिए धन्यवाद। डॉ. {doctorName} के साथ आपका परामर्श पूरा हो गया है।',
+  'push.prescriptionReady.title': 'पर्चा तैयार है',
+  'push.prescriptionReady.body': '{clinicName} में डॉ. {doctorName} द्वारा लिखा आपका पर्चा देखने के लिए तैयार है।',
+  'push.appointmentReminder.title': 'आने वाली अपॉइंटमेंट',
+  'push.appointmentReminder.body': 'याद दिलाना: डॉ. {doctorName} के साथ आपकी अपॉइंटमेंट {time} बजे है।',
+  'push.freeFollowUpExpiry.title': 'मुफ़्त फ़ॉलो-अप जल्द समाप्त',
+  'push.freeFollowUpExpiry.body': {
+    one: 'डॉ. {doctorName} से मुफ़्त में मिलने के लिए केवल 1 दिन बचा है।',
+    other: 'डॉ. {doctorName} से मुफ़्त में मिलने के लिए केवल {count} दिन बचे हैं।',
+  },
+
+  // Waiting-room display announcements
+  'display.tokenCalled': 'टोकन नंबर {token}, कृपया डॉ. {doctorName} के कमरे में जाएँ।',
+};
+
+const CATALOG: Record<Language, MessageCatalog> = { en, ml, ta, hi };
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+export function isSupportedLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as string[]).includes(value);
+}
+
+/**
+ * First supported language among the candidates (patient, then user, ...), else the fallback
+ */
+export function resolveLanguage(candidates: unknown[], fallback: Language = DEFAULT_LANGUAGE): Language {
+  return (candidates.find(isSupportedLanguage) as Language | undefined) ?? fallback;
+}
+
+/** BCP 47 locale of a language, e.g. to pick a speech synthesis voice */
+export function getLanguageLocale(language: Language): string {
+  return LANGUAGE_LOCALES[language];
+}
+
+function selectPluralForm(message: PluralMessage, language: Language, count: number): string {
+  const rule = new Intl.PluralRules(LANGUAGE_LOCALES[language]).select(count);
+  return message[rule] ?? message.other;
+}
+
+/**
+ * Renders a catalog message. Unknown languages fall back to English;
+ * placeholders without a value are left as they are.
+ */
+export function translate(language: Language | string | undefined, key: MessageKey, params: MessageParams = {}): string {
+  const lang = resolveLanguage([language]);
+  const message = CATALOG[lang][key];
+
+  const text = typeof message === 'string'
+    ? message
+    : selectPluralForm(message, lang, Number(params.count ?? 0));
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name) => {
+    const value = params[name];
+    return value === undefined || value === null ? placeholder : String(value);
+  });
+}
+
+/**
+ * Classic clinics only show the classic token; 'A' tokens are internal
+ */
+function getPushToken(data: any): string | null {
+  if (data.tokenDistribution === 'classic') {
+    return data.classicTokenNumber || null;
+  }
+  return data.tokenNumber || null;
+}
+
+/**
+ * Localized title and body for a push notification, built from its data payload.
+ * Returns null for notification types the catalog does not cover.
+ */
+export function getPushNotificationContent(
+  language: Language | string | undefined,
+  data: any
+): { title: string; body: string } | null {
+  if (!data?.type) return null;
+
+  const t = (key: MessageKey, params?: MessageParams) => translate(language, key, params);
+  const params: MessageParams = {
+    doctorName: data.doctorName,
+    clinicName: data.clinicName,
+    date: data.date,
+    time: data.time,
+    token: data.tokenNumber,
+  };
+
+  switch (data.type) {
+    case 'appointment_confirmed': {
+      const token = getPushToken(data);
+      return {
+        title: t('push.appointmentConfirmed.title'),
+        body: t('push.appointmentConfirmed.body', params) + (token ? t('push.tokenSuffix', { token }) : ''),
+      };
+    }
+    case 'token_called':
+      return {
+        title: t('push.tokenCalled.title'),
+        body: t('push.tokenCalled.body', params),
+      };
+    case 'appointment_cancelled':
+      return {
+        title: t('push.appointmentCancelled.title'),
+        body: t(data.cancelledBy === 'patient' ? 'push.appointmentCancelled.bodyByPatient' : 'push.appointmentCancelled.body', params)
+          + (data.refundedAmount ? t('push.appointmentCancelled.refund', { amount: data.refundedAmount }) : '')
+          + (data.rebookProposalId ? t('push.appointmentCancelled.rebook') : ''),
+      };
+    case 'waitlist_offer':
+      return {
+        title: t('push.waitlistOffer.title'),
+        body: t('push.waitlistOffer.body', { ...params, minutes: data.holdMinutes }),
+      };
+    case 'doctor_late':
+      return {
+        title: t('push.doctorLate.title'),
+        body: t('push.doctorLate.body', { ...params, minutes: data.delayMinutes }),
+      };
+    case 'appointment_rescheduled':
+      return {
+        title: t('push.appointmentRescheduled.title'),
+        body: t('push.appointmentRescheduled.body', { ...params, time: data.newTime }),
+      };
+    case 'appointment_skipped':
+      return {
+        title: t('push.appointmentSkipped.title'),
+        body: t('push.appointmentSkipped.body', params),
+      };
+    case 'queue_update': {
+      const count = Number(data.peopleAhead) || 0;
+      if (count === 0) {
+        return {
+          title: t('push.youAreNext.title'),
+          body: t('push.youAreNext.body', params),
+        };
+      }
+      return {
+        title: t('push.queueUpdate.title', { count }),
+        body: t('push.queueUpdate.body', { ...params, count }),
+      };
+    }
+    case 'doctor_consultation_started':
+    case 'token_distribution_started':
+      return {
+        title: t('push.consultationStarted.title'),
+        body: t('push.consultationStarted.body', { ...params, time: data.appointmentTime }),
+      };
+    case 'consultation_completed':
+      return {
+        title: t('push.consultationCompleted.title'),
+        body: t('push.consultationCompleted.body', params),
+      };
+    case 'prescription_ready':
+      return {
+        title: t('push.prescriptionReady.title'),
+        body: t('push.prescriptionReady.body', params),
+      };
+    case 'appointment_reminder': {
+      const token = getPushToken(data);
+      return {
+        title: t('push.appointmentReminder.title'),
+        body: t('push.appointmentReminder.body', params) + (token ? t('push.tokenSuffix', { token }) : ''),
+      };
+    }
+    case 'free_followup_expiry':
+      return {
+        title: t('push.freeFollowUpExpiry.title'),
+        body: t('push.freeFollowUpExpiry.body', { ...params, count: data.remainingDays ?? 3 }),
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,514 @@
+/**
+ * WhatsApp Message Templates
+ *
+ * Registry of every pre-approved WhatsApp template we send: its language, the
+ * providers that have it approved (in the order we try them), and the
+ * variables its header, body and buttons take.
+ *
+ * Callers fill templates with named variables through `buildTemplateVariables`,
+ * which is checked against the registry at compile time and again at runtime.
+ * On the wire (the outbox and /api/send-sms) variables stay numbered the way
+ * both providers number them: body parameters are {{1}}..{{n}} and URL button
+ * parameters continue from there. Header media is keyed by name.
+ *
+ * documentation/Twilio_Content_Templates.md is generated from this file:
+ *   npx ts-node scripts/generate-template-docs.ts
+ */
+
+import type { WhatsAppTemplateComponent } from './whatsapp-service';
+
+export type TemplateProvider = 'meta' | 'twilio';
+
+export type TemplateValue = string | number;
+
+/** Numbered variables as stored in the outbox and posted to /api/send-sms */
+export type TemplateContentVariables = Record<string, string>;
+
+export interface TemplateParamDefinition {
+  name: string;
+  label: string;
+  example: string;
+}
+
+export interface TemplateButtonDefinition {
+  type: 'url' | 'quick_reply';
+  /** URL buttons: the approved URL, with the parameter's {{n}} placeholder */
+  url?: string;
+  param?: TemplateParamDefinition;
+}
+
+export interface MessageTemplateDefinition {
+  language: 'ml' | 'en';
+  providers: readonly TemplateProvider[];
+  /** Twilio Content API SID, once the template is approved there */
+  twilioContentSid?: string;
+  description: string;
+  header?: {
+    type: 'document';
+    link: TemplateParamDefinition;
+    filename: TemplateParamDefinition;
+  };
+  body: readonly TemplateParamDefinition[];
+  buttons?: readonly TemplateButtonDefinition[];
+  /** Approved body text, where we have a copy of it */
+  text?: string;
+}
+
+/** Not a template: free text, only deliverable inside the 24h session window */
+export const FREE_TEXT_TEMPLATE = 'text_message';
+
+const PATIENT_NAME = { name: 'patientName', label: 'Patient Name', example: 'Anjali' } as const;
+const DOCTOR_NAME = { name: 'doctorName', label: 'Doctor Name', example: 'Dr. Ravi' } as const;
+const CLINIC_NAME = { name: 'clinicName', label: 'Clinic Name', example: 'City Clinic' } as const;
+const TOKEN = { name: 'token', label: 'Token', example: 'A12' } as const;
+const DATE = { name: 'date', label: 'Date', example: '25 January 2026' } as const;
+const TIME = { name: 'time', label: 'Time', example: '10:30 AM' } as const;
+
+const liveStatusButton = (label = 'Live Status Path') => ({
+  type: 'url',
+  param: { name: 'linkSuffix', label, example: 'APT123?ref=whatsapp&magicToken=...' },
+} as const);
+
+export const WHATSAPP_TEMPLATES = {
+  appointment_reminder_v2: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'Appointment booked by staff, or a reminder for it.',
+    body: [PATIENT_NAME, DOCTOR_NAME, { name: 'dateTime', label: 'Date and Arrival Time', example: 'നാളെ 10:15 AM' }, TOKEN],
+    buttons: [{ type: 'quick_reply' }],
+  },
+  walkin_arrival_confirmed_malayalam: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'Walk-in patient marked arrived; its quick reply opens the session window.',
+    body: [PATIENT_NAME, TOKEN],
+    buttons: [{ type: 'quick_reply' }],
+  },
+  appointment_status_confirmed_mlm: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'Arrival confirmed, or the bot\'s reply to a status check, with a live status button.',
+    body: [PATIENT_NAME, TOKEN],
+    buttons: [liveStatusButton()],
+  },
+  appointment_status_confirmed_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'Older copy of appointment_status_confirmed_mlm, kept while it is still approved.',
+    body: [PATIENT_NAME, TOKEN],
+    buttons: [liveStatusButton()],
+  },
+  appointment_requested_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'Booking link sent to a patient who asked the clinic for an appointment.',
+    body: [PATIENT_NAME, CLINIC_NAME, { name: 'clinicCode', label: 'Clinic Code', example: 'KQ-1042' }],
+    buttons: [{
+      type: 'url',
+      url: 'https://app.kloqo.com/clinics/{{4}}',
+      param: { name: 'linkSuffix', label: 'Clinic Path', example: 'CLINIC123?ref=whatsapp_booking_link' },
+    }],
+  },
+  ai_fallback_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'Link to the patient app when the WhatsApp assistant cannot answer.',
+    body: [PATIENT_NAME],
+    buttons: [liveStatusButton('App Path')],
+  },
+  token_called_quick_reply_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'The patient\'s token has been called.',
+    body: [PATIENT_NAME, { ...TOKEN, label: 'Token (blank when tokens are hidden)' }],
+    buttons: [liveStatusButton()],
+  },
+  appointment_cancelled_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'Appointment cancelled.',
+    body: [PATIENT_NAME, DOCTOR_NAME, DATE, TIME, CLINIC_NAME],
+  },
+  appointment_cancelled_rebook_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'Appointment cancelled by doctor leave, with a one-tap rebook link.',
+    body: [PATIENT_NAME, DOCTOR_NAME, DATE, TIME, CLINIC_NAME],
+    buttons: [{
+      type: 'url',
+      url: 'https://app.kloqo.com/rebook/{{6}}',
+      param: { name: 'rebookPath', label: 'Rebook Path: proposal id plus login suffix', example: 'PROPOSAL123?ref=leave_rebook' },
+    }],
+    text: 'നമസ്കാരം {{1}}, {{5}}-ൽ ഡോ. {{2}} മായി {{3}} {{4}} ന് ഉണ്ടായിരുന്ന നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് റദ്ദാക്കിയിട്ടുണ്ട്. പുതിയ സമയം ബുക്ക് ചെയ്യാൻ താഴെ ക്ലിക്ക് ചെയ്യുക.',
+  },
+  waitlist_slot_offer_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'A freed slot offered to the next patient on the waitlist.',
+    body: [PATIENT_NAME, DOCTOR_NAME, DATE, TIME, { name: 'holdMinutes', label: 'Hold Minutes', example: '15' }],
+    buttons: [{
+      type: 'url',
+      url: 'https://app.kloqo.com/waitlist/{{6}}',
+      param: { name: 'offerPath', label: 'Offer Path: waitlist entry id plus login suffix', example: 'ENTRY123?ref=waitlist_offer' },
+    }],
+    text: 'നമസ്കാരം {{1}}, ഡോ. {{2}} മായി {{3}} {{4}} ന് ഒരു സമയം ഒഴിവായിട്ടുണ്ട്. ഈ സമയം {{5}} മിനിറ്റ് നിങ്ങൾക്കായി മാറ്റിവച്ചിരിക്കുന്നു. ബുക്ക് ചെയ്യാൻ താഴെ ക്ലിക്ക് ചെയ്യുക.',
+  },
+  doctor_running_late_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'The doctor is running late.',
+    body: [PATIENT_NAME, DOCTOR_NAME, CLINIC_NAME, { name: 'delayMinutes', label: 'Delay Minutes', example: '20' }],
+  },
+  doctor_break_update_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'The appointment moved because the doctor took a break.',
+    body: [PATIENT_NAME, DOCTOR_NAME, CLINIC_NAME],
+  },
+  appointment_skipped_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'The patient missed their turn and was skipped.',
+    body: [PATIENT_NAME, DOCTOR_NAME, DATE, TIME, TOKEN],
+  },
+  you_are_next_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'Nobody is left ahead of the patient.',
+    body: [PATIENT_NAME, DOCTOR_NAME, CLINIC_NAME, TOKEN],
+  },
+  queue_update_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'How many people are ahead of the patient.',
+    body: [PATIENT_NAME, { name: 'peopleAhead', label: 'People Ahead', example: '3 പേർ' }, DOCTOR_NAME, CLINIC_NAME, TOKEN],
+  },
+  doctor_consultation_started_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'The doctor has started consulting, for a patient with a token.',
+    body: [PATIENT_NAME, DOCTOR_NAME, TOKEN],
+    buttons: [liveStatusButton()],
+  },
+  doctor_in_pending_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'The doctor has started consulting, for a patient without a token yet.',
+    body: [DOCTOR_NAME],
+    buttons: [liveStatusButton()],
+  },
+  prescription_ready_ml: {
+    language: 'ml',
+    providers: ['meta'],
+    description: 'The prescription PDF, attached as the header document.',
+    header: {
+      type: 'document',
+      link: { name: 'document', label: 'Prescription PDF URL', example: 'https://storage.kloqo.com/prescriptions/APT123.pdf' },
+      filename: { name: 'filename', label: 'File Name', example: 'Prescription - Anjali.pdf' },
+    },
+    body: [PATIENT_NAME, DOCTOR_NAME, CLINIC_NAME],
+  },
+  kloqo_appointment_confirmed: {
+    language: 'en',
+    providers: ['twilio'],
+    twilioContentSid: 'HX08166827af694ffd8802a6b1b352365b',
+    description: 'Appointment confirmed (Advanced Booking / A token).',
+    body: [
+      { ...PATIENT_NAME, example: 'John Doe' },
+      { ...DOCTOR_NAME, example: 'Smith' },
+      CLINIC_NAME,
+      { ...DATE, example: '25 January 2024' },
+      TIME,
+      { name: 'arriveByTime', label: 'Arrive By Time', example: '10:15 AM' },
+      { name: 'liveStatusLink', label: 'Live Status Link', example: 'https://app.kloqo.com/live-token/APT123' },
+    ],
+    text: 'Hello {{1}}, your appointment with Dr. {{2}} at {{3}} is confirmed. Please arrive by {{6}} on {{4}}. Please use the following link to see your status: {{7}}. Thank you.',
+  },
+  kloqo_appointment_confirmed_no_token: {
+    language: 'en',
+    providers: ['twilio'],
+    description: 'Appointment confirmed (Classic online booking / no token shown).',
+    body: [
+      PATIENT_NAME,
+      DOCTOR_NAME,
+      CLINIC_NAME,
+      DATE,
+      { name: 'arriveByTime', label: 'Arrive By Time', example: '10:15 AM' },
+      { name: 'liveStatusLink', label: 'Live Status Link', example: 'https://app.kloqo.com/live-token/APT123' },
+    ],
+    text: 'Hello {{1}}, your appointment with Dr. {{2}} at {{3}} is confirmed. Please arrive by {{5}} on {{4}}. View live status: {{6}}. Thank you.',
+  },
+  weekly_punctuality_digest: {
+    language: 'en',
+    providers: ['meta'],
+    description: 'Last week\'s doctor punctuality, sent to the clinic owner every Monday.',
+    body: [
+      CLINIC_NAME,
+      { name: 'week', label: 'Week', example: '12 October 2026 - 18 October 2026' },
+      { name: 'doctorSummary', label: 'Doctor Summary', example: 'Dr. Ravi: 6 sessions, 5 on time; Dr. Asha: 4 sessions, 4 on time' },
+    ],
+    text: 'Weekly doctor punctuality for {{1}} ({{2}}): {{3}}. Open the Kloqo dashboard for the full report.',
+  },
+} as const satisfies Record<string, MessageTemplateDefinition>;
+
+type TemplateRegistry = typeof WHATSAPP_TEMPLATES;
+
+export type WhatsAppTemplateName = keyof TemplateRegistry;
+
+type ButtonParamName<B> = B extends { param: { name: infer K extends string } } ? K : never;
+
+type TemplateVariableName<T> =
+  | (T extends { body: readonly TemplateParamDefinition[] } ? T['body'][number]['name'] : never)
+  | (T extends { buttons: readonly TemplateButtonDefinition[] } ? ButtonParamName<T['buttons'][number]> : never)
+  | (T extends { header: { link: { name: infer L }; filename: { name: infer F } } } ? L | F : never);
+
+/** Named variables a template takes, e.g. { patientName, token, linkSuffix } */
+export type WhatsAppTemplateVariables<N extends WhatsAppTemplateName> = Record<TemplateVariableName<TemplateRegistry[N]>, TemplateValue>;
+
+// ============================================================================
+// REGISTRY LOOKUP
+// ============================================================================
+
+export function isWhatsAppTemplateName(name: unknown): name is WhatsAppTemplateName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(WHATSAPP_TEMPLATES, name);
+}
+
+export function getWhatsAppTemplate(name: string): MessageTemplateDefinition {
+  if (!isWhatsAppTemplateName(name)) {
+    throw new Error(`Unknown WhatsApp template "${name}".`);
+  }
+  return WHATSAPP_TEMPLATES[name];
+}
+
+/**
+ * Whether /api/send-sms bills a message to the clinic's plan. Decided from the
+ * registry and the session window the route looks up, never from the sender:
+ * templates are paid outside the 24h session window, free text only goes out
+ * inside it, and every SMS costs a credit.
+ */
+export function isBillableMessage(channel: 'whatsapp' | 'sms', templateName: string | undefined, sessionOpen: boolean): boolean {
+  if (channel === 'sms') return true;
+  return isWhatsAppTemplateName(templateName) && !sessionOpen;
+}
+
+type TemplateSlot = {
+  key: string;
+  param: TemplateParamDefinition;
+  part: 'header' | 'body' | 'button';
+  buttonIndex?: number;
+};
+
+/** Every variable a template takes, in provider order, with its wire key */
+function getTemplateSlots(template: MessageTemplateDefinition): TemplateSlot[] {
+  const slots: TemplateSlot[] = [];
+  if (template.header) {
+    slots.push({ key: template.header.link.name, param: template.header.link, part: 'header' });
+    slots.push({ key: template.header.filename.name, param: template.header.filename, part: 'header' });
+  }
+
+  let position = 0;
+  template.body.forEach(param => {
+    position += 1;
+    slots.push({ key: String(position), param, part: 'body' });
+  });
+  (template.buttons || []).forEach((button, buttonIndex) => {
+    if (button.type !== 'url' || !button.param) return;
+    position += 1;
+    slots.push({ key: String(position), param: button.param, part: 'button', buttonIndex });
+  });
+
+  return slots;
+}
+
+/** Reads a slot's value by its wire key, or by its name when `byName` */
+function readSlot(name: string, slot: TemplateSlot, variables: Record<string, unknown>, byName = false): string {
+  const value = variables[byName ? slot.param.name : slot.key];
+  const label = slot.part === 'header' ? `"${slot.param.name}"` : `"${slot.param.name}" ({{${slot.key}}})`;
+  if (value === undefined || value === null) {
+    throw new Error(`WhatsApp template ${name} is missing ${label}.`);
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new Error(`WhatsApp template ${name} got a ${typeof value} for ${label}.`);
+  }
+  return String(value);
+}
+
+// ============================================================================
+// VARIABLES AND PROVIDER FORMATS
+// ============================================================================
+
+/**
+ * Numbers a template's named variables for the wire.
+ * Empty strings are allowed (some templates leave the token blank); missing
+ * variables throw.
+ */
+export function buildTemplateVariables<N extends WhatsAppTemplateName>(
+  name: N,
+  variables: WhatsAppTemplateVariables<N>
+): TemplateContentVariables {
+  const named = variables as Record<string, unknown>;
+  const numbered: TemplateContentVariables = {};
+  getTemplateSlots(getWhatsAppTemplate(name)).forEach(slot => {
+    numbered[slot.key] = readSlot(name, slot, named, true);
+  });
+  return numbered;
+}
+
+/**
+ * First provider in the template's preference order that is configured here,
+ * or null when none is (the template can't be sent).
+ */
+export function selectTemplateProvider(
+  name: string,
+  configured: Partial<Record<TemplateProvider, boolean>>
+): TemplateProvider | null {
+  const template = getWhatsAppTemplate(name);
+  return template.providers.find(provider =>
+    configured[provider] && (provider !== 'twilio' || !!template.twilioContentSid)
+  ) ?? null;
+}
+
+/** Meta Cloud API components for numbered variables */
+export function toMetaTemplateComponents(name: string, variables: Record<string, unknown>): WhatsAppTemplateComponent[] {
+  const template = getWhatsAppTemplate(name);
+  const slots = getTemplateSlots(template);
+  const components: WhatsAppTemplateComponent[] = [];
+
+  const [link, filename] = slots.filter(slot => slot.part === 'header');
+  if (link && filename) {
+    components.push({
+      type: 'header',
+      parameters: [{
+        type: 'document',
+        document: { link: readSlot(name, link, variables), filename: readSlot(name, filename, variables) },
+      }],
+    });
+  }
+
+  const body = slots.filter(slot => slot.part === 'body');
+  if (body.length > 0) {
+    components.push({
+      type: 'body',
+      parameters: body.map(slot => ({ type: 'text' as const, text: readSlot(name, slot, variables) })),
+    });
+  }
+
+  slots.filter(slot => slot.part === 'button').forEach(slot => {
+    components.push({
+      type: 'button',
+      sub_type: 'url',
+      index: String(slot.buttonIndex),
+      parameters: [{ type: 'text', text: readSlot(name, slot, variables) }],
+    });
+  });
+
+  return components;
+}
+
+/** Twilio Content API fields for numbered variables */
+export function toTwilioTemplateContent(
+  name: string,
+  variables: Record<string, unknown>
+): { contentSid: string; contentVariables: string } {
+  const template = getWhatsAppTemplate(name);
+  if (!template.providers.includes('twilio') || !template.twilioContentSid) {
+    throw new Error(`WhatsApp template ${name} is not approved on Twilio.`);
+  }
+
+  const contentVariables: TemplateContentVariables = {};
+  getTemplateSlots(template).forEach(slot => {
+    contentVariables[slot.key] = readSlot(name, slot, variables);
+  });
+  return { contentSid: template.twilioContentSid, contentVariables: JSON.stringify(contentVariables) };
+}
+
+// ============================================================================
+// DOCUMENTATION
+// ============================================================================
+
+const LANGUAGE_LABELS: Record<MessageTemplateDefinition['language'], string> = {
+  en: 'English (en)',
+  ml: 'Malayalam (ml)',
+};
+
+const PROVIDER_LABELS: Record<TemplateProvider, string> = {
+  meta: 'Meta WhatsApp Cloud API',
+  twilio: 'Twilio Content API',
+};
+
+function getContentType(template: MessageTemplateDefinition): string {
+  const button = template.buttons?.[0];
+  const content = template.header ? 'Document header with text' : 'Text';
+  if (!button) return content;
+  return `${content} with ${button.type === 'url' ? 'URL' : 'quick reply'} button`;
+}
+
+function renderTemplateSection(position: number, name: string, template: MessageTemplateDefinition): string[] {
+  const lines = [
+    `### ${position}. \`${name}\``,
+    '',
+    template.description,
+    '',
+    `**Language:** ${LANGUAGE_LABELS[template.language]}`,
+    `**Providers:** ${template.providers.map(provider => PROVIDER_LABELS[provider]).join(', then ')}`,
+    `**Content Type:** ${getContentType(template)}`,
+  ];
+  if (template.providers.includes('twilio')) {
+    lines.push(`**Twilio Content SID:** ${template.twilioContentSid ? `\`${template.twilioContentSid}\`` : 'not registered yet'}`);
+  }
+
+  if (template.text) {
+    lines.push('', '#### Body', `> ${template.text}`);
+  }
+
+  lines.push('', '#### Variables');
+  getTemplateSlots(template).forEach(slot => {
+    const key = slot.part === 'header' ? '' : `{{${slot.key}}} `;
+    const where = slot.part === 'header' ? ' (header document)' : '';
+    lines.push(`- ${key}\`${slot.param.name}\`: ${slot.param.label}${where} (e.g. ${slot.param.example})`);
+  });
+
+  (template.buttons || []).forEach((button, index) => {
+    if (button.type === 'quick_reply') {
+      lines.push('', `Button ${index + 1}: quick reply.`);
+    } else if (button.param) {
+      lines.push('', `Button ${index + 1}: URL${button.url ? ` \`${button.url}\`` : ''}, filled from \`${button.param.name}\`.`);
+    }
+  });
+
+  return [...lines, ''];
+}
+
+/** Markdown for documentation/Twilio_Content_Templates.md */
+export function renderTemplateDocs(): string {
+  const lines = [
+    '# WhatsApp Message Templates',
+    '',
+    '<!-- Generated from packages/shared-core/src/services/message-templates.ts by scripts/generate-template-docs.ts. Do not edit by hand. -->',
+    '',
+    'Every WhatsApp template the notification system sends. Staff must have each one approved with the listed providers (Meta Business Manager or the Twilio Console) before it can be sent.',
+    '',
+    '## Templates',
+    '',
+  ];
+
+  Object.entries(WHATSAPP_TEMPLATES).forEach(([name, template], index) => {
+    lines.push(...renderTemplateSection(index + 1, name, template));
+  });
+
+  lines.push(
+    '## Technical Implementation Notes',
+    '',
+    '- Variables are sent as a JSON object mapping `"1"`, `"2"`, etc. to their values. Body variables come first; a URL button\'s variable continues the numbering.',
+    '- Header documents are passed as `document` (the file URL) and `filename`.',
+    '- `/api/send-sms` tries a template\'s providers in the order listed and answers 400 when none of them is configured.',
+    '- `/api/send-sms` takes the ID token of clinic staff or of the server worker. Templates sent outside the patient\'s 24-hour session window are billed to the clinic (the staff member\'s own clinic, or the outbox entry\'s for the server worker); the route answers 402 when the clinic is locked or out of credits.',
+    '- Free text (`text_message`) is not a template and is only sent inside the 24-hour session window, where it is free. SMS always costs a credit.',
+    '',
+    '> [!IMPORTANT]',
+    '> Ensure that the WhatsApp number is correctly configured with each provider and that recipients have opted in before the first message.',
+    ''
+  );
+
+  return lines.join('\n');
+}
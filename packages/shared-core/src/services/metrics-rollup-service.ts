@@ -0,0 +1,477 @@
+/**
+ * Daily Metrics Rollups
+ *
+ * Superadmin dashboards used to load every clinic, patient and appointment and
+ * count in the browser. Instead a scheduled job writes one `metrics_daily` doc
+ * per clinic per day plus a platform-wide one (see DailyMetricsRollup), and the
+ * dashboards sum those.
+ *
+ * A run rebuilds whole days from the source collections, so re-running a day is
+ * always safe. The cron resumes from the last day it finished (see
+ * refreshMetricsRollups); older days are filled in with a backfill range.
+ * Outcomes are read through `Appointment.dateKey`, so appointments must have
+ * been through scripts/migrate-appointment-date-keys.ts.
+ */
+
+import {
+  collection,
+  doc,
+  documentId,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+  writeBatch,
+  type Firestore,
+} from 'firebase/firestore';
+import { addDays, differenceInCalendarDays, format, parse } from 'date-fns';
+import type { Appointment, Clinic, DailyMetricsRollup } from '@kloqo/shared-types';
+import { getClinicNow, getClinicTimeContext, type ClinicTimeContext } from '../utils/date-utils';
+import { isDateKey, toDateKey } from '../utils/date-keys';
+import { OUTBOX_COLLECTION } from './notification-outbox-service';
+
+export const METRICS_DAILY_COLLECTION = 'metrics_daily';
+
+// metrics_daily/_progress remembers the last day a scheduled run completed
+const PROGRESS_DOC_ID = '_progress';
+const PLATFORM_ROLLUP_PREFIX = 'platform';
+
+// A scheduled run that has fallen further behind than this only catches up this
+// far; anything older needs a backfill
+export const MAX_CATCH_UP_DAYS = 31;
+export const MAX_BACKFILL_DAYS = 366;
+
+const BREAK_PATIENT_ID = 'dummy-break-patient';
+const RETENTION_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A booking as the rollups see it: who booked where, and the day it was made on
+ * the clinic's calendar.
+ */
+export interface RollupBooking {
+  id: string;
+  clinicId: string;
+  patientId: string;
+  bookedVia: string;
+  createdAt: Date;
+  dateKey: string;
+}
+
+export interface RollupOutcome {
+  clinicId: string;
+  status: Appointment['status'];
+  isRescheduled?: boolean;
+}
+
+export interface RollupMessage {
+  clinicId: string | null;
+  failed: boolean;
+}
+
+export type PlatformSnapshot = Pick<
+  DailyMetricsRollup,
+  'newClinics' | 'clinicsTotal' | 'clinicsActive' | 'patientSignups' | 'patientsTotal'
+>;
+
+export interface DailyRollupInput {
+  dateKey: string;
+  clinicIds: string[];       // every clinic gets a doc, even on a quiet day
+  history: RollupBooking[];  // all bookings of the patients who booked that day, on any day
+  outcomes: RollupOutcome[]; // appointments dated that day
+  messages: RollupMessage[]; // WhatsApp messages queued that day
+  platform: PlatformSnapshot;
+}
+
+// The counters a day adds up; what a range of days is summed into
+const COUNTERS = [
+  'bookings',
+  'completed',
+  'noShows',
+  'cancelled',
+  'newPatients',
+  'returningPatients',
+  'monthlyActivePatients',
+  'secondBookings',
+  'secondBookingsWithin30Days',
+  'whatsappMessages',
+  'whatsappFailed',
+] as const;
+
+export type MetricsRollupTotals = Pick<DailyMetricsRollup, (typeof COUNTERS)[number] | 'bookingsByChannel'> & {
+  days: number;
+};
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+export function getMetricsRollupId(dateKey: string, clinicId?: string | null): string {
+  return `${clinicId || PLATFORM_ROLLUP_PREFIX}_${dateKey}`;
+}
+
+/**
+ * Every date key from `fromKey` to `toKey`, inclusive.
+ */
+export function getDateKeyRange(fromKey: string, toKey: string): string[] {
+  const from = parse(fromKey, 'yyyy-MM-dd', new Date());
+  const days = differenceInCalendarDays(parse(toKey, 'yyyy-MM-dd', new Date()), from);
+  return Array.from({ length: Math.max(days + 1, 0) }, (_, i) => format(addDays(from, i), 'yyyy-MM-dd'));
+}
+
+function shiftDateKey(dateKey: string, days: number): string {
+  return format(addDays(parse(dateKey, 'yyyy-MM-dd', new Date()), days), 'yyyy-MM-dd');
+}
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === 'function') return value.toDate();
+  if (typeof value.seconds === 'number') return new Date(value.seconds * 1000);
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * The appointment as a rollup booking, or null when it isn't one a patient made:
+ * break blocks, and the replacement written when an appointment is rescheduled
+ * (the original already counted).
+ */
+export function toRollupBooking(
+  appointment: Pick<Appointment, 'id' | 'clinicId' | 'patientId' | 'bookedVia' | 'status' | 'isRescheduled' | 'createdAt'>,
+  context?: ClinicTimeContext
+): RollupBooking | null {
+  if (!appointment.patientId || appointment.patientId === BREAK_PATIENT_ID) return null;
+  if ((appointment.bookedVia as string) === 'BreakBlock') return null;
+  if (appointment.isRescheduled && appointment.status !== 'Cancelled') return null;
+
+  const createdAt = toDate(appointment.createdAt);
+  const dateKey = createdAt ? toDateKey(createdAt, context) : null;
+  if (!createdAt || !dateKey) return null;
+
+  return {
+    id: appointment.id,
+    clinicId: appointment.clinicId,
+    patientId: appointment.patientId,
+    bookedVia: appointment.bookedVia || 'Unknown',
+    createdAt,
+    dateKey,
+  };
+}
+
+function emptyRollup(dateKey: string, clinicId: string | null): DailyMetricsRollup {
+  return {
+    id: getMetricsRollupId(dateKey, clinicId),
+    scope: clinicId ? 'clinic' : 'platform',
+    clinicId,
+    dateKey,
+    bookings: 0,
+    bookingsByChannel: {},
+    completed: 0,
+    noShows: 0,
+    cancelled: 0,
+    newPatients: 0,
+    returningPatients: 0,
+    monthlyActivePatients: 0,
+    secondBookings: 0,
+    secondBookingsWithin30Days: 0,
+    whatsappMessages: 0,
+    whatsappFailed: 0,
+  };
+}
+
+/**
+ * New vs returning, monthly active and second bookings, from each patient's
+ * bookings at the rollup's scope. A patient counts once a day however often
+ * they booked.
+ */
+function countPatients(rollup: DailyMetricsRollup, history: RollupBooking[]): void {
+  const byPatient = new Map<string, RollupBooking[]>();
+  for (const booking of history) {
+    if (!byPatient.has(booking.patientId)) byPatient.set(booking.patientId, []);
+    byPatient.get(booking.patientId)!.push(booking);
+  }
+
+  const month = rollup.dateKey.slice(0, 7);
+  byPatient.forEach(bookings => {
+    bookings.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id));
+    const firstToday = bookings.findIndex(b => b.dateKey === rollup.dateKey);
+    if (firstToday === -1) return;
+
+    const earlier = bookings.slice(0, firstToday);
+    if (earlier.length === 0) rollup.newPatients++;
+    else rollup.returningPatients++;
+
+    if (!earlier.some(b => b.dateKey.startsWith(month))) rollup.monthlyActivePatients++;
+
+    if (bookings.length > 1 && bookings[1].dateKey === rollup.dateKey) {
+      rollup.secondBookings++;
+      const gapDays = Math.floor((bookings[1].createdAt.getTime() - bookings[0].createdAt.getTime()) / DAY_MS);
+      if (gapDays <= RETENTION_WINDOW_DAYS) rollup.secondBookingsWithin30Days++;
+    }
+  });
+}
+
+/**
+ * One day's rollups: a doc per clinic, then the platform doc. Platform counts
+ * are the clinics' sums, except patients, who are new or returning to Kloqo as
+ * a whole rather than to a clinic.
+ */
+export function buildDailyMetricsRollups(input: DailyRollupInput): DailyMetricsRollup[] {
+  const { dateKey } = input;
+  const clinics = new Map<string, DailyMetricsRollup>();
+  const forClinic = (clinicId: string) => {
+    if (!clinics.has(clinicId)) clinics.set(clinicId, emptyRollup(dateKey, clinicId));
+    return clinics.get(clinicId)!;
+  };
+  input.clinicIds.forEach(forClinic);
+
+  const historyByClinic = new Map<string, RollupBooking[]>();
+  for (const booking of input.history) {
+    if (!historyByClinic.has(booking.clinicId)) historyByClinic.set(booking.clinicId, []);
+    historyByClinic.get(booking.clinicId)!.push(booking);
+
+    if (booking.dateKey !== dateKey) continue;
+    const rollup = forClinic(booking.clinicId);
+    rollup.bookings++;
+    rollup.bookingsByChannel[booking.bookedVia] = (rollup.bookingsByChannel[booking.bookedVia] || 0) + 1;
+  }
+  historyByClinic.forEach((history, clinicId) => countPatients(forClinic(clinicId), history));
+
+  for (const outcome of input.outcomes) {
+    const rollup = forClinic(outcome.clinicId);
+    if (outcome.status === 'Completed') rollup.completed++;
+    else if (outcome.status === 'No-show') rollup.noShows++;
+    else if (outcome.status === 'Cancelled' && !outcome.isRescheduled) rollup.cancelled++;
+  }
+
+  const platform = emptyRollup(dateKey, null);
+  for (const message of input.messages) {
+    const rollup = message.clinicId ? forClinic(message.clinicId) : platform;
+    rollup.whatsappMessages++;
+    if (message.failed) rollup.whatsappFailed++;
+  }
+
+  const clinicRollups = Array.from(clinics.values());
+  const totals = sumMetricsRollups([...clinicRollups, platform]);
+  countPatients(platform, input.history);
+
+  return [
+    ...clinicRollups,
+    {
+      ...platform,
+      bookings: totals.bookings,
+      bookingsByChannel: totals.bookingsByChannel,
+      completed: totals.completed,
+      noShows: totals.noShows,
+      cancelled: totals.cancelled,
+      whatsappMessages: totals.whatsappMessages,
+      whatsappFailed: totals.whatsappFailed,
+      ...input.platform,
+    },
+  ];
+}
+
+/**
+ * Adds up a range of daily rollups of the same scope.
+ */
+export function sumMetricsRollups(rollups: DailyMetricsRollup[]): MetricsRollupTotals {
+  const totals = { days: rollups.length, bookingsByChannel: {} } as MetricsRollupTotals;
+  COUNTERS.forEach(counter => { totals[counter] = 0; });
+
+  for (const rollup of rollups) {
+    COUNTERS.forEach(counter => { totals[counter] += rollup[counter] || 0; });
+    Object.entries(rollup.bookingsByChannel || {}).forEach(([channel, count]) => {
+      totals.bookingsByChannel[channel] = (totals.bookingsByChannel[channel] || 0) + count;
+    });
+  }
+  return totals;
+}
+
+/**
+ * Percentage of patients who came back within 30 days, among those who came back
+ * at all. Over all history this matches the old in-browser calculation.
+ */
+export function getRollupRetentionRate(totals: Pick<MetricsRollupTotals, 'secondBookings' | 'secondBookingsWithin30Days'>): number {
+  if (totals.secondBookings === 0) return 0;
+  return (totals.secondBookingsWithin30Days / totals.secondBookings) * 100;
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+/**
+ * Rollups for one clinic, or the platform, between two date keys (inclusive),
+ * oldest first. Ranges over the document id, so no composite index is needed.
+ */
+export async function fetchMetricsRollups(
+  firestore: Firestore,
+  fromKey: string,
+  toKey: string,
+  clinicId?: string | null
+): Promise<DailyMetricsRollup[]> {
+  const snapshot = await getDocs(query(
+    collection(firestore, METRICS_DAILY_COLLECTION),
+    where(documentId(), '>=', getMetricsRollupId(fromKey, clinicId)),
+    where(documentId(), '<=', getMetricsRollupId(toKey, clinicId))
+  ));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as DailyMetricsRollup));
+}
+
+async function fetchPatientHistory(
+  firestore: Firestore,
+  patientIds: string[],
+  contexts: Map<string, ClinicTimeContext>
+): Promise<RollupBooking[]> {
+  const history = new Map<string, RollupBooking>();
+  for (let i = 0; i < patientIds.length; i += 30) {
+    const snapshot = await getDocs(query(
+      collection(firestore, 'appointments'),
+      where('patientId', 'in', patientIds.slice(i, i + 30))
+    ));
+    snapshot.docs.forEach(d => {
+      const data = d.data();
+      const booking = toRollupBooking({ id: d.id, ...data } as Appointment, contexts.get(data.clinicId));
+      if (booking) history.set(booking.id, booking);
+    });
+  }
+  return Array.from(history.values());
+}
+
+/**
+ * Rebuilds and writes the rollups for every day from `fromKey` to `toKey`.
+ * Bookings and messages are assigned to days on their clinic's calendar, so the
+ * source queries reach a day either side of the range.
+ */
+export async function buildMetricsRollups(
+  firestore: Firestore,
+  fromKey: string,
+  toKey: string
+): Promise<{ days: number; written: number }> {
+  const dateKeys = getDateKeyRange(fromKey, toKey);
+  const inRange = (dateKey: string | null): dateKey is string => !!dateKey && dateKey >= fromKey && dateKey <= toKey;
+  const windowStart = new Date(`${shiftDateKey(fromKey, -1)}T00:00:00Z`);
+  const windowEnd = new Date(`${shiftDateKey(toKey, 2)}T00:00:00Z`);
+  const platformContext = getClinicTimeContext(null);
+
+  const clinicsSnap = await getDocs(collection(firestore, 'clinics'));
+  const clinics = clinicsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Clinic));
+  const contexts = new Map(clinics.map(clinic => [clinic.id, getClinicTimeContext(clinic)]));
+
+  const [createdSnap, outcomesSnap, outboxSnap, signupsSnap, patientsBefore] = await Promise.all([
+    getDocs(query(collection(firestore, 'appointments'), where('createdAt', '>=', windowStart), where('createdAt', '<', windowEnd))),
+    getDocs(query(collection(firestore, 'appointments'), where('dateKey', '>=', fromKey), where('dateKey', '<=', toKey))),
+    getDocs(query(collection(firestore, OUTBOX_COLLECTION), where('createdAt', '>=', windowStart), where('createdAt', '<', windowEnd))),
+    getDocs(query(collection(firestore, 'patients'), where('createdAt', '>=', windowStart), where('createdAt', '<', windowEnd))),
+    getCountFromServer(query(collection(firestore, 'patients'), where('createdAt', '<', windowStart))),
+  ]);
+
+  const bookedPatientIds = new Set<string>();
+  createdSnap.docs.forEach(d => {
+    const data = d.data();
+    const booking = toRollupBooking({ id: d.id, ...data } as Appointment, contexts.get(data.clinicId));
+    if (booking && inRange(booking.dateKey)) bookedPatientIds.add(booking.patientId);
+  });
+  const history = await fetchPatientHistory(firestore, Array.from(bookedPatientIds), contexts);
+
+  const signupDays = signupsSnap.docs
+    .map(d => toDate(d.data().createdAt))
+    .map(createdAt => (createdAt ? toDateKey(createdAt, platformContext) : null));
+  const registrationDays = clinics.map(clinic => {
+    const registeredAt = toDate(clinic.registrationDate);
+    return registeredAt ? toDateKey(registeredAt, platformContext) : null;
+  });
+
+  const rollups: DailyMetricsRollup[] = [];
+  for (const dateKey of dateKeys) {
+    const patientsOnDay = history.filter(b => b.dateKey === dateKey).map(b => b.patientId);
+    const bookedToday = new Set(patientsOnDay);
+
+    rollups.push(...buildDailyMetricsRollups({
+      dateKey,
+      clinicIds: clinics.map(clinic => clinic.id),
+      history: history.filter(b => bookedToday.has(b.patientId)),
+      outcomes: outcomesSnap.docs
+        .map(d => d.data())
+        .filter(data => data.dateKey === dateKey && data.patientId !== BREAK_PATIENT_ID)
+        .map(data => ({ clinicId: data.clinicId, status: data.status, isRescheduled: data.isRescheduled })),
+      messages: outboxSnap.docs
+        .map(d => d.data())
+        .filter(data => data.channel === 'whatsapp')
+        .filter(data => {
+          const createdAt = toDate(data.createdAt);
+          return createdAt && toDateKey(createdAt, contexts.get(data.clinicId) ?? platformContext) === dateKey;
+        })
+        .map(data => ({ clinicId: data.clinicId ?? null, failed: data.status === 'Failed' })),
+      platform: {
+        newClinics: registrationDays.filter(day => day === dateKey).length,
+        clinicsTotal: clinics.filter((_, i) => !registrationDays[i] || registrationDays[i]! <= dateKey).length,
+        clinicsActive: clinics.filter((clinic, i) =>
+          clinic.onboardingStatus === 'Completed' && (!registrationDays[i] || registrationDays[i]! <= dateKey)
+        ).length,
+        patientSignups: signupDays.filter(day => day === dateKey).length,
+        patientsTotal: patientsBefore.data().count + signupDays.filter(day => !!day && day <= dateKey).length,
+      },
+    }));
+  }
+
+  for (let i = 0; i < rollups.length; i += 400) {
+    const batch = writeBatch(firestore);
+    for (const { id, ...rollup } of rollups.slice(i, i + 400)) {
+      batch.set(doc(firestore, METRICS_DAILY_COLLECTION, id), { ...rollup, updatedAt: serverTimestamp() });
+    }
+    await batch.commit();
+  }
+
+  console.log(`[MetricsRollups] Wrote ${rollups.length} rollups for ${fromKey}..${toKey}`);
+  return { days: dateKeys.length, written: rollups.length };
+}
+
+/**
+ * The scheduled job. Without a range it rebuilds from the last day a run
+ * completed up to today (India time), then records yesterday as completed;
+ * today is rebuilt again next run. With `from` (and optionally `to`) it
+ * backfills that range and leaves the progress alone.
+ */
+export async function refreshMetricsRollups(
+  firestore: Firestore,
+  options: { from?: string; to?: string } = {},
+  now: Date = getClinicNow()
+): Promise<{ from: string; to: string; days: number; written: number }> {
+  const today = toDateKey(now, getClinicTimeContext(null))!;
+  const yesterday = shiftDateKey(today, -1);
+
+  if (options.from || options.to) {
+    const from = options.from;
+    const to = options.to || today;
+    if (!isDateKey(from) || !isDateKey(to)) {
+      throw new Error('Backfill range must be given as yyyy-MM-dd dates');
+    }
+    if (from > to) {
+      throw new Error(`Backfill range starts after it ends (${from} > ${to})`);
+    }
+    if (getDateKeyRange(from, to).length > MAX_BACKFILL_DAYS) {
+      throw new Error(`Backfill at most ${MAX_BACKFILL_DAYS} days at a time`);
+    }
+    return { from, to, ...(await buildMetricsRollups(firestore, from, to)) };
+  }
+
+  const progressRef = doc(firestore, METRICS_DAILY_COLLECTION, PROGRESS_DOC_ID);
+  const progressSnap = await getDoc(progressRef);
+  const lastCompleted = progressSnap.exists() ? progressSnap.data().lastCompletedDateKey : null;
+  const earliest = shiftDateKey(today, -MAX_CATCH_UP_DAYS);
+
+  let from = isDateKey(lastCompleted) ? lastCompleted : yesterday;
+  if (from < earliest) {
+    console.warn(`[MetricsRollups] Last completed day ${from} is too far back; days before ${earliest} need a backfill`);
+    from = earliest;
+  }
+
+  const result = await buildMetricsRollups(firestore, from, today);
+  await setDoc(progressRef, { lastCompletedDateKey: yesterday, updatedAt: serverTimestamp() });
+  return { from, to: today, ...result };
+}
@@ -1,9 +1,18 @@
 /**
  * Notification Configuration Service
  * Manages WhatsApp notification toggle settings from Firestore
+ *
+ * Whether a notification goes out is decided in layers: the global toggle set by
+ * Super Admin, then the clinic's notificationPreferences, then the patient's
+ * (stored on their users doc). Quiet hours from the clinic or the patient hold
+ * back everything except live queue updates: the outbox keeps those notifications
+ * and sends them when the quiet hours end.
  */
 
-import { Firestore, doc, getDoc, collection } from 'firebase/firestore';
+import { Firestore, doc, getDoc, collection, query, where, getDocs, updateDoc, serverTimestamp } from 'firebase/firestore';
+import type { NotificationChannel, NotificationPreferences, QuietHours } from '@kloqo/shared-types';
+import { addDays } from 'date-fns';
+import { getClinic24hTimeString, getClinicNow, getClinicTimeContext, parseClinicTime, type ClinicTimeContext } from '../utils/date-utils';
 
 // Notification type identifiers
 export const NOTIFICATION_TYPES = {
@@ -21,6 +30,8 @@ export const NOTIFICATION_TYPES = {
     CONSULTATION_COMPLETED: 'consultation_completed',
     AI_FALLBACK: 'ai_fallback',
     BOOKING_LINK: 'booking_link',
+    WAITLIST_OFFER: 'waitlist_offer',
+    PRESCRIPTION_READY: 'prescription_ready',
 } as const;
 
 export type NotificationType = typeof NOTIFICATION_TYPES[keyof typeof NOTIFICATION_TYPES];
@@ -37,18 +48,256 @@ export interface NotificationConfig {
     updatedBy?: string;
 }
 
+export interface NotificationContext {
+    clinicId?: string;
+    patientId?: string;
+    now?: Date;
+}
+
+export interface NotificationDecision {
+    allowed: boolean;
+    reason?: 'disabled_globally' | 'disabled_by_clinic' | 'disabled_by_patient' | 'quiet_hours';
+    // Quiet hours: the notification is still sent, but not before this
+    deferUntil?: Date;
+}
+
 // Cache for notification settings (5 minute TTL)
 const notificationCache = new Map<string, { enabled: boolean; timestamp: number }>();
+const preferencesCache = new Map<string, { preferences: NotificationPreferences | null; timeContext?: ClinicTimeContext; timestamp: number }>();
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * True when `now` (in clinic time) falls inside the quiet hours. The end time is exclusive.
+ */
+export function isWithinQuietHours(
+    quietHours: QuietHours | null | undefined,
+    now: Date,
+    timeContext?: ClinicTimeContext
+): boolean {
+    if (!quietHours?.start || !quietHours?.end || quietHours.start === quietHours.end) return false;
+
+    const current = getClinic24hTimeString(now, timeContext);
+    if (quietHours.start < quietHours.end) {
+        return current >= quietHours.start && current < quietHours.end;
+    }
+    // Wraps past midnight
+    return current >= quietHours.start || current < quietHours.end;
+}
+
+/**
+ * The next time the clinic clock reaches the end of the quiet hours
+ */
+export function getQuietHoursEnd(quietHours: QuietHours, now: Date, timeContext?: ClinicTimeContext): Date {
+    const end = parseClinicTime(quietHours.end, now, timeContext);
+    return end > now ? end : parseClinicTime(quietHours.end, addDays(now, 1), timeContext);
+}
+
+/**
+ * Live queue updates are only useful the moment they happen, so quiet hours never hold them back
+ */
+export function ignoresQuietHours(notificationType: NotificationType): boolean {
+    return NOTIFICATION_METADATA[notificationType]?.category === 'queue';
+}
+
+/**
+ * Applies the clinic and patient layers on top of the global toggle.
+ * Inside quiet hours the notification is allowed but deferred to their end.
+ */
+export function resolveNotificationDecision(params: {
+    notificationType: NotificationType;
+    channel: NotificationChannel;
+    globalEnabled: boolean;
+    clinicPreferences?: NotificationPreferences | null;
+    patientPreferences?: NotificationPreferences | null;
+    now: Date;
+    timeContext?: ClinicTimeContext;
+}): NotificationDecision {
+    const { notificationType, channel, globalEnabled, clinicPreferences, patientPreferences, now, timeContext } = params;
+
+    if (!globalEnabled) return { allowed: false, reason: 'disabled_globally' };
+    if (clinicPreferences?.types?.[notificationType]?.[channel] === false) {
+        return { allowed: false, reason: 'disabled_by_clinic' };
+    }
+    if (patientPreferences?.types?.[notificationType]?.[channel] === false) {
+        return { allowed: false, reason: 'disabled_by_patient' };
+    }
+    if (!ignoresQuietHours(notificationType)) {
+        const ends = [clinicPreferences?.quietHours, patientPreferences?.quietHours]
+            .filter((quietHours): quietHours is QuietHours => isWithinQuietHours(quietHours, now, timeContext))
+            .map(quietHours => getQuietHoursEnd(quietHours, now, timeContext).getTime());
+        if (ends.length > 0) {
+            return { allowed: true, reason: 'quiet_hours', deferUntil: new Date(Math.max(...ends)) };
+        }
+    }
+    return { allowed: true };
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+/**
+ * Finds the patient-app account that receives notifications for a patient.
+ * Relatives have no account of their own, so they resolve to the user with their communication phone.
+ */
+export async function resolvePatientUserId(firestore: Firestore, patientData: any): Promise<string | undefined> {
+    if (patientData.isPrimary && patientData.primaryUserId) {
+        return patientData.primaryUserId;
+    }
+
+    const communicationPhone = patientData.communicationPhone || patientData.phone || null;
+    if (!communicationPhone) return undefined;
+
+    try {
+        const usersQuery = query(
+            collection(firestore, 'users'),
+            where('phone', '==', communicationPhone),
+            where('role', '==', 'patient')
+        );
+        const usersSnapshot = await getDocs(usersQuery);
+        return usersSnapshot.empty ? undefined : usersSnapshot.docs[0].id;
+    } catch (error) {
+        console.error('Error searching for primary user by communicationPhone:', error);
+        return undefined;
+    }
+}
+
+/**
+ * The clinic's preferences, with its time context so quiet hours are read on its own clock
+ */
+async function getClinicNotificationPreferences(
+    firestore: Firestore,
+    clinicId: string
+): Promise<{ preferences: NotificationPreferences | null; timeContext: ClinicTimeContext }> {
+    const cacheKey = `clinic_${clinicId}`;
+    const cached = preferencesCache.get(cacheKey);
+    if (cached?.timeContext && (Date.now() - cached.timestamp) < CACHE_TTL) {
+        return { preferences: cached.preferences, timeContext: cached.timeContext };
+    }
+
+    const clinicSnap = await getDoc(doc(firestore, 'clinics', clinicId));
+    const clinicData = clinicSnap.exists() ? clinicSnap.data() : null;
+    const preferences = clinicData?.notificationPreferences ?? null;
+    const timeContext = getClinicTimeContext(clinicData);
+    preferencesCache.set(cacheKey, { preferences, timeContext, timestamp: Date.now() });
+    return { preferences, timeContext };
+}
+
+async function getPatientNotificationPreferences(firestore: Firestore, patientId: string): Promise<NotificationPreferences | null> {
+    const cacheKey = `patient_${patientId}`;
+    const cached = preferencesCache.get(cacheKey);
+    if (cached && (Date.now() - cached.timestamp) < CACHE_TTL) {
+        return cached.preferences;
+    }
+
+    let preferences: NotificationPreferences | null = null;
+    const patientSnap = await getDoc(doc(firestore, 'patients', patientId));
+    if (patientSnap.exists()) {
+        const userId = await resolvePatientUserId(firestore, patientSnap.data());
+        if (userId) {
+            const userSnap = await getDoc(doc(firestore, 'users', userId));
+            preferences = userSnap.exists() ? (userSnap.data().notificationPreferences ?? null) : null;
+        }
+    }
+    preferencesCache.set(cacheKey, { preferences, timestamp: Date.now() });
+    return preferences;
+}
+
+/**
+ * Decides whether a notification may be sent now, and if not, which layer blocked it.
+ * Without a context only the global toggle applies.
+ */
+export async function getNotificationDecision(
+    firestore: Firestore,
+    notificationType: NotificationType,
+    channel: NotificationChannel = 'whatsapp',
+    context: NotificationContext = {}
+): Promise<NotificationDecision> {
+    const globalEnabled = await isGloballyEnabled(firestore, notificationType, channel);
+    if (!globalEnabled) return { allowed: false, reason: 'disabled_globally' };
+
+    try {
+        const [clinic, patientPreferences] = await Promise.all([
+            context.clinicId ? getClinicNotificationPreferences(firestore, context.clinicId) : null,
+            context.patientId ? getPatientNotificationPreferences(firestore, context.patientId) : null,
+        ]);
+
+        const decision = resolveNotificationDecision({
+            notificationType,
+            channel,
+            globalEnabled,
+            clinicPreferences: clinic?.preferences,
+            patientPreferences,
+            now: context.now ?? getClinicNow(),
+            timeContext: clinic?.timeContext,
+        });
+        if (!decision.allowed) {
+            console.log(`[NotificationConfig] ${notificationType} (${channel}) blocked: ${decision.reason}`);
+        }
+        return decision;
+    } catch (error) {
+        console.error(`[NotificationConfig] Error reading notification preferences for ${notificationType} (${channel}):`, error);
+        // On error, fall back to the global toggle
+        return { allowed: true };
+    }
+}
+
+/**
+ * When quiet hours hold the notification back, the time it may go out; null to send now.
+ * Types outside NOTIFICATION_TYPES are never held.
+ */
+export async function getQuietHoursDeferral(
+    firestore: Firestore,
+    notificationType: string | undefined,
+    channel: NotificationChannel,
+    context: NotificationContext
+): Promise<Date | null> {
+    if (!notificationType || !(notificationType in NOTIFICATION_METADATA)) return null;
+    const decision = await getNotificationDecision(firestore, notificationType as NotificationType, channel, context);
+    return decision.deferUntil ?? null;
+}
+
 /**
  * Check if a notification type is enabled for a specific channel
- * Uses caching to minimize Firestore reads
+ * Pass a context to apply the clinic's and patient's preferences and quiet hours.
  */
 export async function isNotificationEnabled(
     firestore: Firestore,
     notificationType: NotificationType,
-    channel: 'whatsapp' | 'pwa' = 'whatsapp'
+    channel: NotificationChannel = 'whatsapp',
+    context?: NotificationContext
+): Promise<boolean> {
+    const decision = await getNotificationDecision(firestore, notificationType, channel, context);
+    return decision.allowed;
+}
+
+export async function updateClinicNotificationPreferences(
+    firestore: Firestore,
+    clinicId: string,
+    preferences: NotificationPreferences
+): Promise<void> {
+    await updateDoc(doc(firestore, 'clinics', clinicId), {
+        notificationPreferences: {
+            types: preferences.types ?? {},
+            quietHours: preferences.quietHours ?? null,
+            updatedAt: serverTimestamp(),
+        },
+    });
+    preferencesCache.delete(`clinic_${clinicId}`);
+}
+
+/**
+ * Global toggle set by Super Admin
+ * Uses caching to minimize Firestore reads
+ */
+async function isGloballyEnabled(
+    firestore: Firestore,
+    notificationType: NotificationType,
+    channel: NotificationChannel
 ): Promise<boolean> {
     try {
         // Check cache first
@@ -94,6 +343,7 @@ export async function isNotificationEnabled(
  */
 export function clearNotificationCache(): void {
     notificationCache.clear();
+    preferencesCache.clear();
     console.log('[NotificationConfig] Cache cleared');
 }
 
@@ -209,4 +459,16 @@ export const NOTIFICATION_METADATA: Record<NotificationType, { name: string; des
         category: 'booking',
         channels: ['whatsapp'],
     },
+    [NOTIFICATION_TYPES.WAITLIST_OFFER]: {
+        name: 'Waitlist Slot Offer',
+        description: 'Sent when a freed slot is offered to the next waitlisted patient. (WA Template: waitlist_slot_offer_ml)',
+        category: 'booking',
+        channels: ['whatsapp', 'pwa'],
+    },
+    [NOTIFICATION_TYPES.PRESCRIPTION_READY]: {
+        name: 'Prescription Ready',
+        description: 'Sent when the doctor saves the visit notes, with the prescription PDF. (WA Template: prescription_ready_ml)',
+        category: 'status',
+        channels: ['whatsapp', 'pwa'],
+    },
 };
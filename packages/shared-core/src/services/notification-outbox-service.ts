@@ -0,0 +1,478 @@
+/**
+ * Notification Outbox Service
+ *
+ * Every WhatsApp and push notification is written to `notification_outbox` before
+ * it is sent, so there is a durable record of what went out. The document id is the
+ * idempotency key: enqueueing the same notification twice sends it once. Failed
+ * sends are retried with exponential backoff by processNotificationOutbox, and
+ * WhatsApp status webhooks move sent entries on to Delivered, Read or Failed.
+ * Notifications queued during the clinic's or patient's quiet hours are only due
+ * once the quiet hours end.
+ *
+ * Browsers may only create Pending entries (see the firestore.rules); every attempt
+ * and status change is written by the server worker, through the nurse app's
+ * /api/notification-outbox/deliver route for sends queued from a browser.
+ */
+
+import {
+  arrayUnion,
+  collection,
+  doc,
+  getDocs,
+  limit,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where,
+  type Firestore,
+} from 'firebase/firestore';
+import type {
+  NotificationChannel,
+  NotificationOutboxEntry,
+  NotificationOutboxPayload,
+  NotificationOutboxStatus,
+} from '@kloqo/shared-types';
+import { getQuietHoursDeferral } from './notification-config';
+import { getCurrentIdToken, postToNurseApp } from '../utils/nurse-app-api';
+
+declare const window: any;
+
+export const OUTBOX_COLLECTION = 'notification_outbox';
+export const OUTBOX_MAX_ATTEMPTS = 5;
+const OUTBOX_BASE_RETRY_MS = 30 * 1000;
+const OUTBOX_MAX_RETRY_MS = 60 * 60 * 1000;
+// A claimed entry becomes due again after this long if its sender never reports back
+const OUTBOX_CLAIM_MS = 2 * 60 * 1000;
+
+/**
+ * What a send* function knows about the notification it is sending
+ */
+export interface OutboxOptions {
+  key?: string;               // idempotency key, see buildOutboxKey
+  notificationType?: string;
+  appointmentId?: string;
+  patientId?: string;
+}
+
+export interface EnqueueNotificationParams extends OutboxOptions {
+  channel: NotificationChannel;
+  clinicId?: string;
+  to?: string;
+  payload: NotificationOutboxPayload;
+  deferUntil?: Date | null;   // first attempt no earlier than this (quiet hours)
+}
+
+interface DispatchResult {
+  ok: boolean;
+  providerMessageId?: string;
+  error?: string;
+  permanent?: boolean; // retrying cannot help, e.g. the clinic is out of WhatsApp credits
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * Joins the parts that make a notification unique into a Firestore-safe document id
+ */
+export function buildOutboxKey(...parts: Array<string | number | null | undefined>): string {
+  return parts
+    .filter(part => part !== undefined && part !== null && part !== '')
+    .map(part => String(part).replace(/[\/\s]+/g, '-'))
+    .join(':');
+}
+
+/**
+ * Backoff before the next attempt once `attempts` sends have failed: 30s, 1m, 2m, 4m... capped at an hour
+ */
+export function getOutboxRetryDelayMs(attempts: number): number {
+  return Math.min(OUTBOX_BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), OUTBOX_MAX_RETRY_MS);
+}
+
+const STATUS_RANK: Record<NotificationOutboxStatus, number> = {
+  Pending: 0,
+  Sent: 1,
+  Delivered: 2,
+  Read: 3,
+  Failed: 1,
+};
+
+/**
+ * Webhooks can arrive out of order; a status never moves an entry backwards.
+ * Failed only applies before the message is known to have been delivered.
+ */
+export function canApplyDeliveryStatus(current: NotificationOutboxStatus, incoming: NotificationOutboxStatus): boolean {
+  if (current === incoming || current === 'Failed') return false;
+  if (incoming === 'Failed') return current === 'Pending' || current === 'Sent';
+  return STATUS_RANK[incoming] > STATUS_RANK[current];
+}
+
+/**
+ * Maps a Meta webhook status ("sent", "delivered", "read", "failed") to an outbox status
+ */
+export function mapWhatsAppDeliveryStatus(status: string): NotificationOutboxStatus | null {
+  switch (status) {
+    case 'sent': return 'Sent';
+    case 'delivered': return 'Delivered';
+    case 'read': return 'Read';
+    case 'failed': return 'Failed';
+    default: return null;
+  }
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+/**
+ * Calls the clinic app's /api/send-sms route as the signed-in staff member or the
+ * server worker. The route bills paid templates to the clinic; 402 means the clinic
+ * is locked or out of credits.
+ */
+export async function postWhatsAppMessage(
+  to: string,
+  payload: NotificationOutboxPayload,
+  clinicId?: string,
+  firestore?: Firestore
+): Promise<DispatchResult> {
+  const { message, contentSid, contentVariables } = payload;
+
+  let baseUrl: string;
+  if (typeof window !== 'undefined') {
+    // Use the current origin (nurse.kloqo.com, admin.kloqo.com, or localhost)
+    baseUrl = window.location.origin;
+  } else {
+    // Fallback for server-side or non-browser environments
+    baseUrl = process.env.NEXT_PUBLIC_BASE_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'https://app.kloqo.com');
+  }
+
+  const apiUrl = `${baseUrl}/api/send-sms`;
+  console.log(`[WhatsApp] 🎯 DEBUG: Calling WhatsApp API: ${apiUrl} for: ${to} (BaseURL: ${baseUrl})`);
+  if (contentSid || contentVariables) {
+    console.log(`[META-DEBUG] 🧩 Template: ${contentSid}`);
+    console.log(`[META-DEBUG] 📝 Variables:`, JSON.stringify(contentVariables, null, 2));
+  } else if (message) {
+    console.log(`[META-DEBUG] 💬 Text: ${message}`);
+  }
+
+  try {
+    const idToken = await getCurrentIdToken(firestore);
+    if (!idToken) {
+      return { ok: false, error: 'Not signed in' };
+    }
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: JSON.stringify({
+        to,
+        message,
+        channel: 'whatsapp',
+        contentSid,
+        contentVariables,
+        clinicId,
+      }),
+    });
+
+    const result = await response.json().catch(() => ({})) as any;
+    if (!response.ok) {
+      console.error(`[WhatsApp] ❌ API Failed for ${to}:`, response.statusText, response.status);
+      return { ok: false, error: result.error || `${response.status} ${response.statusText}`, permanent: response.status === 402 };
+    }
+
+    console.log(`[WhatsApp] ✅ Successfully triggered WhatsApp for ${to}`);
+    return { ok: true, providerMessageId: result.messageId };
+  } catch (error) {
+    console.error('[WhatsApp] ❌ Error calling WhatsApp API:', error);
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Calls the patient app's /api/send-notification route, which delivers through FCM
+ */
+export async function postPushNotification(payload: NotificationOutboxPayload): Promise<DispatchResult> {
+  // PWA notifications ALWAYS handled by the Patient App API
+  let baseUrl = 'https://app.kloqo.com';
+
+  // Local development support
+  if (typeof window !== 'undefined' && window.location.hostname === 'localhost') {
+    baseUrl = 'http://localhost:3001'; // Patient app usually on 3001 in dev
+  }
+
+  const apiUrl = `${baseUrl}/api/send-notification`;
+  console.log(`[Notification] 🎯 DEBUG: Calling API: ${apiUrl} for user: ${payload.userId}`);
+
+  try {
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        userId: payload.userId, // Pass userId so the API can save to history
+        fcmToken: payload.fcmToken,
+        title: payload.title,
+        body: payload.body,
+        data: payload.data,
+        language: payload.language,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[Notification] ❌ API Failed for user ${payload.userId}:`, response.statusText, response.status, errorText);
+      return { ok: false, error: `${response.status} ${errorText || response.statusText}` };
+    }
+
+    const responseData = await response.json() as any;
+    console.log(`[Notification] ✅ Successfully sent to user ${payload.userId}:`, { title: payload.title, type: payload.data?.type, message: responseData.message });
+    return { ok: true };
+  } catch (error) {
+    console.error('[Notification] ❌ Error calling notification API:', error);
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Asks the nurse app to make the first attempt for an entry queued from a browser.
+ * When that fails the entry stays Pending and goes out with the next outbox run.
+ */
+export async function requestOutboxDelivery(firestore: Firestore, id: string): Promise<boolean> {
+  try {
+    const response = await postToNurseApp(firestore, '/api/notification-outbox/deliver', { id });
+    if (!response) {
+      console.warn(`[Outbox] ⏳ Not signed in. ${id} will be sent by the outbox worker.`);
+      return false;
+    }
+    if (!response.ok) {
+      console.error(`[Outbox] ❌ Delivery request for ${id} failed:`, response.result.error, response.status);
+      return false;
+    }
+    return response.result.sent === true;
+  } catch (error) {
+    console.error(`[Outbox] ❌ Error requesting delivery of ${id}:`, error);
+    return false;
+  }
+}
+
+function dispatchOutboxEntry(firestore: Firestore, entry: NotificationOutboxEntry): Promise<DispatchResult> {
+  if (entry.channel === 'whatsapp') {
+    return postWhatsAppMessage(entry.to || '', entry.payload, entry.clinicId, firestore);
+  }
+  return postPushNotification(entry.payload);
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+/**
+ * Writes a notification to the outbox. Returns created=false when an entry with the
+ * same idempotency key already exists, in which case nothing new is sent.
+ */
+export async function enqueueNotification(
+  firestore: Firestore,
+  params: EnqueueNotificationParams
+): Promise<{ id: string; created: boolean }> {
+  const outboxRef = params.key
+    ? doc(firestore, OUTBOX_COLLECTION, params.key)
+    : doc(collection(firestore, OUTBOX_COLLECTION));
+
+  const entry: Omit<NotificationOutboxEntry, 'id'> = {
+    channel: params.channel,
+    notificationType: params.notificationType,
+    clinicId: params.clinicId,
+    appointmentId: params.appointmentId,
+    patientId: params.patientId,
+    to: params.to,
+    payload: JSON.parse(JSON.stringify(params.payload)), // it is sent as JSON anyway; drops undefined values
+    status: 'Pending',
+    attempts: 0,
+    maxAttempts: OUTBOX_MAX_ATTEMPTS,
+    nextAttemptAt: params.deferUntil ? Timestamp.fromDate(params.deferUntil) : Timestamp.now(),
+    history: [{ status: 'Pending', at: new Date().toISOString() }],
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  };
+  const entryData = Object.fromEntries(Object.entries(entry).filter(([_, v]) => v !== undefined));
+
+  const created = await runTransaction(firestore, async (transaction) => {
+    const existing = await transaction.get(outboxRef);
+    if (existing.exists()) return false;
+    transaction.set(outboxRef, entryData);
+    return true;
+  });
+
+  if (!created) {
+    console.log(`[Outbox] ⏭️ ${outboxRef.id} was already queued. Skipping duplicate.`);
+  }
+  return { id: outboxRef.id, created };
+}
+
+/**
+ * Makes one delivery attempt for a due entry. The entry is claimed in a transaction
+ * first, so the immediate send and the retry worker never send it twice.
+ * Server-side only: the rules leave outbox updates to the server worker.
+ */
+export async function deliverOutboxEntry(firestore: Firestore, id: string): Promise<boolean> {
+  const outboxRef = doc(firestore, OUTBOX_COLLECTION, id);
+
+  const entry = await runTransaction(firestore, async (transaction) => {
+    const snap = await transaction.get(outboxRef);
+    if (!snap.exists()) return null;
+    const data = { id: snap.id, ...snap.data() } as NotificationOutboxEntry;
+    if (data.status !== 'Pending' || data.nextAttemptAt?.toMillis() > Date.now()) return null;
+
+    transaction.update(outboxRef, {
+      nextAttemptAt: Timestamp.fromMillis(Date.now() + OUTBOX_CLAIM_MS),
+      updatedAt: serverTimestamp(),
+    });
+    return data;
+  });
+  if (!entry) return false;
+
+  const result = await dispatchOutboxEntry(firestore, entry);
+  const attempts = entry.attempts + 1;
+  const at = new Date().toISOString();
+
+  if (result.ok) {
+    await updateDoc(outboxRef, {
+      status: 'Sent',
+      attempts,
+      ...(result.providerMessageId && { providerMessageId: result.providerMessageId }),
+      history: arrayUnion({ status: 'Sent', at }),
+      updatedAt: serverTimestamp(),
+    });
+    return true;
+  }
+
+  const error = result.error || 'Unknown error';
+  if (attempts >= entry.maxAttempts || result.permanent) {
+    console.error(`[Outbox] ❌ ${id} failed after ${attempts} attempts: ${error}`);
+    await updateDoc(outboxRef, {
+      status: 'Failed',
+      attempts,
+      lastError: error,
+      history: arrayUnion({ status: 'Failed', at, error }),
+      updatedAt: serverTimestamp(),
+    });
+  } else {
+    const delayMs = getOutboxRetryDelayMs(attempts);
+    console.warn(`[Outbox] 🔁 ${id} attempt ${attempts} failed. Retrying in ${Math.round(delayMs / 1000)}s: ${error}`);
+    await updateDoc(outboxRef, {
+      attempts,
+      lastError: error,
+      nextAttemptAt: Timestamp.fromMillis(Date.now() + delayMs),
+      history: arrayUnion({ status: 'Pending', at, error }),
+      updatedAt: serverTimestamp(),
+    });
+  }
+  return false;
+}
+
+/**
+ * Enqueues a notification and makes the first attempt right away: directly on the
+ * server, which runs as the server worker, and through the nurse app from a browser.
+ * During quiet hours it is left for the outbox run after they end. A duplicate of
+ * an already queued notification counts as handled, and so does a deferred one.
+ */
+export async function sendThroughOutbox(firestore: Firestore, params: EnqueueNotificationParams): Promise<boolean> {
+  const deferUntil = params.deferUntil ?? await getQuietHoursDeferral(firestore, params.notificationType, params.channel, {
+    clinicId: params.clinicId,
+    patientId: params.patientId,
+  });
+  const { id, created } = await enqueueNotification(firestore, { ...params, deferUntil });
+  if (!created) return true;
+  if (deferUntil) {
+    console.log(`[Outbox] 🌙 ${id} held for quiet hours until ${deferUntil.toISOString()}`);
+    return true;
+  }
+  if (typeof window !== 'undefined') {
+    return requestOutboxDelivery(firestore, id);
+  }
+  return deliverOutboxEntry(firestore, id);
+}
+
+/**
+ * Retries every entry that is due. Run on a schedule (see the nurse app's notification-outbox cron).
+ */
+export async function processNotificationOutbox(
+  firestore: Firestore,
+  options: { batchSize?: number } = {}
+): Promise<{ attempted: number; sent: number }> {
+  const dueQuery = query(
+    collection(firestore, OUTBOX_COLLECTION),
+    where('status', '==', 'Pending'),
+    where('nextAttemptAt', '<=', Timestamp.now()),
+    limit(options.batchSize ?? 50)
+  );
+  const snapshot = await getDocs(dueQuery);
+
+  let sent = 0;
+  for (const entryDoc of snapshot.docs) {
+    try {
+      if (await deliverOutboxEntry(firestore, entryDoc.id)) sent++;
+    } catch (error) {
+      console.error(`[Outbox] ❌ Error delivering ${entryDoc.id}:`, error);
+    }
+  }
+
+  return { attempted: snapshot.size, sent };
+}
+
+/**
+ * Applies a WhatsApp status webhook to the outbox entry that sent the message.
+ * Returns false when no entry matches or the status is stale.
+ */
+export async function recordWhatsAppDeliveryStatus(
+  firestore: Firestore,
+  providerMessageId: string,
+  whatsappStatus: string,
+  error?: string
+): Promise<boolean> {
+  const status = mapWhatsAppDeliveryStatus(whatsappStatus);
+  if (!status) return false;
+
+  const snapshot = await getDocs(query(
+    collection(firestore, OUTBOX_COLLECTION),
+    where('providerMessageId', '==', providerMessageId),
+    limit(1)
+  ));
+  if (snapshot.empty) return false;
+
+  const entryDoc = snapshot.docs[0];
+  const current = (entryDoc.data() as NotificationOutboxEntry).status;
+  if (!canApplyDeliveryStatus(current, status)) return false;
+
+  await updateDoc(entryDoc.ref, {
+    status,
+    ...(error && { lastError: error }),
+    history: arrayUnion({ status, at: new Date().toISOString(), ...(error && { error }) }),
+    updatedAt: serverTimestamp(),
+  });
+  return true;
+}
+
+/**
+ * Everything sent about one appointment, oldest first
+ */
+export async function getAppointmentNotificationHistory(
+  firestore: Firestore,
+  appointmentId: string
+): Promise<NotificationOutboxEntry[]> {
+  const snapshot = await getDocs(query(
+    collection(firestore, OUTBOX_COLLECTION),
+    where('appointmentId', '==', appointmentId)
+  ));
+
+  return snapshot.docs
+    .map(entryDoc => ({ id: entryDoc.id, ...entryDoc.data() } as NotificationOutboxEntry))
+    .sort((a, b) => (a.createdAt?.toMillis?.() ?? 0) - (b.createdAt?.toMillis?.() ?? 0));
+}
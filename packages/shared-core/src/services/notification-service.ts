@@ -4,35 +4,86 @@
  */
 
 import { Firestore, doc, getDoc, collection, query, where, getDocs, updateDoc } from 'firebase/firestore';
-import { parse, format, subMinutes, addMinutes, addDays } from 'date-fns';
+import { format, subMinutes, addMinutes, addDays } from 'date-fns';
 import { parseTime } from '../utils/break-helpers';
-import { getClinicTimeString, getClinicISOString, getClinicNow, getClinicDateString, parseClinicTime } from '../utils/date-utils';
+import {
+    getClinicDateString,
+    getClinicHour,
+    getClinicISOString,
+    getClinicNow,
+    getClinicTimeContext,
+    getClinicTimeString,
+    parseClinicDate,
+    type ClinicTimeContext,
+} from '../utils/date-utils';
 import { compareAppointments } from './appointment-service';
-import type { Appointment } from '@kloqo/shared-types';
+import type { Appointment, ConsultationTimeModel, Language } from '@kloqo/shared-types';
 import { MagicLinkService } from './magic-link-service';
 import { generateAndTrackMarketingLink, generateMarketingSuffix } from './marketing-link-service';
 import { WhatsAppSessionService } from './whatsapp-session-service';
-import { isNotificationEnabled, NOTIFICATION_TYPES } from './notification-config';
+import { getNotificationDecision, isNotificationEnabled, NOTIFICATION_TYPES, resolvePatientUserId } from './notification-config';
+import { requestAppointmentRefund } from './payment-service';
+import { DEFAULT_WHATSAPP_LANGUAGE, isSupportedLanguage, resolveLanguage, translate } from './message-catalog';
+import { buildTemplateVariables, type TemplateContentVariables, type WhatsAppTemplateName } from './message-templates';
+import { createConsultationPredictor, getConsultationTimeModel, predictWaitMinutes } from './consultation-time-service';
+import { getDisplayToken, recordTokenCall } from './queue-display-service';
+import {
+    buildOutboxKey,
+    postWhatsAppMessage,
+    sendThroughOutbox,
+    type OutboxOptions,
+} from './notification-outbox-service';
 
 declare const window: any;
 
 const CONSULTATION_NOTIFICATION_STATUSES = ['Pending', 'Confirmed', 'Skipped', 'Completed', 'No-show'] as const;
 
 /**
- * Helper to format date/time for WhatsApp in Malayalam
+ * Outbox key part for events that can legitimately repeat (token called again after a rejoin),
+ * so only repeats within the same minute, e.g. double taps or two devices, are dropped
+ */
+function currentMinuteKey(): string {
+    return format(getClinicNow(), 'yyyyMMddHHmm');
+}
+
+/**
+ * Language for a patient's WhatsApp text messages: the patient's own choice,
+ * then the language of the linked app user, then Malayalam
+ */
+async function getPatientLanguage(firestore: Firestore, patientId?: string): Promise<Language> {
+    if (!patientId) return DEFAULT_WHATSAPP_LANGUAGE;
+
+    try {
+        const patientDoc = await getDoc(doc(firestore, 'patients', patientId));
+        if (!patientDoc.exists()) return DEFAULT_WHATSAPP_LANGUAGE;
+
+        const patientData = patientDoc.data();
+        if (isSupportedLanguage(patientData.language)) return patientData.language;
+
+        const userId = await resolvePatientUserId(firestore, patientData);
+        const userDoc = userId ? await getDoc(doc(firestore, 'users', userId)) : null;
+        return resolveLanguage([userDoc?.data()?.language], DEFAULT_WHATSAPP_LANGUAGE);
+    } catch (error) {
+        console.error(`[Notification] ❌ Error resolving language for patient ${patientId}:`, error);
+        return DEFAULT_WHATSAPP_LANGUAGE;
+    }
+}
+
+/**
+ * Helper to format date/time for WhatsApp templates, which are approved in Malayalam
  * Returns "ഇന്ന് [Time]" or "നാളെ [Time]" or "[Date] [Time]"
  */
-function getMalayalamFriendlyDateTime(dateStr: string, timeStr: string): string {
+function getMalayalamFriendlyDateTime(dateStr: string, timeStr: string, timeContext?: ClinicTimeContext): string {
     try {
         const now = getClinicNow();
-        const today = getClinicDateString(now);
-        const tomorrow = getClinicDateString(addDays(now, 1));
+        const today = getClinicDateString(now, timeContext);
+        const tomorrow = getClinicDateString(addDays(now, 1), timeContext);
 
         let prefix = '';
         if (dateStr === today) {
-            prefix = 'ഇന്ന്'; // Today
+            prefix = translate('ml', 'date.today');
         } else if (dateStr === tomorrow) {
-            prefix = 'നാളെ'; // Tomorrow
+            prefix = translate('ml', 'date.tomorrow');
         } else {
             prefix = dateStr;
         }
@@ -50,9 +101,11 @@ export async function sendNotificationToPatient(params: {
     title: string;
     body: string;
     data: any;
+    clinicId?: string;
+    outbox?: OutboxOptions;
 }): Promise<boolean> {
     try {
-        const { firestore, patientId, title, body, data } = params;
+        const { firestore, patientId, title, body, data, clinicId, outbox } = params;
 
         // Get patient document to find primaryUserId
         const patientDoc = await getDoc(doc(firestore, 'patients', patientId));
@@ -62,37 +115,7 @@ export async function sendNotificationToPatient(params: {
         }
 
         const patientData = patientDoc.data();
-        let userId: string | undefined;
-
-        // User resolution logic based on isPrimary flag
-        if (patientData.isPrimary) {
-            userId = patientData.primaryUserId;
-        } else {
-            // Fallthrough to phone lookup logic below
-        }
-
-        // Search by phone if userId is not set (either !isPrimary or primaryUserId was missing/null)
-        if (!userId) {
-            const communicationPhone = patientData.communicationPhone || patientData.phone || null;
-
-            if (communicationPhone) {
-                try {
-                    const usersQuery = query(
-                        collection(firestore, 'users'),
-                        where('phone', '==', communicationPhone),
-                        where('role', '==', 'patient')
-                    );
-                    const usersSnapshot = await getDocs(usersQuery);
-
-                    if (!usersSnapshot.empty) {
-                        const primaryUserDoc = usersSnapshot.docs[0];
-                        userId = primaryUserDoc.id;
-                    }
-                } catch (error) {
-                    console.error('Error searching for primary user by communicationPhone:', error);
-                }
-            }
-        }
+        const userId = await resolvePatientUserId(firestore, patientData);
 
         if (!userId) {
             console.warn(`[Notification] ⚠️ Could not resolve userId for patient ${patientId}. isPrimary: ${patientData.isPrimary}, primaryUserId: ${patientData.primaryUserId}, communicationPhone: ${patientData.communicationPhone || patientData.phone}`);
@@ -124,45 +147,17 @@ export async function sendNotificationToPatient(params: {
 
         console.log(`[Notification] 🎯 DEBUG: Found FCM Token (prefix): ${fcmToken.substring(0, 10)}... for user: ${userId}`);
 
-        const language = userData.language || 'en';
-
-        // Build API URL - PWA notifications ALWAYS handled by the Patient App API
-        let baseUrl = 'https://app.kloqo.com';
-
-        // Local development support
-        if (typeof window !== 'undefined' && window.location.hostname === 'localhost') {
-            baseUrl = 'http://localhost:3001'; // Patient app usually on 3001 in dev
-        }
+        const language = resolveLanguage([patientData.language, userData.language]);
 
-        const apiUrl = `${baseUrl}/api/send-notification`;
-        console.log(`[Notification] 🎯 DEBUG: Calling API: ${apiUrl} for patient: ${patientId}`);
-
-        // Send notification via API
-        const response = await fetch(apiUrl, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                userId, // Pass userId so the API can save to history
-                fcmToken,
-                title,
-                body,
-                data,
-                language,
-            }),
+        return await sendThroughOutbox(firestore, {
+            ...outbox,
+            channel: 'pwa',
+            notificationType: outbox?.notificationType || data?.type,
+            appointmentId: outbox?.appointmentId || data?.appointmentId,
+            patientId,
+            clinicId,
+            payload: { userId, fcmToken, title, body, data, language },
         });
-
-        if (!response.ok) {
-            console.error(`[Notification] ❌ API Failed for patient ${patientId}:`, response.statusText, response.status);
-            const errorText = await response.text();
-            console.error(`[Notification] ❌ API Error Body:`, errorText);
-            return false;
-        }
-
-        const responseData = await response.json() as any;
-        console.log(`[Notification] ✅ Successfully sent to patient ${patientId} (user: ${userId}):`, { title, type: data?.type, message: responseData.message });
-        return true;
     } catch (error) {
         console.error('🔔 DEBUG: Error sending notification to patient:', error);
         if (error instanceof Error) {
@@ -174,56 +169,29 @@ export async function sendNotificationToPatient(params: {
 
 /**
  * Send WhatsApp message using the clinic's local API
+ * With firestore the message goes through the notification outbox (retries, dedup, delivery status).
+ * /api/send-sms decides which clinic pays for paid templates (see resolveMessageBilling).
  */
 export async function sendWhatsAppMessage(params: {
     to: string;
     message?: string;
     contentSid?: string;
     contentVariables?: any;
+    firestore?: Firestore;
+    clinicId?: string;
+    free?: boolean; // sent inside the 24h customer service window; recorded in the outbox only
+    outbox?: OutboxOptions;
 }): Promise<boolean> {
     try {
-        const { to, message, contentSid, contentVariables } = params;
-
-        // Build API URL
-        let baseUrl: string;
-        if (typeof window !== 'undefined') {
-            // Use the current origin (nurse.kloqo.com, admin.kloqo.com, or localhost)
-            baseUrl = window.location.origin;
-        } else {
-            // Fallback for server-side or non-browser environments
-            baseUrl = process.env.NEXT_PUBLIC_BASE_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'https://app.kloqo.com');
-        }
+        const { to, message, contentSid, contentVariables, firestore, clinicId, free = false, outbox } = params;
+        const payload = { message, contentSid, contentVariables, ...(free && { free }) };
 
-        const apiUrl = `${baseUrl}/api/send-sms`;
-        console.log(`[WhatsApp] 🎯 DEBUG: Calling WhatsApp API: ${apiUrl} for: ${to} (BaseURL: ${baseUrl})`);
-        if (contentSid || contentVariables) {
-            console.log(`[META-DEBUG] 🧩 Template: ${contentSid}`);
-            console.log(`[META-DEBUG] 📝 Variables:`, JSON.stringify(contentVariables, null, 2));
-        } else if (message) {
-            console.log(`[META-DEBUG] 💬 Text: ${message}`);
+        if (!firestore) {
+            const result = await postWhatsAppMessage(to, payload, clinicId);
+            return result.ok;
         }
 
-        const response = await fetch(apiUrl, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                to,
-                message,
-                channel: 'whatsapp',
-                contentSid,
-                contentVariables,
-            }),
-        });
-
-        if (!response.ok) {
-            console.error(`[WhatsApp] ❌ API Failed for ${to}:`, response.statusText, response.status);
-            return false;
-        }
-
-        console.log(`[WhatsApp] ✅ Successfully triggered WhatsApp for ${to}`);
-        return true;
+        return await sendThroughOutbox(firestore, { ...outbox, channel: 'whatsapp', clinicId, to, payload });
     } catch (error) {
         console.error('[WhatsApp] ❌ Error calling WhatsApp API:', error);
         return false;
@@ -248,12 +216,15 @@ export async function sendWhatsAppAppointmentConfirmed(params: {
     magicToken?: string; // NEW: Supporting magic links
     firestore: Firestore; // Added for toggle check
     clinicId?: string;
+    patientId?: string; // applies the patient's notification preferences
+    outbox?: OutboxOptions; // overrides the default outbox key, e.g. for batch reminders
+    timeContext?: ClinicTimeContext;
 }): Promise<boolean> {
-    const { communicationPhone, patientName, doctorName, clinicName, date, time, arriveByTime, tokenNumber, appointmentId, showToken = true, magicToken, firestore, clinicId } = params;
+    const { communicationPhone, patientName, doctorName, clinicName, date, time, arriveByTime, tokenNumber, appointmentId, showToken = true, magicToken, firestore, clinicId, patientId, outbox, timeContext } = params;
 
     try {
         // TOGGLE CHECK
-        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_BOOKED_BY_STAFF)) {
+        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_BOOKED_BY_STAFF, 'whatsapp', { clinicId, patientId })) {
             console.log(`[WhatsApp] 🚫 Appointment booked/reminder notification is DISABLED. Skipping.`);
             return true;
         }
@@ -261,7 +232,7 @@ export async function sendWhatsAppAppointmentConfirmed(params: {
         // Meta Template Name
         const templateName = 'appointment_reminder_v2';
 
-        let contentVariables: any = {};
+        let contentVariables: TemplateContentVariables;
 
         if (showToken) {
             const liveStatusRef = `whatsapp_confirmation`; // USER REQUESTED: Template 1 use whatsapp_confirmation
@@ -278,12 +249,12 @@ export async function sendWhatsAppAppointmentConfirmed(params: {
             });
             const liveStatusLink = `${appointmentId}?${linkParams}`;
 
-            contentVariables = {
-                "1": patientName,
-                "2": doctorName,
-                "3": getMalayalamFriendlyDateTime(date, arriveByTime || time),
-                "4": (tokenNumber && tokenNumber !== 'N/A') ? tokenNumber : 'ക്ലിനിക്കിൽ വരുമ്പോൾ ലഭിക്കും'
-            };
+            contentVariables = buildTemplateVariables(templateName, {
+                patientName,
+                doctorName,
+                dateTime: getMalayalamFriendlyDateTime(date, arriveByTime || time, timeContext),
+                token: (tokenNumber && tokenNumber !== 'N/A') ? tokenNumber : translate('ml', 'whatsapp.tokenOnArrival')
+            });
             // console.log(`[WhatsApp] 📄 Using Meta Template (${templateName}) - Token: ${tokenNumber}`); // Redundant with META-DEBUG
         } else {
             const liveStatusRef = `whatsapp_confirmation_no_token`;
@@ -300,19 +271,28 @@ export async function sendWhatsAppAppointmentConfirmed(params: {
             });
             const liveStatusLink = `${appointmentId}?${linkParams}`;
 
-            contentVariables = {
-                "1": patientName,
-                "2": doctorName,
-                "3": getMalayalamFriendlyDateTime(date, arriveByTime || time),
-                "4": 'ക്ലിനിക്കിൽ വരുമ്പോൾ ലഭിക്കും' // No token
-            };
+            contentVariables = buildTemplateVariables(templateName, {
+                patientName,
+                doctorName,
+                dateTime: getMalayalamFriendlyDateTime(date, arriveByTime || time, timeContext),
+                token: translate('ml', 'whatsapp.tokenOnArrival') // No token
+            });
             // console.log(`[WhatsApp] 📄 Using Meta Template (${templateName}) - No Token`); // Redundant with META-DEBUG
         }
 
         return sendWhatsAppMessage({
             to: communicationPhone,
+            firestore,
+            clinicId,
             contentSid: templateName, // Using templateName as contentSid for the API route to handle
-            contentVariables
+            contentVariables,
+            outbox: {
+                key: buildOutboxKey(NOTIFICATION_TYPES.APPOINTMENT_BOOKED_BY_STAFF, 'whatsapp', appointmentId, currentMinuteKey()),
+                notificationType: NOTIFICATION_TYPES.APPOINTMENT_BOOKED_BY_STAFF,
+                appointmentId,
+                patientId,
+                ...outbox
+            }
         });
     } catch (error) {
         console.error('[WhatsApp] ❌ Error in confirmation notification:', error);
@@ -333,40 +313,51 @@ export async function sendWhatsAppArrivalConfirmed(params: {
     tokenDistribution?: 'classic' | 'advanced';
     classicTokenNumber?: string | number; // UPDATED: Accept both string/number
     isWalkIn?: boolean; // NEW: Differentiates walk-in vs regular
+    patientId?: string; // applies the patient's notification preferences
 }): Promise<boolean> {
-    const { firestore, communicationPhone, patientName, tokenNumber, appointmentId, clinicId, tokenDistribution, classicTokenNumber, isWalkIn = false } = params;
+    const { firestore, communicationPhone, patientName, tokenNumber, appointmentId, clinicId, tokenDistribution, classicTokenNumber, isWalkIn = false, patientId } = params;
     console.log(`[Notification] 🔔 sendWhatsAppArrivalConfirmed called for ${patientName}`);
 
     try {
         // TOGGLE CHECK
-        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.ARRIVAL_CONFIRMED)) {
+        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.ARRIVAL_CONFIRMED, 'whatsapp', { clinicId, patientId })) {
             console.log(`[WhatsApp] 🚫 Arrival confirmed notification is DISABLED. Skipping.`);
             return true; // Return true as if handled
         }
 
+        const arrivalOutbox: OutboxOptions = {
+            key: buildOutboxKey(NOTIFICATION_TYPES.ARRIVAL_CONFIRMED, 'whatsapp', appointmentId, currentMinuteKey()),
+            notificationType: NOTIFICATION_TYPES.ARRIVAL_CONFIRMED,
+            appointmentId,
+            patientId,
+        };
+
         // Determine which token to display
-        let displayToken: string = tokenNumber;
+        let displayToken: string | null = tokenNumber;
         if (tokenDistribution !== 'advanced') {
             // Safety: Never show 'A' tokens in classic mode
             displayToken = (classicTokenNumber && !String(classicTokenNumber).startsWith('A'))
                 ? String(classicTokenNumber)
-                : 'ക്ലിനിക്കിൽ വരുമ്പോൾ ലഭിക്കും';
+                : null;
         }
+        const templateToken = displayToken ?? translate('ml', 'whatsapp.tokenOnArrival');
 
         if (isWalkIn) {
             // WALK-IN: Window is CLOSED. Send PAID template with Quick Reply to open window.
             console.log(`[WhatsApp] 🚶 Walk-in Arrival: ${patientName}. Opening window with PAID template.`);
 
             const templateName = 'walkin_arrival_confirmed_malayalam';
-            const textFallback = `നമസ്കാരം ${patientName},\n\nനിങ്ങളുടെ ടോക്കൺ ${displayToken} കൗണ്ടറിൽ രജിസ്റ്റർ ചെയ്തിട്ടുണ്ട്. ✅\n\nനിങ്ങളുടെ മുന്നിൽ എത്ര പേരുണ്ടെന്നും, ഡോക്ടറെ കാണാൻ എത്ര സമയം എടുക്കും എന്നും അറിയണോ? 🕒\n\nകൃത്യമായ സമയം ലഭിക്കാൻ താഴെ ക്ലിക്ക് ചെയ്യുക.`;
 
             return await sendWhatsAppMessage({
                 to: communicationPhone,
+                firestore,
+                clinicId,
                 contentSid: templateName,
-                contentVariables: {
-                    "1": patientName,
-                    "2": displayToken
-                }
+                contentVariables: buildTemplateVariables(templateName, {
+                    patientName,
+                    token: templateToken
+                }),
+                outbox: arrivalOutbox
             });
         }
 
@@ -384,17 +375,25 @@ export async function sendWhatsAppArrivalConfirmed(params: {
             appointmentId,
             patientName: patientName // Ensure name is tracked
         });
-        const malayalamTextFallback = `നമസ്കാരം ${patientName}, നിങ്ങളുടെ ടോക്കൺ ${displayToken} കൺഫേം ചെയ്തിട്ടുണ്ട്. ലൈവ് സ്റ്റാറ്റസ് അറിയാനായി താഴെ കാണുന്ന ലിങ്കിൽ ക്ലിക്ക് ചെയ്യുക:\n\nhttps://app.kloqo.com/live-token/${appointmentId}?${linkSuffix}`;
+        const language = await getPatientLanguage(firestore, patientId);
+        const textFallback = translate(language, 'whatsapp.arrivalConfirmed', {
+            patientName,
+            token: displayToken ?? translate(language, 'whatsapp.tokenOnArrival'),
+            link: `https://app.kloqo.com/live-token/${appointmentId}?${linkSuffix}`,
+        });
 
         return await sendSmartWhatsAppNotification({
             to: communicationPhone,
+            firestore,
+            clinicId,
+            outbox: arrivalOutbox,
             templateName: 'appointment_status_confirmed_mlm',
-            templateVariables: {
-                "1": patientName,
-                "2": displayToken,
-                "3": `${appointmentId}?${linkSuffix}`
-            },
-            textFallback: malayalamTextFallback,
+            templateVariables: buildTemplateVariables('appointment_status_confirmed_mlm', {
+                patientName,
+                token: templateToken,
+                linkSuffix: `${appointmentId}?${linkSuffix}`
+            }),
+            textFallback,
             skipIfClosed: true, // Strategy: Only send if it's FREE (window open).
             preferTemplate: true // NEW: Use template even if window is open (as requested)
         });
@@ -414,13 +413,14 @@ export async function sendWhatsAppAIFallback(params: {
     magicToken: string;
     clinicId?: string;
     firestore: Firestore; // Added for toggle check
+    language?: Language;
 }): Promise<boolean> {
-    const { communicationPhone, patientName, magicToken, clinicId, firestore } = params;
+    const { communicationPhone, patientName, magicToken, clinicId, firestore, language = DEFAULT_WHATSAPP_LANGUAGE } = params;
     console.log(`[Notification] 🔔 sendWhatsAppAIFallback called for ${communicationPhone}`);
 
     try {
         // TOGGLE CHECK
-        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.AI_FALLBACK)) {
+        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.AI_FALLBACK, 'whatsapp', { clinicId })) {
             console.log(`[WhatsApp] 🚫 AI Fallback notification is DISABLED. Skipping.`);
             return true; // Return true as if handled
         }
@@ -433,10 +433,16 @@ export async function sendWhatsAppAIFallback(params: {
         const redirectPath = clinicId ? `/home?clinicId=${clinicId}` : '/home';
         const fullUrl = `${patientAppBaseUrl}${redirectPath}${linkSuffix}`;
 
-        const messageText = `ക്ഷമിക്കണം, എനിക്ക് പണിത്തിരക്കാണ്. ദയവായി താഴെ കാണുന്ന ലിങ്കിൽ ക്ലിക്ക് ചെയ്ത് തുടരുക:\n\n${fullUrl}`;
+        const messageText = translate(language, 'whatsapp.aiFallback', { link: fullUrl });
 
         return sendSmartWhatsAppNotification({
             to: communicationPhone,
+            firestore,
+            clinicId,
+            outbox: {
+                key: buildOutboxKey(NOTIFICATION_TYPES.AI_FALLBACK, 'whatsapp', communicationPhone, currentMinuteKey()),
+                notificationType: NOTIFICATION_TYPES.AI_FALLBACK,
+            },
             textFallback: messageText,
             skipIfClosed: true // Only send if window is open (FREE text)
         });
@@ -466,7 +472,7 @@ export async function sendWhatsAppBookingLink(params: {
     console.log(`[Notification] 🔔 sendWhatsAppBookingLink called for ${communicationPhone}`);
 
     // TOGGLE CHECK
-    if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.BOOKING_LINK)) {
+    if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.BOOKING_LINK, 'whatsapp', { clinicId })) {
         console.log(`[WhatsApp] 🚫 Booking link notification is DISABLED. Skipping.`);
         return true; // Return true as if handled
     }
@@ -480,19 +486,25 @@ export async function sendWhatsAppBookingLink(params: {
     const baseSuffix = `${clinicId}?ref=${ref}${redirectPath ? `&redirect=${encodeURIComponent(redirectPath)}` : ''}`;
     const linkSuffix = magicToken ? `${baseSuffix}&magicToken=${magicToken}` : baseSuffix;
 
-    const contentVariables = {
-        "1": patientName,
-        "2": clinicName,
-        "3": clinicCode, // Reference ID / Code (for display in message body)
-        "4": linkSuffix // This goes to the button URL as {{1}}
-    };
+    const contentVariables = buildTemplateVariables(templateName, {
+        patientName,
+        clinicName,
+        clinicCode, // Reference ID / Code (for display in message body)
+        linkSuffix // This goes to the button URL as {{1}}
+    });
 
     console.log(`[WhatsApp] 📄 Using Meta Template (appointment_requested_ml) for ${patientName}`);
 
     return sendWhatsAppMessage({
         to: communicationPhone,
+        firestore,
+        clinicId,
         contentSid: templateName,
-        contentVariables
+        contentVariables,
+        outbox: {
+            key: buildOutboxKey(NOTIFICATION_TYPES.BOOKING_LINK, 'whatsapp', communicationPhone, currentMinuteKey()),
+            notificationType: NOTIFICATION_TYPES.BOOKING_LINK,
+        }
     });
 }
 
@@ -502,13 +514,20 @@ export async function sendWhatsAppBookingLink(params: {
 export async function sendWhatsAppText(params: {
     to: string;
     text: string;
+    firestore?: Firestore; // records the message in the notification outbox
+    clinicId?: string;
+    outbox?: OutboxOptions;
 }): Promise<boolean> {
-    const { to, text } = params;
+    const { to, text, firestore, clinicId, outbox } = params;
     console.log(`[Notification] 🔔 sendWhatsAppText called for ${to}`);
     return sendWhatsAppMessage({
         to,
         contentSid: 'text_message', // Special flag for text
-        contentVariables: { text }
+        contentVariables: { text },
+        firestore,
+        clinicId,
+        free: true,
+        outbox
     });
 }
 
@@ -518,14 +537,17 @@ export async function sendWhatsAppText(params: {
  */
 export async function sendSmartWhatsAppNotification(params: {
     to: string;
-    templateName?: string;
-    templateVariables?: any;
+    templateName?: WhatsAppTemplateName;
+    templateVariables?: TemplateContentVariables; // from buildTemplateVariables
     textFallback: string;
     alwaysSend?: boolean; // If true, send template even if window closed (e.g., Doctor In)
     skipIfClosed?: boolean; // If true, skip message if window closed (e.g., Review)
     preferTemplate?: boolean; // If true, send template EVEN if window is open (for UI/Branding)
+    firestore?: Firestore; // Records the message in the outbox; with clinicId, bills paid templates against the clinic's plan
+    clinicId?: string;
+    outbox?: OutboxOptions;
 }): Promise<boolean> {
-    const { to, templateName, templateVariables, textFallback, alwaysSend = false, skipIfClosed = false, preferTemplate = false } = params;
+    const { to, templateName, templateVariables, textFallback, alwaysSend = false, skipIfClosed = false, preferTemplate = false, firestore, clinicId, outbox } = params;
     console.log(`[Notification] 🔔 sendSmartWhatsAppNotification called for ${to}${preferTemplate ? ' (Prefer Template)' : ''}`);
 
     try {
@@ -536,7 +558,7 @@ export async function sendSmartWhatsAppNotification(params: {
             // Window is open AND we don't prefer template -> Send FREE text message
             console.log(`[WhatsApp Smart] 💚 Window OPEN for ${to}. Sending FREE text.`);
             console.log(`[META-DEBUG] 💬 Smart Free Text: ${textFallback}`);
-            return sendWhatsAppText({ to, text: textFallback });
+            return sendWhatsAppText({ to, text: textFallback, firestore, clinicId, outbox });
         } else if (isWindowOpen && preferTemplate && templateName) {
             // Window is open BUT we prefer template -> Send template (still FREE because window open)
             console.log(`[WhatsApp Smart] 🎨 Window OPEN for ${to} but PREFER TEMPLATE (${templateName}). Sending template (FREE).`);
@@ -545,7 +567,11 @@ export async function sendSmartWhatsAppNotification(params: {
             return sendWhatsAppMessage({
                 to,
                 contentSid: templateName,
-                contentVariables: templateVariables
+                contentVariables: templateVariables,
+                firestore,
+                clinicId,
+                free: true,
+                outbox
             });
         } else {
             // Window is closed
@@ -562,7 +588,10 @@ export async function sendSmartWhatsAppNotification(params: {
                 return sendWhatsAppMessage({
                     to,
                     contentSid: templateName,
-                    contentVariables: templateVariables
+                    contentVariables: templateVariables,
+                    firestore,
+                    clinicId,
+                    outbox
                 });
             }
 
@@ -596,6 +625,7 @@ export async function sendAppointmentBookedByStaffNotification(params: {
     tokenDistribution?: 'classic' | 'advanced'; // New: needed for logic
     classicTokenNumber?: string; // New: needed for logic
     clinicId: string;
+    timeContext?: ClinicTimeContext;
 }): Promise<boolean> {
     const {
         firestore,
@@ -614,6 +644,7 @@ export async function sendAppointmentBookedByStaffNotification(params: {
         tokenDistribution,
         classicTokenNumber,
         clinicId,
+        timeContext,
     } = params;
     console.log(`[Notification] 🔔 sendAppointmentBookedByStaffNotification called for ${appointmentId}. Distribution: ${tokenDistribution}, ClassicToken: ${classicTokenNumber}, Token: ${tokenNumber}`);
 
@@ -631,10 +662,10 @@ export async function sendAppointmentBookedByStaffNotification(params: {
             displayTime = time;
         } else {
             // For regular tokens, show reporting time (15 mins early)
-            const appointmentDate = parse(date, 'd MMMM yyyy', new Date());
-            const baseTime = parseTime(arriveByTime || time, appointmentDate);
+            const appointmentDate = parseClinicDate(date, timeContext);
+            const baseTime = parseTime(arriveByTime || time, appointmentDate, timeContext);
             const shownTime = subMinutes(baseTime, 15);
-            displayTime = getClinicTimeString(shownTime);
+            displayTime = getClinicTimeString(shownTime, timeContext);
         }
     } catch (error) {
         console.error('Error calculating displayTime for booking notification:', error);
@@ -668,10 +699,12 @@ export async function sendAppointmentBookedByStaffNotification(params: {
     }
 
     let pwaResult = true;
-    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_BOOKED_BY_STAFF, 'pwa')) {
+    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_BOOKED_BY_STAFF, 'pwa', { clinicId, patientId })) {
         pwaResult = await sendNotificationToPatient({
             firestore,
             patientId,
+            clinicId,
+            outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.APPOINTMENT_BOOKED_BY_STAFF, 'pwa', appointmentId), notificationType: NOTIFICATION_TYPES.APPOINTMENT_BOOKED_BY_STAFF, appointmentId },
             title: 'Appointment Booked',
             body: `${clinicName} has booked an appointment with Dr. ${doctorName} on ${date} at ${displayTime}.${pushShowToken ? ` Token: ${pushTokenDisplay}` : ''}`,
             data: {
@@ -690,7 +723,7 @@ export async function sendAppointmentBookedByStaffNotification(params: {
     }
 
     // TOGGLE CHECK for WhatsApp
-    if (communicationPhone && !await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_BOOKED_BY_STAFF)) {
+    if (communicationPhone && !await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_BOOKED_BY_STAFF, 'whatsapp', { clinicId, patientId })) {
         console.log(`[WhatsApp] 🚫 Appointment booked by staff notification is DISABLED. Skipping WhatsApp.`);
         // Note: PWA notification still proceeds below
     } else if (communicationPhone) {
@@ -700,10 +733,10 @@ export async function sendAppointmentBookedByStaffNotification(params: {
         const isAdvancedBooking = tokenNumber && tokenNumber.startsWith('A');
         if (isAdvancedBooking) {
             const now = getClinicNow();
-            const currentHour = now.getHours();
-            const todayStr = getClinicDateString(now);
+            const currentHour = getClinicHour(now, timeContext);
+            const todayStr = getClinicDateString(now, timeContext);
             const tomorrow = addDays(now, 1);
-            const tomorrowStr = getClinicDateString(tomorrow);
+            const tomorrowStr = getClinicDateString(tomorrow, timeContext);
 
             const isAppointmentToday = date === todayStr;
             const isAppointmentTomorrow = date === tomorrowStr;
@@ -737,7 +770,9 @@ export async function sendAppointmentBookedByStaffNotification(params: {
                         appointmentId,
                         showToken: whatsappShowToken,
                         firestore,
-                        clinicId
+                        clinicId,
+                        patientId,
+                        timeContext,
                     });
 
                     // Mark as sent in Firestore
@@ -774,8 +809,9 @@ export async function sendTokenCalledNotification(params: {
     classicTokenNumber?: string;
     communicationPhone?: string; // New: optional phone for WhatsApp
     patientName?: string; // New: for WhatsApp template
+    timeContext?: ClinicTimeContext;
 }): Promise<boolean> {
-    const { firestore, patientId, appointmentId, clinicName, tokenNumber, doctorName, clinicId, cancelledByBreak, tokenDistribution, classicTokenNumber, communicationPhone, patientName } = params;
+    const { firestore, patientId, appointmentId, clinicName, tokenNumber, doctorName, clinicId, cancelledByBreak, tokenDistribution, classicTokenNumber, communicationPhone, patientName, timeContext } = params;
     console.log(`[Notification] 🔔 sendTokenCalledNotification called for ${appointmentId}`);
 
     if (cancelledByBreak) {
@@ -807,25 +843,38 @@ export async function sendTokenCalledNotification(params: {
         displayToken = tokenNumber;
     }
 
+    // Waiting-room TVs announce the call whatever the patient's notification settings
+    const boardToken = getDisplayToken({ tokenNumber, classicTokenNumber }, tokenDistribution);
+    if (boardToken) {
+        await recordTokenCall(firestore, { clinicId, doctorName, token: boardToken, appointmentId }, timeContext);
+    }
+
     // 1. PWA/Push Notification
-    const pwaResult = await sendNotificationToPatient({
-        firestore,
-        patientId,
-        title: 'Your Turn',
-        body: `Your token has been called at ${clinicName}.${showToken ? ` Token: ${displayToken}` : ''}`,
-        data: {
-            type: 'token_called',
-            appointmentId,
-            clinicName,
-            tokenNumber: displayToken, // Might be empty string
-            doctorName,
-        },
-    });
+    let pwaResult = true;
+    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.TOKEN_CALLED, 'pwa', { clinicId, patientId })) {
+        pwaResult = await sendNotificationToPatient({
+            firestore,
+            patientId,
+            clinicId,
+            outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.TOKEN_CALLED, 'pwa', appointmentId, currentMinuteKey()), notificationType: NOTIFICATION_TYPES.TOKEN_CALLED, appointmentId },
+            title: 'Your Turn',
+            body: `Your token has been called at ${clinicName}.${showToken ? ` Token: ${displayToken}` : ''}`,
+            data: {
+                type: 'token_called',
+                appointmentId,
+                clinicName,
+                tokenNumber: displayToken, // Might be empty string
+                doctorName,
+            },
+        });
+    } else {
+        console.log(`[PWA] 🚫 Token called notification is DISABLED. Skipping PWA.`);
+    }
 
     // 2. WhatsApp Notification
     if (communicationPhone) {
         // TOGGLE CHECK
-        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.TOKEN_CALLED)) {
+        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.TOKEN_CALLED, 'whatsapp', { clinicId, patientId })) {
             console.log(`[WhatsApp] 🚫 Token called notification is DISABLED. Skipping.`);
         } else {
             console.log(`[Notification] 📱 Triggering Smart WhatsApp for Token Called: ${tokenNumber}`);
@@ -841,16 +890,24 @@ export async function sendTokenCalledNotification(params: {
                 appointmentId,
                 patientName: patientName // Ensure name is tracked
             });
-            const textFallback = `നമസ്കാരം ${patientName || 'Patient'}, ഡോ. ${doctorName} നിങ്ങളുടെ ടോക്കൺ (${tokenNumber}) വിളിച്ചിരിക്കുന്നു. ദയവായി കൺസൾട്ടേഷൻ റൂമിലേക്ക് വരിക. ലൈവ് സ്റ്റാറ്റസ്: https://app.kloqo.com/live-token/${appointmentId}?${linkSuffix}`;
+            const textFallback = translate(await getPatientLanguage(firestore, patientId), 'whatsapp.tokenCalled', {
+                patientName: patientName || 'Patient',
+                doctorName,
+                token: tokenNumber,
+                link: `https://app.kloqo.com/live-token/${appointmentId}?${linkSuffix}`,
+            });
 
             await sendSmartWhatsAppNotification({
                 to: communicationPhone,
+                outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.TOKEN_CALLED, 'whatsapp', appointmentId, currentMinuteKey()), notificationType: NOTIFICATION_TYPES.TOKEN_CALLED, appointmentId, patientId },
+                firestore,
+                clinicId,
                 templateName: 'token_called_quick_reply_ml',
-                templateVariables: {
-                    "1": patientName || 'Patient',
-                    "2": showToken ? (displayToken || '') : '',
-                    "3": linkSuffix
-                },
+                templateVariables: buildTemplateVariables('token_called_quick_reply_ml', {
+                    patientName: patientName || 'Patient',
+                    token: showToken ? (displayToken || '') : '',
+                    linkSuffix
+                }),
                 textFallback,
                 preferTemplate: true, // NEW: Use branded template even if window open
                 alwaysSend: true
@@ -877,8 +934,11 @@ export async function sendAppointmentCancelledNotification(params: {
     cancelledByBreak?: boolean;
     communicationPhone?: string; // New: optional phone for WhatsApp
     patientName?: string; // New: for WhatsApp template
+    rebookProposalId?: string; // LeaveRebookProposal offered as a one-tap rebook link
+    clinicId?: string; // Needed for rebook link tracking
+    timeContext?: ClinicTimeContext;
 }): Promise<boolean> {
-    const { firestore, patientId, appointmentId, doctorName, clinicName, date, time, cancelledBy, arriveByTime, cancelledByBreak, communicationPhone, patientName } = params;
+    const { firestore, patientId, appointmentId, doctorName, clinicName, date, time, cancelledBy, arriveByTime, cancelledByBreak, communicationPhone, patientName, rebookProposalId, clinicId, timeContext } = params;
     console.log(`[Notification] 🔔 sendAppointmentCancelledNotification called for ${appointmentId}`);
 
     if (cancelledByBreak) {
@@ -886,27 +946,40 @@ export async function sendAppointmentCancelledNotification(params: {
         return true; // Return true as we've "handled" it by skipping
     }
 
+    // Refund bookings that were paid online
+    let refundedAmount: number | null = null;
+    try {
+        const refund = await requestAppointmentRefund(firestore, appointmentId);
+        refundedAmount = refund?.amount ?? null;
+    } catch (error) {
+        console.error(`[Notification] ❌ Failed to refund payment for appointment ${appointmentId}:`, error);
+    }
+
     // Always display user time based on arriveByTime - 15 minutes (or time - 15 if arriveByTime missing)
     let displayTime = time;
     try {
-        const appointmentDate = parse(date, 'd MMMM yyyy', new Date());
-        const baseTime = parseTime(arriveByTime || time, appointmentDate);
+        const appointmentDate = parseClinicDate(date, timeContext);
+        const baseTime = parseTime(arriveByTime || time, appointmentDate, timeContext);
         const shownTime = subMinutes(baseTime, 15);
-        displayTime = getClinicTimeString(shownTime);
+        displayTime = getClinicTimeString(shownTime, timeContext);
     } catch (error) {
         console.error('Error calculating displayTime for cancellation notification:', error);
     }
 
     // 1. PWA/Push Notification
     let pwaResult = true;
-    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_CANCELLED, 'pwa')) {
+    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_CANCELLED, 'pwa', { clinicId, patientId })) {
         pwaResult = await sendNotificationToPatient({
             firestore,
             patientId,
+            clinicId,
+            outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.APPOINTMENT_CANCELLED, 'pwa', appointmentId), notificationType: NOTIFICATION_TYPES.APPOINTMENT_CANCELLED, appointmentId },
             title: 'Appointment Cancelled',
-            body: cancelledBy === 'patient'
+            body: (cancelledBy === 'patient'
                 ? `Your appointment with Dr. ${doctorName} on ${date} at ${displayTime} has been cancelled.`
-                : `${clinicName} has cancelled your appointment with Dr. ${doctorName} on ${date} at ${displayTime}.`,
+                : `${clinicName} has cancelled your appointment with Dr. ${doctorName} on ${date} at ${displayTime}.`)
+                + (refundedAmount ? ` Your payment of ₹${refundedAmount} will be refunded.` : '')
+                + (rebookProposalId ? ' Tap to rebook.' : ''),
             data: {
                 type: 'appointment_cancelled',
                 appointmentId,
@@ -915,6 +988,8 @@ export async function sendAppointmentCancelledNotification(params: {
                 date,
                 time: displayTime,
                 cancelledBy,
+                ...(refundedAmount && { refundedAmount }),
+                ...(rebookProposalId && { rebookProposalId, url: `/rebook/${rebookProposalId}` }),
             },
         });
     } else {
@@ -924,26 +999,60 @@ export async function sendAppointmentCancelledNotification(params: {
     // 2. WhatsApp Notification
     if (communicationPhone) {
         // TOGGLE CHECK
-        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_CANCELLED)) {
+        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_CANCELLED, 'whatsapp', { clinicId, patientId })) {
             console.log(`[WhatsApp] 🚫 Appointment cancelled notification is DISABLED. Skipping.`);
         } else {
             try {
                 console.log(`[Notification] 📱 Triggering Smart WhatsApp for Appointment Cancelled: ${appointmentId}`);
 
-                const textFallback = cancelledBy === 'patient'
-                    ? `നമസ്കാരം ${patientName || 'Patient'}, ഡോ. ${doctorName} മായി ${date} ${displayTime} ന് ഉണ്ടായിരുന്ന നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് റദ്ദാക്കിയിട്ടുണ്ട്.`
-                    : `നമസ്കാരം ${patientName || 'Patient'}, ${clinicName}-ൽ ഡോ. ${doctorName} മായി ${date} ${displayTime} ന് ഉണ്ടായിരുന്ന നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് റദ്ദാക്കിയിട്ടുണ്ട്.`;
+                const language = await getPatientLanguage(firestore, patientId);
+                let textFallback = translate(language, cancelledBy === 'patient' ? 'whatsapp.appointmentCancelledByPatient' : 'whatsapp.appointmentCancelled', {
+                    patientName: patientName || 'Patient',
+                    doctorName,
+                    clinicName,
+                    date,
+                    time: displayTime,
+                });
+
+                const cancelledVariables = {
+                    patientName: patientName || 'Patient',
+                    doctorName,
+                    date,
+                    time: displayTime,
+                    clinicName
+                };
+                let templateName: WhatsAppTemplateName = 'appointment_cancelled_ml';
+                let templateVariables = buildTemplateVariables('appointment_cancelled_ml', cancelledVariables);
+
+                if (rebookProposalId) {
+                    // One-tap rebook: magic link logs the patient in and lands on the proposal
+                    const token = await MagicLinkService.generateToken(firestore, communicationPhone, `rebook/${rebookProposalId}`);
+                    const linkSuffix = await generateMarketingSuffix(firestore, {
+                        magicToken: token,
+                        ref: 'leave_rebook',
+                        campaign: 'doctor_leave',
+                        medium: 'notification',
+                        clinicId: clinicId || '',
+                        phone: communicationPhone,
+                        appointmentId,
+                        patientName
+                    });
+                    // Meta template button URL is: https://app.kloqo.com/rebook/{{6}}
+                    templateName = 'appointment_cancelled_rebook_ml';
+                    templateVariables = buildTemplateVariables(templateName, {
+                        ...cancelledVariables,
+                        rebookPath: `${rebookProposalId}?${linkSuffix}`
+                    });
+                    textFallback += '\n\n' + translate(language, 'whatsapp.rebookLink', { link: `https://app.kloqo.com/rebook/${rebookProposalId}?${linkSuffix}` });
+                }
 
                 await sendSmartWhatsAppNotification({
                     to: communicationPhone,
-                    templateName: 'appointment_cancelled_ml',
-                    templateVariables: {
-                        "1": patientName || 'Patient',
-                        "2": doctorName,
-                        "3": date,
-                        "4": displayTime,
-                        "5": clinicName
-                    },
+                    outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.APPOINTMENT_CANCELLED, 'whatsapp', appointmentId), notificationType: NOTIFICATION_TYPES.APPOINTMENT_CANCELLED, appointmentId, patientId },
+                    firestore,
+                    clinicId,
+                    templateName,
+                    templateVariables,
                     textFallback,
                     alwaysSend: true // Critical info, send paid template if window closed
                 });
@@ -956,6 +1065,105 @@ export async function sendAppointmentCancelledNotification(params: {
     return pwaResult;
 }
 
+/**
+ * Send notification when a freed slot is offered to a waitlisted patient.
+ * The link opens the offer page, where the patient accepts before the hold expires.
+ */
+export async function sendWaitlistOfferNotification(params: {
+    firestore: Firestore;
+    patientId: string;
+    waitlistEntryId: string;
+    clinicId: string;
+    doctorName: string;
+    clinicName: string;
+    date: string;
+    time: string;
+    holdMinutes: number;
+    communicationPhone?: string;
+    patientName?: string;
+}): Promise<boolean> {
+    const { firestore, patientId, waitlistEntryId, clinicId, doctorName, clinicName, date, time, holdMinutes, communicationPhone, patientName } = params;
+    console.log(`[Notification] 🔔 sendWaitlistOfferNotification called for ${waitlistEntryId}`);
+
+    // 1. PWA/Push Notification
+    let pwaResult = true;
+    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.WAITLIST_OFFER, 'pwa', { clinicId, patientId })) {
+        pwaResult = await sendNotificationToPatient({
+            firestore,
+            patientId,
+            clinicId,
+            outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.WAITLIST_OFFER, 'pwa', waitlistEntryId, date, time), notificationType: NOTIFICATION_TYPES.WAITLIST_OFFER },
+            title: 'A Slot Opened Up',
+            body: `A slot with Dr. ${doctorName} on ${date} at ${time} is available. Tap within ${holdMinutes} minutes to book it.`,
+            data: {
+                type: 'waitlist_offer',
+                waitlistEntryId,
+                doctorName,
+                clinicName,
+                date,
+                time,
+                holdMinutes,
+                url: `/waitlist/${waitlistEntryId}`,
+            },
+        });
+    } else {
+        console.log(`[PWA] 🚫 Waitlist offer notification is DISABLED. Skipping PWA.`);
+    }
+
+    // 2. WhatsApp Notification
+    if (communicationPhone) {
+        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.WAITLIST_OFFER, 'whatsapp', { clinicId, patientId })) {
+            console.log(`[WhatsApp] 🚫 Waitlist offer notification is DISABLED. Skipping.`);
+        } else {
+            try {
+                const token = await MagicLinkService.generateToken(firestore, communicationPhone, `waitlist/${waitlistEntryId}`);
+                const linkSuffix = await generateMarketingSuffix(firestore, {
+                    magicToken: token,
+                    ref: 'waitlist_offer',
+                    campaign: 'waitlist',
+                    medium: 'notification',
+                    clinicId,
+                    phone: communicationPhone,
+                    patientName
+                });
+
+                const textFallback = translate(await getPatientLanguage(firestore, patientId), 'whatsapp.waitlistOffer', {
+                    patientName: patientName || 'Patient',
+                    doctorName,
+                    clinicName,
+                    date,
+                    time,
+                    minutes: holdMinutes,
+                    link: `https://app.kloqo.com/waitlist/${waitlistEntryId}?${linkSuffix}`,
+                });
+
+                await sendSmartWhatsAppNotification({
+                    to: communicationPhone,
+                    outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.WAITLIST_OFFER, 'whatsapp', waitlistEntryId, date, time), notificationType: NOTIFICATION_TYPES.WAITLIST_OFFER, patientId },
+                    firestore,
+                    clinicId,
+                    // Meta template button URL is: https://app.kloqo.com/waitlist/{{6}}
+                    templateName: 'waitlist_slot_offer_ml',
+                    templateVariables: buildTemplateVariables('waitlist_slot_offer_ml', {
+                        patientName: patientName || 'Patient',
+                        doctorName,
+                        date,
+                        time,
+                        holdMinutes,
+                        offerPath: `${waitlistEntryId}?${linkSuffix}`
+                    }),
+                    textFallback,
+                    alwaysSend: true // Time-critical, send paid template if window closed
+                });
+            } catch (error) {
+                console.error('[Notification] ❌ Failed to send Smart WhatsApp (Waitlist Offer):', error);
+            }
+        }
+    }
+
+    return pwaResult;
+}
+
 /**
  * Send notification when doctor is running late
  */
@@ -969,8 +1177,9 @@ export async function sendDoctorRunningLateNotification(params: {
     cancelledByBreak?: boolean;
     communicationPhone?: string; // New: optional phone for WhatsApp
     patientName?: string; // New: for WhatsApp template
+    clinicId?: string; // bills paid WhatsApp templates to the clinic's plan
 }): Promise<boolean> {
-    const { firestore, patientId, appointmentId, doctorName, clinicName, delayMinutes, cancelledByBreak, communicationPhone, patientName } = params;
+    const { firestore, patientId, appointmentId, doctorName, clinicName, delayMinutes, cancelledByBreak, communicationPhone, patientName, clinicId } = params;
     console.log(`[Notification] 🔔 sendDoctorRunningLateNotification called for ${appointmentId}`);
 
     if (cancelledByBreak) {
@@ -980,10 +1189,12 @@ export async function sendDoctorRunningLateNotification(params: {
 
     // 1. PWA/Push Notification
     let pwaResult = true;
-    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE, 'pwa')) {
+    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE, 'pwa', { clinicId, patientId })) {
         pwaResult = await sendNotificationToPatient({
             firestore,
             patientId,
+            clinicId,
+            outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE, 'pwa', appointmentId, delayMinutes), notificationType: NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE, appointmentId },
             title: 'Doctor Running Late',
             body: `Dr. ${doctorName} at ${clinicName} is running approximately ${delayMinutes} minutes late.`,
             data: {
@@ -1001,23 +1212,31 @@ export async function sendDoctorRunningLateNotification(params: {
     // 2. WhatsApp Notification
     if (communicationPhone) {
         // TOGGLE CHECK
-        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE)) {
+        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE, 'whatsapp', { clinicId, patientId })) {
             console.log(`[WhatsApp] 🚫 Doctor running late notification is DISABLED. Skipping.`);
         } else {
             try {
                 console.log(`[Notification] 📱 Triggering Smart WhatsApp for Doctor Running Late: ${doctorName}`);
 
-                const textFallback = `നമസ്കാരം ${patientName || 'Patient'}, ${clinicName}-ൽ ഡോ. ${doctorName} ഏകദേശം ${delayMinutes} മിനിറ്റ് വൈകിയാണ് കൺസൾട്ടേഷൻ ആരംഭിക്കുന്നത്.`;
+                const textFallback = translate(await getPatientLanguage(firestore, patientId), 'whatsapp.doctorLate', {
+                    patientName: patientName || 'Patient',
+                    doctorName,
+                    clinicName,
+                    minutes: delayMinutes,
+                });
 
                 await sendSmartWhatsAppNotification({
                     to: communicationPhone,
+                    outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE, 'whatsapp', appointmentId, delayMinutes), notificationType: NOTIFICATION_TYPES.DOCTOR_RUNNING_LATE, appointmentId, patientId },
+                    firestore,
+                    clinicId,
                     templateName: 'doctor_running_late_ml',
-                    templateVariables: {
-                        "1": patientName || 'Patient',
-                        "2": doctorName,
-                        "3": clinicName,
-                        "4": delayMinutes
-                    },
+                    templateVariables: buildTemplateVariables('doctor_running_late_ml', {
+                        patientName: patientName || 'Patient',
+                        doctorName,
+                        clinicName,
+                        delayMinutes
+                    }),
                     textFallback,
                     alwaysSend: true // Critical info, send paid template if window closed
                 });
@@ -1049,8 +1268,10 @@ export async function sendBreakUpdateNotification(params: {
     cancelledByBreak?: boolean;
     communicationPhone?: string; // New: optional phone for WhatsApp
     patientName?: string; // New: for WhatsApp template
+    clinicId?: string; // bills paid WhatsApp templates to the clinic's plan
+    timeContext?: ClinicTimeContext;
 }): Promise<boolean> {
-    const { firestore, patientId, appointmentId, doctorName, clinicName, oldTime, newTime, oldDate, newDate, reason, oldArriveByTime, newArriveByTime, cancelledByBreak, communicationPhone, patientName } = params;
+    const { firestore, patientId, appointmentId, doctorName, clinicName, oldTime, newTime, oldDate, newDate, reason, oldArriveByTime, newArriveByTime, cancelledByBreak, communicationPhone, patientName, clinicId, timeContext } = params;
     console.log(`[Notification] 🔔 sendBreakUpdateNotification called for ${appointmentId}`);
 
     if (cancelledByBreak) {
@@ -1065,31 +1286,31 @@ export async function sendBreakUpdateNotification(params: {
         // Get appointment date from appointmentId if needed for old time calculation
         let oldAppointmentDate: Date = new Date();
         if (oldDate) {
-            oldAppointmentDate = parse(oldDate, 'd MMMM yyyy', new Date());
+            oldAppointmentDate = parseClinicDate(oldDate, timeContext);
         } else {
             const appointmentDoc = await getDoc(doc(firestore, 'appointments', appointmentId));
             if (appointmentDoc.exists()) {
                 const appointmentData = appointmentDoc.data() as Appointment;
-                oldAppointmentDate = parse(appointmentData.date, 'd MMMM yyyy', new Date());
+                oldAppointmentDate = parseClinicDate(appointmentData.date, timeContext);
             }
         }
 
         // Calculate displayOldTime from oldArriveByTime - 15 minutes (or oldTime - 15 if oldArriveByTime not available)
-        const oldBaseTime = parseTime(oldArriveByTime || oldTime, oldAppointmentDate);
-        displayOldTime = getClinicTimeString(subMinutes(oldBaseTime, 15));
+        const oldBaseTime = parseTime(oldArriveByTime || oldTime, oldAppointmentDate, timeContext);
+        displayOldTime = getClinicTimeString(subMinutes(oldBaseTime, 15), timeContext);
 
         // Get appointment date for new time calculation
         let newAppointmentDate: Date = new Date();
         if (newDate) {
-            newAppointmentDate = parse(newDate, 'd MMMM yyyy', new Date());
+            newAppointmentDate = parseClinicDate(newDate, timeContext);
         } else {
             // Fallback to oldAppointmentDate if newDate is not provided
             newAppointmentDate = oldAppointmentDate;
         }
 
         // Calculate displayNewTime from newArriveByTime - 15 minutes (or newTime - 15 if newArriveByTime not available)
-        const newBaseTime = parseTime(newArriveByTime || newTime, newAppointmentDate);
-        displayNewTime = getClinicTimeString(subMinutes(newBaseTime, 15));
+        const newBaseTime = parseTime(newArriveByTime || newTime, newAppointmentDate, timeContext);
+        displayNewTime = getClinicTimeString(subMinutes(newBaseTime, 15), timeContext);
 
     } catch (error) {
         console.error('Error calculating display times for reschedule notification:', error);
@@ -1101,10 +1322,12 @@ export async function sendBreakUpdateNotification(params: {
 
     // 1. PWA/Push Notification
     let pwaResult = true;
-    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.BREAK_UPDATE, 'pwa')) {
+    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.BREAK_UPDATE, 'pwa', { clinicId, patientId })) {
         pwaResult = await sendNotificationToPatient({
             firestore,
             patientId,
+            clinicId,
+            outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.BREAK_UPDATE, 'pwa', appointmentId, newDate, newTime), notificationType: NOTIFICATION_TYPES.BREAK_UPDATE, appointmentId },
             title: 'Appointment Time Changed',
             body: `${clinicName} has rescheduled your appointment with Dr. ${doctorName} from ${oldDateTimeString} to ${newDateTimeString}.${reason ? ` Reason: ${reason}` : ''}`,
             data: {
@@ -1126,20 +1349,27 @@ export async function sendBreakUpdateNotification(params: {
     // 2. WhatsApp Notification
     if (communicationPhone) {
         // TOGGLE CHECK
-        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.BREAK_UPDATE)) {
+        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.BREAK_UPDATE, 'whatsapp', { clinicId, patientId })) {
             console.log(`[WhatsApp] 🚫 Break update notification is DISABLED. Skipping.`);
         } else {
             try {
-                const textFallback = `നമസ്കാരം ${patientName || 'Patient'}, ${clinicName}-ൽ ഡോ. ${doctorName} ഇപ്പോൾ ഒരു ചെറിയ ബ്രേക്കിലാണ്. നിങ്ങളുടെ ടോക്കൺ സമയം അല്പം മാറിയിട്ടുണ്ട്. അസൗകര്യത്തിൽ ഖേദിക്കുന്നു.`;
+                const textFallback = translate(await getPatientLanguage(firestore, patientId), 'whatsapp.breakUpdate', {
+                    patientName: patientName || 'Patient',
+                    doctorName,
+                    clinicName,
+                });
 
                 await sendSmartWhatsAppNotification({
                     to: communicationPhone,
+                    outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.BREAK_UPDATE, 'whatsapp', appointmentId, newDate, newTime), notificationType: NOTIFICATION_TYPES.BREAK_UPDATE, appointmentId, patientId },
+                    firestore,
+                    clinicId,
                     templateName: 'doctor_break_update_ml',
-                    templateVariables: {
-                        "1": patientName || 'Patient',
-                        "2": doctorName,
-                        "3": clinicName
-                    },
+                    templateVariables: buildTemplateVariables('doctor_break_update_ml', {
+                        patientName: patientName || 'Patient',
+                        doctorName,
+                        clinicName
+                    }),
                     textFallback,
                     alwaysSend: true
                 });
@@ -1167,8 +1397,10 @@ export async function sendAppointmentSkippedNotification(params: {
     cancelledByBreak?: boolean;
     communicationPhone?: string; // New: optional phone for WhatsApp
     patientName?: string; // New: for WhatsApp template
+    clinicId?: string; // bills paid WhatsApp templates to the clinic's plan
+    timeContext?: ClinicTimeContext;
 }): Promise<boolean> {
-    const { firestore, patientId, appointmentId, doctorName, clinicName, date, time, tokenNumber, cancelledByBreak, communicationPhone, patientName } = params;
+    const { firestore, patientId, appointmentId, doctorName, clinicName, date, time, tokenNumber, cancelledByBreak, communicationPhone, patientName, clinicId, timeContext } = params;
     console.log(`[Notification] 🔔 sendAppointmentSkippedNotification called for ${appointmentId}`);
 
     if (cancelledByBreak) {
@@ -1179,21 +1411,23 @@ export async function sendAppointmentSkippedNotification(params: {
     // Always display user time based on 15 minutes early reporting
     let displayTime = time;
     try {
-        const appointmentDate = parse(date, 'd MMMM yyyy', new Date());
+        const appointmentDate = parseClinicDate(date, timeContext);
         // For skipped, we usually have the raw slot time. Subtract 15m for reporting time.
-        const baseTime = parseTime(time, appointmentDate);
+        const baseTime = parseTime(time, appointmentDate, timeContext);
         const shownTime = subMinutes(baseTime, 15);
-        displayTime = getClinicTimeString(shownTime);
+        displayTime = getClinicTimeString(shownTime, timeContext);
     } catch (error) {
         console.error('Error calculating displayTime for skipped notification:', error);
     }
 
     // 1. PWA/Push Notification
     let pwaResult = true;
-    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_SKIPPED, 'pwa')) {
+    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_SKIPPED, 'pwa', { clinicId, patientId })) {
         pwaResult = await sendNotificationToPatient({
             firestore,
             patientId,
+            clinicId,
+            outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.APPOINTMENT_SKIPPED, 'pwa', appointmentId, currentMinuteKey()), notificationType: NOTIFICATION_TYPES.APPOINTMENT_SKIPPED, appointmentId },
             title: 'Appointment Skipped',
             body: `Your appointment with Dr. ${doctorName} on ${date} at ${displayTime} (Token: ${tokenNumber}) has been marked as Skipped because you didn't confirm your arrival 5 minutes before the appointment time.`,
             data: {
@@ -1214,24 +1448,33 @@ export async function sendAppointmentSkippedNotification(params: {
     // 2. WhatsApp Notification
     if (communicationPhone) {
         // TOGGLE CHECK
-        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_SKIPPED)) {
+        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.APPOINTMENT_SKIPPED, 'whatsapp', { clinicId, patientId })) {
             console.log(`[WhatsApp] 🚫 Appointment skipped notification is DISABLED. Skipping.`);
         } else {
             try {
                 console.log(`[Notification] 📱 Triggering Smart WhatsApp for Appointment Skipped: ${appointmentId}`);
 
-                const textFallback = `നമസ്കാരം ${patientName || 'Patient'}, ഡോ. ${doctorName} മായി ${date} ${displayTime} ന് ഉണ്ടായിരുന്ന നിങ്ങളുടെ അപ്പോയിന്റ്മെന്റ് (ടോക്കൺ: ${tokenNumber}) ഒഴിവാക്കിയിട്ടുണ്ട്. അപ്പോയിന്റ്മെന്റ് സമയത്തിന് 5 മിനിറ്റ് മുൻപ് നിങ്ങൾ എത്തിച്ചേരാത്തതിനാലാണിത്.`;
+                const textFallback = translate(await getPatientLanguage(firestore, patientId), 'whatsapp.appointmentSkipped', {
+                    patientName: patientName || 'Patient',
+                    doctorName,
+                    date,
+                    time: displayTime,
+                    token: tokenNumber,
+                });
 
                 await sendSmartWhatsAppNotification({
                     to: communicationPhone,
+                    outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.APPOINTMENT_SKIPPED, 'whatsapp', appointmentId, currentMinuteKey()), notificationType: NOTIFICATION_TYPES.APPOINTMENT_SKIPPED, appointmentId, patientId },
+                    firestore,
+                    clinicId,
                     templateName: 'appointment_skipped_ml',
-                    templateVariables: {
-                        "1": patientName || 'Patient',
-                        "2": doctorName,
-                        "3": date,
-                        "4": displayTime,
-                        "5": tokenNumber
-                    },
+                    templateVariables: buildTemplateVariables('appointment_skipped_ml', {
+                        patientName: patientName || 'Patient',
+                        doctorName,
+                        date,
+                        time: displayTime,
+                        token: tokenNumber
+                    }),
                     textFallback,
                     alwaysSend: true // Critical info, send paid template if window closed
                 });
@@ -1261,10 +1504,14 @@ export async function sendPeopleAheadNotification(params: {
     breakDuration?: number;
     tokenDistribution?: 'classic' | 'advanced';
     averageConsultingTime?: number;
+    consultationModel?: ConsultationTimeModel | null; // learned durations, gives a p50-p90 turn time
+    completedInSession?: number;
     communicationPhone?: string; // New: optional phone for WhatsApp
     patientName?: string; // New: for WhatsApp template
+    clinicId?: string; // bills paid WhatsApp templates to the clinic's plan
+    timeContext?: ClinicTimeContext;
 } | any): Promise<boolean> {
-    const { firestore, patientId, appointmentId, clinicName, tokenNumber, doctorName, peopleAhead, appointmentTime, appointmentDate, cancelledByBreak, breakDuration, tokenDistribution, averageConsultingTime, communicationPhone, patientName } = params;
+    const { firestore, patientId, appointmentId, clinicName, tokenNumber, doctorName, peopleAhead, appointmentTime, appointmentDate, cancelledByBreak, breakDuration, tokenDistribution, averageConsultingTime, consultationModel, completedInSession, communicationPhone, patientName, clinicId, timeContext } = params;
     console.log(`[Notification] 🔔 sendPeopleAheadNotification called for ${appointmentId}`);
 
     if (cancelledByBreak) {
@@ -1273,21 +1520,26 @@ export async function sendPeopleAheadNotification(params: {
     }
 
     // For Advanced: (arriveByTime - 15 minutes)
-    // For Classic: (CurrentTime + (peopleAhead * averageConsultingTime))
+    // For Classic: (CurrentTime + predicted wait for peopleAhead), a p50-p90 range once the doctor has a model
     let displayTime = appointmentTime;
     const isClassic = tokenDistribution !== 'advanced';
 
     try {
         if (isClassic) {
             const now = getClinicNow();
-            const waitTime = peopleAhead * (averageConsultingTime || 15);
-            const estimatedTurnTime = addMinutes(now, waitTime);
-            displayTime = getClinicTimeString(estimatedTurnTime);
+            const predictor = createConsultationPredictor(consultationModel, {
+                fallbackMinutes: averageConsultingTime || 15,
+                completedInSession,
+            });
+            const wait = predictWaitMinutes(predictor, peopleAhead, now);
+            const earliest = getClinicTimeString(addMinutes(now, Math.round(wait.p50)), timeContext);
+            const latest = getClinicTimeString(addMinutes(now, Math.round(wait.p90)), timeContext);
+            displayTime = latest !== earliest ? `${earliest} - ${latest}` : earliest;
         } else {
-            const appointmentDateObj = parse(appointmentDate, 'd MMMM yyyy', new Date());
-            const appointmentDateTime = parseTime(appointmentTime, appointmentDateObj);
+            const appointmentDateObj = parseClinicDate(appointmentDate, timeContext);
+            const appointmentDateTime = parseTime(appointmentTime, appointmentDateObj, timeContext);
             const displayDateTime = subMinutes(appointmentDateTime, 15);
-            displayTime = getClinicTimeString(displayDateTime);
+            displayTime = getClinicTimeString(displayDateTime, timeContext);
         }
     } catch (error) {
         console.error('Error calculating display time:', error);
@@ -1316,10 +1568,12 @@ export async function sendPeopleAheadNotification(params: {
 
     // 1. PWA/Push Notification
     let pwaResult = true;
-    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.PEOPLE_AHEAD, 'pwa')) {
+    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.PEOPLE_AHEAD, 'pwa', { clinicId, patientId })) {
         pwaResult = await sendNotificationToPatient({
             firestore,
             patientId,
+            clinicId,
+            outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.PEOPLE_AHEAD, 'pwa', appointmentId, peopleAhead), notificationType: NOTIFICATION_TYPES.PEOPLE_AHEAD, appointmentId },
             title,
             body,
             data: {
@@ -1341,45 +1595,53 @@ export async function sendPeopleAheadNotification(params: {
     // 2. WhatsApp Notification
     if (communicationPhone) {
         // TOGGLE CHECK
-        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.PEOPLE_AHEAD)) {
+        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.PEOPLE_AHEAD, 'whatsapp', { clinicId, patientId })) {
             console.log(`[WhatsApp] 🚫 People ahead notification is DISABLED. Skipping.`);
         } else {
             try {
                 console.log(`[Notification] 📱 Triggering Smart WhatsApp for People Ahead: ${peopleAhead}`);
 
+                const language = await getPatientLanguage(firestore, patientId);
+                const textParams = {
+                    patientName: patientName || 'Patient',
+                    doctorName,
+                    clinicName,
+                    token: tokenNumber || '',
+                    count: peopleAhead,
+                    minutes: breakDuration,
+                };
+                const hasBreak = !!breakDuration && breakDuration > 0;
+
                 let whatsappTextFallback = '';
-                let whatsappTemplateName = '';
-                let whatsappTemplateVariables: any = {};
+                let whatsappTemplateName: WhatsAppTemplateName;
+                let whatsappTemplateVariables: TemplateContentVariables;
 
                 if (peopleAhead === 0) {
                     whatsappTemplateName = 'you_are_next_ml';
-                    whatsappTemplateVariables = {
-                        "1": patientName || 'Patient',
-                        "2": doctorName,
-                        "3": clinicName,
-                        "4": tokenNumber || ''
-                    };
-                    whatsappTextFallback = `നമസ്കാരം ${patientName || 'Patient'}, നിങ്ങൾ അടുത്തതായി ഡോ. ${doctorName} നെ കാണും. ${clinicName}-ൽ നിങ്ങളുടെ ടോക്കൺ: ${tokenNumber || ''}`;
-                    if (breakDuration && breakDuration > 0) {
-                        whatsappTextFallback = `നമസ്കാരം ${patientName || 'Patient'}, ഡോക്ടർ ${breakDuration} മിനിറ്റ് ബ്രേക്കിലാണ്. ബ്രേക്കിന് ശേഷം നിങ്ങൾ അടുത്തതായി ഡോ. ${doctorName} നെ കാണും. ${clinicName}-ൽ നിങ്ങളുടെ ടോക്കൺ: ${tokenNumber || ''}`;
-                    }
+                    whatsappTemplateVariables = buildTemplateVariables(whatsappTemplateName, {
+                        patientName: patientName || 'Patient',
+                        doctorName,
+                        clinicName,
+                        token: tokenNumber || ''
+                    });
+                    whatsappTextFallback = translate(language, hasBreak ? 'whatsapp.youAreNextAfterBreak' : 'whatsapp.youAreNext', textParams);
                 } else {
                     whatsappTemplateName = 'queue_update_ml';
-                    whatsappTemplateVariables = {
-                        "1": patientName || 'Patient',
-                        "2": peopleAheadText,
-                        "3": doctorName,
-                        "4": clinicName,
-                        "5": tokenNumber || ''
-                    };
-                    whatsappTextFallback = `നമസ്കാരം ${patientName || 'Patient'}, നിങ്ങൾക്ക് മുന്നിൽ ${peopleAheadText} ഉണ്ട്. നിങ്ങൾ അടുത്തതായി ഡോ. ${doctorName} നെ കാണും. ${clinicName}-ൽ നിങ്ങളുടെ ടോക്കൺ: ${tokenNumber || ''}`;
-                    if (breakDuration && breakDuration > 0) {
-                        whatsappTextFallback = `നമസ്കാരം ${patientName || 'Patient'}, നിങ്ങൾക്ക് മുന്നിൽ ${peopleAheadText} ഉണ്ട്. ഡോക്ടർ ${breakDuration} മിനിറ്റ് ബ്രേക്കിലാണ്. നിങ്ങൾ അടുത്തതായി ഡോ. ${doctorName} നെ കാണും. ${clinicName}-ൽ നിങ്ങളുടെ ടോക്കൺ: ${tokenNumber || ''}`;
-                    }
+                    whatsappTemplateVariables = buildTemplateVariables(whatsappTemplateName, {
+                        patientName: patientName || 'Patient',
+                        peopleAhead: peopleAheadText,
+                        doctorName,
+                        clinicName,
+                        token: tokenNumber || ''
+                    });
+                    whatsappTextFallback = translate(language, hasBreak ? 'whatsapp.peopleAheadWithBreak' : 'whatsapp.peopleAhead', textParams);
                 }
 
                 await sendSmartWhatsAppNotification({
                     to: communicationPhone,
+                    outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.PEOPLE_AHEAD, 'whatsapp', appointmentId, peopleAhead), notificationType: NOTIFICATION_TYPES.PEOPLE_AHEAD, appointmentId, patientId },
+                    firestore,
+                    clinicId,
                     templateName: whatsappTemplateName,
                     templateVariables: whatsappTemplateVariables,
                     textFallback: whatsappTextFallback,
@@ -1414,8 +1676,9 @@ export async function sendDoctorConsultationStartedNotification(params: {
     communicationPhone?: string; // New: optional phone for WhatsApp
     patientName?: string; // New: for WhatsApp template
     clinicId: string;
+    timeContext?: ClinicTimeContext;
 } | any): Promise<boolean> {
-    const { firestore, patientId, appointmentId, clinicName, tokenNumber, doctorName, appointmentTime, appointmentDate, arriveByTime, cancelledByBreak, tokenDistribution, averageConsultingTime, peopleAhead, communicationPhone, patientName, clinicId } = params;
+    const { firestore, patientId, appointmentId, clinicName, tokenNumber, doctorName, appointmentTime, appointmentDate, arriveByTime, cancelledByBreak, tokenDistribution, averageConsultingTime, peopleAhead, communicationPhone, patientName, clinicId, timeContext } = params;
     console.log(`[Notification] 🔔 sendDoctorConsultationStartedNotification called for ${appointmentId}`);
 
     if (cancelledByBreak) {
@@ -1433,17 +1696,17 @@ export async function sendDoctorConsultationStartedNotification(params: {
             const now = getClinicNow();
             const waitTime = peopleAhead * (averageConsultingTime || 15);
             const estimatedTurnTime = addMinutes(now, waitTime);
-            displayTime = getClinicTimeString(estimatedTurnTime);
+            displayTime = getClinicTimeString(estimatedTurnTime, timeContext);
         } else {
-            const appointmentDateObj = parse(appointmentDate, 'd MMMM yyyy', new Date());
+            const appointmentDateObj = parseClinicDate(appointmentDate, timeContext);
             if (arriveByTime) {
-                const arriveByDateTime = parseTime(arriveByTime, appointmentDateObj);
+                const arriveByDateTime = parseTime(arriveByTime, appointmentDateObj, timeContext);
                 const displayDateTime = subMinutes(arriveByDateTime, 15);
-                displayTime = getClinicTimeString(displayDateTime);
+                displayTime = getClinicTimeString(displayDateTime, timeContext);
             } else {
-                const appointmentDateTime = parseTime(appointmentTime, appointmentDateObj);
+                const appointmentDateTime = parseTime(appointmentTime, appointmentDateObj, timeContext);
                 const displayDateTime = subMinutes(appointmentDateTime, 15);
-                displayTime = getClinicTimeString(displayDateTime);
+                displayTime = getClinicTimeString(displayDateTime, timeContext);
             }
         }
     } catch (error) {
@@ -1454,10 +1717,12 @@ export async function sendDoctorConsultationStartedNotification(params: {
 
     // 1. PWA/Push Notification
     let pwaResult = true;
-    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.DOCTOR_CONSULTATION_STARTED, 'pwa')) {
+    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.DOCTOR_CONSULTATION_STARTED, 'pwa', { clinicId, patientId })) {
         pwaResult = await sendNotificationToPatient({
             firestore,
             patientId,
+            clinicId,
+            outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.DOCTOR_CONSULTATION_STARTED, 'pwa', appointmentId, currentMinuteKey()), notificationType: NOTIFICATION_TYPES.DOCTOR_CONSULTATION_STARTED, appointmentId },
             title: 'Doctor Consultation Started',
             body: `Dr. ${doctorName} has started consultation at ${clinicName}.${displayTime ? ` ${timeLabel}: ${displayTime}.` : ''}${tokenNumber ? ` Token: ${tokenNumber}` : ''}`,
             data: {
@@ -1478,7 +1743,7 @@ export async function sendDoctorConsultationStartedNotification(params: {
     // 2. WhatsApp Notification
     if (communicationPhone) {
         // TOGGLE CHECK
-        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.DOCTOR_CONSULTATION_STARTED)) {
+        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.DOCTOR_CONSULTATION_STARTED, 'whatsapp', { clinicId, patientId })) {
             console.log(`[WhatsApp] 🚫 Consultation started notification is DISABLED. Skipping.`);
         } else {
             try {
@@ -1503,24 +1768,30 @@ export async function sendDoctorConsultationStartedNotification(params: {
                 });
                 const linkSuffix = `${appointmentId}?${linkParams}`;
 
-                const textFallback = hasToken
-                    ? `നമസ്കാരം ${patientName || 'Patient'},\n\nഡോക്ടർ ${doctorName} കൺസൾട്ടേഷൻ ആരംഭിച്ചു. 🟢\n\nനിങ്ങളുടെ ടോക്കൺ നമ്പർ: ${tokenNumber}\n\nനിങ്ങളുടെ മുൻപിൽ എത്ര പേര് ഉണ്ട് എന്ന് അറിയാനും , എത്ര നേരം കാത്തിരിക്കണം എന്നും അറിയാനായി താഴെ ക്ലിക്ക് ചെയ്ത് സ്റ്റാറ്റസ് പരിശോധിക്കുക:\n\nhttps://app.kloqo.com/live-token/${linkSuffix}`
-                    : `നമസ്കാരം ${patientName || 'Patient'}, ഡോ. ${doctorName} ഇപ്പോൾ ക്ലിനിക്കിൽ കൺസൾട്ടേഷൻ ആരംഭിച്ചിട്ടുണ്ട്. നിങ്ങളുടെ ഊഴം എപ്പോൾ വരുമെന്ന് അറിയാനും തത്സമയ അപ്ഡേറ്റുകൾ ലഭിക്കാനും താഴെ കാണുന്ന ലിങ്കിൽ ലോഗിൻ ചെയ്യുക:\n\nhttps://app.kloqo.com/live-token/${linkSuffix}`;
+                const textFallback = translate(await getPatientLanguage(firestore, patientId), hasToken ? 'whatsapp.consultationStarted' : 'whatsapp.doctorIn', {
+                    patientName: patientName || 'Patient',
+                    doctorName,
+                    token: tokenNumber,
+                    link: `https://app.kloqo.com/live-token/${linkSuffix}`,
+                });
 
                 const templateVariables = hasToken
-                    ? {
-                        "1": patientName || 'Patient',
-                        "2": doctorName,
-                        "3": tokenNumber,
-                        "4": linkSuffix
-                    }
-                    : {
-                        "1": doctorName,
-                        "2": linkSuffix
-                    };
+                    ? buildTemplateVariables('doctor_consultation_started_ml', {
+                        patientName: patientName || 'Patient',
+                        doctorName,
+                        token: tokenNumber,
+                        linkSuffix
+                    })
+                    : buildTemplateVariables('doctor_in_pending_ml', {
+                        doctorName,
+                        linkSuffix
+                    });
 
                 await sendSmartWhatsAppNotification({
                     to: communicationPhone,
+                    outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.DOCTOR_CONSULTATION_STARTED, 'whatsapp', appointmentId, currentMinuteKey()), notificationType: NOTIFICATION_TYPES.DOCTOR_CONSULTATION_STARTED, appointmentId, patientId },
+                    firestore,
+                    clinicId,
                     templateName,
                     templateVariables,
                     textFallback,
@@ -1545,11 +1816,12 @@ export async function sendPatientCheckoutNotification(params: {
     appointmentId: string;
     doctorName: string;
     clinicName: string;
+    clinicId?: string; // applies the clinic's notification preferences
 }): Promise<boolean> {
-    const { firestore, patientId, appointmentId, doctorName, clinicName } = params;
+    const { firestore, patientId, appointmentId, doctorName, clinicName, clinicId } = params;
     console.log(`[Notification] 🔔 sendPatientCheckoutNotification called for ${appointmentId}`);
 
-    if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.CONSULTATION_COMPLETED, 'pwa')) {
+    if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.CONSULTATION_COMPLETED, 'pwa', { clinicId, patientId })) {
         console.log(`[PWA] 🚫 Consultation completed notification is DISABLED. Skipping PWA.`);
         return true;
     }
@@ -1557,6 +1829,8 @@ export async function sendPatientCheckoutNotification(params: {
     return sendNotificationToPatient({
         firestore,
         patientId,
+        clinicId,
+        outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.CONSULTATION_COMPLETED, 'pwa', appointmentId), notificationType: NOTIFICATION_TYPES.CONSULTATION_COMPLETED, appointmentId },
         title: 'Consultation Completed',
         body: `Thank you for visiting ${clinicName}. Your consultation with Dr. ${doctorName} is complete.`,
         data: {
@@ -1568,6 +1842,87 @@ export async function sendPatientCheckoutNotification(params: {
     });
 }
 
+/**
+ * Send the prescription link once the doctor has saved the visit notes.
+ * The WhatsApp template attaches the PDF itself; inside the 24h window it is still
+ * preferred over plain text so the patient gets the document, not just a link.
+ */
+export async function sendPrescriptionReadyNotification(params: {
+    firestore: Firestore;
+    patientId: string;
+    appointmentId: string;
+    clinicId: string;
+    doctorName: string;
+    clinicName: string;
+    prescriptionUrl: string;
+    communicationPhone?: string;
+    patientName?: string;
+}): Promise<boolean> {
+    const { firestore, patientId, appointmentId, clinicId, doctorName, clinicName, prescriptionUrl, communicationPhone, patientName } = params;
+    console.log(`[Notification] 🔔 sendPrescriptionReadyNotification called for ${appointmentId}`);
+
+    // 1. PWA/Push Notification
+    let pwaResult = true;
+    if (await isNotificationEnabled(firestore, NOTIFICATION_TYPES.PRESCRIPTION_READY, 'pwa', { clinicId, patientId })) {
+        pwaResult = await sendNotificationToPatient({
+            firestore,
+            patientId,
+            clinicId,
+            outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.PRESCRIPTION_READY, 'pwa', appointmentId, currentMinuteKey()), notificationType: NOTIFICATION_TYPES.PRESCRIPTION_READY, appointmentId },
+            title: 'Prescription Ready',
+            body: `Your prescription from Dr. ${doctorName} at ${clinicName} is ready to view.`,
+            data: {
+                type: 'prescription_ready',
+                appointmentId,
+                doctorName,
+                clinicName,
+                url: '/profile',
+            },
+        });
+    } else {
+        console.log(`[PWA] 🚫 Prescription ready notification is DISABLED. Skipping PWA.`);
+    }
+
+    // 2. WhatsApp Notification
+    if (communicationPhone) {
+        if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.PRESCRIPTION_READY, 'whatsapp', { clinicId, patientId })) {
+            console.log(`[WhatsApp] 🚫 Prescription ready notification is DISABLED. Skipping.`);
+        } else {
+            try {
+                const textFallback = translate(await getPatientLanguage(firestore, patientId), 'whatsapp.prescriptionReady', {
+                    patientName: patientName || 'Patient',
+                    doctorName,
+                    clinicName,
+                    link: prescriptionUrl,
+                });
+
+                await sendSmartWhatsAppNotification({
+                    to: communicationPhone,
+                    outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.PRESCRIPTION_READY, 'whatsapp', appointmentId, currentMinuteKey()), notificationType: NOTIFICATION_TYPES.PRESCRIPTION_READY, appointmentId, patientId },
+                    firestore,
+                    clinicId,
+                    // Meta template with a document header: the PDF is fetched from {{document}}
+                    templateName: 'prescription_ready_ml',
+                    templateVariables: buildTemplateVariables('prescription_ready_ml', {
+                        patientName: patientName || 'Patient',
+                        doctorName,
+                        clinicName,
+                        document: prescriptionUrl,
+                        filename: `Prescription - ${patientName || 'Patient'}.pdf`,
+                    }),
+                    textFallback,
+                    preferTemplate: true,
+                    alwaysSend: true
+                });
+            } catch (error) {
+                console.error('[Notification] ❌ Failed to send Smart WhatsApp (Prescription Ready):', error);
+            }
+        }
+    }
+
+    return pwaResult;
+}
+
 /**
  * Send daily reminder for appointments
  */
@@ -1580,22 +1935,24 @@ export async function sendDailyReminderNotification(params: {
     date: string;
     time: string;
     arriveByTime?: string;
+    clinicId?: string; // applies the clinic's notification preferences
+    timeContext?: ClinicTimeContext;
 }): Promise<boolean> {
-    const { firestore, patientId, appointmentId, doctorName, clinicName, date, time, arriveByTime } = params;
+    const { firestore, patientId, appointmentId, doctorName, clinicName, date, time, arriveByTime, clinicId, timeContext } = params;
     console.log(`[Notification] 🔔 sendDailyReminderNotification called for ${appointmentId}`);
 
     // Always display user time based on arriveByTime - 15 minutes (or time - 15 if arriveByTime missing)
     let displayTime = time;
     try {
-        const appointmentDate = parse(date, 'd MMMM yyyy', new Date());
-        const baseTime = parseTime(arriveByTime || time, appointmentDate);
+        const appointmentDate = parseClinicDate(date, timeContext);
+        const baseTime = parseTime(arriveByTime || time, appointmentDate, timeContext);
         const shownTime = subMinutes(baseTime, 15);
-        displayTime = getClinicTimeString(shownTime);
+        displayTime = getClinicTimeString(shownTime, timeContext);
     } catch (error) {
         console.error('Error calculating displayTime for daily reminder notification:', error);
     }
 
-    if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.DAILY_REMINDER, 'pwa')) {
+    if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.DAILY_REMINDER, 'pwa', { clinicId, patientId })) {
         console.log(`[PWA] 🚫 Daily reminder notification is DISABLED. Skipping PWA.`);
         return true;
     }
@@ -1603,6 +1960,8 @@ export async function sendDailyReminderNotification(params: {
     return sendNotificationToPatient({
         firestore,
         patientId,
+        clinicId,
+        outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.DAILY_REMINDER, 'pwa', appointmentId), notificationType: NOTIFICATION_TYPES.DAILY_REMINDER, appointmentId },
         title: 'Appointment Reminder',
         body: `Reminder: You have an appointment with Dr. ${doctorName} today, ${date} at ${displayTime}.`,
         data: {
@@ -1627,6 +1986,7 @@ type NotifySessionPatientsParams = {
     sessionIndex: number | undefined;
     tokenDistribution?: 'classic' | 'advanced';
     averageConsultingTime?: number;
+    timeContext?: ClinicTimeContext;
 };
 
 export async function notifySessionPatientsOfConsultationStart({
@@ -1638,6 +1998,7 @@ export async function notifySessionPatientsOfConsultationStart({
     sessionIndex,
     tokenDistribution,
     averageConsultingTime,
+    timeContext,
 }: NotifySessionPatientsParams): Promise<void> {
     console.log(`[Notification] 🔔 notifySessionPatientsOfConsultationStart called for clinic ${clinicId}, doctor ${doctorName}, date ${date}, session ${sessionIndex}`);
     if (sessionIndex === undefined) {
@@ -1687,7 +2048,8 @@ export async function notifySessionPatientsOfConsultationStart({
                     peopleAhead: index,
                     communicationPhone: appointment.communicationPhone,
                     patientName: appointment.patientName,
-                    clinicId
+                    clinicId,
+                    timeContext,
                 });
             } catch (error) {
                 console.error(`Failed to notify patient ${appointment.patientId} for appointment ${appointment.id}`, error);
@@ -1725,6 +2087,7 @@ export async function notifyNextPatientsWhenCompleted(params: {
         // Get clinic data for tokenDistribution
         const clinicDoc = await getDoc(doc(firestore, 'clinics', completedAppointment.clinicId));
         const tokenDistribution = clinicDoc.exists() ? clinicDoc.data()?.tokenDistribution : 'advanced';
+        const timeContext = getClinicTimeContext(clinicDoc.data());
 
         // Get doctor data for averageConsultingTime
         // We'll use doctor name to find the doctor doc (consistent with other logic)
@@ -1736,11 +2099,18 @@ export async function notifyNextPatientsWhenCompleted(params: {
         const doctorsSnapshot = await getDocs(doctorsQuery);
         let averageConsultingTime = 15;
         let doctorStatus: 'In' | 'Out' = 'Out';
+        let consultationModel: ConsultationTimeModel | null = null;
         if (!doctorsSnapshot.empty) {
             const doctorData = doctorsSnapshot.docs[0].data();
             averageConsultingTime = doctorData?.averageConsultingTime || 15;
             doctorStatus = doctorData?.consultationStatus || 'Out';
+            consultationModel = await getConsultationTimeModel(firestore, doctorsSnapshot.docs[0].id);
         }
+        const completedInSession = allAppointments.filter(apt =>
+            apt.status === 'Completed' &&
+            apt.patientId !== 'dummy-break-patient' &&
+            (apt.sessionIndex ?? 0) === (completedAppointment.sessionIndex ?? 0)
+        ).length + 1;
 
         const { compareAppointments, compareAppointmentsClassic } = await import('./appointment-service');
 
@@ -1787,8 +2157,7 @@ export async function notifyNextPatientsWhenCompleted(params: {
                     // Sync Break Cancellation: If doctor is 'In', ignore active breaks
                     if (doctorStatus === 'In') {
                         try {
-                            const appointmentDateObj = parse(b.date, 'd MMMM yyyy', new Date());
-                            const breakTime = parseTime(b.time, appointmentDateObj);
+                            const breakTime = parseTime(b.time, parseClinicDate(b.date, timeContext), timeContext);
                             const breakEndTime = addMinutes(breakTime, averageConsultingTime);
 
                             // If currently within THIS break slot, ignore it if doctor is 'In'
@@ -1821,6 +2190,10 @@ export async function notifyNextPatientsWhenCompleted(params: {
                     breakDuration,
                     tokenDistribution,
                     averageConsultingTime,
+                    consultationModel,
+                    completedInSession,
+                    clinicId: appointment.clinicId,
+                    timeContext,
                 });
             } catch (error) {
                 console.error(`Failed to send notification to patient ${appointment.patientId}:`, error);
@@ -1840,11 +2213,13 @@ export async function sendFreeFollowUpExpiryNotification(params: {
     doctorName: string;
     clinicName: string;
     remainingDays: number;
+    clinicId?: string; // applies the clinic's notification preferences
+    appointmentId?: string; // the completed visit the free follow-up belongs to
 }): Promise<boolean> {
-    const { firestore, patientId, doctorName, clinicName, remainingDays } = params;
+    const { firestore, patientId, doctorName, clinicName, remainingDays, clinicId, appointmentId } = params;
     console.log(`[Notification] 🔔 sendFreeFollowUpExpiryNotification called for patient ${patientId}`);
 
-    if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.FREE_FOLLOWUP_EXPIRY, 'pwa')) {
+    if (!await isNotificationEnabled(firestore, NOTIFICATION_TYPES.FREE_FOLLOWUP_EXPIRY, 'pwa', { clinicId, patientId })) {
         console.log(`[PWA] 🚫 Follow-up expiry notification is DISABLED. Skipping PWA.`);
         return true;
     }
@@ -1852,6 +2227,8 @@ export async function sendFreeFollowUpExpiryNotification(params: {
     return sendNotificationToPatient({
         firestore,
         patientId,
+        clinicId,
+        outbox: { key: buildOutboxKey(NOTIFICATION_TYPES.FREE_FOLLOWUP_EXPIRY, 'pwa', appointmentId || patientId), notificationType: NOTIFICATION_TYPES.FREE_FOLLOWUP_EXPIRY, appointmentId },
         title: 'Free Follow-up Expiring Soon',
         body: `You have ${remainingDays} more days to visit Dr. ${doctorName} for free.`,
         data: {
@@ -1872,10 +2249,12 @@ export async function checkAndSendDailyReminders(params: {
     clinicId: string;
 }): Promise<void> {
     const { firestore, clinicId } = params;
-    const todayStr = getClinicISOString(getClinicNow());
 
     try {
-        console.log(`[DAILY REMINDER] Starting check for clinic ${clinicId} on ${todayStr}`);
+        const clinicDoc = await getDoc(doc(firestore, 'clinics', clinicId));
+        const timeContext = getClinicTimeContext(clinicDoc.data());
+        const todayStr = getClinicISOString(getClinicNow(), timeContext);
+        console.log(`[DAILY REMINDER] Starting check for clinic ${clinicId} on ${todayStr} (${timeContext.timeZone})`);
 
         // 1. Get all doctors for this clinic
         const doctorsQuery = query(
@@ -1903,7 +2282,7 @@ export async function checkAndSendDailyReminders(params: {
             const daysAgo = freeFollowUpDays - 3;
             // Approximate days calculation using 24h * 60m
             const targetDate = subMinutes(new Date(), daysAgo * 24 * 60);
-            const targetDateStr = getClinicISOString(targetDate);
+            const targetDateStr = getClinicISOString(targetDate, timeContext);
 
             console.log(`[DAILY REMINDER] Dr. ${doctor.name}: Checking appointments from ${targetDateStr} (Free Days: ${freeFollowUpDays})`);
 
@@ -1932,7 +2311,9 @@ export async function checkAndSendDailyReminders(params: {
                     patientId: appointment.patientId,
                     doctorName: doctor.name,
                     clinicName: appointment.clinicName || 'The Clinic',
-                    remainingDays: 3
+                    remainingDays: 3,
+                    clinicId,
+                    appointmentId: appDoc.id
                 });
 
                 if (success) {
@@ -1946,7 +2327,7 @@ export async function checkAndSendDailyReminders(params: {
         console.log('[DAILY REMINDER] Check complete.');
 
         // 4. Also process WhatsApp Batch Reminders (5 PM / 7 AM)
-        await processWhatsAppBatchReminders({ firestore, clinicId });
+        await processWhatsAppBatchReminders({ firestore, clinicId, timeContext });
 
     } catch (error) {
         console.error('[DAILY REMINDER] Error:', error);
@@ -1954,16 +2335,23 @@ export async function checkAndSendDailyReminders(params: {
 }
 
 /**
- * Process WhatsApp Batch Reminders (5 PM Day-Before / 7 AM Same-Day)
+ * Process WhatsApp Batch Reminders (5 PM Day-Before / 7 AM Same-Day), by the clinic's own clock
  */
 export async function processWhatsAppBatchReminders(params: {
     firestore: Firestore;
     clinicId: string;
+    timeContext?: ClinicTimeContext; // read from the clinic when not given
 }): Promise<void> {
     const { firestore, clinicId } = params;
+
+    // Get Clinic details for the time zone and Magic Link logic
+    const clinicDoc = await getDoc(doc(firestore, 'clinics', clinicId));
+    const clinicData = clinicDoc.exists() ? clinicDoc.data() : {};
+    const timeContext = params.timeContext ?? getClinicTimeContext(clinicData);
+
     const now = getClinicNow();
-    const currentHour = now.getHours();
-    const todayStr = getClinicDateString(now);
+    const currentHour = getClinicHour(now, timeContext);
+    const todayStr = getClinicDateString(now, timeContext);
 
     // Determine batch type based on hour
     // Batch 1: 5 PM - 7 PM (Day-before reminders for tomorrow)
@@ -1974,7 +2362,7 @@ export async function processWhatsAppBatchReminders(params: {
     if (currentHour >= 17 && currentHour < 19) {
         batchType = '5PM';
         const tomorrow = addMinutes(now, 24 * 60);
-        targetDateStr = getClinicDateString(tomorrow);
+        targetDateStr = getClinicDateString(tomorrow, timeContext);
     } else if (currentHour >= 7 && currentHour < 9) {
         batchType = '7AM';
         targetDateStr = todayStr;
@@ -2003,9 +2391,6 @@ export async function processWhatsAppBatchReminders(params: {
             return;
         }
 
-        // Get Clinic details for Magic Link logic
-        const clinicDoc = await getDoc(doc(firestore, 'clinics', clinicId));
-        const clinicData = clinicDoc.exists() ? clinicDoc.data() : {};
         const clinicName = clinicData.name || 'The Clinic';
         const tokenDistribution = clinicData.tokenDistribution || 'advanced';
 
@@ -2023,9 +2408,9 @@ export async function processWhatsAppBatchReminders(params: {
             // Calculate display reporting time (15m before arriveBy or time)
             let displayTime = appointment.time;
             try {
-                const appointmentDate = parse(appointment.date, 'd MMMM yyyy', new Date());
-                const baseTime = parseClinicTime(appointment.arriveByTime || appointment.time, appointmentDate);
-                displayTime = getClinicTimeString(subMinutes(baseTime, 15));
+                const appointmentDate = parseClinicDate(appointment.date, timeContext);
+                const baseTime = parseTime(appointment.arriveByTime || appointment.time, appointmentDate, timeContext);
+                displayTime = getClinicTimeString(subMinutes(baseTime, 15), timeContext);
             } catch (e) {
                 console.error('Error parsing time for batch reminder:', e);
             }
@@ -2034,6 +2419,22 @@ export async function processWhatsAppBatchReminders(params: {
                 ? String(appointment.classicTokenNumber)
                 : (tokenDistribution !== 'advanced' ? '--' : (appointment.tokenNumber || '--'));
 
+            const decision = await getNotificationDecision(firestore, NOTIFICATION_TYPES.DAILY_REMINDER, 'whatsapp', {
+                clinicId,
+                patientId: appointment.patientId,
+                now,
+            });
+            if (decision.reason === 'quiet_hours') {
+                // Left unmarked so a later run in the batch window picks it up
+                console.log(`[WhatsApp Batch] 🌙 Quiet hours for ${appointment.id}. Deferring ${batchType} reminder.`);
+                continue;
+            }
+            if (!decision.allowed) {
+                console.log(`[WhatsApp Batch] 🚫 Daily reminder is DISABLED for ${appointment.id} (${decision.reason}). Skipping.`);
+                await updateDoc(doc(firestore, 'appointments', appDoc.id), { [trackingField]: true });
+                continue;
+            }
+
             try {
                 console.log(`[WhatsApp Batch] Sending ${batchType} reminder to ${appointment.patientName} (${appointment.id})`);
                 await sendWhatsAppAppointmentConfirmed({
@@ -2047,7 +2448,14 @@ export async function processWhatsAppBatchReminders(params: {
                     tokenNumber: tokenToDisplay,
                     appointmentId: appointment.id,
                     showToken: tokenDistribution === 'advanced' || !!appointment.classicTokenNumber,
-                    firestore
+                    firestore,
+                    clinicId,
+                    patientId: appointment.patientId,
+                    outbox: {
+                        key: buildOutboxKey(NOTIFICATION_TYPES.DAILY_REMINDER, 'whatsapp', appointment.id, batchType),
+                        notificationType: NOTIFICATION_TYPES.DAILY_REMINDER,
+                    },
+                    timeContext,
                 });
 
                 // Update tracking fields
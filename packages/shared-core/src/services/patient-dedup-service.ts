@@ -0,0 +1,525 @@
+/**
+ * Patient Dedup Service
+ *
+ * Staff create duplicate patients when they mistype a name or book under a
+ * second phone number. A nightly job scores pairs of patients within each
+ * clinic and queues likely duplicates in `patient-duplicates` for review in
+ * clinic-admin and superadmin. Merging keeps one record, moves everything that
+ * points at the other one (appointments, prescriptions, documents, waitlist,
+ * payments, reviews, user logins and relatives' links) to it in a single
+ * transaction, deletes the duplicate and records what happened in
+ * `patient-merges`. Staff may not write most of those collections, so merges
+ * run as the server worker: browsers call requestPatientMerge.
+ *
+ * Patients are compared only within blocks that share a phone number or the
+ * start of the first name, so the job stays well short of n² comparisons.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type DocumentReference,
+  type Firestore,
+} from 'firebase/firestore';
+import type {
+  Appointment,
+  AppointmentEventActor,
+  AppointmentEventSource,
+  DuplicatePatientReason,
+  Patient,
+  PatientDuplicateCandidate,
+  PatientMergeRecord,
+} from '@kloqo/shared-types';
+import { applyAppointmentMutation } from './appointment-event-service';
+import { assertPermission, type StaffMember } from './access-control-service';
+import { CONSULTATION_RECORDS_COLLECTION } from './consultation-record-service';
+import { PATIENT_DOCUMENTS_COLLECTION } from './medical-record-service';
+import { postToNurseApp } from '../utils/nurse-app-api';
+
+export const PATIENT_DUPLICATES_COLLECTION = 'patient-duplicates';
+export const PATIENT_MERGES_COLLECTION = 'patient-merges';
+
+// Below this the names are too different to be one person, whatever else matches
+export const MIN_NAME_SIMILARITY = 0.85;
+export const DUPLICATE_SCORE_THRESHOLD = 0.75;
+
+// Collections whose documents carry a `patientId`, other than appointments
+const PATIENT_REFERENCE_COLLECTIONS = [
+  CONSULTATION_RECORDS_COLLECTION,
+  PATIENT_DOCUMENTS_COLLECTION,
+  'waitlist',
+  'appointment-series',
+  'leave-rebook-proposals',
+  'payments',
+  'reviews',
+  'users',
+];
+
+// A transaction takes at most 500 writes; keep room for the patient docs and audit record
+const MAX_MERGE_WRITES = 450;
+
+const HONORIFICS = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'master', 'baby', 'smt', 'sri', 'shri']);
+
+type DedupPatient = Pick<Patient, 'id' | 'name' | 'phone'> & Partial<Pick<Patient, 'age' | 'sex' | 'place' | 'communicationPhone' | 'clinicIds'>>;
+
+export interface DuplicateMatch {
+  score: number;
+  nameSimilarity: number;
+  reasons: DuplicatePatientReason[];
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * Lowercase letters only, honorifics and initials-only punctuation removed.
+ */
+export function normalizePatientName(name: string): string {
+  return (name || '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !HONORIFICS.has(token))
+    .join(' ');
+}
+
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return a ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(b.length - 1, i + matchWindow);
+    for (let j = start; j <= end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * 0-1 similarity of two names. Word order is ignored ("Kumar Ravi" matches
+ * "Ravi Kumar") and so are honorifics.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizePatientName(a);
+  const right = normalizePatientName(b);
+  const sorted = (name: string) => name.split(' ').sort().join(' ');
+  return Math.max(jaroWinkler(left, right), jaroWinkler(sorted(left), sorted(right)));
+}
+
+function phoneKeys(patient: DedupPatient): string[] {
+  return [patient.phone, patient.communicationPhone]
+    .map(phone => (phone || '').replace(/\D/g, '').slice(-10))
+    .filter(phone => phone.length === 10);
+}
+
+/**
+ * How likely two records are the same person, or null when something rules it
+ * out: names too far apart, different sexes, or ages more than 5 years apart
+ * (a father and son who share a name and a phone).
+ */
+export function scorePatientPair(a: DedupPatient, b: DedupPatient): DuplicateMatch | null {
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity < MIN_NAME_SIMILARITY) return null;
+  if (a.sex && b.sex && a.sex !== b.sex) return null;
+  const bothAged = !!a.age && !!b.age;
+  if (bothAged && Math.abs(a.age! - b.age!) > 5) return null;
+
+  const reasons: DuplicatePatientReason[] = ['name'];
+  let score = 0.5 * similarity;
+
+  const bPhones = phoneKeys(b);
+  if (phoneKeys(a).some(phone => bPhones.includes(phone))) {
+    reasons.push('phone');
+    score += 0.2;
+  }
+  // Ages are entered as whole years, so a birthday between visits moves it by one
+  if (bothAged && Math.abs(a.age! - b.age!) <= 1) {
+    reasons.push('age');
+    score += 0.1;
+  }
+  if (a.sex && a.sex === b.sex) {
+    reasons.push('sex');
+    score += 0.1;
+  }
+  if (a.place && b.place && jaroWinkler(a.place.trim().toLowerCase(), b.place.trim().toLowerCase()) >= 0.9) {
+    reasons.push('place');
+    score += 0.1;
+  }
+
+  return { score: Math.round(score * 100) / 100, nameSimilarity: Math.round(similarity * 100) / 100, reasons };
+}
+
+export function buildDuplicatePairId(patientIdA: string, patientIdB: string): string {
+  return [patientIdA, patientIdB].sort().join('_');
+}
+
+/**
+ * Scores every pair that shares a phone number, or the first three letters of
+ * the first name, and returns those at or above DUPLICATE_SCORE_THRESHOLD,
+ * best first.
+ */
+export function findDuplicateCandidates(patients: DedupPatient[]): Omit<PatientDuplicateCandidate, 'status'>[] {
+  const blocks = new Map<string, DedupPatient[]>();
+  const addToBlock = (key: string, patient: DedupPatient) => {
+    const block = blocks.get(key) || [];
+    block.push(patient);
+    blocks.set(key, block);
+  };
+
+  for (const patient of patients) {
+    phoneKeys(patient).forEach(phone => addToBlock(`phone:${phone}`, patient));
+    const firstToken = normalizePatientName(patient.name).split(' ')[0];
+    if (firstToken) addToBlock(`name:${firstToken.slice(0, 3)}`, patient);
+  }
+
+  const candidates = new Map<string, Omit<PatientDuplicateCandidate, 'status'>>();
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = [block[i], block[j]];
+        if (a.id === b.id) continue;
+        const id = buildDuplicatePairId(a.id, b.id);
+        if (candidates.has(id)) continue;
+
+        const match = scorePatientPair(a, b);
+        if (!match || match.score < DUPLICATE_SCORE_THRESHOLD) continue;
+        candidates.set(id, {
+          id,
+          patientIds: [a.id, b.id].sort() as [string, string],
+          clinicIds: Array.from(new Set([...(a.clinicIds || []), ...(b.clinicIds || [])])),
+          ...match,
+        });
+      }
+    }
+  }
+
+  return Array.from(candidates.values()).sort((x, y) => y.score - x.score);
+}
+
+/**
+ * The surviving record after a merge: links and history from both, and any
+ * detail the survivor is missing filled in from the duplicate.
+ */
+export function buildMergedPatientFields(survivor: Patient, duplicate: Patient): Partial<Patient> {
+  const union = (a?: string[], b?: string[]) => Array.from(new Set([...(a || []), ...(b || [])]));
+  const fields: Partial<Patient> = {
+    clinicIds: union(survivor.clinicIds, duplicate.clinicIds),
+    visitHistory: union(survivor.visitHistory, duplicate.visitHistory),
+    relatedPatientIds: union(survivor.relatedPatientIds, duplicate.relatedPatientIds)
+      .filter(id => id !== survivor.id && id !== duplicate.id),
+    totalAppointments: (survivor.totalAppointments || 0) + (duplicate.totalAppointments || 0),
+  };
+
+  const fillIfMissing = <K extends keyof Patient>(key: K) => {
+    if (!survivor[key] && duplicate[key]) {
+      fields[key] = duplicate[key];
+    }
+  };
+  (['age', 'sex', 'place', 'email', 'communicationPhone', 'primaryUserId', 'language'] as const).forEach(fillIfMissing);
+  if (!survivor.isPrimary && duplicate.isPrimary) fields.isPrimary = true;
+  if (!survivor.isKloqoMember && duplicate.isKloqoMember) fields.isKloqoMember = true;
+
+  return fields;
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+/**
+ * The nightly job: scores each clinic's patients and queues new likely
+ * duplicates. Pairs already merged or dismissed are not queued again.
+ */
+export async function detectDuplicatePatients(firestore: Firestore): Promise<{ clinics: number; queued: number }> {
+  const [clinicsSnap, reviewedSnap] = await Promise.all([
+    getDocs(collection(firestore, 'clinics')),
+    getDocs(query(collection(firestore, PATIENT_DUPLICATES_COLLECTION), where('status', 'in', ['Merged', 'Dismissed']))),
+  ]);
+  const reviewed = new Set(reviewedSnap.docs.map(d => d.id));
+
+  const candidates = new Map<string, Omit<PatientDuplicateCandidate, 'status'>>();
+  for (const clinicDoc of clinicsSnap.docs) {
+    const patientsSnap = await getDocs(query(collection(firestore, 'patients'), where('clinicIds', 'array-contains', clinicDoc.id)));
+    const patients = patientsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Patient));
+    for (const candidate of findDuplicateCandidates(patients)) {
+      if (!reviewed.has(candidate.id)) candidates.set(candidate.id, candidate);
+    }
+  }
+
+  const pending = Array.from(candidates.values());
+  for (let i = 0; i < pending.length; i += 400) {
+    const batch = writeBatch(firestore);
+    for (const candidate of pending.slice(i, i + 400)) {
+      batch.set(doc(firestore, PATIENT_DUPLICATES_COLLECTION, candidate.id), {
+        ...candidate,
+        status: 'Pending',
+        detectedAt: serverTimestamp(),
+      });
+    }
+    await batch.commit();
+  }
+
+  console.log(`[PatientDedup] ${pending.length} pending duplicate pairs across ${clinicsSnap.size} clinics`);
+  return { clinics: clinicsSnap.size, queued: pending.length };
+}
+
+/**
+ * Pairs waiting for review, for one clinic or (superadmin) all of them
+ */
+export async function getPendingDuplicateCandidates(firestore: Firestore, clinicId?: string): Promise<PatientDuplicateCandidate[]> {
+  const constraints = [where('status', '==', 'Pending')];
+  if (clinicId) constraints.push(where('clinicIds', 'array-contains', clinicId));
+  const snapshot = await getDocs(query(collection(firestore, PATIENT_DUPLICATES_COLLECTION), ...constraints));
+  return snapshot.docs
+    .map(d => ({ id: d.id, ...d.data() } as PatientDuplicateCandidate))
+    .sort((a, b) => b.score - a.score);
+}
+
+export async function dismissDuplicateCandidate(
+  firestore: Firestore,
+  candidateId: string,
+  actor: AppointmentEventActor,
+  staff?: StaffMember | null
+): Promise<void> {
+  if (staff) assertPermission(staff, 'merge_patients');
+  await updateDoc(doc(firestore, PATIENT_DUPLICATES_COLLECTION, candidateId), {
+    status: 'Dismissed',
+    reviewedAt: serverTimestamp(),
+    reviewedBy: actor,
+  });
+}
+
+/**
+ * Asks the nurse app's /api/patients/merge route to merge `duplicateId` into
+ * `survivorId` as the signed-in user. The route checks the user may merge these
+ * patients and records them as the actor.
+ */
+export async function requestPatientMerge(
+  firestore: Firestore,
+  survivorId: string,
+  duplicateId: string,
+  candidateId?: string
+): Promise<PatientMergeRecord> {
+  const response = await postToNurseApp(firestore, '/api/patients/merge', { survivorId, duplicateId, candidateId });
+  if (!response) {
+    throw new Error('Not signed in.');
+  }
+  if (!response.ok) {
+    throw new Error(response.result.error || 'Failed to merge patients.');
+  }
+  return response.result.record as PatientMergeRecord;
+}
+
+type PatientReferences = {
+  appointments: Appointment[];
+  relativeRefs: DocumentReference[];
+  referenceRefs: Record<string, DocumentReference[]>; // by collection
+};
+
+/**
+ * Everything that points at `patientId`, other than the patient doc itself.
+ * Queries cannot run inside a client transaction, so merges collect these first.
+ */
+async function findPatientReferences(firestore: Firestore, patientId: string, excludeIds: string[]): Promise<PatientReferences> {
+  const [appointmentsSnap, relativesSnap, ...referenceSnaps] = await Promise.all([
+    getDocs(query(collection(firestore, 'appointments'), where('patientId', '==', patientId))),
+    getDocs(query(collection(firestore, 'patients'), where('relatedPatientIds', 'array-contains', patientId))),
+    ...PATIENT_REFERENCE_COLLECTIONS.map(name =>
+      getDocs(query(collection(firestore, name), where('patientId', '==', patientId)))
+    ),
+  ]);
+
+  const referenceRefs: Record<string, DocumentReference[]> = {};
+  PATIENT_REFERENCE_COLLECTIONS.forEach((name, i) => {
+    if (referenceSnaps[i].size > 0) referenceRefs[name] = referenceSnaps[i].docs.map(d => d.ref);
+  });
+
+  return {
+    appointments: appointmentsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Appointment)),
+    relativeRefs: relativesSnap.docs.map(d => d.ref).filter(ref => !excludeIds.includes(ref.id)),
+    referenceRefs,
+  };
+}
+
+function countPatientReferences(references: PatientReferences): Record<string, number> {
+  const counts: Record<string, number> = {};
+  if (references.appointments.length > 0) counts.appointments = references.appointments.length;
+  if (references.relativeRefs.length > 0) counts.patients = references.relativeRefs.length;
+  for (const [name, refs] of Object.entries(references.referenceRefs)) {
+    counts[name] = refs.length;
+  }
+  return counts;
+}
+
+// Rounds of re-pointing references created while a merge ran before giving up
+const MAX_LATE_REFERENCE_ROUNDS = 3;
+
+/**
+ * Merges `duplicateId` into `survivorId`. Everything pointing at the duplicate
+ * is re-pointed, the duplicate is deleted and a patient-merges record keeps a
+ * copy of it, all in one transaction; appointments also get a history event.
+ * References created between collecting them and the commit (a booking made
+ * meanwhile) are found again afterwards and moved too, so none is left
+ * pointing at the deleted patient. Server-side only, as the server worker.
+ */
+export async function mergePatients(
+  firestore: Firestore,
+  survivorId: string,
+  duplicateId: string,
+  context: { actor: AppointmentEventActor; source: AppointmentEventSource; candidateId?: string },
+  staff?: StaffMember | null
+): Promise<PatientMergeRecord> {
+  if (staff) assertPermission(staff, 'merge_patients');
+  if (survivorId === duplicateId) {
+    throw new Error('Choose two different patients to merge.');
+  }
+
+  const excludeIds = [survivorId, duplicateId];
+  const references = await findPatientReferences(firestore, duplicateId, excludeIds);
+  const { appointments, relativeRefs, referenceRefs } = references;
+  const referenceCount = Object.values(referenceRefs).reduce((sum, refs) => sum + refs.length, 0);
+
+  const writes = appointments.length * 2 + relativeRefs.length + referenceCount + 4;
+  if (writes > MAX_MERGE_WRITES) {
+    throw new Error(`These records have too much history to merge at once (${writes} changes). Contact support.`);
+  }
+
+  const movedReferences: Record<string, number> = { appointments: 0, patients: 0, ...countPatientReferences(references) };
+
+  const survivorRef = doc(firestore, 'patients', survivorId);
+  const duplicateRef = doc(firestore, 'patients', duplicateId);
+  const mergeRef = doc(collection(firestore, PATIENT_MERGES_COLLECTION));
+
+  const record = await runTransaction(firestore, async (transaction) => {
+    const [survivorSnap, duplicateSnap, ...relativeSnaps] = await Promise.all([
+      transaction.get(survivorRef),
+      transaction.get(duplicateRef),
+      ...relativeRefs.map(ref => transaction.get(ref)),
+    ]);
+    if (!survivorSnap.exists() || !duplicateSnap.exists()) {
+      throw new Error('One of these patients no longer exists; it may already have been merged.');
+    }
+    const survivor = { id: survivorSnap.id, ...survivorSnap.data() } as Patient;
+    const duplicate = { id: duplicateSnap.id, ...duplicateSnap.data() } as Patient;
+
+    const eventContext = { action: 'patient_merged' as const, actor: context.actor, source: context.source };
+    for (const appointment of appointments) {
+      applyAppointmentMutation(transaction, firestore, appointment, { patientId: survivorId }, eventContext);
+    }
+
+    relativeSnaps.forEach(snap => {
+      if (!snap.exists()) return;
+      transaction.update(snap.ref, {
+        relatedPatientIds: repointRelatedIds(snap.data().relatedPatientIds, snap.id, duplicateId, survivorId),
+        updatedAt: serverTimestamp(),
+      });
+    });
+
+    Object.values(referenceRefs).forEach(refs => {
+      refs.forEach(ref => transaction.update(ref, { patientId: survivorId }));
+    });
+
+    transaction.update(survivorRef, { ...buildMergedPatientFields(survivor, duplicate), updatedAt: serverTimestamp() });
+    transaction.delete(duplicateRef);
+
+    const mergeRecord: PatientMergeRecord = {
+      id: mergeRef.id,
+      survivorId,
+      mergedPatientId: duplicateId,
+      mergedPatient: duplicate,
+      movedReferences,
+      ...(context.candidateId ? { candidateId: context.candidateId } : {}),
+      actor: context.actor,
+      source: context.source,
+    };
+    transaction.set(mergeRef, { ...mergeRecord, createdAt: serverTimestamp() });
+
+    if (context.candidateId) {
+      transaction.update(doc(firestore, PATIENT_DUPLICATES_COLLECTION, context.candidateId), {
+        status: 'Merged',
+        survivorId,
+        reviewedAt: serverTimestamp(),
+        reviewedBy: context.actor,
+      });
+    }
+
+    return mergeRecord;
+  });
+
+  // The duplicate is gone, so nothing new can be booked against it; move what arrived meanwhile.
+  // Merge records are immutable, so these only show up in the log.
+  const lateMoved: Record<string, number> = {};
+  for (let round = 1; ; round++) {
+    const late = await findPatientReferences(firestore, duplicateId, excludeIds);
+    const lateCounts = countPatientReferences(late);
+    if (Object.keys(lateCounts).length === 0) break;
+    if (round > MAX_LATE_REFERENCE_ROUNDS) {
+      throw new Error(`Merged patient ${duplicateId} into ${survivorId}, but some records still point at ${duplicateId}. Run the merge again.`);
+    }
+
+    const batch = writeBatch(firestore);
+    const eventContext = { action: 'patient_merged' as const, actor: context.actor, source: context.source };
+    for (const appointment of late.appointments) {
+      applyAppointmentMutation(batch, firestore, appointment, { patientId: survivorId }, eventContext);
+    }
+    const relativeSnaps = await Promise.all(late.relativeRefs.map(ref => getDoc(ref)));
+    relativeSnaps.forEach(snap => {
+      if (!snap.exists()) return;
+      batch.update(snap.ref, {
+        relatedPatientIds: repointRelatedIds(snap.data().relatedPatientIds, snap.id, duplicateId, survivorId),
+        updatedAt: serverTimestamp(),
+      });
+    });
+    Object.values(late.referenceRefs).forEach(refs => {
+      refs.forEach(ref => batch.update(ref, { patientId: survivorId }));
+    });
+    await batch.commit();
+    for (const [name, count] of Object.entries(lateCounts)) {
+      lateMoved[name] = (lateMoved[name] || 0) + count;
+    }
+  }
+
+  console.log(`[PatientDedup] Merged patient ${duplicateId} into ${survivorId}`, movedReferences);
+  if (Object.keys(lateMoved).length > 0) {
+    console.warn(`[PatientDedup] Moved references created during the merge of ${duplicateId}`, lateMoved);
+  }
+  return record;
+}
+
+function repointRelatedIds(related: string[] | undefined, ownId: string, duplicateId: string, survivorId: string): string[] {
+  return Array.from(new Set((related || []).map(id => (id === duplicateId ? survivorId : id))))
+    .filter(id => id !== ownId);
+}
@@ -0,0 +1,121 @@
+/**
+ * Payment Gateway Adapter
+ *
+ * Everything the payment service needs from a gateway (Razorpay, Cashfree, ...)
+ * goes through this interface, so a gateway can be swapped without touching
+ * booking code. FakePaymentGateway keeps intents in memory for tests and local
+ * development and never moves money.
+ */
+
+export interface PaymentIntentRequest {
+    amount: number;      // rupees
+    currency: 'INR';
+    reference: string;   // our Payment id, echoed back in webhooks
+    description?: string;
+}
+
+export interface PaymentIntent {
+    intentId: string;
+    checkoutUrl?: string;
+}
+
+export interface PaymentWebhookEvent {
+    type: 'payment.succeeded' | 'payment.failed';
+    intentId: string;
+    gatewayPaymentId?: string;
+    failureReason?: string;
+}
+
+export interface PaymentRefund {
+    refundId: string;
+}
+
+export interface PaymentGateway {
+    readonly name: string;
+    createIntent(request: PaymentIntentRequest): Promise<PaymentIntent>;
+    /** Returns null when the signature does not match */
+    parseWebhook(rawBody: string, signature: string | null): PaymentWebhookEvent | null;
+    refund(intentId: string, amount: number): Promise<PaymentRefund>;
+}
+
+export class FakePaymentGateway implements PaymentGateway {
+    readonly name = 'fake';
+    private readonly secret: string;
+    private readonly intents = new Map<string, { amount: number; status: 'created' | 'succeeded' | 'failed' | 'refunded' }>();
+    private counter = 0;
+
+    constructor(secret: string) {
+        this.secret = secret;
+    }
+
+    async createIntent(request: PaymentIntentRequest): Promise<PaymentIntent> {
+        const intentId = `fake_pi_${++this.counter}_${request.reference}`;
+        this.intents.set(intentId, { amount: request.amount, status: 'created' });
+        return { intentId };
+    }
+
+    parseWebhook(rawBody: string, signature: string | null): PaymentWebhookEvent | null {
+        if (signature !== this.secret) return null;
+        try {
+            return JSON.parse(rawBody) as PaymentWebhookEvent;
+        } catch {
+            return null;
+        }
+    }
+
+    async refund(intentId: string, amount: number): Promise<PaymentRefund> {
+        const intent = this.intents.get(intentId);
+        if (intent && intent.status !== 'succeeded') {
+            throw new Error(`Cannot refund a payment that is ${intent.status}.`);
+        }
+        if (intent && amount > intent.amount) {
+            throw new Error('Refund amount exceeds the amount paid.');
+        }
+        if (intent) intent.status = 'refunded';
+        return { refundId: `fake_rf_${++this.counter}` };
+    }
+
+    /**
+     * Completes an intent the way a real checkout would and returns the webhook
+     * the gateway would send for it.
+     */
+    simulateCheckout(intentId: string, outcome: 'succeeded' | 'failed'): { rawBody: string; signature: string } {
+        const intent = this.intents.get(intentId);
+        if (!intent) {
+            throw new Error(`Unknown payment intent ${intentId}.`);
+        }
+        intent.status = outcome;
+        const event: PaymentWebhookEvent = outcome === 'succeeded'
+            ? { type: 'payment.succeeded', intentId, gatewayPaymentId: `fake_pay_${++this.counter}` }
+            : { type: 'payment.failed', intentId, failureReason: 'Card declined' };
+        return { rawBody: JSON.stringify(event), signature: this.secret };
+    }
+}
+
+let activeGateway: PaymentGateway | null = null;
+
+/**
+ * Installs the gateway used for new payments, webhooks and refunds
+ */
+export function setPaymentGateway(gateway: PaymentGateway | null): void {
+    activeGateway = gateway;
+}
+
+/**
+ * The installed gateway. Falls back to the fake gateway when PAYMENT_GATEWAY=fake
+ * so local environments can exercise the whole flow. Webhooks are only trusted
+ * with a PAYMENT_WEBHOOK_SECRET, so without one no gateway is configured.
+ */
+export function getPaymentGateway(): PaymentGateway {
+    if (!activeGateway && process.env.PAYMENT_GATEWAY === 'fake') {
+        const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+        if (!secret) {
+            throw new Error('PAYMENT_WEBHOOK_SECRET is not set.');
+        }
+        activeGateway = new FakePaymentGateway(secret);
+    }
+    if (!activeGateway) {
+        throw new Error('No payment gateway is configured.');
+    }
+    return activeGateway;
+}
@@ -0,0 +1,284 @@
+/**
+ * Payment Service
+ *
+ * Online collection of the consultation fee (plus the clinic's convenience fee)
+ * for patient self-bookings. Gateway specifics live behind PaymentGateway; this
+ * module owns the `payments` collection and keeps Appointment.paymentStatus in sync.
+ *
+ * Only the server worker may write payments (see the firestore.rules): intents,
+ * webhooks and refunds run server-side, and browsers ask for refunds through
+ * requestAppointmentRefund.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type Firestore,
+} from 'firebase/firestore';
+import type { Clinic, ConvenienceFeeRule, Payment } from '@kloqo/shared-types';
+import { getPaymentGateway } from './payment-gateway';
+import { assertPermission, type StaffMember } from './access-control-service';
+import { postToNurseApp } from '../utils/nurse-app-api';
+
+declare const window: any;
+
+/** Applies when a clinic has no rule of its own: ₹10, waived */
+export const DEFAULT_CONVENIENCE_FEE: ConvenienceFeeRule = { type: 'flat', value: 10, waived: true };
+
+export interface PaymentAmounts {
+  consultationFee: number;
+  convenienceFee: number;        // what the rule asks for, before waiving
+  convenienceFeeWaived: boolean;
+  amount: number;                // total to charge
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * Convenience fee for a booking in whole rupees, before waiving
+ */
+export function calculateConvenienceFee(rule: ConvenienceFeeRule | undefined, consultationFee: number): number {
+  const effectiveRule = rule ?? DEFAULT_CONVENIENCE_FEE;
+  if (effectiveRule.value <= 0) return 0;
+
+  if (effectiveRule.type === 'flat') {
+    return Math.round(effectiveRule.value);
+  }
+  const fee = Math.round((consultationFee * effectiveRule.value) / 100);
+  return typeof effectiveRule.maxAmount === 'number' ? Math.min(fee, effectiveRule.maxAmount) : fee;
+}
+
+export function calculatePaymentAmounts(consultationFee: number | undefined, rule: ConvenienceFeeRule | undefined): PaymentAmounts {
+  const fee = Math.max(0, Math.round(consultationFee ?? 0));
+  const convenienceFee = calculateConvenienceFee(rule, fee);
+  const convenienceFeeWaived = !!(rule ?? DEFAULT_CONVENIENCE_FEE).waived;
+
+  return {
+    consultationFee: fee,
+    convenienceFee,
+    convenienceFeeWaived,
+    amount: fee + (convenienceFeeWaived ? 0 : convenienceFee),
+  };
+}
+
+/**
+ * Whether a booking at this clinic must be paid online
+ */
+export function isOnlinePaymentDue(clinic: Pick<Clinic, 'onlinePaymentsEnabled' | 'convenienceFee'>, consultationFee: number | undefined): boolean {
+  return !!clinic.onlinePaymentsEnabled && calculatePaymentAmounts(consultationFee, clinic.convenienceFee).amount > 0;
+}
+
+/**
+ * Throws before anything is booked when the clinic collects online but no
+ * gateway is configured, so the patient is not left with an unpaid booking.
+ */
+export function assertOnlinePaymentAvailable(clinic: Pick<Clinic, 'onlinePaymentsEnabled' | 'convenienceFee'>, consultationFee: number | undefined): void {
+  if (!isOnlinePaymentDue(clinic, consultationFee)) return;
+  try {
+    getPaymentGateway();
+  } catch (error) {
+    console.error('[Payments] Online payment unavailable:', error);
+    throw new Error('Online payments are not available at this clinic right now. Please book at the reception.');
+  }
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+/**
+ * Sets a doctor's consultation fee and/or free follow-up window.
+ */
+export async function updateDoctorFees(
+  firestore: Firestore,
+  doctorId: string,
+  fees: { consultationFee?: number; freeFollowUpDays?: number },
+  staff?: StaffMember | null
+): Promise<void> {
+  if (staff) assertPermission(staff, 'edit_fees');
+  for (const [field, value] of Object.entries(fees)) {
+    if (typeof value !== 'number' || isNaN(value) || value < 0) {
+      throw new Error(`Invalid ${field}: ${value}`);
+    }
+  }
+
+  await updateDoc(doc(firestore, 'doctors', doctorId), { ...fees, updatedAt: serverTimestamp() });
+}
+
+/**
+ * Creates a payment intent for a new booking when the clinic collects online.
+ * Returns null when nothing is due.
+ */
+export async function createAppointmentPayment(
+  firestore: Firestore,
+  params: { clinicId: string; clinic: Clinic; appointmentId: string; patientId: string; consultationFee?: number; description?: string }
+): Promise<Payment | null> {
+  const { clinicId, clinic, appointmentId, patientId, consultationFee, description } = params;
+  if (!isOnlinePaymentDue(clinic, consultationFee)) return null;
+
+  const amounts = calculatePaymentAmounts(consultationFee, clinic.convenienceFee);
+
+  const gateway = getPaymentGateway();
+  const paymentRef = doc(collection(firestore, 'payments'));
+  const intent = await gateway.createIntent({
+    amount: amounts.amount,
+    currency: 'INR',
+    reference: paymentRef.id,
+    description,
+  });
+
+  const payment: Payment = {
+    id: paymentRef.id,
+    clinicId,
+    appointmentId,
+    patientId,
+    gateway: gateway.name,
+    gatewayIntentId: intent.intentId,
+    ...(intent.checkoutUrl ? { checkoutUrl: intent.checkoutUrl } : {}),
+    currency: 'INR',
+    consultationFee: amounts.consultationFee,
+    convenienceFee: amounts.convenienceFeeWaived ? 0 : amounts.convenienceFee,
+    amount: amounts.amount,
+    status: 'Pending',
+  };
+
+  const batch = writeBatch(firestore);
+  batch.set(paymentRef, { ...payment, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+  batch.update(doc(firestore, 'appointments', appointmentId), { paymentId: payment.id, paymentStatus: 'Pending' });
+  await batch.commit();
+
+  console.log(`[Payments] Created ${gateway.name} intent ${intent.intentId} for appointment ${appointmentId}: ₹${payment.amount}`);
+  return payment;
+}
+
+/**
+ * Applies a gateway webhook: marks the payment Paid or Failed and mirrors the
+ * status onto the appointment. Replayed webhooks are ignored.
+ */
+export async function applyPaymentWebhook(firestore: Firestore, rawBody: string, signature: string | null): Promise<Payment> {
+  const gateway = getPaymentGateway();
+  const event = gateway.parseWebhook(rawBody, signature);
+  if (!event) {
+    throw new Error('Invalid payment webhook signature.');
+  }
+
+  const paymentsSnap = await getDocs(query(
+    collection(firestore, 'payments'),
+    where('gateway', '==', gateway.name),
+    where('gatewayIntentId', '==', event.intentId),
+    limit(1)
+  ));
+  if (paymentsSnap.empty) {
+    throw new Error(`No payment found for intent ${event.intentId}.`);
+  }
+  const payment = { id: paymentsSnap.docs[0].id, ...paymentsSnap.docs[0].data() } as Payment;
+  if (payment.status !== 'Pending') {
+    console.log(`[Payments] Ignoring ${event.type} for payment ${payment.id}: already ${payment.status}`);
+    return payment;
+  }
+
+  // A booking cancelled before the patient finished paying is refunded straight away
+  const appointmentSnap = await getDoc(doc(firestore, 'appointments', payment.appointmentId));
+  const isCancelled = appointmentSnap.exists() && appointmentSnap.data().status === 'Cancelled';
+  const status: Payment['status'] = event.type === 'payment.succeeded' ? (isCancelled ? 'RefundPending' : 'Paid') : 'Failed';
+  const batch = writeBatch(firestore);
+  batch.update(doc(firestore, 'payments', payment.id), {
+    status,
+    ...(status !== 'Failed'
+      ? { paidAt: serverTimestamp(), ...(event.gatewayPaymentId ? { gatewayPaymentId: event.gatewayPaymentId } : {}) }
+      : { failureReason: event.failureReason || 'Payment failed' }),
+    updatedAt: serverTimestamp(),
+  });
+  batch.update(doc(firestore, 'appointments', payment.appointmentId), { paymentStatus: status });
+  await batch.commit();
+
+  return { ...payment, status };
+}
+
+/**
+ * Asks for a full refund of a cancelled booking. Browsers go through the nurse
+ * app's /api/payments/refund route; the gateway refund itself is issued by
+ * processPendingRefunds. Returns null when the booking was not paid online.
+ */
+export async function requestAppointmentRefund(firestore: Firestore, appointmentId: string): Promise<Payment | null> {
+  if (typeof window === 'undefined') {
+    return markPaymentForRefund(firestore, appointmentId);
+  }
+
+  const response = await postToNurseApp(firestore, '/api/payments/refund', { appointmentId });
+  if (!response) {
+    throw new Error('Not signed in.');
+  }
+  if (!response.ok) {
+    throw new Error(response.result.error || `Refund request failed (${response.status}).`);
+  }
+  return response.result.payment ?? null;
+}
+
+/**
+ * Marks the payment of a cancelled booking RefundPending. Server-side only.
+ * Returns null when the booking is not cancelled or was not paid online.
+ */
+export async function markPaymentForRefund(firestore: Firestore, appointmentId: string): Promise<Payment | null> {
+  const appointmentSnap = await getDoc(doc(firestore, 'appointments', appointmentId));
+  if (!appointmentSnap.exists() || appointmentSnap.data().status !== 'Cancelled') return null;
+  const paymentId = appointmentSnap.data().paymentId;
+  if (!paymentId) return null;
+
+  const paymentSnap = await getDoc(doc(firestore, 'payments', paymentId));
+  if (!paymentSnap.exists()) return null;
+  const payment = { id: paymentSnap.id, ...paymentSnap.data() } as Payment;
+  if (payment.status !== 'Paid') return null;
+
+  const batch = writeBatch(firestore);
+  batch.update(doc(firestore, 'payments', payment.id), { status: 'RefundPending', updatedAt: serverTimestamp() });
+  batch.update(doc(firestore, 'appointments', appointmentId), { paymentStatus: 'RefundPending' });
+  await batch.commit();
+
+  return { ...payment, status: 'RefundPending' };
+}
+
+/**
+ * Issues gateway refunds for every payment marked RefundPending. Server-side only.
+ * Returns the number of payments refunded.
+ */
+export async function processPendingRefunds(firestore: Firestore): Promise<number> {
+  const gateway = getPaymentGateway();
+  const pendingSnap = await getDocs(query(
+    collection(firestore, 'payments'),
+    where('gateway', '==', gateway.name),
+    where('status', '==', 'RefundPending')
+  ));
+
+  let refunded = 0;
+  for (const paymentDoc of pendingSnap.docs) {
+    const payment = { id: paymentDoc.id, ...paymentDoc.data() } as Payment;
+    try {
+      const refund = await gateway.refund(payment.gatewayIntentId, payment.amount);
+      const batch = writeBatch(firestore);
+      batch.update(paymentDoc.ref, {
+        status: 'Refunded',
+        refundId: refund.refundId,
+        refundedAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      batch.update(doc(firestore, 'appointments', payment.appointmentId), { paymentStatus: 'Refunded' });
+      await batch.commit();
+      refunded++;
+      console.log(`[Payments] Refunded ₹${payment.amount} for appointment ${payment.appointmentId} (${refund.refundId})`);
+    } catch (error) {
+      console.error(`[Payments] Refund failed for payment ${payment.id}:`, error);
+    }
+  }
+  return refunded;
+}
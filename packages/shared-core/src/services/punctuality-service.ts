@@ -1,6 +1,19 @@
-import { addDoc, collection, serverTimestamp, type Firestore } from 'firebase/firestore';
-import { format } from 'date-fns';
-import { parseClinicTime } from '../utils/date-utils';
+import { addDoc, collection, doc, getDoc, getDocs, query, serverTimestamp, where, type Firestore } from 'firebase/firestore';
+import { endOfDay, format, parse, startOfDay, startOfWeek, subDays } from 'date-fns';
+import type { Clinic } from '@kloqo/shared-types';
+import {
+    getClinicDateString,
+    getClinicDayOfWeek,
+    getClinicNow,
+    getClinicTimeContext,
+    parseClinicDate,
+    parseClinicTime,
+    type ClinicTimeContext,
+} from '../utils/date-utils';
+import { quantile } from './consultation-time-service';
+import { buildOutboxKey } from './notification-outbox-service';
+import { sendSmartWhatsAppNotification } from './notification-service';
+import { buildTemplateVariables, type TemplateContentVariables } from './message-templates';
 
 export type PunctualityEventType = 'IN' | 'OUT' | 'BREAK_START' | 'BREAK_END' | 'EXTENSION';
 
@@ -23,8 +36,8 @@ export const logPunctualityEvent = async (
 ) => {
     try {
         const now = new Date();
-        const todayDay = format(now, 'EEEE');
-        const todayStr = format(now, 'd MMMM yyyy');
+        const todayDay = getClinicDayOfWeek(now);
+        const todayStr = getClinicDateString(now);
         let scheduledTime: string | null = null;
         let finalSessionIndex = sessionIndex;
 
@@ -68,7 +81,7 @@ export const logPunctualityEvent = async (
             }
         }
 
-        await addDoc(collection(db, 'doctor_punctuality_logs'), {
+        await addDoc(collection(db, PUNCTUALITY_LOGS_COLLECTION), {
             clinicId,
             doctorId: doctor.id,
             doctorName: doctor.name,
@@ -83,3 +96,435 @@ export const logPunctualityEvent = async (
         console.error('Error logging punctuality event:', error);
     }
 };
+
+// ============================================================================
+// ANALYTICS
+// ============================================================================
+// Everything below turns the raw log rows into per-session facts and then into
+// per-doctor scorecards, so the clinic-admin report, its CSV export and the
+// weekly digest all share one set of numbers.
+
+export const PUNCTUALITY_LOGS_COLLECTION = 'doctor_punctuality_logs';
+
+// Same threshold the superadmin report uses for a late start
+export const ON_TIME_GRACE_MINUTES = 10;
+
+export const LATENESS_BUCKETS = ['On time', '10-20 min', '20-30 min', '30+ min'] as const;
+export type LatenessBucket = typeof LATENESS_BUCKETS[number];
+
+export const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export interface DoctorPunctualityLog {
+    id: string;
+    clinicId: string;
+    doctorId: string;
+    doctorName: string;
+    date: string;
+    sessionIndex: number | null;
+    type: PunctualityEventType;
+    timestamp: any;
+    scheduledTime: string | null;
+    metadata?: any;
+}
+
+/**
+ * One doctor session on one day, as reconstructed from its logs.
+ */
+export interface PunctualitySession {
+    doctorId: string;
+    doctorName: string;
+    date: string;
+    weekday: string;
+    sessionIndex: number;
+    latenessMinutes: number | null;   // first IN vs scheduled start; negative when early
+    overtimeMinutes: number | null;   // last OUT past the scheduled end
+    breaks: number;
+    breakOverruns: number;
+    breakOverrunMinutes: number;      // minutes the doctor came back IN after a break's planned end
+    extensions: number;
+    extensionMinutes: number;
+}
+
+export interface PunctualityStats {
+    sessions: number;
+    onTimeSessions: number;
+    averageLateness: number | null;   // late minutes only, early starts count as 0
+    medianLateness: number | null;
+    p90Lateness: number | null;
+    latenessBuckets: Record<LatenessBucket, number>;
+    overtimeMinutes: number;
+    overtimeSessions: number;
+    breaks: number;
+    breakOverruns: number;
+    breakOverrunMinutes: number;
+    extensions: number;
+    extensionMinutes: number;
+}
+
+export interface PunctualityTrendPoint extends PunctualityStats {
+    weekStart: string; // Monday, 'd MMMM yyyy'
+}
+
+export interface DoctorPunctualityScorecard extends PunctualityStats {
+    doctorId: string;
+    doctorName: string;
+    byWeekday: Record<string, PunctualityStats>;
+    trend: PunctualityTrendPoint[];
+}
+
+export interface PunctualityReport {
+    clinicId: string;
+    from: string;
+    to: string;
+    overall: PunctualityStats;
+    doctors: DoctorPunctualityScorecard[];
+    trend: PunctualityTrendPoint[];
+}
+
+function logDate(date: string): Date {
+    return parse(date, 'd MMMM yyyy', new Date());
+}
+
+function toDate(value: any): Date | null {
+    if (!value) return null;
+    if (value instanceof Date) return value;
+    if (typeof value.toDate === 'function') return value.toDate();
+    if (typeof value.seconds === 'number') return new Date(value.seconds * 1000);
+    return null;
+}
+
+function minutesBetween(later: Date, earlier: Date): number {
+    return Math.round((later.getTime() - earlier.getTime()) / 60000);
+}
+
+export function getLatenessBucket(latenessMinutes: number): LatenessBucket {
+    if (latenessMinutes <= ON_TIME_GRACE_MINUTES) return 'On time';
+    if (latenessMinutes <= 20) return '10-20 min';
+    if (latenessMinutes <= 30) return '20-30 min';
+    return '30+ min';
+}
+
+/**
+ * Groups logs by doctor/date/session. Lateness comes from the first IN (later INs
+ * are returns from a break), overtime from the last OUT, and a break overruns when
+ * the first IN after its planned start is past its planned end. Breaks removed
+ * again (BREAK_END with the same breakId) are ignored.
+ */
+export function buildPunctualitySessions(logs: DoctorPunctualityLog[], timeContext?: ClinicTimeContext): PunctualitySession[] {
+    const groups = new Map<string, DoctorPunctualityLog[]>();
+    for (const log of logs) {
+        if (log.sessionIndex === null || log.sessionIndex === undefined || !toDate(log.timestamp)) continue;
+        const key = `${log.doctorId}|${log.date}|${log.sessionIndex}`;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(log);
+    }
+
+    const sessions: PunctualitySession[] = [];
+    for (const group of groups.values()) {
+        const sorted = [...group].sort((a, b) => toDate(a.timestamp)!.getTime() - toDate(b.timestamp)!.getTime());
+        const { doctorId, doctorName, date } = sorted[0];
+        const day = parseClinicDate(date, timeContext);
+
+        const ins = sorted.filter(log => log.type === 'IN');
+        const outs = sorted.filter(log => log.type === 'OUT');
+        const firstIn = ins[0];
+        const lastOut = outs[outs.length - 1];
+
+        const latenessMinutes = firstIn?.scheduledTime
+            ? minutesBetween(toDate(firstIn.timestamp)!, parseClinicTime(firstIn.scheduledTime, day, timeContext))
+            : null;
+        const overtimeMinutes = lastOut?.scheduledTime
+            ? Math.max(0, minutesBetween(toDate(lastOut.timestamp)!, parseClinicTime(lastOut.scheduledTime, day, timeContext)))
+            : null;
+
+        const removedBreakIds = new Set(sorted.filter(log => log.type === 'BREAK_END').map(log => log.metadata?.breakId));
+        const breaks = sorted.filter(log =>
+            log.type === 'BREAK_START' &&
+            log.metadata?.startTime && log.metadata?.endTime &&
+            !removedBreakIds.has(log.metadata?.breakId)
+        );
+
+        let breakOverruns = 0;
+        let breakOverrunMinutes = 0;
+        for (const breakLog of breaks) {
+            const plannedStart = parseClinicTime(breakLog.metadata.startTime, day, timeContext);
+            const plannedEnd = parseClinicTime(breakLog.metadata.endTime, day, timeContext);
+            const returned = ins.find(log => log !== firstIn && toDate(log.timestamp)! > plannedStart);
+            if (!returned) continue;
+            const overrun = minutesBetween(toDate(returned.timestamp)!, plannedEnd);
+            if (overrun > 0) {
+                breakOverruns++;
+                breakOverrunMinutes += overrun;
+            }
+        }
+
+        const extensions = sorted.filter(log => log.type === 'EXTENSION');
+
+        sessions.push({
+            doctorId,
+            doctorName,
+            date,
+            weekday: getClinicDayOfWeek(day, timeContext),
+            sessionIndex: sorted[0].sessionIndex as number,
+            latenessMinutes,
+            overtimeMinutes,
+            breaks: breaks.length,
+            breakOverruns,
+            breakOverrunMinutes,
+            extensions: extensions.length,
+            extensionMinutes: extensions.reduce((sum, log) => sum + (Number(log.metadata?.extensionMinutes) || 0), 0),
+        });
+    }
+
+    return sessions.sort((a, b) => logDate(a.date).getTime() - logDate(b.date).getTime() || a.sessionIndex - b.sessionIndex);
+}
+
+export function summarizePunctuality(sessions: PunctualitySession[]): PunctualityStats {
+    const lateness = sessions
+        .filter(session => session.latenessMinutes !== null)
+        .map(session => Math.max(0, session.latenessMinutes as number));
+
+    const latenessBuckets = Object.fromEntries(LATENESS_BUCKETS.map(bucket => [bucket, 0])) as Record<LatenessBucket, number>;
+    lateness.forEach(minutes => latenessBuckets[getLatenessBucket(minutes)]++);
+
+    const sum = (pick: (session: PunctualitySession) => number) => sessions.reduce((total, session) => total + pick(session), 0);
+
+    return {
+        sessions: sessions.length,
+        onTimeSessions: latenessBuckets['On time'],
+        averageLateness: lateness.length ? Math.round(lateness.reduce((a, b) => a + b, 0) / lateness.length) : null,
+        medianLateness: lateness.length ? Math.round(quantile(lateness, 0.5)) : null,
+        p90Lateness: lateness.length ? Math.round(quantile(lateness, 0.9)) : null,
+        latenessBuckets,
+        overtimeMinutes: sum(session => session.overtimeMinutes ?? 0),
+        overtimeSessions: sessions.filter(session => (session.overtimeMinutes ?? 0) > 0).length,
+        breaks: sum(session => session.breaks),
+        breakOverruns: sum(session => session.breakOverruns),
+        breakOverrunMinutes: sum(session => session.breakOverrunMinutes),
+        extensions: sum(session => session.extensions),
+        extensionMinutes: sum(session => session.extensionMinutes),
+    };
+}
+
+function buildTrend(sessions: PunctualitySession[]): PunctualityTrendPoint[] {
+    const byWeek = new Map<number, PunctualitySession[]>();
+    for (const session of sessions) {
+        const weekStart = startOfWeek(logDate(session.date), { weekStartsOn: 1 }).getTime();
+        if (!byWeek.has(weekStart)) byWeek.set(weekStart, []);
+        byWeek.get(weekStart)!.push(session);
+    }
+    return Array.from(byWeek.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([weekStart, weekSessions]) => ({
+            weekStart: format(new Date(weekStart), 'd MMMM yyyy'),
+            ...summarizePunctuality(weekSessions),
+        }));
+}
+
+/**
+ * Scorecards for every doctor with logs between `from` and `to` (inclusive days).
+ */
+export function buildPunctualityReport(
+    logs: DoctorPunctualityLog[],
+    params: { clinicId: string; from: Date; to: Date; timeContext?: ClinicTimeContext }
+): PunctualityReport {
+    const start = startOfDay(params.from).getTime();
+    const end = endOfDay(params.to).getTime();
+    const sessions = buildPunctualitySessions(logs.filter(log => {
+        const time = logDate(log.date).getTime();
+        return log.clinicId === params.clinicId && time >= start && time <= end;
+    }), params.timeContext);
+
+    const byDoctor = new Map<string, PunctualitySession[]>();
+    sessions.forEach(session => {
+        if (!byDoctor.has(session.doctorId)) byDoctor.set(session.doctorId, []);
+        byDoctor.get(session.doctorId)!.push(session);
+    });
+
+    const doctors: DoctorPunctualityScorecard[] = Array.from(byDoctor.values()).map(doctorSessions => {
+        const byWeekday: Record<string, PunctualityStats> = {};
+        for (const weekday of WEEKDAYS) {
+            const daySessions = doctorSessions.filter(session => session.weekday === weekday);
+            if (daySessions.length) byWeekday[weekday] = summarizePunctuality(daySessions);
+        }
+        return {
+            doctorId: doctorSessions[0].doctorId,
+            doctorName: doctorSessions[doctorSessions.length - 1].doctorName,
+            ...summarizePunctuality(doctorSessions),
+            byWeekday,
+            trend: buildTrend(doctorSessions),
+        };
+    }).sort((a, b) => a.doctorName.localeCompare(b.doctorName));
+
+    return {
+        clinicId: params.clinicId,
+        from: format(params.from, 'd MMMM yyyy'),
+        to: format(params.to, 'd MMMM yyyy'),
+        overall: summarizePunctuality(sessions),
+        doctors,
+        trend: buildTrend(sessions),
+    };
+}
+
+const CSV_HEADER = [
+    'Doctor', 'Weekday', 'Sessions', 'On time', 'Avg late (min)', 'Median late (min)', 'P90 late (min)',
+    ...LATENESS_BUCKETS.map(bucket => `Late ${bucket}`),
+    'Overtime (min)', 'Overtime sessions', 'Breaks', 'Break overruns', 'Break overrun (min)', 'Extensions', 'Extension (min)',
+];
+
+function csvCell(value: string | number | null): string {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per doctor ("All days") followed by one per weekday with sessions.
+ */
+export function punctualityReportToCsv(report: PunctualityReport): string {
+    const row = (doctorName: string, weekday: string, stats: PunctualityStats) => [
+        doctorName, weekday, stats.sessions, stats.onTimeSessions,
+        stats.averageLateness, stats.medianLateness, stats.p90Lateness,
+        ...LATENESS_BUCKETS.map(bucket => stats.latenessBuckets[bucket]),
+        stats.overtimeMinutes, stats.overtimeSessions, stats.breaks, stats.breakOverruns,
+        stats.breakOverrunMinutes, stats.extensions, stats.extensionMinutes,
+    ].map(csvCell).join(',');
+
+    const lines = [CSV_HEADER.map(csvCell).join(',')];
+    for (const doctor of report.doctors) {
+        lines.push(row(doctor.doctorName, 'All days', doctor));
+        for (const weekday of WEEKDAYS) {
+            if (doctor.byWeekday[weekday]) lines.push(row(doctor.doctorName, weekday, doctor.byWeekday[weekday]));
+        }
+    }
+    return lines.join('\n');
+}
+
+function summarizeDoctorPunctuality(doctor: PunctualityReport['doctors'][number]): string {
+    const parts = [`${doctor.sessions} sessions`, `${doctor.onTimeSessions} on time`];
+    if (doctor.averageLateness !== null) parts.push(`avg ${doctor.averageLateness} min late (p90 ${doctor.p90Lateness})`);
+    if (doctor.overtimeMinutes > 0) parts.push(`${doctor.overtimeMinutes} min overtime`);
+    if (doctor.breakOverruns > 0) parts.push(`${doctor.breakOverruns} break overrun${doctor.breakOverruns === 1 ? '' : 's'} (${doctor.breakOverrunMinutes} min)`);
+    return `Dr. ${doctor.doctorName}: ${parts.join(', ')}`;
+}
+
+/**
+ * Plain-text weekly summary for the clinic owner, sent while their session window is open.
+ */
+export function formatPunctualityDigest(report: PunctualityReport, clinicName: string): string {
+    const lines = [`Weekly doctor punctuality for ${clinicName} (${report.from} - ${report.to})`];
+    for (const doctor of report.doctors) {
+        lines.push(`• ${summarizeDoctorPunctuality(doctor)}`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Variables of the weekly_punctuality_digest template. Template variables may not
+ * contain line breaks, so the doctors share one line.
+ */
+export function buildPunctualityDigestVariables(report: PunctualityReport, clinicName: string): TemplateContentVariables {
+    return buildTemplateVariables('weekly_punctuality_digest', {
+        clinicName,
+        week: `${report.from} - ${report.to}`,
+        doctorSummary: report.doctors.map(summarizeDoctorPunctuality).join('; '),
+    });
+}
+
+/**
+ * Logs of the clinic whose date falls between `from` and `to`.
+ */
+export async function fetchClinicPunctualityLogs(
+    firestore: Firestore,
+    clinicId: string,
+    from: Date,
+    to: Date
+): Promise<DoctorPunctualityLog[]> {
+    const snapshot = await getDocs(query(
+        collection(firestore, PUNCTUALITY_LOGS_COLLECTION),
+        where('clinicId', '==', clinicId)
+    ));
+    const start = startOfDay(from).getTime();
+    const end = endOfDay(to).getTime();
+    return snapshot.docs
+        .map(d => ({ id: d.id, ...d.data() } as DoctorPunctualityLog))
+        .filter(log => {
+            const time = logDate(log.date).getTime();
+            return time >= start && time <= end;
+        });
+}
+
+export async function getClinicPunctualityReport(
+    firestore: Firestore,
+    clinicId: string,
+    from: Date,
+    to: Date,
+    timeContext?: ClinicTimeContext
+): Promise<PunctualityReport> {
+    const logs = await fetchClinicPunctualityLogs(firestore, clinicId, from, to);
+    return buildPunctualityReport(logs, { clinicId, from, to, timeContext });
+}
+
+/**
+ * Sends last week's (Monday-Sunday) report to each clinic owner on WhatsApp, as
+ * the approved digest template unless the owner's session window is open.
+ * Clinics without sessions that week are skipped; the outbox key makes reruns safe.
+ * The week is counted on each clinic's own calendar.
+ */
+export async function sendWeeklyPunctualityDigests(
+    firestore: Firestore,
+    now: Date = getClinicNow()
+): Promise<{ sent: number; skipped: number; failed: number }> {
+    const clinicsSnap = await getDocs(collection(firestore, 'clinics'));
+    let sent = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for (const clinicDoc of clinicsSnap.docs) {
+        const clinic = { id: clinicDoc.id, ...clinicDoc.data() } as Clinic;
+        try {
+            const timeContext = getClinicTimeContext(clinic);
+            const today = logDate(getClinicDateString(now, timeContext));
+            const to = subDays(startOfWeek(today, { weekStartsOn: 1 }), 1);
+            const from = startOfWeek(to, { weekStartsOn: 1 });
+
+            const report = await getClinicPunctualityReport(firestore, clinic.id, from, to, timeContext);
+            const phone = await getClinicOwnerPhone(firestore, clinic);
+            if (report.overall.sessions === 0 || !phone) {
+                skipped++;
+                continue;
+            }
+
+            const delivered = await sendSmartWhatsAppNotification({
+                to: phone,
+                templateName: 'weekly_punctuality_digest',
+                templateVariables: buildPunctualityDigestVariables(report, clinic.name),
+                textFallback: formatPunctualityDigest(report, clinic.name),
+                alwaysSend: true,
+                firestore,
+                clinicId: clinic.id,
+                outbox: { key: buildOutboxKey('punctuality_digest', clinic.id, report.from), notificationType: 'punctuality_digest' },
+            });
+            if (delivered) sent++;
+            else failed++;
+        } catch (error) {
+            failed++;
+            console.error(`[Punctuality] Failed to send weekly digest for clinic ${clinic.id}:`, error);
+        }
+    }
+
+    return { sent, skipped, failed };
+}
+
+async function getClinicOwnerPhone(firestore: Firestore, clinic: Clinic): Promise<string | null> {
+    if (clinic.ownerId) {
+        const ownerSnap = await getDoc(doc(firestore, 'users', clinic.ownerId));
+        if (ownerSnap.exists() && ownerSnap.data().phone) return ownerSnap.data().phone;
+    }
+    const adminsSnap = await getDocs(query(
+        collection(firestore, 'users'),
+        where('clinicId', '==', clinic.id),
+        where('role', '==', 'clinicAdmin')
+    ));
+    return adminsSnap.docs.map(d => d.data().phone).find(Boolean) ?? null;
+}
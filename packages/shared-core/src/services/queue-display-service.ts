@@ -0,0 +1,271 @@
+/**
+ * Queue Display Service
+ *
+ * The waiting-room "Now Serving" TV. Its board - each doctor's current token,
+ * the next few and when a doctor on break is back - is built on the server
+ * from the same queues staff work from (buildQueueState), so the TV never
+ * reads appointments or patient names itself.
+ *
+ * Every called token is recorded under `token-calls` by
+ * sendTokenCalledNotification; a TV chimes and announces the calls that are
+ * newer than the last one it spoke.
+ */
+
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  type Firestore,
+} from 'firebase/firestore';
+import { addMinutes } from 'date-fns';
+import type {
+  Appointment,
+  Doctor,
+  Language,
+  NowServingBoard,
+  NowServingDoctor,
+  QueueDisplay,
+  QueueDisplayLayout,
+  TokenCall,
+} from '@kloqo/shared-types';
+import { buildQueueState, getNextTokenFromBuffer, type QueueState } from './queue-management-service';
+import { assertPermission, type StaffMember } from './access-control-service';
+import { isSupportedLanguage, translate } from './message-catalog';
+import { getCurrentActiveSession } from '../utils/break-helpers';
+import { getClinicDateString, getClinicTimeString, type ClinicTimeContext } from '../utils/date-utils';
+
+export const QUEUE_DISPLAYS_COLLECTION = 'queue-displays';
+export const QUEUE_DISPLAY_PAIRINGS_COLLECTION = 'queue-display-pairings';
+export const TOKEN_CALLS_COLLECTION = 'token-calls';
+export const QUEUE_DISPLAY_PAIRING_TTL_MS = 15 * 60 * 1000;
+
+// Older calls drop off the board, so a TV that lost its connection does not
+// read out a backlog when it comes back
+export const TOKEN_CALL_ANNOUNCE_WINDOW_MS = 2 * 60 * 1000;
+
+export const MAX_UPCOMING_TOKENS = 6;
+
+export const DEFAULT_QUEUE_DISPLAY_LAYOUT: QueueDisplayLayout = {
+  doctorIds: [],
+  columns: 2,
+  upcomingCount: 3,
+  announcementLanguages: ['ml', 'en'],
+};
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * A layout as saved from the owner's form, with anything out of range pulled
+ * back to what the TV can show.
+ */
+export function normalizeQueueDisplayLayout(input: Partial<QueueDisplayLayout> | null | undefined): QueueDisplayLayout {
+  const columns = Math.round(Number(input?.columns));
+  const upcomingCount = Math.round(Number(input?.upcomingCount));
+  const languages = (input?.announcementLanguages || []).filter(isSupportedLanguage);
+
+  return {
+    doctorIds: Array.from(new Set((input?.doctorIds || []).filter(id => typeof id === 'string' && id))),
+    columns: (columns >= 1 && columns <= 4 ? columns : DEFAULT_QUEUE_DISPLAY_LAYOUT.columns) as QueueDisplayLayout['columns'],
+    upcomingCount: Number.isFinite(upcomingCount)
+      ? Math.min(Math.max(upcomingCount, 0), MAX_UPCOMING_TOKENS)
+      : DEFAULT_QUEUE_DISPLAY_LAYOUT.upcomingCount,
+    announcementLanguages: languages.length > 0 ? Array.from(new Set(languages)) : DEFAULT_QUEUE_DISPLAY_LAYOUT.announcementLanguages,
+  };
+}
+
+/**
+ * The token a patient knows, as printed on their slip. Classic clinics hide
+ * the internal 'A' tokens until the patient is given a classic number.
+ */
+export function getDisplayToken(
+  appointment: Pick<Appointment, 'tokenNumber' | 'classicTokenNumber'>,
+  tokenDistribution?: 'classic' | 'advanced'
+): string | null {
+  if (tokenDistribution === 'advanced') return appointment.tokenNumber || null;
+  if (appointment.classicTokenNumber) return `#${appointment.classicTokenNumber.toString().padStart(3, '0')}`;
+  const tokenNumber = appointment.tokenNumber || '';
+  return tokenNumber.startsWith('W') || /^\d+$/.test(tokenNumber) ? tokenNumber : null;
+}
+
+/**
+ * How the announcement reads a token out: "#007" as "7" and "W1-012" as "W 12".
+ */
+export function getSpokenToken(token: string): string {
+  const classic = token.match(/^#0*(\d+)$/);
+  if (classic) return classic[1];
+  const sessionToken = token.match(/^([A-Z])\d+-0*(\d+)$/);
+  if (sessionToken) return `${sessionToken[1]} ${sessionToken[2]}`;
+  return token;
+}
+
+/**
+ * The announcement for a call, one line per language in the display's order.
+ */
+export function buildTokenAnnouncement(call: Pick<TokenCall, 'token' | 'doctorName'>, languages: Language[]): { language: Language; text: string }[] {
+  return languages.map(language => ({
+    language,
+    text: translate(language, 'display.tokenCalled', { token: getSpokenToken(call.token), doctorName: call.doctorName }),
+  }));
+}
+
+/**
+ * Calls the TV has not announced yet, oldest first.
+ */
+export function getCallsToAnnounce(calls: TokenCall[], lastAnnouncedAt: number, now: number): TokenCall[] {
+  return calls
+    .filter(call => call.calledAt > lastAnnouncedAt && now - call.calledAt <= TOKEN_CALL_ANNOUNCE_WINDOW_MS)
+    .sort((a, b) => a.calledAt - b.calledAt);
+}
+
+/**
+ * The doctors a display shows, in the owner's order, or every doctor by name.
+ */
+export function selectDisplayDoctors(doctors: Doctor[], layout: QueueDisplayLayout): Doctor[] {
+  if (layout.doctorIds.length === 0) {
+    return [...doctors].sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+  }
+  return layout.doctorIds
+    .map(id => doctors.find(doctor => doctor.id === id))
+    .filter((doctor): doctor is Doctor => !!doctor);
+}
+
+export function buildNowServingDoctor(
+  doctor: Doctor,
+  queues: QueueState,
+  options: { upcomingCount: number; tokenDistribution?: 'classic' | 'advanced'; now: Date; timeContext?: ClinicTimeContext }
+): NowServingDoctor {
+  const status: NowServingDoctor['status'] = doctor.consultationStatus === 'In'
+    ? 'consulting'
+    : queues.nextBreakDuration !== null ? 'break' : 'out';
+
+  const current = status === 'consulting'
+    ? queues.currentConsultation ?? getNextTokenFromBuffer(queues.bufferQueue, queues.arrivedQueue)
+    : null;
+
+  const waiting = [...(queues.priorityQueue || []), ...queues.arrivedQueue]
+    .filter((appointment, index, list) =>
+      appointment.id !== current?.id && list.findIndex(other => other.id === appointment.id) === index);
+
+  return {
+    doctorId: doctor.id,
+    doctorName: doctor.name,
+    department: doctor.department,
+    status,
+    currentToken: current ? getDisplayToken(current, options.tokenDistribution) : null,
+    upcomingTokens: waiting
+      .map(appointment => getDisplayToken(appointment, options.tokenDistribution))
+      .filter((token): token is string => !!token)
+      .slice(0, options.upcomingCount),
+    returnTime: status === 'break' && queues.nextBreakDuration !== null
+      ? getClinicTimeString(addMinutes(options.now, queues.nextBreakDuration), options.timeContext)
+      : null,
+  };
+}
+
+/**
+ * The whole board for one display, from today's appointments of its clinic.
+ * Each doctor's queue is taken from their current (or next) session.
+ */
+export function buildNowServingBoard(params: {
+  clinicName: string;
+  display: Pick<QueueDisplay, 'name' | 'layout'>;
+  doctors: Doctor[];
+  appointments: Appointment[];
+  calls: TokenCall[];
+  tokenDistribution?: 'classic' | 'advanced';
+  now: Date;
+  timeContext?: ClinicTimeContext;
+}): NowServingBoard {
+  const { clinicName, display, appointments, tokenDistribution, now, timeContext } = params;
+  const layout = normalizeQueueDisplayLayout(display.layout);
+  const date = getClinicDateString(now, timeContext);
+
+  const doctors = selectDisplayDoctors(params.doctors, layout).map(doctor => {
+    const sessionIndex = getCurrentActiveSession(doctor, now, now, timeContext)?.sessionIndex ?? 0;
+    const queues = buildQueueState(appointments, doctor.name, date, sessionIndex, 0, doctor.consultationStatus, tokenDistribution, now, timeContext);
+    return buildNowServingDoctor(doctor, queues, { upcomingCount: layout.upcomingCount, tokenDistribution, now, timeContext });
+  });
+
+  const shownDoctors = new Set(doctors.map(doctor => doctor.doctorName));
+
+  return {
+    clinicName,
+    displayName: display.name,
+    layout,
+    doctors,
+    calls: params.calls
+      .filter(call => shownDoctors.has(call.doctorName) && now.getTime() - call.calledAt <= TOKEN_CALL_ANNOUNCE_WINDOW_MS)
+      .sort((a, b) => a.calledAt - b.calledAt),
+    generatedAt: now.getTime(),
+  };
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+/**
+ * Records a called token for the clinic's TVs. Never throws: a missed
+ * announcement must not stop the patient's notification.
+ */
+export async function recordTokenCall(
+  firestore: Firestore,
+  call: Omit<TokenCall, 'id' | 'date' | 'calledAt'>,
+  timeContext?: ClinicTimeContext
+): Promise<void> {
+  try {
+    await addDoc(collection(firestore, TOKEN_CALLS_COLLECTION), {
+      ...call,
+      date: getClinicDateString(new Date(), timeContext),
+      calledAt: Date.now(),
+    });
+  } catch (error) {
+    console.error('[QueueDisplay] Failed to record token call:', error);
+  }
+}
+
+export async function getQueueDisplays(firestore: Firestore, clinicId: string): Promise<QueueDisplay[]> {
+  const snapshot = await getDocs(query(collection(firestore, QUEUE_DISPLAYS_COLLECTION), where('clinicId', '==', clinicId)));
+  return snapshot.docs
+    .map(d => ({ id: d.id, ...d.data() } as QueueDisplay))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Renames a display or changes its layout; the TV picks it up on its next refresh.
+ */
+export async function updateQueueDisplay(
+  firestore: Firestore,
+  actor: StaffMember,
+  display: QueueDisplay,
+  updates: { name?: string; layout?: Partial<QueueDisplayLayout> }
+): Promise<QueueDisplay> {
+  assertPermission(actor, 'manage_staff');
+  if (display.clinicId !== actor.clinicId) throw new Error('Display belongs to another clinic');
+  if (updates.name !== undefined && !updates.name.trim()) throw new Error('Display name is required');
+
+  const changes = {
+    ...(updates.name !== undefined ? { name: updates.name.trim() } : {}),
+    ...(updates.layout ? { layout: normalizeQueueDisplayLayout({ ...display.layout, ...updates.layout }) } : {}),
+  };
+  await updateDoc(doc(firestore, QUEUE_DISPLAYS_COLLECTION, display.id), { ...changes, updatedAt: serverTimestamp() });
+  return { ...display, ...changes };
+}
+
+/**
+ * Unpairs a display. The TV finds out on its next refresh and shows a new code.
+ */
+export async function removeQueueDisplay(firestore: Firestore, actor: StaffMember, display: QueueDisplay): Promise<void> {
+  assertPermission(actor, 'manage_staff');
+  if (display.clinicId !== actor.clinicId) throw new Error('Display belongs to another clinic');
+  await deleteDoc(doc(firestore, QUEUE_DISPLAYS_COLLECTION, display.id));
+  console.log(`[QueueDisplay] Display ${display.id} removed from clinic ${display.clinicId}`);
+}
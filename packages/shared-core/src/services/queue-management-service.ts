@@ -1,8 +1,9 @@
 import { collection, doc, getDoc, setDoc, updateDoc, increment, serverTimestamp, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@kloqo/shared-firebase';
-import { parse, format, addMinutes } from 'date-fns';
+import { format, addMinutes } from 'date-fns';
 import type { Appointment } from '@kloqo/shared-types';
 import { parseTime } from '../utils/break-helpers';
+import { parseClinicDate, type ClinicTimeContext } from '../utils/date-utils';
 import { compareAppointments, compareAppointmentsClassic } from './appointment-service';
 
 /**
@@ -111,11 +112,30 @@ export async function computeQueues(
     date: string,
     sessionIndex: number,
     doctorConsultationStatus?: 'In' | 'Out',
-    tokenDistribution?: 'classic' | 'advanced'
+    tokenDistribution?: 'classic' | 'advanced',
+    context?: ClinicTimeContext
 ): Promise<QueueState> {
     // Get consultation count
     const consultationCount = await getConsultationCount(clinicId, doctorId, date, sessionIndex);
 
+    return buildQueueState(appointments, doctorName, date, sessionIndex, consultationCount, doctorConsultationStatus, tokenDistribution, new Date(), context);
+}
+
+/**
+ * Build Queues from Appointments already loaded. computeQueues adds the
+ * consultation counter; server routes that cannot read it pass their own count.
+ */
+export function buildQueueState(
+    appointments: Appointment[],
+    doctorName: string,
+    date: string,
+    sessionIndex: number,
+    consultationCount: number,
+    doctorConsultationStatus?: 'In' | 'Out',
+    tokenDistribution?: 'classic' | 'advanced',
+    now: Date = new Date(),
+    context?: ClinicTimeContext
+): QueueState {
     // Filter appointments for this doctor, date, and session
     const relevantAppointments = appointments.filter(apt =>
         apt.doctor === doctorName &&
@@ -126,8 +146,7 @@ export async function computeQueues(
     // Parse appointment time helper
     const parseAppointmentTime = (apt: Appointment): Date => {
         try {
-            const appointmentDate = parse(apt.date, 'd MMMM yyyy', new Date());
-            return parseTime(apt.time, appointmentDate);
+            return parseTime(apt.time, parseClinicDate(apt.date, context), context);
         } catch {
             return new Date(0); // Fallback for invalid dates
         }
@@ -182,7 +201,6 @@ export async function computeQueues(
     let nextBreakDuration: number | null = null;
 
     if (doctorConsultationStatus !== 'In' && breakAppointments.length > 0) {
-        const now = new Date();
         const slotDuration = 15; // Standard dummy slot duration
 
         // Group break appointments into contiguous blocks
@@ -0,0 +1,425 @@
+/**
+ * Queue Projection Service
+ *
+ * One materialised queue document per doctor/date/session in `queue-projections`,
+ * holding the ordered tokens, their ETAs, the current token and break state.
+ * It is rebuilt server-side (the nurse app's refresh route, requested by
+ * mutateAppointment, and the minute cron) whenever the doctor's appointments
+ * change, and the live-token page, the nurse app and the WhatsApp bot all read
+ * it instead of recomputing the queue from the raw appointments, so they agree on "people ahead". ETAs use the doctor's
+ * consultation time model (p50 plus a p90 latest time) once one is trained.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  type Firestore,
+} from 'firebase/firestore';
+import { addDays, addMinutes, differenceInMinutes, isAfter, parse, parseISO } from 'date-fns';
+import type { Appointment, ConsultationTimeModel, Doctor, QueueProjection, QueueProjectionEntry } from '@kloqo/shared-types';
+import { compareAppointments, compareAppointmentsClassic } from './appointment-service';
+import { createConsultationPredictor, getConsultationTimeModel, getReturningPatientIds } from './consultation-time-service';
+import { getConsultationCounterId } from './queue-management-service';
+import { calculateEstimatedTimes } from '../utils/estimated-time-utils';
+import { postToNurseApp } from '../utils/nurse-app-api';
+import { parseTime } from '../utils/break-helpers';
+import {
+  getClinicDateString,
+  getClinicNow,
+  getClinicTimeContext,
+  getClinicTimeString,
+  parseClinicDate,
+  type ClinicTimeContext,
+} from '../utils/date-utils';
+import { getDateKeyedEntry } from '../utils/date-keys';
+
+declare const window: any;
+
+export const QUEUE_PROJECTIONS_COLLECTION = 'queue-projections';
+
+const QUEUED_STATUSES: Appointment['status'][] = ['Pending', 'Confirmed', 'Skipped'];
+const BREAK_PATIENT_ID = 'dummy-break-patient';
+
+export interface BuildQueueProjectionParams {
+  appointments: Appointment[]; // the doctor's appointments for the date, any session or status
+  doctor: Doctor;
+  clinicId: string;
+  date: string;
+  sessionIndex: number;
+  tokenDistribution?: 'classic' | 'advanced';
+  now?: Date;
+  consultationModel?: ConsultationTimeModel | null; // learned durations; flat averageConsultingTime without one
+  returningPatientIds?: Set<string>;
+  timeContext?: ClinicTimeContext;
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * Same id scheme as the consultation counters: clinic_doctor_date_session
+ */
+export function getQueueProjectionId(
+  clinicId: string,
+  doctorId: string,
+  date: string,
+  sessionIndex: number
+): string {
+  return getConsultationCounterId(clinicId, doctorId, date, sessionIndex);
+}
+
+function parseAppointmentTime(apt: Pick<Appointment, 'date' | 'time'>, timeContext?: ClinicTimeContext): Date {
+  try {
+    return parseTime(apt.time, parseClinicDate(apt.date, timeContext), timeContext);
+  } catch {
+    return new Date(0);
+  }
+}
+
+/**
+ * Where a skipped patient would be placed if they arrived now: their no-show time,
+ * or 15 minutes after it once their slot time has passed.
+ */
+export function getSkippedRejoinTime(appointment: Appointment, now: Date, timeContext?: ClinicTimeContext): Date | null {
+  if (!appointment.time || !appointment.noShowTime) return null;
+
+  const noShowTime: Date = appointment.noShowTime?.toDate
+    ? appointment.noShowTime.toDate()
+    : new Date(appointment.noShowTime);
+  if (isNaN(noShowTime.getTime())) return null;
+
+  const scheduledTime = parseAppointmentTime(appointment, timeContext);
+  return isAfter(now, scheduledTime) ? addMinutes(noShowTime, 15) : noShowTime;
+}
+
+/**
+ * The doctor's breaks for the date, minus those cancelled (a Cancelled appointment
+ * flagged cancelledByBreak at the break's start)
+ */
+function getValidBreaks(doctor: Doctor, date: string, appointments: Appointment[]) {
+  return (getDateKeyedEntry(doctor.breakPeriods, date) || []).filter(bp => !appointments.some(appt =>
+    appt.status === 'Cancelled' &&
+    appt.cancelledByBreak === true &&
+    (appt.time === bp.startTimeFormatted || appt.id === bp.id)
+  ));
+}
+
+function toEntry(apt: Appointment, time: string, estimatedTime: string | null, latestEstimatedTime: string | null): QueueProjectionEntry {
+  return {
+    appointmentId: apt.id,
+    status: apt.status as QueueProjectionEntry['status'],
+    tokenNumber: apt.tokenNumber,
+    classicTokenNumber: apt.classicTokenNumber != null ? String(apt.classicTokenNumber) : null,
+    time,
+    estimatedTime,
+    latestEstimatedTime,
+    isPriority: !!apt.isPriority,
+    isInBuffer: !!apt.isInBuffer,
+  };
+}
+
+/**
+ * Builds the queue document for one doctor/session from the raw appointments.
+ */
+export function buildQueueProjection(params: BuildQueueProjectionParams): QueueProjection {
+  const { appointments, doctor, clinicId, date, sessionIndex, timeContext } = params;
+  const now = params.now ?? getClinicNow();
+  const tokenDistribution = params.tokenDistribution === 'advanced' ? 'advanced' : 'classic';
+  const compare = tokenDistribution === 'advanced' ? compareAppointments : compareAppointmentsClassic;
+
+  const relevant = appointments.filter(apt =>
+    apt.doctor === doctor.name &&
+    apt.date === date &&
+    (apt.sessionIndex === undefined || apt.sessionIndex === sessionIndex)
+  );
+
+  // Skipped patients are placed where they would rejoin if they arrived now
+  const queued: Appointment[] = [];
+  for (const apt of relevant) {
+    if (!QUEUED_STATUSES.includes(apt.status) || apt.patientId === BREAK_PATIENT_ID) continue;
+    if (apt.status === 'Skipped') {
+      const rejoinTime = getSkippedRejoinTime(apt, now, timeContext);
+      if (rejoinTime) queued.push({ ...apt, time: getClinicTimeString(rejoinTime, timeContext) });
+    } else {
+      queued.push(apt);
+    }
+  }
+  queued.sort(compare);
+
+  const consultationCount = relevant.filter(apt => apt.status === 'Completed' && apt.patientId !== BREAK_PATIENT_ID).length;
+
+  // ETAs for the patients who have arrived, with cancelled breaks left out
+  const breaks = getValidBreaks(doctor, date, appointments);
+  const arrived = queued.filter(apt => apt.status === 'Confirmed');
+  const averageConsultingTime = doctor.averageConsultingTime || 15;
+  const estimates = calculateEstimatedTimes(
+    arrived,
+    { ...doctor, breakPeriods: { ...doctor.breakPeriods, [date]: breaks } },
+    now,
+    averageConsultingTime,
+    params.consultationModel
+      ? createConsultationPredictor(params.consultationModel, {
+        fallbackMinutes: averageConsultingTime,
+        completedInSession: consultationCount,
+        returningPatientIds: params.returningPatientIds,
+      })
+      : undefined,
+    timeContext
+  );
+  const etaById = new Map(estimates.map(e => [e.appointmentId, e]));
+
+  const entries = queued.map(apt => toEntry(
+    apt,
+    apt.time,
+    etaById.get(apt.id)?.estimatedTime ?? null,
+    etaById.get(apt.id)?.latestTime ?? null
+  ));
+
+  const current = arrived[0] ?? null;
+  const currentToken = current
+    ? (tokenDistribution === 'classic' ? (current.classicTokenNumber != null ? String(current.classicTokenNumber) : null) : current.tokenNumber)
+    : null;
+  const delayMinutes = current ? Math.max(0, differenceInMinutes(now, parseAppointmentTime(current, timeContext))) : 0;
+
+  // An active break only counts while the doctor has not resumed early
+  const consultationStatus = doctor.consultationStatus === 'In' ? 'In' : 'Out';
+  const activeBreak = consultationStatus === 'In'
+    ? undefined
+    : breaks.find(bp =>
+      (bp.sessionIndex === undefined || bp.sessionIndex === sessionIndex) &&
+      now >= parseISO(bp.startTime) && now < parseISO(bp.endTime)
+    );
+  const breakEnd = activeBreak ? parseISO(activeBreak.endTime) : null;
+
+  return {
+    id: getQueueProjectionId(clinicId, doctor.id, date, sessionIndex),
+    clinicId,
+    doctorId: doctor.id,
+    doctorName: doctor.name,
+    date,
+    sessionIndex,
+    tokenDistribution,
+    consultationStatus,
+    entries,
+    currentAppointmentId: current?.id ?? null,
+    currentToken,
+    delayMinutes,
+    consultationCount,
+    breaks: breaks.map(bp => ({ startTime: bp.startTime, endTime: bp.endTime })),
+    breakState: {
+      onBreak: !!breakEnd,
+      minutesRemaining: breakEnd ? Math.max(0, Math.ceil((breakEnd.getTime() - now.getTime()) / 60000)) : null,
+      endsAt: breakEnd ? getClinicTimeString(breakEnd, timeContext) : null,
+    },
+    updatedAt: now.toISOString(),
+  };
+}
+
+function toMinutesOfDay(time: string): number {
+  const parsed = parse(time, 'hh:mm a', new Date(0));
+  return parsed.getHours() * 60 + parsed.getMinutes();
+}
+
+/**
+ * How many patients will be seen before this appointment.
+ * Classic: only arrived (Confirmed) patients count.
+ * Advanced: Pending and Confirmed in queue order, plus skipped patients who would
+ * rejoin ahead of you. Once you are one of the next two, pending patients and
+ * rejoining skips no longer push you back.
+ */
+export function getPatientsAhead(projection: QueueProjection | null | undefined, appointmentId: string): number {
+  if (!projection) return 0;
+  const { entries } = projection;
+
+  if (projection.tokenDistribution === 'classic') {
+    const confirmed = entries.filter(e => e.status === 'Confirmed');
+    const index = confirmed.findIndex(e => e.appointmentId === appointmentId);
+    return index !== -1 ? index : confirmed.length;
+  }
+
+  const yours = entries.find(e => e.appointmentId === appointmentId);
+  if (!yours || yours.status === 'Skipped') return 0;
+
+  const naturalIndex = entries
+    .filter(e => e.status !== 'Skipped')
+    .findIndex(e => e.appointmentId === appointmentId);
+  const isTopPosition = naturalIndex !== -1 && naturalIndex <= 1;
+  const yourMinutes = toMinutesOfDay(yours.time);
+
+  const ahead = entries.filter(e => {
+    if (e.appointmentId === appointmentId) return true;
+    if (e.status === 'Skipped') return !isTopPosition && toMinutesOfDay(e.time) < yourMinutes;
+    if (e.status === 'Pending') return !isTopPosition;
+    return true;
+  });
+  return ahead.findIndex(e => e.appointmentId === appointmentId);
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+/**
+ * Rebuilds the projections for every session the doctor has appointments in on the date
+ * (today on the clinic's clock by default).
+ */
+export async function refreshQueueProjections(
+  firestore: Firestore,
+  clinicId: string,
+  doctorId: string,
+  dateOverride?: string
+): Promise<QueueProjection[]> {
+  const doctorSnap = await getDoc(doc(firestore, 'doctors', doctorId));
+  if (!doctorSnap.exists()) {
+    throw new Error(`Doctor ${doctorId} not found`);
+  }
+  const doctor = { id: doctorSnap.id, ...doctorSnap.data() } as Doctor;
+
+  const clinicSnap = await getDoc(doc(firestore, 'clinics', clinicId));
+  const tokenDistribution = clinicSnap.data()?.tokenDistribution;
+  const timeContext = getClinicTimeContext(clinicSnap.data());
+  const date = dateOverride ?? getClinicDateString(getClinicNow(), timeContext);
+
+  const appointmentsSnap = await getDocs(query(
+    collection(firestore, 'appointments'),
+    where('clinicId', '==', clinicId),
+    where('doctor', '==', doctor.name),
+    where('date', '==', date)
+  ));
+  const appointments = appointmentsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Appointment));
+
+  const sessionIndexes = Array.from(new Set(appointments.map(apt => apt.sessionIndex ?? 0))).sort((a, b) => a - b);
+  if (sessionIndexes.length === 0) return [];
+
+  const consultationModel = await getConsultationTimeModel(firestore, doctorId);
+  const returningPatientIds = consultationModel
+    ? await getReturningPatientIds(firestore, doctorId, appointments
+      .filter(apt => apt.status === 'Confirmed' && apt.patientId !== BREAK_PATIENT_ID)
+      .map(apt => apt.patientId))
+    : undefined;
+
+  const now = getClinicNow();
+  const projections = sessionIndexes.map(sessionIndex => buildQueueProjection({
+    appointments,
+    doctor,
+    clinicId,
+    date,
+    sessionIndex,
+    tokenDistribution,
+    now,
+    consultationModel,
+    returningPatientIds,
+    timeContext,
+  }));
+
+  const batch = writeBatch(firestore);
+  for (const projection of projections) {
+    batch.set(doc(firestore, QUEUE_PROJECTIONS_COLLECTION, projection.id), projection);
+  }
+  await batch.commit();
+
+  return projections;
+}
+
+/**
+ * Rebuilds the doctor's projections after an appointment change. Projections are
+ * written by the server worker, so browsers ask the nurse app's /api/queue-projections
+ * route; if that fails the minute cron catches up.
+ */
+export async function requestQueueProjectionRefresh(
+  firestore: Firestore,
+  params: { clinicId: string; doctorId: string; date?: string }
+): Promise<void> {
+  try {
+    if (typeof window === 'undefined') {
+      await refreshQueueProjections(firestore, params.clinicId, params.doctorId, params.date);
+      return;
+    }
+
+    const response = await postToNurseApp(firestore, '/api/queue-projections', params);
+    if (!response?.ok) {
+      console.warn('[Queue Projection] Refresh request failed; the cron will pick it up:', response?.result.error, params);
+    }
+  } catch (error) {
+    console.error('[Queue Projection] Error requesting a refresh:', error, params);
+  }
+}
+
+/**
+ * Rebuilds the projections of every doctor who still has patients queued on the date.
+ * Run every minute so ETAs and break countdowns stay current between appointment changes.
+ * Without a date, each clinic is refreshed for its own today, which can differ between
+ * timezones, so the day either side of UTC's today is looked at too.
+ */
+export async function refreshActiveQueueProjections(
+  firestore: Firestore,
+  date?: string
+): Promise<{ doctors: number; failed: number }> {
+  const now = getClinicNow();
+  const utc: ClinicTimeContext = { timeZone: 'UTC' };
+  const dates = date
+    ? [date]
+    : [addDays(now, -1), now, addDays(now, 1)].map(day => getClinicDateString(day, utc));
+
+  const snapshots = await Promise.all(dates.map(day => getDocs(query(
+    collection(firestore, 'appointments'),
+    where('date', '==', day),
+    where('status', 'in', QUEUED_STATUSES)
+  ))));
+
+  // Older appointments may lack doctorId; those are resolved by clinic + doctor name
+  const doctorsByKey = new Map<string, { clinicId: string; doctorName: string; doctorId?: string; date: string }>();
+  snapshots.flatMap(snapshot => snapshot.docs).forEach(d => {
+    const apt = d.data() as Appointment;
+    if (!apt.clinicId || !apt.doctor) return;
+    const key = `${apt.clinicId}|${apt.doctor}|${apt.date}`;
+    const existing = doctorsByKey.get(key);
+    if (!existing) {
+      doctorsByKey.set(key, { clinicId: apt.clinicId, doctorName: apt.doctor, doctorId: apt.doctorId, date: apt.date });
+    } else if (!existing.doctorId && apt.doctorId) {
+      existing.doctorId = apt.doctorId;
+    }
+  });
+
+  const clinicToday = new Map<string, string>();
+  let doctors = 0;
+  let failed = 0;
+  for (const { clinicId, doctorName, doctorId, date: appointmentDate } of doctorsByKey.values()) {
+    try {
+      if (!date) {
+        if (!clinicToday.has(clinicId)) {
+          const clinicSnap = await getDoc(doc(firestore, 'clinics', clinicId));
+          clinicToday.set(clinicId, getClinicDateString(now, getClinicTimeContext(clinicSnap.data())));
+        }
+        if (clinicToday.get(clinicId) !== appointmentDate) continue;
+      }
+
+      let resolvedDoctorId = doctorId;
+      if (!resolvedDoctorId) {
+        const doctorSnap = await getDocs(query(
+          collection(firestore, 'doctors'),
+          where('clinicId', '==', clinicId),
+          where('name', '==', doctorName)
+        ));
+        resolvedDoctorId = doctorSnap.docs[0]?.id;
+      }
+      if (!resolvedDoctorId) {
+        console.warn(`[QueueProjection] No doctor named ${doctorName} in clinic ${clinicId}`);
+        continue;
+      }
+      doctors++;
+      await refreshQueueProjections(firestore, clinicId, resolvedDoctorId, appointmentDate);
+    } catch (error) {
+      failed++;
+      console.error(`[QueueProjection] Failed to refresh ${doctorName} (${clinicId}):`, error);
+    }
+  }
+
+  return { doctors, failed };
+}
@@ -0,0 +1,783 @@
+/**
+ * Scheduling Engine
+ *
+ * Pure, Firestore-free placement logic for a single doctor on a single day.
+ * Every planner takes the day's state (doctor, slots, appointments, breaks)
+ * plus an explicit clock and returns the state transitions to apply:
+ * - The Firestore services translate transitions into writes (walk-in placement,
+ *   advance booking, break shifts, status updates, session extensions)
+ * - The day simulator applies them in memory (see day-simulator.ts)
+ */
+
+import { addMinutes, differenceInMinutes, isAfter, isBefore, parseISO, subMinutes } from 'date-fns';
+import type { Appointment, BreakPeriod, CapacityPolicy, Doctor } from '@kloqo/shared-types';
+import { computeWalkInSchedule, type SchedulerAssignment } from './walk-in-scheduler';
+import { createSessionRatioResolver, sessionAcceptsWalkIns } from './capacity-service';
+import {
+  buildCandidateSlots,
+  buildOccupiedSlotSet,
+  getAttendanceWindow,
+  type DailySlot,
+  type WalkInPreviewResult,
+  type WalkInPreviewShift,
+} from './day-slots';
+import { parseTime as parseTimeString } from '../utils/break-helpers';
+import { getClinicDateString, getClinicDayOfWeek, getClinicISOString, getClinicTimeString, type ClinicTimeContext } from '../utils/date-utils';
+import { getDateKeyedEntry } from '../utils/date-keys';
+import { generateOnlineTokenNumber, generateWalkInTokenNumber } from '../utils/token-utils';
+
+const ACTIVE_STATUSES = new Set(['Pending', 'Confirmed', 'Skipped', 'Completed']);
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScheduleState {
+  doctor: Doctor;
+  date: Date;
+  slots: DailySlot[];
+  appointments: Appointment[];
+  walkInTokenAllotment: number;
+  clinicCapacityPolicy?: CapacityPolicy | null; // falls back to the 85/15 default
+  timeContext?: ClinicTimeContext; // clinic whose clock slot times are read in
+  blockedIndices?: number[]; // leave and break slots: never booked, not part of the walk-in reserve
+}
+
+export type ScheduleTransition =
+  | { type: 'create'; appointment: Appointment }
+  | { type: 'update'; appointmentId: string; changes: Partial<Appointment> }
+  | { type: 'doctor'; changes: Partial<Doctor> };
+
+export interface BookingRequest {
+  id: string;
+  patientId: string;
+  patientName: string;
+  age?: number;
+  sex?: Appointment['sex'];
+  phone?: string;
+  place?: string;
+  preferredSlotIndex?: number;
+  excludedSlotIndices?: number[]; // free slots held by another booking in progress
+}
+
+export interface BookingPlan {
+  appointment: Appointment;
+  transitions: ScheduleTransition[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Converts Firestore Timestamps, serialized timestamps ({ seconds }), ISO strings
+ * and epoch numbers into a Date. Returns null for anything unparseable.
+ */
+export function toEngineDate(value: unknown): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if (typeof value === 'object') {
+    const candidate = value as { toDate?: () => Date; seconds?: number };
+    if (typeof candidate.toDate === 'function') return candidate.toDate();
+    if (typeof candidate.seconds === 'number') return new Date(candidate.seconds * 1000);
+    return null;
+  }
+  const parsed = new Date(value as string | number);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function isInSession(appointment: Appointment, sessionIndex: number): boolean {
+  if (typeof appointment.sessionIndex === 'number') {
+    return appointment.sessionIndex === sessionIndex;
+  }
+  if (typeof appointment.slotIndex === 'number') {
+    const sessionBaseIndex = sessionIndex * 1000;
+    if (sessionIndex === 0) return appointment.slotIndex < 1000;
+    return appointment.slotIndex >= sessionBaseIndex && appointment.slotIndex < sessionBaseIndex + 1000;
+  }
+  return false;
+}
+
+function getTaggedId(appt: Appointment): string {
+  if (appt.cancelledByBreak || (appt.bookedVia as string) === 'BreakBlock') return `__break_${appt.id}`;
+  if (appt.status === 'Completed' || appt.status === 'No-show') return `__blocked_${appt.id}`;
+  return `__shiftable_${appt.id}`;
+}
+
+function getSlotDuration(doctor: Doctor): number {
+  return doctor.averageConsultingTime || 15;
+}
+
+// ============================================================================
+// 1. SLOTS & SESSIONS
+// ============================================================================
+
+/**
+ * Builds every physical slot of the day, honouring session extensions.
+ * Slot indices are absolute across sessions so they match stored appointments.
+ */
+export function buildDaySlots(doctor: Doctor, date: Date, timeContext?: ClinicTimeContext): DailySlot[] {
+  const dayOfWeek = getClinicDayOfWeek(date, timeContext);
+  const availabilityForDay = doctor.availabilitySlots?.find(slot => slot.day === dayOfWeek);
+  if (!availabilityForDay?.timeSlots?.length) return [];
+
+  const slotDuration = getSlotDuration(doctor);
+  const extensionForDate = getDateKeyedEntry(doctor.availabilityExtensions, date, timeContext);
+  const slots: DailySlot[] = [];
+  let slotIndex = 0;
+
+  availabilityForDay.timeSlots.forEach((session, sessionIndex) => {
+    let currentTime = parseTimeString(session.from, date, timeContext);
+    let endTime = parseTimeString(session.to, date, timeContext);
+
+    const sessionExtension = extensionForDate?.sessions?.find(s => Number(s.sessionIndex) === sessionIndex);
+    if (sessionExtension?.newEndTime) {
+      try {
+        const extendedEndTime = parseTimeString(sessionExtension.newEndTime, date, timeContext);
+        if (isAfter(extendedEndTime, endTime)) {
+          endTime = extendedEndTime;
+        }
+      } catch (error) {
+        console.error('Error parsing extended end time, using original:', error);
+      }
+    }
+
+    while (isBefore(currentTime, endTime)) {
+      slots.push({ index: slotIndex, time: new Date(currentTime), sessionIndex });
+      currentTime = addMinutes(currentTime, slotDuration);
+      slotIndex += 1;
+    }
+  });
+
+  return slots;
+}
+
+/**
+ * Returns the session whose window (30 minutes before start until its last slot)
+ * contains `now`, or null when the doctor is between or outside sessions.
+ */
+export function resolveActiveSessionIndex(slots: DailySlot[], now: Date): number | null {
+  if (slots.length === 0) return 0;
+  const sessionMap = new Map<number, { start: Date; end: Date }>();
+  slots.forEach(s => {
+    const current = sessionMap.get(s.sessionIndex);
+    if (!current) {
+      sessionMap.set(s.sessionIndex, { start: s.time, end: s.time });
+    } else {
+      if (isBefore(s.time, current.start)) current.start = s.time;
+      if (isAfter(s.time, current.end)) current.end = s.time;
+    }
+  });
+  const sortedSessions = Array.from(sessionMap.entries()).sort((a, b) => a[0] - b[0]);
+  for (const [sIdx, range] of sortedSessions) {
+    if (!isAfter(now, range.end) && !isBefore(now, subMinutes(range.start, 30))) {
+      return sIdx;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// 2. WALK-IN PLACEMENT
+// ============================================================================
+
+type SessionSchedule = {
+  targetSessionIndex: number;
+  slots: DailySlot[];
+  advanceAppointments: Appointment[];
+  walkIns: Appointment[];
+  toRelative: (idx: number) => number;
+  toGlobal: (idx: number) => number;
+  normalizedSlots: DailySlot[];
+};
+
+function prepareSessionSchedule(state: ScheduleState, now: Date): SessionSchedule {
+  const targetSessionIndex = resolveActiveSessionIndex(state.slots, now) ?? 0;
+  const sessionBaseIndex = targetSessionIndex * 1000;
+  const slots = state.slots.filter(s => s.sessionIndex === targetSessionIndex);
+  const sessionAppointments = state.appointments.filter(appointment => isInSession(appointment, targetSessionIndex));
+
+  const advanceAppointments = sessionAppointments.filter(appointment =>
+    appointment.bookedVia !== 'Walk-in' &&
+    typeof appointment.slotIndex === 'number' &&
+    ACTIVE_STATUSES.has(appointment.status)
+  );
+  const walkIns = sessionAppointments.filter(appointment =>
+    appointment.bookedVia === 'Walk-in' &&
+    typeof appointment.slotIndex === 'number' &&
+    ACTIVE_STATUSES.has(appointment.status)
+  );
+
+  // Scheduler expects indices relative to the first slot of the session.
+  const sessionFirstSlotIdx = slots.length > 0 ? slots[0].index : sessionBaseIndex;
+  const toRelative = (idx: number) => {
+    const raw = idx % 10000;
+    if (raw >= sessionBaseIndex && raw < sessionBaseIndex + 1000) {
+      return raw - sessionBaseIndex;
+    }
+    if (raw < 1000 && raw >= sessionFirstSlotIdx) {
+      return raw - sessionFirstSlotIdx;
+    }
+    return raw;
+  };
+  const toGlobal = (idx: number) => idx + sessionBaseIndex;
+  const normalizedSlots = slots.map(s => ({ ...s, index: s.index - sessionFirstSlotIdx }));
+
+  return { targetSessionIndex, slots, advanceAppointments, walkIns, toRelative, toGlobal, normalizedSlots };
+}
+
+function toNumericToken(appointment: Appointment): number {
+  if (typeof appointment.numericToken === 'number') return appointment.numericToken;
+  const parsed = Number(appointment.numericToken);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Pure equivalent of previewWalkInPlacement: where would the next walk-in land,
+ * and which advance appointments would have to move to make room for it.
+ */
+export function planWalkInPreview(state: ScheduleState, now: Date): WalkInPreviewResult {
+  const session = prepareSessionSchedule(state, now);
+  const { advanceAppointments, walkIns, toRelative, toGlobal } = session;
+
+  const existingNumericTokens = walkIns.map(toNumericToken).filter(token => token > 0);
+  const placeholderNumericToken =
+    (existingNumericTokens.length > 0 ? Math.max(...existingNumericTokens) : session.slots.length) + 1;
+  const placeholderId = '__preview_walk_in__';
+
+  const schedule = computeWalkInSchedule({
+    slots: session.normalizedSlots,
+    now,
+    walkInTokenAllotment: state.walkInTokenAllotment,
+    advanceAppointments: advanceAppointments.map(entry => ({
+      id: entry.id,
+      slotIndex: toRelative(entry.slotIndex || 0),
+    })),
+    walkInCandidates: [
+      ...walkIns.map(appointment => ({
+        id: appointment.id,
+        numericToken: toNumericToken(appointment),
+        createdAt: toEngineDate(appointment.createdAt),
+        currentSlotIndex: toRelative(appointment.slotIndex || 0),
+      })),
+      { id: placeholderId, numericToken: placeholderNumericToken, createdAt: now },
+    ],
+  });
+
+  const assignmentById = new Map(schedule.assignments.map(assignment => [assignment.id, assignment]));
+
+  const advanceShifts: WalkInPreviewShift[] = advanceAppointments.flatMap(appointment => {
+    const assignment = assignmentById.get(appointment.id);
+    if (!assignment) return [];
+    const fromSlot = appointment.slotIndex || 0;
+    const toSlot = toGlobal(assignment.slotIndex);
+    if (fromSlot === toSlot) return [];
+    return [{
+      id: appointment.id,
+      tokenNumber: appointment.tokenNumber,
+      fromSlot,
+      toSlot,
+      fromTime: appointment.time ? parseTimeString(appointment.time, state.date, state.timeContext) : null,
+      toTime: assignment.slotTime,
+    }];
+  });
+
+  const rawPlaceholder = assignmentById.get(placeholderId) ?? null;
+  const placeholderAssignment: SchedulerAssignment | null = rawPlaceholder
+    ? { ...rawPlaceholder, slotIndex: toGlobal(rawPlaceholder.slotIndex) }
+    : null;
+
+  const walkInAssignments = schedule.assignments
+    .filter(assignment => assignment.id !== placeholderId)
+    .map(a => ({ ...a, slotIndex: toGlobal(a.slotIndex) }));
+
+  return { placeholderAssignment, advanceShifts, walkInAssignments };
+}
+
+function buildSlotChanges(
+  assignment: SchedulerAssignment,
+  slotIndex: number,
+  sessionIndex: number,
+  averageConsultingTime: number,
+  timeContext?: ClinicTimeContext
+): Partial<Appointment> {
+  return {
+    slotIndex,
+    sessionIndex,
+    time: getClinicTimeString(assignment.slotTime, timeContext),
+    cutOffTime: subMinutes(assignment.slotTime, averageConsultingTime),
+    noShowTime: addMinutes(assignment.slotTime, averageConsultingTime),
+  };
+}
+
+/**
+ * Pure equivalent of rebalanceWalkInSchedule: re-runs the walk-in scheduler for
+ * the active session and returns an update for every appointment that moves.
+ */
+export function planWalkInRebalance(state: ScheduleState, now: Date): ScheduleTransition[] {
+  const session = prepareSessionSchedule(state, now);
+  const { advanceAppointments, walkIns, toRelative, toGlobal, targetSessionIndex } = session;
+  if (walkIns.length === 0) return [];
+
+  const averageConsultingTime = getSlotDuration(state.doctor);
+  const normalizedAdvanceAppointments = advanceAppointments.map(entry => ({
+    id: getTaggedId(entry),
+    slotIndex: toRelative(entry.slotIndex || 0),
+  }));
+
+  // Cancelled / No-show slots that sit before a walk-in stay blocked so that
+  // walk-ins do not jump backwards into them.
+  state.appointments
+    .filter(appt =>
+      isInSession(appt, targetSessionIndex) &&
+      (appt.status === 'Cancelled' || appt.status === 'No-show') &&
+      typeof appt.slotIndex === 'number' &&
+      walkIns.some(w => (w.slotIndex || 0) > (appt.slotIndex || 0))
+    )
+    .forEach(slot => {
+      normalizedAdvanceAppointments.push({
+        id: `__blocked_bucket_${slot.id}`,
+        slotIndex: toRelative(slot.slotIndex || 0),
+      });
+    });
+
+  const schedule = computeWalkInSchedule({
+    slots: session.normalizedSlots,
+    now,
+    walkInTokenAllotment: state.walkInTokenAllotment,
+    advanceAppointments: normalizedAdvanceAppointments,
+    walkInCandidates: walkIns.map(appointment => ({
+      id: getTaggedId(appointment),
+      numericToken: typeof appointment.numericToken === 'number' ? appointment.numericToken : 0,
+      createdAt: toEngineDate(appointment.createdAt),
+      currentSlotIndex: toRelative(appointment.slotIndex || 0),
+    })),
+  });
+
+  const assignmentById = new Map(schedule.assignments.map(assignment => [assignment.id, assignment]));
+  const transitions: ScheduleTransition[] = [];
+
+  [...advanceAppointments, ...walkIns].forEach(appointment => {
+    const assignment = assignmentById.get(getTaggedId(appointment));
+    if (!assignment) return;
+
+    const newSlotIndex = toGlobal(assignment.slotIndex);
+    const newTimeString = getClinicTimeString(assignment.slotTime, state.timeContext);
+    if (appointment.slotIndex === newSlotIndex && appointment.time === newTimeString) return;
+
+    transitions.push({
+      type: 'update',
+      appointmentId: appointment.id,
+      changes: buildSlotChanges(assignment, newSlotIndex, targetSessionIndex, averageConsultingTime, state.timeContext),
+    });
+  });
+
+  return transitions;
+}
+
+/**
+ * Books a walk-in at the position the preview chooses and shifts the advance
+ * appointments that have to make room for it.
+ */
+export function planWalkInBooking(state: ScheduleState, request: BookingRequest, now: Date): BookingPlan {
+  const preview = planWalkInPreview(state, now);
+  const assignment = preview.placeholderAssignment;
+  if (!assignment) {
+    throw new Error('No walk-in slots are available.');
+  }
+  if (!sessionAcceptsWalkIns(getAdvanceRatio(state), assignment.sessionIndex)) {
+    throw new Error('Walk-ins are not accepted for this session.');
+  }
+
+  const averageConsultingTime = getSlotDuration(state.doctor);
+  const walkInTokens = state.appointments
+    .filter(a => a.bookedVia === 'Walk-in' && a.sessionIndex === assignment.sessionIndex)
+    .map(toNumericToken);
+  const numericToken = (walkInTokens.length > 0 ? Math.max(...walkInTokens) : 0) + 1;
+
+  const appointment = buildAppointment(state, request, {
+    bookedVia: 'Walk-in',
+    status: 'Confirmed',
+    slotIndex: assignment.slotIndex,
+    sessionIndex: assignment.sessionIndex,
+    slotTime: assignment.slotTime,
+    numericToken,
+    tokenNumber: generateWalkInTokenNumber(numericToken, assignment.sessionIndex),
+    now,
+  });
+
+  const transitions: ScheduleTransition[] = preview.advanceShifts.map(shift => ({
+    type: 'update',
+    appointmentId: shift.id,
+    changes: {
+      slotIndex: shift.toSlot,
+      time: getClinicTimeString(shift.toTime, state.timeContext),
+      noShowTime: addMinutes(shift.toTime, averageConsultingTime),
+    },
+  }));
+  transitions.push({ type: 'create', appointment });
+
+  return { appointment, transitions };
+}
+
+// ============================================================================
+// 3. ADVANCE BOOKING
+// ============================================================================
+
+/**
+ * Books an advance token into the first free slot that is not reserved for
+ * walk-ins; generateNextTokenAndReserveSlot places advance bookings with it.
+ * The preferred slot's session is tried first, then any other session.
+ * The walk-in reserve follows the doctor's (or clinic's) capacity policy.
+ */
+export function planAdvanceBooking(state: ScheduleState, request: BookingRequest, now: Date): BookingPlan {
+  const blocked = new Set(state.blockedIndices ?? []);
+  const occupied = buildOccupiedSlotSet(state.appointments);
+  blocked.forEach(index => occupied.add(index));
+  request.excludedSlotIndices?.forEach(index => occupied.add(index));
+
+  const candidates = buildCandidateSlots('A', state.slots, now, occupied, request.preferredSlotIndex, {
+    advanceRatio: getAdvanceRatio(state),
+    blockedIndices: blocked,
+    anySessionFallback: true,
+  });
+  if (candidates.length === 0) {
+    throw new Error('No available slots match the booking rules.');
+  }
+
+  const slot = state.slots.find(s => s.index === candidates[0])!;
+  const numericToken = slot.index + 1;
+  const appointment = buildAppointment(state, request, {
+    bookedVia: 'Advanced Booking',
+    status: 'Pending',
+    slotIndex: slot.index,
+    sessionIndex: slot.sessionIndex,
+    slotTime: slot.time,
+    numericToken,
+    tokenNumber: generateOnlineTokenNumber(numericToken, slot.sessionIndex),
+    now,
+  });
+
+  return { appointment, transitions: [{ type: 'create', appointment }] };
+}
+
+function getAdvanceRatio(state: ScheduleState): (sessionIndex: number) => number {
+  return createSessionRatioResolver(state.doctor, state.date, state.clinicCapacityPolicy, state.timeContext);
+}
+
+function buildAppointment(
+  state: ScheduleState,
+  request: BookingRequest,
+  placement: {
+    bookedVia: Appointment['bookedVia'];
+    status: Appointment['status'];
+    slotIndex: number;
+    sessionIndex: number;
+    slotTime: Date;
+    numericToken: number;
+    tokenNumber: string;
+    now: Date;
+  }
+): Appointment {
+  const time = getClinicTimeString(placement.slotTime, state.timeContext);
+  return {
+    id: request.id,
+    clinicId: state.doctor.clinicId,
+    doctorId: state.doctor.id,
+    doctor: state.doctor.name,
+    department: state.doctor.department,
+    patientId: request.patientId,
+    patientName: request.patientName,
+    age: request.age ?? 0,
+    sex: request.sex ?? 'Other',
+    communicationPhone: request.phone ?? '',
+    place: request.place,
+    date: getClinicDateString(state.date, state.timeContext),
+    time,
+    dateKey: getClinicISOString(state.date, state.timeContext),
+    slotAt: placement.slotTime,
+    arriveByTime: time,
+    status: placement.status,
+    bookedVia: placement.bookedVia,
+    slotIndex: placement.slotIndex,
+    sessionIndex: placement.sessionIndex,
+    numericToken: placement.numericToken,
+    tokenNumber: placement.tokenNumber,
+    createdAt: placement.now,
+    ...getAttendanceWindow(placement.slotTime, state.doctor.averageConsultingTime),
+    ...(placement.status === 'Confirmed' ? { confirmedAt: placement.now } : {}),
+  };
+}
+
+// ============================================================================
+// 4. STATUS TRANSITIONS
+// ============================================================================
+
+/**
+ * Start of the first session that has not ended yet.
+ */
+function getNextSessionStart(slots: DailySlot[], now: Date): Date | null {
+  const sessionIndices = Array.from(new Set(slots.map(slot => slot.sessionIndex))).sort((a, b) => a - b);
+  for (const sessionIndex of sessionIndices) {
+    const sessionSlots = slots.filter(slot => slot.sessionIndex === sessionIndex);
+    if (!isBefore(sessionSlots[sessionSlots.length - 1].time, now)) {
+      return sessionSlots[0].time;
+    }
+  }
+  return null;
+}
+
+/**
+ * Time-driven transitions performed by updateAppointmentStatuses:
+ * - Pending → Skipped once cutOffTime passes (unless the doctor has not started yet)
+ * - Skipped → No-show once noShowTime passes while the doctor is In
+ */
+export function planStatusTransitions(state: ScheduleState, now: Date): ScheduleTransition[] {
+  const consultationStatus = state.doctor.consultationStatus || 'Out';
+  const nextSessionStart = getNextSessionStart(state.slots, now);
+  const transitions: ScheduleTransition[] = [];
+
+  state.appointments.forEach(appointment => {
+    if (appointment.status === 'Pending') {
+      const cutOffTime = toEngineDate(appointment.cutOffTime)
+        ?? getAttendanceWindow(parseTimeString(appointment.time, state.date, state.timeContext), state.doctor.averageConsultingTime).cutOffTime;
+      if (now.getTime() < cutOffTime.getTime()) return;
+      if (consultationStatus === 'Out' && nextSessionStart && isAfter(cutOffTime, nextSessionStart)) return;
+      transitions.push({
+        type: 'update',
+        appointmentId: appointment.id,
+        changes: { status: 'Skipped', skippedAt: now, updatedAt: now },
+      });
+    } else if (appointment.status === 'Skipped') {
+      const noShowTime = toEngineDate(appointment.noShowTime)
+        ?? getAttendanceWindow(parseTimeString(appointment.time, state.date, state.timeContext), state.doctor.averageConsultingTime).noShowTime;
+      if (now.getTime() < noShowTime.getTime() || consultationStatus !== 'In') return;
+      transitions.push({
+        type: 'update',
+        appointmentId: appointment.id,
+        changes: { status: 'No-show', updatedAt: now },
+      });
+    }
+  });
+
+  return transitions;
+}
+
+// ============================================================================
+// 5. BREAKS & EXTENSIONS
+// ============================================================================
+
+/**
+ * The moves shiftAppointmentsForNewBreak writes. Appointments inside the break
+ * are compacted to the slots right after it, later appointments shift by the
+ * number of occupied break slots (advance tokens follow their new slot), and
+ * every break slot gets a BreakBlock placeholder so the scheduler never books
+ * into it; a block left over from a cancelled break is switched back on.
+ */
+export function planBreakShift(state: ScheduleState, breakPeriod: BreakPeriod, idFactory: () => string): ScheduleTransition[] {
+  const averageConsultingTime = getSlotDuration(state.doctor);
+  const breakStart = parseISO(breakPeriod.startTime);
+  breakStart.setSeconds(0, 0);
+  const breakEnd = addMinutes(breakStart, breakPeriod.duration || differenceInMinutes(parseISO(breakPeriod.endTime), breakStart));
+
+  const breakSlots = state.slots.filter(slot =>
+    slot.sessionIndex === breakPeriod.sessionIndex &&
+    !isBefore(slot.time, breakStart) &&
+    isBefore(slot.time, breakEnd)
+  );
+  const transitions: ScheduleTransition[] = [];
+  const dateStr = getClinicDateString(state.date, state.timeContext);
+
+  if (breakSlots.length > 0) {
+    const startSlotIndex = breakSlots[0].index;
+    const endSlotIndex = breakSlots[breakSlots.length - 1].index;
+    const sessionAppointments = state.appointments.filter(appt =>
+      appt.sessionIndex === breakPeriod.sessionIndex &&
+      appt.status !== 'Cancelled' &&
+      !appt.cancelledByBreak
+    );
+
+    const displaced = sessionAppointments
+      .filter(appt =>
+        appt.status !== 'Completed' &&
+        typeof appt.slotIndex === 'number' &&
+        appt.slotIndex >= startSlotIndex &&
+        appt.slotIndex <= endSlotIndex
+      )
+      .sort((a, b) => (a.slotIndex || 0) - (b.slotIndex || 0));
+    const dynamicShiftAmount = new Set(displaced.map(appt => appt.slotIndex)).size;
+
+    sessionAppointments.forEach(appt => {
+      if (appt.status === 'Completed' || typeof appt.slotIndex !== 'number') return;
+      const apptTime = parseTimeString(appt.arriveByTime || appt.time, state.date, state.timeContext);
+      if (isBefore(apptTime, breakStart)) return;
+
+      const relativeIndex = displaced.findIndex(d => d.id === appt.id);
+      const shiftSlots = relativeIndex >= 0
+        ? (endSlotIndex + 1 + relativeIndex) - appt.slotIndex
+        : dynamicShiftAmount;
+      if (shiftSlots === 0) return;
+
+      const shiftMinutes = shiftSlots * averageConsultingTime;
+      const newTime = addMinutes(apptTime, shiftMinutes);
+      const newSlotIndex = appt.slotIndex + shiftSlots;
+      const cutOffTime = toEngineDate(appt.cutOffTime);
+      const noShowTime = toEngineDate(appt.noShowTime);
+
+      transitions.push({
+        type: 'update',
+        appointmentId: appt.id,
+        changes: {
+          // Shifted patients get a fresh slot, so a skip is forgiven
+          status: appt.status === 'Skipped' ? 'Pending' : appt.status,
+          slotIndex: newSlotIndex,
+          time: getClinicTimeString(newTime, state.timeContext),
+          slotAt: newTime,
+          arriveByTime: getClinicTimeString(newTime, state.timeContext),
+          ...(cutOffTime ? { cutOffTime: addMinutes(cutOffTime, shiftMinutes) } : {}),
+          ...(noShowTime ? { noShowTime: addMinutes(noShowTime, shiftMinutes) } : {}),
+          ...(appt.tokenNumber?.startsWith('A') ? {
+            numericToken: newSlotIndex + 1,
+            tokenNumber: generateOnlineTokenNumber(newSlotIndex + 1, appt.sessionIndex ?? breakPeriod.sessionIndex),
+          } : {}),
+        },
+      });
+    });
+
+    breakSlots.forEach(slot => {
+      const existingBlock = state.appointments.find(appt => appt.cancelledByBreak && appt.slotIndex === slot.index);
+      if (existingBlock) {
+        if (existingBlock.status === 'Cancelled') {
+          transitions.push({ type: 'update', appointmentId: existingBlock.id, changes: { status: 'Completed' } });
+        }
+        return;
+      }
+
+      const time = getClinicTimeString(slot.time, state.timeContext);
+      transitions.push({
+        type: 'create',
+        appointment: {
+          id: idFactory(),
+          clinicId: state.doctor.clinicId,
+          doctorId: state.doctor.id,
+          doctor: state.doctor.name,
+          department: state.doctor.department || 'General',
+          patientId: 'dummy-break-patient',
+          patientName: 'kloqo dummy',
+          age: 0,
+          sex: 'Other',
+          communicationPhone: '0000000000',
+          date: dateStr,
+          time,
+          dateKey: getClinicISOString(state.date, state.timeContext),
+          slotAt: slot.time,
+          arriveByTime: time,
+          ...getAttendanceWindow(slot.time, state.doctor.averageConsultingTime),
+          slotIndex: slot.index,
+          sessionIndex: breakPeriod.sessionIndex,
+          status: 'Completed',
+          cancelledByBreak: true,
+          bookedVia: 'BreakBlock' as Appointment['bookedVia'],
+          tokenNumber: 'Break',
+          numericToken: 0,
+        },
+      });
+    });
+  }
+
+  const existingBreaks = getDateKeyedEntry(state.doctor.breakPeriods, dateStr) || [];
+  transitions.push({
+    type: 'doctor',
+    changes: {
+      breakPeriods: {
+        ...state.doctor.breakPeriods,
+        [dateStr]: [...existingBreaks, breakPeriod],
+      },
+    },
+  });
+
+  return transitions;
+}
+
+/**
+ * Extends a session to a new end time and records the session's breaks with it;
+ * the break dialogs save this when a break is scheduled. An end time equal to
+ * the session's own end records the breaks without extending. The extra slots
+ * appear the next time buildDaySlots runs against the updated doctor.
+ */
+export function planSessionExtension(
+  state: Pick<ScheduleState, 'doctor' | 'date' | 'timeContext'>,
+  sessionIndex: number,
+  newEndTime: string
+): ScheduleTransition[] {
+  const dateStr = getClinicDateString(state.date, state.timeContext);
+  const availabilityForDay = state.doctor.availabilitySlots?.find(slot => slot.day === getClinicDayOfWeek(state.date, state.timeContext));
+  const session = availabilityForDay?.timeSlots?.[sessionIndex];
+  if (!session) {
+    throw new Error(`Session ${sessionIndex} does not exist on ${dateStr}.`);
+  }
+
+  const originalEnd = parseTimeString(session.to, state.date, state.timeContext);
+  const newEnd = parseTimeString(newEndTime, state.date, state.timeContext);
+  if (isBefore(newEnd, originalEnd)) {
+    throw new Error('Extension must not end before the original session end.');
+  }
+
+  const existingSessions = getDateKeyedEntry(state.doctor.availabilityExtensions, dateStr)?.sessions || [];
+  const sessionBreaks = (getDateKeyedEntry(state.doctor.breakPeriods, dateStr) || []).filter(bp => bp.sessionIndex === sessionIndex);
+
+  return [{
+    type: 'doctor',
+    changes: {
+      availabilityExtensions: {
+        ...state.doctor.availabilityExtensions,
+        [dateStr]: {
+          dateKey: getClinicISOString(state.date, state.timeContext),
+          sessions: [
+            ...existingSessions.filter(s => Number(s.sessionIndex) !== sessionIndex),
+            {
+              sessionIndex,
+              breaks: sessionBreaks,
+              totalExtendedBy: differenceInMinutes(newEnd, originalEnd),
+              originalEndTime: session.to,
+              newEndTime,
+            },
+          ],
+        },
+      },
+    },
+  }];
+}
+
+// ============================================================================
+// 6. APPLYING TRANSITIONS
+// ============================================================================
+
+/**
+ * Applies transitions to a state and returns the next state. Slots are rebuilt
+ * whenever the doctor changes so extensions take effect immediately.
+ */
+export function applyScheduleTransitions(state: ScheduleState, transitions: ScheduleTransition[]): ScheduleState {
+  let doctor = state.doctor;
+  const appointments = new Map(state.appointments.map(appt => [appt.id, appt]));
+
+  transitions.forEach(transition => {
+    if (transition.type === 'create') {
+      appointments.set(transition.appointment.id, transition.appointment);
+    } else if (transition.type === 'update') {
+      const existing = appointments.get(transition.appointmentId);
+      if (existing) {
+        appointments.set(transition.appointmentId, { ...existing, ...transition.changes });
+      }
+    } else {
+      doctor = { ...doctor, ...transition.changes };
+    }
+  });
+
+  return {
+    ...state,
+    doctor,
+    slots: doctor === state.doctor ? state.slots : buildDaySlots(doctor, state.date, state.timeContext),
+    appointments: Array.from(appointments.values()),
+  };
+}
@@ -0,0 +1,455 @@
+/**
+ * Appointment Series Service
+ *
+ * Recurring follow-up appointments with the same doctor, e.g. every 2 weeks
+ * for 3 months. Each occurrence is booked through generateNextTokenAndReserveSlot
+ * like any other advance booking; days that cannot be booked (leave, break,
+ * day off, fully booked) are kept on the series as conflicts so staff and
+ * patients can see exactly which dates are missing.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  where,
+  writeBatch,
+  type Firestore,
+} from 'firebase/firestore';
+import { addWeeks, differenceInMinutes, isAfter, isBefore } from 'date-fns';
+import type {
+  Appointment,
+  AppointmentSeries,
+  AppointmentSeriesConflict,
+  AppointmentSeriesOccurrence,
+  Clinic,
+  Doctor,
+} from '@kloqo/shared-types';
+import { createSessionRatioResolver, type SessionAdvanceRatio } from './capacity-service';
+import { buildDaySlots } from './scheduling-engine';
+import { buildCandidateSlots, buildOccupiedSlotSet, getAttendanceWindow, type DailySlot } from './day-slots';
+import { generateNextTokenAndReserveSlot, getLeaveBlockedIndices, isSlotCapacityError } from './appointment-service';
+import { requestWaitlistPromotion } from './waitlist-service';
+import { applyAppointmentMutation, type AppointmentMutationContext } from './appointment-event-service';
+import { parseTime } from '../utils/break-helpers';
+import { getClinicDateString, getClinicISOString, getClinicNow, getClinicTimeContext, getClinicTimeString, parseClinicDate, type ClinicTimeContext } from '../utils/date-utils';
+import { getDateKeyedEntry } from '../utils/date-keys';
+import { buildReservationDocId } from '../utils/reservation-utils';
+
+/** Upper bound on occurrences in one series (a weekly series for six months) */
+export const MAX_SERIES_OCCURRENCES = 26;
+
+export type AppointmentSeriesInput = Pick<
+  AppointmentSeries,
+  'clinicId' | 'doctorId' | 'patientId' | 'patientName' | 'communicationPhone' | 'age' | 'sex' | 'place'
+  | 'startDate' | 'endDate' | 'intervalWeeks' | 'preferredTime' | 'bookedVia'
+>;
+
+export type AppointmentSeriesChanges = Partial<Pick<AppointmentSeries, 'endDate' | 'intervalWeeks' | 'preferredTime'>>;
+
+export interface SeriesDay {
+  date: Date;
+  slots: DailySlot[];
+  appointments: Appointment[];
+  blockedIndices?: number[];  // breaks and leave
+  leaveIndices?: number[];    // the subset of blockedIndices that is doctor leave
+  advanceRatio?: SessionAdvanceRatio;
+  timeContext?: ClinicTimeContext;  // the clinic's clock for the preferred time
+}
+
+export type SeriesOccurrencePlan =
+  | { slotIndex: number; sessionIndex: number; time: string }
+  | { conflict: AppointmentSeriesConflict };
+
+const CANCELLABLE_STATUSES: Appointment['status'][] = ['Pending', 'Confirmed', 'Skipped'];
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * Every occurrence date from startDate to endDate (inclusive), intervalWeeks apart
+ */
+export function buildSeriesDates(
+  series: Pick<AppointmentSeries, 'startDate' | 'endDate' | 'intervalWeeks'>,
+  timeContext?: ClinicTimeContext
+): string[] {
+  if (!Number.isInteger(series.intervalWeeks) || series.intervalWeeks < 1) {
+    throw new Error('Series interval must be at least one week.');
+  }
+
+  const start = parseClinicDate(series.startDate, timeContext);
+  const end = parseClinicDate(series.endDate, timeContext);
+  if (isBefore(end, start)) {
+    throw new Error('Series end date cannot be before its start date.');
+  }
+
+  const dates: string[] = [];
+  for (let date = start; !isAfter(date, end); date = addWeeks(date, series.intervalWeeks)) {
+    if (dates.length === MAX_SERIES_OCCURRENCES) {
+      throw new Error(`A series can have at most ${MAX_SERIES_OCCURRENCES} appointments.`);
+    }
+    dates.push(getClinicDateString(date, timeContext));
+  }
+  return dates;
+}
+
+/**
+ * Picks the free advance slot closest to the preferred time, within the session
+ * that contains it. Uses the same candidate rules as advance booking (30 minute
+ * buffer, walk-in reserve, blocked slots), and explains why when nothing fits.
+ */
+export function planSeriesOccurrence(day: SeriesDay, preferredTime: string, now: Date): SeriesOccurrencePlan {
+  if (day.slots.length === 0) return { conflict: 'NotWorking' };
+
+  const target = parseTime(preferredTime, day.date, day.timeContext);
+  const distance = (slot: DailySlot) => Math.abs(differenceInMinutes(slot.time, target));
+  const targetSlot = day.slots.reduce((best, slot) => (distance(slot) < distance(best) ? slot : best));
+  const sessionSlots = day.slots.filter(slot => slot.sessionIndex === targetSlot.sessionIndex);
+
+  if (isBefore(sessionSlots[sessionSlots.length - 1].time, now)) return { conflict: 'Past' };
+  if (sessionSlots.every(slot => day.leaveIndices?.includes(slot.index))) return { conflict: 'Leave' };
+
+  const occupied = buildOccupiedSlotSet(day.appointments);
+  day.blockedIndices?.forEach(index => occupied.add(index));
+  const candidates = buildCandidateSlots('A', day.slots, now, occupied, undefined, {
+    advanceRatio: day.advanceRatio,
+  }).filter(index => sessionSlots.some(slot => slot.index === index));
+
+  if (candidates.length === 0) {
+    if (day.leaveIndices?.includes(targetSlot.index)) return { conflict: 'Leave' };
+    if (day.blockedIndices?.includes(targetSlot.index)) return { conflict: 'Break' };
+    return { conflict: 'Full' };
+  }
+
+  const slot = candidates
+    .map(index => sessionSlots.find(s => s.index === index)!)
+    .reduce((best, candidate) => (distance(candidate) < distance(best) ? candidate : best));
+  return { slotIndex: slot.index, sessionIndex: slot.sessionIndex, time: getClinicTimeString(slot.time, day.timeContext) };
+}
+
+/**
+ * Human-readable reason for an occurrence that could not be booked
+ */
+export function describeSeriesConflict(conflict: AppointmentSeriesConflict): string {
+  switch (conflict) {
+    case 'NotWorking':
+      return 'Doctor does not consult on this day';
+    case 'Leave':
+      return 'Doctor is on leave';
+    case 'Break':
+      return 'Doctor is on a break at this time';
+    case 'Full':
+      return 'No slots left in this session';
+    case 'Past':
+      return 'This session has already started';
+  }
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+async function getSeries(firestore: Firestore, seriesId: string): Promise<AppointmentSeries> {
+  const seriesSnap = await getDoc(doc(firestore, 'appointment-series', seriesId));
+  if (!seriesSnap.exists()) {
+    throw new Error('Appointment series not found.');
+  }
+  return { id: seriesSnap.id, ...seriesSnap.data() } as AppointmentSeries;
+}
+
+async function getDoctor(firestore: Firestore, doctorId: string): Promise<Doctor> {
+  const doctorSnap = await getDoc(doc(firestore, 'doctors', doctorId));
+  if (!doctorSnap.exists()) {
+    throw new Error('Doctor not found.');
+  }
+  return { id: doctorSnap.id, ...doctorSnap.data() } as Doctor;
+}
+
+async function loadSeriesDay(firestore: Firestore, doctor: Doctor, clinic: Clinic | null, date: string): Promise<SeriesDay> {
+  const timeContext = getClinicTimeContext(clinic);
+  const day = parseClinicDate(date, timeContext);
+  const slots = buildDaySlots(doctor, day, timeContext);
+  const appointmentsSnap = await getDocs(query(
+    collection(firestore, 'appointments'),
+    where('clinicId', '==', doctor.clinicId),
+    where('doctor', '==', doctor.name),
+    where('date', '==', date)
+  ));
+  const leaveOnly = {
+    ...doctor,
+    breakPeriods: { [date]: (getDateKeyedEntry(doctor.breakPeriods, date) || []).filter(breakPeriod => breakPeriod.type === 'LEAVE') },
+  };
+
+  return {
+    date: day,
+    slots,
+    appointments: appointmentsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Appointment)),
+    blockedIndices: getLeaveBlockedIndices(doctor, slots, day, timeContext),
+    leaveIndices: getLeaveBlockedIndices(leaveOnly, slots, day, timeContext),
+    advanceRatio: createSessionRatioResolver(doctor, day, clinic?.capacityPolicy, timeContext),
+    timeContext,
+  };
+}
+
+/**
+ * Books one occurrence, or records why it could not be booked
+ */
+async function bookSeriesOccurrence(
+  firestore: Firestore,
+  series: AppointmentSeries,
+  doctor: Doctor,
+  clinic: Clinic | null,
+  date: string
+): Promise<AppointmentSeriesOccurrence> {
+  const day = await loadSeriesDay(firestore, doctor, clinic, date);
+  const plan = planSeriesOccurrence(day, series.preferredTime, getClinicNow());
+  if ('conflict' in plan) {
+    return { date, status: 'Conflict', conflict: plan.conflict };
+  }
+
+  let tokenData: Awaited<ReturnType<typeof generateNextTokenAndReserveSlot>>;
+  try {
+    tokenData = await generateNextTokenAndReserveSlot(
+      firestore,
+      series.clinicId,
+      doctor.name,
+      parseTime(plan.time, day.date, day.timeContext),
+      'A',
+      {
+        time: plan.time,
+        slotIndex: plan.slotIndex,
+        doctorId: doctor.id,
+      },
+      day.timeContext
+    );
+  } catch (error) {
+    if (!isSlotCapacityError(error)) throw error;
+    console.warn(`[Series] Could not book ${date} for series ${series.id}:`, error);
+    return { date, status: 'Conflict', conflict: 'Full' };
+  }
+
+  const appointmentRef = doc(collection(firestore, 'appointments'));
+  const slotTime = parseTime(tokenData.time, day.date, day.timeContext);
+  const appointment: Appointment = {
+    id: appointmentRef.id,
+    bookedVia: series.bookedVia,
+    clinicId: series.clinicId,
+    doctorId: doctor.id,
+    doctor: doctor.name,
+    department: doctor.department,
+    date,
+    time: tokenData.time,
+    dateKey: getClinicISOString(day.date, day.timeContext),
+    slotAt: slotTime,
+    arriveByTime: tokenData.arriveByTime,
+    patientId: series.patientId,
+    patientName: series.patientName,
+    age: series.age ?? 0,
+    sex: series.sex || 'Other',
+    communicationPhone: series.communicationPhone || '',
+    place: series.place || '',
+    status: 'Pending',
+    slotIndex: tokenData.slotIndex,
+    sessionIndex: tokenData.sessionIndex,
+    tokenNumber: tokenData.tokenNumber,
+    numericToken: tokenData.numericToken,
+    seriesId: series.id,
+    ...getAttendanceWindow(slotTime, doctor.averageConsultingTime),
+    createdAt: serverTimestamp(),
+  };
+
+  try {
+    await runTransaction(firestore, async transaction => {
+      const reservationRef = doc(firestore, 'slot-reservations', tokenData.reservationId);
+      const reservationDoc = await transaction.get(reservationRef);
+      if (reservationDoc.exists()) {
+        transaction.update(reservationRef, {
+          status: 'booked',
+          appointmentId: appointmentRef.id,
+          bookedAt: serverTimestamp(),
+        });
+      }
+      transaction.set(appointmentRef, appointment);
+    });
+  } catch (error) {
+    console.error(`[Series] Error saving ${date} for series ${series.id}:`, error);
+    await deleteDoc(doc(firestore, 'slot-reservations', tokenData.reservationId)).catch(() => undefined);
+    throw error;
+  }
+
+  return { date, status: 'Booked', appointmentId: appointmentRef.id, time: tokenData.time };
+}
+
+/**
+ * Cancels the appointment of a booked occurrence, releases its slot reservation
+ * and offers the slot to the waitlist
+ */
+async function cancelOccurrenceAppointment(
+  firestore: Firestore,
+  series: AppointmentSeries,
+  occurrence: AppointmentSeriesOccurrence,
+  eventContext: Pick<AppointmentMutationContext, 'actor' | 'source' | 'reason'>
+): Promise<void> {
+  if (!occurrence.appointmentId) return;
+
+  const appointmentRef = doc(firestore, 'appointments', occurrence.appointmentId);
+  const appointmentSnap = await getDoc(appointmentRef);
+  if (!appointmentSnap.exists()) return;
+  const appointment = { id: appointmentSnap.id, ...appointmentSnap.data() } as Appointment;
+  if (!CANCELLABLE_STATUSES.includes(appointment.status)) return;
+
+  const batch = writeBatch(firestore);
+  applyAppointmentMutation(batch, firestore, appointment, {
+    status: 'Cancelled',
+    updatedAt: serverTimestamp(),
+  }, { ...eventContext, action: 'cancelled' });
+  if (typeof appointment.slotIndex === 'number') {
+    batch.delete(doc(firestore, 'slot-reservations', buildReservationDocId(series.clinicId, appointment.doctor, appointment.date, appointment.slotIndex)));
+  }
+  await batch.commit();
+  if (typeof appointment.sessionIndex === 'number') {
+    await requestWaitlistPromotion(firestore, {
+      clinicId: series.clinicId,
+      doctorId: series.doctorId,
+      date: appointment.date,
+      sessionIndex: appointment.sessionIndex,
+    }).catch(error => console.error('[Series] Failed to promote waitlist:', error));
+  }
+}
+
+function isUpcoming(occurrence: AppointmentSeriesOccurrence, today: Date, timeContext: ClinicTimeContext): boolean {
+  return !isBefore(parseClinicDate(occurrence.date, timeContext), today);
+}
+
+async function getClinic(firestore: Firestore, clinicId: string): Promise<Clinic | null> {
+  const clinicSnap = await getDoc(doc(firestore, 'clinics', clinicId));
+  return clinicSnap.exists() ? (clinicSnap.data() as Clinic) : null;
+}
+
+/**
+ * Midnight of the clinic's current day
+ */
+function getClinicToday(timeContext: ClinicTimeContext): Date {
+  return parseClinicDate(getClinicDateString(getClinicNow(), timeContext), timeContext);
+}
+
+/**
+ * Creates a series and books every occurrence it can. The returned series lists
+ * each date as Booked or Conflict.
+ */
+export async function createAppointmentSeries(firestore: Firestore, input: AppointmentSeriesInput): Promise<AppointmentSeries> {
+  const doctor = await getDoctor(firestore, input.doctorId);
+  const clinic = await getClinic(firestore, input.clinicId);
+  const dates = buildSeriesDates(input, getClinicTimeContext(clinic));
+
+  const seriesRef = doc(collection(firestore, 'appointment-series'));
+  const series: AppointmentSeries = {
+    ...input,
+    id: seriesRef.id,
+    doctorName: doctor.name,
+    status: 'Active',
+    occurrences: [],
+  };
+
+  for (const date of dates) {
+    series.occurrences.push(await bookSeriesOccurrence(firestore, series, doctor, clinic, date));
+  }
+
+  const seriesData = Object.fromEntries(Object.entries(series).filter(([_, v]) => v !== undefined));
+  await setDoc(seriesRef, { ...seriesData, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+  const booked = series.occurrences.filter(o => o.status === 'Booked').length;
+  console.log(`[Series] Created series ${series.id} for ${series.patientName}: ${booked}/${dates.length} booked`);
+
+  return series;
+}
+
+/**
+ * Changes the schedule of a series. Upcoming occurrences that still fit the new
+ * schedule keep their appointment; the rest are cancelled and the new dates
+ * (including earlier conflicts) are booked again. Past occurrences are untouched.
+ */
+export async function updateAppointmentSeries(
+  firestore: Firestore,
+  seriesId: string,
+  changes: AppointmentSeriesChanges,
+  eventContext: Pick<AppointmentMutationContext, 'actor' | 'source'>
+): Promise<AppointmentSeries> {
+  const series = await getSeries(firestore, seriesId);
+  if (series.status !== 'Active') {
+    throw new Error('This series has been cancelled.');
+  }
+
+  const doctor = await getDoctor(firestore, series.doctorId);
+  const clinic = await getClinic(firestore, series.clinicId);
+  const timeContext = getClinicTimeContext(clinic);
+
+  const updated: AppointmentSeries = { ...series, ...changes };
+  const today = getClinicToday(timeContext);
+  const dates = buildSeriesDates(updated, timeContext).filter(date => !isBefore(parseClinicDate(date, timeContext), today));
+  const timeChanged = !!changes.preferredTime && changes.preferredTime !== series.preferredTime;
+
+  const past = series.occurrences.filter(o => !isUpcoming(o, today, timeContext));
+  const kept: AppointmentSeriesOccurrence[] = [];
+  for (const occurrence of series.occurrences.filter(o => isUpcoming(o, today, timeContext))) {
+    if (occurrence.status === 'Booked' && dates.includes(occurrence.date) && !timeChanged) {
+      kept.push(occurrence);
+    } else if (occurrence.status === 'Booked') {
+      await cancelOccurrenceAppointment(firestore, series, occurrence, { ...eventContext, reason: 'Series rescheduled' });
+    }
+  }
+
+  const upcoming: AppointmentSeriesOccurrence[] = [];
+  for (const date of dates) {
+    const existing = kept.find(o => o.date === date);
+    upcoming.push(existing ?? await bookSeriesOccurrence(firestore, updated, doctor, clinic, date));
+  }
+
+  updated.occurrences = [...past, ...upcoming];
+  await updateDoc(doc(firestore, 'appointment-series', series.id), {
+    ...Object.fromEntries(Object.entries(changes).filter(([_, v]) => v !== undefined)),
+    occurrences: updated.occurrences,
+    updatedAt: serverTimestamp(),
+  });
+
+  return updated;
+}
+
+/**
+ * Cancels every upcoming appointment of the series and closes it
+ */
+export async function cancelAppointmentSeries(
+  firestore: Firestore,
+  seriesId: string,
+  eventContext: Pick<AppointmentMutationContext, 'actor' | 'source'>
+): Promise<void> {
+  const series = await getSeries(firestore, seriesId);
+  if (series.status === 'Cancelled') return;
+
+  const timeContext = getClinicTimeContext(await getClinic(firestore, series.clinicId));
+  const today = getClinicToday(timeContext);
+  const occurrences: AppointmentSeriesOccurrence[] = [];
+  for (const occurrence of series.occurrences) {
+    if (!isUpcoming(occurrence, today, timeContext)) {
+      occurrences.push(occurrence);
+      continue;
+    }
+    if (occurrence.status === 'Booked') {
+      await cancelOccurrenceAppointment(firestore, series, occurrence, { ...eventContext, reason: 'Series cancelled' });
+    }
+    occurrences.push({ ...occurrence, status: 'Cancelled' });
+  }
+
+  await updateDoc(doc(firestore, 'appointment-series', series.id), {
+    status: 'Cancelled',
+    occurrences,
+    updatedAt: serverTimestamp(),
+  });
+}
@@ -3,21 +3,43 @@ import { db } from '@kloqo/shared-firebase';
 import { format, parse, addHours, addMinutes, subMinutes, isAfter, isBefore, isWithinInterval } from 'date-fns';
 import type { Appointment, Doctor } from '@kloqo/shared-types';
 import { sendAppointmentSkippedNotification } from './notification-service';
-import { getClinicDateString, getClinicDayOfWeek, getClinic24hTimeString, getClinicNow } from '../utils/date-utils';
+import {
+    getClinicDateString,
+    getClinicDayOfWeek,
+    getClinic24hTimeString,
+    getClinicNow,
+    getClinicTimeContext,
+    getClinicTimeString,
+    parseClinicDate,
+    type ClinicTimeContext,
+} from '../utils/date-utils';
+import { applyAppointmentMutation, getSystemActor } from './appointment-event-service';
 import { rebalanceWalkInSchedule } from './walk-in.service';
+import { buildDaySlots, planStatusTransitions } from './scheduling-engine';
+import { processWaitlists } from './waitlist-service';
 
 /**
- * Updates appointment statuses and doctor consultation statuses when the app opens
+ * Updates appointment statuses and doctor consultation statuses when the app opens.
+ * Cut-off and no-show times are judged on the clinic's own clock.
  */
 export async function updateAppointmentAndDoctorStatuses(clinicId: string): Promise<void> {
     try {
-
+        const clinicDoc = await getDoc(doc(db, 'clinics', clinicId));
+        const timeContext = getClinicTimeContext(clinicDoc.data());
 
         // Update appointment statuses
-        await updateAppointmentStatuses(clinicId);
+        await updateAppointmentStatuses(clinicId, timeContext);
 
         // Update doctor consultation statuses
-        await updateDoctorConsultationStatuses(clinicId);
+        await updateDoctorConsultationStatuses(clinicId, timeContext);
+
+        // Offer slots freed by cancellations / No-shows to waitlisted patients
+        // and pass lapsed offers on to the next patient
+        try {
+            await processWaitlists(db, clinicId);
+        } catch (waitlistError) {
+            console.error('Error processing waitlists:', waitlistError);
+        }
 
         ('Status updates completed successfully');
     } catch (error) {
@@ -27,15 +49,14 @@ export async function updateAppointmentAndDoctorStatuses(clinicId: string): Prom
 }
 
 /**
- * Updates appointment statuses:
- * 1. Pending → Skipped when arrive-by time (appointment time - 15 minutes) has passed and appointment is still Pending (not Confirmed)
- * 2. Skipped → No-show when appointment time + 15 minutes has passed
+ * Updates appointment statuses with the scheduling engine's time-driven transitions:
+ * 1. Pending → Skipped once the cut-off passes (unless the doctor has not started yet)
+ * 2. Skipped → No-show once the no-show time passes while the doctor is In
  */
-async function updateAppointmentStatuses(clinicId: string): Promise<void> {
+async function updateAppointmentStatuses(clinicId: string, timeContext: ClinicTimeContext): Promise<void> {
     const now = getClinicNow();
-    const today = getClinicDateString(now);
-
-
+    const today = getClinicDateString(now, timeContext);
+    const date = parseClinicDate(today, timeContext);
 
     // Query Pending and Skipped appointments for today
     const appointmentsRef = collection(db, 'appointments');
@@ -62,129 +83,43 @@ async function updateAppointmentStatuses(clinicId: string): Promise<void> {
         doctorsMap.set(doctor.name, doctor);
     });
 
-    const appointmentsToSkip: { id: string; appointment: Appointment }[] = [];
-    const appointmentsToMarkNoShow: { id: string; appointment: Appointment }[] = [];
-
+    const appointmentsByDoctor = new Map<string, Appointment[]>();
     querySnapshot.forEach((docSnapshot) => {
-        const appointment = docSnapshot.data() as Appointment;
-
-        try {
-            // Get doctor information
-            const doctor = doctorsMap.get(appointment.doctor);
-            if (!doctor) {
-                console.warn(`Doctor not found for appointment ${docSnapshot.id}: ${appointment.doctor}`);
-                // Fall back to old logic if doctor not found
-                if (appointment.status === 'Pending') {
-                    let cutOffTime: Date;
-                    if (appointment.cutOffTime) {
-                        cutOffTime = appointment.cutOffTime instanceof Date
-                            ? appointment.cutOffTime
-                            : appointment.cutOffTime?.toDate
-                                ? appointment.cutOffTime.toDate()
-                                : new Date(appointment.cutOffTime);
-                    } else {
-                        const appointmentDate = parse(appointment.date, 'd MMMM yyyy', new Date());
-                        const appointmentTime = parseTime(appointment.time, appointmentDate);
-                        cutOffTime = subMinutes(appointmentTime, 15);
-                    }
-                    if (isAfter(now, cutOffTime) || now.getTime() >= cutOffTime.getTime()) {
-                        appointmentsToSkip.push({ id: docSnapshot.id, appointment });
-                    }
-                } else if (appointment.status === 'Skipped') {
-                    let noShowTime: Date;
-                    if (appointment.noShowTime) {
-                        noShowTime = appointment.noShowTime instanceof Date
-                            ? appointment.noShowTime
-                            : appointment.noShowTime?.toDate
-                                ? appointment.noShowTime.toDate()
-                                : new Date(appointment.noShowTime);
-                    } else {
-                        const appointmentDate = parse(appointment.date, 'd MMMM yyyy', new Date());
-                        const appointmentTime = parseTime(appointment.time, appointmentDate);
-                        noShowTime = addMinutes(appointmentTime, 15);
-                    }
-                    if (isAfter(now, noShowTime) || now.getTime() >= noShowTime.getTime()) {
-                        appointmentsToMarkNoShow.push({ id: docSnapshot.id, appointment });
-                    }
-                }
-                return;
-            }
-
-            const consultationStatus = doctor.consultationStatus || 'Out';
-
-            if (appointment.status === 'Pending') {
-                // Use stored cutOffTime from database (includes doctor delay if any)
-                let cutOffTime: Date;
-                if (appointment.cutOffTime) {
-                    // Convert Firestore timestamp to Date
-                    cutOffTime = appointment.cutOffTime instanceof Date
-                        ? appointment.cutOffTime
-                        : appointment.cutOffTime?.toDate
-                            ? appointment.cutOffTime.toDate()
-                            : new Date(appointment.cutOffTime);
-                } else {
-                    // Fallback: calculate if not stored (for old appointments)
-                    const appointmentDate = parse(appointment.date, 'd MMMM yyyy', new Date());
-                    const appointmentTime = parseTime(appointment.time, appointmentDate);
-                    cutOffTime = subMinutes(appointmentTime, 15);
-                }
-
-                // Check if current time is greater than stored cutOffTime
-                const shouldSkipByTime = isAfter(now, cutOffTime) || now.getTime() >= cutOffTime.getTime();
-
-                if (shouldSkipByTime) {
-                    // If doctor is 'Out', check if cutOffTime is after the next upcoming availability start time
-                    if (consultationStatus === 'Out') {
-                        const nextAvailabilityStart = getNextUpcomingAvailabilityStartTime(doctor, now);
-
-                        if (nextAvailabilityStart) {
-                            // Only skip if cutOffTime is before or equal to availability start time
-                            // If cutOffTime is after availability start, don't skip (doctor hasn't started yet)
-                            if (isAfter(cutOffTime, nextAvailabilityStart) || cutOffTime.getTime() > nextAvailabilityStart.getTime()) {
-                                // cutOffTime is after availability start - don't skip
-
-                                return;
-                            }
-                        }
-                        // If no availability found or cutOffTime is before availability start, proceed with skip
-                    }
-
-                    // Doctor is 'In' or cutOffTime is before availability start - proceed with skip
-                    appointmentsToSkip.push({ id: docSnapshot.id, appointment });
-                }
-            } else if (appointment.status === 'Skipped') {
-                // Use stored noShowTime from database (includes doctor delay if any)
-                let noShowTime: Date;
-                if (appointment.noShowTime) {
-                    // Convert Firestore timestamp to Date
-                    noShowTime = appointment.noShowTime instanceof Date
-                        ? appointment.noShowTime
-                        : appointment.noShowTime?.toDate
-                            ? appointment.noShowTime.toDate()
-                            : new Date(appointment.noShowTime);
-                } else {
-                    // Fallback: calculate if not stored (for old appointments)
-                    const appointmentDate = parse(appointment.date, 'd MMMM yyyy', new Date());
-                    const appointmentTime = parseTime(appointment.time, appointmentDate);
-                    noShowTime = addMinutes(appointmentTime, 15);
-                }
+        const appointment = { ...docSnapshot.data(), id: docSnapshot.id } as Appointment;
+        appointmentsByDoctor.set(appointment.doctor, [...(appointmentsByDoctor.get(appointment.doctor) || []), appointment]);
+    });
 
-                // Check if current time is greater than stored noShowTime
-                const shouldMarkNoShow = isAfter(now, noShowTime) || now.getTime() >= noShowTime.getTime();
+    type StatusChange = { id: string; appointment: Appointment; changes: Partial<Appointment>; reason: string };
+    const appointmentsToSkip: StatusChange[] = [];
+    const appointmentsToMarkNoShow: StatusChange[] = [];
 
-                if (shouldMarkNoShow) {
-                    // Only mark as no-show if doctor is 'In'
-                    // If doctor is 'Out', don't mark as no-show (doctor hasn't started yet)
-                    if (consultationStatus === 'In') {
-                        appointmentsToMarkNoShow.push({ id: docSnapshot.id, appointment });
-                    } else {
+    appointmentsByDoctor.forEach((appointments, doctorName) => {
+        // Without the doctor's profile there is no session to wait for: treat them as In
+        const doctor = doctorsMap.get(doctorName) ?? ({ name: doctorName, consultationStatus: 'In' } as Doctor);
+        if (!doctorsMap.has(doctorName)) {
+            console.warn(`Doctor not found for ${appointments.length} appointment(s): ${doctorName}`);
+        }
 
-                    }
-                }
+        const transitions = planStatusTransitions({
+            doctor,
+            date,
+            slots: buildDaySlots(doctor, date, timeContext),
+            appointments,
+            walkInTokenAllotment: 0,
+            timeContext,
+        }, now);
+
+        transitions.forEach(transition => {
+            if (transition.type !== 'update') return;
+            const appointment = appointments.find(appt => appt.id === transition.appointmentId);
+            if (!appointment) return;
+            const { changes } = transition;
+            if (changes.status === 'Skipped') {
+                appointmentsToSkip.push({ id: appointment.id, appointment, changes, reason: `Not arrived by cut-off for ${appointment.time}` });
+            } else if (changes.status === 'No-show') {
+                appointmentsToMarkNoShow.push({ id: appointment.id, appointment, changes, reason: `Not arrived by no-show time for ${appointment.time} with the doctor In` });
             }
-        } catch (error) {
-            console.error('Error processing appointment:', docSnapshot.id, error);
-        }
+        });
     });
 
     // Update Pending → Skipped
@@ -192,13 +127,8 @@ async function updateAppointmentStatuses(clinicId: string): Promise<void> {
 
         const batch = writeBatch(db);
 
-        appointmentsToSkip.forEach(({ id }) => {
-            const appointmentRef = doc(db, 'appointments', id);
-            batch.update(appointmentRef, {
-                status: 'Skipped',
-                skippedAt: new Date(),
-                updatedAt: new Date()
-            });
+        appointmentsToSkip.forEach(({ id, appointment, changes, reason }) => {
+            applyAppointmentMutation(batch, db, { ...appointment, id }, changes, { action: 'skipped', actor: getSystemActor(db, 'Status updater'), source: 'system', reason });
         });
 
         await batch.commit();
@@ -225,6 +155,8 @@ async function updateAppointmentStatuses(clinicId: string): Promise<void> {
                     date: appointment.date,
                     time: appointment.time,
                     tokenNumber: appointment.tokenNumber || 'N/A',
+                    clinicId,
+                    timeContext,
                 });
 
             } catch (notifError) {
@@ -239,12 +171,8 @@ async function updateAppointmentStatuses(clinicId: string): Promise<void> {
 
         const batch = writeBatch(db);
 
-        appointmentsToMarkNoShow.forEach(({ id }) => {
-            const appointmentRef = doc(db, 'appointments', id);
-            batch.update(appointmentRef, {
-                status: 'No-show',
-                updatedAt: new Date()
-            });
+        appointmentsToMarkNoShow.forEach(({ id, appointment, changes, reason }) => {
+            applyAppointmentMutation(batch, db, { ...appointment, id }, changes, { action: 'no_show', actor: getSystemActor(db, 'Status updater'), source: 'system', reason });
         });
 
         await batch.commit();
@@ -273,7 +201,7 @@ async function updateAppointmentStatuses(clinicId: string): Promise<void> {
                     db,
                     group.clinicId,
                     group.doctorName,
-                    parse(group.date, 'd MMMM yyyy', new Date())
+                    parseClinicDate(group.date, timeContext)
                 );
             } catch (rebalanceError) {
                 console.error('Failed to rebalance walk-in schedule after marking no-show:', rebalanceError, group);
@@ -282,66 +210,13 @@ async function updateAppointmentStatuses(clinicId: string): Promise<void> {
     }
 }
 
-// Helper function to parse time string
-function parseTime(timeStr: string, referenceDate: Date): Date {
-    try {
-        return parse(timeStr, 'hh:mm a', referenceDate);
-    } catch {
-        // Fallback to 24h format
-        const [hours, minutes] = timeStr.split(':').map(Number);
-        const date = new Date(referenceDate);
-        date.setHours(hours, minutes, 0, 0);
-        return date;
-    }
-}
-
-/**
- * Gets the next upcoming availability start time for a doctor today
- * Returns the start time of the first session that hasn't ended yet, or null if none found
- */
-function getNextUpcomingAvailabilityStartTime(doctor: Doctor, now: Date): Date | null {
-    if (!doctor.availabilitySlots || doctor.availabilitySlots.length === 0) {
-        return null;
-    }
-
-    const todayDay = getClinicDayOfWeek(now);
-    const todayAvailability = doctor.availabilitySlots.find((slot: { day: string; timeSlots?: Array<{ from: string; to: string }> }) =>
-        slot.day.toLowerCase() === todayDay.toLowerCase()
-    );
-
-    if (!todayAvailability || !todayAvailability.timeSlots || todayAvailability.timeSlots.length === 0) {
-        return null;
-    }
-
-    // Find the next session (first session that hasn't ended yet)
-    for (let i = 0; i < todayAvailability.timeSlots.length; i++) {
-        const session = todayAvailability.timeSlots[i];
-        try {
-            const sessionStart = parseTime(session.from, now);
-            const sessionEnd = parseTime(session.to, now);
-
-            // If current time is before session end, this is the next session
-            if (isBefore(now, sessionEnd) || now.getTime() === sessionEnd.getTime()) {
-                return sessionStart;
-            }
-        } catch (error) {
-            // Skip if parsing fails
-            console.warn(`Error parsing session time for doctor ${doctor.name}:`, error);
-            continue;
-        }
-    }
-
-    // No upcoming session found (all sessions have ended)
-    return null;
-}
-
 /**
  * Updates doctor consultation status to 'Out' if current time is outside their availability
  */
-async function updateDoctorConsultationStatuses(clinicId: string): Promise<void> {
+async function updateDoctorConsultationStatuses(clinicId: string, timeContext: ClinicTimeContext): Promise<void> {
     const now = new Date();
-    const currentTime = getClinic24hTimeString(now);
-    const currentDay = getClinicDayOfWeek(now); // e.g., 'Monday', 'Tuesday'
+    const currentTime = getClinic24hTimeString(now, timeContext);
+    const currentDay = getClinicDayOfWeek(now, timeContext); // e.g., 'Monday', 'Tuesday'
 
 
 
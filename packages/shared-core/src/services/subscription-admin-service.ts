@@ -0,0 +1,89 @@
+import type { Firestore } from 'firebase-admin/firestore';
+import type { Clinic, User } from '@kloqo/shared-types';
+import { getStaffRole } from './access-control-service';
+import { FREE_TEXT_TEMPLATE, isBillableMessage } from './message-templates';
+import { getWhatsAppCreditUpdate } from './subscription-service';
+
+const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface MessageSender {
+  uid: string;
+  worker?: boolean; // the server worker's custom claim
+}
+
+export type MessageBilling =
+  | { ok: true; clinicId: string | null; billable: boolean }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Admin version of WhatsApp metering, for /api/send-sms. Books one paid template
+ * against the clinic's plan and returns false when the clinic is locked or out of
+ * credits. Errors are thrown, so a message is never sent unmetered.
+ * Legacy clinics without a subscription are not metered.
+ */
+export async function consumeWhatsAppCreditAdmin(firestore: Firestore, clinicId: string): Promise<boolean> {
+  const clinicRef = firestore.collection('clinics').doc(clinicId);
+
+  return firestore.runTransaction(async (transaction) => {
+    const clinicSnap = await transaction.get(clinicRef);
+    const subscription = clinicSnap.exists ? (clinicSnap.data() as Clinic).subscription : undefined;
+    if (!subscription) return true;
+
+    const update = getWhatsAppCreditUpdate(subscription);
+    if (!update) {
+      console.warn(`[Subscription] Clinic ${clinicId} is locked or out of WhatsApp credits. Blocking paid template.`);
+      return false;
+    }
+
+    transaction.update(clinicRef, update);
+    return true;
+  });
+}
+
+/**
+ * Admin version of WhatsAppSessionService.isWindowOpen: whether the patient wrote to
+ * us in the last 24 hours. Sessions are keyed by the number with a +, or without one
+ * for legacy sessions.
+ */
+export async function isWhatsAppWindowOpenAdmin(firestore: Firestore, phoneNumber: string): Promise<boolean> {
+  const normalized = phoneNumber.trim().startsWith('+') ? phoneNumber.trim() : `+${phoneNumber.trim()}`;
+  for (const sessionId of [normalized, normalized.slice(1)]) {
+    const session = await firestore.collection('whatsapp_sessions').doc(sessionId).get();
+    if (!session.exists) continue;
+    const lastMessageAt = session.data()?.lastMessageAt;
+    return !!lastMessageAt && Date.now() - lastMessageAt.toDate().getTime() < SESSION_WINDOW_MS;
+  }
+  return false;
+}
+
+/**
+ * Decides who pays for a message sent through /api/send-sms. Staff may only send for
+ * their own clinic, which is looked up here; the server worker sends outbox entries,
+ * whose clinic the rules checked when they were queued, and platform messages with no
+ * clinic. Whether the message is billable comes from isBillableMessage.
+ */
+export async function resolveMessageBilling(
+  firestore: Firestore,
+  sender: MessageSender,
+  message: { to: string; channel: 'whatsapp' | 'sms'; templateName?: string; clinicId?: string }
+): Promise<MessageBilling> {
+  let clinicId = message.clinicId || null;
+  if (sender.worker !== true) {
+    const user = (await firestore.collection('users').doc(sender.uid).get()).data() as User | undefined;
+    if (!user || !getStaffRole(user) || !user.clinicId) {
+      return { ok: false, status: 403, error: 'Only clinic staff may send messages.' };
+    }
+    if (clinicId && clinicId !== user.clinicId) {
+      return { ok: false, status: 403, error: 'Staff may only send messages for their own clinic.' };
+    }
+    clinicId = user.clinicId;
+  }
+
+  const sessionOpen = message.channel === 'whatsapp' && await isWhatsAppWindowOpenAdmin(firestore, message.to);
+  const isFreeText = message.channel === 'whatsapp' && (!message.templateName || message.templateName === FREE_TEXT_TEMPLATE);
+  if (isFreeText && !sessionOpen) {
+    return { ok: false, status: 400, error: 'Free text is only sent inside the 24-hour session window. Use a template.' };
+  }
+
+  return { ok: true, clinicId, billable: isBillableMessage(message.channel, message.templateName, sessionOpen) };
+}
@@ -0,0 +1,312 @@
+/**
+ * Subscription Service
+ *
+ * Ties a clinic to a Kloqo plan. The plan sets the doctor and staff-login
+ * limits and how many paid WhatsApp templates the clinic may send each month.
+ * A subscription stays usable for GRACE_PERIOD_DAYS after its renewal date and
+ * is locked after that. Clinics without a subscription are on the legacy free
+ * plan and are not metered. Clinics cannot write their own subscription; paid
+ * templates are booked by /api/send-sms (see subscription-admin-service).
+ */
+
+import { doc, runTransaction, serverTimestamp, updateDoc, type Firestore } from 'firebase/firestore';
+import { addDays, addMonths, addYears, differenceInMinutes, endOfMonth, format, isAfter, subMonths } from 'date-fns';
+import type {
+  Clinic,
+  Subscription,
+  SubscriptionPlanId,
+  SubscriptionStatus,
+  SubscriptionTerm,
+} from '@kloqo/shared-types';
+import { getClinicNow, parseClinicDate } from '../utils/date-utils';
+
+/** Days a clinic can keep working after the renewal date before it is locked */
+export const GRACE_PERIOD_DAYS = 7;
+
+export interface SubscriptionPlan {
+  id: SubscriptionPlanId;
+  name: string;
+  annualPrice: number;
+  monthlyPrice: number;
+  maxDoctors: number;
+  maxSeats: number;
+  whatsappMonthlyQuota: number;
+  whatsappStarterCredits: number; // one-off pack credited on the first purchase
+}
+
+export const SUBSCRIPTION_PLANS: Record<SubscriptionPlanId, SubscriptionPlan> = {
+  starter: {
+    id: 'starter',
+    name: 'Starter',
+    annualPrice: 11999,
+    monthlyPrice: 999,
+    maxDoctors: 1,
+    maxSeats: 1,
+    whatsappMonthlyQuota: 0,
+    whatsappStarterCredits: 2000,
+  },
+  growth: {
+    id: 'growth',
+    name: 'Growth',
+    annualPrice: 17999,
+    monthlyPrice: 1499,
+    maxDoctors: 3,
+    maxSeats: 2,
+    whatsappMonthlyQuota: 1000,
+    whatsappStarterCredits: 0,
+  },
+  pro: {
+    id: 'pro',
+    name: 'Pro Bundle',
+    annualPrice: 24999,
+    monthlyPrice: 2083,
+    maxDoctors: 5,
+    maxSeats: 4,
+    whatsappMonthlyQuota: 2000,
+    whatsappStarterCredits: 0,
+  },
+};
+
+export interface SubscriptionState {
+  status: SubscriptionStatus;
+  daysUntilRenewal: number;   // whole days left in the term, negative once it has ended
+  lockDate: Date;             // end of the grace period
+}
+
+export interface SubscriptionRevenue {
+  mrr: number;
+  arr: number;
+  activeSubscriptions: number;
+  byPlan: Record<SubscriptionPlanId, number>; // MRR per plan
+}
+
+export interface MonthlySubscriptionRevenue {
+  month: string; // "yyyy-MM"
+  mrr: number;
+  activeSubscriptions: number;
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * A fresh subscription for `plan` starting on `startDate`
+ */
+export function buildSubscription(plan: SubscriptionPlanId, term: SubscriptionTerm, startDate: Date): Subscription {
+  const details = SUBSCRIPTION_PLANS[plan];
+  const renewalDate = term === 'annual' ? addYears(startDate, 1) : addMonths(startDate, 1);
+
+  return {
+    plan,
+    term,
+    price: term === 'annual' ? details.annualPrice : details.monthlyPrice,
+    maxDoctors: details.maxDoctors,
+    maxSeats: details.maxSeats,
+    whatsappMonthlyQuota: details.whatsappMonthlyQuota,
+    whatsappPackCredits: details.whatsappStarterCredits,
+    startDate: format(startDate, 'd MMMM yyyy'),
+    renewalDate: format(renewalDate, 'd MMMM yyyy'),
+    gracePeriodDays: GRACE_PERIOD_DAYS,
+  };
+}
+
+/**
+ * Where a subscription stands on `now`. The renewal day itself is still Active.
+ */
+export function getSubscriptionState(subscription: Subscription, now: Date = getClinicNow()): SubscriptionState {
+  // Clinic midnight at the end of the renewal day
+  const termEnd = addDays(parseClinicDate(subscription.renewalDate), 1);
+  const lockDate = addDays(termEnd, subscription.gracePeriodDays);
+  const daysUntilRenewal = Math.floor(differenceInMinutes(termEnd, now) / (24 * 60));
+
+  let status: SubscriptionStatus;
+  if (subscription.cancelled) {
+    status = 'Cancelled';
+  } else if (isAfter(termEnd, now)) {
+    status = 'Active';
+  } else if (isAfter(lockDate, now)) {
+    status = 'GracePeriod';
+  } else {
+    status = 'Locked';
+  }
+
+  return { status, daysUntilRenewal, lockDate };
+}
+
+export function isSubscriptionLocked(subscription: Subscription | undefined, now: Date = getClinicNow()): boolean {
+  if (!subscription) return false;
+  const { status } = getSubscriptionState(subscription, now);
+  return status === 'Locked' || status === 'Cancelled';
+}
+
+/**
+ * How many doctors the clinic may have. Legacy clinics keep their registered numDoctors.
+ */
+export function getDoctorLimit(clinic: { numDoctors?: number; subscription?: Subscription }): number {
+  return clinic.subscription?.maxDoctors ?? clinic.numDoctors ?? 1;
+}
+
+/**
+ * How many staff logins the clinic may have, or null for legacy clinics, which are not limited
+ */
+export function getSeatLimit(clinic: { subscription?: Subscription }): number | null {
+  return clinic.subscription?.maxSeats ?? null;
+}
+
+/**
+ * Decides where the next paid WhatsApp template is billed: the monthly quota,
+ * the prepaid pack, or nowhere (null, the message must not be sent).
+ */
+export function getWhatsAppCreditSource(subscription: Subscription, month: string): 'quota' | 'pack' | null {
+  const used = subscription.whatsappUsage?.month === month ? subscription.whatsappUsage.count : 0;
+  if (used < subscription.whatsappMonthlyQuota) return 'quota';
+  if ((subscription.whatsappPackCredits ?? 0) > 0) return 'pack';
+  return null;
+}
+
+/**
+ * The clinic field updates that book one paid WhatsApp template against the plan,
+ * or null when the clinic is locked or out of credits and the message must not be sent
+ */
+export function getWhatsAppCreditUpdate(
+  subscription: Subscription,
+  now: Date = getClinicNow()
+): Record<string, unknown> | null {
+  if (isSubscriptionLocked(subscription, now)) return null;
+
+  const month = format(now, 'yyyy-MM');
+  const source = getWhatsAppCreditSource(subscription, month);
+  if (source === 'quota') {
+    const used = subscription.whatsappUsage?.month === month ? subscription.whatsappUsage.count : 0;
+    return { 'subscription.whatsappUsage': { month, count: used + 1 } };
+  }
+  if (source === 'pack') {
+    return { 'subscription.whatsappPackCredits': (subscription.whatsappPackCredits ?? 0) - 1 };
+  }
+  return null;
+}
+
+/**
+ * Monthly recurring revenue from one subscription; nothing once it is locked or cancelled
+ */
+export function getSubscriptionMrr(subscription: Subscription, now: Date = getClinicNow()): number {
+  const { status } = getSubscriptionState(subscription, now);
+  if (status === 'Locked' || status === 'Cancelled') return 0;
+  return subscription.term === 'annual' ? subscription.price / 12 : subscription.price;
+}
+
+export function summarizeSubscriptionRevenue(
+  clinics: Pick<Clinic, 'subscription'>[],
+  now: Date = getClinicNow()
+): SubscriptionRevenue {
+  const byPlan: Record<SubscriptionPlanId, number> = { starter: 0, growth: 0, pro: 0 };
+  let activeSubscriptions = 0;
+
+  for (const clinic of clinics) {
+    if (!clinic.subscription) continue;
+    const mrr = getSubscriptionMrr(clinic.subscription, now);
+    if (mrr <= 0) continue;
+    byPlan[clinic.subscription.plan] += mrr;
+    activeSubscriptions++;
+  }
+
+  const mrr = Math.round(byPlan.starter + byPlan.growth + byPlan.pro);
+  return { mrr, arr: mrr * 12, activeSubscriptions, byPlan };
+}
+
+/**
+ * MRR at the end of each of the last `months` months, oldest first. A subscription
+ * counts from its start date; cancellations carry no date, so a cancelled
+ * subscription drops out of every month.
+ */
+export function getSubscriptionRevenueHistory(
+  clinics: Pick<Clinic, 'subscription'>[],
+  months: number,
+  now: Date = getClinicNow()
+): MonthlySubscriptionRevenue[] {
+  const history: MonthlySubscriptionRevenue[] = [];
+
+  for (let i = months - 1; i >= 0; i--) {
+    const monthEnd = i === 0 ? now : endOfMonth(subMonths(now, i));
+    const started = clinics.filter(
+      clinic => clinic.subscription && !isAfter(parseClinicDate(clinic.subscription.startDate), monthEnd)
+    );
+    const revenue = summarizeSubscriptionRevenue(started, monthEnd);
+    history.push({
+      month: format(monthEnd, 'yyyy-MM'),
+      mrr: revenue.mrr,
+      activeSubscriptions: revenue.activeSubscriptions,
+    });
+  }
+
+  return history;
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+/**
+ * Puts a clinic on a plan starting `startDate`, replacing any current subscription
+ */
+export async function assignClinicSubscription(
+  firestore: Firestore,
+  clinicId: string,
+  plan: SubscriptionPlanId,
+  term: SubscriptionTerm,
+  startDate: Date = getClinicNow()
+): Promise<Subscription> {
+  const subscription = buildSubscription(plan, term, startDate);
+  await updateDoc(doc(firestore, 'clinics', clinicId), {
+    subscription: { ...subscription, updatedAt: serverTimestamp() },
+    plan: SUBSCRIPTION_PLANS[plan].name,
+  });
+  return subscription;
+}
+
+/**
+ * Extends the subscription by one term. A lapsed subscription renews from today.
+ */
+export async function renewClinicSubscription(firestore: Firestore, clinicId: string): Promise<Subscription> {
+  return runTransaction(firestore, async (transaction) => {
+    const clinicRef = doc(firestore, 'clinics', clinicId);
+    const clinicSnap = await transaction.get(clinicRef);
+    const current = clinicSnap.exists() ? (clinicSnap.data() as Clinic).subscription : undefined;
+    if (!current) {
+      throw new Error('This clinic has no subscription to renew.');
+    }
+
+    const now = getClinicNow();
+    const renewalDate = parseClinicDate(current.renewalDate);
+    const from = isAfter(renewalDate, now) ? renewalDate : now;
+    const renewed: Subscription = {
+      ...current,
+      cancelled: false,
+      renewalDate: format(current.term === 'annual' ? addYears(from, 1) : addMonths(from, 1), 'd MMMM yyyy'),
+    };
+    transaction.update(clinicRef, { subscription: { ...renewed, updatedAt: serverTimestamp() } });
+    return renewed;
+  });
+}
+
+export async function cancelClinicSubscription(firestore: Firestore, clinicId: string): Promise<void> {
+  await updateDoc(doc(firestore, 'clinics', clinicId), {
+    'subscription.cancelled': true,
+    'subscription.updatedAt': serverTimestamp(),
+  });
+}
+
+export async function addWhatsAppPackCredits(firestore: Firestore, clinicId: string, credits: number): Promise<void> {
+  await runTransaction(firestore, async (transaction) => {
+    const clinicRef = doc(firestore, 'clinics', clinicId);
+    const clinicSnap = await transaction.get(clinicRef);
+    const subscription = clinicSnap.exists() ? (clinicSnap.data() as Clinic).subscription : undefined;
+    if (!subscription) {
+      throw new Error('This clinic has no subscription.');
+    }
+    transaction.update(clinicRef, {
+      'subscription.whatsappPackCredits': (subscription.whatsappPackCredits ?? 0) + credits,
+    });
+  });
+}
@@ -0,0 +1,490 @@
+/**
+ * Waitlist Service
+ *
+ * Per-doctor, per-session waitlist for fully booked sessions.
+ * When a slot frees up (cancellation, No-show), the first waiting patient is
+ * offered the earliest bookable slot in that session. The slot is held for
+ * WAITLIST_OFFER_HOLD_MINUTES through a slot reservation with `heldUntil`;
+ * if the offer is not accepted in time it passes to the next patient.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  where,
+  writeBatch,
+  type Firestore,
+} from 'firebase/firestore';
+import { addMinutes, isBefore } from 'date-fns';
+import type { Appointment, Clinic, Doctor, WaitlistEntry } from '@kloqo/shared-types';
+import { createSessionRatioResolver, type SessionAdvanceRatio } from './capacity-service';
+import { buildDaySlots, toEngineDate } from './scheduling-engine';
+import { buildCandidateSlots, buildOccupiedSlotSet, getAttendanceWindow, type DailySlot } from './day-slots';
+import { generateNextTokenAndReserveSlot, getLeaveBlockedIndices } from './appointment-service';
+import { sendWaitlistOfferNotification } from './notification-service';
+import { parseTime } from '../utils/break-helpers';
+import { getClinicDateString, getClinicISOString, getClinicNow, getClinicTimeContext, getClinicTimeString, parseClinicDate, type ClinicTimeContext } from '../utils/date-utils';
+import { buildReservationDocId, isReservationHeld } from '../utils/reservation-utils';
+import { postToNurseApp } from '../utils/nurse-app-api';
+
+declare const window: any;
+
+/** How long an offered slot stays held for the waitlisted patient */
+export const WAITLIST_OFFER_HOLD_MINUTES = 10;
+
+const OPEN_STATUSES: WaitlistEntry['status'][] = ['Waiting', 'Offered'];
+
+export type JoinWaitlistInput = Pick<
+  WaitlistEntry,
+  'clinicId' | 'doctorId' | 'doctorName' | 'date' | 'sessionIndex' | 'patientId' | 'patientName' | 'communicationPhone' | 'age' | 'sex' | 'place'
+>;
+
+export interface WaitlistSessionState {
+  sessionIndex: number;
+  slots: DailySlot[];
+  appointments: Appointment[];
+  entries: WaitlistEntry[];
+  blockedIndices?: number[];
+  advanceRatio?: SessionAdvanceRatio;
+  timeContext?: ClinicTimeContext;  // the clinic's clock for the offered time
+}
+
+export interface WaitlistOffer {
+  entryId: string;
+  slotIndex: number;
+  time: string;
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+export function isWaitlistOfferExpired(entry: Pick<WaitlistEntry, 'status' | 'offerExpiresAt'>, now: Date): boolean {
+  if (entry.status !== 'Offered') return false;
+  const expiresAt = toEngineDate(entry.offerExpiresAt);
+  return !expiresAt || !isBefore(now, expiresAt);
+}
+
+/**
+ * Works out which offers have lapsed and which waiting patients get a slot.
+ *
+ * Waiting patients are served first come, first served. Slots already held by a
+ * live offer are not offered again, and candidates follow the advance booking
+ * rules (30 minute buffer, walk-in reserve, blocked slots).
+ */
+export function planWaitlistOffers(
+  state: WaitlistSessionState,
+  now: Date
+): { expiredEntryIds: string[]; offers: WaitlistOffer[] } {
+  const expiredEntryIds = state.entries
+    .filter(entry => isWaitlistOfferExpired(entry, now))
+    .map(entry => entry.id);
+
+  const occupied = buildOccupiedSlotSet(state.appointments);
+  state.blockedIndices?.forEach(index => occupied.add(index));
+  state.entries
+    .filter(entry => entry.status === 'Offered' && !expiredEntryIds.includes(entry.id))
+    .forEach(entry => {
+      if (typeof entry.offeredSlotIndex === 'number') occupied.add(entry.offeredSlotIndex);
+    });
+
+  // Candidates are built over the whole day: slot indices are absolute across sessions
+  const sessionSlots = state.slots.filter(slot => slot.sessionIndex === state.sessionIndex);
+  const candidates = buildCandidateSlots('A', state.slots, now, occupied, undefined, {
+    advanceRatio: state.advanceRatio,
+  }).filter(index => sessionSlots.some(slot => slot.index === index));
+
+  const waiting = state.entries
+    .filter(entry => entry.status === 'Waiting')
+    .sort((a, b) => (toEngineDate(a.createdAt)?.getTime() ?? 0) - (toEngineDate(b.createdAt)?.getTime() ?? 0));
+
+  const offers = waiting.slice(0, candidates.length).map((entry, i) => {
+    const slot = sessionSlots.find(s => s.index === candidates[i])!;
+    return { entryId: entry.id, slotIndex: slot.index, time: getClinicTimeString(slot.time, state.timeContext) };
+  });
+
+  return { expiredEntryIds, offers };
+}
+
+// ============================================================================
+// FIRESTORE
+// ============================================================================
+
+function reservationRefFor(firestore: Firestore, entry: WaitlistEntry, slotIndex: number) {
+  return doc(firestore, 'slot-reservations', buildReservationDocId(entry.clinicId, entry.doctorName, entry.date, slotIndex));
+}
+
+async function getWaitlistEntry(firestore: Firestore, entryId: string): Promise<WaitlistEntry> {
+  const entrySnap = await getDoc(doc(firestore, 'waitlist', entryId));
+  if (!entrySnap.exists()) {
+    throw new Error('Waitlist entry not found.');
+  }
+  return { id: entrySnap.id, ...entrySnap.data() } as WaitlistEntry;
+}
+
+/**
+ * Releases the slot held for an offer, unless someone has booked it since
+ */
+async function releaseHeldSlot(firestore: Firestore, entry: WaitlistEntry): Promise<void> {
+  if (typeof entry.offeredSlotIndex !== 'number') return;
+  const reservationRef = reservationRefFor(firestore, entry, entry.offeredSlotIndex);
+  await runTransaction(firestore, async transaction => {
+    const reservationDoc = await transaction.get(reservationRef);
+    if (reservationDoc.exists() && reservationDoc.data()?.waitlistEntryId === entry.id && reservationDoc.data()?.status !== 'booked') {
+      transaction.delete(reservationRef);
+    }
+  });
+}
+
+/**
+ * Adds a patient to the waitlist of a fully booked session
+ */
+export async function joinWaitlist(firestore: Firestore, input: JoinWaitlistInput): Promise<WaitlistEntry> {
+  const existing = await getDocs(query(
+    collection(firestore, 'waitlist'),
+    where('patientId', '==', input.patientId),
+    where('doctorId', '==', input.doctorId),
+    where('date', '==', input.date),
+    where('status', 'in', OPEN_STATUSES)
+  ));
+  if (existing.docs.some(d => d.data().sessionIndex === input.sessionIndex)) {
+    throw new Error('You are already on the waitlist for this session.');
+  }
+
+  const entryRef = doc(collection(firestore, 'waitlist'));
+  const entry: WaitlistEntry = { ...input, id: entryRef.id, status: 'Waiting' };
+  const entryData = Object.fromEntries(Object.entries(entry).filter(([_, v]) => v !== undefined));
+  await setDoc(entryRef, { ...entryData, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+
+  return entry;
+}
+
+/**
+ * Expires lapsed offers for one session and offers free slots to the next
+ * waiting patients. Returns the number of new offers sent.
+ */
+export async function promoteWaitlist(
+  firestore: Firestore,
+  params: { clinicId: string; doctorId: string; date: string; sessionIndex: number }
+): Promise<number> {
+  const { clinicId, doctorId, date, sessionIndex } = params;
+
+  const entriesSnap = await getDocs(query(
+    collection(firestore, 'waitlist'),
+    where('clinicId', '==', clinicId),
+    where('doctorId', '==', doctorId),
+    where('date', '==', date),
+    where('status', 'in', OPEN_STATUSES)
+  ));
+  const entries = entriesSnap.docs
+    .map(d => ({ id: d.id, ...d.data() } as WaitlistEntry))
+    .filter(entry => entry.sessionIndex === sessionIndex);
+  if (entries.length === 0) return 0;
+
+  const doctorSnap = await getDoc(doc(firestore, 'doctors', doctorId));
+  if (!doctorSnap.exists()) {
+    throw new Error('Doctor not found.');
+  }
+  const doctor = { id: doctorSnap.id, ...doctorSnap.data() } as Doctor;
+  const clinicSnap = await getDoc(doc(firestore, 'clinics', clinicId));
+  const clinic = clinicSnap.exists() ? (clinicSnap.data() as Clinic) : null;
+  const timeContext = getClinicTimeContext(clinic);
+
+  const now = getClinicNow();
+  const day = parseClinicDate(date, timeContext);
+  const slots = buildDaySlots(doctor, day, timeContext);
+  const appointmentsSnap = await getDocs(query(
+    collection(firestore, 'appointments'),
+    where('clinicId', '==', clinicId),
+    where('doctor', '==', doctor.name),
+    where('date', '==', date)
+  ));
+
+  const { expiredEntryIds, offers } = planWaitlistOffers({
+    sessionIndex,
+    slots,
+    appointments: appointmentsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Appointment)),
+    entries,
+    blockedIndices: getLeaveBlockedIndices(doctor, slots, day, timeContext),
+    advanceRatio: createSessionRatioResolver(doctor, day, clinic?.capacityPolicy, timeContext),
+    timeContext,
+  }, now);
+
+  for (const entryId of expiredEntryIds) {
+    const entry = entries.find(e => e.id === entryId)!;
+    await releaseHeldSlot(firestore, entry);
+    await updateDoc(doc(firestore, 'waitlist', entryId), { status: 'Expired', updatedAt: serverTimestamp() });
+  }
+
+  let offered = 0;
+  for (const offer of offers) {
+    const entry = entries.find(e => e.id === offer.entryId)!;
+    const offerExpiresAt = addMinutes(now, WAITLIST_OFFER_HOLD_MINUTES);
+    const reservationRef = reservationRefFor(firestore, entry, offer.slotIndex);
+
+    const held = await runTransaction(firestore, async transaction => {
+      const reservationDoc = await transaction.get(reservationRef);
+      if (reservationDoc.exists()) {
+        const reservationData = reservationDoc.data();
+        const reservedAt = toEngineDate(reservationData?.reservedAt);
+        const isFresh = reservedAt && (now.getTime() - reservedAt.getTime()) / 1000 <= 30;
+        if (isFresh || isReservationHeld(reservationData, now)) {
+          return false; // Someone is booking this slot right now
+        }
+      }
+
+      transaction.set(reservationRef, {
+        clinicId: entry.clinicId,
+        doctorName: entry.doctorName,
+        date: entry.date,
+        slotIndex: offer.slotIndex,
+        reservedAt: serverTimestamp(),
+        reservedBy: 'waitlist-offer',
+        waitlistEntryId: entry.id,
+        heldUntil: offerExpiresAt,
+      });
+      transaction.update(doc(firestore, 'waitlist', entry.id), {
+        status: 'Offered',
+        offeredSlotIndex: offer.slotIndex,
+        offeredTime: offer.time,
+        offerExpiresAt,
+        updatedAt: serverTimestamp(),
+      });
+      return true;
+    });
+    if (!held) continue;
+
+    offered++;
+    try {
+      await sendWaitlistOfferNotification({
+        firestore,
+        patientId: entry.patientId,
+        waitlistEntryId: entry.id,
+        clinicId,
+        doctorName: entry.doctorName,
+        clinicName: clinic?.name || 'The clinic',
+        date: entry.date,
+        time: offer.time,
+        holdMinutes: WAITLIST_OFFER_HOLD_MINUTES,
+        communicationPhone: entry.communicationPhone,
+        patientName: entry.patientName,
+      });
+    } catch (error) {
+      console.error(`[Waitlist] Failed to notify patient for waitlist entry ${entry.id}:`, error);
+    }
+  }
+
+  if (offered > 0 || expiredEntryIds.length > 0) {
+    console.log(`[Waitlist] Dr. ${doctor.name} ${date} session ${sessionIndex}: ${expiredEntryIds.length} expired, ${offered} offered`);
+  }
+  return offered;
+}
+
+/**
+ * Offers the slots freed in a session to its waitlist. Offers are written by the
+ * server worker, so browsers ask the nurse app's /api/waitlist/promote route; if
+ * that fails the next status sweep makes them instead.
+ */
+export async function requestWaitlistPromotion(
+  firestore: Firestore,
+  params: { clinicId: string; doctorId: string; date: string; sessionIndex: number }
+): Promise<void> {
+  if (typeof window === 'undefined') {
+    await promoteWaitlist(firestore, params);
+    return;
+  }
+
+  try {
+    const response = await postToNurseApp(firestore, '/api/waitlist/promote', params);
+    if (!response?.ok) {
+      console.warn('[Waitlist] Promotion request failed; the status sweep will pick it up:', response?.result.error, params);
+    }
+  } catch (error) {
+    console.error('[Waitlist] Error requesting waitlist promotion:', error, params);
+  }
+}
+
+/**
+ * Runs waitlist promotion for every session of a clinic with open entries.
+ * Entries for past days are closed. Called from updateAppointmentAndDoctorStatuses,
+ * so freed slots and lapsed offers are picked up on every status sweep.
+ */
+export async function processWaitlists(firestore: Firestore, clinicId: string): Promise<void> {
+  const entriesSnap = await getDocs(query(
+    collection(firestore, 'waitlist'),
+    where('clinicId', '==', clinicId),
+    where('status', 'in', OPEN_STATUSES)
+  ));
+  if (entriesSnap.empty) return;
+
+  const clinicSnap = await getDoc(doc(firestore, 'clinics', clinicId));
+  const timeContext = getClinicTimeContext(clinicSnap.exists() ? (clinicSnap.data() as Clinic) : null);
+  const today = parseClinicDate(getClinicDateString(getClinicNow(), timeContext), timeContext);
+  const sessions = new Map<string, { doctorId: string; date: string; sessionIndex: number }>();
+  const batch = writeBatch(firestore);
+  let hasPastEntries = false;
+
+  entriesSnap.docs.forEach(entryDoc => {
+    const entry = { id: entryDoc.id, ...entryDoc.data() } as WaitlistEntry;
+    if (isBefore(parseClinicDate(entry.date, timeContext), today)) {
+      batch.update(entryDoc.ref, { status: 'Expired', updatedAt: serverTimestamp() });
+      hasPastEntries = true;
+      return;
+    }
+    sessions.set(`${entry.doctorId}|${entry.date}|${entry.sessionIndex}`, {
+      doctorId: entry.doctorId,
+      date: entry.date,
+      sessionIndex: entry.sessionIndex,
+    });
+  });
+
+  if (hasPastEntries) {
+    await batch.commit();
+  }
+
+  for (const session of sessions.values()) {
+    try {
+      await promoteWaitlist(firestore, { clinicId, ...session });
+    } catch (error) {
+      console.error('[Waitlist] Failed to promote waitlist:', error, session);
+    }
+  }
+}
+
+/**
+ * Books the offered slot for the waitlisted patient. Returns the new appointment.
+ */
+export async function acceptWaitlistOffer(firestore: Firestore, entryId: string): Promise<Appointment> {
+  const entry = await getWaitlistEntry(firestore, entryId);
+  if (entry.status !== 'Offered' || typeof entry.offeredSlotIndex !== 'number' || !entry.offeredTime) {
+    throw new Error('This slot offer is no longer available.');
+  }
+  if (isWaitlistOfferExpired(entry, getClinicNow())) {
+    throw new Error('This slot offer has expired.');
+  }
+
+  const doctorSnap = await getDoc(doc(firestore, 'doctors', entry.doctorId));
+  if (!doctorSnap.exists()) {
+    throw new Error('Doctor not found.');
+  }
+  const doctor = { id: doctorSnap.id, ...doctorSnap.data() } as Doctor;
+  const clinicSnap = await getDoc(doc(firestore, 'clinics', entry.clinicId));
+  const timeContext = getClinicTimeContext(clinicSnap.exists() ? (clinicSnap.data() as Clinic) : null);
+
+  const day = parseClinicDate(entry.date, timeContext);
+  const tokenData = await generateNextTokenAndReserveSlot(
+    firestore,
+    entry.clinicId,
+    entry.doctorName,
+    parseTime(entry.offeredTime, day, timeContext),
+    'A',
+    {
+      time: entry.offeredTime,
+      slotIndex: entry.offeredSlotIndex,
+      doctorId: entry.doctorId,
+      waitlistEntryId: entry.id,
+    },
+    timeContext
+  );
+
+  const appointmentRef = doc(collection(firestore, 'appointments'));
+  const slotTime = parseTime(tokenData.time, day, timeContext);
+  const appointment: Appointment = {
+    id: appointmentRef.id,
+    bookedVia: 'Online',
+    clinicId: entry.clinicId,
+    doctorId: doctor.id,
+    doctor: doctor.name,
+    department: doctor.department,
+    date: entry.date,
+    time: tokenData.time,
+    dateKey: getClinicISOString(day, timeContext),
+    slotAt: slotTime,
+    arriveByTime: tokenData.arriveByTime,
+    patientId: entry.patientId,
+    patientName: entry.patientName,
+    age: entry.age ?? 0,
+    sex: entry.sex || 'Other',
+    communicationPhone: entry.communicationPhone || '',
+    place: entry.place || '',
+    status: 'Pending',
+    slotIndex: tokenData.slotIndex,
+    sessionIndex: tokenData.sessionIndex,
+    tokenNumber: tokenData.tokenNumber,
+    numericToken: tokenData.numericToken,
+    waitlistEntryId: entry.id,
+    ...getAttendanceWindow(slotTime, doctor.averageConsultingTime),
+    createdAt: serverTimestamp(),
+  };
+
+  try {
+    await runTransaction(firestore, async transaction => {
+      const entryRef = doc(firestore, 'waitlist', entry.id);
+      const entryDoc = await transaction.get(entryRef);
+      if (entryDoc.data()?.status !== 'Offered') {
+        throw new Error('This slot offer is no longer available.');
+      }
+
+      const reservationRef = doc(firestore, 'slot-reservations', tokenData.reservationId);
+      const reservationDoc = await transaction.get(reservationRef);
+      if (reservationDoc.exists()) {
+        transaction.update(reservationRef, {
+          status: 'booked',
+          appointmentId: appointmentRef.id,
+          bookedAt: serverTimestamp(),
+        });
+      }
+
+      transaction.set(appointmentRef, appointment);
+      transaction.update(entryRef, {
+        status: 'Booked',
+        bookedAppointmentId: appointmentRef.id,
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('[Waitlist] Error accepting waitlist offer:', error);
+    await deleteDoc(doc(firestore, 'slot-reservations', tokenData.reservationId)).catch(() => undefined);
+    throw error;
+  }
+
+  return appointment;
+}
+
+/**
+ * Patient passes on the offered slot: it goes to the next patient in line
+ */
+export async function declineWaitlistOffer(firestore: Firestore, entryId: string): Promise<void> {
+  await closeWaitlistEntry(firestore, entryId, 'Declined');
+}
+
+/**
+ * Patient leaves the waitlist; a slot they were offered goes to the next patient
+ */
+export async function leaveWaitlist(firestore: Firestore, entryId: string): Promise<void> {
+  await closeWaitlistEntry(firestore, entryId, 'Cancelled');
+}
+
+async function closeWaitlistEntry(firestore: Firestore, entryId: string, status: 'Declined' | 'Cancelled'): Promise<void> {
+  const entry = await getWaitlistEntry(firestore, entryId);
+  if (!OPEN_STATUSES.includes(entry.status)) return;
+
+  await updateDoc(doc(firestore, 'waitlist', entry.id), { status, updatedAt: serverTimestamp() });
+  if (entry.status === 'Offered') {
+    await releaseHeldSlot(firestore, entry);
+    await requestWaitlistPromotion(firestore, {
+      clinicId: entry.clinicId,
+      doctorId: entry.doctorId,
+      date: entry.date,
+      sessionIndex: entry.sessionIndex,
+    });
+  }
+}
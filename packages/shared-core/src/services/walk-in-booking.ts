@@ -1,4 +1,4 @@
-import { getFirestore } from 'firebase/firestore';
+import { getFirestore, type Firestore } from 'firebase/firestore';
 import { getServerFirebaseApp } from '@kloqo/shared-firebase';
 import { completePatientWalkInBooking, PatientBookingPayload } from './booking.service';
 import type { Doctor } from '@kloqo/shared-types';
@@ -28,8 +28,7 @@ interface WalkInPayload {
     };
 }
 
-export async function handleWalkInBooking(payload: WalkInPayload) {
-    const firestore = getFirestore(getServerFirebaseApp());
+export async function handleWalkInBooking(payload: WalkInPayload, firestore: Firestore = getFirestore(getServerFirebaseApp())) {
     try {
         return await completePatientWalkInBooking(firestore, payload as PatientBookingPayload);
     } catch (error: any) {
@@ -39,6 +38,12 @@ export async function handleWalkInBooking(payload: WalkInPayload) {
         if (error.message.includes('No walk-in slots')) {
             throw new WalkInBookingError(error.message, 409, 'NO_SLOT_AVAILABLE');
         }
+        if (error.message.includes('Walk-ins are not accepted')) {
+            throw new WalkInBookingError(error.message, 409, 'WALK_INS_NOT_ACCEPTED');
+        }
+        if (error.message.includes('Online payment')) {
+            throw new WalkInBookingError(error.message, 503, 'PAYMENT_UNAVAILABLE');
+        }
         throw new WalkInBookingError(error.message || 'Failed to process walk-in booking', 500);
     }
 }
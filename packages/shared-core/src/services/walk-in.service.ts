@@ -1,14 +1,40 @@
 import { collection, query, where, orderBy, getDocs, getDoc, Firestore, runTransaction, doc, serverTimestamp, type Transaction, type DocumentReference, type DocumentSnapshot } from 'firebase/firestore';
-import { format, addMinutes, differenceInMinutes, isAfter, isBefore, subMinutes, parse, parseISO } from 'date-fns';
+import { format, addMinutes, differenceInMinutes, isAfter, isBefore, subMinutes, parseISO } from 'date-fns';
 import type { Doctor, Appointment } from '@kloqo/shared-types';
 import { computeWalkInSchedule, type SchedulerAssignment } from './walk-in-scheduler';
+import { buildDaySlots, planWalkInPreview, planWalkInRebalance } from './scheduling-engine';
+import {
+  buildCandidateSlots,
+  buildOccupiedSlotSet,
+  calculatePerSessionReservedSlots,
+  type DailySlot,
+  type WalkInPreviewResult,
+} from './day-slots';
+import {
+  DEFAULT_ADVANCE_RATIO,
+  calculateWalkInReserve,
+  createSessionRatioResolver,
+  getSessionAdvanceRatio,
+  sessionAcceptsWalkIns,
+  type SessionAdvanceRatio,
+} from './capacity-service';
 import { logger } from '../lib/logger';
-import { getClinicNow, getClinicDayOfWeek, getClinicDateString, getClinicTimeString, parseClinicDate, parseClinicTime } from '../utils/date-utils';
+import {
+  getClinicNow,
+  getClinicDayOfWeek,
+  getClinicDateString,
+  getClinicTimeString,
+  parseClinicDate,
+  parseClinicTime,
+  type ClinicTimeContext,
+} from '../utils/date-utils';
 import {
   applyBreakOffsets,
   isSlotBlockedByLeave,
   parseTime as parseTimeString
 } from '../utils/break-helpers';
+import { getAppointmentDateFields, getDateKeyedEntry } from '../utils/date-keys';
+import { isReservationHeld } from '../utils/reservation-utils';
 
 const DEBUG_BOOKING = process.env.NEXT_PUBLIC_DEBUG_BOOKING === 'true';
 
@@ -27,6 +53,17 @@ const toRelativeIndex = (idx: number, sessionBase: number) => {
 
 import { generateOnlineTokenNumber, generateWalkInTokenNumber } from '../utils/token-utils';
 import { calculateEstimatedTimes } from '../utils/estimated-time-utils';
+import { applyAppointmentMutation, getSystemActor, type AppointmentMutationContext } from './appointment-event-service';
+
+export {
+  buildCandidateSlots,
+  buildOccupiedSlotSet,
+  calculatePerSessionReservedSlots,
+  getSlotTime,
+  type DailySlot,
+  type WalkInPreviewResult,
+  type WalkInPreviewShift,
+} from './day-slots';
 
 const ONGOING_STATUSES = new Set(['Pending', 'Confirmed', 'Skipped']);
 
@@ -145,23 +182,24 @@ export function findActiveSessionIndex(
  */
 export function findTargetSessionForForceBooking(
   doctor: Doctor,
-  now: Date
+  now: Date,
+  timeContext?: ClinicTimeContext
 ): number {
   let targetIdx = 0;
   if (doctor.availabilitySlots) {
-    const dayOfWeek = getClinicDayOfWeek(now);
+    const dayOfWeek = getClinicDayOfWeek(now, timeContext);
     const daily = doctor.availabilitySlots.find(s => s.day === dayOfWeek);
     if (daily?.timeSlots) {
       // Sort time slots chronologically
       const sortedSlots = [...daily.timeSlots].sort((a, b) => {
-        const startA = parseClinicTime(a.from, now);
-        const startB = parseClinicTime(b.from, now);
+        const startA = parseClinicTime(a.from, now, timeContext);
+        const startB = parseClinicTime(b.from, now, timeContext);
         return startA.getTime() - startB.getTime();
       });
 
       // Find the first session that starts in the future
       const nextSessionIdx = sortedSlots.findIndex(s => {
-        const start = parseClinicTime(s.from, now);
+        const start = parseClinicTime(s.from, now, timeContext);
         return start > now;
       });
 
@@ -185,12 +223,6 @@ export function findTargetSessionForForceBooking(
   return targetIdx;
 }
 
-export interface DailySlot {
-  index: number;
-  time: Date;
-  sessionIndex: number;
-}
-
 export interface LoadedDoctor {
   doctor: Doctor;
   slots: DailySlot[];
@@ -201,7 +233,8 @@ export async function loadDoctorAndSlots(
   clinicId: string,
   doctorName: string,
   date: Date,
-  doctorId?: string
+  doctorId?: string,
+  timeContext?: ClinicTimeContext
 ): Promise<LoadedDoctor> {
   let doctor: Doctor | null = null;
 
@@ -236,55 +269,15 @@ export async function loadDoctorAndSlots(
     throw new Error('Doctor availability information is missing.');
   }
 
-  const dayOfWeek = getClinicDayOfWeek(date);
+  const dayOfWeek = getClinicDayOfWeek(date, timeContext);
   const availabilityForDay = doctor.availabilitySlots.find(slot => slot.day === dayOfWeek);
 
   if (!availabilityForDay || !availabilityForDay.timeSlots?.length) {
     throw new Error('Doctor is not available on the selected date.');
   }
 
-  const slotDuration = doctor.averageConsultingTime || 15;
-  const slots: DailySlot[] = [];
-  let slotIndex = 0;
-
-  // Check for availability extension (session-specific)
-  const dateStr = getClinicDateString(date);
-  const extensionForDate = doctor.availabilityExtensions?.[dateStr];
-
-  availabilityForDay.timeSlots.forEach((session, sessionIndex) => {
-    let currentTime = parseTimeString(session.from, date);
-    let endTime = parseTimeString(session.to, date);
-
-    const sessionExtension = (extensionForDate as any)?.sessions?.find((s: any) => s.sessionIndex === sessionIndex);
-    if (sessionExtension) {
-      const newEndTimeStr = sessionExtension.newEndTime;
-      // ALWAYS use extended time if it exists in the model
-      // This ensures all appointments have a corresponding slot in the slots array
-      // The 85% capacity rule should be enforced by looking at original session bounds,
-      // not by hiding physical slots from the array.
-      if (newEndTimeStr) {
-        try {
-          const extendedEndTime = parseTimeString(newEndTimeStr, date);
-          // Only use extended time if it's actually later than the original end time
-          if (isAfter(extendedEndTime, endTime)) {
-            endTime = extendedEndTime;
-          }
-        } catch (error) {
-          console.error('Error parsing extended end time, using original:', error);
-        }
-      }
-    }
-
-    while (isBefore(currentTime, endTime)) {
-      // CRITICAL FIX: Include ALL physical slots to ensure Absolute Indexing matches appointment-service.ts
-      // Previously, we skipped blocked slots, which shifted indices (e.g., 11:25 became slot 5 instead of 11).
-      // Now we push every slot. Blocked slots will validly exist at their correct index.
-      // The scheduler will see them as occupied (via BreakBlock appointments) and skip them naturally.
-      slots.push({ index: slotIndex, time: new Date(currentTime), sessionIndex });
-      currentTime = addMinutes(currentTime, slotDuration);
-      slotIndex += 1;
-    }
-  });
+  // Physical slots (including extensions) come from the pure scheduling engine
+  const slots = buildDaySlots(doctor, date, timeContext);
 
   if (slots.length === 0) {
     throw new Error('No slots could be generated for the selected date.');
@@ -297,9 +290,10 @@ export async function fetchDayAppointments(
   firestore: Firestore,
   clinicId: string,
   doctorName: string,
-  date: Date
+  date: Date,
+  timeContext?: ClinicTimeContext
 ): Promise<Appointment[]> {
-  const dateStr = getClinicDateString(date);
+  const dateStr = getClinicDateString(date, timeContext);
   const appointmentsRef = collection(firestore, 'appointments');
   const appointmentsQuery = query(
     appointmentsRef,
@@ -311,248 +305,6 @@ export async function fetchDayAppointments(
   return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as any as Appointment));
 }
 
-export function buildOccupiedSlotSet(appointments: Appointment[]): Set<number> {
-  const occupied = new Set<number>();
-
-  appointments.forEach(appointment => {
-    const slotIndex = appointment.slotIndex;
-    if (typeof slotIndex === 'number' && ACTIVE_STATUSES.has(appointment.status)) {
-      occupied.add(slotIndex);
-    }
-  });
-
-  return occupied;
-}
-
-export function getSlotTime(slots: DailySlot[], slotIndex: number): Date | null {
-  const slot = slots.find(s => s.index === slotIndex);
-  return slot ? slot.time : null;
-}
-
-/**
- * Calculate reserved walk-in slots per session (15% of FUTURE slots only in each session)
- * This dynamically adjusts as time passes - reserved slots are recalculated based on remaining future slots
- * Returns a Set of slot indices that are reserved for walk-ins
- */
-export function calculatePerSessionReservedSlots(slots: DailySlot[], now: Date = getClinicNow()): Set<number> {
-  const reservedSlots = new Set<number>();
-
-  // Group slots by sessionIndex
-  const slotsBySession = new Map<number, DailySlot[]>();
-  slots.forEach(slot => {
-    const sessionSlots = slotsBySession.get(slot.sessionIndex) || [];
-    sessionSlots.push(slot);
-    slotsBySession.set(slot.sessionIndex, sessionSlots);
-  });
-
-  // For each session, calculate 15% reserve (last 15% of FUTURE slots in that session)
-  slotsBySession.forEach((sessionSlots, sessionIndex) => {
-    // Sort slots by index to ensure correct order
-    sessionSlots.sort((a, b) => a.index - b.index);
-
-    // Filter to only future slots (including current time)
-    const futureSlots = sessionSlots.filter(slot =>
-      isAfter(slot.time, now) || slot.time.getTime() >= now.getTime()
-    );
-
-    if (futureSlots.length === 0) {
-      return; // No future slots, no reserved slots
-    }
-
-    const futureSlotCount = futureSlots.length;
-    const minimumWalkInReserve = Math.ceil(futureSlotCount * 0.15);
-    const reservedWSlotsStart = futureSlotCount - minimumWalkInReserve;
-
-    // Mark the last 15% of FUTURE slots in this session as reserved
-    for (let i = reservedWSlotsStart; i < futureSlotCount; i++) {
-      reservedSlots.add(futureSlots[i].index);
-    }
-  });
-
-  return reservedSlots;
-}
-
-type CandidateOptions = {
-  appointments?: Appointment[];
-  walkInSpacing?: number;
-};
-
-export function buildCandidateSlots(
-  type: 'A' | 'W',
-  slots: DailySlot[],
-  now: Date,
-  occupied: Set<number>,
-  preferredSlotIndex?: number,
-  options: CandidateOptions = {}
-): number[] {
-  const bookingBuffer = addMinutes(now, 30);
-  const candidates: number[] = [];
-
-  // Calculate reserved walk-in slots per session (15% of FUTURE slots only in each session)
-  const reservedWSlots = calculatePerSessionReservedSlots(slots, now);
-
-  const addCandidate = (slotIndex: number) => {
-    if (
-      slotIndex >= 0 &&
-      slotIndex < slots.length &&
-      !occupied.has(slotIndex) &&
-      !candidates.includes(slotIndex)
-    ) {
-      // CRITICAL: For advance bookings, NEVER allow slots reserved for walk-ins (last 15% of each session)
-      if (type === 'A' && reservedWSlots.has(slotIndex)) {
-        const slot = slots.find(s => s.index === slotIndex);
-        console.log(`[SLOT FILTER] Rejecting slot ${slotIndex} - reserved for walk-ins in session ${slot?.sessionIndex}`);
-        return; // Skip reserved walk-in slots
-      }
-      candidates.push(slotIndex);
-    }
-  };
-
-  if (type === 'A') {
-    if (typeof preferredSlotIndex === 'number') {
-      const slotTime = getSlotTime(slots, preferredSlotIndex);
-      const preferredSlot = slots.find(s => s.index === preferredSlotIndex);
-      const preferredSessionIndex = preferredSlot?.sessionIndex;
-
-      // CRITICAL: Also check if preferred slot is not reserved for walk-ins
-      // This prevents booking cancelled slots that are in the reserved walk-in range (last 15% of session)
-      if (reservedWSlots.has(preferredSlotIndex)) {
-        console.log(`[SLOT FILTER] Rejecting preferred slot ${preferredSlotIndex} - reserved for walk-ins in session ${preferredSessionIndex}`);
-      } else if (slotTime && isAfter(slotTime, bookingBuffer)) {
-        addCandidate(preferredSlotIndex);
-      } else {
-        console.log(`[SLOT FILTER] Rejecting preferred slot ${preferredSlotIndex} - within 1 hour from now`);
-      }
-
-      // CRITICAL: If preferred slot is not available, only look for alternatives within the SAME session
-      // This ensures bookings stay within the same sessionIndex and don't cross session boundaries
-      if (candidates.length === 0 && typeof preferredSessionIndex === 'number') {
-        slots.forEach(slot => {
-          // Only consider slots in the same session as the preferred slot
-          if (
-            slot.sessionIndex === preferredSessionIndex &&
-            isAfter(slot.time, bookingBuffer) &&
-            !reservedWSlots.has(slot.index)
-          ) {
-            addCandidate(slot.index);
-          }
-        });
-      }
-    } else {
-      // No preferred slot - look across all sessions
-      slots.forEach(slot => {
-        // CRITICAL: Only add slots that are after 1 hour AND not reserved for walk-ins (per session)
-        if (isAfter(slot.time, bookingBuffer) && !reservedWSlots.has(slot.index)) {
-          addCandidate(slot.index);
-        }
-      });
-    }
-  } else {
-    const activeAppointments =
-      options.appointments
-        ?.filter(
-          appointment =>
-            typeof appointment.slotIndex === 'number' && ACTIVE_STATUSES.has(appointment.status),
-        )
-        .sort((a, b) => (a.slotIndex! < b.slotIndex! ? -1 : 1)) ?? [];
-
-    const walkInSpacing =
-      typeof options.walkInSpacing === 'number' && options.walkInSpacing > 0
-        ? options.walkInSpacing
-        : Number.POSITIVE_INFINITY;
-
-    const getATokens = (filterFn?: (appointment: Appointment) => boolean) =>
-      activeAppointments.filter(
-        appointment =>
-          appointment.bookedVia !== 'Walk-in' &&
-          (typeof appointment.slotIndex === 'number') &&
-          (!filterFn || filterFn(appointment)),
-      );
-
-    const getSlotIndexAfterNthA = (afterSlotIndex: number, nth: number): number => {
-      let count = 0;
-      for (const appointment of activeAppointments) {
-        if (appointment.bookedVia === 'Walk-in') continue;
-        const slotIndex = appointment.slotIndex!;
-        if (slotIndex > afterSlotIndex) {
-          count += 1;
-          if (count === nth) {
-            return slotIndex;
-          }
-        }
-      }
-      return -1;
-    };
-
-    slots.forEach(slot => {
-      if (!isBefore(slot.time, now) && !isAfter(slot.time, bookingBuffer)) {
-        addCandidate(slot.index);
-      }
-    });
-
-    if (candidates.length > 0) {
-      return candidates;
-    }
-
-    const availableAfterHour = slots.filter(
-      slot => isAfter(slot.time, bookingBuffer) && !occupied.has(slot.index),
-    );
-
-    if (availableAfterHour.length === 0) {
-      return candidates;
-    }
-
-    if (walkInSpacing === Number.POSITIVE_INFINITY || activeAppointments.length === 0) {
-      availableAfterHour.forEach(slot => addCandidate(slot.index));
-      return candidates;
-    }
-
-    const walkInAppointments = activeAppointments.filter(appointment => appointment.bookedVia === 'Walk-in');
-    const lastWalkInSlotIndex =
-      walkInAppointments.length > 0
-        ? Math.max(...walkInAppointments.map(appointment => appointment.slotIndex!))
-        : null;
-
-    let minSlotIndex = -1;
-
-    if (lastWalkInSlotIndex === null) {
-      const aTokens = getATokens();
-      if (aTokens.length > walkInSpacing) {
-        const slotAfterNth = getSlotIndexAfterNthA(-1, walkInSpacing);
-        minSlotIndex =
-          slotAfterNth >= 0 ? slotAfterNth : aTokens[aTokens.length - 1]?.slotIndex ?? -1;
-      } else {
-        minSlotIndex = aTokens[aTokens.length - 1]?.slotIndex ?? -1;
-      }
-    } else {
-      const aTokensAfterLastWalkIn = getATokens(appointment => appointment.slotIndex! > lastWalkInSlotIndex);
-      if (aTokensAfterLastWalkIn.length > walkInSpacing) {
-        const slotAfterNth = getSlotIndexAfterNthA(lastWalkInSlotIndex, walkInSpacing);
-        if (slotAfterNth >= 0) {
-          minSlotIndex = slotAfterNth;
-        } else {
-          const allATokens = getATokens();
-          minSlotIndex = allATokens[allATokens.length - 1]?.slotIndex ?? lastWalkInSlotIndex;
-        }
-      } else {
-        const allATokens = getATokens();
-        const lastASlotIndex = allATokens[allATokens.length - 1]?.slotIndex ?? lastWalkInSlotIndex;
-        minSlotIndex = Math.max(lastWalkInSlotIndex, lastASlotIndex);
-      }
-    }
-
-    const filteredAfterHour = availableAfterHour.filter(slot => slot.index > minSlotIndex);
-
-    if (filteredAfterHour.length === 0) {
-      availableAfterHour.forEach(slot => addCandidate(slot.index));
-    } else {
-      filteredAfterHour.forEach(slot => addCandidate(slot.index));
-    }
-  }
-
-  return candidates;
-}
-
 export interface TokenCounterState {
   nextNumber: number;
   exists: boolean;
@@ -694,7 +446,8 @@ export async function generateNextTokenAndReserveSlot(
     doctorId?: string;
     existingAppointmentId?: string;
     [key: string]: unknown;
-  }
+  },
+  timeContext?: ClinicTimeContext
 ): Promise<{
   tokenNumber: string;
   numericToken: number;
@@ -703,7 +456,7 @@ export async function generateNextTokenAndReserveSlot(
   time: string;
   reservationId: string;
 }> {
-  const dateStr = getClinicDateString(date);
+  const dateStr = getClinicDateString(date, timeContext);
   const now = getClinicNow();
   const counterDocId = `${clinicId}_${doctorName}_${dateStr}${type === 'W' ? '_W' : ''}`
     .replace(/\s+/g, '_')
@@ -722,14 +475,23 @@ export async function generateNextTokenAndReserveSlot(
         clinicId,
         doctorName,
         date,
-        typeof appointmentData.doctorId === 'string' ? appointmentData.doctorId : undefined
+        typeof appointmentData.doctorId === 'string' ? appointmentData.doctorId : undefined,
+        timeContext
       ),
-      type === 'W' ? getDoc(doc(firestore, 'clinics', clinicId)) : Promise.resolve(null),
-      fetchDayAppointments(firestore, clinicId, doctorName, date)
+      getDoc(doc(firestore, 'clinics', clinicId)),
+      fetchDayAppointments(firestore, clinicId, doctorName, date, timeContext)
     ];
 
   const [{ doctor, slots: allSlots }, clinicSnap, preFetchAppointments] = await Promise.all(fetchPromises);
 
+  // Advance/walk-in split per session: doctor policy, then clinic default, then 85/15
+  const advanceRatio = createSessionRatioResolver(
+    doctor,
+    date,
+    clinicSnap?.exists() ? clinicSnap.data()?.capacityPolicy : null,
+    timeContext
+  );
+
   // Generate request ID early for logging throughout the function
   const requestId = `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
@@ -780,6 +542,10 @@ export async function generateNextTokenAndReserveSlot(
       throw new Error('No walk-in slots are available. The next session has not started yet.');
     }
 
+    if (!sessionAcceptsWalkIns(advanceRatio, activeSessionIndex)) {
+      throw new Error('Walk-ins are not accepted for this session.');
+    }
+
     // Filter slots to only include those in the active session
     slots = allSlots.filter((s) => s.sessionIndex === activeSessionIndex);
 
@@ -807,16 +573,16 @@ export async function generateNextTokenAndReserveSlot(
   let maximumAdvanceTokens = 0;
   let totalMinimumWalkInReserve = 0;
 
-  const dayOfWeek = getClinicDayOfWeek(date);
+  const dayOfWeek = getClinicDayOfWeek(date, timeContext);
   const availabilityForDay = (doctor.availabilitySlots || []).find((s: any) => s.day === dayOfWeek);
-  const extensionForDate = (doctor as any).availabilityExtensions?.[dateStr];
+  const extensionForDate = getDateKeyedEntry(doctor.availabilityExtensions, dateStr);
 
   slotsBySession.forEach((sessionSlots, sessionIndex) => {
     // Determine the logical end of the session for capacity purposes
     const sessionSource = availabilityForDay?.timeSlots?.[sessionIndex];
     if (!sessionSource) return;
 
-    const originalSessionEndTime = parseTimeString(sessionSource.to, date);
+    const originalSessionEndTime = parseTimeString(sessionSource.to, date, timeContext);
     let capacityBasisEndTime = originalSessionEndTime;
 
     const sessionExtension = (extensionForDate as any)?.sessions?.find((s: any) => s.sessionIndex === sessionIndex);
@@ -824,7 +590,7 @@ export async function generateNextTokenAndReserveSlot(
       const hasActiveBreaks = sessionExtension.breaks && sessionExtension.breaks.length > 0;
       if (hasActiveBreaks) {
         try {
-          capacityBasisEndTime = parseTimeString(sessionExtension.newEndTime, date);
+          capacityBasisEndTime = parseTimeString(sessionExtension.newEndTime, date, timeContext);
         } catch (e) {
           console.error('Error parsing extension time for capacity:', e);
         }
@@ -840,7 +606,7 @@ export async function generateNextTokenAndReserveSlot(
     );
 
     const futureSlotCount = futureCapacitySlots.length;
-    const sessionMinimumWalkInReserve = futureSlotCount > 0 ? Math.ceil(futureSlotCount * 0.15) : 0;
+    const sessionMinimumWalkInReserve = calculateWalkInReserve(futureSlotCount, getSessionAdvanceRatio(advanceRatio, sessionIndex));
     const sessionAdvanceCapacity = Math.max(futureSlotCount - sessionMinimumWalkInReserve, 0);
 
     maximumAdvanceTokens += sessionAdvanceCapacity;
@@ -954,12 +720,12 @@ export async function generateNextTokenAndReserveSlot(
               // Verify time to catch "ghost" appointments from previous sessions (e.g. 3:35 PM in 4:00 PM session)
               if (appointment.time && currentSessionStart) {
                 try {
-                  const aptTime = parseTimeString(appointment.time, date);
+                  const aptTime = parseTimeString(appointment.time, date, timeContext);
                   // If appointment is more than 30 mins before session start, it definitely belongs to previous session
                   // (Allowing 30 mins buffer for potential early starts/overlaps, but 3:35 vs 4:00 is tight. 
                   // Standard break is usually > 30 mins. Re-using 20 mins as safe buffer)
                   if (isBefore(aptTime, subMinutes(currentSessionStart, 20))) {
-                    console.warn(`[BOOKING DEBUG] Filtering out appointment ${appointment.id} (Time: ${appointment.time}) from Session ${activeSessionIndex} (Start: ${getClinicTimeString(currentSessionStart)}) - likely erroneous sessionIndex`);
+                    console.warn(`[BOOKING DEBUG] Filtering out appointment ${appointment.id} (Time: ${appointment.time}) from Session ${activeSessionIndex} (Start: ${getClinicTimeString(currentSessionStart, timeContext)}) - likely erroneous sessionIndex`);
                     return false;
                   }
                 } catch (e) {
@@ -991,7 +757,7 @@ export async function generateNextTokenAndReserveSlot(
 
         if (type === 'A' && maximumAdvanceTokens >= 0) {
           const activeAdvanceTokens = effectiveAppointments.filter(appointment => {
-            const appointmentTime = parseTimeString(appointment.time || '', date);
+            const appointmentTime = parseTimeString(appointment.time || '', date, timeContext);
             const isFutureAppointment = isAfter(appointmentTime, now) || appointmentTime.getTime() >= now.getTime();
 
             return (
@@ -1109,12 +875,7 @@ export async function generateNextTokenAndReserveSlot(
 
               if (appointmentBeforeWalkIn && appointmentBeforeWalkIn.time) {
                 try {
-                  const appointmentDate = parse(dateStr, 'd MMMM yyyy', new Date());
-                  const previousAppointmentTime = parse(
-                    appointmentBeforeWalkIn.time,
-                    'hh:mm a',
-                    appointmentDate
-                  );
+                  const previousAppointmentTime = parseTimeString(appointmentBeforeWalkIn.time, date, timeContext);
                   // Walk-in time = previous appointment time (same time as previous appointment - matches nurse app)
                   walkInTime = previousAppointmentTime;
                 } catch (e) {
@@ -1131,7 +892,7 @@ export async function generateNextTokenAndReserveSlot(
             }
           }
 
-          let finalTimeString = getClinicTimeString(walkInTime);
+          let finalTimeString = getClinicTimeString(walkInTime, timeContext);
 
           if (usedBucketSlotIndex !== null) {
             // Find the last slotIndex used across ALL sessions for this day
@@ -1186,7 +947,7 @@ export async function generateNextTokenAndReserveSlot(
             // Use new slotIndex at the end, with time calculated from last session
             finalSlotIndex = newSlotIndex;
             finalSessionIndex = lastSlot?.sessionIndex ?? newAssignment.sessionIndex;
-            finalTimeString = getClinicTimeString(newSlotTime);
+            finalTimeString = getClinicTimeString(newSlotTime, timeContext);
 
             console.info('[Walk-in Scheduling] Bucket compensation - time calculation:', {
               lastSlotIndexFromSlots,
@@ -1225,6 +986,7 @@ export async function generateNextTokenAndReserveSlot(
               slotIndex: update.slotIndex,
               sessionIndex: update.sessionIndex,
               time: update.timeString,
+              ...getAppointmentDateFields(dateStr, update.timeString, timeContext),
               noShowTime: update.noShowTime,
               // CRITICAL: cutOffTime is NOT updated - it remains the same as the original appointment
             });
@@ -1242,6 +1004,7 @@ export async function generateNextTokenAndReserveSlot(
           const occupiedSlots = buildOccupiedSlotSet(effectiveAppointments);
           const candidates = buildCandidateSlots(type, slots, now, occupiedSlots, appointmentData.slotIndex, {
             appointments: effectiveAppointments,
+            advanceRatio,
           });
 
 
@@ -1257,7 +1020,7 @@ export async function generateNextTokenAndReserveSlot(
           });
 
           if (candidates.length === 0) {
-            const reservedWSlots = calculatePerSessionReservedSlots(slots, now);
+            const reservedWSlots = calculatePerSessionReservedSlots(slots, now, advanceRatio);
             const reservedSlotsCount = reservedWSlots.size;
             console.error(`[BOOKING DEBUG] Request ${requestId}: ❌ NO CANDIDATE SLOTS AVAILABLE`, {
               type,
@@ -1298,7 +1061,7 @@ export async function generateNextTokenAndReserveSlot(
             // CRITICAL: Double-check that this slot is NOT reserved for walk-ins (last 15% of FUTURE slots in its session)
             // This check happens inside the transaction to prevent race conditions
             // Even if buildCandidateSlots included it (shouldn't happen), we reject it here
-            const reservedWSlots = calculatePerSessionReservedSlots(slots, now);
+            const reservedWSlots = calculatePerSessionReservedSlots(slots, now, advanceRatio);
             if (type === 'A' && reservedWSlots.has(slotIndex)) {
               rejectedReasons.reservedForWalkIn++;
               const slot = slots.find(s => s.index === slotIndex);
@@ -1356,6 +1119,11 @@ export async function generateNextTokenAndReserveSlot(
                 }
               }
 
+              // Slot held for a waitlist offer: only the offered entry may take it over
+              if (isReservationHeld(reservationData, getClinicNow())) {
+                isStale = !!appointmentData.waitlistEntryId && reservationData?.waitlistEntryId === appointmentData.waitlistEntryId;
+              }
+
               if (isStale) {
                 // Reservation is stale - clean it up and allow new booking
                 console.log(`[BOOKING DEBUG] Request ${requestId}: Slot ${slotIndex} has STALE reservation - cleaning up`, {
@@ -1426,7 +1194,7 @@ export async function generateNextTokenAndReserveSlot(
             chosenSlotIndex = slotIndex;
             const reservedSlot = slots.find(s => s.index === chosenSlotIndex);
             sessionIndexForNew = reservedSlot?.sessionIndex ?? 0;
-            resolvedTimeString = getClinicTimeString(reservedSlot?.time ?? now);
+            resolvedTimeString = getClinicTimeString(reservedSlot?.time ?? now, timeContext);
 
             // CRITICAL: Token number MUST be based on slotIndex + 1 (slotIndex is 0-based, tokens are 1-based)
             // This ensures token A001 goes to slot #1 (slotIndex 0), A002 to slot #2 (slotIndex 1), etc.
@@ -1468,7 +1236,7 @@ export async function generateNextTokenAndReserveSlot(
           }
 
           if (chosenSlotIndex < 0 || !reservationRef) {
-            const reservedWSlots = calculatePerSessionReservedSlots(slots, now);
+            const reservedWSlots = calculatePerSessionReservedSlots(slots, now, advanceRatio);
             const reservedSlotsCount = reservedWSlots.size;
             const allRejectedDueToReservations = rejectedReasons.alreadyReserved > 0 &&
               (rejectedReasons.alreadyReserved === candidates.length ||
@@ -1705,6 +1473,7 @@ export async function prepareAdvanceShift({
   walkInSpacingValue,
   forceBook = false,
   newWalkInNumericToken,
+  timeContext,
 }: {
   firestore: Firestore;
   transaction: Transaction;
@@ -1719,6 +1488,7 @@ export async function prepareAdvanceShift({
   walkInSpacingValue: number;
   forceBook?: boolean;
   newWalkInNumericToken: number;
+  timeContext?: ClinicTimeContext;
 }): Promise<{
   newAssignment: SchedulerAssignment | null;
   reservationDeletes: DocumentReference[];
@@ -1938,7 +1708,7 @@ export async function prepareAdvanceShift({
       if (!originalAppt) continue;
 
       const finalSlotIndex = assign.slotIndex + segmentedBase;
-      const newTimeString = getClinicTimeString(assign.slotTime);
+      const newTimeString = getClinicTimeString(assign.slotTime, timeContext);
 
       if (originalAppt.slotIndex === finalSlotIndex && originalAppt.time === newTimeString) {
         continue;
@@ -1956,7 +1726,7 @@ export async function prepareAdvanceShift({
         const diff = relativeIdx - (slots.length > 0 ? slots.length - 1 : 0);
         calculatedTime = addMinutes(lastSlot ? lastSlot.time : now, diff * (doctor.averageConsultingTime || 15));
       }
-      const finalTimeString = getClinicTimeString(calculatedTime);
+      const finalTimeString = getClinicTimeString(calculatedTime, timeContext);
 
       appointmentUpdates.push({
         appointmentId: originalAppt.id,
@@ -1985,7 +1755,8 @@ export async function calculateWalkInDetails(
   doctor: Doctor,
   walkInTokenAllotment?: number,
   walkInCapacityThreshold: number = 0,
-  forceBook: boolean = false
+  forceBook: boolean = false,
+  timeContext?: ClinicTimeContext
 ): Promise<{
   estimatedTime: Date;
   patientsAhead: number;
@@ -2006,8 +1777,8 @@ export async function calculateWalkInDetails(
     Promise<Appointment[]>,
     Promise<DocumentSnapshot | null>
   ] = [
-      loadDoctorAndSlots(firestore, doctor.clinicId || '', doctor.name, date, doctor.id),
-      fetchDayAppointments(firestore, doctor.clinicId || '', doctor.name, date),
+      loadDoctorAndSlots(firestore, doctor.clinicId || '', doctor.name, date, doctor.id, timeContext),
+      fetchDayAppointments(firestore, doctor.clinicId || '', doctor.name, date, timeContext),
       doctor.clinicId
         ? getDoc(doc(firestore, 'clinics', doctor.clinicId))
         : Promise.resolve(null)
@@ -2053,7 +1824,7 @@ export async function calculateWalkInDetails(
   // If no active session found, use the robust fallback (targets the one that just ended or first/next)
   let targetSessionIndex = activeSessionIndex !== null
     ? activeSessionIndex
-    : findTargetSessionForForceBooking(doctor, now);
+    : findTargetSessionForForceBooking(doctor, now, timeContext);
 
   // Determine if this is a "liberated" booking (force-book)
   // For Classic: Auto-fallback to force-booking ONLY if now is past the session end (Overtime)
@@ -2532,22 +2303,22 @@ export async function calculateWalkInDetails(
     arrivedAppointments.forEach((a, idx) => {
       console.log(`  [${idx}] ID=${a.id}, Status=${a.status}, Time=${a.time}, SessionIndex=${a.sessionIndex}`);
     });
-    console.log('[WALK-IN-PREVIEW-DEBUG] Preview patient time:', getClinicTimeString(now));
+    console.log('[WALK-IN-PREVIEW-DEBUG] Preview patient time:', getClinicTimeString(now, timeContext));
     console.log('[WALK-IN-PREVIEW-DEBUG] Target session index:', targetSessionIndex);
 
     // CRITICAL FIX: For Classic mode, ensure the preview patient is sorted AFTER all existing patients.
     // Issue: Existing patients have appointment times like "02:35 PM" (estimated consultation time),
     // while preview uses "now" (e.g., "02:28 PM"), causing incorrect sorting.
     // Solution: Use the latest appointment time + 1 minute to guarantee preview is last.
-    let previewTime = getClinicTimeString(now);
+    let previewTime = getClinicTimeString(now, timeContext);
     if (arrivedAppointments.length > 0) {
       const latestTime = arrivedAppointments.reduce((latest, appt) => {
-        const apptTime = parseClinicTime(appt.time, now);
+        const apptTime = parseClinicTime(appt.time, now, timeContext);
         return apptTime > latest ? apptTime : latest;
-      }, parseClinicTime(arrivedAppointments[0].time, now));
+      }, parseClinicTime(arrivedAppointments[0].time, now, timeContext));
 
       const previewDate = addMinutes(latestTime, 1);
-      previewTime = getClinicTimeString(previewDate);
+      previewTime = getClinicTimeString(previewDate, timeContext);
       console.log('[WALK-IN-PREVIEW-DEBUG] Adjusted preview time to:', previewTime, '(after existing patients)');
     }
 
@@ -2556,7 +2327,7 @@ export async function calculateWalkInDetails(
       {
         id: 'temp-preview',
         status: 'Confirmed',
-        date: getClinicDateString(now),
+        date: getClinicDateString(now, timeContext),
         time: previewTime, // Use adjusted time instead of current time
         // SURGICAL FIX: Only set sessionIndex if there are existing appointments in this session
         // This prevents calculateEstimatedTimes from jumping to session start for empty future sessions
@@ -2567,8 +2338,8 @@ export async function calculateWalkInDetails(
         clinicId: doctor.clinicId
       } as Appointment
     ].sort((a, b) => {
-      const timeA = parseClinicTime(a.time, now);
-      const timeB = parseClinicTime(b.time, now);
+      const timeA = parseClinicTime(a.time, now, timeContext);
+      const timeB = parseClinicTime(b.time, now, timeContext);
       const timeDiff = timeA.getTime() - timeB.getTime();
 
       // Secondary sort: ensure 'temp-preview' is always LAST if times are equal
@@ -2599,7 +2370,9 @@ export async function calculateWalkInDetails(
       simulationQueue,
       doctorForEstimate,
       now,
-      doctor.averageConsultingTime || 15
+      doctor.averageConsultingTime || 15,
+      undefined,
+      timeContext
     );
 
     // Restore original status
@@ -2624,9 +2397,9 @@ export async function calculateWalkInDetails(
 
     const lastEstimate = estimates.find(e => e.appointmentId === 'temp-preview');
     if (lastEstimate) {
-      perceivedEstimatedTime = parse(lastEstimate.estimatedTime, 'hh:mm a', now);
+      perceivedEstimatedTime = parseClinicTime(lastEstimate.estimatedTime, now, timeContext);
       perceivedPatientsAhead = countAppointments.length;
-      console.log('[PERCEIVED-TIME-DEBUG] Initial perceived time:', getClinicTimeString(perceivedEstimatedTime), 'patientsAhead:', perceivedPatientsAhead);
+      console.log('[PERCEIVED-TIME-DEBUG] Initial perceived time:', getClinicTimeString(perceivedEstimatedTime, timeContext), 'patientsAhead:', perceivedPatientsAhead);
 
       if (typeof lastEstimate.sessionIndex === 'number') {
         perceivedSessionIndex = lastEstimate.sessionIndex;
@@ -2636,16 +2409,16 @@ export async function calculateWalkInDetails(
       // and we are reasonably close to the next session, snap it to the next session start.
       // This provides a cleaner "10:30 AM" visual instead of "10:05 AM" (Overtime).
       if (perceivedEstimatedTime && doctor.availabilitySlots) {
-        const dayOfWeek = getClinicDayOfWeek(now);
+        const dayOfWeek = getClinicDayOfWeek(now, timeContext);
         const availabilityForDay = doctor.availabilitySlots.find(s => s.day === dayOfWeek);
         if (availabilityForDay?.timeSlots) {
           for (const session of availabilityForDay.timeSlots) {
-            const sStart = parseClinicTime(session.from, now);
+            const sStart = parseClinicTime(session.from, now, timeContext);
             // If we are earlier than this session start, but within 60 mins (gap), jump to start
             if (isBefore(perceivedEstimatedTime, sStart) && differenceInMinutes(sStart, perceivedEstimatedTime) < 60) {
               // Check if we are "in the gap" (after previous session end)
               // Simplified: If we are just before the start, snap to start.
-              console.log('[PERCEIVED-TIME-DEBUG] Snapping time from', getClinicTimeString(perceivedEstimatedTime), 'to session start:', getClinicTimeString(sStart));
+              console.log('[PERCEIVED-TIME-DEBUG] Snapping time from', getClinicTimeString(perceivedEstimatedTime, timeContext), 'to session start:', getClinicTimeString(sStart, timeContext));
               perceivedEstimatedTime = sStart;
               // Also update session index if we snapped
               // We don't have session index easily here without more logic, but time is what matters visually.
@@ -2653,7 +2426,7 @@ export async function calculateWalkInDetails(
           }
         }
       }
-      console.log('[PERCEIVED-TIME-DEBUG] Final perceived time:', perceivedEstimatedTime ? getClinicTimeString(perceivedEstimatedTime) : 'undefined');
+      console.log('[PERCEIVED-TIME-DEBUG] Final perceived time:', perceivedEstimatedTime ? getClinicTimeString(perceivedEstimatedTime, timeContext) : 'undefined');
     }
   }
 
@@ -2669,21 +2442,6 @@ export async function calculateWalkInDetails(
     perceivedPatientsAhead
   };
 }
-export interface WalkInPreviewShift {
-  id: string;
-  tokenNumber?: string;
-  fromSlot: number;
-  toSlot: number;
-  fromTime?: Date | null;
-  toTime: Date;
-}
-
-export interface WalkInPreviewResult {
-  placeholderAssignment: SchedulerAssignment | null;
-  advanceShifts: WalkInPreviewShift[];
-  walkInAssignments: SchedulerAssignment[];
-}
-
 export async function previewWalkInPlacement(
   firestore: Firestore,
   clinicId: string,
@@ -2704,193 +2462,30 @@ export async function previewWalkInPlacement(
       fetchDayAppointments(firestore, clinicId, doctorName, date)
     ];
 
-  const [{ slots: allSlots }, appointments] = await Promise.all(fetchPromises);
+  const [{ slots, doctor }, appointments] = await Promise.all(fetchPromises);
 
-  // 1. Identify "Active Session" (Consistency with calculateWalkInDetails)
-  const activeSessionIndex = (() => {
-    if (allSlots.length === 0) return 0;
-    const sessionMap = new Map<number, { start: Date; end: Date }>();
-    allSlots.forEach((s: any) => {
-      const current = sessionMap.get(s.sessionIndex);
-      if (!current) {
-        sessionMap.set(s.sessionIndex, { start: s.time, end: s.time });
-      } else {
-        if (isBefore(s.time, current.start)) current.start = s.time;
-        if (isAfter(s.time, current.end)) current.end = s.time;
-      }
-    });
-    const sortedSessions = Array.from(sessionMap.entries()).sort((a, b) => a[0] - b[0]);
-    for (const [sIdx, range] of sortedSessions) {
-      if (!isAfter(now, range.end) && !isBefore(now, subMinutes(range.start, 30))) {
-        return sIdx;
-      }
-    }
-    return null;
-  })();
-
-  const targetSessionIndex = activeSessionIndex ?? 0;
-  const sessionBaseIndex = targetSessionIndex * 1000;
-
-  // Filter slots and appointments for this session
-  const slots = allSlots.filter((s: any) => s.sessionIndex === targetSessionIndex);
-
-  const sessionAppointments = appointments.filter((appointment: any) => {
-    // 1. Explicit Session Index
-    if (typeof appointment.sessionIndex === 'number') {
-      return appointment.sessionIndex === targetSessionIndex;
-    }
-    if (typeof appointment.slotIndex === 'number') {
-      if (targetSessionIndex === 0) return appointment.slotIndex < 1000;
-      return appointment.slotIndex >= sessionBaseIndex && appointment.slotIndex < sessionBaseIndex + 1000;
-    }
-    return false;
-  });
-
-  const activeAdvanceAppointments = sessionAppointments.filter(appointment => {
-    return (
-      appointment.bookedVia !== 'Walk-in' &&
-      typeof appointment.slotIndex === 'number' &&
-      ACTIVE_STATUSES.has(appointment.status)
-    );
-  });
-
-  const activeWalkIns = sessionAppointments.filter(appointment => {
-    return (
-      appointment.bookedVia === 'Walk-in' &&
-      typeof appointment.slotIndex === 'number' &&
-      ACTIVE_STATUSES.has(appointment.status)
-    );
-  });
-
-  const existingNumericTokens = activeWalkIns
-    .map(appointment => {
-      if (typeof appointment.numericToken === 'number') {
-        return appointment.numericToken;
-      }
-      const parsed = Number(appointment.numericToken);
-      return Number.isFinite(parsed) ? parsed : 0;
-    })
-    .filter(token => token > 0);
-
-  const placeholderNumericToken =
-    (existingNumericTokens.length > 0 ? Math.max(...existingNumericTokens) : slots.length) + 1;
-
-  const placeholderId = '__preview_walk_in__';
-
-  // PREPARE SCHEDULER INPUTS (NORMALIZED)
-  const toRelative = (idx: number) => {
-    const raw = idx % 10000;
-    if (raw >= sessionBaseIndex && raw < sessionBaseIndex + 1000) {
-      return raw - sessionBaseIndex;
-    }
-    const sessionFirstSlotIdx = slots.length > 0 ? slots[0].index : sessionBaseIndex;
-    if (raw < 1000 && raw >= sessionFirstSlotIdx) {
-      return raw - sessionFirstSlotIdx;
-    }
-    return raw;
-  };
-  const toGlobal = (idx: number) => idx + sessionBaseIndex;
-
-  const walkInCandidates = [
-    ...activeWalkIns.map(appointment => ({
-      id: appointment.id,
-      numericToken:
-        typeof appointment.numericToken === 'number'
-          ? appointment.numericToken
-          : Number(appointment.numericToken ?? 0) || 0,
-      createdAt: toDate(appointment.createdAt),
-      currentSlotIndex: toRelative(appointment.slotIndex || 0), // NORMALIZE
-    })),
-    {
-      id: placeholderId,
-      numericToken: placeholderNumericToken,
-      createdAt: new Date(),
-    },
-  ];
-
-  const normalizedAdvanceAppointments = activeAdvanceAppointments.map(entry => ({
-    id: entry.id,
-    slotIndex: toRelative(entry.slotIndex || 0), // NORMALIZE
-  }));
-
-  // NORMALIZE SLOTS: Scheduler expects slots to match the index space of appointments.
-  // ROBUST FIX: Normalize indices relative to the first slot of the session.
-  const previewFirstSlotIndex = slots.length > 0 ? slots[0].index : sessionBaseIndex;
-
-  const normalizedSlots = slots.map(s => ({
-    ...s,
-    index: s.index - previewFirstSlotIndex
-  }));
-
-  const schedule = computeWalkInSchedule({
-    slots: normalizedSlots,
-    now: getClinicNow(),
-    walkInTokenAllotment,
-    advanceAppointments: normalizedAdvanceAppointments,
-    walkInCandidates,
-  });
-
-  const assignmentById = new Map(schedule.assignments.map(assignment => [assignment.id, assignment]));
-
-  const advanceShifts: WalkInPreviewShift[] = activeAdvanceAppointments.flatMap(appointment => {
-    const assignment = assignmentById.get(appointment.id);
-    if (!assignment) {
-      return [];
-    }
-
-    // Denormalize comparison
-    const originalGlobalIndex = appointment.slotIndex || 0;
-    const newGlobalIndex = toGlobal(assignment.slotIndex);
-
-    if (originalGlobalIndex === newGlobalIndex) {
-      return [];
-    }
-
-    return [
-      {
-        id: appointment.id,
-        tokenNumber: appointment.tokenNumber,
-        fromSlot: originalGlobalIndex,
-        toSlot: newGlobalIndex, // DENORMALIZE
-        fromTime: appointment.time ? parseClinicTime(appointment.time, date) : null,
-        toTime: assignment.slotTime,
-      },
-    ];
-  });
-
-  const rawPlaceholderAssignment = assignmentById.get(placeholderId) ?? null;
-  let placeholderAssignment: SchedulerAssignment | null = null;
-
-  if (rawPlaceholderAssignment) {
-    placeholderAssignment = {
-      ...rawPlaceholderAssignment,
-      slotIndex: toGlobal(rawPlaceholderAssignment.slotIndex) // DENORMALIZE
-    };
-  }
-
-  const walkInAssignments = schedule.assignments
-    .filter(assignment => assignment.id !== placeholderId)
-    .map(a => ({
-      ...a,
-      slotIndex: toGlobal(a.slotIndex) // DENORMALIZE
-    }));
+  const result = planWalkInPreview(
+    { doctor, date, slots, appointments, walkInTokenAllotment },
+    now
+  );
 
   if (DEBUG) {
     console.group('[walk-in preview] result');
-    console.info('placeholder', placeholderAssignment);
-    console.info('advance shifts', advanceShifts);
-    console.info('walk-in assignments', walkInAssignments);
+    console.info('placeholder', result.placeholderAssignment);
+    console.info('advance shifts', result.advanceShifts);
+    console.info('walk-in assignments', result.walkInAssignments);
     console.groupEnd();
   }
 
-  return { placeholderAssignment, advanceShifts, walkInAssignments };
+  return result;
 }
 export async function rebalanceWalkInSchedule(
   firestore: Firestore,
   clinicId: string,
   doctorName: string,
   date: Date,
-  doctorId?: string
+  doctorId?: string,
+  eventContext: Pick<AppointmentMutationContext, 'actor' | 'source'> = { actor: getSystemActor(firestore), source: 'system' }
 ): Promise<void> {
   const DEBUG = process.env.NEXT_PUBLIC_DEBUG_WALK_IN === 'true';
   const now = getClinicNow();
@@ -2904,184 +2499,30 @@ export async function rebalanceWalkInSchedule(
       fetchDayAppointments(firestore, clinicId, doctorName, date)
     ];
 
-  const [{ slots: allSlots, doctor }, appointments] = await Promise.all(fetchPromises);
-  const averageConsultingTime = doctor.averageConsultingTime || 15;
+  const [{ slots, doctor }, appointments] = await Promise.all(fetchPromises);
 
   const clinicSnap = await getDoc(doc(firestore, 'clinics', clinicId));
   const rawSpacing = clinicSnap.exists() ? Number(clinicSnap.data()?.walkInTokenAllotment ?? 0) : 0;
-  const walkInSpacingValue = Number.isFinite(rawSpacing) && rawSpacing > 0 ? Math.floor(rawSpacing) : 0;
-
-  // Identify "Active Session" (Consistency with calculateWalkInDetails)
-  const activeSessionIndex = (() => {
-    if (allSlots.length === 0) return 0;
-    const sessionMap = new Map<number, { start: Date; end: Date }>();
-    allSlots.forEach((s: any) => {
-      const current = sessionMap.get(s.sessionIndex);
-      if (!current) {
-        sessionMap.set(s.sessionIndex, { start: s.time, end: s.time });
-      } else {
-        if (isBefore(s.time, current.start)) current.start = s.time;
-        if (isAfter(s.time, current.end)) current.end = s.time;
-      }
-    });
-    const sortedSessions = Array.from(sessionMap.entries()).sort((a, b) => a[0] - b[0]);
-    for (const [sIdx, range] of sortedSessions) {
-      if (!isAfter(now, range.end) && !isBefore(now, subMinutes(range.start, 30))) {
-        return sIdx;
-      }
-    }
-    return null;
-  })();
-
-  const targetSessionIndex = activeSessionIndex ?? 0;
-  const sessionBaseIndex = targetSessionIndex * 1000;
-
-  // Filter slots
-  const slots = allSlots.filter((s: any) => s.sessionIndex === targetSessionIndex);
-
-  const sessionAppointments = appointments.filter((appointment: any) => {
-    if (typeof appointment.sessionIndex === 'number') {
-      return appointment.sessionIndex === targetSessionIndex;
-    }
-    if (typeof appointment.slotIndex === 'number') {
-      if (targetSessionIndex === 0) return appointment.slotIndex < 1000;
-      return appointment.slotIndex >= sessionBaseIndex && appointment.slotIndex < sessionBaseIndex + 1000;
-    }
-    return false;
-  });
-
-  const activeAdvanceAppointments = sessionAppointments.filter(appointment => {
-    return (
-      appointment.bookedVia !== 'Walk-in' &&
-      typeof appointment.slotIndex === 'number' &&
-      ACTIVE_STATUSES.has(appointment.status)
-    );
-  });
-
-  const activeWalkIns = sessionAppointments.filter(appointment => {
-    return (
-      appointment.bookedVia === 'Walk-in' &&
-      typeof appointment.slotIndex === 'number' &&
-      ACTIVE_STATUSES.has(appointment.status)
-    );
-  });
-
-  if (activeWalkIns.length === 0) {
-    return;
-  }
-
-  // Normalize
-  const toRelative = (idx: number) => {
-    const raw = idx % 10000;
-    if (raw >= sessionBaseIndex && raw < sessionBaseIndex + 1000) {
-      return raw - sessionBaseIndex;
-    }
-    const sessionFirstSlotIdx = slots.length > 0 ? slots[0].index : sessionBaseIndex;
-    if (raw < 1000 && raw >= sessionFirstSlotIdx) {
-      return raw - sessionFirstSlotIdx;
-    }
-    return raw;
-  };
-  const toGlobal = (idx: number) => idx + sessionBaseIndex;
-
-  const normalizedAdvanceAppointments = activeAdvanceAppointments.map(entry => ({
-    id: getTaggedId(entry),
-    slotIndex: toRelative(entry.slotIndex || 0),
-  }));
+  const walkInTokenAllotment = Number.isFinite(rawSpacing) && rawSpacing > 0 ? Math.floor(rawSpacing) : 0;
 
-  // 3b. Bucket Logic for Rebalance
-  const bucketSlots = sessionAppointments.filter(appt => {
-    return (
-      (appt.status === 'Cancelled' || appt.status === 'No-show') &&
-      typeof appt.slotIndex === 'number'
-    );
-  }).filter(cancelledAppt => {
-    return activeWalkIns.some(w => (w.slotIndex || 0) > (cancelledAppt.slotIndex || 0));
-  });
+  const transitions = planWalkInRebalance(
+    { doctor, date, slots, appointments, walkInTokenAllotment },
+    now
+  );
 
-  if (bucketSlots.length > 0) {
-    bucketSlots.forEach(slot => {
-      normalizedAdvanceAppointments.push({
-        id: `__blocked_bucket_${slot.id}`,
-        slotIndex: toRelative(slot.slotIndex || 0)
-      });
-    });
+  if (DEBUG) {
+    console.info('[patient booking] rebalance transitions', transitions);
   }
 
-  const walkInCandidates = activeWalkIns.map(appointment => ({
-    id: getTaggedId(appointment),
-    numericToken: typeof appointment.numericToken === 'number' ? appointment.numericToken : 0,
-    createdAt: toDate(appointment.createdAt),
-    currentSlotIndex: toRelative(appointment.slotIndex || 0),
-  }));
-
-  // NORMALIZE SLOTS: Scheduler expects slots to match the index space of appointments.
-  // ROBUST FIX: Normalize indices relative to the first slot of the session.
-  const previewFirstSlotIndex = slots.length > 0 ? slots[0].index : sessionBaseIndex;
-
-  const normalizedSlots = slots.map(s => ({
-    ...s,
-    index: s.index - previewFirstSlotIndex
-  }));
-  const schedule = computeWalkInSchedule({
-    slots: normalizedSlots,
-    now,
-    walkInTokenAllotment: walkInSpacingValue,
-    advanceAppointments: normalizedAdvanceAppointments,
-    walkInCandidates,
-  });
-
-  if (DEBUG) {
-    console.info('[patient booking] rebalance schedule', schedule.assignments);
+  if (transitions.length === 0) {
+    return;
   }
 
   await runTransaction(firestore, async transaction => {
-    const assignmentById = new Map(schedule.assignments.map(assignment => [assignment.id, assignment]));
-
-    for (const appointment of activeAdvanceAppointments) {
-      const taggedId = getTaggedId(appointment);
-      const assignment = assignmentById.get(taggedId);
-      if (!assignment) continue;
-
-      const currentSlotIndex = typeof appointment.slotIndex === 'number' ? appointment.slotIndex : -1;
-      const newSlotIndex = toGlobal(assignment.slotIndex);
-      const newTimeString = getClinicTimeString(assignment.slotTime);
-
-      if (currentSlotIndex === newSlotIndex && appointment.time === newTimeString) {
-        continue;
-      }
-
-      const appointmentRef = doc(firestore, 'appointments', appointment.id);
-      transaction.update(appointmentRef, {
-        slotIndex: newSlotIndex,
-        sessionIndex: targetSessionIndex,
-        time: newTimeString,
-        cutOffTime: subMinutes(assignment.slotTime, averageConsultingTime),
-        noShowTime: addMinutes(assignment.slotTime, averageConsultingTime),
-      });
-    }
-
-    for (const appointment of activeWalkIns) {
-      const taggedId = getTaggedId(appointment);
-      const assignment = assignmentById.get(taggedId);
-      if (!assignment) continue;
-
-      const currentSlotIndex = typeof appointment.slotIndex === 'number' ? appointment.slotIndex : -1;
-      const newSlotIndex = toGlobal(assignment.slotIndex);
-      const newTimeString = getClinicTimeString(assignment.slotTime);
-
-      if (currentSlotIndex === newSlotIndex && appointment.time === newTimeString) {
-        continue;
-      }
-
-      const appointmentRef = doc(firestore, 'appointments', appointment.id);
-      transaction.update(appointmentRef, {
-        slotIndex: newSlotIndex,
-        sessionIndex: targetSessionIndex,
-        time: newTimeString,
-        cutOffTime: subMinutes(assignment.slotTime, averageConsultingTime),
-        noShowTime: addMinutes(assignment.slotTime, averageConsultingTime),
-      });
+    for (const transition of transitions) {
+      if (transition.type !== 'update') continue;
+      const before = appointments.find(appointment => appointment.id === transition.appointmentId) ?? { id: transition.appointmentId };
+      applyAppointmentMutation(transaction, firestore, before, transition.changes, { ...eventContext, action: 'rebalanced' });
     }
   });
 
@@ -3089,4 +2530,3 @@ export async function rebalanceWalkInSchedule(
     console.info('[patient booking] rebalance complete');
   }
 }
-
@@ -7,7 +7,17 @@
 
 import { format, parse, addMinutes, subMinutes, differenceInMinutes, isAfter, isBefore, parseISO, isSameDay, isSameMinute } from 'date-fns';
 import type { Doctor, BreakPeriod, AvailabilitySlot, Appointment } from '@kloqo/shared-types';
-import { getClinicDateString, getClinicDayOfWeek, getClinicTimeString, getClinicISOString, getClinicNow, getClinicShortDateString } from './date-utils';
+import {
+  getClinicDateString,
+  getClinicDateTime,
+  getClinicDayOfWeek,
+  getClinicTimeString,
+  getClinicISOString,
+  getClinicNow,
+  getClinicShortDateString,
+  type ClinicTimeContext,
+} from './date-utils';
+import { getDateKeyedEntry } from './date-keys';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -43,30 +53,14 @@ export interface BreakValidationResult {
 // HELPER: Parse Time Utility
 // ============================================================================
 
-export function parseTime(timeStr: string, referenceDate: Date): Date {
+export function parseTime(timeStr: string, referenceDate: Date, context?: ClinicTimeContext): Date {
   const localParsed = parse(timeStr, 'hh:mm a', referenceDate);
 
   try {
-    // Extract components from the local interpretation
-    const hours = localParsed.getHours();
-    const minutes = localParsed.getMinutes();
-
-    // Get the year, month, day in IST for the reference date
-    const dayFormatter = new Intl.DateTimeFormat('en-GB', {
-      timeZone: 'Asia/Kolkata',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-    });
-    const parts = dayFormatter.formatToParts(referenceDate);
-    const y = parts.find(p => p.type === 'year')?.value;
-    const m = parts.find(p => p.type === 'month')?.value;
-    const d = parts.find(p => p.type === 'day')?.value;
-
-    // Construct a standard IST ISO string and parse it
-    // This ensures the resulting Date object represents the CORRECT absolute UTC moment
-    const isoStr = `${y}-${m}-${d}T${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00+05:30`;
-    const finalDate = new Date(isoStr);
+    // Take the hours and minutes as written, on the reference date's day in the clinic's timezone,
+    // so the result is the correct absolute moment whatever the runtime's own timezone is
+    const [y, m, d] = getClinicISOString(referenceDate, context).split('-').map(Number);
+    const finalDate = getClinicDateTime(y, m - 1, d, localParsed.getHours(), localParsed.getMinutes(), context);
 
     return isNaN(finalDate.getTime()) ? localParsed : finalDate;
   } catch (err) {
@@ -84,12 +78,12 @@ export function parseTime(timeStr: string, referenceDate: Date): Date {
 export function getSessionBreaks(
   doctor: Doctor | null,
   date: Date,
-  sessionIndex: number
+  sessionIndex: number,
+  context?: ClinicTimeContext
 ): BreakPeriod[] {
   if (!doctor?.breakPeriods) return [];
 
-  const dateKey = getClinicDateString(date);
-  const allBreaks = doctor.breakPeriods[dateKey] || [];
+  const allBreaks = getDateKeyedEntry(doctor.breakPeriods, date, context) || [];
 
   return allBreaks.filter(bp => bp.sessionIndex === sessionIndex);
 }
@@ -212,7 +206,8 @@ export function calculateSessionExtension(
   originalSessionEnd: Date,
   appointments?: Appointment[],
   doctor?: Doctor | null,
-  referenceDate?: Date
+  referenceDate?: Date,
+  context?: ClinicTimeContext
 ): {
   totalBreakMinutes: number;
   actualExtensionNeeded: number;
@@ -228,13 +223,13 @@ export function calculateSessionExtension(
       totalBreakMinutes,
       actualExtensionNeeded: totalBreakMinutes,
       newSessionEnd: newEnd,
-      formattedNewEnd: getClinicTimeString(newEnd)
+      formattedNewEnd: getClinicTimeString(newEnd, context)
     };
   }
 
   // Calculate actual extension needed based on gap absorption
   const slotDuration = doctor.averageConsultingTime || 15;
-  const dateStr = getClinicDateString(referenceDate);
+  const dateStr = getClinicDateString(referenceDate, context);
 
   // Filter appointments for this session and date
   const sessionAppointments = appointments.filter(apt =>
@@ -257,12 +252,12 @@ export function calculateSessionExtension(
 
   // Get all slot indices covered by breaks
   const breakSlotIndices = new Set<number>();
-  const dayOfWeek = getClinicDayOfWeek(referenceDate);
+  const dayOfWeek = getClinicDayOfWeek(referenceDate, context);
   const availabilityForDay = doctor.availabilitySlots?.find(slot => slot.day === dayOfWeek);
 
   if (availabilityForDay?.timeSlots?.[sessionIndex]) {
     const session = availabilityForDay.timeSlots[sessionIndex];
-    const sessionStart = parseTime(session.from, referenceDate);
+    const sessionStart = parseTime(session.from, referenceDate, context);
 
     breaks.forEach(bp => {
       const breakStart = parseISO(bp.startTime);
@@ -294,7 +289,7 @@ export function calculateSessionExtension(
     totalBreakMinutes,
     actualExtensionNeeded,
     newSessionEnd: newEnd,
-    formattedNewEnd: getClinicTimeString(newEnd)
+    formattedNewEnd: getClinicTimeString(newEnd, context)
   };
 }
 
@@ -310,11 +305,12 @@ export function calculateSessionExtension(
 export function getCurrentActiveSession(
   doctor: Doctor | null,
   now: Date,
-  referenceDate: Date
+  referenceDate: Date,
+  context?: ClinicTimeContext
 ): SessionInfo | null {
   if (!doctor?.availabilitySlots?.length) return null;
 
-  const dayOfWeek = getClinicDayOfWeek(referenceDate);
+  const dayOfWeek = getClinicDayOfWeek(referenceDate, context);
   const availabilityForDay = doctor.availabilitySlots.find(slot => slot.day === dayOfWeek);
 
   if (!availabilityForDay || !availabilityForDay.timeSlots?.length) {
@@ -328,15 +324,14 @@ export function getCurrentActiveSession(
   // Check each session to find active or next upcoming
   for (let i = 0; i < sessions.length; i++) {
     const session = sessions[i];
-    const sessionStart = parseTime(session.from, referenceDate);
-    const sessionEnd = parseTime(session.to, referenceDate);
+    const sessionStart = parseTime(session.from, referenceDate, context);
+    const sessionEnd = parseTime(session.to, referenceDate, context);
 
     // Get breaks for this session
-    const breaks = getSessionBreaks(doctor, referenceDate, i);
+    const breaks = getSessionBreaks(doctor, referenceDate, i, context);
 
     // Check for stored extension (respects user's choice to extend or not)
-    const dateKey = getClinicDateString(referenceDate);
-    const storedExtension = doctor.availabilityExtensions?.[dateKey]?.sessions?.find(
+    const storedExtension = getDateKeyedEntry(doctor.availabilityExtensions, referenceDate, context)?.sessions?.find(
       (s: any) => s.sessionIndex === i
     );
 
@@ -377,15 +372,14 @@ export function getCurrentActiveSession(
   // If no active session, return next upcoming session
   for (let i = 0; i < sessions.length; i++) {
     const session = sessions[i];
-    const sessionStart = parseTime(session.from, referenceDate);
-    const sessionEnd = parseTime(session.to, referenceDate);
+    const sessionStart = parseTime(session.from, referenceDate, context);
+    const sessionEnd = parseTime(session.to, referenceDate, context);
 
     if (isAfter(sessionStart, now)) {
-      const breaks = getSessionBreaks(doctor, referenceDate, i);
+      const breaks = getSessionBreaks(doctor, referenceDate, i, context);
 
       // Check for stored extension (respects user's choice to extend or not)
-      const dateKey = getClinicDateString(referenceDate);
-      const storedExtension = doctor.availabilityExtensions?.[dateKey]?.sessions?.find(
+      const storedExtension = getDateKeyedEntry(doctor.availabilityExtensions, referenceDate, context)?.sessions?.find(
         (s: any) => Number(s.sessionIndex) === i
       );
 
@@ -434,7 +428,8 @@ export function getAvailableBreakSlots(
   referenceDate: Date,
   currentSessionOverride?: SessionInfo | null,
   appointments?: Appointment[],
-  doctorStatus: 'In' | 'Out' = 'Out'
+  doctorStatus: 'In' | 'Out' = 'Out',
+  context?: ClinicTimeContext
 ): {
   currentSessionSlots: SlotInfo[];
   upcomingSessionSlots: Map<number, SlotInfo[]>;
@@ -446,14 +441,14 @@ export function getAvailableBreakSlots(
 
   if (!doctor?.availabilitySlots?.length) return result;
 
-  const currentSession = currentSessionOverride ?? getCurrentActiveSession(doctor, now, referenceDate);
+  const currentSession = currentSessionOverride ?? getCurrentActiveSession(doctor, now, referenceDate, context);
   console.log('[BreakHelpers] getAvailableBreakSlots: currentSession detection', {
     index: currentSession?.sessionIndex,
     isOverride: !!currentSessionOverride
   });
   if (!currentSession) return result;
 
-  const dayOfWeek = getClinicDayOfWeek(referenceDate);
+  const dayOfWeek = getClinicDayOfWeek(referenceDate, context);
   const availabilityForDay = doctor.availabilitySlots.find(slot => slot.day === dayOfWeek);
   if (!availabilityForDay) return result;
 
@@ -479,11 +474,11 @@ export function getAvailableBreakSlots(
 
       let isBlocked = false;
       if (!isTaken && appointments) {
-        const referenceDateStr = getClinicDateString(referenceDate);
+        const referenceDateStr = getClinicDateString(referenceDate, context);
         const appointmentAtSlot = appointments.find(apt =>
           (apt.status === 'Completed') &&
           (apt.date === referenceDateStr) &&
-          apt.time === getClinicTimeString(currentTime)
+          apt.time === getClinicTimeString(currentTime, context)
         );
 
         if (appointmentAtSlot) {
@@ -492,7 +487,7 @@ export function getAvailableBreakSlots(
 
           if (isDummy && doctorStatus === 'In') {
             // Find if this slot falls within an active break period
-            const breakForSlot = doctor?.breakPeriods?.[referenceDateStr]?.find(bp => {
+            const breakForSlot = getDateKeyedEntry(doctor?.breakPeriods, referenceDateStr)?.find(bp => {
               const start = new Date(bp.startTime);
               const end = new Date(bp.endTime);
               return currentTime.getTime() >= start.getTime() && currentTime.getTime() < end.getTime();
@@ -516,7 +511,7 @@ export function getAvailableBreakSlots(
 
       result.currentSessionSlots.push({
         time: new Date(currentTime),
-        timeFormatted: getClinicTimeString(currentTime),
+        timeFormatted: getClinicTimeString(currentTime, context),
         isoString,
         isAvailable: !isTaken && !isBlocked,
         isTaken,
@@ -531,10 +526,10 @@ export function getAvailableBreakSlots(
   // Generate slots for upcoming sessions
   for (let i = currentSession.sessionIndex + 1; i < availabilityForDay.timeSlots.length; i++) {
     const session = availabilityForDay.timeSlots[i];
-    const sessionStart = parseTime(session.from, referenceDate);
+    const sessionStart = parseTime(session.from, referenceDate, context);
     // FIX: Use getSessionEnd to account for extensions in upcoming sessions
-    const sessionEnd = getSessionEnd(doctor, referenceDate, i) || parseTime(session.to, referenceDate);
-    const sessionBreaks = getSessionBreaks(doctor, referenceDate, i);
+    const sessionEnd = getSessionEnd(doctor, referenceDate, i, context) || parseTime(session.to, referenceDate, context);
+    const sessionBreaks = getSessionBreaks(doctor, referenceDate, i, context);
     const takenSlotsForSession = new Set(sessionBreaks.flatMap(b => b.slots));
 
     const sessionSlots: SlotInfo[] = [];
@@ -549,17 +544,17 @@ export function getAvailableBreakSlots(
         let isBlocked = false;
         // Also check against appointments if provided
         if (!isTaken && appointments) {
-          const referenceDateStr = getClinicDateString(referenceDate);
+          const referenceDateStr = getClinicDateString(referenceDate, context);
           const appointmentAtSlot = appointments.find(apt =>
             (apt.status === 'Completed') &&
             (apt.date === referenceDateStr) &&
-            apt.time === getClinicTimeString(slotTime)
+            apt.time === getClinicTimeString(slotTime, context)
           );
 
           if (appointmentAtSlot) {
             const isDummy = appointmentAtSlot.patientId === 'dummy-break-patient' || (appointmentAtSlot as any).cancelledByBreak;
             if (isDummy && doctorStatus === 'In') {
-              const breakForSlot = doctor?.breakPeriods?.[referenceDateStr]?.find(bp => {
+              const breakForSlot = getDateKeyedEntry(doctor?.breakPeriods, referenceDateStr)?.find(bp => {
                 const start = new Date(bp.startTime);
                 const end = new Date(bp.endTime);
                 return slotTime.getTime() >= start.getTime() && slotTime.getTime() < end.getTime();
@@ -582,7 +577,7 @@ export function getAvailableBreakSlots(
 
         sessionSlots.push({
           time: new Date(slotTime),
-          timeFormatted: getClinicTimeString(slotTime),
+          timeFormatted: getClinicTimeString(slotTime, context),
           isoString,
           isAvailable: !isTaken && !isBlocked,
           isTaken,
@@ -613,29 +608,29 @@ export function getAvailableBreakSlots(
 export function getSessionEnd(
   doctor: Doctor | null,
   date: Date,
-  sessionIndex: number
+  sessionIndex: number,
+  context?: ClinicTimeContext
 ): Date | null {
   if (!doctor?.availabilitySlots?.length) return null;
 
-  const dayOfWeek = getClinicDayOfWeek(date);
+  const dayOfWeek = getClinicDayOfWeek(date, context);
   const availabilityForDay = doctor.availabilitySlots.find(slot => slot.day === dayOfWeek);
 
   if (!availabilityForDay || !availabilityForDay.timeSlots?.length) return null;
   if (sessionIndex >= availabilityForDay.timeSlots.length) return null;
 
   const session = availabilityForDay.timeSlots[sessionIndex];
-  let sessionEnd = parseTime(session.to, date);
+  let sessionEnd = parseTime(session.to, date, context);
 
   // Check for extensions
-  const dateKey = getClinicDateString(date);
-  const extensions = doctor.availabilityExtensions?.[dateKey];
+  const extensions = getDateKeyedEntry(doctor.availabilityExtensions, date, context);
 
   if (extensions?.sessions) {
     const sessionExtension = extensions.sessions.find((s: any) => Number(s.sessionIndex) === sessionIndex);
     // Only extend if totalExtendedBy > 0 (user explicitly chose to extend)
     if (sessionExtension && sessionExtension.totalExtendedBy > 0 && sessionExtension.newEndTime) {
       try {
-        const extendedEnd = parseTime(sessionExtension.newEndTime, date);
+        const extendedEnd = parseTime(sessionExtension.newEndTime, date, context);
         if (extendedEnd.getTime() > sessionEnd.getTime()) {
           sessionEnd = extendedEnd;
         }
@@ -658,7 +653,8 @@ export function getSessionEnd(
 export function createBreakPeriod(
   slots: string[],  // ISO timestamps
   sessionIndex: number,
-  slotDuration: number
+  slotDuration: number,
+  context?: ClinicTimeContext
 ): BreakPeriod {
   const sortedSlots = slots.map(s => parseISO(s)).sort((a, b) => a.getTime() - b.getTime());
   const start = sortedSlots[0];
@@ -671,11 +667,12 @@ export function createBreakPeriod(
     id: `break-${start.getTime()}`,
     startTime: start.toISOString(),
     endTime: end.toISOString(),
-    startTimeFormatted: getClinicTimeString(start),
-    endTimeFormatted: getClinicTimeString(end),
+    startTimeFormatted: getClinicTimeString(start, context),
+    endTimeFormatted: getClinicTimeString(end, context),
     duration,
     sessionIndex,
-    slots
+    slots,
+    dateKey: getClinicISOString(start, context)
   };
 }
 
@@ -695,12 +692,12 @@ export type BreakInterval = {
  */
 export function buildBreakIntervalsFromPeriods(
   doctor: Doctor | null,
-  referenceDate: Date
+  referenceDate: Date,
+  context?: ClinicTimeContext
 ): BreakInterval[] {
   if (!doctor?.breakPeriods) return [];
 
-  const dateKey = getClinicDateString(referenceDate);
-  const breaks = doctor.breakPeriods[dateKey] || [];
+  const breaks = getDateKeyedEntry(doctor.breakPeriods, referenceDate, context) || [];
 
   return breaks.map((bp: BreakPeriod) => ({
     start: parseISO(bp.startTime),
@@ -716,9 +713,10 @@ export function buildBreakIntervalsFromPeriods(
 export function getSessionBreakIntervals(
   doctor: Doctor | null,
   referenceDate: Date,
-  sessionIndex: number
+  sessionIndex: number,
+  context?: ClinicTimeContext
 ): BreakInterval[] {
-  const allIntervals = buildBreakIntervalsFromPeriods(doctor, referenceDate);
+  const allIntervals = buildBreakIntervalsFromPeriods(doctor, referenceDate, context);
   return allIntervals.filter(interval => interval.sessionIndex === sessionIndex);
 }
 
@@ -752,26 +750,27 @@ export function applyBreakOffsets(originalTime: Date, intervals: BreakInterval[]
  */
 export function isWithin15MinutesOfClosing(
   doctor: Doctor | null,
-  date: Date
+  date: Date,
+  context?: ClinicTimeContext
 ): boolean {
   if (!doctor?.availabilitySlots?.length) return false;
 
   const now = getClinicNow();
-  const dateStr = getClinicISOString(date);
-  const todayStr = getClinicISOString(now);
+  const dateStr = getClinicISOString(date, context);
+  const todayStr = getClinicISOString(now, context);
 
   // Only check for today - future dates don't have closing time restrictions
   if (dateStr !== todayStr) return false;
 
   // Get day of week
-  const dayOfWeek = getClinicDayOfWeek(date);
+  const dayOfWeek = getClinicDayOfWeek(date, context);
   const availabilityForDay = doctor.availabilitySlots.find(slot => slot.day === dayOfWeek);
 
   if (!availabilityForDay?.timeSlots?.length) return false;
 
   // Get last session end time
   const lastSession = availabilityForDay.timeSlots[availabilityForDay.timeSlots.length - 1];
-  const lastSessionEndTime = parseTime(lastSession.to, date);
+  const lastSessionEndTime = parseTime(lastSession.to, date, context);
 
   // Check if we're within 15 minutes of closing
   const fifteenMinutesBeforeClosing = subMinutes(lastSessionEndTime, 15);
@@ -783,12 +782,12 @@ export function isWithin15MinutesOfClosing(
 /**
  * Checks if a specific slot time is blocked by a scheduled break or leave
  */
-export function isSlotBlockedByLeave(doctor: Doctor, slotTime: Date): boolean {
+export function isSlotBlockedByLeave(doctor: Doctor, slotTime: Date, context?: ClinicTimeContext): boolean {
   if (!doctor) return false;
 
-  const dateStr = getClinicDateString(slotTime);
-  const isoDateStr = getClinicISOString(slotTime);
-  const shortDateStr = getClinicShortDateString(slotTime);
+  const dateStr = getClinicDateString(slotTime, context);
+  const isoDateStr = getClinicISOString(slotTime, context);
+  const shortDateStr = getClinicShortDateString(slotTime, context);
 
   // Only check breakPeriods (Primary Source of Truth)
   if (doctor.breakPeriods) {
@@ -0,0 +1,143 @@
+/**
+ * Canonical Date Keys
+ *
+ * Appointments, breaks and session extensions were stored against a
+ * "d MMMM yyyy" display date, which can't be sorted or range-queried.
+ * New writes also carry a "yyyy-MM-dd" date key on the clinic's calendar
+ * (and appointments an absolute `slotAt`). These helpers read whichever form a
+ * document has, so data from before the backfill
+ * (scripts/migrate-appointment-date-keys.ts) keeps working.
+ */
+
+import { format, isValid, parse } from 'date-fns';
+import type { Appointment } from '@kloqo/shared-types';
+import {
+  getClinicDateString,
+  getClinicISOString,
+  parseClinicDate,
+  parseClinicTime,
+  type ClinicTimeContext,
+} from './date-utils';
+
+const DATE_KEY_FORMAT = 'yyyy-MM-dd';
+const DISPLAY_DATE_FORMAT = 'd MMMM yyyy';
+const SHORT_DISPLAY_DATE_FORMAT = 'd MMM yyyy';
+
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof (value as { toDate?: () => Date }).toDate === 'function') {
+    try {
+      return (value as { toDate: () => Date }).toDate();
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * True for a real calendar day written as "yyyy-MM-dd".
+ */
+export function isDateKey(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  return isValid(parse(value, DATE_KEY_FORMAT, new Date()));
+}
+
+/**
+ * The date key for a stored date string ("19 October 2026", "19 Oct 2026" or
+ * an existing key) or for an instant, read on the clinic's calendar.
+ * Returns null when the value isn't a date.
+ */
+export function toDateKey(date: string | Date, context?: ClinicTimeContext): string | null {
+  if (date instanceof Date) {
+    return isNaN(date.getTime()) ? null : getClinicISOString(date, context);
+  }
+
+  const value = date?.trim();
+  if (!value) return null;
+  if (isDateKey(value)) return value;
+
+  // Display dates are calendar days already, so no timezone is involved here
+  for (const displayFormat of [DISPLAY_DATE_FORMAT, SHORT_DISPLAY_DATE_FORMAT]) {
+    const parsed = parse(value, displayFormat, new Date());
+    if (isValid(parsed)) return format(parsed, DATE_KEY_FORMAT);
+  }
+  return null;
+}
+
+/**
+ * The "d MMMM yyyy" display date for a date key, as still stored in
+ * `Appointment.date` and used to key doctor break/extension maps.
+ */
+export function toDisplayDate(dateKey: string): string | null {
+  if (!isDateKey(dateKey)) return null;
+  return format(parse(dateKey, DATE_KEY_FORMAT, new Date()), DISPLAY_DATE_FORMAT);
+}
+
+/**
+ * The appointment's date key, derived from its display date when it was booked
+ * before date keys existed.
+ */
+export function getAppointmentDateKey(appointment: Pick<Appointment, 'date' | 'dateKey'>): string | null {
+  if (isDateKey(appointment.dateKey)) return appointment.dateKey;
+  return appointment.date ? toDateKey(appointment.date) : null;
+}
+
+/**
+ * When the appointment's slot starts. Uses `slotAt` when stored, otherwise
+ * reads `date` and `time` on the clinic's clock.
+ */
+export function getAppointmentSlotTime(
+  appointment: Pick<Appointment, 'date' | 'time' | 'dateKey' | 'slotAt'>,
+  context?: ClinicTimeContext
+): Date | null {
+  const stored = toDate(appointment.slotAt);
+  if (stored) return stored;
+
+  const dateKey = getAppointmentDateKey(appointment);
+  if (!dateKey || !appointment.time) return null;
+
+  const slotTime = parseClinicTime(appointment.time, parseClinicDate(dateKey, context), context);
+  return isNaN(slotTime.getTime()) ? null : slotTime;
+}
+
+/**
+ * The `dateKey` and `slotAt` fields to write alongside an appointment's
+ * display `date` and `time`. Fields that can't be worked out are left out,
+ * so the result can always be spread into a write.
+ */
+export function getAppointmentDateFields(
+  date: string,
+  time: string | null | undefined,
+  context?: ClinicTimeContext
+): Pick<Appointment, 'dateKey' | 'slotAt'> {
+  const dateKey = toDateKey(date, context);
+  if (!dateKey) return {};
+
+  const slotAt = time ? parseClinicTime(time, parseClinicDate(dateKey, context), context) : null;
+  return slotAt && !isNaN(slotAt.getTime()) ? { dateKey, slotAt } : { dateKey };
+}
+
+/**
+ * Reads a doctor's `breakPeriods` / `availabilityExtensions` entry for a day,
+ * whether the map is keyed by display date or by date key.
+ */
+export function getDateKeyedEntry<T>(
+  entries: Record<string, T> | null | undefined,
+  date: string | Date,
+  context?: ClinicTimeContext
+): T | undefined {
+  if (!entries) return undefined;
+
+  const dateKey = toDateKey(date, context);
+  const displayDate = date instanceof Date
+    ? (dateKey ? getClinicDateString(date, context) : null)
+    : (dateKey ? toDisplayDate(dateKey) : null);
+
+  const candidates = [typeof date === 'string' ? date : null, displayDate, dateKey];
+  for (const key of candidates) {
+    if (key && entries[key] !== undefined) return entries[key];
+  }
+  return undefined;
+}
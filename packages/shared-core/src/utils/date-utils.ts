@@ -1,33 +1,140 @@
-import { format, parse, addMinutes } from 'date-fns';
+import { parse } from 'date-fns';
+import type { Clinic } from '@kloqo/shared-types';
 
 /**
- * Returns the current time as if it were in the Asia/Kolkata timezone,
- * regardless of the server's local timezone.
- * Useful for consistent scheduling logic on server-side (Next.js API routes).
+ * Clinics without a `timezone` of their own run on India time.
+ */
+export const DEFAULT_CLINIC_TIME_ZONE = 'Asia/Kolkata';
+
+/**
+ * Timezones offered in clinic settings. Any IANA name works in `Clinic.timezone`;
+ * these are the ones clinics are onboarded in.
+ */
+export const CLINIC_TIME_ZONES: { value: string; label: string }[] = [
+    { value: 'Asia/Kolkata', label: 'India (IST, UTC+5:30)' },
+    { value: 'Asia/Dubai', label: 'UAE / Oman (GST, UTC+4)' },
+    { value: 'Asia/Riyadh', label: 'Saudi Arabia / Kuwait / Qatar / Bahrain (UTC+3)' },
+    { value: 'Asia/Kathmandu', label: 'Nepal (UTC+5:45)' },
+    { value: 'Asia/Dhaka', label: 'Bangladesh (UTC+6)' },
+    { value: 'Asia/Colombo', label: 'Sri Lanka (UTC+5:30)' },
+    { value: 'Asia/Singapore', label: 'Singapore / Malaysia (UTC+8)' },
+];
+
+/**
+ * The clinic whose wall clock dates and times are read and written in.
+ * Code that handles several clinics (API routes, crons) passes one built with
+ * getClinicTimeContext; an app signed in to a single clinic can instead set it
+ * once with setClinicTimeZone.
+ */
+export interface ClinicTimeContext {
+    timeZone: string;
+}
+
+let activeTimeZone = DEFAULT_CLINIC_TIME_ZONE;
+
+/**
+ * True for IANA zone names this runtime knows, e.g. "Asia/Dubai".
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+    if (!timeZone) return false;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The time context for a clinic, falling back to India time when it has no
+ * (or an unknown) timezone.
+ */
+export function getClinicTimeContext(clinic?: Pick<Clinic, 'timezone'> | null): ClinicTimeContext {
+    const timeZone = clinic?.timezone;
+    if (timeZone && !isValidTimeZone(timeZone)) {
+        console.warn(`[DateUtils] Unknown clinic timezone "${timeZone}", using ${DEFAULT_CLINIC_TIME_ZONE}`);
+    }
+    return { timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_CLINIC_TIME_ZONE };
+}
+
+/**
+ * Sets the timezone used when no context is passed. Clinic apps call this once
+ * they know which clinic is signed in; pass nothing to go back to the default.
+ */
+export function setClinicTimeZone(timeZone?: string | null): void {
+    activeTimeZone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_CLINIC_TIME_ZONE;
+}
+
+function resolveTimeZone(context?: ClinicTimeContext): string {
+    return context?.timeZone || activeTimeZone;
+}
+
+/**
+ * Minutes the clinic's wall clock is ahead of UTC at the given instant
+ * (330 for India, 240 for Dubai).
+ */
+export function getTimeZoneOffsetMinutes(date: Date, context?: ClinicTimeContext): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+        hourCycle: 'h23',
+        timeZone: resolveTimeZone(context)
+    }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+    const wallClockAsUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+    return Math.round((wallClockAsUtc - (date.getTime() - date.getUTCMilliseconds())) / 60000);
+}
+
+/**
+ * The instant at which the clinic's wall clock shows the given date and time.
+ */
+export function getClinicDateTime(
+    year: number,
+    monthIndex: number,
+    day: number,
+    hours: number,
+    minutes: number,
+    context?: ClinicTimeContext
+): Date {
+    const wallClockAsUtc = Date.UTC(year, monthIndex, day, hours, minutes);
+    // The offset is looked up twice so a clock change between the first guess
+    // and the answer still lands on the right side of it
+    const firstGuess = wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(wallClockAsUtc), context) * 60000;
+    return new Date(wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(firstGuess), context) * 60000);
+}
+
+/**
+ * Returns the current moment. A Date carries no timezone; read the clinic's
+ * local date and time from it with the functions below.
  */
 export function getClinicNow(): Date {
     return new Date();
 }
 
 /**
- * Returns the day of the week (e.g., "Monday") for a given date in the Asia/Kolkata timezone.
+ * Returns the day of the week (e.g., "Monday") for a given date in the clinic's timezone.
  */
-export function getClinicDayOfWeek(date: Date = new Date()): string {
+export function getClinicDayOfWeek(date: Date = new Date(), context?: ClinicTimeContext): string {
     return new Intl.DateTimeFormat('en-US', {
         weekday: 'long',
-        timeZone: 'Asia/Kolkata'
+        timeZone: resolveTimeZone(context)
     }).format(date);
 }
 
 /**
- * Returns the date string (e.g., "d MMMM yyyy") in the Asia/Kolkata timezone.
+ * Returns the date string (e.g., "d MMMM yyyy") in the clinic's timezone.
  */
-export function getClinicDateString(date: Date = new Date()): string {
+export function getClinicDateString(date: Date = new Date(), context?: ClinicTimeContext): string {
     const options: Intl.DateTimeFormatOptions = {
         day: 'numeric',
         month: 'long',
         year: 'numeric',
-        timeZone: 'Asia/Kolkata'
+        timeZone: resolveTimeZone(context)
     };
 
     // Intl format "22 December 2025" or similar depending on locale
@@ -41,14 +148,14 @@ export function getClinicDateString(date: Date = new Date()): string {
 }
 
 /**
- * Returns the time string (e.g., "02:30 PM") in the Asia/Kolkata timezone.
+ * Returns the time string (e.g., "02:30 PM") in the clinic's timezone.
  */
-export function getClinicTimeString(date: Date = new Date()): string {
+export function getClinicTimeString(date: Date = new Date(), context?: ClinicTimeContext): string {
     const options: Intl.DateTimeFormatOptions = {
         hour: '2-digit',
         minute: '2-digit',
         hour12: true,
-        timeZone: 'Asia/Kolkata'
+        timeZone: resolveTimeZone(context)
     };
 
     const parts = new Intl.DateTimeFormat('en-US', options).formatToParts(date);
@@ -60,14 +167,14 @@ export function getClinicTimeString(date: Date = new Date()): string {
 }
 
 /**
- * Returns the ISO date string (e.g., "2025-12-30") in the Asia/Kolkata timezone.
+ * Returns the ISO date string (e.g., "2025-12-30") in the clinic's timezone.
  */
-export function getClinicISOString(date: Date = new Date()): string {
+export function getClinicISOString(date: Date = new Date(), context?: ClinicTimeContext): string {
     const options: Intl.DateTimeFormatOptions = {
         year: 'numeric',
         month: '2-digit',
         day: '2-digit',
-        timeZone: 'Asia/Kolkata'
+        timeZone: resolveTimeZone(context)
     };
 
     const parts = new Intl.DateTimeFormat('en-GB', options).formatToParts(date);
@@ -79,14 +186,14 @@ export function getClinicISOString(date: Date = new Date()): string {
 }
 
 /**
- * Returns the 24-hour time string (e.g., "14:30") in the Asia/Kolkata timezone.
+ * Returns the 24-hour time string (e.g., "14:30") in the clinic's timezone.
  */
-export function getClinic24hTimeString(date: Date = new Date()): string {
+export function getClinic24hTimeString(date: Date = new Date(), context?: ClinicTimeContext): string {
     const options: Intl.DateTimeFormatOptions = {
         hour: '2-digit',
         minute: '2-digit',
-        hour12: false,
-        timeZone: 'Asia/Kolkata'
+        hourCycle: 'h23',
+        timeZone: resolveTimeZone(context)
     };
 
     const parts = new Intl.DateTimeFormat('en-GB', options).formatToParts(date);
@@ -97,14 +204,21 @@ export function getClinic24hTimeString(date: Date = new Date()): string {
 }
 
 /**
- * Returns the short date string (e.g., "12 Dec 2025") in the Asia/Kolkata timezone.
+ * Returns the hour of the day (0-23) on the clinic's clock.
  */
-export function getClinicShortDateString(date: Date = new Date()): string {
+export function getClinicHour(date: Date = new Date(), context?: ClinicTimeContext): number {
+    return Number(getClinic24hTimeString(date, context).slice(0, 2));
+}
+
+/**
+ * Returns the short date string (e.g., "12 Dec 2025") in the clinic's timezone.
+ */
+export function getClinicShortDateString(date: Date = new Date(), context?: ClinicTimeContext): string {
     const options: Intl.DateTimeFormatOptions = {
         day: 'numeric',
         month: 'short',
         year: 'numeric',
-        timeZone: 'Asia/Kolkata'
+        timeZone: resolveTimeZone(context)
     };
 
     const parts = new Intl.DateTimeFormat('en-GB', options).formatToParts(date);
@@ -116,10 +230,10 @@ export function getClinicShortDateString(date: Date = new Date()): string {
 }
 
 /**
- * Parses a time string (e.g., "02:30 PM", "14:30") and a base date, 
- * interpreting the time specifically in the Asia/Kolkata timezone.
+ * Parses a time string (e.g., "02:30 PM", "14:30") and a base date,
+ * interpreting the time on the base date's day in the clinic's timezone.
  */
-export function parseClinicTime(timeStr: string, baseDate: Date): Date {
+export function parseClinicTime(timeStr: string, baseDate: Date, context?: ClinicTimeContext): Date {
     let localDate: Date;
 
     if (timeStr.includes('AM') || timeStr.includes('PM')) {
@@ -132,18 +246,20 @@ export function parseClinicTime(timeStr: string, baseDate: Date): Date {
         localDate = parse(timeStr, 'hh:mm a', baseDate);
     }
 
-    const IST_OFFSET = 330;
-    const systemOffset = -localDate.getTimezoneOffset();
-    const diff = systemOffset - IST_OFFSET;
-    return addMinutes(localDate, diff);
+    if (isNaN(localDate.getTime())) {
+        return localDate; // Return Invalid Date
+    }
+
+    const [year, month, day] = getClinicISOString(baseDate, context).split('-').map(Number);
+    return getClinicDateTime(year, month - 1, day, localDate.getHours(), localDate.getMinutes(), context);
 }
 
 /**
- * Parses a date string (e.g., "4 January 2026", "2026-02-10"), 
- * interpreting it specifically in the Asia/Kolkata timezone.
+ * Parses a date string (e.g., "4 January 2026", "2026-02-10"),
+ * interpreting it as midnight in the clinic's timezone.
  * Returns an "Invalid Date" object if parsing fails.
  */
-export function parseClinicDate(dateStr: string): Date {
+export function parseClinicDate(dateStr: string, context?: ClinicTimeContext): Date {
     let localDate: Date;
 
     // Try YYYY-MM-DD (ISO style) first
@@ -164,13 +280,5 @@ export function parseClinicDate(dateStr: string): Date {
         return localDate; // Return Invalid Date
     }
 
-    localDate.setHours(0, 0, 0, 0);
-    const IST_OFFSET = 330;
-    const systemOffset = -localDate.getTimezoneOffset();
-    const diff = systemOffset - IST_OFFSET;
-    return addMinutes(localDate, diff);
+    return getClinicDateTime(localDate.getFullYear(), localDate.getMonth(), localDate.getDate(), 0, 0, context);
 }
-
-
-
-
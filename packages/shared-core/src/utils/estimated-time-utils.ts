@@ -1,31 +1,47 @@
 import { Appointment, Doctor, BreakPeriod } from '@kloqo/shared-types';
-import { addMinutes, isAfter, isBefore, parse, format, differenceInMinutes } from 'date-fns';
-import { getClinicDayOfWeek, parseClinicTime } from './date-utils';
-import { getCurrentActiveSession } from './break-helpers';
+import { addMinutes, isAfter, isBefore, parse, differenceInMinutes } from 'date-fns';
+import { getClinicDayOfWeek, getClinicTimeString, type ClinicTimeContext } from './date-utils';
+import { getCurrentActiveSession, parseTime } from './break-helpers';
+import { getDateKeyedEntry } from './date-keys';
 
 export interface EstimatedTimeResult {
     appointmentId: string;
     estimatedTime: string; // "hh:mm a"
     isFirst: boolean;
     sessionIndex?: number;
+    latestTime?: string; // "hh:mm a" p90, only when a predictor is given
 }
 
+/**
+ * Predicted p50/p90 consultation minutes for an appointment that starts at `startTime`
+ * as the `position`-th patient of this run (see consultation-time-service).
+ */
+export type ConsultationDurationPredictor = (
+    appointment: Appointment,
+    context: { startTime: Date; position: number }
+) => { p50: number; p90: number };
+
 /**
  * Calculates estimated consultation times for a list of arrived (confirmed) appointments.
  * Accounts for doctor status (In/Out), availability start, and scheduled breaks.
+ * With a predictor, each consultation takes its predicted p50 instead of the flat
+ * average, and `latestTime` carries the p90. Times are read and shown in the
+ * clinic's timezone (`context`).
  */
 export function calculateEstimatedTimes(
     appointments: Appointment[],
     doctor: Doctor,
     currentTime: Date,
-    averageConsultingTime: number = 15
+    averageConsultingTime: number = 15,
+    predictor?: ConsultationDurationPredictor,
+    context?: ClinicTimeContext
 ): EstimatedTimeResult[] {
     if (!appointments.length) return [];
 
     const dateStr = appointments[0].date;
-    const dayOfWeek = getClinicDayOfWeek(currentTime);
+    const dayOfWeek = getClinicDayOfWeek(currentTime, context);
     const availabilityForDay = doctor.availabilitySlots?.find(slot => slot.day === dayOfWeek);
-    const breaksForDay = doctor.breakPeriods?.[dateStr] || [];
+    const breaksForDay = getDateKeyedEntry(doctor.breakPeriods, dateStr) || [];
 
     // 1. Determine the reference start time
     let referenceTime: Date;
@@ -39,7 +55,7 @@ export function calculateEstimatedTimes(
     if (firstActiveAppt && availabilityForDay?.timeSlots && typeof firstActiveAppt.sessionIndex === 'number') {
         const session = availabilityForDay.timeSlots[firstActiveAppt.sessionIndex];
         if (session) {
-            const sessionStart = parseClinicTime(session.from, currentTime);
+            const sessionStart = parseTime(session.from, currentTime, context);
             // If the appointment's session has already started (is in the past), 
             // we treat it as backlog/overtime and start estimates from NOW.
             hasBacklog = isBefore(sessionStart, currentTime);
@@ -50,7 +66,7 @@ export function calculateEstimatedTimes(
         referenceTime = new Date(currentTime);
     } else {
         // Doctor is "Out", use the start of the current/upcoming session
-        const sessionInfo = getCurrentActiveSession(doctor, currentTime, currentTime);
+        const sessionInfo = getCurrentActiveSession(doctor, currentTime, currentTime, context);
         if (sessionInfo) {
             referenceTime = sessionInfo.sessionStart;
         } else {
@@ -62,6 +78,8 @@ export function calculateEstimatedTimes(
     // 2. Iterate through appointments and calculate stepping
     const results: EstimatedTimeResult[] = [];
     let runningTime = new Date(referenceTime);
+    // Variance of the p90 spreads of everyone seen so far
+    let spreadSquared = 0;
 
     // Normalize runningTime to minutes (ignore seconds/ms)
     runningTime.setSeconds(0, 0);
@@ -74,8 +92,8 @@ export function calculateEstimatedTimes(
         while (inBreak) {
             inBreak = false;
             for (const breakPeriod of breaksForDay) {
-                const breakStart = parseClinicTime(breakPeriod.startTimeFormatted, currentTime);
-                const breakEnd = parseClinicTime(breakPeriod.endTimeFormatted, currentTime);
+                const breakStart = parseTime(breakPeriod.startTimeFormatted, currentTime, context);
+                const breakEnd = parseTime(breakPeriod.endTimeFormatted, currentTime, context);
 
                 // Sync Break Cancellation: If doctor is 'In' during an active break, skip the jump
                 const isActiveBreak = currentTime.getTime() >= breakStart.getTime() && currentTime.getTime() < breakEnd.getTime();
@@ -107,15 +125,15 @@ export function calculateEstimatedTimes(
             let inSession = false;
             // sort sessions by start time just in case
             const sortedSessions = [...availabilityForDay.timeSlots].map((s, idx) => ({ ...s, originalIdx: idx })).sort((a, b) => {
-                const aStart = parseClinicTime(a.from, currentTime);
-                const bStart = parseClinicTime(b.from, currentTime);
+                const aStart = parseTime(a.from, currentTime, context);
+                const bStart = parseTime(b.from, currentTime, context);
                 return aStart.getTime() - bStart.getTime();
             });
 
             for (let i = 0; i < sortedSessions.length; i++) {
                 const session = sortedSessions[i];
-                const sessionStart = parseClinicTime(session.from, currentTime);
-                const sessionEnd = parseClinicTime(session.to, currentTime);
+                const sessionStart = parseTime(session.from, currentTime, context);
+                const sessionEnd = parseTime(session.to, currentTime, context);
 
                 // If runningTime is within this session
                 if (runningTime.getTime() >= sessionStart.getTime() && runningTime.getTime() < sessionEnd.getTime()) {
@@ -130,7 +148,7 @@ export function calculateEstimatedTimes(
                     // If we are at session 'i', the previous session is 'i-1'.
                     if (i > 0) {
                         const prevSession = sortedSessions[i - 1];
-                        const prevSessionEnd = parseClinicTime(prevSession.to, currentTime);
+                        const prevSessionEnd = parseTime(prevSession.to, currentTime, context);
 
                         // Gap between prev session end and this session start
                         const totalGap = differenceInMinutes(sessionStart, prevSessionEnd);
@@ -194,7 +212,7 @@ export function calculateEstimatedTimes(
             if (typeof appt.sessionIndex === 'number' && availabilityForDay?.timeSlots) {
                 const targetSession = availabilityForDay.timeSlots[appt.sessionIndex];
                 if (targetSession) {
-                    const targetStart = parseClinicTime(targetSession.from, currentTime);
+                    const targetStart = parseTime(targetSession.from, currentTime, context);
                     // If runningTime (e.g. 8:33 PM) is BEFORE the session start (e.g. 9:30 PM),
                     // we jump forward to the session start.
                     if (isBefore(runningTime, targetStart)) {
@@ -215,13 +233,20 @@ export function calculateEstimatedTimes(
 
         results.push({
             appointmentId: appt.id,
-            estimatedTime: format(runningTime, 'hh:mm a'),
+            estimatedTime: getClinicTimeString(runningTime, context),
             isFirst: index === 0,
-            sessionIndex: detectedSessionIndex
+            sessionIndex: detectedSessionIndex,
+            ...(predictor ? { latestTime: getClinicTimeString(addMinutes(runningTime, Math.round(Math.sqrt(spreadSquared))), context) } : {})
         });
 
         // Increment for the next person
-        runningTime = addMinutes(runningTime, averageConsultingTime);
+        if (predictor) {
+            const step = predictor(appt, { startTime: runningTime, position: index });
+            spreadSquared += (step.p90 - step.p50) ** 2;
+            runningTime = addMinutes(runningTime, Math.round(step.p50));
+        } else {
+            runningTime = addMinutes(runningTime, averageConsultingTime);
+        }
     });
 
     return results;
@@ -0,0 +1,49 @@
+import { getApp } from 'firebase/app';
+import { getAuth } from 'firebase/auth';
+import type { Firestore } from 'firebase/firestore';
+
+export interface NurseAppResponse {
+  ok: boolean;
+  status: number;
+  result: any;
+}
+
+/**
+ * The ID token of whoever is signed in to the firestore's app (the default app
+ * without one): staff in a browser, the server worker on the server.
+ */
+export async function getCurrentIdToken(firestore?: Firestore): Promise<string | null> {
+  try {
+    return await getAuth(firestore ? firestore.app : getApp()).currentUser?.getIdToken() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POSTs to one of the nurse app's API routes as the signed-in user.
+ * Writes only the server worker may make (outbox deliveries, waitlist offers) are
+ * requested from browsers this way. Returns null when nobody is signed in.
+ */
+export async function postToNurseApp(
+  firestore: Firestore,
+  path: string,
+  body: Record<string, unknown>
+): Promise<NurseAppResponse | null> {
+  const baseUrl = process.env.NEXT_PUBLIC_NURSE_APP_URL || 'https://nurse.kloqo.com';
+
+  const idToken = await getCurrentIdToken(firestore);
+  if (!idToken) return null;
+
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  return { ok: response.ok, status: response.status, result };
+}
@@ -0,0 +1,31 @@
+import QRCode from 'qrcode';
+
+/**
+ * QR codes for check-in codes and short links, generated with the `qrcode`
+ * package at error correction level M.
+ */
+
+/**
+ * The modules of a QR code for `text`, row by row (true = dark), without the
+ * quiet zone. Throws if the text does not fit in a QR code.
+ */
+export function encodeQrCode(text: string): boolean[][] {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+    return Array.from({ length: modules.size }, (_, y) =>
+        Array.from({ length: modules.size }, (_, x) => modules.get(y, x) === 1)
+    );
+}
+
+/**
+ * An SVG rendering of the QR code for `text`, with a 4-module quiet zone.
+ */
+export function buildQrCodeSvg(text: string, sizePx = 256): string {
+    const modules = encodeQrCode(text);
+    const count = modules.length + 8;
+    let path = '';
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+        if (dark) path += `M${x + 4},${y + 4}h1v1h-1z`;
+    }));
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${count} ${count}" width="${sizePx}" height="${sizePx}" shape-rendering="crispEdges">` +
+        `<rect width="100%" height="100%" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+}
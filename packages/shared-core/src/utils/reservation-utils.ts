@@ -17,3 +17,21 @@ export function buildReservationDocId(
         .replace(/\s+/g, '_')
         .replace(/[^a-zA-Z0-9_]/g, '');
 }
+
+/**
+ * A reservation written for a waitlist offer keeps its slot until `heldUntil`,
+ * however old `reservedAt` is. Only the offered waitlist entry may book it.
+ */
+export function isReservationHeld(
+    reservationData: { heldUntil?: any } | undefined,
+    now: Date,
+): boolean {
+    const heldUntil = reservationData?.heldUntil;
+    if (!heldUntil) return false;
+    const heldUntilDate: Date = typeof heldUntil.toDate === 'function'
+        ? heldUntil.toDate()
+        : typeof heldUntil.seconds === 'number'
+            ? new Date(heldUntil.seconds * 1000)
+            : new Date(heldUntil);
+    return !isNaN(heldUntilDate.getTime()) && heldUntilDate.getTime() > now.getTime();
+}
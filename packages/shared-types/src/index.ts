@@ -10,6 +10,139 @@ export type AvailabilitySlot = {
 
 // LeaveSlot removed
 
+// Share of a session's slots that advance (A) tokens may take; the rest is kept for walk-ins.
+export type CapacityRule = {
+    day?: string;           // "Monday"; omit to match every day
+    sessionIndex?: number;  // omit to match every session
+    advanceRatio: number;   // 0..1, e.g. 0.6 = 60% advance / 40% walk-in
+};
+
+export type CapacityPolicy = {
+    advanceRatio?: number;  // fallback when no rule matches
+    rules?: CapacityRule[]; // most specific match wins (day + session > day > session)
+};
+
+// Booking convenience fee charged on top of the consultation fee, in rupees.
+export type ConvenienceFeeRule = {
+    type: 'flat' | 'percent';
+    value: number;          // rupees for flat, percent of the consultation fee for percent
+    maxAmount?: number;     // cap for percent fees
+    waived?: boolean;       // shown struck through, not charged
+};
+
+export type PaymentStatus = 'Pending' | 'Paid' | 'Failed' | 'RefundPending' | 'Refunded';
+
+export type Payment = {
+    id: string;
+    clinicId: string;
+    appointmentId: string;
+    patientId: string;
+    gateway: string;            // PaymentGateway.name that holds the intent
+    gatewayIntentId: string;
+    checkoutUrl?: string;
+    currency: 'INR';
+    consultationFee: number;
+    convenienceFee: number;     // 0 when waived
+    amount: number;             // total charged, in rupees
+    status: PaymentStatus;
+    gatewayPaymentId?: string;
+    refundId?: string;
+    failureReason?: string;
+    createdAt?: any;
+    paidAt?: any;
+    refundedAt?: any;
+    updatedAt?: any;
+};
+
+export type SubscriptionPlanId = 'starter' | 'growth' | 'pro';
+
+export type SubscriptionTerm = 'monthly' | 'annual';
+
+// Derived from the renewal date; see getSubscriptionState in shared-core.
+export type SubscriptionStatus = 'Active' | 'GracePeriod' | 'Locked' | 'Cancelled';
+
+// Stored on Clinic.subscription. Clinics without one are on the legacy free plan.
+export type Subscription = {
+    plan: SubscriptionPlanId;
+    term: SubscriptionTerm;
+    price: number;                  // rupees per term
+    maxDoctors: number;
+    maxSeats: number;               // staff logins
+    whatsappMonthlyQuota: number;   // paid WhatsApp templates included per calendar month
+    whatsappPackCredits?: number;   // prepaid credits from WhatsApp packs, used once the quota runs out
+    startDate: string;              // "d MMMM yyyy"
+    renewalDate: string;            // "d MMMM yyyy", the day the paid term ends
+    gracePeriodDays: number;        // days after renewalDate before the clinic is locked
+    cancelled?: boolean;
+    whatsappUsage?: {
+        month: string;              // "yyyy-MM"
+        count: number;
+    };
+    updatedAt?: any;
+};
+
+export type NotificationChannel = 'whatsapp' | 'pwa';
+
+// Languages covered by the shared message catalog and the patient app
+export type Language = 'en' | 'ml' | 'ta' | 'hi';
+
+// Clinic-local "HH:mm" times; a start later than the end wraps past midnight (e.g. 21:00-07:00).
+export type QuietHours = {
+    start: string;
+    end: string;
+};
+
+// Stored on Clinic.notificationPreferences and on the patient's users doc.
+// Each layer can only switch a notification off; a missing entry keeps the layer above.
+export type NotificationPreferences = {
+    types?: Record<string, Partial<Record<NotificationChannel, boolean>>>; // keyed by NotificationType
+    quietHours?: QuietHours | null;
+    updatedAt?: any;
+};
+
+// Pending until the provider accepts it; WhatsApp status webhooks move it on to Delivered / Read.
+export type NotificationOutboxStatus = 'Pending' | 'Sent' | 'Delivered' | 'Read' | 'Failed';
+
+export type NotificationOutboxPayload = {
+    // WhatsApp
+    message?: string;
+    contentSid?: string;        // template name, or 'text_message' for free text
+    contentVariables?: any;
+    free?: boolean;             // sent as inside the 24h session window; a record only, /api/send-sms decides billing
+    // Push
+    userId?: string;
+    fcmToken?: string;
+    title?: string;
+    body?: string;
+    data?: any;
+    language?: string;
+};
+
+// notification_outbox/{id}; the id is the idempotency key when one is given
+export type NotificationOutboxEntry = {
+    id: string;
+    channel: NotificationChannel;
+    notificationType?: string;
+    clinicId?: string;
+    appointmentId?: string;
+    patientId?: string;
+    to?: string;                // WhatsApp phone number
+    payload: NotificationOutboxPayload;
+    status: NotificationOutboxStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt: any;         // Timestamp; also pushed forward while a sender holds the entry
+    lastError?: string;
+    providerMessageId?: string; // WhatsApp message id, matched against status webhooks
+    history: {
+        status: NotificationOutboxStatus;
+        at: string;             // ISO timestamp
+        error?: string;
+    }[];
+    createdAt?: any;
+    updatedAt?: any;
+};
+
 export type BreakPeriod = {
     id: string;  // unique identifier, e.g., "break-1733289600000"
     startTime: string;  // ISO timestamp
@@ -19,6 +152,103 @@ export type BreakPeriod = {
     duration: number;    // minutes
     sessionIndex: number;
     slots: string[];  // array of ISO slot timestamps in this break
+    type?: 'LEAVE';   // set when the break mirrors a DoctorLeave
+    leaveId?: string; // DoctorLeave that created this break
+    dateKey?: string; // "2026-10-19", clinic calendar day of the break
+};
+
+export type DoctorLeave = {
+    id: string;
+    clinicId: string;
+    doctorId: string;
+    doctorName: string;
+    startDate: string;          // "d MMMM yyyy", inclusive
+    endDate: string;            // "d MMMM yyyy", inclusive
+    sessionIndices?: number[];  // omit for whole days
+    reason: string;
+    approvedBy: string;         // user id of the approver
+    approvedByName?: string;
+    approvedAt?: any;
+    status: 'Approved' | 'Cancelled';
+    cancelledAt?: any;
+    createdAt?: any;
+    updatedAt?: any;
+};
+
+// Suggested replacement slot for an appointment cancelled by a DoctorLeave
+export type LeaveRebookProposal = {
+    id: string;
+    leaveId: string;
+    clinicId: string;
+    appointmentId: string;      // the cancelled appointment
+    patientId: string;
+    doctorId: string;
+    doctorName: string;
+    originalDate: string;
+    originalTime: string;
+    proposedDate: string;       // "d MMMM yyyy"
+    proposedTime: string;       // "hh:mm a"
+    proposedSlotIndex: number;
+    proposedSessionIndex: number;
+    status: 'Proposed' | 'Accepted' | 'Declined' | 'Expired';
+    rebookedAppointmentId?: string;
+    createdAt?: any;
+    respondedAt?: any;
+};
+
+// Patient waiting for a slot in a fully booked session (FIFO by createdAt)
+export type WaitlistEntry = {
+    id: string;
+    clinicId: string;
+    doctorId: string;
+    doctorName: string;
+    date: string;               // "d MMMM yyyy"
+    sessionIndex: number;
+    patientId: string;
+    patientName: string;
+    communicationPhone?: string;
+    age?: number;
+    sex?: 'Male' | 'Female' | 'Other' | '';
+    place?: string;
+    status: 'Waiting' | 'Offered' | 'Booked' | 'Declined' | 'Expired' | 'Cancelled';
+    offeredSlotIndex?: number;  // slot held for this entry while Offered
+    offeredTime?: string;       // "hh:mm a"
+    offerExpiresAt?: any;
+    bookedAppointmentId?: string;
+    createdAt?: any;
+    updatedAt?: any;
+};
+
+export type AppointmentSeriesConflict = 'NotWorking' | 'Leave' | 'Break' | 'Full' | 'Past';
+
+export type AppointmentSeriesOccurrence = {
+    date: string;               // "d MMMM yyyy"
+    status: 'Booked' | 'Conflict' | 'Cancelled';
+    appointmentId?: string;
+    time?: string;              // "hh:mm a" of the booked slot
+    conflict?: AppointmentSeriesConflict;
+};
+
+export type AppointmentSeries = {
+    id: string;
+    clinicId: string;
+    doctorId: string;
+    doctorName: string;
+    patientId: string;
+    patientName: string;
+    communicationPhone?: string;
+    age?: number;
+    sex?: 'Male' | 'Female' | 'Other' | '';
+    place?: string;
+    startDate: string;          // "d MMMM yyyy", first occurrence
+    endDate: string;            // "d MMMM yyyy", no occurrence after this day
+    intervalWeeks: number;
+    preferredTime: string;      // "hh:mm a", each occurrence is booked as close to this as possible
+    bookedVia: 'Advanced Booking' | 'Online';
+    status: 'Active' | 'Cancelled';
+    occurrences: AppointmentSeriesOccurrence[];
+    createdAt?: any;
+    updatedAt?: any;
 };
 
 export type Review = {
@@ -37,6 +267,8 @@ export type Review = {
 export type Doctor = {
     id: string;
     clinicId: string;
+    groupId?: string; // set when the clinic belongs to a clinic group
+    groupDoctorId?: string; // shared by this doctor's docs at every branch of the group
     name: string;
     specialty: string;
     avatar: string;
@@ -51,6 +283,7 @@ export type Doctor = {
     bio?: string;
     averageConsultingTime?: number;
     availabilitySlots?: AvailabilitySlot[];
+    capacityPolicy?: CapacityPolicy; // overrides the clinic default
     // leaveSlots removed
     degrees?: string[];
     experience?: number;
@@ -64,11 +297,12 @@ export type Doctor = {
     actualAverageConsultationTimeUpdatedAt?: any;
     reviewList?: Review[];
     breakPeriods?: {
-        [date: string]: BreakPeriod[];  // multiple breaks per date
+        [date: string]: BreakPeriod[];  // multiple breaks per date, keyed "d MMMM yyyy" (read via getDateKeyedEntry)
     };
     updatedAt?: any;
     availabilityExtensions?: {
         [date: string]: {
+            dateKey?: string;  // "2026-10-19"
             sessions: Array<{
                 sessionIndex: number;
                 breaks: BreakPeriod[];  // all breaks in this session
@@ -90,8 +324,10 @@ export type Appointment = {
     communicationPhone: string;
     age: number;
     doctor: string;
-    date: string;
+    date: string; // "d MMMM yyyy" display date, still used by equality queries
     time: string;
+    dateKey?: string; // "yyyy-MM-dd" on the clinic's calendar; sorts and range-queries
+    slotAt?: any; // Timestamp of the slot start (date + time in the clinic's timezone)
     arriveByTime?: string;
     department: string;
     status: 'Confirmed' | 'Pending' | 'Cancelled' | 'Completed' | 'No-show' | 'Skipped';
@@ -106,6 +342,7 @@ export type Appointment = {
     sessionIndex?: number;
     createdAt?: any;
     completedAt?: any;
+    consultationRecordId?: string; // set once the doctor has written the visit notes / prescription
     reviewed?: boolean;
     reviewId?: string;
     skippedAt?: any; // Timestamp when appointment was marked as Skipped
@@ -115,6 +352,11 @@ export type Appointment = {
     delay?: number; // Delay in minutes added when W tokens are inserted before this appointment
     doctorDelayMinutes?: number; // Delay in minutes due to doctor not starting on time (for display only, doesn't affect status transitions)
     cancellationReason?: string;
+    leaveId?: string; // DoctorLeave that cancelled this appointment
+    waitlistEntryId?: string; // WaitlistEntry this appointment was booked from
+    seriesId?: string; // AppointmentSeries this appointment belongs to
+    paymentId?: string; // Payment collected online for this booking
+    paymentStatus?: PaymentStatus;
     isForceBooked?: boolean; // True if walk-in was force booked outside normal availability
     cancelledByBreak?: boolean; // True if appointment was effectively cancelled due to a break insertion (shifted to a new slot)
     isRescheduled?: boolean; // True if appointment was cancelled due to a reschedule or is the result of a reschedule
@@ -129,6 +371,106 @@ export type Appointment = {
     whatsappReminder7AMSent?: boolean;
 };
 
+export type AppointmentEventSource = 'clinic-admin' | 'nurse-app' | 'patient-app' | 'superadmin' | 'kiosk' | 'whatsapp' | 'system';
+
+export type AppointmentEventAction =
+    | 'completed'
+    | 'skipped'
+    | 'no_show'
+    | 'cancelled'
+    | 'priority_added'
+    | 'priority_removed'
+    | 'slot_shifted'       // moved up after an earlier patient was skipped
+    | 'shifted_for_break'  // re-created in a later slot when a break was scheduled
+    | 'rebalanced'         // walk-in scheduler moved the slot
+    | 'patient_merged'     // moved to the surviving record when duplicate patients were merged
+    | 'checked_in'         // patient marked themselves arrived at the reception kiosk
+    | 'updated';
+
+export type AppointmentEventActor = {
+    type: 'user' | 'system';
+    id: string | null;       // user uid; for automation, the uid of the signed-in device if any
+    name: string | null;
+    role?: string | null;
+};
+
+export type AppointmentFieldChange = {
+    before: any;
+    after: any;
+};
+
+// appointment_events/{id}, append-only: written with every appointment mutation, never updated
+export type AppointmentEvent = {
+    id: string;
+    appointmentId: string;
+    clinicId: string;
+    patientId: string | null;
+    tokenNumber: string | null;
+    action: AppointmentEventAction;
+    actor: AppointmentEventActor;
+    source: AppointmentEventSource;
+    reason: string | null;
+    changes: Record<string, AppointmentFieldChange>;
+    previousAppointmentId?: string | null; // set when the appointment was re-created under a new id
+    device?: string | null;
+    createdAt: any;
+};
+
+export type ConsultationBookingType = 'walk-in' | 'advance';
+export type ConsultationVisitType = 'first' | 'follow-up';
+
+// consultation-time-models/{doctorId}, retrained nightly from completedAt history
+export type ConsultationTimeModel = {
+    doctorId: string;
+    trainedAt: string;
+    trainedFrom: string;             // first and last consultation dates in the training window
+    trainedTo: string;
+    sampleCount: number;
+    base: { p50: number; p90: number }; // minutes per consultation
+    factors: {                       // multiplier per feature level, 1 = no effect
+        timeOfDay: Record<string, number>;
+        bookingType: Record<string, number>;
+        visitType: Record<string, number>;
+        fatigue: Record<string, number>;
+    };
+};
+
+export type QueueProjectionEntry = {
+    appointmentId: string;
+    status: 'Pending' | 'Confirmed' | 'Skipped';
+    tokenNumber: string;
+    classicTokenNumber?: string | null;
+    time: string;                    // slot time; for Skipped, when they would rejoin if they arrived now
+    estimatedTime?: string | null;   // "hh:mm a", Confirmed entries only
+    latestEstimatedTime?: string | null; // "hh:mm a" p90 from the doctor's consultation time model, when trained
+    isPriority?: boolean;
+    isInBuffer?: boolean;
+};
+
+// queue-projections/{clinicId_doctorId_date_sessionIndex}, rebuilt server-side whenever the doctor's appointments change
+export type QueueProjection = {
+    id: string;
+    clinicId: string;
+    doctorId: string;
+    doctorName: string;
+    date: string;
+    sessionIndex: number;
+    tokenDistribution: 'classic' | 'advanced';
+    consultationStatus: 'In' | 'Out';
+    entries: QueueProjectionEntry[]; // in consultation order
+    currentAppointmentId: string | null;
+    currentToken: string | null;
+    delayMinutes: number;            // how far the current token is behind its slot time
+    consultationCount: number;
+    breaks: { startTime: string; endTime: string }[]; // the day's breaks, minus those cancelled
+    breakState: {
+        onBreak: boolean;
+        minutesRemaining: number | null;
+        endsAt: string | null;       // "hh:mm a"
+    };
+    updatedAt: string;               // ISO timestamp
+};
+
 export type Patient = {
     id: string;
     primaryUserId?: string;
@@ -148,6 +490,37 @@ export type Patient = {
     isPrimary?: boolean;
     isKloqoMember?: boolean;
     isLinkPending?: boolean;
+    language?: Language; // preferred language for notifications; falls back to the linked user's app language
+};
+
+export type DuplicatePatientReason = 'phone' | 'name' | 'age' | 'sex' | 'place';
+
+// patient-duplicates/{idA_idB}: a pair the duplicate detection job thinks is one person
+export type PatientDuplicateCandidate = {
+    id: string;
+    patientIds: [string, string]; // sorted, so a pair has one doc however it was found
+    clinicIds: string[]; // clinics either record belongs to; their staff review the pair
+    score: number; // 0-1
+    nameSimilarity: number; // 0-1
+    reasons: DuplicatePatientReason[]; // fields that matched
+    status: 'Pending' | 'Merged' | 'Dismissed';
+    detectedAt?: any;
+    reviewedAt?: any;
+    reviewedBy?: AppointmentEventActor;
+    survivorId?: string; // the record kept when merged
+};
+
+// patient-merges/{mergeId}: audit trail; mergedPatient is the deleted record as it was
+export type PatientMergeRecord = {
+    id: string;
+    survivorId: string;
+    mergedPatientId: string;
+    mergedPatient: Patient;
+    movedReferences: Record<string, number>; // collection -> documents re-pointed
+    candidateId?: string;
+    actor: AppointmentEventActor;
+    source: AppointmentEventSource;
+    createdAt?: any;
 };
 
 export type NewRelative = Omit<Patient, 'id' | 'clinicIds' | 'visitHistory' | 'totalAppointments' | 'createdAt' | 'updatedAt' | 'relatedPatientIds'> & { phone?: string };
@@ -164,9 +537,106 @@ export type Clinic = {
     clinicRegNumber?: string;
     tokenDistribution?: 'classic' | 'advanced';
     genderPreference?: 'None' | 'Men' | 'Women';
+    timezone?: string; // IANA zone, e.g. 'Asia/Dubai'; Asia/Kolkata when unset
+    capacityPolicy?: CapacityPolicy; // default for doctors without their own policy
+    onlinePaymentsEnabled?: boolean; // collect the consultation fee when patients book themselves
+    convenienceFee?: ConvenienceFeeRule;
+    subscription?: Subscription;
+    notificationPreferences?: NotificationPreferences;
+    groupId?: string;
     [key: string]: any;
 };
 
+// Several branches run by the same owner. Each branch stays a normal clinic;
+// a doctor who consults at more than one has a doctor doc per branch.
+export type ClinicGroup = {
+    id: string;
+    name: string;
+    clinicIds: string[];
+    createdAt?: any;
+    updatedAt?: any;
+};
+
+export type Vitals = {
+    bloodPressure?: string; // systolic/diastolic, e.g. "120/80"
+    pulse?: number; // beats per minute
+    temperature?: number; // °F
+    weight?: number; // kg
+    spo2?: number; // %
+};
+
+export type Diagnosis = {
+    code?: string; // ICD-10, when the doctor picks one
+    description: string;
+};
+
+export type PrescribedMedication = {
+    name: string;
+    dose: string; // "500 mg", "5 ml"
+    frequency: string; // "1-0-1", "SOS"
+    durationDays: number;
+    instructions?: string; // "after food"
+};
+
+// consultation-records/{appointmentId}: the doctor's notes and prescription for one visit
+export type ConsultationRecord = {
+    id: string;
+    appointmentId: string;
+    clinicId: string;
+    doctorId?: string;
+    doctorName: string;
+    patientId: string;
+    patientName: string;
+    date: string; // appointment date, 'd MMMM yyyy'
+    chiefComplaint: string;
+    vitals?: Vitals;
+    diagnoses: Diagnosis[];
+    medications: PrescribedMedication[];
+    advice?: string;
+    followUpDate?: string; // 'd MMMM yyyy'
+    shareToken: string; // lets the patient open the prescription PDF link without logging in
+    sharedAt?: any; // last time it was sent to the patient
+    createdBy?: AppointmentEventActor;
+    createdAt?: any;
+    updatedAt?: any;
+};
+
+export type PatientDocumentKind = 'lab_report' | 'imaging' | 'prescription' | 'discharge_summary' | 'other';
+
+// patient-documents/{documentId}: a file in the patient's vault. The bytes live in
+// private storage at storagePath and are only served through the document routes.
+export type PatientDocument = {
+    id: string;
+    patientId: string;
+    kind: PatientDocumentKind;
+    title: string;
+    fileName: string;
+    contentType: string;
+    size: number; // bytes
+    storagePath: string;
+    reportDate?: string; // 'd MMMM yyyy', when the test or scan was done
+    uploadedBy: {
+        type: 'patient' | 'staff';
+        id: string;
+        name?: string;
+        clinicId?: string;
+    };
+    sharedWithClinicIds: string[]; // clinics the patient has allowed to see this document
+    createdAt?: any;
+};
+
+export type MedicalTimelineEntry = {
+    id: string;
+    type: 'visit' | 'prescription' | 'document';
+    date: string; // 'd MMMM yyyy'
+    title: string;
+    subtitle?: string;
+    clinicId?: string;
+    appointmentId?: string;
+    consultationRecordId?: string;
+    documentId?: string;
+};
+
 export type Visit = {
     appointmentId: string;
     clinicId?: string;
@@ -211,17 +681,127 @@ export type LiveStatus = {
     returnTime?: string;
 };
 
-export type MobileApp = {
+// Waiting-room "Now Serving" screens. A TV has no login: it shows a pairing code,
+// the owner claims it from clinic-admin, and from then on the TV reads its board
+// through the /api/queue-displays routes with the key it was given.
+export type QueueDisplayLayout = {
+    doctorIds: string[];                // empty = every doctor in the clinic
+    columns: 1 | 2 | 3 | 4;
+    upcomingCount: number;              // next tokens listed under each doctor
+    announcementLanguages: Language[];  // spoken in this order when a token is called
+};
+
+// queue-displays/{displayId}
+export type QueueDisplay = {
     id: string;
     clinicId: string;
-    username: string;
-    password?: string;
-}
+    name: string;
+    layout: QueueDisplayLayout;
+    keyHash: string;                    // sha256 of the TV's key; the key itself is never stored
+    createdAt: any;
+    updatedAt?: any;
+};
+
+// queue-display-pairings/{code}: a TV waiting to be claimed; server-only
+export type QueueDisplayPairing = {
+    code: string;
+    keyHash: string;
+    expiresAt: number;                  // epoch ms
+    displayId?: string;                 // set once the owner claims the code
+};
+
+// token-calls/{id}: written whenever a token is called, for the TVs to announce
+export type TokenCall = {
+    id: string;
+    clinicId: string;
+    doctorName: string;
+    token: string;
+    appointmentId: string;
+    date: string;                       // clinic date, so a TV only queries today's calls
+    calledAt: number;                   // epoch ms
+};
+
+export type NowServingDoctor = {
+    doctorId: string;
+    doctorName: string;
+    department?: string;
+    status: 'consulting' | 'break' | 'out';
+    currentToken: string | null;
+    upcomingTokens: string[];
+    returnTime: string | null;          // clinic time the doctor is back from a break
+};
+
+// What a paired TV polls for; carries tokens only, never patient names
+export type NowServingBoard = {
+    clinicName: string;
+    displayName: string;
+    layout: QueueDisplayLayout;
+    doctors: NowServingDoctor[];
+    calls: TokenCall[];
+    generatedAt: number;
+};
+
+// metrics_daily/{clinicId}_{yyyy-MM-dd} and metrics_daily/platform_{yyyy-MM-dd}: one day of
+// activity, rebuilt by the metrics-rollups cron. Superadmin dashboards read only these.
+// A booking counts on the day it was made, on its clinic's calendar; outcomes count on the
+// appointment's own date.
+export type DailyMetricsRollup = {
+    id: string;
+    scope: 'clinic' | 'platform';
+    clinicId: string | null;
+    dateKey: string;                    // "yyyy-MM-dd"
+    bookings: number;
+    bookingsByChannel: Record<string, number>; // keyed by Appointment.bookedVia
+    completed: number;
+    noShows: number;
+    cancelled: number;                  // reschedules are not counted
+    newPatients: number;                // first ever booking (at this clinic, or anywhere for platform)
+    returningPatients: number;
+    monthlyActivePatients: number;      // first booking this calendar month; a month's sum is its MAU
+    secondBookings: number;             // patients making their second ever booking
+    secondBookingsWithin30Days: number; // ...within 30 days of the first; summed, gives retention
+    whatsappMessages: number;
+    whatsappFailed: number;
+    // Platform only, on India time: clinic and patient sign-ups and totals at the end of the day
+    newClinics?: number;
+    clinicsTotal?: number;
+    clinicsActive?: number;             // onboarding completed (as of the run that built the day)
+    patientSignups?: number;
+    patientsTotal?: number;
+    updatedAt?: any;
+};
+
+// Clinic staff roles. Every staff account keeps role 'clinicAdmin'; staffRole narrows what it may do.
+// Accounts created before staff roles existed have no staffRole and are treated as 'owner'.
+// A 'kiosk' account is a reception tablet paired by the owner, not a person.
+export type StaffRole = 'owner' | 'doctor' | 'receptionist' | 'nurse' | 'readOnly' | 'kiosk';
+
+// kiosk-pairings/{code}: one-time code a new kiosk tablet signs in with; server-only
+export type KioskPairing = {
+    code: string;
+    uid: string;        // the kiosk's users doc
+    clinicId: string;
+    expiresAt: number;  // epoch ms
+};
+
+export type StaffPermission =
+    | 'book_appointment'
+    | 'update_queue'
+    | 'cancel_appointment'
+    | 'force_book'
+    | 'schedule_break'
+    | 'edit_fees'
+    | 'write_prescription'
+    | 'merge_patients'
+    | 'manage_staff';
 
 export type User = {
     uid: string;
     phone: string;
     role?: 'clinicAdmin' | 'patient';
+    staffRole?: StaffRole;
+    doctorId?: string; // staffRole 'doctor': the doctor profile this login belongs to
+    active?: boolean; // false once the owner deactivates the staff account
     patientId?: string;
     clinicId?: string;
     email?: string;
@@ -229,4 +809,6 @@ export type User = {
     designation?: 'Doctor' | 'Owner';
     onboarded?: boolean;
     pwaInstalled?: boolean;
+    notificationPreferences?: NotificationPreferences; // patient accounts only
+    language?: Language; // patient app language
 }
@@ -0,0 +1,67 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+    backtestConsultationTimeModel,
+    extractConsultationSamples,
+} from '../packages/shared-core/src/services/consultation-time-service';
+
+/**
+ * Backtests the learned consultation time model against past days, offline.
+ *
+ * Usage:
+ *   npx ts-node scripts/backtest-consultation-model.ts <appointments.json> [--doctors doctors.json] [--doctor <doctorId>] [--days 14]
+ *
+ * appointments.json and doctors.json are the exports of fetch-appointments.ts and
+ * fetch-doctors.ts. Each of the last --days days is predicted from a model trained
+ * on the days before it, and compared with the doctor's flat averageConsultingTime.
+ */
+function readFlag(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+}
+
+function run() {
+    const [appointmentsArg, ...rest] = process.argv.slice(2);
+    if (!appointmentsArg) {
+        console.error('Usage: npx ts-node scripts/backtest-consultation-model.ts <appointments.json> [--doctors doctors.json] [--doctor <doctorId>] [--days 14]');
+        process.exit(1);
+    }
+
+    const appointments: any[] = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), appointmentsArg), 'utf-8'));
+    const doctorsArg = readFlag(rest, '--doctors');
+    const doctors: any[] = doctorsArg ? JSON.parse(fs.readFileSync(path.resolve(process.cwd(), doctorsArg), 'utf-8')) : [];
+    const onlyDoctor = readFlag(rest, '--doctor');
+    const testDays = Number(readFlag(rest, '--days') || 14);
+
+    const byDoctor = new Map<string, any[]>();
+    appointments
+        .filter(appt => appt.doctorId && (!onlyDoctor || appt.doctorId === onlyDoctor))
+        .forEach(appt => {
+            if (!byDoctor.has(appt.doctorId)) byDoctor.set(appt.doctorId, []);
+            byDoctor.get(appt.doctorId)!.push(appt);
+        });
+
+    console.log('Doctor | Days (model) | Consultations | Model MAE | Flat MAE | p90 coverage');
+    for (const [doctorId, doctorAppointments] of byDoctor) {
+        const doctor = doctors.find(d => d.id === doctorId);
+        const samples = extractConsultationSamples(doctorAppointments);
+        if (samples.length === 0) continue;
+
+        const result = backtestConsultationTimeModel(samples, {
+            doctorId,
+            fallbackMinutes: doctor?.averageConsultingTime || 15,
+            testDays,
+        });
+
+        console.log([
+            doctor?.name || doctorId,
+            `${result.testDays} (${result.modelDays})`,
+            result.samples,
+            `${result.modelMae.toFixed(1)} min`,
+            `${result.flatMae.toFixed(1)} min`,
+            `${Math.round(result.p90Coverage * 100)}%`,
+        ].join(' | '));
+    }
+}
+
+run();
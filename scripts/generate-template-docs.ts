@@ -0,0 +1,19 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { renderTemplateDocs } from '../packages/shared-core/src/services/message-templates';
+
+/**
+ * Regenerates documentation/Twilio_Content_Templates.md from the WhatsApp
+ * template registry in shared-core.
+ *
+ * Usage (from the repo root):
+ *   npx ts-node scripts/generate-template-docs.ts
+ *
+ * Run it after adding or changing a template; the message-templates test
+ * fails while the committed document is out of date.
+ */
+
+const DOC_PATH = path.resolve(process.cwd(), 'documentation/Twilio_Content_Templates.md');
+
+fs.writeFileSync(DOC_PATH, renderTemplateDocs());
+console.log(`Wrote ${DOC_PATH}`);
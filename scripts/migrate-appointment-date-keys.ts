@@ -0,0 +1,272 @@
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import * as fs from 'fs';
+import { FieldPath, Timestamp, type Firestore, type QueryDocumentSnapshot, type WriteBatch } from 'firebase-admin/firestore';
+import { getFirebaseAdmin } from '../packages/shared-core/src/utils/firebase-admin';
+import { getAppointmentDateFields, toDateKey } from '../packages/shared-core/src/utils/date-keys';
+import { getClinicTimeContext, type ClinicTimeContext } from '../packages/shared-core/src/utils/date-utils';
+
+/**
+ * Backfills canonical date keys onto existing data.
+ *
+ * Usage:
+ *   npx ts-node scripts/migrate-appointment-date-keys.ts --dry-run
+ *   npx ts-node scripts/migrate-appointment-date-keys.ts [--restart]
+ *
+ * Appointments get `dateKey` ("yyyy-MM-dd") and `slotAt` (slot start Timestamp)
+ * worked out from their display `date`/`time` in their clinic's timezone.
+ * Doctors get `dateKey` on every break period and availability extension; the
+ * maps stay keyed by display date, which the apps still read directly.
+ *
+ * Documents that already match are left alone, so re-running only fixes what
+ * drifted. Progress is saved to scripts/migrate-date-keys.checkpoint.json
+ * (git-ignored) after every committed batch, and an interrupted run picks up
+ * from there (--restart starts over). --dry-run writes nothing and reports what
+ * would change.
+ *
+ * Runs with the Admin SDK, as the Firestore rules do not let an unauthenticated
+ * client read or write appointments and doctors. Needs FIREBASE_PROJECT_ID,
+ * FIREBASE_CLIENT_EMAIL and FIREBASE_PRIVATE_KEY of a service account.
+ */
+
+// Load env vars from nurse-app
+dotenv.config({ path: path.resolve(process.cwd(), 'apps/nurse-app/.env.local') });
+
+let db: Firestore;
+try {
+    db = getFirebaseAdmin().firestore();
+} catch (error: any) {
+    console.error(`Error: ${error.message} (looked in apps/nurse-app/.env.local)`);
+    process.exit(1);
+}
+
+const BATCH_SIZE = 500; // Firestore batch limit
+const CHECKPOINT_PATH = path.resolve(__dirname, 'migrate-date-keys.checkpoint.json');
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const restart = args.includes('--restart');
+
+type Checkpoint = {
+    appointments?: { lastId: string | null; done: boolean };
+    doctors?: { lastId: string | null; done: boolean };
+};
+
+type Report = {
+    scanned: number;
+    upToDate: number;
+    changed: number;
+    unparseable: Array<{ id: string; value: string }>;
+};
+
+function newReport(): Report {
+    return { scanned: 0, upToDate: 0, changed: 0, unparseable: [] };
+}
+
+function loadCheckpoint(): Checkpoint {
+    if (dryRun || restart || !fs.existsSync(CHECKPOINT_PATH)) return {};
+    return JSON.parse(fs.readFileSync(CHECKPOINT_PATH, 'utf-8'));
+}
+
+function saveCheckpoint(checkpoint: Checkpoint) {
+    if (dryRun) return;
+    fs.writeFileSync(CHECKPOINT_PATH, JSON.stringify(checkpoint, null, 2));
+}
+
+function toMillis(value: any): number | null {
+    if (!value) return null;
+    if (typeof value.toMillis === 'function') return value.toMillis();
+    if (value instanceof Date) return value.getTime();
+    return null;
+}
+
+/**
+ * Walks a collection in document id order, one page per batch, starting after
+ * `lastId`. `visit` queues the page's updates; the batch is committed (unless
+ * dry-running) before `onPage` records progress.
+ */
+async function forEachPage(
+    collectionName: string,
+    lastId: string | null,
+    visit: (docs: QueryDocumentSnapshot[], batch: WriteBatch) => void,
+    onPage: (lastId: string) => void
+) {
+    let cursor = lastId;
+    while (true) {
+        let pageQuery = db.collection(collectionName).orderBy(FieldPath.documentId());
+        if (cursor) pageQuery = pageQuery.startAfter(cursor);
+        const snapshot = await pageQuery.limit(BATCH_SIZE).get();
+        if (snapshot.empty) return;
+
+        const batch = db.batch();
+        visit(snapshot.docs, batch);
+        if (!dryRun) {
+            await batch.commit();
+        }
+
+        cursor = snapshot.docs[snapshot.docs.length - 1].id;
+        onPage(cursor);
+        if (snapshot.size < BATCH_SIZE) return;
+    }
+}
+
+async function loadClinicTimeContexts(): Promise<Map<string, ClinicTimeContext>> {
+    const snapshot = await db.collection('clinics').get();
+    const contexts = new Map<string, ClinicTimeContext>();
+    snapshot.docs.forEach(clinicDoc => contexts.set(clinicDoc.id, getClinicTimeContext(clinicDoc.data())));
+    return contexts;
+}
+
+async function migrateAppointments(checkpoint: Checkpoint, report: Report) {
+    if (checkpoint.appointments?.done) {
+        console.log('Appointments already migrated (see checkpoint), skipping.');
+        return;
+    }
+
+    const clinicContexts = await loadClinicTimeContexts();
+    console.log(`--- Appointments (timezones loaded for ${clinicContexts.size} clinics) ---`);
+
+    await forEachPage('appointments', checkpoint.appointments?.lastId ?? null, (docs, batch) => {
+        docs.forEach(apptDoc => {
+            const data = apptDoc.data();
+            report.scanned += 1;
+
+            const fields = typeof data.date === 'string'
+                ? getAppointmentDateFields(data.date, data.time, clinicContexts.get(data.clinicId) ?? getClinicTimeContext(null))
+                : {};
+            if (!fields.dateKey) {
+                report.unparseable.push({ id: apptDoc.id, value: `${data.date} ${data.time}` });
+                return;
+            }
+
+            const updates: Record<string, any> = {};
+            if (data.dateKey !== fields.dateKey) {
+                updates.dateKey = fields.dateKey;
+            }
+            if (fields.slotAt && toMillis(data.slotAt) !== fields.slotAt.getTime()) {
+                updates.slotAt = Timestamp.fromDate(fields.slotAt);
+            }
+            if (!fields.slotAt) {
+                report.unparseable.push({ id: apptDoc.id, value: `${data.date} ${data.time}` });
+            }
+
+            if (Object.keys(updates).length === 0) {
+                report.upToDate += 1;
+                return;
+            }
+            report.changed += 1;
+            batch.update(apptDoc.ref, updates);
+        });
+    }, lastId => {
+        checkpoint.appointments = { lastId, done: false };
+        saveCheckpoint(checkpoint);
+        console.log(`Scanned ${report.scanned} appointments, ${report.changed} ${dryRun ? 'to update' : 'updated'}...`);
+    });
+
+    checkpoint.appointments = { lastId: checkpoint.appointments?.lastId ?? null, done: true };
+    saveCheckpoint(checkpoint);
+}
+
+/**
+ * Copies of the doctor's break and extension entries that differ from what's
+ * stored only by a missing or stale `dateKey`, keyed by map field path.
+ */
+function buildDoctorUpdates(data: any, doctorId: string, report: Report): Record<string, any> {
+    const updates: Record<string, any> = {};
+
+    Object.entries<any[]>(data.breakPeriods || {}).forEach(([date, breaks]) => {
+        const dateKey = toDateKey(date);
+        if (!dateKey) {
+            report.unparseable.push({ id: `${doctorId} breakPeriods`, value: date });
+            return;
+        }
+        if (Array.isArray(breaks) && breaks.some(bp => bp?.dateKey !== dateKey)) {
+            updates[`breakPeriods.${date}`] = breaks.map(bp => ({ ...bp, dateKey }));
+        }
+    });
+
+    Object.entries<any>(data.availabilityExtensions || {}).forEach(([date, extension]) => {
+        const dateKey = toDateKey(date);
+        if (!dateKey) {
+            report.unparseable.push({ id: `${doctorId} availabilityExtensions`, value: date });
+            return;
+        }
+        const sessions = Array.isArray(extension?.sessions) ? extension.sessions : [];
+        const staleBreaks = sessions.some((s: any) => (s.breaks || []).some((bp: any) => bp?.dateKey !== dateKey));
+        if (extension?.dateKey !== dateKey || staleBreaks) {
+            updates[`availabilityExtensions.${date}`] = {
+                ...extension,
+                dateKey,
+                sessions: sessions.map((s: any) => ({
+                    ...s,
+                    breaks: (s.breaks || []).map((bp: any) => ({ ...bp, dateKey })),
+                })),
+            };
+        }
+    });
+
+    return updates;
+}
+
+async function migrateDoctors(checkpoint: Checkpoint, report: Report) {
+    if (checkpoint.doctors?.done) {
+        console.log('Doctors already migrated (see checkpoint), skipping.');
+        return;
+    }
+
+    console.log('--- Doctor breaks and extensions ---');
+    await forEachPage('doctors', checkpoint.doctors?.lastId ?? null, (docs, batch) => {
+        docs.forEach(doctorDoc => {
+            report.scanned += 1;
+            const updates = buildDoctorUpdates(doctorDoc.data(), doctorDoc.id, report);
+            if (Object.keys(updates).length === 0) {
+                report.upToDate += 1;
+                return;
+            }
+            report.changed += 1;
+            batch.update(doctorDoc.ref, updates);
+        });
+    }, lastId => {
+        checkpoint.doctors = { lastId, done: false };
+        saveCheckpoint(checkpoint);
+        console.log(`Scanned ${report.scanned} doctors, ${report.changed} ${dryRun ? 'to update' : 'updated'}...`);
+    });
+
+    checkpoint.doctors = { lastId: checkpoint.doctors?.lastId ?? null, done: true };
+    saveCheckpoint(checkpoint);
+}
+
+function printReport(name: string, report: Report) {
+    console.log(`\n${name}:`);
+    console.log(`  scanned:    ${report.scanned}`);
+    console.log(`  up to date: ${report.upToDate}`);
+    console.log(`  ${dryRun ? 'to update' : 'updated'}:  ${report.changed}`);
+    console.log(`  unparseable: ${report.unparseable.length}`);
+    report.unparseable.slice(0, 20).forEach(entry => console.log(`    ${entry.id}: "${entry.value}"`));
+    if (report.unparseable.length > 20) {
+        console.log(`    ...and ${report.unparseable.length - 20} more`);
+    }
+}
+
+async function migrateDateKeys() {
+    const checkpoint = loadCheckpoint();
+    console.log(dryRun ? 'DRY RUN: nothing will be written.' : `Checkpoint: ${CHECKPOINT_PATH}`);
+
+    const appointments = newReport();
+    const doctors = newReport();
+    await migrateAppointments(checkpoint, appointments);
+    await migrateDoctors(checkpoint, doctors);
+
+    console.log('\n=== Date key migration report ===');
+    printReport('Appointments', appointments);
+    printReport('Doctors', doctors);
+
+    if (!dryRun) {
+        console.log(`\nDone. Delete ${path.basename(CHECKPOINT_PATH)} (or pass --restart) to run it again from the start.`);
+    }
+}
+
+migrateDateKeys().then(() => process.exit(0)).catch(error => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,64 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { simulateClinicDay, type SimulationScript } from '../packages/shared-core/src/services/day-simulator';
+import { getClinicDateString, getClinicTimeString, parseClinicDate } from '../packages/shared-core/src/utils/date-utils';
+
+/**
+ * Replays a clinic day from a JSON script without touching Firestore.
+ *
+ * Usage:
+ *   npx ts-node scripts/simulate-day.ts <script.json> [--seed appointments.json]
+ *
+ * --seed loads an appointments export (see fetch-appointments.ts) and keeps the
+ * rows for the script's doctor and date as the starting state.
+ */
+function loadScript(): SimulationScript {
+    const [scriptArg, ...rest] = process.argv.slice(2);
+    if (!scriptArg) {
+        console.error('Usage: npx ts-node scripts/simulate-day.ts <script.json> [--seed appointments.json]');
+        process.exit(1);
+    }
+
+    const script: SimulationScript = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), scriptArg), 'utf-8'));
+
+    const seedFlag = rest.indexOf('--seed');
+    if (seedFlag !== -1 && rest[seedFlag + 1]) {
+        const seed = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), rest[seedFlag + 1]), 'utf-8'));
+        const dateStr = getClinicDateString(parseClinicDate(script.date));
+        script.appointments = [
+            ...(script.appointments ?? []),
+            ...seed.filter((appt: any) => appt.doctor === script.doctor.name && appt.date === dateStr),
+        ];
+        console.log(`Seeded ${script.appointments.length} appointments for ${script.doctor.name} on ${dateStr}`);
+    }
+
+    return script;
+}
+
+function run() {
+    const result = simulateClinicDay(loadScript());
+
+    console.log('--- TIMELINE ---');
+    result.steps.forEach(step => {
+        const label = `[${getClinicTimeString(step.at)}] ${step.event.type}${'ref' in step.event ? ` ${step.event.ref}` : ''}`;
+        console.log(step.error ? `${label} ❌ ${step.error}` : `${label} (${step.transitions.length} transitions)`);
+        step.transitions.forEach(transition => {
+            if (transition.type === 'create') {
+                console.log(`    + ${transition.appointment.tokenNumber} ${transition.appointment.patientName} @ ${transition.appointment.time} (slot ${transition.appointment.slotIndex})`);
+            } else if (transition.type === 'update') {
+                console.log(`    ~ ${transition.appointmentId} ${JSON.stringify(transition.changes)}`);
+            } else {
+                console.log(`    ~ doctor ${Object.keys(transition.changes).join(', ')}`);
+            }
+        });
+    });
+
+    console.log('--- FINAL QUEUE ---');
+    [...result.appointments]
+        .sort((a, b) => (a.slotIndex ?? 0) - (b.slotIndex ?? 0))
+        .forEach(appt => {
+            console.log(`Slot ${appt.slotIndex} | ${appt.time} | ${appt.tokenNumber} | ${appt.status} | ${appt.patientName}`);
+        });
+}
+
+run();